@@ -3,6 +3,11 @@ import FilterBar from "@/components/common/filter-bar";
 import CandidateTeaser from "@/components/common/candidate-teaser";
 import { supabaseServer } from "@/lib/supabase/server";
 import { getProvincesList } from "@/server/actions/provinces";
+import { touchSearchVisit } from "@/server/services/saved-searches";
+import { SavedSearches } from "@/features/candidates/components/saved-searches";
+import { pickSearchFilters } from "@/features/candidates/lib/search-filters";
+import { ShortlistPanel } from "@/features/candidates/components/shortlist-panel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export const metadata: Metadata = {
   title: "Cari Jodoh - Roomah",
@@ -27,8 +32,13 @@ export default async function Page({ searchParams }: PageProps) {
 
   let gender: "M" | "F" | undefined = undefined;
   let hideGenderFilter = false;
+  let hasCv = false;
+  let newSince: string | null = null;
 
   if (user) {
+    // Cutoff for the "baru sejak kunjungan terakhir" marker
+    newSince = await touchSearchVisit(supabase, user.id);
+
     // Check CV status first to determine if user has approved CV
     const { data: cvData } = await supabase
       .from("cv_data")
@@ -37,6 +47,7 @@ export default async function Page({ searchParams }: PageProps) {
       .maybeSingle();
 
     const cvStatus = cvData?.status;
+    hasCv = !!cvData;
     const isApproved = cvStatus === "APPROVED";
 
     // Get user's gender from profiles
@@ -65,34 +76,57 @@ export default async function Page({ searchParams }: PageProps) {
   // Fetch provinces server-side
   const provinces = await getProvincesList();
 
-  return (
-    <div className="space-y-6">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-foreground mb-2">
-          Temukan Pasangan Hidup Anda
-        </h1>
-        <p className="text-muted-foreground">
-          Platform Taaruf Islami untuk membangun keluarga sakinah
-        </p>
-      </div>
-
+  const searchResults = (
+    <>
       <FilterBar 
         hideGender={hideGenderFilter} 
         forceOppositeOfGender={gender} 
         provinces={provinces} 
+        canSortByMatch={hasCv}
       />
+      {user && <SavedSearches provinces={provinces} />}
       <CandidateTeaser
         page={page}
         pageSize={6}
         baseUrl="/cari-jodoh"
         currentUserId={user?.id}
+        newSince={newSince}
+        sortBy={hasCv && params.sort === "matched" ? "matched" : "recent"}
         filters={{
+          ...pickSearchFilters(params),
           gender: gender ? (gender === "M" ? "IKHWAN" : "AKHWAT") : (params.gender as string) ?? "",
-          ageRange: (params.ageRange as string) ?? "",
-          education: (params.education as string) ?? "",
-          province: (params.province as string) ?? "",
         }}
       />
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground mb-2">
+          Temukan Pasangan Hidup Anda
+        </h1>
+        <p className="text-muted-foreground">
+          Platform Taaruf Islami untuk membangun keluarga sakinah
+        </p>
+      </div>
+
+      {user ? (
+        <Tabs defaultValue={params.tab === "tersimpan" ? "tersimpan" : "semua"}>
+          <TabsList>
+            <TabsTrigger value="semua">Semua Kandidat</TabsTrigger>
+            <TabsTrigger value="tersimpan">Kandidat Tersimpan</TabsTrigger>
+          </TabsList>
+          <TabsContent value="semua" className="space-y-6">
+            {searchResults}
+          </TabsContent>
+          <TabsContent value="tersimpan">
+            <ShortlistPanel />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        searchResults
+      )}
     </div>
   );
 }
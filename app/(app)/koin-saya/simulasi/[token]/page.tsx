@@ -0,0 +1,44 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { PaymentSimulator } from "@/features/koin/components/payment-simulator";
+import { getPaymentGateway } from "@/server/services/payment-gateway";
+import { decodeFakeSnapToken } from "@/server/services/fake-payment-gateway";
+
+export const metadata: Metadata = {
+  title: "Simulasi Pembayaran - Roomah",
+  robots: "noindex",
+};
+
+type PageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function Page({ params }: PageProps) {
+  if (getPaymentGateway().name !== "fake") {
+    notFound();
+  }
+
+  const { token } = await params;
+  const decoded = decodeFakeSnapToken(token);
+
+  if (!decoded) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground mb-2">Simulasi Pembayaran</h1>
+        <p className="text-muted-foreground">
+          Gateway lokal untuk development &amp; testing. Tidak ada uang yang ditarik.
+        </p>
+      </div>
+
+      <PaymentSimulator
+        token={token}
+        orderId={decoded.orderId}
+        grossAmount={decoded.grossAmount}
+      />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Metadata } from "next";
 import { UserHeader } from "@/components/layout/user-header";
 import { UserBottomNav } from "@/components/layout/user-bottom-nav";
 import { ToastContainer } from "@/components/ui/toast-container";
+import { NotificationRealtime } from "@/features/notifications/components/notification-realtime";
 import { enforceOnboarding } from "@/server/guards";
 
 export const metadata: Metadata = {
@@ -33,6 +34,7 @@ export default async function AppLayout({
       </main>
       <UserBottomNav />
       <ToastContainer />
+      <NotificationRealtime />
     </>
   );
 }
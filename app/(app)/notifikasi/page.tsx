@@ -0,0 +1,28 @@
+import { Metadata } from "next";
+import { NotificationList } from "@/features/notifications/components/notification-list";
+import { NotificationPreferencesCard } from "@/features/notifications/components/notification-preferences";
+
+export const metadata: Metadata = {
+  title: "Notifikasi - Roomah",
+  description: "Kabar terbaru tentang proses Taaruf Anda",
+  robots: "noindex",
+};
+
+export default function Page() {
+  return (
+    <div className="space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground mb-2">
+          Notifikasi
+        </h1>
+        <p className="text-muted-foreground">
+          Kabar terbaru tentang CV dan proses Taaruf Anda
+        </p>
+      </div>
+
+      <NotificationList />
+
+      <NotificationPreferencesCard />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { Metadata } from "next";
 import { AuthCard } from "@/features/auth/components/auth-card";
 import { FiveQForm } from "@/features/auth/components/fiveq-form";
+import { getFiveQQuestions } from "@/server/actions/onboarding";
 
 export const metadata: Metadata = {
   title: "Verifikasi Kesiapan - Roomah",
@@ -8,7 +9,9 @@ export const metadata: Metadata = {
   robots: "noindex, nofollow",
 };
 
-export default function VerifikasiPage() {
+export default async function VerifikasiPage() {
+  const questions = await getFiveQQuestions();
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <div className="w-full max-w-2xl">
@@ -16,7 +19,7 @@ export default function VerifikasiPage() {
           title="Verifikasi Kesiapan Taaruf"
           subtitle="Jawab 5 pertanyaan berikut dengan jujur untuk memastikan kesiapan Anda"
         >
-          <FiveQForm />
+          <FiveQForm questions={questions} />
         </AuthCard>
       </div>
     </div>
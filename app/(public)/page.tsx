@@ -6,6 +6,7 @@ import FilterBar from "@/components/common/filter-bar";
 import CandidateTeaser from "@/components/common/candidate-teaser";
 import { getProvincesList } from "@/server/actions/provinces";
 import { createMetadata } from "@/lib/config/metadata";
+import { pickSearchFilters } from "@/features/candidates/lib/search-filters";
 
 // Revalidate every hour
 export const revalidate = 3600;
@@ -28,12 +29,7 @@ export default async function HomePage({ searchParams }: HomePageProps) {
   const provinces = await getProvincesList();
 
   // Extract filter params
-  const filters = {
-    gender: (sp.gender as string) ?? "",
-    ageRange: (sp.ageRange as string) ?? "",
-    education: (sp.education as string) ?? "",
-    province: (sp.province as string) ?? "",
-  };
+  const filters = pickSearchFilters(sp);
 
   return (
     <>
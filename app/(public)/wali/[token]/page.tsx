@@ -0,0 +1,41 @@
+import { Metadata } from "next";
+import { Card } from "@/components/ui/card";
+import { GuardianSession } from "@/features/taaruf/components/guardian-session";
+import { createAdminClient } from "@/server/db/client";
+import { getGuardianSessionView } from "@/server/services/taaruf-guardians";
+
+export const metadata: Metadata = {
+  title: "Wali Taaruf - Roomah",
+  robots: "noindex, nofollow",
+  // The token is in the path: don't hand it to other sites
+  referrer: "no-referrer",
+};
+
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function Page({ params }: PageProps) {
+  const { token } = await params;
+  const view = await getGuardianSessionView(createAdminClient(), token);
+
+  return (
+    <div className="section-y">
+      <div className="container mx-auto px-4 max-w-5xl">
+        {view ? (
+          <GuardianSession token={token} view={view} />
+        ) : (
+          <Card className="p-8 text-center space-y-2">
+            <h1 className="text-xl font-bold text-foreground">Tautan Tidak Berlaku</h1>
+            <p className="text-muted-foreground">
+              Tautan wali ini sudah kedaluwarsa atau taaruf telah selesai. Mintalah tautan baru
+              kepada peserta taaruf yang Anda dampingi melalui Roomah.
+            </p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,14 @@ import { Suspense } from "react";
 import { DashboardKpi } from "@/features/admin/components/dashboard-kpi";
 import { RecentTransactions } from "@/features/admin/components/recent-transactions";
 import { RecentTaaruf } from "@/features/admin/components/recent-taaruf";
+import { hasPermission } from "@/features/admin/lib/permissions";
+import { requireAdmin } from "@/server/authz";
+
+export default async function DashboardPage() {
+  const { role } = await requireAdmin("view_dashboard");
+  const canViewPayments = hasPermission(role, "view_payments");
+  const canViewTaaruf = hasPermission(role, "view_taaruf");
 
-export default function DashboardPage() {
   return (
     <div className="space-y-8">
       <div>
@@ -14,17 +20,21 @@ export default function DashboardPage() {
       </div>
 
       <Suspense fallback={<DashboardKpiSkeleton />}>
-        <DashboardKpi />
+        <DashboardKpi showFinance={canViewPayments} />
       </Suspense>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <Suspense fallback={<TableSkeleton />}>
-          <RecentTransactions />
-        </Suspense>
+        {canViewPayments && (
+          <Suspense fallback={<TableSkeleton />}>
+            <RecentTransactions />
+          </Suspense>
+        )}
 
-        <Suspense fallback={<TableSkeleton />}>
-          <RecentTaaruf />
-        </Suspense>
+        {canViewTaaruf && (
+          <Suspense fallback={<TableSkeleton />}>
+            <RecentTaaruf />
+          </Suspense>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,9 @@
 import { Suspense } from "react";
 import { CoinTransactionList } from "@/features/admin/components/coin-transaction-list";
+import { PaymentWebhookInbox } from "@/features/admin/components/payment-webhook-inbox";
 import { TableSkeleton } from "@/features/admin/components/table-skeleton";
+import { requireAdmin } from "@/server/authz";
+import { hasPermission } from "@/features/admin/lib/permissions";
 
 type PageProps = {
   searchParams: Promise<{
@@ -12,6 +15,8 @@ type PageProps = {
 };
 
 export default async function KoinTransaksiPage({ searchParams }: PageProps) {
+  const { role } = await requireAdmin("view_payments");
+
   const sp = await searchParams; // ⬅️ penting!
 
   const currentPage = parseInt((sp.page ?? "1") as string, 10);
@@ -37,8 +42,11 @@ export default async function KoinTransaksiPage({ searchParams }: PageProps) {
           status={status}
           from={from}
           to={to}
+          canRefund={hasPermission(role, "refund_payment")}
         />
       </Suspense>
+
+      <PaymentWebhookInbox />
     </div>
   );
 }
@@ -3,11 +3,14 @@ import { ReactNode } from "react";
 import { redirect } from "next/navigation";
 import { AdminShell } from "@/features/admin/components/admin-shell";
 import { supabaseServer } from "@/lib/supabase/server";
+import { getAdminRole } from "@/server/services/admin-roles";
+import { getAdminScopes } from "@/features/admin/lib/permissions";
 
 /**
  * Admin Layout with proper authentication and authorization
  * - Checks if user is authenticated
- * - Verifies user has admin privileges (is_admin = true)
+ * - Verifies user has admin privileges (is_admin = true + an admin role)
+ * - Sidebar scopes follow the admin's role
  * - Redirects non-admin users to login page
  */
 export default async function AdminLayout({
@@ -38,30 +41,24 @@ export default async function AdminLayout({
     redirect("/admin/login?error=profile_not_found");
   }
 
+  const role = await getAdminRole(supabase, user.id);
+
   // Check if user is admin
-  if (!profile.is_admin) {
+  if (!profile.is_admin || !role) {
     console.error("Non-admin user attempted to access admin panel:", user.email);
     // Sign out non-admin users
     await supabase.auth.signOut();
     redirect("/admin/login?error=access_denied");
   }
 
-  // Build admin user object with all permissions
+  // Build admin user object with the role's scopes
   const adminUser = {
     id: user.id,
     email: profile.email || user.email || "",
     name: profile.full_name || "Admin",
-    role: "admin" as const,
+    role,
     isAdmin: true, // Required by AdminShell component
-    scopes: [
-      "dashboard",
-      "cv_verification",
-      "account_management",
-      "taaruf_management",
-      "finance",
-      "posting_management",
-      "settings",
-    ],
+    scopes: getAdminScopes(role),
   };
 
   return <AdminShell user={adminUser}>{children}</AdminShell>;
@@ -0,0 +1,20 @@
+// app/admin/manajemen-admin/page.tsx
+import { AdminRoleManagement } from "@/features/admin/components/admin-role-management";
+import { requireAdmin } from "@/server/authz";
+
+export default async function ManajemenAdminPage() {
+  const { user } = await requireAdmin("manage_admins");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Manajemen Admin</h1>
+        <p className="text-muted-foreground">
+          Atur peran admin: reviewer CV, keuangan, moderator, dan superadmin
+        </p>
+      </div>
+
+      <AdminRoleManagement currentUserId={user.id} />
+    </div>
+  );
+}
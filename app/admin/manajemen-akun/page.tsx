@@ -2,6 +2,7 @@
 import { Suspense } from "react";
 import { AccountManagementList } from "@/features/admin/components/account-management-list";
 import { TableSkeleton } from "@/features/admin/components/table-skeleton";
+import { requireAdmin } from "@/server/authz";
 
 interface PageProps {
   // Next.js 15: searchParams adalah Promise
@@ -9,6 +10,8 @@ interface PageProps {
 }
 
 export default async function ManajemenAkunPage({ searchParams }: PageProps) {
+  await requireAdmin("view_accounts");
+
   const sp = await searchParams; // ← penting
 
   const pageParam = Array.isArray(sp.page) ? sp.page[0] : sp.page;
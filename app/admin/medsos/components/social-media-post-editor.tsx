@@ -0,0 +1,334 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { id as idLocale } from "date-fns/locale";
+import {
+  CalendarClock,
+  Copy,
+  Download,
+  ExternalLink,
+  RefreshCw,
+  Send,
+  XCircle,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/lib/toast";
+import {
+  adminPublishSocialMediaPost,
+  adminRegenerateSocialMediaPost,
+  adminRejectSocialMediaPost,
+  adminScheduleSocialMediaPost,
+  adminUpdateSocialMediaPostCaption,
+  type AdminSocialMediaPost,
+} from "@/server/actions/social-media";
+import {
+  EDITABLE_SOCIAL_POST_STATUSES,
+  SOCIAL_POST_CAPTION_MAX,
+  SOCIAL_POST_STATUS_LABELS,
+} from "@/features/cv/lib/social-post";
+
+interface SocialMediaPostEditorProps {
+  post: AdminSocialMediaPost | null;
+  onClose: () => void;
+  /** After any change; the list reloads */
+  onChanged: () => void;
+}
+
+type PendingAction = "caption" | "regenerate" | "schedule" | "publish" | "reject" | null;
+
+function scheduleFields(scheduledAt: string | null) {
+  if (!scheduledAt) return { date: "", time: "" };
+  const date = new Date(scheduledAt);
+  return { date: format(date, "yyyy-MM-dd"), time: format(date, "HH:mm") };
+}
+
+/**
+ * Everything an admin does with one post: preview and download the image
+ * card, edit the caption, schedule, mark published, or reject with refund
+ */
+export function SocialMediaPostEditor({ post, onClose, onChanged }: SocialMediaPostEditorProps) {
+  const [caption, setCaption] = useState("");
+  const [schedule, setSchedule] = useState({ date: "", time: "" });
+  const [postUrl, setPostUrl] = useState("");
+  const [rejectReason, setRejectReason] = useState("");
+  const [pending, setPending] = useState<PendingAction>(null);
+  // Bumped after regenerating so the image preview reloads
+  const [imageVersion, setImageVersion] = useState(0);
+
+  useEffect(() => {
+    setCaption(post?.caption || "");
+    setSchedule(scheduleFields(post?.scheduled_at ?? null));
+    setPostUrl(post?.post_url || "");
+    setRejectReason("");
+  }, [post]);
+
+  if (!post) return null;
+
+  const editable = EDITABLE_SOCIAL_POST_STATUSES.includes(post.status);
+  const imageUrl = `/api/admin/social-media-posts/${post.id}/image?v=${imageVersion}`;
+  const captionDirty = caption.trim() !== (post.caption || "");
+
+  const run = async (
+    action: Exclude<PendingAction, null>,
+    call: () => Promise<{ success: boolean; error?: string | null; message?: string }>,
+    { close = false }: { close?: boolean } = {}
+  ) => {
+    setPending(action);
+    try {
+      const result = await call();
+      if (!result.success) {
+        toast.error(result.error || "Gagal memproses postingan");
+        return;
+      }
+      toast.success(result.message || "Berhasil");
+      onChanged();
+      if (close) onClose();
+    } catch (error) {
+      console.error(`Error (${action}) social media post:`, error);
+      toast.error("Gagal memproses postingan");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleCopyCaption = async () => {
+    try {
+      await navigator.clipboard.writeText(caption);
+      toast.success("Caption disalin");
+    } catch {
+      toast.error("Gagal menyalin caption");
+    }
+  };
+
+  const handleRegenerate = () =>
+    run("regenerate", async () => {
+      const result = await adminRegenerateSocialMediaPost(post.id);
+      if (result.success && result.post) {
+        setCaption(result.post.caption || "");
+        setImageVersion((v) => v + 1);
+      }
+      return result;
+    });
+
+  const handleSchedule = (clear: boolean) => {
+    if (!clear && (!schedule.date || !schedule.time)) {
+      toast.error("Pilih tanggal dan jam posting");
+      return;
+    }
+
+    // Picked in the admin's local time; send an absolute instant
+    const scheduledAt = clear ? null : new Date(`${schedule.date}T${schedule.time}`).toISOString();
+    run("schedule", () => adminScheduleSocialMediaPost(post.id, scheduledAt), { close: true });
+  };
+
+  return (
+    <Dialog open={!!post} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto p-6">
+        <DialogHeader className="mb-4">
+          <DialogTitle className="flex items-center gap-3">
+            Postingan {post.cv_data?.kode_kandidat || post.card?.candidate_code || "-"}
+            <Badge variant={post.status === "REJECTED" ? "destructive" : post.status === "POSTED" ? "success" : "info"}>
+              {SOCIAL_POST_STATUS_LABELS[post.status]}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Image card */}
+          <div className="space-y-3">
+            {post.card ? (
+              <>
+                <img
+                  src={imageUrl}
+                  alt="Kartu postingan"
+                  className="w-full aspect-square rounded-lg border object-cover bg-muted"
+                />
+                <Button variant="outline" size="sm" className="w-full gap-2" asChild>
+                  <a href={`${imageUrl}&download=1`}>
+                    <Download className="h-4 w-4" />
+                    Unduh Gambar (1080×1080)
+                  </a>
+                </Button>
+              </>
+            ) : (
+              <div className="aspect-square rounded-lg border border-dashed flex items-center justify-center p-6 text-center text-sm text-muted-foreground">
+                Pengajuan ini dibuat sebelum kartu otomatis tersedia. Gunakan
+                &quot;Buat Ulang dari CV&quot; untuk membuat caption dan gambar.
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Caption */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="social-caption">Caption</Label>
+                <span className="text-xs text-muted-foreground">
+                  {caption.length}/{SOCIAL_POST_CAPTION_MAX}
+                </span>
+              </div>
+              <Textarea
+                id="social-caption"
+                value={caption}
+                rows={10}
+                maxLength={SOCIAL_POST_CAPTION_MAX}
+                readOnly={!editable}
+                onChange={(e) => setCaption(e.target.value)}
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="ghost" className="gap-2" onClick={handleCopyCaption} disabled={!caption}>
+                  <Copy className="h-4 w-4" />
+                  Salin
+                </Button>
+                {editable && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="gap-2"
+                      onClick={handleRegenerate}
+                      disabled={pending !== null}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      Buat Ulang dari CV
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => run("caption", () => adminUpdateSocialMediaPostCaption(post.id, caption))}
+                      disabled={!captionDirty || pending !== null}
+                    >
+                      {pending === "caption" ? "Menyimpan..." : "Simpan Caption"}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {editable && (
+              <>
+                {/* Schedule */}
+                <div className="space-y-2 pt-4 border-t">
+                  <Label>Jadwal Posting</Label>
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      type="date"
+                      className="w-auto"
+                      value={schedule.date}
+                      onChange={(e) => setSchedule({ ...schedule, date: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      className="w-auto"
+                      value={schedule.time}
+                      onChange={(e) => setSchedule({ ...schedule, time: e.target.value })}
+                    />
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      onClick={() => handleSchedule(false)}
+                      disabled={pending !== null}
+                    >
+                      <CalendarClock className="h-4 w-4" />
+                      {post.status === "SCHEDULED" ? "Ubah Jadwal" : "Jadwalkan"}
+                    </Button>
+                    {post.status === "SCHEDULED" && (
+                      <Button variant="ghost" onClick={() => handleSchedule(true)} disabled={pending !== null}>
+                        Batalkan Jadwal
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Publish */}
+                <div className="space-y-2 pt-4 border-t">
+                  <Label htmlFor="social-post-url">Link Postingan</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="social-post-url"
+                      type="url"
+                      placeholder="https://instagram.com/p/..."
+                      value={postUrl}
+                      onChange={(e) => setPostUrl(e.target.value)}
+                    />
+                    <Button
+                      className="gap-2 shrink-0"
+                      onClick={() => run("publish", () => adminPublishSocialMediaPost(post.id, postUrl), { close: true })}
+                      disabled={!postUrl.trim() || pending !== null}
+                    >
+                      <Send className="h-4 w-4" />
+                      Tandai Dipublikasikan
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Reject */}
+                <div className="space-y-2 pt-4 border-t">
+                  <Label htmlFor="social-reject-reason">Tolak Pengajuan</Label>
+                  <Textarea
+                    id="social-reject-reason"
+                    placeholder="Alasan penolakan (dikirim ke pengguna)"
+                    value={rejectReason}
+                    rows={2}
+                    maxLength={500}
+                    onChange={(e) => setRejectReason(e.target.value)}
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">5 koin dikembalikan otomatis ke pengguna.</p>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => run("reject", () => adminRejectSocialMediaPost(post.id, rejectReason), { close: true })}
+                      disabled={rejectReason.trim().length < 5 || pending !== null}
+                    >
+                      <XCircle className="h-4 w-4" />
+                      {pending === "reject" ? "Memproses..." : "Tolak & Refund"}
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {post.status === "POSTED" && (
+              <div className="pt-4 border-t text-sm space-y-1">
+                <p>
+                  Dipublikasikan{" "}
+                  {post.posted_at && format(new Date(post.posted_at), "d MMMM yyyy HH:mm", { locale: idLocale })}
+                </p>
+                {post.post_url && (
+                  <a
+                    href={post.post_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline break-all"
+                  >
+                    {post.post_url}
+                    <ExternalLink className="h-3 w-3 shrink-0" />
+                  </a>
+                )}
+              </div>
+            )}
+
+            {post.status === "REJECTED" && (
+              <div className="pt-4 border-t text-sm">
+                <span className="font-medium">Alasan penolakan:</span>
+                <p className="mt-1 text-muted-foreground">{post.rejected_reason || "-"}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,7 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Table,
   TableBody,
@@ -21,39 +22,33 @@ import {
 } from "@/components/ui/table";
 import {
   User,
-  Calendar,
   Eye,
-  CheckCircle2,
-  XCircle,
   Clock,
   AlertCircle,
+  PenSquare,
 } from "lucide-react";
 import {
-  adminGetPendingSocialMediaPosts,
-  adminApproveSocialMediaPost,
-  adminRejectSocialMediaPost,
+  adminGetSocialMediaPosts,
+  type AdminSocialMediaPost,
 } from "@/server/actions/social-media";
 import { loadCvDataByUserId } from "@/server/actions/cv-details";
+import { SOCIAL_POST_STATUS_LABELS } from "@/features/cv/lib/social-post";
+import type { SocialMediaPostStatus } from "@/types/database.types";
 import { toast } from "sonner";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import { id as idLocale } from "date-fns/locale";
+import { SocialMediaPostEditor } from "./social-media-post-editor";
 
-interface Post {
-  id: string;
-  user_id: string;
-  status: string;
-  created_at: string;
-  profiles: {
-    id: string;
-    full_name: string;
-    email: string;
-    gender: string;
-  } | null;
-  cv_data: {
-    kode_kandidat: string;
-    status: string;
-  } | null;
-}
+type Post = AdminSocialMediaPost;
+
+const STATUS_TABS: SocialMediaPostStatus[] = ["PENDING", "SCHEDULED", "POSTED", "REJECTED"];
+
+const EMPTY_MESSAGES: Record<SocialMediaPostStatus, string> = {
+  PENDING: "Belum ada pengajuan posting media sosial yang menunggu persetujuan.",
+  SCHEDULED: "Belum ada postingan yang dijadwalkan.",
+  POSTED: "Belum ada postingan yang dipublikasikan.",
+  REJECTED: "Belum ada pengajuan yang ditolak.",
+};
 
 interface CVDetailModalProps {
   open: boolean;
@@ -213,25 +208,48 @@ function CVDetailModal({ open, onClose, userId, userInfo }: CVDetailModalProps)
   );
 }
 
+function postTime(post: Post) {
+  if (post.status === "SCHEDULED" && post.scheduled_at) {
+    return format(new Date(post.scheduled_at), "d MMM yyyy HH:mm", { locale: idLocale });
+  }
+  if (post.status === "POSTED" && post.posted_at) {
+    return format(new Date(post.posted_at), "d MMM yyyy HH:mm", { locale: idLocale });
+  }
+  return formatDistanceToNow(new Date(post.status === "REJECTED" && post.reviewed_at ? post.reviewed_at : post.created_at), {
+    addSuffix: true,
+    locale: idLocale,
+  });
+}
+
+const TIME_HEADINGS: Record<SocialMediaPostStatus, string> = {
+  PENDING: "Waktu Pengajuan",
+  SCHEDULED: "Jadwal Posting",
+  POSTED: "Dipublikasikan",
+  REJECTED: "Ditolak",
+};
+
 export function SocialMediaPostsList() {
+  const [status, setStatus] = useState<SocialMediaPostStatus>("PENDING");
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
   const [showCVModal, setShowCVModal] = useState(false);
-  const [showRejectModal, setShowRejectModal] = useState(false);
-  const [postToReject, setPostToReject] = useState<string | null>(null);
-  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [editingPost, setEditingPost] = useState<Post | null>(null);
 
   useEffect(() => {
     loadPosts();
-  }, []);
+  }, [status]);
 
   const loadPosts = async () => {
     try {
       setLoading(true);
-      const result = await adminGetPendingSocialMediaPosts();
+      const result = await adminGetSocialMediaPosts(status);
       if (result.success) {
-        setPosts(result.posts as Post[]);
+        setPosts(result.posts);
+        // Keep the open editor in sync with the reloaded row
+        setEditingPost((current) =>
+          current ? result.posts.find((p) => p.id === current.id) || null : null
+        );
       } else {
         toast.error(result.error || "Failed to load posts");
       }
@@ -243,169 +261,110 @@ export function SocialMediaPostsList() {
     }
   };
 
-  const handleApprove = async (postId: string) => {
-    try {
-      setActionLoading(postId);
-      const result = await adminApproveSocialMediaPost(postId);
-      if (result.success) {
-        toast.success("Post approved successfully!");
-        loadPosts(); // Reload list
-      } else {
-        toast.error(result.error || "Failed to approve post");
-      }
-    } catch (error) {
-      toast.error("Failed to approve post");
-    } finally {
-      setActionLoading(null);
-    }
-  };
-
-  const handleReject = (postId: string) => {
-    setPostToReject(postId);
-    setShowRejectModal(true);
-  };
-
-  const confirmReject = async () => {
-    if (!postToReject) return;
-
-    try {
-      setActionLoading(postToReject);
-      const result = await adminRejectSocialMediaPost(postToReject);
-      if (result.success) {
-        toast.success(result.message || "Postingan ditolak dan koin dikembalikan");
-        loadPosts(); // Reload list
-      } else {
-        toast.error(result.error || "Gagal menolak postingan");
-      }
-    } catch (error) {
-      toast.error("Gagal menolak postingan");
-    } finally {
-      setActionLoading(null);
-      setShowRejectModal(false);
-      setPostToReject(null);
-    }
-  };
-
   const handleViewCV = (post: Post) => {
     setSelectedPost(post);
     setShowCVModal(true);
   };
 
-  if (loading) {
-    return (
-      <Card className="p-8">
-        <div className="text-center">
-          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto" />
-          <p className="text-sm text-muted-foreground mt-4">Loading posts...</p>
-        </div>
-      </Card>
-    );
-  }
-
-  if (posts.length === 0) {
-    return (
-      <Card className="p-8">
-        <div className="text-center">
-          <Clock className="h-12 w-12 mx-auto text-muted-foreground mb-4 opacity-50" />
-          <h3 className="text-lg font-semibold mb-2">Tidak Ada Pengajuan</h3>
-          <p className="text-sm text-muted-foreground">
-            Belum ada pengajuan posting media sosial yang menunggu persetujuan.
-          </p>
-        </div>
-      </Card>
-    );
-  }
-
   return (
     <>
       <Card>
         <div className="p-6">
-          <div className="flex items-center justify-between mb-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
             <div>
-              <h2 className="text-xl font-semibold">Antrian Postingan</h2>
+              <h2 className="text-xl font-semibold">Postingan Media Sosial</h2>
               <p className="text-sm text-muted-foreground mt-1">
-                {posts.length} pengajuan menunggu persetujuan
+                Caption dan gambar dibuat otomatis dari CV (tanpa nama dan foto)
               </p>
             </div>
-            <Button variant="outline" size="sm" onClick={loadPosts}>
-              Refresh
-            </Button>
+            <div className="flex items-center gap-2">
+              <Tabs value={status} onValueChange={(value) => setStatus(value as SocialMediaPostStatus)}>
+                <TabsList>
+                  {STATUS_TABS.map((tab) => (
+                    <TabsTrigger key={tab} value={tab}>
+                      {SOCIAL_POST_STATUS_LABELS[tab]}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <Button variant="outline" size="sm" onClick={loadPosts}>
+                Refresh
+              </Button>
+            </div>
           </div>
 
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Kandidat</TableHead>
-                  <TableHead>Gender</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Waktu Pengajuan</TableHead>
-                  <TableHead className="text-right">Aksi</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {posts.map((post) => (
-                  <TableRow key={post.id}>
-                    <TableCell>
-                      <div>
-                        <p className="font-medium">
-                          {post.profiles?.full_name || "Unknown"}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {post.cv_data?.kode_kandidat || "-"}
-                        </p>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline">
-                        {post.profiles?.gender === "IKHWAN" || post.profiles?.gender === "M" ? "Ikhwan" : "Akhwat"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-sm">{post.profiles?.email || "-"}</TableCell>
-                    <TableCell className="text-sm text-muted-foreground">
-                      {formatDistanceToNow(new Date(post.created_at), {
-                        addSuffix: true,
-                        locale: idLocale,
-                      })}
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center justify-end gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleViewCV(post)}
-                          className="gap-2"
-                        >
-                          <Eye className="h-4 w-4" />
-                          Lihat CV
-                        </Button>
-                        <Button
-                          variant="default"
-                          size="sm"
-                          onClick={() => handleApprove(post.id)}
-                          disabled={actionLoading === post.id}
-                          className="gap-1 bg-green-600 hover:bg-green-700 text-white"
-                        >
-                          <CheckCircle2 className="h-4 w-4" />
-                          Setujui
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleReject(post.id)}
-                          disabled={actionLoading === post.id}
-                          className="gap-1 bg-red-600 hover:bg-red-700"
-                        >
-                          <XCircle className="h-4 w-4" />
-                          Tolak
-                        </Button>
-                      </div>
-                    </TableCell>
+          {loading ? (
+            <div className="py-12 text-center">
+              <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto" />
+              <p className="text-sm text-muted-foreground mt-4">Loading posts...</p>
+            </div>
+          ) : posts.length === 0 ? (
+            <div className="py-12 text-center">
+              <Clock className="h-12 w-12 mx-auto text-muted-foreground mb-4 opacity-50" />
+              <h3 className="text-lg font-semibold mb-2">Tidak Ada Postingan</h3>
+              <p className="text-sm text-muted-foreground">{EMPTY_MESSAGES[status]}</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Kandidat</TableHead>
+                    <TableHead>Gender</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>{TIME_HEADINGS[status]}</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
+                </TableHeader>
+                <TableBody>
+                  {posts.map((post) => (
+                    <TableRow key={post.id}>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">
+                            {post.profiles?.full_name || "Unknown"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {post.cv_data?.kode_kandidat || "-"}
+                          </p>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {post.profiles?.gender === "IKHWAN" || post.profiles?.gender === "M" ? "Ikhwan" : "Akhwat"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{post.profiles?.email || "-"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {postTime(post)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleViewCV(post)}
+                            className="gap-2"
+                          >
+                            <Eye className="h-4 w-4" />
+                            Lihat CV
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => setEditingPost(post)}
+                            className="gap-2"
+                          >
+                            <PenSquare className="h-4 w-4" />
+                            {status === "PENDING" || status === "SCHEDULED" ? "Kelola" : "Detail"}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
         </div>
       </Card>
 
@@ -426,43 +385,11 @@ export function SocialMediaPostsList() {
         />
       )}
 
-      {/* Reject Confirmation Modal */}
-      <Dialog open={showRejectModal} onOpenChange={setShowRejectModal}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Konfirmasi Penolakan</DialogTitle>
-          </DialogHeader>
-          <div className="py-4">
-            <p className="text-sm text-muted-foreground">
-              Apakah Anda yakin ingin menolak postingan ini?
-            </p>
-            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
-              <p className="text-sm text-amber-900 font-medium">
-                ℹ️ 5 koin akan dikembalikan ke user
-              </p>
-            </div>
-          </div>
-          <DialogFooter className="gap-2">
-            <Button
-              variant="outline"
-              onClick={() => {
-                setShowRejectModal(false);
-                setPostToReject(null);
-              }}
-              disabled={actionLoading !== null}
-            >
-              Batal
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={confirmReject}
-              disabled={actionLoading !== null}
-            >
-              {actionLoading === postToReject ? "Memproses..." : "Tolak"}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <SocialMediaPostEditor
+        post={editingPost}
+        onClose={() => setEditingPost(null)}
+        onChanged={loadPosts}
+      />
     </>
   );
 }
@@ -1,7 +1,10 @@
 // app/admin/medsos/page.tsx
 import { SocialMediaPostsList } from "./components/social-media-posts-list";
+import { requireAdmin } from "@/server/authz";
 
 export default async function AdminMedsosPage() {
+  await requireAdmin("moderate_social_media");
+
   return (
     <div className="space-y-6">
       <div>
@@ -1,8 +1,9 @@
 // app/admin/pengaturan/page.tsx
 import { requireAdmin } from "@/server/authz";
+import { OnboardingQuestionSettings } from "@/features/admin/components/onboarding-question-settings";
 
 export default async function AdminPengaturanPage() {
-  await requireAdmin();
+  await requireAdmin("manage_settings");
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -71,6 +72,8 @@ export default async function AdminPengaturanPage() {
           </div>
         </div>
 
+        <OnboardingQuestionSettings />
+
         <div className="text-center py-8 text-muted-foreground">
           <p className="text-sm">
             Fitur edit pengaturan akan tersedia di versi berikutnya.
@@ -1,8 +1,11 @@
 import { Suspense } from "react";
 import { TaarufKanbanBoard } from "@/features/admin/components/taaruf-kanban-board";
 import { KanbanSkeleton } from "@/features/admin/components/kanban-skeleton";
+import { requireAdmin } from "@/server/authz";
+
+export default async function ProsesTaarufPage() {
+  await requireAdmin("view_taaruf");
 
-export default function ProsesTaarufPage() {
   return (
     <div className="space-y-6">
       <div>
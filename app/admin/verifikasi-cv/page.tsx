@@ -2,6 +2,7 @@
 import { Suspense } from "react";
 import { CvVerificationList } from "@/features/admin/components/cv-verification-list";
 import { TableSkeleton } from "@/features/admin/components/table-skeleton";
+import { requireAdmin } from "@/server/authz";
 
 interface PageProps {
   // Next.js 15: searchParams harus berupa Promise
@@ -9,6 +10,8 @@ interface PageProps {
 }
 
 export default async function VerifikasiCvPage({ searchParams }: PageProps) {
+  await requireAdmin("view_cv");
+
   const sp = await searchParams;
 
   // Handle array vs string agar aman
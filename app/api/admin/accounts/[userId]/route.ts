@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAdminClient, getCurrentUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { centsToKoin, getWalletBalance } from "@/server/services/wallet";
+import type { WalletTransaction } from "@/types/database.types";
+import { authorizeAdminApi } from "@/server/authz";
 
 /**
  * GET /api/admin/accounts/[userId]
@@ -10,28 +13,11 @@ export async function GET(
   { params }: { params: Promise<{ userId: string }> }
 ) {
   try {
-    // Verify admin
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { response } = await authorizeAdminApi("view_accounts");
+    if (response) return response;
 
     const supabase = createAdminClient();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .single();
-
-    if (!profile?.is_admin) {
-      return NextResponse.json(
-        { error: "Forbidden - Admin only" },
-        { status: 403 }
-      );
-    }
-
     const { userId } = await params;
 
     // Get user profile
@@ -52,23 +38,9 @@ export async function GET(
       .eq("user_id", userId)
       .maybeSingle();
 
-    // Get wallet balance
-    const { data: walletTransactions } = await supabase
-      .from("wallet_transactions")
-      .select("amount, transaction_type")
-      .eq("user_id", userId);
-
-    let coinBalance = 0;
-    if (walletTransactions && walletTransactions.length > 0) {
-      coinBalance = walletTransactions.reduce((sum, tx) => {
-        if (tx.transaction_type === "CREDIT" || tx.transaction_type === "TOPUP") {
-          return sum + tx.amount;
-        } else if (tx.transaction_type === "DEBIT" || tx.transaction_type === "EXPENSE") {
-          return sum - tx.amount;
-        }
-        return sum;
-      }, 0);
-    }
+    // Get wallet balance (ledger)
+    const walletBalance = await getWalletBalance(supabase, userId);
+    const coinBalance = centsToKoin(walletBalance.data?.balanceCents ?? 0);
 
     // Get activity log - combine multiple sources
     const activities: any[] = [];
@@ -94,19 +66,18 @@ export async function GET(
     // 2. Wallet Transactions
     const { data: walletHistory } = await supabase
       .from("wallet_transactions")
-      .select("amount, transaction_type, created_at")
+      .select("type, amount_cents, reason, created_at")
       .eq("user_id", userId)
       .order("created_at", { ascending: false })
       .limit(20);
 
     if (walletHistory) {
-      walletHistory.forEach((tx) => {
-        let desc = "";
-        if (tx.transaction_type === "TOPUP" || tx.transaction_type === "CREDIT") {
-          desc = `Top-up Koin: +${tx.amount}`;
-        } else {
-          desc = `Penggunaan Koin: -${tx.amount}`;
-        }
+      (walletHistory as Pick<WalletTransaction, "type" | "amount_cents" | "reason" | "created_at">[]).forEach((tx) => {
+        const koin = centsToKoin(tx.amount_cents);
+        const desc =
+          tx.type === "CREDIT"
+            ? `${tx.reason === "TOPUP" ? "Top-up Koin" : "Koin Masuk"}: +${koin}`
+            : `Penggunaan Koin: -${koin}`;
         activities.push({
           type: "coin_transaction",
           description: desc,
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAdminClient, getCurrentUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { centsToKoin, getWalletBalances } from "@/server/services/wallet";
+import { authorizeAdminApi } from "@/server/authz";
 
 /**
  * GET /api/admin/accounts
@@ -7,35 +9,11 @@ import { createAdminClient, getCurrentUser } from "@/lib/supabase/server";
  */
 export async function GET(request: NextRequest) {
   try {
-    // Verify admin
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const { response } = await authorizeAdminApi("view_accounts");
+    if (response) return response;
 
     const supabase = createAdminClient();
 
-    // Check if user is admin
-    const { data: profile, error: profileError } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .single();
-
-    console.log("Admin check - User ID:", user.id);
-    console.log("Admin check - Profile:", profile);
-    console.log("Admin check - Error:", profileError);
-
-    if (!profile?.is_admin) {
-      return NextResponse.json(
-        { error: "Forbidden - Admin only" },
-        { status: 403 }
-      );
-    }
-
     // Get query params
     const searchParams = request.nextUrl.searchParams;
     const page = parseInt(searchParams.get("page") || "1");
@@ -76,6 +54,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Ledger balances for the whole page in one query
+    const balances = await getWalletBalances(
+      supabase,
+      (accounts || []).map((account: { user_id: string }) => account.user_id)
+    );
+
     // Get additional data for each account
     const items = await Promise.all((accounts || []).map(async (account: any) => {
       // Get CV status
@@ -85,25 +69,6 @@ export async function GET(request: NextRequest) {
         .eq("user_id", account.user_id)
         .maybeSingle();
 
-      // Get wallet balance - use aggregate sum of all transactions
-      const { data: walletTransactions } = await supabase
-        .from("wallet_transactions")
-        .select("amount, transaction_type")
-        .eq("user_id", account.user_id);
-      
-      // Calculate balance from transactions
-      let balance = 0;
-      if (walletTransactions && walletTransactions.length > 0) {
-        balance = walletTransactions.reduce((sum, tx) => {
-          if (tx.transaction_type === "CREDIT" || tx.transaction_type === "TOPUP") {
-            return sum + tx.amount;
-          } else if (tx.transaction_type === "DEBIT" || tx.transaction_type === "EXPENSE") {
-            return sum - tx.amount;
-          }
-          return sum;
-        }, 0);
-      }
-
       return {
         userId: account.user_id,
         nama: account.full_name || "-",
@@ -111,7 +76,7 @@ export async function GET(request: NextRequest) {
         gender: account.gender || "M",
         createdAt: account.created_at,
         statusCv: cvData?.status || "draft",
-        coinBalance: balance,
+        coinBalance: centsToKoin(balances.get(account.user_id)?.balanceCents ?? 0),
       };
     }));
 
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import { ADMIN_ROLE_ERROR_STATUS, setAdminRole } from "@/server/services/admin-roles";
+import { updateAdminRoleSchema, validateRequest } from "@/lib/validations/api-schemas";
+import type { AdminRole } from "@/features/admin/lib/permissions";
+
+async function changeRole(actorId: string, userId: string, role: AdminRole | null) {
+  const supabase = createAdminClient();
+  const result = await setAdminRole(supabase, userId, role);
+
+  if (!result.success || !result.data) {
+    return NextResponse.json(
+      { error: result.error, errorCode: result.errorCode },
+      { status: (result.errorCode && ADMIN_ROLE_ERROR_STATUS[result.errorCode]) || 500 }
+    );
+  }
+
+  // Log activity (if audit_logs table exists)
+  try {
+    await supabase.from("audit_logs").insert({
+      actor_id: actorId,
+      action: role ? "CHANGE_ADMIN_ROLE" : "REVOKE_ADMIN_ROLE",
+      entity_type: "admin_role",
+      entity_id: userId,
+      changes: { role, previous_role: result.data.previousRole },
+    });
+  } catch (auditError) {
+    // Audit log is optional - don't fail the request
+    console.warn("Failed to create audit log:", auditError);
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: role ? "Peran admin berhasil diubah" : "Akses admin berhasil dicabut",
+    data: { userId, role },
+  });
+}
+
+/**
+ * PATCH /api/admin/admins/[userId]
+ * Change an admin's role. Body: { role }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_admins");
+    if (response) return response;
+
+    const validation = await validateRequest(request, updateAdminRoleSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { userId } = await params;
+    return await changeRole(user.id, userId, validation.data.role);
+  } catch (error) {
+    console.error("Error changing admin role:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/admins/[userId]
+ * Revoke admin access (the last superadmin can't be revoked)
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_admins");
+    if (response) return response;
+
+    const { userId } = await params;
+    return await changeRole(user.id, userId, null);
+  } catch (error) {
+    console.error("Error revoking admin role:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import {
+  ADMIN_ROLE_ERROR_STATUS,
+  listAdminMembers,
+  setAdminRole,
+} from "@/server/services/admin-roles";
+import { grantAdminRoleSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+/**
+ * GET /api/admin/admins
+ * List every admin with their role (superadmin only)
+ */
+export async function GET() {
+  try {
+    const { response } = await authorizeAdminApi("manage_admins");
+    if (response) return response;
+
+    const result = await listAdminMembers(createAdminClient());
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch admins" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, items: result.data });
+  } catch (error) {
+    console.error("Error in admins API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/admins
+ * Grant an admin role to an existing email account. Body: { email, role }
+ * Google OAuth accounts can't become admin.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_admins");
+    if (response) return response;
+
+    const validation = await validateRequest(request, grantAdminRoleSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { email, role } = validation.data;
+    const supabase = createAdminClient();
+
+    const { data } = await supabase
+      .from("profiles")
+      .select("user_id")
+      .eq("email", email)
+      .maybeSingle();
+
+    const target = data as { user_id: string } | null;
+
+    if (!target) {
+      return NextResponse.json(
+        { error: "Pengguna dengan email tersebut tidak ditemukan" },
+        { status: 404 }
+      );
+    }
+
+    const { data: authUser } = await supabase.auth.admin.getUserById(target.user_id);
+    if (authUser?.user?.app_metadata?.provider !== "email") {
+      return NextResponse.json(
+        { error: "Hanya akun email yang dapat dijadikan admin" },
+        { status: 400 }
+      );
+    }
+
+    const result = await setAdminRole(supabase, target.user_id, role);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: (result.errorCode && ADMIN_ROLE_ERROR_STATUS[result.errorCode]) || 500 }
+      );
+    }
+
+    // Log activity (if audit_logs table exists)
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: "GRANT_ADMIN_ROLE",
+        entity_type: "admin_role",
+        entity_id: target.user_id,
+        changes: { email, role, previous_role: result.data.previousRole },
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Peran admin berhasil diberikan",
+      data: { userId: target.user_id, role },
+    });
+  } catch (error) {
+    console.error("Error granting admin role:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAdminClient, getCurrentUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { centsToKoin, getWalletRefundSummary } from "@/server/services/wallet";
+import { authorizeAdminApi } from "@/server/authz";
 
 /**
  * GET /api/admin/coin-topups
@@ -7,31 +9,11 @@ import { createAdminClient, getCurrentUser } from "@/lib/supabase/server";
  */
 export async function GET(request: NextRequest) {
   try {
-    // Verify admin
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const { response } = await authorizeAdminApi("view_payments");
+    if (response) return response;
 
     const supabase = createAdminClient();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .single();
-
-    if (!profile?.is_admin) {
-      return NextResponse.json(
-        { error: "Forbidden - Admin only" },
-        { status: 403 }
-      );
-    }
-
     // Get query params
     const searchParams = request.nextUrl.searchParams;
     const page = parseInt(searchParams.get("page") || "1");
@@ -65,7 +47,7 @@ export async function GET(request: NextRequest) {
     const allTransactions = (walletTransactions || []).map(tx => {
       const user = profileMap.get(tx.user_id);
       const isCredit = tx.type === "CREDIT";
-      const amountInKoin = Math.abs(tx.amount_cents / 100);
+      const amountInKoin = centsToKoin(Math.abs(tx.amount_cents));
       
       // Map reason to readable description
       let description = "";
@@ -73,7 +55,7 @@ export async function GET(request: NextRequest) {
         case "TOPUP":
           description = "Top-up Koin";
           break;
-        case "TAARUF_FEE":
+        case "TAARUF_COST":
           description = "Biaya Pengajuan Ta'aruf";
           break;
         case "SOCIAL_MEDIA_POST":
@@ -114,7 +96,24 @@ export async function GET(request: NextRequest) {
     const total = filteredTransactions.length;
     const totalPages = Math.ceil(total / limit);
     const offset = (page - 1) * limit;
-    const paginatedTransactions = filteredTransactions.slice(offset, offset + limit);
+    const pageTransactions = filteredTransactions.slice(offset, offset + limit);
+
+    // Refunded / still refundable koin for spent (DEBIT) entries on this page
+    const refundSummary = await getWalletRefundSummary(
+      supabase,
+      pageTransactions
+        .filter((tx) => tx.transactionType === "DEBIT")
+        .map((tx) => Number(tx.transactionId))
+    );
+
+    const paginatedTransactions = pageTransactions.map((tx) => {
+      const refund = refundSummary.get(Number(tx.transactionId));
+      return {
+        ...tx,
+        refundedKoin: refund ? centsToKoin(refund.refundedCents) : 0,
+        refundableKoin: refund ? centsToKoin(refund.refundableCents) : 0,
+      };
+    });
 
     return NextResponse.json({
       success: true,
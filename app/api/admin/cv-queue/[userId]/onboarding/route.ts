@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import {
+  completeOnboardingInterview,
+  getOnboardingReview,
+} from "@/server/services/onboarding-questions";
+
+/**
+ * GET /api/admin/cv-queue/[userId]/onboarding
+ * The candidate's 5Q answers, the commitments they made and whether an
+ * admin interview is still pending. data is null when they never answered.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { response } = await authorizeAdminApi("view_cv");
+    if (response) return response;
+
+    const { userId } = await params;
+    const review = await getOnboardingReview(createAdminClient(), userId);
+
+    return NextResponse.json({ success: true, data: review });
+  } catch (error) {
+    console.error("Error in CV onboarding API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/cv-queue/[userId]/onboarding
+ * Mark the required admin interview as done (unblocks CV approval)
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("verify_cv");
+    if (response) return response;
+
+    const { userId } = await params;
+    const supabase = createAdminClient();
+    const result = await completeOnboardingInterview(supabase, userId, user.id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    // Log activity (if audit_logs table exists)
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: "COMPLETE_ONBOARDING_INTERVIEW",
+        entity_type: "onboarding_verification",
+        entity_id: userId,
+        changes: { interview_completed_at: result.data.interview_completed_at },
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Wawancara ditandai selesai",
+      data: { interviewCompletedAt: result.data.interview_completed_at },
+    });
+  } catch (error) {
+    console.error("Error completing onboarding interview:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { rejectCV } from "@/server/actions/admin-cv";
+import { reviseCvSchema, validateRequest } from "@/lib/validations/api-schemas";
+import { CV_REVISION_FIELDS } from "@/features/cv/lib/revision-fields";
 
 /**
  * POST /api/admin/cv-queue/[userId]/revise
- * Admin requests CV revision with a note
+ * Admin requests CV revision with a note and/or per-field comments
+ * Body: { note?: string, fields?: { field: CvRevisionFieldKey, comment: string }[] }
  */
 export async function POST(
   request: NextRequest,
@@ -19,19 +22,23 @@ export async function POST(
       );
     }
 
-    // Get note from request body
-    const body = await request.json();
-    const { note } = body;
-
-    if (!note || typeof note !== "string" || !note.trim()) {
+    const validation = await validateRequest(request, reviseCvSchema);
+    if (!validation.success) {
       return NextResponse.json(
-        { error: "Admin note is required for revision" },
+        { error: validation.error },
         { status: 400 }
       );
     }
 
+    const { note, fields } = validation.data;
+
+    // admin_note stays the summary shown on top of the user's form
+    const adminNote =
+      note ||
+      `Mohon perbaiki isian berikut: ${fields.map((f) => CV_REVISION_FIELDS[f.field].label).join(", ")}`;
+
     // Call server action
-    const result = await rejectCV(userId, note.trim());
+    const result = await rejectCV(userId, adminNote, fields);
 
     if (!result.success) {
       return NextResponse.json(
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/server/db/client";
+import { getAdminRole } from "@/server/services/admin-roles";
+import { hasPermission } from "@/features/admin/lib/permissions";
 
 /**
  * GET /api/admin/cv-queue/[userId]
@@ -31,14 +33,10 @@ export async function GET(
       );
     }
     
-    // Check if user is admin
-    const { data: adminProfile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .maybeSingle();
+    // Check admin role
+    const adminRole = await getAdminRole(supabase, user.id);
     
-    if (!adminProfile?.is_admin) {
+    if (!hasPermission(adminRole, "view_cv")) {
       return NextResponse.json(
         { error: "Unauthorized - Admin only" },
         { status: 403 }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { getAdminRole } from "@/server/services/admin-roles";
+import { hasPermission } from "@/features/admin/lib/permissions";
+import { getCvRevisionDiff } from "@/server/services/cv-versions";
+
+/**
+ * GET /api/admin/cv-queue/[userId]/versions
+ * Field-by-field diff of the current submission against the last reviewed
+ * version, plus that review's admin note. data is null when no snapshot exists.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "User ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Verify admin
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    // Check admin role
+    const adminRole = await getAdminRole(supabase, user.id);
+
+    if (!hasPermission(adminRole, "view_cv")) {
+      return NextResponse.json(
+        { error: "Unauthorized - Admin only" },
+        { status: 403 }
+      );
+    }
+
+    const diff = await getCvRevisionDiff(supabase, userId);
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    });
+
+  } catch (error) {
+    console.error("Error in CV versions API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
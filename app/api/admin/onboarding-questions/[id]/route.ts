@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import { updateOnboardingQuestion } from "@/server/services/onboarding-questions";
+import {
+  updateOnboardingQuestionSchema,
+  validateRequest,
+} from "@/lib/validations/api-schemas";
+
+/**
+ * PATCH /api/admin/onboarding-questions/[id]
+ * Change wording / consequence of one question.
+ * Body: { question, commitmentText?, negativeConsequence, blockMessage? }
+ * Answers given before keep the flags they were saved with.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_settings");
+    if (response) return response;
+
+    const { id } = await params;
+    const questionId = parseInt(id, 10);
+
+    if (!Number.isInteger(questionId) || questionId < 1 || questionId > 5) {
+      return NextResponse.json(
+        { error: "Invalid question ID" },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateRequest(request, updateOnboardingQuestionSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const result = await updateOnboardingQuestion(
+      supabase,
+      questionId,
+      validation.data,
+      user.id
+    );
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.errorCode === "NOT_FOUND" ? 404 : 500 }
+      );
+    }
+
+    // Log activity (if audit_logs table exists)
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: "UPDATE_ONBOARDING_QUESTION",
+        entity_type: "onboarding_question",
+        entity_id: String(questionId),
+        changes: validation.data,
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Pertanyaan berhasil diperbarui",
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("Error updating onboarding question:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
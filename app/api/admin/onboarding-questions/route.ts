@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import { listOnboardingQuestions } from "@/server/services/onboarding-questions";
+
+/**
+ * GET /api/admin/onboarding-questions
+ * The five onboarding questions with their consequences
+ */
+export async function GET() {
+  try {
+    const { response } = await authorizeAdminApi("manage_settings");
+    if (response) return response;
+
+    const result = await listOnboardingQuestions(createAdminClient());
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch onboarding questions" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, items: result.data });
+  } catch (error) {
+    console.error("Error in onboarding questions API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
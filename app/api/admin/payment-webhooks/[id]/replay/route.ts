@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { replayPaymentNotification } from "@/server/services/payment-webhooks";
+import { authorizeAdminApi } from "@/server/authz";
+
+/**
+ * POST /api/admin/payment-webhooks/[id]/replay
+ * Re-process one stored Midtrans notification. Safe to repeat: ledger
+ * entries are keyed per order/refund, so nothing is credited twice.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("replay_payment_webhook");
+    if (response) return response;
+
+    const supabase = createAdminClient();
+
+    const { id } = await params;
+    const inboxId = Number(id);
+
+    if (!Number.isInteger(inboxId) || inboxId <= 0) {
+      return NextResponse.json(
+        { error: "Invalid notification id" },
+        { status: 400 }
+      );
+    }
+
+    const result = await replayPaymentNotification(inboxId);
+
+    if (!result.success) {
+      const status =
+        result.errorCode === "INBOX_NOT_FOUND" || result.errorCode === "ORDER_NOT_FOUND"
+          ? 404
+          : 500;
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status }
+      );
+    }
+
+    // Log activity (if audit_logs table exists)
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: "REPLAY_PAYMENT_WEBHOOK",
+        entity_type: "payment_webhook_inbox",
+        entity_id: String(inboxId),
+        changes: {
+          order_id: result.data.order_id,
+          order_status: result.data.order_status,
+          ledger_entries: result.data.ledger_entries,
+          result: result.data.result,
+        },
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Notifikasi berhasil diproses ulang",
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("Replay payment webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listPaymentNotifications,
+  type PaymentNotificationFilter,
+} from "@/server/services/payment-webhooks";
+import { authorizeAdminApi } from "@/server/authz";
+
+const FILTERS: PaymentNotificationFilter[] = ["all", "unprocessed", "failed"];
+
+/**
+ * GET /api/admin/payment-webhooks
+ * Midtrans notification inbox (newest first)
+ * Query: filter=all|unprocessed|failed, orderId, page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorizeAdminApi("view_payments");
+    if (response) return response;
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "10");
+    const filterParam = searchParams.get("filter") || "all";
+    const filter = FILTERS.includes(filterParam as PaymentNotificationFilter)
+      ? (filterParam as PaymentNotificationFilter)
+      : "all";
+    const orderId = searchParams.get("orderId") || "";
+
+    const result = await listPaymentNotifications({ filter, orderId, page, limit });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch notifications" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Error in payment-webhooks API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
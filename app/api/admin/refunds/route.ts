@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import { listWalletRefunds } from "@/server/services/wallet";
+import { refundTransaction } from "@/features/admin/server/payments";
+import { AppError } from "@/lib/api/error";
+
+/**
+ * GET /api/admin/refunds
+ * Refund history (newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorizeAdminApi("view_payments");
+    if (response) return response;
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "10")));
+
+    const result = await listWalletRefunds(createAdminClient(), { page, limit });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch refunds" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("Error in refunds API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/refunds
+ * Refund koin spent on a ta'aruf request / social media post.
+ * Body: { transactionId, amountKoin?, reason } - without amountKoin the
+ * whole remaining amount is refunded.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorizeAdminApi("refund_payment");
+    if (response) return response;
+
+    const body = await request.json().catch(() => null);
+    const result = await refundTransaction(user.id, body);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, errorCode: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Error refunding transaction:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
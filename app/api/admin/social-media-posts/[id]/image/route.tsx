@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import { getSocialMediaPost } from "@/server/services/social-media-posts";
+import {
+  anonymiseSocialText,
+  SOCIAL_POST_IMAGE_SIZE,
+  socialPostFacts,
+  socialPostGenderLabel,
+} from "@/features/cv/lib/social-post";
+
+// Brand colours (globals.css --primary / --warning)
+const PRIMARY = "#318160";
+const ACCENT = "#EEBD2B";
+
+/**
+ * GET /api/admin/social-media-posts/[id]/image
+ * Square image card (1080x1080 PNG) rendered from the post's anonymised
+ * card. ?download=1 serves it as an attachment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await authorizeAdminApi("moderate_social_media");
+    if (response) return response;
+
+    const { id } = await params;
+    const post = await getSocialMediaPost(createAdminClient(), id);
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!post.card) {
+      return NextResponse.json(
+        { error: "Postingan belum memiliki kartu, buat ulang dari CV terlebih dahulu" },
+        { status: 409 }
+      );
+    }
+
+    const card = post.card;
+    const code = card.candidate_code || "-";
+    const vision = anonymiseSocialText(card.vision, 180);
+
+    const headers: Record<string, string> = { "Cache-Control": "private, no-store" };
+    if (request.nextUrl.searchParams.get("download") === "1") {
+      headers["Content-Disposition"] = `attachment; filename="roomah-${code}.png"`;
+    }
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            padding: 96,
+            background: PRIMARY,
+            color: "white",
+            fontFamily: "sans-serif",
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", fontSize: 40, letterSpacing: 8, color: ACCENT }}>
+              ROOMAH
+            </div>
+            <div style={{ display: "flex", fontSize: 44, marginTop: 48, opacity: 0.9 }}>
+              {`${socialPostGenderLabel(card)} mencari pasangan`}
+            </div>
+            <div style={{ display: "flex", fontSize: 120, fontWeight: 700, marginTop: 8 }}>
+              {code}
+            </div>
+          </div>
+
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            {socialPostFacts(card).map((fact) => (
+              <div key={fact.label} style={{ display: "flex", fontSize: 44, marginTop: 16 }}>
+                <span style={{ width: 300, opacity: 0.75 }}>{fact.label}</span>
+                <span style={{ fontWeight: 700 }}>{fact.value}</span>
+              </div>
+            ))}
+            {vision && (
+              <div
+                style={{
+                  display: "flex",
+                  marginTop: 48,
+                  paddingLeft: 32,
+                  borderLeft: `8px solid ${ACCENT}`,
+                  fontSize: 36,
+                  lineHeight: 1.4,
+                }}
+              >
+                {`"${vision}"`}
+              </div>
+            )}
+          </div>
+
+          <div style={{ display: "flex", fontSize: 32, opacity: 0.85 }}>
+            {`Cari kode ${code} di Roomah dan ajukan taaruf`}
+          </div>
+        </div>
+      ),
+      {
+        width: SOCIAL_POST_IMAGE_SIZE,
+        height: SOCIAL_POST_IMAGE_SIZE,
+        headers,
+      }
+    );
+  } catch (error) {
+    console.error("Error in /api/admin/social-media-posts/[id]/image:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { listSessionMeetings } from "@/server/services/taaruf-meetings";
+import { authorizeAdminApi } from "@/server/authz";
+
+/**
+ * GET /api/admin/taaruf/[id]/meetings
+ * Meetings of a taaruf session (oldest first), with moderator names
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await authorizeAdminApi("view_taaruf");
+    if (response) return response;
+
+    const supabase = createServiceClient();
+
+    const { id: taarufId } = await params;
+
+    const result = await listSessionMeetings(supabase, Number(taarufId));
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch meetings" },
+        { status: 500 }
+      );
+    }
+
+    const moderatorIds = [...new Set(result.data.map((m) => m.moderator_id).filter(Boolean))] as string[];
+    const { data: moderators } = moderatorIds.length
+      ? await supabase.from("profiles").select("user_id, full_name").in("user_id", moderatorIds)
+      : { data: [] };
+    const moderatorMap = new Map(
+      ((moderators || []) as { user_id: string; full_name: string }[]).map((m) => [m.user_id, m.full_name])
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.map((m) => ({
+        ...m,
+        moderator_name: m.moderator_id ? moderatorMap.get(m.moderator_id) || "Unknown" : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Get taaruf meetings error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
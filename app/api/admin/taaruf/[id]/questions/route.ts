@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { listSessionThread } from "@/server/services/taaruf-qa";
+import { authorizeAdminApi } from "@/server/authz";
+
+/**
+ * GET /api/admin/taaruf/[id]/questions
+ * Full Q&A thread of a taaruf session, pending messages included
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await authorizeAdminApi("view_taaruf");
+    if (response) return response;
+
+    const supabase = createServiceClient();
+
+    const { id: taarufId } = await params;
+
+    const result = await listSessionThread(supabase, Number(taarufId));
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to fetch Q&A thread" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Get taaruf Q&A error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,51 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/supabase/server";
 import { createServiceClient } from "@/lib/supabase/server";
+import { updateTaarufStageSchema, validateRequest } from "@/lib/validations/api-schemas";
+import {
+  canTransition,
+  describeIllegalTransition,
+  isTerminalStage,
+  requiresReason,
+  type TaarufStage,
+} from "@/features/taaruf/lib/stages";
+import type { ChangeTaarufStageResult, TaarufStageHistory } from "@/types/database.types";
+import { authorizeAdminApi } from "@/server/authz";
+import { cancelSessionMeetings } from "@/server/services/taaruf-meetings";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const { user, response } = await authorizeAdminApi("manage_taaruf");
+    if (response) return response;
 
     const supabase = createServiceClient();
-    
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .single();
-
-    if (!profile?.is_admin) {
-      return NextResponse.json(
-        { error: "Forbidden - Admin only" },
-        { status: 403 }
-      );
-    }
 
     const { id: taarufId } = await params;
-    const body = await request.json();
-    const { newStage } = body;
 
-    if (!newStage) {
+    const validation = await validateRequest(request, updateTaarufStageSchema);
+    if (!validation.success) {
       return NextResponse.json(
-        { error: "Missing newStage parameter" },
+        { error: validation.error },
         { status: 400 }
       );
     }
 
+    const { newStage, reason } = validation.data;
+
     // Get current taaruf session details
     const { data: taaruf, error: taarufError } = await supabase
       .from("taaruf_sessions")
-      .select("user_a, user_b, status, taaruf_code")
+      .select("user_a, user_b, status, taaruf_code, current_stage")
       .eq("id", taarufId)
       .single();
 
@@ -57,58 +49,121 @@ export async function POST(
       );
     }
 
-    // Handle status changes based on stage
-    // If stage is "Khitbah" → mark CV as "in khitbah" to hide from candidate listings
-    // If stage is "Selesai" → mark taaruf session as FINISHED
-    
+    const currentStage = taaruf.current_stage as TaarufStage;
+
+    if (!canTransition(currentStage, newStage)) {
+      return NextResponse.json(
+        {
+          error: describeIllegalTransition(currentStage, newStage),
+          currentStage,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (requiresReason(newStage) && !reason) {
+      return NextResponse.json(
+        { error: `Alasan wajib diisi untuk memindah ke ${newStage}` },
+        { status: 400 }
+      );
+    }
+
+    // Compare-and-set stage + history row in one transaction.
+    // Selesai/Dibatalkan also end the session (status + ended_at).
+    const { data: changeData, error: changeError } = await supabase
+      .rpc("change_taaruf_stage", {
+        p_session_id: Number(taarufId),
+        p_from_stage: currentStage,
+        p_to_stage: newStage,
+        p_changed_by: user.id,
+        p_reason: reason || null,
+      })
+      .single();
+
+    const change = changeData as ChangeTaarufStageResult | null;
+
+    if (changeError || !change) {
+      console.error("Change taaruf stage error:", changeError);
+      return NextResponse.json(
+        { error: "Gagal memperbarui tahap" },
+        { status: 500 }
+      );
+    }
+
+    if (change.error_code === "SESSION_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "Taaruf session not found" },
+        { status: 404 }
+      );
+    }
+
+    if (change.error_code === "STAGE_CONFLICT") {
+      // Someone else moved the card since we read it
+      return NextResponse.json(
+        {
+          error: `Tahap sudah diubah ke ${change.current_stage} oleh admin lain. Silakan refresh.`,
+          currentStage: change.current_stage,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Keep CV visibility in sync with the stage
+    // Khitbah → hide from candidate listings
+    // Selesai / Dibatalkan → allow them to appear in search again
     if (newStage === "Khitbah") {
-      // Mark CV as "in khitbah" - hide from candidate listings
       await supabase
         .from("cv_data")
         .update({ taaruf_status: "DALAM_KHITBAH" })
         .in("user_id", [taaruf.user_a, taaruf.user_b]);
-    } else if (newStage === "Selesai") {
-      // Mark taaruf session as FINISHED
-      await supabase
-        .from("taaruf_sessions")
-        .update({ 
-          status: "FINISHED",
-          ended_at: new Date().toISOString()
-        })
-        .eq("id", taarufId);
-      
-      // Reset CV status back to normal (allow them to appear in search again)
+    } else if (isTerminalStage(newStage)) {
       await supabase
         .from("cv_data")
         .update({ taaruf_status: null })
         .in("user_id", [taaruf.user_a, taaruf.user_b]);
+
+      // The session is over - its open meetings won't happen
+      await cancelSessionMeetings(
+        supabase,
+        Number(taarufId),
+        `Taaruf dipindah ke tahap ${newStage}`,
+        user.id
+      );
     }
 
-    // Store stage update notification for tracking
-    // This allows kanban to show current stage
+    // Let both participants know (stage itself lives in taaruf_sessions)
+    const stageMessage =
+      newStage === "Dibatalkan"
+        ? `Ta'aruf ${taaruf.taaruf_code} dibatalkan oleh admin. Alasan: ${reason}`
+        : `Tahap Ta'aruf ${taaruf.taaruf_code} telah diperbarui ke: ${newStage}`;
+
     const notifications = [
       {
         user_id: taaruf.user_a, // Notify user A
         type: "TAARUF_STAGE_UPDATED",
         title: "Tahap Ta'aruf Diperbarui",
-        message: `Tahap Ta'aruf ${taaruf.taaruf_code} telah diperbarui ke: ${newStage}`,
+        message: stageMessage,
         data: {
           taaruf_id: parseInt(taarufId),
           taaruf_code: taaruf.taaruf_code,
           stage: newStage,
-          updated_at: new Date().toISOString(),
+          previous_stage: currentStage,
+          reason: reason || null,
+          updated_at: change.changed_at,
         },
       },
       {
         user_id: taaruf.user_b, // Notify user B
         type: "TAARUF_STAGE_UPDATED",
         title: "Tahap Ta'aruf Diperbarui",
-        message: `Tahap Ta'aruf ${taaruf.taaruf_code} telah diperbarui ke: ${newStage}`,
+        message: stageMessage,
         data: {
           taaruf_id: parseInt(taarufId),
           taaruf_code: taaruf.taaruf_code,
           stage: newStage,
-          updated_at: new Date().toISOString(),
+          previous_stage: currentStage,
+          reason: reason || null,
+          updated_at: change.changed_at,
         },
       },
     ];
@@ -120,10 +175,12 @@ export async function POST(
       await supabase.from("audit_logs").insert({
         actor_id: user.id,
         action: "UPDATE_TAARUF_STAGE",
-        entity_type: "taaruf_requests",
+        entity_type: "taaruf_sessions",
         entity_id: taarufId,
         changes: {
+          from_stage: currentStage,
           new_stage: newStage,
+          reason: reason || null,
         },
       });
     } catch (auditError) {
@@ -134,6 +191,11 @@ export async function POST(
     return NextResponse.json({
       success: true,
       message: `Tahap berhasil diperbarui ke ${newStage}`,
+      data: {
+        stage: newStage,
+        historyId: change.history_id,
+        changedAt: change.changed_at,
+      },
     });
   } catch (error) {
     console.error("Update stage error:", error);
@@ -143,3 +205,62 @@ export async function POST(
     );
   }
 }
+
+/**
+ * GET /api/admin/taaruf/[id]/stage
+ * Stage history of a taaruf session (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await authorizeAdminApi("view_taaruf");
+    if (response) return response;
+
+    const supabase = createServiceClient();
+
+    const { id: taarufId } = await params;
+
+    const { data: history, error } = await supabase
+      .from("taaruf_stage_history")
+      .select("id, from_stage, to_stage, changed_by, reason, created_at")
+      .eq("session_id", taarufId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Stage history fetch error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch stage history" },
+        { status: 500 }
+      );
+    }
+
+    const rows = (history || []) as TaarufStageHistory[];
+    const actorIds = [...new Set(rows.map((h) => h.changed_by).filter(Boolean))] as string[];
+    const { data: actors } = actorIds.length
+      ? await supabase.from("profiles").select("user_id, full_name").in("user_id", actorIds)
+      : { data: [] };
+    const actorMap = new Map(
+      ((actors || []) as { user_id: string; full_name: string }[]).map((a) => [a.user_id, a.full_name])
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: rows.map((h) => ({
+        id: h.id,
+        fromStage: h.from_stage,
+        toStage: h.to_stage,
+        reason: h.reason,
+        changedAt: h.created_at,
+        changedBy: h.changed_by ? actorMap.get(h.changed_by) || "Unknown" : "Sistem",
+      })),
+    });
+  } catch (error) {
+    console.error("Get stage history error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
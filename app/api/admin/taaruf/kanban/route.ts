@@ -1,37 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAdminClient, getCurrentUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { TAARUF_STAGES, type TaarufStage } from "@/features/taaruf/lib/stages";
+import { authorizeAdminApi } from "@/server/authz";
+
+function emptyKanban() {
+  return Object.fromEntries(
+    TAARUF_STAGES.map((stage) => [stage, [] as unknown[]])
+  ) as Record<TaarufStage, unknown[]>;
+}
 
 /**
  * GET /api/admin/taaruf/kanban
- * Get taaruf requests organized by status for kanban board
+ * Get taaruf sessions organized by current_stage for kanban board
  */
 export async function GET(request: NextRequest) {
   try {
-    // Verify admin
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+    const { response } = await authorizeAdminApi("view_taaruf");
+    if (response) return response;
 
     const supabase = createAdminClient();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .single();
-
-    if (!profile?.is_admin) {
-      return NextResponse.json(
-        { error: "Forbidden - Admin only" },
-        { status: 403 }
-      );
-    }
-
     // Get all active taaruf sessions (not requests!)
     // Kanban board should show ACTIVE taaruf sessions that admin can manage
     const { data: taarufSessions, error } = await supabase
@@ -42,6 +30,8 @@ export async function GET(request: NextRequest) {
         user_a,
         user_b,
         status,
+        current_stage,
+        stage_updated_at,
         started_at,
         ended_at
       `)
@@ -57,25 +47,6 @@ export async function GET(request: NextRequest) {
 
     // Fetch user names and CV data for all users involved
     if (taarufSessions && taarufSessions.length > 0) {
-      // Fetch stage info from notifications (TAARUF_STAGE_UPDATED type)
-      const { data: stageNotifications } = await supabase
-        .from("notifications")
-        .select("data")
-        .eq("type", "TAARUF_STAGE_UPDATED")
-        .order("created_at", { ascending: false });
-      
-      // Build stage map (taaruf_session_id -> latest stage)
-      const stageMap = new Map();
-      if (stageNotifications) {
-        for (const notif of stageNotifications) {
-          const taarufId = notif.data?.taaruf_id;
-          const stage = notif.data?.stage;
-          if (taarufId && stage && !stageMap.has(String(taarufId))) {
-            stageMap.set(String(taarufId), stage);
-          }
-        }
-      }
-      
       const userIds = [...new Set([
         ...taarufSessions.map(t => t.user_a),
         ...taarufSessions.map(t => t.user_b)
@@ -106,20 +77,6 @@ export async function GET(request: NextRequest) {
         const userACV = cvMap.get(session.user_a);
         const userBCV = cvMap.get(session.user_b);
         
-        // Get stage from stageMap (from notifications) or fallback to default
-        let stage = stageMap.get(String(session.id));
-        
-        // Fallback if no stage notification found
-        if (!stage) {
-          if (session.status === "ACTIVE") {
-            stage = "Zoom 1"; // Default for newly accepted
-          } else if (session.status === "FINISHED") {
-            stage = "Selesai";
-          } else {
-            stage = "Zoom 1"; // Default
-          }
-        }
-        
         return {
           id: session.id, // This is taaruf_sessions.id now! ✅
           taaruf_code: session.taaruf_code,
@@ -127,8 +84,8 @@ export async function GET(request: NextRequest) {
             userACV?.candidate_code || userAProfile?.full_name || "Unknown",
             userBCV?.candidate_code || userBProfile?.full_name || "Unknown"
           ],
-          stage,
-          lastUpdate: session.started_at,
+          stage: session.current_stage as TaarufStage,
+          lastUpdate: session.stage_updated_at || session.started_at,
           status: session.status,
           user_a: session.user_a,
           user_b: session.user_b,
@@ -159,25 +116,16 @@ export async function GET(request: NextRequest) {
       });
 
       // Organize by stage for kanban board
-      const kanban = {
-        "Pengajuan": taarufCards.filter(c => c.stage === "Pengajuan"),
-        "Zoom 1": taarufCards.filter(c => c.stage === "Zoom 1"),
-        "Zoom 2": taarufCards.filter(c => c.stage === "Zoom 2"),
-        "Khitbah": taarufCards.filter(c => c.stage === "Khitbah"),
-        "Selesai": taarufCards.filter(c => c.stage === "Selesai"),
-      };
+      const kanban = emptyKanban();
+      for (const card of taarufCards) {
+        kanban[card.stage]?.push(card);
+      }
 
       return NextResponse.json(kanban);
     }
 
     // Empty state - return empty arrays for each stage
-    return NextResponse.json({
-      "Pengajuan": [],
-      "Zoom 1": [],
-      "Zoom 2": [],
-      "Khitbah": [],
-      "Selesai": [],
-    });
+    return NextResponse.json(emptyKanban());
 
   } catch (error) {
     console.error("Error in taaruf kanban API:", error);
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { updateTaarufMeetingSchema, validateRequest } from "@/lib/validations/api-schemas";
+import {
+  MEETING_ERROR_STATUS,
+  cancelMeeting,
+  recordMeetingOutcome,
+  rescheduleMeeting,
+  updateModeratorNotes,
+} from "@/server/services/taaruf-meetings";
+import { authorizeAdminApi } from "@/server/authz";
+
+const AUDIT_ACTIONS = {
+  reschedule: "RESCHEDULE_TAARUF_MEETING",
+  cancel: "CANCEL_TAARUF_MEETING",
+  attended: "MARK_TAARUF_MEETING_ATTENDED",
+  no_show: "MARK_TAARUF_MEETING_NO_SHOW",
+  moderator_notes: "UPDATE_TAARUF_MEETING_NOTES",
+} as const;
+
+/**
+ * PATCH /api/admin/taaruf/meetings/[meetingId]
+ * Reschedule, cancel, record attendance or edit moderator notes
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_taaruf");
+    if (response) return response;
+
+    const supabase = createServiceClient();
+
+    const { meetingId: rawMeetingId } = await params;
+    const meetingId = Number(rawMeetingId);
+
+    const validation = await validateRequest(request, updateTaarufMeetingSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const body = validation.data;
+
+    let result;
+    switch (body.action) {
+      case "reschedule":
+        result = await rescheduleMeeting(
+          supabase,
+          meetingId,
+          {
+            scheduledAt: body.meeting_datetime,
+            durationMinutes: body.duration_minutes,
+            zoomLink: body.zoom_link,
+            notes: body.notes,
+          },
+          user.id
+        );
+        break;
+      case "cancel":
+        result = await cancelMeeting(supabase, meetingId, body.reason, user.id);
+        break;
+      case "attended":
+        result = await recordMeetingOutcome(supabase, meetingId, "ATTENDED", null, user.id);
+        break;
+      case "no_show":
+        result = await recordMeetingOutcome(supabase, meetingId, "NO_SHOW", body.no_show_user_id, user.id);
+        break;
+      case "moderator_notes":
+        result = await updateModeratorNotes(supabase, meetingId, body.moderator_notes || null, user.id);
+        break;
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, conflicts: result.conflicts },
+        { status: MEETING_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: AUDIT_ACTIONS[body.action],
+        entity_type: "taaruf_meetings",
+        entity_id: String(meetingId),
+        changes: body,
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("Update taaruf meeting error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
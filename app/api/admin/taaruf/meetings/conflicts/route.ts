@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { findMeetingConflicts } from "@/server/services/taaruf-meetings";
+import { authorizeAdminApi } from "@/server/authz";
+
+/**
+ * GET /api/admin/taaruf/meetings/conflicts?start=&duration=&exclude=
+ * The current admin's scheduled meetings overlapping the given slot, so the
+ * schedule modal can warn before submitting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_taaruf");
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get("start");
+    const duration = Number(searchParams.get("duration") || 60);
+    const exclude = searchParams.get("exclude");
+
+    if (!start || Number.isNaN(new Date(start).getTime()) || !Number.isInteger(duration) || duration <= 0) {
+      return NextResponse.json(
+        { error: "Parameter start/duration tidak valid" },
+        { status: 400 }
+      );
+    }
+
+    const result = await findMeetingConflicts(
+      createServiceClient(),
+      user.id,
+      { scheduledAt: start, durationMinutes: duration },
+      exclude ? Number(exclude) : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Failed to check conflicts" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("Check meeting conflicts error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
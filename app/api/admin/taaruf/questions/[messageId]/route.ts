@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { reviewTaarufQaMessageSchema, validateRequest } from "@/lib/validations/api-schemas";
+import { QA_ERROR_STATUS, reviewMessage } from "@/server/services/taaruf-qa";
+import { authorizeAdminApi } from "@/server/authz";
+
+const AUDIT_ACTIONS = {
+  approve: "APPROVE_TAARUF_QA_MESSAGE",
+  reject: "REJECT_TAARUF_QA_MESSAGE",
+} as const;
+
+/**
+ * PATCH /api/admin/taaruf/questions/[messageId]
+ * Approve (deliver) or reject a pending Q&A message
+ * Body: { action: "approve" } | { action: "reject", reason: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { user, response } = await authorizeAdminApi("manage_taaruf");
+    if (response) return response;
+
+    const supabase = createServiceClient();
+
+    const { messageId: rawMessageId } = await params;
+    const messageId = Number(rawMessageId);
+
+    const validation = await validateRequest(request, reviewTaarufQaMessageSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const body = validation.data;
+    const result = await reviewMessage(supabase, messageId, body, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: QA_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: AUDIT_ACTIONS[body.action],
+        entity_type: "taaruf_qa_messages",
+        entity_id: String(messageId),
+        changes: body,
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("Review taaruf Q&A message error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { authorizeAdminApi } from "@/server/authz";
+import {
+  getWalletReconciliation,
+  syncCachedWalletBalances,
+} from "@/server/services/wallet";
+
+/**
+ * GET /api/admin/wallet/reconciliation
+ * Users whose cached profiles.koin_balance differs from the ledger sum
+ */
+export async function GET() {
+  try {
+    const { response } = await authorizeAdminApi("reconcile_wallet");
+    if (response) return response;
+
+    const result = await getWalletReconciliation(createAdminClient());
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to run reconciliation" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      mismatchCount: result.data.length,
+      items: result.data,
+    });
+  } catch (error) {
+    console.error("Error in wallet reconciliation API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/wallet/reconciliation
+ * Reset cached balances from the ledger. Body: { userIds?: string[] }
+ * (default: every user currently flagged). The ledger is never changed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorizeAdminApi("reconcile_wallet");
+    if (response) return response;
+
+    const supabase = createAdminClient();
+    const body = await request.json().catch(() => ({}));
+
+    let userIds: string[] = Array.isArray(body?.userIds)
+      ? body.userIds.filter((id: unknown): id is string => typeof id === "string")
+      : [];
+
+    if (userIds.length === 0) {
+      const report = await getWalletReconciliation(supabase);
+      if (!report.success || !report.data) {
+        return NextResponse.json(
+          { error: "Failed to run reconciliation" },
+          { status: 500 }
+        );
+      }
+      userIds = report.data.map((row) => row.user_id);
+    }
+
+    const synced = await syncCachedWalletBalances(supabase, userIds);
+
+    // Log activity (if audit_logs table exists)
+    try {
+      await supabase.from("audit_logs").insert({
+        actor_id: user.id,
+        action: "SYNC_WALLET_CACHE",
+        entity_type: "wallet",
+        entity_id: "koin_balance_cache",
+        changes: { user_ids: userIds, synced },
+      });
+    } catch (auditError) {
+      // Audit log is optional - don't fail the request
+      console.warn("Failed to create audit log:", auditError);
+    }
+
+    return NextResponse.json({ success: true, synced });
+  } catch (error) {
+    console.error("Error syncing wallet cache:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createAdminClient, getCurrentUser } from "@/server/db/client";
+import { getAvatarForViewer } from "@/server/services/avatar-access";
+
+/**
+ * GET /api/avatars/[userId]
+ * Redirects to the avatar variant the viewer may see (full or blurred, see
+ * avatar-access), as a short-lived signed URL. 404 when they get none.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    if (!z.string().uuid().safeParse(userId).success) {
+      return NextResponse.json(
+        { error: "Invalid user ID format" },
+        { status: 400 }
+      );
+    }
+
+    const viewer = await getCurrentUser();
+    const avatar = await getAvatarForViewer(createAdminClient(), viewer?.id ?? null, userId);
+
+    // Depends on who's asking: never cache it for anyone else
+    const headers = { "Cache-Control": "private, no-store", Vary: "Cookie" };
+
+    if (!avatar) {
+      return NextResponse.json(
+        { error: "Avatar not available" },
+        { status: 404, headers }
+      );
+    }
+
+    const response = NextResponse.redirect(avatar.url, { status: 302, headers });
+    response.headers.set("X-Avatar-Variant", avatar.variant);
+    return response;
+  } catch (error) {
+    console.error("Error in /api/avatars/[userId]:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/server/db/client";
+import { dispatchNotifications } from "@/server/services/notification-dispatcher";
+
+/**
+ * GET|POST /api/cron/dispatch-notifications
+ * Scheduled job (every minute): send due email / WhatsApp deliveries of
+ * in-app notifications and retry failed ones with backoff.
+ * Header: Authorization: Bearer <CRON_SECRET>
+ * Query: limit (default 50, max 200)
+ */
+async function handle(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization");
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const limit = Math.min(
+      200,
+      Math.max(1, parseInt(request.nextUrl.searchParams.get("limit") || "50"))
+    );
+
+    const result = await dispatchNotifications(createAdminClient(), { limit });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Failed to dispatch notifications" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("Error in dispatch notifications cron:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
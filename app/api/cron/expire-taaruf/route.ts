@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { expireOverdueTaarufRequests } from "@/server/services/taaruf-expiry";
+
+/**
+ * GET|POST /api/cron/expire-taaruf
+ * Scheduled sweeper: expire overdue PENDING taaruf requests + refund koin
+ * Header: Authorization: Bearer <CRON_SECRET>
+ */
+async function handle(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization");
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await expireOverdueTaarufRequests();
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Failed to expire taaruf requests" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      expiredCount: result.data.expiredCount,
+      refundedKoin: result.data.refundedKoin,
+    });
+  } catch (error) {
+    console.error("Error in expire taaruf cron:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/server/db/client";
+import { runSavedSearchDigest } from "@/server/services/saved-searches";
+
+/**
+ * GET|POST /api/cron/saved-search-digest
+ * Scheduled job (daily): notify users about newly approved CVs matching
+ * their saved searches, one notification per user.
+ * Header: Authorization: Bearer <CRON_SECRET>
+ */
+async function handle(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization");
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await runSavedSearchDigest(createAdminClient());
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Failed to run saved search digest" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("Error in saved search digest cron:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
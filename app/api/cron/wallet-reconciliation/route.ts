@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/server/db/client";
+import { getWalletReconciliation } from "@/server/services/wallet";
+
+/**
+ * GET|POST /api/cron/wallet-reconciliation
+ * Scheduled check: report users whose cached koin_balance differs from
+ * the ledger sum. Report only - fixing is an admin decision.
+ * Header: Authorization: Bearer <CRON_SECRET>
+ */
+async function handle(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization");
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await getWalletReconciliation(createAdminClient());
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error || "Failed to run wallet reconciliation" },
+        { status: 500 }
+      );
+    }
+
+    if (result.data.length > 0) {
+      console.warn(
+        `[wallet-reconciliation] ${result.data.length} wallet(s) out of sync:`,
+        result.data.slice(0, 20).map((row) => `${row.user_id} (${row.difference_koin} koin)`)
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      mismatchCount: result.data.length,
+      items: result.data,
+    });
+  } catch (error) {
+    console.error("Error in wallet reconciliation cron:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
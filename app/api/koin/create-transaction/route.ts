@@ -50,6 +50,7 @@ export async function POST(request: NextRequest) {
       token: result.data?.snapToken,
       orderId: result.data?.orderId,
       redirectUrl: result.data?.redirectUrl,
+      provider: result.data?.provider,
     });
   } catch (error) {
     console.error("Error creating transaction:", error);
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/server/db/client";
+import { getWalletBalance } from "@/server/services/wallet";
 
 /**
  * GET /api/koin/saldo
@@ -22,28 +23,21 @@ export async function GET() {
       );
     }
 
-    // Fetch wallet balance from view
-    const { data: balanceData, error: balanceError } = await supabase
-      .from("wallet_balances_v")
-      .select("balance_cents")
-      .eq("user_id", user.id)
-      .maybeSingle(); // Use maybeSingle() to allow 0 rows
+    // Ledger balance (available = balance - active holds)
+    const result = await getWalletBalance(supabase, user.id);
 
-    // If error and not just empty result, return error
-    if (balanceError && balanceError.code !== 'PGRST116') {
-      console.error("Error fetching balance:", balanceError);
+    if (!result.success || !result.data) {
       return NextResponse.json(
         { error: "Failed to fetch balance", balance: 0 },
         { status: 500 }
       );
     }
 
-    // Convert cents to koin (100 cents = 1 koin)
-    const balanceInKoin = balanceData?.balance_cents ? balanceData.balance_cents / 100 : 0;
-
     return NextResponse.json({
-      balance: balanceInKoin,
-      balanceCents: balanceData?.balance_cents || 0,
+      balance: result.data.koin,
+      balanceCents: result.data.balanceCents,
+      heldCents: result.data.heldCents,
+      availableCents: result.data.availableCents,
     });
   } catch (error: any) {
     console.error("Error in /api/koin/saldo:", error);
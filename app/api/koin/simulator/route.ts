@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { createClient } from "@/server/db/client";
+import { getPaymentGateway } from "@/server/services/payment-gateway";
+import {
+  decodeFakeSnapToken,
+  FAKE_PAYMENT_ACTIONS,
+  sendFakeNotification,
+  type FakePaymentAction,
+} from "@/server/services/fake-payment-gateway";
+
+/**
+ * POST /api/koin/simulator
+ * Local Midtrans simulator (PAYMENT_GATEWAY=fake only)
+ * Body: { token, action: "pay" | "fail" | "expire" }
+ * Sends a signed notification to /api/webhooks/midtrans for the order and
+ * answers with a same-origin path to continue to.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (getPaymentGateway().name !== "fake") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const supabase = await supabaseServer();
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const token = typeof body.token === "string" ? decodeFakeSnapToken(body.token) : null;
+    const action = body.action as FakePaymentAction;
+
+    if (!token || !FAKE_PAYMENT_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: "token and action (pay | fail | expire) are required" },
+        { status: 400 }
+      );
+    }
+
+    // Only the order owner can settle it
+    const dbClient = await createClient();
+    const { data: order } = await dbClient
+      .from("koin_topup_orders")
+      .select("order_id")
+      .eq("order_id", token.orderId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await sendFakeNotification(token, action);
+
+    if (!result.success) {
+      console.error("Simulator notification rejected:", result.status, result.body);
+      return NextResponse.json(
+        { error: "Webhook menolak notifikasi simulasi", webhookStatus: result.status },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      transactionStatus: result.transactionStatus,
+      // Built here from the verified order, never taken from the token
+      redirectUrl:
+        action === "pay"
+          ? `/koin-saya?status=success&order_id=${encodeURIComponent(token.orderId)}`
+          : "/koin-saya?status=error",
+    });
+  } catch (error) {
+    console.error("Error in payment simulator:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/server/services/notifications";
+import {
+  updateNotificationPreferencesSchema,
+  validateRequest,
+} from "@/lib/validations/api-schemas";
+
+/**
+ * GET /api/notifications/preferences
+ * Current user's email / WhatsApp notification switches
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await getNotificationPreferences(supabase, user.id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch notification preferences" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/notifications/preferences:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications/preferences
+ * Body: { emailEnabled?: boolean, whatsappEnabled?: boolean }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, updateNotificationPreferencesSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateNotificationPreferences(supabase, user.id, validation.data);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to update notification preferences" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/notifications/preferences:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
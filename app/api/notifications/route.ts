@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { listNotifications, markNotificationsRead } from "@/server/services/notifications";
+import { markNotificationsReadSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+/**
+ * GET /api/notifications
+ * Current user's notifications (newest first) with the unread count.
+ * Query: page, limit, unread=1 for unread only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "20")));
+    const unreadOnly = searchParams.get("unread") === "1";
+
+    const result = await listNotifications(supabase, user.id, { page, limit, unreadOnly });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch notifications" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("Error in /api/notifications:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark notifications as read. Body: { ids: number[] } or { all: true }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, markNotificationsReadSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const ids = "ids" in validation.data ? validation.data.ids : null;
+    const result = await markNotificationsRead(supabase, user.id, ids);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to update notifications" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/notifications:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
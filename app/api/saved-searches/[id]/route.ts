@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { deleteSavedSearch, updateSavedSearch } from "@/server/services/saved-searches";
+import { updateSavedSearchSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  DUPLICATE_NAME: 409,
+  DB_ERROR: 500,
+};
+
+/**
+ * PATCH /api/saved-searches/[id]
+ * Body: { name?: string, notify?: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, updateSavedSearchSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await updateSavedSearch(supabase, user.id, Number(id), validation.data);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: ERROR_STATUS[result.errorCode || "DB_ERROR"] }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/saved-searches/[id]:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/saved-searches/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await deleteSavedSearch(supabase, user.id, Number(id));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: ERROR_STATUS[result.errorCode || "DB_ERROR"] }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in /api/saved-searches/[id]:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { createSavedSearch, listSavedSearches } from "@/server/services/saved-searches";
+import { createSavedSearchSchema, validateRequest } from "@/lib/validations/api-schemas";
+import { pickSearchFilters } from "@/features/candidates/lib/search-filters";
+
+/**
+ * GET /api/saved-searches
+ * Current user's saved cari-jodoh searches (oldest first)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await listSavedSearches(supabase, user.id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch saved searches" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/saved-searches:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/saved-searches
+ * Body: { name, filters: { gender?, ageRange?, education?, province?, ...advanced }, notify? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, createSavedSearchSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, filters, notify } = validation.data;
+    const result = await createSavedSearch(supabase, user.id, {
+      name,
+      filters: pickSearchFilters(filters),
+      notify,
+    });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.errorCode === "DB_ERROR" ? 500 : 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("Error in /api/saved-searches:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
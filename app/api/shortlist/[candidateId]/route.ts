@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { removeFromShortlist, updateShortlistNote } from "@/server/services/shortlist";
+import { updateShortlistNoteSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  DB_ERROR: 500,
+};
+
+/**
+ * PATCH /api/shortlist/[candidateId]
+ * Body: { note: string | null }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ candidateId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, updateShortlistNoteSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { candidateId } = await params;
+    const result = await updateShortlistNote(supabase, user.id, candidateId, validation.data.note);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: ERROR_STATUS[result.errorCode || "DB_ERROR"] }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/shortlist/[candidateId]:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/shortlist/[candidateId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ candidateId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { candidateId } = await params;
+    const result = await removeFromShortlist(supabase, user.id, candidateId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in /api/shortlist/[candidateId]:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
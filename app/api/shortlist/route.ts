@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { addToShortlist, listShortlist } from "@/server/services/shortlist";
+import { addToShortlistSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_VISIBLE: 404,
+  LIMIT_REACHED: 409,
+  DB_ERROR: 500,
+};
+
+/**
+ * GET /api/shortlist
+ * Current user's saved candidates (newest first) with notes
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await listShortlist(supabase, user.id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: "Failed to fetch shortlist" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/shortlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/shortlist
+ * Body: { candidateId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, addToShortlistSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await addToShortlist(supabase, user.id, validation.data.candidateId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: ERROR_STATUS[result.errorCode || "DB_ERROR"] }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error in /api/shortlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,8 @@ import { validateRequest, ajukanTaarufSchema } from "@/lib/validations/api-schem
 /**
  * POST /api/taaruf/ajukan
  * User submits taaruf request to another candidate
- * Body: { toUserId: string }
+ * Body: { toUserId: string, idempotencyKey: string }
+ * Retrying with the same idempotencyKey never charges twice
  */
 export async function POST(request: NextRequest) {
   try {
@@ -19,19 +20,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { toUserId } = validation.data;
+    const { toUserId, idempotencyKey } = validation.data;
 
     // Call server action with all guards
-    const result = await ajukanTaaruf(toUserId);
+    const result = await ajukanTaaruf(toUserId, idempotencyKey);
 
     if (!result.success) {
+      // DB/RPC failures are transient: 5xx keeps the client's idempotency key
+      const status =
+        result.errorCode === "DB_ERROR" || result.errorCode === "INTERNAL_ERROR"
+          ? 500
+          : result.errorCode === "NOT_AUTHENTICATED"
+            ? 401
+            : 400;
       return NextResponse.json(
         { 
           error: result.error,
           errorCode: result.errorCode,
           redirectTo: result.redirectTo,
         },
-        { status: 400 }
+        { status }
       );
     }
 
@@ -39,6 +47,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: result.message,
       koinDeducted: result.koinDeducted,
+      requestId: result.requestId,
     });
 
   } catch (error) {
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/server/db/client";
+import { GUARDIAN_ERROR_STATUS, inviteGuardian } from "@/server/services/taaruf-guardians";
+
+/**
+ * POST /api/taaruf/guardian/invite
+ * Send the wali a link to the user's active taaruf session
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await inviteGuardian(supabase, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: GUARDIAN_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Tautan sedang dikirim ke wali Anda",
+      data: result.data,
+    });
+  } catch (error) {
+    console.error("Error in /api/taaruf/guardian/invite:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient, createClient } from "@/server/db/client";
+import {
+  canHaveGuardian,
+  getGuardian,
+  GUARDIAN_ERROR_STATUS,
+  removeGuardian,
+  saveGuardian,
+} from "@/server/services/taaruf-guardians";
+import { saveTaarufGuardianSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+/**
+ * GET /api/taaruf/guardian
+ * Current user's wali contact; eligible is false for ikhwan
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const [eligible, guardian] = await Promise.all([
+      canHaveGuardian(supabase, user.id),
+      getGuardian(supabase, user.id),
+    ]);
+
+    return NextResponse.json({ success: true, eligible, data: guardian });
+  } catch (error) {
+    console.error("Error in /api/taaruf/guardian:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/taaruf/guardian
+ * Register or replace the wali contact (revokes links already sent)
+ * Body: { name, relation, email?, phone? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateRequest(request, saveTaarufGuardianSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveGuardian(supabase, createAdminClient(), user.id, validation.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: GUARDIAN_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/taaruf/guardian:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/taaruf/guardian
+ */
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await removeGuardian(supabase, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: GUARDIAN_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in /api/taaruf/guardian:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { getParticipantMeeting } from "@/server/services/taaruf-meetings";
+import { buildMeetingIcs, meetingIcsFilename } from "@/features/taaruf/lib/meetings";
+
+/**
+ * GET /api/taaruf/meetings/[meetingId]/ics
+ * Calendar invitation for a meeting of one of the user's taaruf sessions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { meetingId } = await params;
+
+    // Meetings have no user policies; participation is checked here
+    const found = await getParticipantMeeting(createServiceClient(), Number(meetingId), user.id);
+    if (!found) {
+      return NextResponse.json({ error: "Pertemuan tidak ditemukan" }, { status: 404 });
+    }
+
+    const ics = buildMeetingIcs({ ...found.meeting, taarufCode: found.taarufCode });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${meetingIcsFilename(found.meeting)}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Meeting ICS error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -29,29 +29,36 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { candidateId } = body;
+    const { candidateId, idempotencyKey } = body;
 
-    if (!candidateId) {
+    if (!candidateId || !idempotencyKey) {
       return NextResponse.json(
-        { error: "Candidate ID is required", success: false },
+        { error: "Candidate ID and idempotency key are required", success: false },
         { status: 400 }
       );
     }
 
     // Use server action with business guards
-    const result = await ajukanTaaruf(user.id, candidateId);
+    const result = await ajukanTaaruf(candidateId, idempotencyKey);
 
     if (!result.success) {
+      // DB/RPC failures are transient: 5xx keeps the client's idempotency key
+      const status =
+        result.errorCode === "DB_ERROR" || result.errorCode === "INTERNAL_ERROR"
+          ? 500
+          : result.errorCode === "NOT_AUTHENTICATED"
+            ? 401
+            : 400;
       return NextResponse.json(
         { error: result.error, success: false },
-        { status: 400 }
+        { status }
       );
     }
 
     return NextResponse.json({
       success: true,
       message: result.message,
-      data: result.data,
+      data: { requestId: result.requestId, koinDeducted: result.koinDeducted },
     });
   } catch (error: any) {
     console.error("Error in /api/taaruf/propose:", error);
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { answerQuestion, QA_ERROR_STATUS } from "@/server/services/taaruf-qa";
+import { submitTaarufQaMessageSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+/**
+ * POST /api/taaruf/questions/[questionId]/answer
+ * Answer a question from the other side (delivered after admin approval)
+ * Body: { body: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ questionId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { questionId } = await params;
+    if (!/^\d+$/.test(questionId)) {
+      return NextResponse.json({ error: "Question ID is required" }, { status: 400 });
+    }
+
+    const validation = await validateRequest(request, submitTaarufQaMessageSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await answerQuestion(
+      createServiceClient(),
+      Number(questionId),
+      user.id,
+      validation.data.body
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: QA_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: "Jawaban dikirim dan menunggu moderasi admin", data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Answer taaruf question error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endTaarufSession } from "@/features/taaruf/server/actions";
+import { endTaarufSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+const STATUS_BY_ERROR_CODE: Record<string, number> = {
+  NOT_AUTHENTICATED: 401,
+  SESSION_NOT_FOUND: 404,
+  SESSION_NOT_ACTIVE: 409,
+  RPC_ERROR: 500,
+  UNKNOWN: 500,
+};
+
+/**
+ * POST /api/taaruf/sessions/[sessionId]/end
+ * End an active taaruf session (either participant)
+ * Body: { reason: TaarufEndReason, note?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    if (!sessionId || !/^\d+$/.test(sessionId)) {
+      return NextResponse.json(
+        { error: "Session ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateRequest(request, endTaarufSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { reason, note } = validation.data;
+    const result = await endTaarufSession(sessionId, reason, note);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: STATUS_BY_ERROR_CODE[result.errorCode ?? ""] || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: result.data,
+    });
+
+  } catch (error) {
+    console.error("Error in end taaruf API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
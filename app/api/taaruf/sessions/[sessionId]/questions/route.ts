@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { askQuestion, listParticipantThread, QA_ERROR_STATUS } from "@/server/services/taaruf-qa";
+import { submitTaarufQaMessageSchema, validateRequest } from "@/lib/validations/api-schemas";
+
+/**
+ * GET /api/taaruf/sessions/[sessionId]/questions
+ * Q&A thread of one of the user's sessions: their own messages with review
+ * status, the other side's approved ones
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    if (!/^\d+$/.test(sessionId)) {
+      return NextResponse.json({ error: "Session ID is required" }, { status: 400 });
+    }
+
+    // Q&A messages have no user policies; participation is checked in the service
+    const result = await listParticipantThread(createServiceClient(), Number(sessionId), user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: QA_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Get taaruf Q&A error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/taaruf/sessions/[sessionId]/questions
+ * Ask the other side a question (delivered after admin approval)
+ * Body: { body: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    if (!/^\d+$/.test(sessionId)) {
+      return NextResponse.json({ error: "Session ID is required" }, { status: 400 });
+    }
+
+    const validation = await validateRequest(request, submitTaarufQaMessageSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await askQuestion(createServiceClient(), Number(sessionId), user.id, validation.data.body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: QA_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: "Pertanyaan dikirim dan menunggu moderasi admin", data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Ask taaruf question error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
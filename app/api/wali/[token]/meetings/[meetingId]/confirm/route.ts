@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/server/db/client";
+import {
+  confirmGuardianAttendance,
+  GUARDIAN_ERROR_STATUS,
+} from "@/server/services/taaruf-guardians";
+
+/**
+ * POST /api/wali/[token]/meetings/[meetingId]/confirm
+ * The wali confirms attending a meeting. No session: the magic link
+ * token is the credential.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string; meetingId: string }> }
+) {
+  try {
+    const { token, meetingId } = await params;
+
+    if (!/^\d+$/.test(meetingId)) {
+      return NextResponse.json(
+        { error: "Meeting ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmGuardianAttendance(createAdminClient(), token, Number(meetingId));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: GUARDIAN_ERROR_STATUS[result.errorCode] }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error("Error in /api/wali/[token]/meetings/[meetingId]/confirm:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,35 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/server/db/client";
-import crypto from "crypto";
+import {
+  ingestMidtransNotification,
+  verifyMidtransSignature,
+  type MidtransNotification,
+} from "@/server/services/payment-webhooks";
 
 /**
  * POST /api/webhooks/midtrans
  * Midtrans Payment Notification Webhook
  * https://docs.midtrans.com/docs/http-notification-webhooks
+ *
+ * Every verified notification is stored in payment_webhook_inbox and
+ * processed exactly once; Midtrans retries of the same notification
+ * are acknowledged without touching the ledger again.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    
-    // Extract notification data
-    const {
-      order_id,
-      status_code,
-      gross_amount,
-      signature_key,
-      transaction_status,
-      fraud_status,
-      payment_type,
-    } = body;
+    const body = (await request.json()) as MidtransNotification;
 
     // Verify signature for security
-    const serverKey = process.env.MIDTRANS_SERVER_KEY || "";
-    const expectedSignature = crypto
-      .createHash("sha512")
-      .update(`${order_id}${status_code}${gross_amount}${serverKey}`)
-      .digest("hex");
-
-    if (signature_key !== expectedSignature) {
+    if (!verifyMidtransSignature(body)) {
       console.error("Invalid signature from Midtrans webhook");
       return NextResponse.json(
         { error: "Invalid signature" },
@@ -37,89 +27,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get database client
-    const supabase = await createClient();
+    const result = await ingestMidtransNotification(body);
 
-    // Get transaction from database
-    const { data: transaction, error: txError } = await supabase
-      .from("koin_topup_orders")
-      .select("*")
-      .eq("order_id", order_id)
-      .single();
+    if (!result.success) {
+      console.error("Midtrans notification not processed:", body.order_id, result.errorCode, result.error);
 
-    if (txError || !transaction) {
-      console.error("Transaction not found:", order_id);
-      return NextResponse.json(
-        { error: "Transaction not found" },
-        { status: 404 }
-      );
-    }
-
-    // Determine final status based on Midtrans status
-    let finalStatus = "PENDING";
-    let shouldCredit = false;
-
-    if (transaction_status === "capture") {
-      if (fraud_status === "accept") {
-        finalStatus = "SUCCESS";
-        shouldCredit = true;
+      if (result.errorCode === "INVALID_PAYLOAD") {
+        return NextResponse.json({ error: result.error }, { status: 400 });
       }
-    } else if (transaction_status === "settlement") {
-      finalStatus = "SUCCESS";
-      shouldCredit = true;
-    } else if (
-      transaction_status === "cancel" ||
-      transaction_status === "deny" ||
-      transaction_status === "expire"
-    ) {
-      finalStatus = "FAILED";
-    } else if (transaction_status === "pending") {
-      finalStatus = "PENDING";
-    }
 
-    // Update transaction status
-    await supabase
-      .from("koin_topup_orders")
-      .update({
-        status: finalStatus,
-        payment_type: payment_type || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("order_id", order_id);
-
-    // Credit koin if success (with idempotency check)
-    if (shouldCredit) {
-      // Check if already credited
-      const { data: existingCredit } = await supabase
-        .from("wallet_transactions")
-        .select("id")
-        .eq("idempotency_key", `topup-${order_id}`)
-        .maybeSingle();
-
-      if (!existingCredit) {
-        // Credit to wallet
-        const { error: creditError } = await supabase
-          .from("wallet_transactions")
-          .insert({
-            user_id: transaction.user_id,
-            type: "CREDIT",
-            amount_cents: transaction.amount_cents,
-            reason: "TOPUP",
-            linked_order_id: order_id,
-            idempotency_key: `topup-${order_id}`,
-          });
-
-        if (creditError) {
-          console.error("Error crediting koin:", creditError);
-          // Don't fail the webhook - we can retry manually
-        }
+      if (result.errorCode === "ORDER_NOT_FOUND") {
+        return NextResponse.json(
+          { error: "Transaction not found" },
+          { status: 404 }
+        );
       }
+
+      // Non-2xx so Midtrans retries; the inbox row keeps last_error
+      return NextResponse.json(
+        { error: "Failed to process notification" },
+        { status: 500 }
+      );
     }
 
     // Return success response to Midtrans
     return NextResponse.json({
       success: true,
-      message: "Notification processed",
+      message: result.data.duplicate ? "Notification already processed" : "Notification processed",
+      status: result.data.order_status,
     });
 
   } catch (error) {
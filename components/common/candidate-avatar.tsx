@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { User } from "lucide-react";
+
+interface CandidateAvatarProps {
+  /** Avatar route URL; null when the candidate's policy shows nothing */
+  src: string | null | undefined;
+  alt: string;
+  className?: string;
+  iconClassName?: string;
+}
+
+/**
+ * Candidate photo from /api/avatars/[userId]. The route answers 404 when
+ * the viewer may not see any photo, so a failed load falls back to the
+ * placeholder icon like a candidate without one.
+ */
+export function CandidateAvatar({ src, alt, className, iconClassName }: CandidateAvatarProps) {
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [src]);
+
+  if (!src || failed) {
+    return <User className={iconClassName} />;
+  }
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      className={className}
+      onError={() => setFailed(true)}
+    />
+  );
+}
@@ -4,9 +4,12 @@ import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { User, MapPin, GraduationCap, Briefcase, Coins } from "lucide-react";
+import { User, MapPin, GraduationCap, Briefcase, Coins, Heart, Sparkles } from "lucide-react";
 import { CandidateModal } from "./candidate-modal";
+import { CandidateAvatar } from "./candidate-avatar";
+import { ShortlistButton } from "@/features/candidates/components/shortlist-button";
 import { useAjukanTaaruf } from "@/features/taaruf/hooks/use-taaruf";
+import type { CompatibilityResult } from "@/features/candidates/lib/compatibility";
 
 interface CandidateSummary {
   id: string;
@@ -26,16 +29,40 @@ interface CandidateSummary {
   beratBadan: number;
   riwayatPenyakit: string[];
   gender: "M" | "F";
+  kecocokan?: CompatibilityResult | null;
+  /** Approved since the viewer's last visit */
+  baru?: boolean;
+}
+
+function compatibilityVariant(score: number) {
+  if (score >= 75) return "success" as const;
+  if (score >= 50) return "info" as const;
+  return "warning" as const;
+}
+
+/** Per-criterion breakdown for the badge tooltip */
+function describeCompatibility(result: CompatibilityResult) {
+  const percent = (value: number | null) => (value === null ? "-" : `${Math.round(value * 100)}%`);
+  return result.breakdown
+    .filter((item) => item.viewerToCandidate !== null || item.candidateToViewer !== null)
+    .map(
+      (item) =>
+        `${item.label}: sesuai kriteria Anda ${percent(item.viewerToCandidate)}, Anda sesuai kriterianya ${percent(item.candidateToViewer)}`
+    )
+    .join("\n");
 }
 
 interface CandidateCardProps {
   candidate: CandidateSummary;
   showTaarufButton?: boolean;
+  /** Show the "Kandidat Tersimpan" star (logged-in viewers only) */
+  canShortlist?: boolean;
 }
 
 export function CandidateCard({
   candidate,
   showTaarufButton = false,
+  canShortlist = false,
 }: CandidateCardProps) {
   const [showModal, setShowModal] = useState(false);
   const { ajukan, isLoading } = useAjukanTaaruf();
@@ -51,18 +78,15 @@ export function CandidateCard({
           {/* Avatar and Badge */}
           <div className="flex items-start gap-3 sm:gap-4">
             <div className="w-16 h-16 sm:w-20 sm:h-20 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0 ring-2 ring-primary/10">
-              {candidate.avatar ? (
-                <img
-                  src={candidate.avatar}
-                  alt={candidate.kodeKandidat}
-                  className="w-full h-full object-cover"
-                />
-              ) : (
-                <User className="h-8 w-8 sm:h-10 sm:w-10 text-muted-foreground" />
-              )}
+              <CandidateAvatar
+                src={candidate.avatar}
+                alt={candidate.kodeKandidat}
+                className="w-full h-full object-cover"
+                iconClassName="h-8 w-8 sm:h-10 sm:w-10 text-muted-foreground"
+              />
             </div>
             
-            <div className="flex-1 min-w-0">
+            <div className="flex-1 min-w-0 flex flex-wrap gap-2">
               <Badge
                 variant={
                   candidate.status === "Siap Bertaaruf" ? "default" : "secondary"
@@ -71,7 +95,31 @@ export function CandidateCard({
               >
                 {candidate.status}
               </Badge>
+              {candidate.baru && (
+                <Badge
+                  variant="info"
+                  className="text-xs sm:text-sm gap-1"
+                  title="Baru sejak kunjungan terakhir Anda"
+                >
+                  <Sparkles className="h-3 w-3" />
+                  Baru
+                </Badge>
+              )}
+              {candidate.kecocokan?.score != null && (
+                <Badge
+                  variant={compatibilityVariant(candidate.kecocokan.score)}
+                  className="text-xs sm:text-sm gap-1"
+                  title={describeCompatibility(candidate.kecocokan)}
+                >
+                  <Heart className="h-3 w-3" />
+                  {candidate.kecocokan.score}% cocok
+                </Badge>
+              )}
             </div>
+
+            {canShortlist && (
+              <ShortlistButton candidateId={candidate.id} className="-mt-2 -mr-2 flex-shrink-0" />
+            )}
           </div>
 
           {/* Candidate Code & Job */}
@@ -134,6 +182,7 @@ export function CandidateCard({
         candidate={candidate}
         open={showModal}
         onClose={() => setShowModal(false)}
+        canShortlist={canShortlist}
       />
     </>
   );
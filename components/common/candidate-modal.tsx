@@ -18,6 +18,8 @@ import {
   Weight,
   FileText,
 } from "lucide-react";
+import { ShortlistButton } from "@/features/candidates/components/shortlist-button";
+import { CandidateAvatar } from "./candidate-avatar";
 
 interface CandidateSummary {
   id: string;
@@ -43,12 +45,15 @@ interface CandidateModalProps {
   candidate: CandidateSummary;
   open: boolean;
   onClose: () => void;
+  /** Show the "Kandidat Tersimpan" star (logged-in viewers only) */
+  canShortlist?: boolean;
 }
 
 export function CandidateModal({
   candidate,
   open,
   onClose,
+  canShortlist = false,
 }: CandidateModalProps) {
   const formatPenghasilan = (penghasilan: string) => {
     const map = {
@@ -84,15 +89,12 @@ export function CandidateModal({
           {/* Header Section with Avatar and Basic Info */}
           <div className="flex flex-col sm:flex-row items-start gap-4 sm:gap-6 pb-4 sm:pb-6 border-b">
             <div className="w-24 h-24 sm:w-28 sm:h-28 md:w-32 md:h-32 bg-muted rounded-full flex items-center justify-center flex-shrink-0 ring-4 ring-primary/10 mx-auto sm:mx-0">
-              {avatar ? (
-                <img
-                  src={avatar}
-                  alt={candidate.kodeKandidat}
-                  className="w-full h-full object-cover rounded-full"
-                />
-              ) : (
-                <User className="h-12 w-12 sm:h-14 sm:w-14 md:h-16 md:w-16 text-muted-foreground" />
-              )}
+              <CandidateAvatar
+                src={avatar}
+                alt={candidate.kodeKandidat}
+                className="w-full h-full object-cover rounded-full"
+                iconClassName="h-12 w-12 sm:h-14 sm:w-14 md:h-16 md:w-16 text-muted-foreground"
+              />
             </div>
             
             <div className="flex-1 min-w-0 w-full text-center sm:text-left">
@@ -106,14 +108,17 @@ export function CandidateModal({
                     Nama lengkap disembunyikan
                   </p>
                 </div>
-                <Badge
-                  variant={
-                    candidate.status === "Siap Bertaaruf" ? "default" : "secondary"
-                  }
-                  className="text-xs sm:text-sm px-2 sm:px-3 py-1 mx-auto sm:mx-0 w-fit"
-                >
-                  {candidate.status}
-                </Badge>
+                <div className="flex items-center gap-1 mx-auto sm:mx-0">
+                  <Badge
+                    variant={
+                      candidate.status === "Siap Bertaaruf" ? "default" : "secondary"
+                    }
+                    className="text-xs sm:text-sm px-2 sm:px-3 py-1 w-fit"
+                  >
+                    {candidate.status}
+                  </Badge>
+                  {canShortlist && <ShortlistButton candidateId={candidate.id} />}
+                </div>
               </div>
               <div className="flex flex-wrap justify-center sm:justify-start gap-3 sm:gap-4 text-xs sm:text-sm text-muted-foreground">
                 <div className="flex items-center gap-1.5 sm:gap-2">
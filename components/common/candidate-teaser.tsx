@@ -2,6 +2,11 @@ import { listApprovedCandidates } from "@/server/services/candidates";
 import { CandidateCard } from "./candidate-card";
 import { Pagination } from "./pagination";
 import { supabaseServer } from "@/lib/supabase/server";
+import type { CompatibilityResult } from "@/features/candidates/lib/compatibility";
+import { toCandidateFilters } from "@/features/candidates/lib/search-filters";
+import { toCandidateSummary } from "@/features/candidates/lib/candidate-summary";
+import { listingAvatarUrl } from "@/features/cv/lib/avatar";
+import type { AvatarVisibility, SavedSearchFilters } from "@/types/database.types";
 
 // Tipe ringkas agar mapping fallback rapi
 type CandidateSummary = {
@@ -22,6 +27,9 @@ type CandidateSummary = {
   beratBadan: number;
   riwayatPenyakit: string[];
   gender: "M" | "F";
+  kecocokan?: CompatibilityResult | null;
+  /** Approved since the viewer's last visit */
+  baru?: boolean;
 };
 
 interface CandidateTeaserProps {
@@ -29,12 +37,11 @@ interface CandidateTeaserProps {
   pageSize: number;
   baseUrl?: string;
   currentUserId?: string;
-  filters?: {
-    gender?: string;
-    ageRange?: string;
-    education?: string;
-    province?: string;
-  };
+  sortBy?: "recent" | "matched";
+  /** Mark candidates approved after this as "baru" */
+  newSince?: string | null;
+  /** cari-jodoh URL params (see features/candidates/lib/search-filters) */
+  filters?: SavedSearchFilters;
 }
 
 export default async function CandidateTeaser({
@@ -42,113 +49,28 @@ export default async function CandidateTeaser({
   pageSize,
   baseUrl = "/",
   currentUserId,
+  sortBy = "recent",
+  newSince = null,
   filters = {},
 }: CandidateTeaserProps) {
-  // Parse filters for service
-  const serviceFilters: any = {};
-  
-  // Gender filter - IKHWAN/AKHWAT to MALE/FEMALE
-  if (filters.gender) {
-    if (filters.gender === "IKHWAN") {
-      serviceFilters.gender = "MALE";
-    } else if (filters.gender === "AKHWAT") {
-      serviceFilters.gender = "FEMALE";
-    }
-  }
-  
-  // Education filter
-  if (filters.education) {
-    serviceFilters.education = filters.education;
-  }
-  
-  // Province filter
-  if (filters.province) {
-    serviceFilters.provinceId = parseInt(filters.province);
-  }
-  
-  // Age range filter (will be applied client-side for now)
-  let ageMin: number | undefined;
-  let ageMax: number | undefined;
-  if (filters.ageRange) {
-    const [min, max] = filters.ageRange.split('-');
-    ageMin = parseInt(min);
-    ageMax = max === '+' ? undefined : parseInt(max);
-  }
+  // URL params → service filters (IKHWAN/AKHWAT → MALE/FEMALE, ageRange → min/max)
+  const serviceFilters = toCandidateFilters(filters);
   
   // 1) Sumber utama: service approved candidates with filters
   const primary = await listApprovedCandidates({
     page,
     limit: pageSize,
     excludeUserId: currentUserId,
+    viewerId: currentUserId,
+    sortBy,
     ...serviceFilters,
   });
   
   // Map Candidate objects to CandidateSummary
-  let candidates: CandidateSummary[] = (primary.candidates || []).map((c: any) => {
-    // Format tanggal lahir dari birth_date jika ada
-    let tanggalLahir = "-";
-    if (c.birth_date) {
-      try {
-        const date = new Date(c.birth_date);
-        tanggalLahir = date.toLocaleDateString("id-ID", {
-          day: "2-digit",
-          month: "long",
-          year: "numeric"
-        });
-      } catch (e) {
-        tanggalLahir = "-";
-      }
-    }
-
-    // Parse marital status dari enum
-    let statusPernikahan: "Single" | "Janda" | "Duda" = "Single";
-    if (c.marital_status === "JANDA") statusPernikahan = "Janda";
-    else if (c.marital_status === "DUDA") statusPernikahan = "Duda";
-
-    // Parse income bracket
-    let penghasilan: "0-2" | "2-5" | "5-10" | "10+" | "Saat Taaruf" = "Saat Taaruf";
-    if (c.income_bracket === "0_2") penghasilan = "0-2";
-    else if (c.income_bracket === "2_5") penghasilan = "2-5";
-    else if (c.income_bracket === "5_10") penghasilan = "5-10";
-    else if (c.income_bracket === "10_PLUS") penghasilan = "10+";
-
-    // Parse disease history - handle array, string, or null
-    let riwayatPenyakit: string[] = [];
-    if (Array.isArray(c.disease_history)) {
-      riwayatPenyakit = c.disease_history.filter(Boolean);
-    } else if (typeof c.disease_history === 'string' && c.disease_history.trim() !== '' && c.disease_history.toLowerCase() !== 'tidak ada') {
-      riwayatPenyakit = [c.disease_history];
-    }
-
-    return {
-      id: c.user_id || c.id,
-      kodeKandidat: c.candidate_code || `K${(c.user_id || c.id).slice(0, 6).toUpperCase()}`,
-      avatar: c.avatar_path ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/cv-avatars/${c.avatar_path}` : null,
-      nama: c.full_name || "Kandidat",
-      umur: c.age || 0,
-      pekerjaan: c.occupation || "-",
-      domisili: c.province || "-",
-      pendidikan: c.education || "-",
-      kriteriaSingkat: `${c.education || "-"}`,
-      status: c.taaruf_status === "DALAM_PROSES" ? "Dalam Proses" as const : "Siap Bertaaruf" as const,
-      tanggalLahir,
-      statusPernikahan,
-      penghasilan,
-      tinggiBadan: c.height_cm || 0,
-      beratBadan: c.weight_kg || 0,
-      riwayatPenyakit,
-      gender: c.gender_label === "MALE" ? "M" as const : "F" as const,
-    };
-  });
+  let candidates: CandidateSummary[] = (primary.candidates || []).map((c: any) =>
+    toCandidateSummary(c, newSince)
+  );
   
-  // Apply age filter client-side
-  if (ageMin || ageMax) {
-    candidates = candidates.filter(c => {
-      if (ageMin && c.umur < ageMin) return false;
-      if (ageMax && c.umur > ageMax) return false;
-      return true;
-    });
-  }
   let totalPages = primary.totalPages ?? 1;
 
   // 2) Fallback: jika kosong (umumnya karena belum ada row di approved_candidates),
@@ -162,7 +84,7 @@ export default async function CandidateTeaser({
     const { data: cvRows, count } = await sb
       .from("cv_data")
       .select(
-        "user_id, full_name, birth_date, education, province_id, occupation, avatar_path",
+        "user_id, full_name, birth_date, education, province_id, occupation",
         { count: "exact" }
       )
       .order("full_name", { ascending: true })
@@ -176,25 +98,19 @@ export default async function CandidateTeaser({
         .from("cv_details")
         .select("user_id, worship_profile, spouse_criteria, marriage_plan, private_notes")
         .in("user_id", userIds),
-      sb.from("profiles").select("user_id, gender").in("user_id", userIds),
+      sb.from("profiles").select("user_id, gender, avatar_blur_path, avatar_visibility").in("user_id", userIds),
     ]);
 
     const byDt: Record<string, unknown> = Object.fromEntries(
       (details ?? []).map((d) => [(d as { user_id: string }).user_id, d])
     );
-    const byPf: Record<string, unknown> = Object.fromEntries(
+    const byPf: Record<
+      string,
+      { gender?: string | null; avatar_blur_path?: string | null; avatar_visibility?: AvatarVisibility | null }
+    > = Object.fromEntries(
       (profiles ?? []).map((p) => [p.user_id, p])
     );
 
-    // util avatar public (ganti bucket jika berbeda)
-    const toAvatarUrl = (path?: string | null) => {
-      if (!path) return null;
-      const base = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      return `${base}/storage/v1/object/public/cv-avatars/${encodeURIComponent(
-        path
-      )}`;
-    };
-
     candidates = (cvRows ?? []).map((cv: unknown, idx: number) => {
       const dt = byDt[cv.user_id] || {};
       const pf = byPf[cv.user_id] || {};
@@ -228,7 +144,8 @@ export default async function CandidateTeaser({
       return {
         id: cv.user_id,
         kodeKandidat: kode,
-        avatar: toAvatarUrl(cv.avatar_path),
+        // Signed-out visitors get the blurred variant at most
+        avatar: listingAvatarUrl(cv.user_id, pf.avatar_blur_path, pf.avatar_visibility),
         nama: cv.full_name ?? "-",
         umur: calculateAge(birthDate),
         pekerjaan: cv.occupation || biodata.pekerjaan || "-",
@@ -285,6 +202,15 @@ export default async function CandidateTeaser({
 
   return (
     <div className="space-y-6">
+      {/* "Paling Cocok" hanya meranking kumpulan CV terbaru */}
+      {primary.matchedPool?.capped && (
+        <p className="text-sm text-muted-foreground">
+          Urutan &quot;Paling Cocok&quot; dihitung dari {primary.matchedPool.size} CV yang terakhir
+          diperbarui, dari total {primary.total} kandidat. Persempit filter untuk menemukan kandidat
+          lainnya.
+        </p>
+      )}
+
       {/* Grid kandidat */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {candidates.map((candidate) => (
@@ -292,6 +218,7 @@ export default async function CandidateTeaser({
             key={candidate.id}
             candidate={candidate}
             showTaarufButton={true}
+            canShortlist={!!currentUserId}
           />
         ))}
       </div>
@@ -2,19 +2,41 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, usePathname, useSearchParams } from "next/navigation";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AdvancedFilters } from "@/features/candidates/components/advanced-filters";
+import {
+  ADVANCED_FILTER_KEYS,
+  countAdvancedFilters,
+  readAdvancedFilters,
+  type AdvancedFilterKey,
+} from "@/features/candidates/lib/search-filters";
 
 type FilterBarProps = {
   hideGender?: boolean;
   forceOppositeOfGender?: "M" | "F";
   provinces?: { id: number; name: string }[];
+  /** Show "Paling Cocok" sorting (viewer needs a CV to be scored against) */
+  canSortByMatch?: boolean;
 };
 
-interface Filters {
+type Filters = {
   gender: string;
   ageRange: string;
   education: string;
   province: string;
+  sort: string;
+} & Record<AdvancedFilterKey, string>;
+
+function readFilters(searchParams: URLSearchParams): Filters {
+  return {
+    gender: searchParams.get("gender") || "",
+    ageRange: searchParams.get("ageRange") || "",
+    education: searchParams.get("education") || "",
+    province: searchParams.get("province") || "",
+    sort: searchParams.get("sort") || "",
+    ...readAdvancedFilters(searchParams),
+  };
 }
 
 const educationOptions = [
@@ -37,6 +59,11 @@ const ageRangeOptions = [
   { value: "47+", label: "47+ tahun" },
 ];
 
+const sortOptions = [
+  { value: "", label: "Terbaru" },
+  { value: "matched", label: "Paling Cocok" },
+];
+
 const genderOptions = [
   { value: "", label: "Semua Gender" },
   { value: "IKHWAN", label: "Ikhwan" },
@@ -47,6 +74,7 @@ export default function FilterBar({
   hideGender,
   forceOppositeOfGender,
   provinces = [],
+  canSortByMatch = false,
 }: FilterBarProps) {
   const router = useRouter();
   const pathname = usePathname();
@@ -57,12 +85,9 @@ export default function FilterBar({
   >(provinces ?? []);
   const [loadingProvinces, setLoadingProvinces] = useState(false);
 
-  const [filters, setFilters] = useState<Filters>({
-    gender: searchParams.get("gender") || "",
-    ageRange: searchParams.get("ageRange") || "",
-    education: searchParams.get("education") || "",
-    province: searchParams.get("province") || "",
-  });
+  const [filters, setFilters] = useState<Filters>(() => readFilters(searchParams));
+  const advancedCount = countAdvancedFilters(filters);
+  const [showAdvanced, setShowAdvanced] = useState(advancedCount > 0);
 
   useEffect(() => {
     setProvinceOptions(provinces ?? []);
@@ -100,12 +125,7 @@ export default function FilterBar({
   }, [provinces]);
 
   useEffect(() => {
-    setFilters({
-      gender: searchParams.get("gender") || "",
-      ageRange: searchParams.get("ageRange") || "",
-      education: searchParams.get("education") || "",
-      province: searchParams.get("province") || "",
-    });
+    setFilters(readFilters(searchParams));
   }, [searchParams]);
 
   const handleFilterChange = (key: keyof Filters, value: string) => {
@@ -137,6 +157,16 @@ export default function FilterBar({
       params.set("province", filters.province);
     }
 
+    for (const key of ADVANCED_FILTER_KEYS) {
+      if (filters[key]) {
+        params.set(key, filters[key]);
+      }
+    }
+
+    if (canSortByMatch && filters.sort) {
+      params.set("sort", filters.sort);
+    }
+
     // Always reset to page 1 when applying filters
     params.set("page", "1");
     
@@ -149,6 +179,8 @@ export default function FilterBar({
       ageRange: "",
       education: "",
       province: "",
+      sort: "",
+      ...readAdvancedFilters(),
     });
 
     const params = new URLSearchParams();
@@ -238,8 +270,55 @@ export default function FilterBar({
             ))}
           </select>
         </div>
+
+        {canSortByMatch && (
+          <div>
+            <label htmlFor="sort" className="block text-sm font-medium mb-2">
+              Urutkan
+            </label>
+            <select
+              id="sort"
+              value={filters.sort}
+              onChange={(e) => handleFilterChange("sort", e.target.value)}
+              className="w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
+      <button
+        type="button"
+        aria-expanded={showAdvanced}
+        onClick={() => setShowAdvanced((open) => !open)}
+        className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline"
+      >
+        <SlidersHorizontal className="h-4 w-4" />
+        Filter Lanjutan
+        {advancedCount > 0 && (
+          <span className="rounded-full bg-primary px-2 text-xs text-primary-foreground">
+            {advancedCount}
+          </span>
+        )}
+        <ChevronDown
+          className={`h-4 w-4 transition-transform ${showAdvanced ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {showAdvanced && (
+        <div className="mt-4 border-t border-input pt-4">
+          <AdvancedFilters
+            values={filters}
+            onChange={(key, value) => handleFilterChange(key, value)}
+          />
+        </div>
+      )}
+
       <div className="mt-4 flex items-center gap-3">
         <Button onClick={apply}>Terapkan Filter</Button>
         <Button variant="outline" onClick={reset}>
@@ -2,10 +2,14 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Search, User, Heart, Coins } from "lucide-react";
+import { Search, User, Heart, Coins, Bell } from "lucide-react";
+import { useUnreadNotificationCount } from "@/features/notifications/hooks/use-notifications";
+import { UnreadBadge } from "@/features/notifications/components/notification-bell";
+import { NOTIFICATIONS_PATH } from "@/features/notifications/lib/links";
 
 export function UserBottomNav() {
   const pathname = usePathname();
+  const unreadCount = useUnreadNotificationCount();
 
   const navItems = [
     {
@@ -28,11 +32,16 @@ export function UserBottomNav() {
       label: "Koin",
       icon: Coins,
     },
+    {
+      href: NOTIFICATIONS_PATH,
+      label: "Notifikasi",
+      icon: Bell,
+    },
   ];
 
   return (
     <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-card border-t border-input z-50">
-      <div className="grid grid-cols-4 h-16">
+      <div className="grid grid-cols-5 h-16">
         {navItems.map((item) => {
           const Icon = item.icon;
           const isActive = pathname === item.href;
@@ -47,7 +56,12 @@ export function UserBottomNav() {
                   : "text-muted-foreground hover:text-primary"
               }`}
             >
-              <Icon className="h-5 w-5" />
+              <span className="relative">
+                <Icon className="h-5 w-5" />
+                {item.href === NOTIFICATIONS_PATH && (
+                  <UnreadBadge count={unreadCount} />
+                )}
+              </span>
               <span className="font-medium">{item.label}</span>
             </Link>
           );
@@ -5,6 +5,7 @@ import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
+import { NotificationBell } from "@/features/notifications/components/notification-bell";
 
 export function UserHeader() {
   const pathname = usePathname();
@@ -50,6 +51,8 @@ export function UserHeader() {
                 </Link>
               ))}
 
+              <NotificationBell />
+
               <Button
                 variant="ghost"
                 size="sm"
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { ShieldCheck, UserMinus, UserPlus } from "lucide-react";
+import { AdminTable } from "./admin-table";
+import { useAdminMembers } from "../hooks/use-admin-members";
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, type AdminRole } from "../lib/permissions";
+import { toast } from "@/lib/toast";
+import type { AdminMember } from "@/server/services/admin-roles";
+import { formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+
+type AdminMemberRow = AdminMember & Record<string, unknown>;
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  superadmin: "Semua akses, termasuk mengatur admin",
+  reviewer: "Verifikasi CV saja",
+  finance: "Transaksi, refund & rekonsiliasi koin",
+  moderator: "Akun, proses ta'aruf & posting media",
+};
+
+/**
+ * Admin role management (superadmin only)
+ * Grant a role to an existing email account, change it or revoke it.
+ */
+export function AdminRoleManagement({ currentUserId }: { currentUserId: string }) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AdminRole>("reviewer");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  const { data, isLoading, error, mutate } = useAdminMembers();
+
+  const request = async (url: string, init: RequestInit, fallbackError: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      toast.error(result.error || fallbackError);
+      return false;
+    }
+
+    toast.success(result.message);
+    await mutate();
+    return true;
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const granted = await request(
+        "/api/admin/admins",
+        { method: "POST", body: JSON.stringify({ email, role }) },
+        "Gagal menambahkan admin"
+      );
+      if (granted) setEmail("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: AdminMemberRow, nextRole: AdminRole) => {
+    setPendingUserId(member.userId);
+    try {
+      await request(
+        `/api/admin/admins/${member.userId}`,
+        { method: "PATCH", body: JSON.stringify({ role: nextRole }) },
+        "Gagal mengubah peran admin"
+      );
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const handleRevoke = async (member: AdminMemberRow) => {
+    setPendingUserId(member.userId);
+    try {
+      await request(
+        `/api/admin/admins/${member.userId}`,
+        { method: "DELETE" },
+        "Gagal mencabut akses admin"
+      );
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const columns = [
+    {
+      key: "email",
+      label: "Admin",
+      render: (member: AdminMemberRow) => (
+        <div className="space-y-1">
+          <div className="font-medium">
+            {member.fullName || "-"}
+            {member.userId === currentUserId && (
+              <Badge variant="info" className="ml-2 text-xs">
+                Anda
+              </Badge>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">{member.email}</div>
+        </div>
+      ),
+    },
+    {
+      key: "role",
+      label: "Peran",
+      render: (member: AdminMemberRow) => (
+        <Select
+          value={member.role}
+          disabled={pendingUserId === member.userId}
+          onChange={(e) => handleRoleChange(member, e.target.value as AdminRole)}
+          className="max-w-[180px]"
+        >
+          {ADMIN_ROLES.map((option) => (
+            <option key={option} value={option}>
+              {ADMIN_ROLE_LABELS[option]}
+            </option>
+          ))}
+        </Select>
+      ),
+    },
+    {
+      key: "updatedAt",
+      label: "Diperbarui",
+      render: (member: AdminMemberRow) => (
+        <div className="text-sm text-muted-foreground">
+          {formatDistanceToNow(new Date(member.updatedAt), {
+            addSuffix: true,
+            locale: id,
+          })}
+        </div>
+      ),
+    },
+    {
+      key: "actions",
+      label: "Aksi",
+      render: (member: AdminMemberRow) => (
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          disabled={pendingUserId === member.userId || member.userId === currentUserId}
+          onClick={() => handleRevoke(member)}
+        >
+          <UserMinus className="h-4 w-4" />
+          Cabut Akses
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Tambah Admin
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleGrant} className="flex flex-col md:flex-row gap-3">
+            <Input
+              type="email"
+              placeholder="Email akun yang sudah terdaftar"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="md:max-w-sm"
+            />
+            <Select
+              value={role}
+              onChange={(e) => setRole(e.target.value as AdminRole)}
+              className="md:max-w-[200px]"
+            >
+              {ADMIN_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {ADMIN_ROLE_LABELS[option]}
+                </option>
+              ))}
+            </Select>
+            <Button type="submit" disabled={isSubmitting || !email.trim()}>
+              {isSubmitting ? "Menyimpan..." : "Tambah"}
+            </Button>
+          </form>
+          <ul className="grid gap-2 md:grid-cols-2 text-sm text-muted-foreground">
+            {ADMIN_ROLES.map((option) => (
+              <li key={option}>
+                <span className="font-medium text-foreground">{ADMIN_ROLE_LABELS[option]}</span>
+                {" — "}
+                {ROLE_DESCRIPTIONS[option]}
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Daftar Admin
+            {data && <Badge variant="info">{data.items.length}</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="text-destructive text-center py-8">
+              Gagal memuat daftar admin. Silakan coba lagi.
+            </div>
+          ) : (
+            <AdminTable
+              columns={columns}
+              data={(data?.items || []) as AdminMemberRow[]}
+              isLoading={isLoading}
+              emptyMessage="Belum ada admin"
+              emptyIcon={ShieldCheck}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
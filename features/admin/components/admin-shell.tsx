@@ -13,6 +13,7 @@ import {
   Coins,
   Share2,
   Settings,
+  ShieldCheck,
   Menu,
   LogOut,
 } from "lucide-react";
@@ -20,6 +21,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import type { AdminUser } from "../types";
+import { ADMIN_ROLE_LABELS } from "../lib/permissions";
 
 interface AdminShellProps {
   children: React.ReactNode;
@@ -69,25 +71,20 @@ const menuItems = [
     icon: Settings,
     scopes: ["settings"],
   },
-];
-
-// Admin access control - MVP: all admins have full access
-const adminScopes = [
-  "dashboard",
-  "cv_verification",
-  "account_management",
-  "taaruf_management",
-  "finance",
-  "posting_management",
-  "settings",
+  {
+    href: "/admin/manajemen-admin",
+    label: "Manajemen Admin",
+    icon: ShieldCheck,
+    scopes: ["admin_management"],
+  },
 ];
 
 export function AdminShell({ children, user }: AdminShellProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const pathname = usePathname();
 
-  // MVP: All admins have full access
-  const userScopes = user.isAdmin ? adminScopes : [];
+  // Scopes come from the admin's role (see features/admin/lib/permissions.ts)
+  const userScopes = user.isAdmin ? user.scopes : [];
   const allowedMenuItems = menuItems.filter((item) =>
     item.scopes.some((scope) => userScopes.includes(scope))
   );
@@ -131,7 +128,7 @@ export function AdminShell({ children, user }: AdminShellProps) {
             <div className="p-6 border-b border-border">
               <h1 className="text-xl font-bold text-primary">Admin Roomah</h1>
               <p className="text-sm text-muted-foreground mt-1">
-                Admin • {user.email}
+                {user.role ? ADMIN_ROLE_LABELS[user.role] : "Admin"} • {user.email}
               </p>
             </div>
 
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { XCircle } from "lucide-react";
+import { toast } from "@/lib/toast";
+
+interface CancelTaarufModalProps {
+  open: boolean;
+  onClose: () => void;
+  pasanganKode: [string, string];
+  onConfirm: (reason: string) => Promise<void> | void;
+}
+
+export function CancelTaarufModal({ open, onClose, pasanganKode, onConfirm }: CancelTaarufModalProps) {
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      toast.error("Mohon isi alasan pembatalan");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(reason.trim());
+      setReason("");
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-md p-6">
+        <DialogHeader className="mb-4">
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="h-5 w-5 text-destructive" />
+            Batalkan Ta&apos;aruf
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 px-1">
+          <p className="text-sm text-muted-foreground">
+            Ta&apos;aruf {pasanganKode[0]} &amp; {pasanganKode[1]} akan diakhiri dan tidak bisa
+            dipindah lagi. Kedua pihak akan menerima notifikasi beserta alasannya.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancel_reason">
+              Alasan Pembatalan <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="cancel_reason"
+              placeholder="Contoh: Salah satu pihak mengundurkan diri"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+              required
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Kembali
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+              {isSubmitting ? "Membatalkan..." : "Batalkan Ta'aruf"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
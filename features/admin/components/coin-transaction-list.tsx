@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Coins,
   Filter,
@@ -13,14 +14,18 @@ import {
   Download,
   Calendar,
   TrendingUp,
+  Undo2,
+  History,
 } from "lucide-react";
 import { AdminTable } from "./admin-table";
 import { AdminPagination } from "./admin-pagination";
 import { FilterToolbar } from "./filter-toolbar";
 import { useCoinTransactions } from "../hooks/use-coin-transactions";
+import { useWalletRefunds } from "../hooks/use-wallet-refunds";
 import { useRouter, useSearchParams } from "next/navigation";
 import { toast } from "@/lib/toast";
 import type { CoinRecord } from "../types";
+import type { WalletRefund } from "@/server/services/wallet";
 import { formatDistanceToNow } from "date-fns";
 import { id } from "date-fns/locale";
 
@@ -29,6 +34,26 @@ interface CoinTransactionListProps {
   status: string;
   from: string;
   to: string;
+  /** refund_payment permission - shows the refund action on spent koin */
+  canRefund?: boolean;
+}
+
+/** Fields of a /api/admin/coin-topups row used by the refund footer */
+type RefundableTransaction = {
+  transactionId: string | number;
+  type: string;
+  description?: string;
+  refundedKoin: number;
+  refundableKoin: number;
+};
+
+/** Type alias copy of WalletRefund - AdminTable rows need an index signature */
+type RefundRow = Pick<WalletRefund, keyof WalletRefund>;
+
+interface RefundFormState {
+  transactionId: number;
+  amountKoin: string;
+  reason: string;
 }
 
 export function CoinTransactionList({
@@ -36,8 +61,12 @@ export function CoinTransactionList({
   status,
   from,
   to,
+  canRefund = false,
 }: CoinTransactionListProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refundForm, setRefundForm] = useState<RefundFormState | null>(null);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [refundPage, setRefundPage] = useState(1);
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -47,6 +76,11 @@ export function CoinTransactionList({
     from,
     to
   );
+  const {
+    data: refundData,
+    isLoading: isLoadingRefunds,
+    mutate: mutateRefunds,
+  } = useWalletRefunds(refundPage);
 
   // Polling untuk realtime updates setiap 15 detik
   useEffect(() => {
@@ -91,6 +125,182 @@ export function CoinTransactionList({
     toast.info("Fitur export akan segera hadir");
   };
 
+  const handleRefund = async () => {
+    if (!refundForm) return;
+
+    const amountKoin = parseInt(refundForm.amountKoin, 10);
+    if (!Number.isInteger(amountKoin) || amountKoin <= 0) {
+      toast.error("Jumlah refund tidak valid");
+      return;
+    }
+    if (refundForm.reason.trim().length < 10) {
+      toast.error("Alasan refund minimal 10 karakter");
+      return;
+    }
+
+    setIsRefunding(true);
+    try {
+      const response = await fetch("/api/admin/refunds", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transactionId: refundForm.transactionId,
+          amountKoin,
+          reason: refundForm.reason.trim(),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || "Gagal melakukan refund");
+        return;
+      }
+
+      toast.success(result.message || "Refund berhasil");
+      setRefundForm(null);
+      await Promise.all([mutate(), mutateRefunds()]);
+    } catch {
+      toast.error("Gagal melakukan refund");
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const renderRefundFooter = (item: RefundableTransaction) => {
+    const transactionId = Number(item.transactionId);
+    const isOpen = refundForm?.transactionId === transactionId;
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div className="text-sm text-muted-foreground">
+            {item.description || '-'}
+            {item.refundedKoin > 0 && (
+              <span className="ml-2 text-success">
+                · Sudah direfund {item.refundedKoin} Koin
+              </span>
+            )}
+          </div>
+          {canRefund && item.type === "expense" && item.refundableKoin > 0 && !isOpen && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              onClick={() =>
+                setRefundForm({
+                  transactionId,
+                  amountKoin: String(item.refundableKoin),
+                  reason: "",
+                })
+              }
+            >
+              <Undo2 className="h-4 w-4" />
+              Refund
+            </Button>
+          )}
+        </div>
+
+        {isOpen && refundForm && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex flex-col md:flex-row gap-3">
+              <div className="md:w-48 space-y-1">
+                <div className="text-xs font-medium text-muted-foreground">
+                  Jumlah (maks. {item.refundableKoin} Koin)
+                </div>
+                <Input
+                  type="number"
+                  min={1}
+                  max={item.refundableKoin}
+                  value={refundForm.amountKoin}
+                  onChange={(e) =>
+                    setRefundForm({ ...refundForm, amountKoin: e.target.value })
+                  }
+                />
+              </div>
+              <div className="flex-1 space-y-1">
+                <div className="text-xs font-medium text-muted-foreground">
+                  Alasan refund
+                </div>
+                <Textarea
+                  rows={2}
+                  placeholder="Minimal 10 karakter"
+                  value={refundForm.reason}
+                  onChange={(e) =>
+                    setRefundForm({ ...refundForm, reason: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isRefunding}
+                onClick={() => setRefundForm(null)}
+              >
+                Batal
+              </Button>
+              <Button
+                size="sm"
+                className="gap-2"
+                disabled={isRefunding}
+                onClick={handleRefund}
+              >
+                <Undo2 className={`h-4 w-4 ${isRefunding ? "animate-pulse" : ""}`} />
+                Refund Koin
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const refundColumns = [
+    {
+      key: "user",
+      label: "Pengguna",
+      render: (refund: RefundRow) => (
+        <div className="space-y-1">
+          <div className="font-medium text-sm">{refund.userName || "Unknown"}</div>
+          <div className="text-xs text-muted-foreground">{refund.userEmail || "-"}</div>
+        </div>
+      ),
+    },
+    {
+      key: "amount",
+      label: "Jumlah",
+      render: (refund: RefundRow) => (
+        <div className="space-y-1">
+          <div className="font-semibold text-success">
+            + {refund.amountCents / 100} Koin
+          </div>
+          <div className="text-xs text-muted-foreground font-mono">
+            transaksi #{refund.transactionId}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "reason",
+      label: "Alasan",
+      render: (refund: RefundRow) => <div className="text-sm">{refund.reason}</div>,
+    },
+    {
+      key: "createdAt",
+      label: "Waktu",
+      render: (refund: RefundRow) => (
+        <div className="text-sm text-muted-foreground">
+          {formatDistanceToNow(new Date(refund.createdAt), {
+            addSuffix: true,
+            locale: id,
+          })}
+        </div>
+      ),
+    },
+  ];
+
   const getTotalRevenue = () => {
     if (!data) return 0;
     return data.items
@@ -281,17 +491,13 @@ export function CoinTransactionList({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <AdminTable
+          <AdminTable<RefundableTransaction>
             columns={columns}
             data={data?.items || []}
             isLoading={isLoading}
             emptyMessage="Tidak ada transaksi ditemukan"
             emptyIcon={Coins}
-            renderRowFooter={(item: any) => (
-              <div className="text-sm text-muted-foreground">
-                {item.description || '-'}
-              </div>
-            )}
+            renderRowFooter={renderRefundFooter}
           />
         </CardContent>
       </Card>
@@ -304,6 +510,34 @@ export function CoinTransactionList({
           onPageChange={handlePageChange}
         />
       )}
+
+      {/* Refund History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Riwayat Refund
+            {refundData && <Badge variant="info">{refundData.pagination.total}</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <AdminTable<RefundRow>
+            columns={refundColumns}
+            data={refundData?.refunds || []}
+            isLoading={isLoadingRefunds}
+            emptyMessage="Belum ada refund"
+            emptyIcon={History}
+          />
+
+          {refundData && refundData.pagination.totalPages > 1 && (
+            <AdminPagination
+              currentPage={refundPage}
+              totalPages={refundData.pagination.totalPages}
+              onPageChange={setRefundPage}
+            />
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -9,6 +9,8 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import {
@@ -38,11 +40,43 @@ import {
   Target,
   Church,
   ChevronDown,
+  History,
+  ArrowRight,
+  MessageSquare,
+  Plus,
+  Trash2,
+  ClipboardCheck,
 } from "lucide-react";
 import { loadCvDataByUserId } from "@/server/actions/cv-details";
 import { CvData } from "@/features/cv/types";
+import { CV_SECTION_LABELS } from "@/features/cv/lib/versions";
+import {
+  CV_REVISION_CATEGORY_LABELS,
+  CV_REVISION_FIELDS,
+  CV_REVISION_FIELD_KEYS,
+  type CvRevisionCategory,
+  type CvRevisionFieldKey,
+} from "@/features/cv/lib/revision-fields";
+import type { CvRevisionDiff } from "@/server/services/cv-versions";
+import type { OnboardingReview } from "@/server/services/onboarding-questions";
+import { ONBOARDING_CONSEQUENCE_LABELS } from "@/features/auth/lib/fiveq";
+import { format } from "date-fns";
+import { id as localeId } from "date-fns/locale";
 import { toast } from "sonner";
 
+interface FieldCommentDraft {
+  field: CvRevisionFieldKey | "";
+  comment: string;
+}
+
+// Field options grouped per CV category for the <optgroup>s
+const REVISION_FIELD_GROUPS = (Object.keys(CV_REVISION_CATEGORY_LABELS) as CvRevisionCategory[]).map(
+  (category) => ({
+    category,
+    keys: CV_REVISION_FIELD_KEYS.filter((key) => CV_REVISION_FIELDS[key].category === category),
+  })
+);
+
 interface CvReviewModalProps {
   userId: string | null;
   onComplete: () => void;
@@ -56,9 +90,13 @@ export function CvReviewModal({
 }: CvReviewModalProps) {
   const [decision, setDecision] = useState<"approve" | "revisi" | null>(null);
   const [note, setNote] = useState("");
+  const [fieldComments, setFieldComments] = useState<FieldCommentDraft[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [cvData, setCvData] = useState<any>(null);
+  const [revisionDiff, setRevisionDiff] = useState<CvRevisionDiff | null>(null);
+  const [onboarding, setOnboarding] = useState<OnboardingReview | null>(null);
+  const [isCompletingInterview, setIsCompletingInterview] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [openSections, setOpenSections] = useState<string[]>(["biodata"]);
 
@@ -72,8 +110,27 @@ export function CvReviewModal({
     if (!userId) return;
     try {
       setIsLoading(true);
-      const data = await loadCvDataByUserId(userId);
+      const [data, versionsRes, onboardingRes] = await Promise.all([
+        loadCvDataByUserId(userId),
+        fetch(`/api/admin/cv-queue/${userId}/versions`),
+        fetch(`/api/admin/cv-queue/${userId}/onboarding`),
+      ]);
       setCvData(data);
+
+      if (onboardingRes.ok) {
+        const result = await onboardingRes.json();
+        setOnboarding(result.data ?? null);
+      } else {
+        setOnboarding(null);
+      }
+
+      // Diff is supplementary - review still works without it
+      if (versionsRes.ok) {
+        const versions = await versionsRes.json();
+        setRevisionDiff(versions.data ?? null);
+      } else {
+        setRevisionDiff(null);
+      }
     } catch (error) {
       console.error("Error loading CV:", error);
       toast.error("Gagal memuat data CV");
@@ -82,6 +139,31 @@ export function CvReviewModal({
     }
   };
 
+  const interviewPending =
+    !!onboarding?.requiresInterview && !onboarding.interviewCompletedAt;
+
+  const handleCompleteInterview = async () => {
+    if (!userId) return;
+    setIsCompletingInterview(true);
+    try {
+      const res = await fetch(`/api/admin/cv-queue/${userId}/onboarding`, {
+        method: "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Gagal menandai wawancara");
+      }
+      setOnboarding((prev) =>
+        prev ? { ...prev, interviewCompletedAt: data.data.interviewCompletedAt } : prev
+      );
+      toast.success("Wawancara ditandai selesai");
+    } catch (error: any) {
+      toast.error(error?.message || "Gagal menandai wawancara");
+    } finally {
+      setIsCompletingInterview(false);
+    }
+  };
+
   const toggleSection = (section: string) => {
     setOpenSections((prev) =>
       prev.includes(section)
@@ -97,10 +179,19 @@ export function CvReviewModal({
     }
   };
 
+  const completeFieldComments = fieldComments.filter(
+    (c): c is { field: CvRevisionFieldKey; comment: string } => c.field !== "" && c.comment.trim().length > 0
+  );
+  const canSubmitRevision = note.trim().length > 0 || completeFieldComments.length > 0;
+
+  const updateFieldComment = (index: number, patch: Partial<FieldCommentDraft>) => {
+    setFieldComments((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
   const handleSubmit = async () => {
     if (!userId || !decision) return;
-    if (decision === "revisi" && !note.trim()) {
-      toast.error("Catatan wajib diisi untuk keputusan revisi");
+    if (decision === "revisi" && !canSubmitRevision) {
+      toast.error("Isi catatan atau tandai minimal satu isian CV untuk keputusan revisi");
       return;
     }
     setIsSubmitting(true);
@@ -120,7 +211,13 @@ export function CvReviewModal({
         const res = await fetch(`/api/admin/cv-queue/${userId}/revise`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ note: note.trim() }),
+          body: JSON.stringify({
+            note: note.trim(),
+            fields: completeFieldComments.map((c) => ({
+              field: c.field,
+              comment: c.comment.trim(),
+            })),
+          }),
         });
         const data = await res.json();
         if (!res.ok) {
@@ -234,6 +331,126 @@ export function CvReviewModal({
               </div>
             </Card>
 
+            {/* Changes since last review */}
+            {revisionDiff?.previous && (
+              <Card className="p-4 border-amber-200 bg-amber-50/50">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2">
+                    <History className="h-5 w-5 text-amber-600" />
+                    <h3 className="font-semibold">Perubahan Sejak Review Terakhir</h3>
+                  </div>
+                  <Badge variant="warning" className="text-xs">
+                    Versi {revisionDiff.previous.version_number} → {revisionDiff.current.version_number}
+                  </Badge>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="md:col-span-2 space-y-2">
+                    {revisionDiff.changes.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Tidak ada perubahan data sejak versi {revisionDiff.previous.version_number}.
+                      </p>
+                    ) : (
+                      revisionDiff.changes.map((change) => (
+                        <div
+                          key={change.key}
+                          className="rounded-md border border-border/50 bg-background p-2 text-sm"
+                        >
+                          <div className="text-xs text-muted-foreground">
+                            {CV_SECTION_LABELS[change.section]} · {change.label}
+                          </div>
+                          <div className="mt-1 flex flex-wrap items-center gap-2">
+                            <span className="line-through text-red-600/80">
+                              {change.before || "-"}
+                            </span>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            <span className="font-medium text-green-700">
+                              {change.after || "-"}
+                            </span>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+
+                  <div className="rounded-md border border-border/50 bg-background p-3 text-sm">
+                    <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground uppercase">
+                      <MessageSquare className="h-3 w-3" />
+                      Catatan Admin Sebelumnya
+                    </div>
+                    <p className="mt-2 whitespace-pre-wrap">
+                      {revisionDiff.previous.admin_note || "-"}
+                    </p>
+                    {revisionDiff.previous.reviewed_at && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        {revisionDiff.previous.review_decision === "APPROVED" ? "Disetujui" : "Revisi"}{" "}
+                        {format(new Date(revisionDiff.previous.reviewed_at), "d MMM yyyy HH:mm", {
+                          locale: localeId,
+                        })}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {/* Onboarding 5Q flags */}
+            {onboarding && onboarding.flags.length > 0 && (
+              <Card className="p-4 border-blue-200 bg-blue-50/50">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2">
+                    <ClipboardCheck className="h-5 w-5 text-blue-600" />
+                    <h3 className="font-semibold">Komitmen Verifikasi Kesiapan</h3>
+                  </div>
+                  {onboarding.requiresInterview && (
+                    <Badge
+                      variant={interviewPending ? "warning" : "success"}
+                      className="text-xs"
+                    >
+                      {interviewPending ? "Wawancara belum dilakukan" : "Wawancara selesai"}
+                    </Badge>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {onboarding.flags.map((flag) => (
+                    <div
+                      key={flag.question_id}
+                      className="rounded-md border border-border/50 bg-background p-2 text-sm"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="text-xs text-muted-foreground">
+                          {flag.question_id}. {flag.question} — dijawab &quot;Tidak&quot;
+                        </div>
+                        <Badge variant="info" className="text-xs shrink-0">
+                          {ONBOARDING_CONSEQUENCE_LABELS[flag.consequence]}
+                        </Badge>
+                      </div>
+                      {flag.commitment && (
+                        <div className="mt-1 font-medium">{flag.commitment}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {interviewPending && (
+                  <div className="mt-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      CV baru dapat disetujui setelah wawancara dengan admin.
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isCompletingInterview}
+                      onClick={handleCompleteInterview}
+                    >
+                      Tandai Wawancara Selesai
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            )}
+
             {/* Biodata Section */}
             <SectionCard title="Biodata" icon={User} sectionKey="biodata">
               <div className="grid grid-cols-2 gap-4">
@@ -400,6 +617,8 @@ export function CvReviewModal({
               <div className="flex gap-3">
                 <Button
                   onClick={() => handleDecision("approve")}
+                  disabled={interviewPending}
+                  title={interviewPending ? "Wawancara admin belum dilakukan" : undefined}
                   className="flex-1 gap-2 bg-green-600 hover:!bg-green-700 text-white border border-green-600 hover:border-green-700"
                   size="lg"
                 >
@@ -419,7 +638,7 @@ export function CvReviewModal({
               {decision === "revisi" && (
                 <div className="mt-4">
                   <label className="text-sm font-medium">
-                    Catatan Perbaikan <span className="text-red-500">*</span>
+                    Catatan Perbaikan
                   </label>
                   <Textarea
                     placeholder="Jelaskan bagian yang perlu diperbaiki..."
@@ -428,6 +647,73 @@ export function CvReviewModal({
                     className="mt-2"
                     rows={4}
                   />
+
+                  <div className="mt-4 space-y-2">
+                    <label className="text-sm font-medium block">
+                      Komentar per Isian
+                    </label>
+                    <p className="text-xs text-muted-foreground">
+                      Isian yang ditandai akan disorot di form CV pengguna. Pengguna harus
+                      mengubah atau menandai sudah sesuai sebelum mengajukan ulang.
+                    </p>
+                    {fieldComments.map((fieldComment, index) => (
+                      <div key={index} className="flex flex-col gap-2 sm:flex-row sm:items-start">
+                        <Select
+                          value={fieldComment.field}
+                          onChange={(e) =>
+                            updateFieldComment(index, { field: e.target.value as CvRevisionFieldKey })
+                          }
+                          className="sm:w-56"
+                        >
+                          <option value="" disabled>
+                            Pilih isian...
+                          </option>
+                          {REVISION_FIELD_GROUPS.map((group) => (
+                            <optgroup
+                              key={group.category}
+                              label={CV_REVISION_CATEGORY_LABELS[group.category]}
+                            >
+                              {group.keys.map((key) => (
+                                <option key={key} value={key}>
+                                  {CV_REVISION_FIELDS[key].label}
+                                </option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </Select>
+                        <Input
+                          value={fieldComment.comment}
+                          onChange={(e) => updateFieldComment(index, { comment: e.target.value })}
+                          placeholder="Komentar untuk isian ini..."
+                          maxLength={500}
+                          className="flex-1"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setFieldComments((prev) => prev.filter((_, i) => i !== index))
+                          }
+                          className="px-3"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setFieldComments((prev) => [...prev, { field: "", comment: "" }])
+                      }
+                      className="gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      Tandai Isian
+                    </Button>
+                  </div>
                 </div>
               )}
             </Card>
@@ -446,7 +732,7 @@ export function CvReviewModal({
           {decision === "revisi" && (
             <Button
               onClick={handleSubmit}
-              disabled={isSubmitting || !note.trim()}
+              disabled={isSubmitting || !canSubmitRevision}
               className="bg-red-600 hover:bg-red-700"
             >
               {isSubmitting ? "Memproses..." : "Kirim Revisi"}
@@ -465,7 +751,7 @@ export function CvReviewModal({
             </AlertDialogTitle>
             <AlertDialogDescription>
               CV akan disetujui dan pengguna akan mendapat kode kandidat. Profil
-              mereka akan tampil di halaman "Cari Jodoh". Tindakan ini tidak
+              mereka akan tampil di halaman &quot;Cari Jodoh&quot;. Tindakan ini tidak
               dapat dibatalkan.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -10,7 +10,7 @@ import {
 import { StatCard } from "./stat-card";
 import { getKpiData } from "@/features/admin/server/dashboard";
 
-export async function DashboardKpi() {
+export async function DashboardKpi({ showFinance = true }: { showFinance?: boolean }) {
   const kpi = await getKpiData();
 
   return (
@@ -44,36 +44,40 @@ export async function DashboardKpi() {
         description="Sedang berjalan"
       />
 
-      <div className="md:col-span-2 lg:col-span-1">
-        <StatCard
-          title="Top Up Hari Ini"
-          value={`Rp ${kpi.coinTopupToday.toLocaleString("id-ID")}`}
-          icon={Coins}
-          description="Total koin dibeli"
-        />
-      </div>
+      {showFinance && (
+        <>
+          <div className="md:col-span-2 lg:col-span-1">
+            <StatCard
+              title="Top Up Hari Ini"
+              value={`Rp ${kpi.coinTopupToday.toLocaleString("id-ID")}`}
+              icon={Coins}
+              description="Total koin dibeli"
+            />
+          </div>
 
-      <div className="md:col-span-2 lg:col-span-1">
-        <StatCard
-          title="Revenue MTD"
-          value={`Rp ${kpi.revenueMTD.toLocaleString("id-ID")}`}
-          icon={TrendingUp}
-          description="Pendapatan bulan ini"
-        />
-      </div>
+          <div className="md:col-span-2 lg:col-span-1">
+            <StatCard
+              title="Revenue MTD"
+              value={`Rp ${kpi.revenueMTD.toLocaleString("id-ID")}`}
+              icon={TrendingUp}
+              description="Pendapatan bulan ini"
+            />
+          </div>
 
-      <div className="md:col-span-2 lg:col-span-2">
-        <StatCard
-          title="Profit MTD"
-          value={`Rp ${kpi.profitMTD.toLocaleString("id-ID")}`}
-          icon={DollarSign}
-          description="Keuntungan bersih bulan ini"
-          trend={{
-            value: 12.5,
-            isPositive: true,
-          }}
-        />
-      </div>
+          <div className="md:col-span-2 lg:col-span-2">
+            <StatCard
+              title="Profit MTD"
+              value={`Rp ${kpi.profitMTD.toLocaleString("id-ID")}`}
+              icon={DollarSign}
+              description="Keuntungan bersih bulan ini"
+              trend={{
+                value: 12.5,
+                isPositive: true,
+              }}
+            />
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardCheck, Pencil } from "lucide-react";
+import { useOnboardingQuestions } from "../hooks/use-onboarding-questions";
+import {
+  ONBOARDING_CONSEQUENCES,
+  ONBOARDING_CONSEQUENCE_LABELS,
+} from "@/features/auth/lib/fiveq";
+import { toast } from "@/lib/toast";
+import type { OnboardingConsequence, OnboardingQuestion } from "@/types/database.types";
+
+interface QuestionDraft {
+  question: string;
+  commitmentText: string;
+  negativeConsequence: OnboardingConsequence;
+  blockMessage: string;
+}
+
+const CONSEQUENCE_VARIANTS: Record<OnboardingConsequence, "default" | "info" | "warning" | "destructive"> = {
+  NONE: "default",
+  FLAG_REVIEW: "info",
+  REQUIRE_INTERVIEW: "warning",
+  BLOCK: "destructive",
+};
+
+/**
+ * Onboarding 5Q settings
+ * Wording of the five questions and what a "Tidak" answer leads to.
+ * Changes apply to new answers only.
+ */
+export function OnboardingQuestionSettings() {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<QuestionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, error, mutate } = useOnboardingQuestions();
+
+  const startEdit = (question: OnboardingQuestion) => {
+    setEditingId(question.id);
+    setDraft({
+      question: question.question,
+      commitmentText: question.commitment_text || "",
+      negativeConsequence: question.negative_consequence,
+      blockMessage: question.block_message || "",
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (editingId === null || !draft) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/onboarding-questions/${editingId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(draft),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        toast.error(result.error || "Gagal menyimpan pertanyaan");
+        return;
+      }
+
+      toast.success(result.message);
+      cancelEdit();
+      await mutate();
+    } catch {
+      toast.error("Gagal menyimpan pertanyaan");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Pertanyaan Verifikasi Kesiapan (5Q)
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Atur pertanyaan onboarding dan konsekuensi jawaban &quot;Tidak&quot;.
+          Perubahan berlaku untuk jawaban baru.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <div className="text-destructive text-center py-8">
+            Gagal memuat pertanyaan. Silakan coba lagi.
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="h-16 animate-pulse rounded-lg bg-muted" />
+            ))}
+          </div>
+        ) : (
+          (data?.items || []).map((question) =>
+            editingId === question.id && draft ? (
+              <div key={question.id} className="space-y-3 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-muted-foreground">
+                    Pertanyaan {question.id}
+                  </div>
+                  <Input
+                    value={draft.question}
+                    onChange={(e) => setDraft({ ...draft, question: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-muted-foreground">
+                    Jika dijawab &quot;Tidak&quot;
+                  </div>
+                  <Select
+                    value={draft.negativeConsequence}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        negativeConsequence: e.target.value as OnboardingConsequence,
+                      })
+                    }
+                    className="md:max-w-xs"
+                  >
+                    {ONBOARDING_CONSEQUENCES.map((option) => (
+                      <option key={option} value={option}>
+                        {ONBOARDING_CONSEQUENCE_LABELS[option]}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                {draft.negativeConsequence === "BLOCK" ? (
+                  <div className="space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">
+                      Pesan untuk pengguna
+                    </div>
+                    <Textarea
+                      rows={2}
+                      value={draft.blockMessage}
+                      onChange={(e) => setDraft({ ...draft, blockMessage: e.target.value })}
+                    />
+                  </div>
+                ) : (
+                  draft.negativeConsequence !== "NONE" && (
+                    <div className="space-y-1">
+                      <div className="text-xs font-medium text-muted-foreground">
+                        Komitmen yang disetujui pengguna
+                      </div>
+                      <Textarea
+                        rows={2}
+                        value={draft.commitmentText}
+                        onChange={(e) =>
+                          setDraft({ ...draft, commitmentText: e.target.value })
+                        }
+                      />
+                    </div>
+                  )
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" disabled={isSaving} onClick={cancelEdit}>
+                    Batal
+                  </Button>
+                  <Button size="sm" disabled={isSaving} onClick={handleSave}>
+                    Simpan
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div
+                key={question.id}
+                className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 border-b border-border pb-4 last:border-0"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {question.id}. {question.question}
+                  </p>
+                  {question.negative_consequence === "BLOCK"
+                    ? question.block_message && (
+                        <p className="text-sm text-muted-foreground">{question.block_message}</p>
+                      )
+                    : question.commitment_text && (
+                        <p className="text-sm text-muted-foreground">
+                          Komitmen: {question.commitment_text}
+                        </p>
+                      )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={CONSEQUENCE_VARIANTS[question.negative_consequence]}>
+                    {ONBOARDING_CONSEQUENCE_LABELS[question.negative_consequence]}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    disabled={editingId !== null}
+                    onClick={() => startEdit(question)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Ubah
+                  </Button>
+                </div>
+              </div>
+            )
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
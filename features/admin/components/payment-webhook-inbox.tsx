@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Inbox, RefreshCw, RotateCcw } from "lucide-react";
+import { AdminTable } from "./admin-table";
+import { AdminPagination } from "./admin-pagination";
+import { usePaymentWebhooks } from "../hooks/use-payment-webhooks";
+import { toast } from "@/lib/toast";
+import type { PaymentWebhookInbox as PaymentWebhookInboxRow } from "@/types/database.types";
+import { formatDistanceToNow } from "date-fns";
+import { id } from "date-fns/locale";
+
+type PaymentWebhookRow = PaymentWebhookInboxRow & Record<string, unknown>;
+
+const FILTER_OPTIONS = [
+  { value: "all", label: "Semua" },
+  { value: "unprocessed", label: "Belum diproses" },
+  { value: "failed", label: "Gagal" },
+];
+
+/**
+ * Midtrans notification inbox
+ * Shows every stored notification with its processing result and lets
+ * an admin re-process one (e.g. after fixing a missing order).
+ */
+export function PaymentWebhookInbox() {
+  const [page, setPage] = useState(1);
+  const [filter, setFilter] = useState("all");
+  const [orderId, setOrderId] = useState("");
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+
+  const { data, isLoading, error, mutate } = usePaymentWebhooks(page, filter, orderId);
+
+  const handleReplay = async (item: PaymentWebhookRow) => {
+    setReplayingId(item.id);
+    try {
+      const response = await fetch(`/api/admin/payment-webhooks/${item.id}/replay`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || "Gagal memproses ulang notifikasi");
+        return;
+      }
+
+      toast.success(
+        `${item.order_id}: ${result.data.result} (${result.data.ledger_entries} entri ledger baru)`
+      );
+      await mutate();
+    } catch {
+      toast.error("Gagal memproses ulang notifikasi");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const getResultBadge = (item: PaymentWebhookRow) => {
+    if (item.last_error) {
+      return <Badge variant="destructive">Gagal</Badge>;
+    }
+    if (!item.processed_at) {
+      return <Badge variant="warning">Belum diproses</Badge>;
+    }
+    return <Badge variant="success">{item.process_result || "Diproses"}</Badge>;
+  };
+
+  const columns = [
+    {
+      key: "order_id",
+      label: "Order",
+      render: (item: PaymentWebhookRow) => (
+        <div className="font-mono text-xs truncate max-w-[200px]" title={item.order_id}>
+          {item.order_id}
+        </div>
+      ),
+    },
+    {
+      key: "transaction_status",
+      label: "Status Midtrans",
+      render: (item: PaymentWebhookRow) => (
+        <div className="space-y-1">
+          <div className="text-sm font-medium">{item.transaction_status}</div>
+          <div className="text-xs text-muted-foreground">kode {item.status_code}</div>
+        </div>
+      ),
+    },
+    {
+      key: "result",
+      label: "Hasil",
+      render: (item: PaymentWebhookRow) => (
+        <div className="space-y-1">
+          {getResultBadge(item)}
+          <div className="text-xs text-muted-foreground">
+            {item.received_count}x diterima · {item.attempts}x diproses
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(item.last_received_at), {
+              addSuffix: true,
+              locale: id,
+            })}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "actions",
+      label: "Aksi",
+      render: (item: PaymentWebhookRow) => (
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          disabled={replayingId === item.id}
+          onClick={() => handleReplay(item)}
+        >
+          <RotateCcw className={`h-4 w-4 ${replayingId === item.id ? "animate-spin" : ""}`} />
+          Proses Ulang
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Notifikasi Midtrans
+          {data && <Badge variant="info">{data.pagination.total}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-3">
+          <Input
+            placeholder="Cari Order ID..."
+            value={orderId}
+            onChange={(e) => {
+              setOrderId(e.target.value);
+              setPage(1);
+            }}
+            className="md:max-w-xs"
+          />
+          <Select
+            value={filter}
+            onChange={(e) => {
+              setFilter(e.target.value);
+              setPage(1);
+            }}
+            className="md:max-w-[200px]"
+          >
+            {FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+          <Button variant="outline" className="gap-2" onClick={() => mutate()}>
+            <RefreshCw className="h-4 w-4" />
+            Muat Ulang
+          </Button>
+        </div>
+
+        {error ? (
+          <div className="text-destructive text-center py-8">
+            Gagal memuat notifikasi. Silakan coba lagi.
+          </div>
+        ) : (
+          <AdminTable
+            columns={columns}
+            data={(data?.notifications || []) as PaymentWebhookRow[]}
+            isLoading={isLoading}
+            emptyMessage="Tidak ada notifikasi"
+            emptyIcon={Inbox}
+            renderRowFooter={(item) =>
+              item.last_error ? (
+                <div className="text-sm text-destructive">{item.last_error}</div>
+              ) : null
+            }
+          />
+        )}
+
+        {data && data.pagination.totalPages > 1 && (
+          <AdminPagination
+            currentPage={page}
+            totalPages={data.pagination.totalPages}
+            onPageChange={setPage}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
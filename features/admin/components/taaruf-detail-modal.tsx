@@ -7,6 +7,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Calendar, Clock, Heart, User, Mail, Phone, MapPin, Briefcase, GraduationCap } from "lucide-react";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
+import { useTaarufStageHistory } from "../hooks/use-taaruf-kanban";
+import { TaarufMeetingsPanel } from "./taaruf-meetings-panel";
+import { TaarufQaPanel } from "./taaruf-qa-panel";
 
 interface TaarufDetailModalProps {
   open: boolean;
@@ -44,29 +47,30 @@ interface TaarufDetailModalProps {
 }
 
 export function TaarufDetailModal({ open, onClose, taaruf }: TaarufDetailModalProps) {
+  const { history, isLoading: historyLoading } = useTaarufStageHistory(open ? taaruf?.id : null);
+
   if (!taaruf) return null;
 
   const statusColors: Record<string, string> = {
-    PENDING: "warning",
-    ACCEPTED: "success",
-    REJECTED: "destructive",
-    EXPIRED: "secondary",
+    ACTIVE: "info",
+    FINISHED: "success",
+    COMPLETED: "success",
+    CANCELLED: "destructive",
   };
 
   const statusLabels: Record<string, string> = {
-    PENDING: "Menunggu Persetujuan",
-    ACCEPTED: "Diterima",
-    REJECTED: "Ditolak",
-    EXPIRED: "Kadaluarsa",
+    ACTIVE: "Berlangsung",
+    FINISHED: "Selesai",
+    COMPLETED: "Selesai",
+    CANCELLED: "Dibatalkan",
   };
 
   const stageLabels: Record<string, string> = {
-    Pengajuan: "Pengajuan",
-    Screening: "Screening",
     "Zoom 1": "Pertemuan Virtual Pertama",
     "Zoom 2": "Pertemuan Virtual Kedua",
-    Keputusan: "Menunggu Keputusan",
+    Khitbah: "Proses Khitbah",
     Selesai: "Selesai",
+    Dibatalkan: "Dibatalkan",
   };
 
   return (
@@ -75,7 +79,7 @@ export function TaarufDetailModal({ open, onClose, taaruf }: TaarufDetailModalPr
         <DialogHeader className="px-2">
           <DialogTitle className="flex items-center gap-2 text-xl">
             <Heart className="h-5 w-5 text-primary" />
-            Detail Proses Ta'aruf
+            Detail Proses Ta&apos;aruf
           </DialogTitle>
         </DialogHeader>
 
@@ -83,7 +87,7 @@ export function TaarufDetailModal({ open, onClose, taaruf }: TaarufDetailModalPr
           {/* Status & Stage */}
           <div className="flex items-center justify-between p-5 bg-muted/50 rounded-lg">
             <div>
-              <div className="text-sm text-muted-foreground mb-1">Status Pengajuan</div>
+              <div className="text-sm text-muted-foreground mb-1">Status Sesi</div>
               <Badge variant={statusColors[taaruf.status] as any} className="text-sm">
                 {statusLabels[taaruf.status] || taaruf.status}
               </Badge>
@@ -212,6 +216,61 @@ export function TaarufDetailModal({ open, onClose, taaruf }: TaarufDetailModalPr
             </div>
           </div>
 
+          {/* Meetings */}
+          {open && (
+            <TaarufMeetingsPanel
+              taarufId={taaruf.id}
+              participants={[
+                { userId: taaruf.user_a, name: taaruf.requester?.full_name || "Pengaju" },
+                { userId: taaruf.user_b, name: taaruf.target?.full_name || "Yang Dilamar" },
+              ]}
+            />
+          )}
+
+          {/* Q&A */}
+          {open && (
+            <TaarufQaPanel
+              taarufId={taaruf.id}
+              participants={[
+                { userId: taaruf.user_a, name: taaruf.requester?.full_name || "Pengaju" },
+                { userId: taaruf.user_b, name: taaruf.target?.full_name || "Yang Dilamar" },
+              ]}
+            />
+          )}
+
+          {/* Stage History */}
+          <div className="border rounded-lg p-5 space-y-4">
+            <div className="font-semibold mb-4 flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              Riwayat Tahap
+            </div>
+
+            {historyLoading ? (
+              <div className="text-sm text-muted-foreground">Memuat riwayat...</div>
+            ) : history.length === 0 ? (
+              <div className="text-sm text-muted-foreground">Belum ada riwayat tahap</div>
+            ) : (
+              <div className="space-y-3 text-sm">
+                {history.map((item) => (
+                  <div key={item.id} className="py-2 border-b last:border-b-0">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="font-medium">
+                        {item.fromStage ? `${item.fromStage} → ${item.toStage}` : item.toStage}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(item.changedAt), "dd MMM yyyy, HH:mm", { locale: id })}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      oleh {item.changedBy}
+                      {item.reason && <> &middot; {item.reason}</>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Actions */}
           <div className="flex justify-end gap-2 pt-4 border-t mt-2">
             <Button variant="outline" onClick={onClose}>
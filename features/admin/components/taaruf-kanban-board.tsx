@@ -6,31 +6,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Heart, RefreshCw, Clock, Users, Zap, Video, Calendar as CalendarIcon } from "lucide-react";
+import { Heart, RefreshCw, Clock, Users, Zap, Video, XCircle, Calendar as CalendarIcon } from "lucide-react";
 import { useTaarufKanban } from "../hooks/use-taaruf-kanban";
 import { toast } from "@/lib/toast";
 import type { TaarufStage, TaarufCard } from "../types";
+import {
+  TAARUF_STAGES,
+  canTransition,
+  describeIllegalTransition,
+  requiresReason,
+} from "@/features/taaruf/lib/stages";
 import { formatDistanceToNow } from "date-fns";
 import { id } from "date-fns/locale";
 import React from "react";
 import { KanbanSkeleton } from "./kanban-skeleton";
 import { TaarufDetailModal } from "./taaruf-detail-modal";
 import { ZoomScheduleModal } from "./zoom-schedule-modal";
+import { CancelTaarufModal } from "./cancel-taaruf-modal";
 
-const STAGES: TaarufStage[] = [
-  "Pengajuan",
-  "Zoom 1",
-  "Zoom 2",
-  "Khitbah",
-  "Selesai",
-];
+const STAGES = TAARUF_STAGES;
 
 const STAGE_CONFIG = {
-  Pengajuan: {
-    icon: Heart,
-    color: "default",
-    description: "Ta'aruf baru diajukan",
-  },
   "Zoom 1": {
     icon: Video,
     color: "info",
@@ -51,11 +47,21 @@ const STAGE_CONFIG = {
     color: "success",
     description: "Proses selesai",
   },
+  Dibatalkan: {
+    icon: XCircle,
+    color: "destructive",
+    description: "Ta'aruf dibatalkan",
+  },
 } as const;
 
 export function TaarufKanbanBoard() {
   const { data, isLoading, error, mutate } = useTaarufKanban();
   const [isDragging, setIsDragging] = useState(false);
+  const [dragSourceStage, setDragSourceStage] = useState<TaarufStage | null>(null);
+  const [pendingCancel, setPendingCancel] = useState<{
+    card: TaarufCard;
+    from: TaarufStage;
+  } | null>(null);
   const [selectedTaaruf, setSelectedTaaruf] = useState<any>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [showZoomModal, setShowZoomModal] = useState(false);
@@ -64,12 +70,14 @@ export function TaarufKanbanBoard() {
     stage: "Zoom 1" | "Zoom 2";
   } | null>(null);
 
-  const onDragStart = () => {
+  const onDragStart = (start: { source: { droppableId: string } }) => {
     setIsDragging(true);
+    setDragSourceStage(start.source.droppableId as TaarufStage);
   };
 
   const onDragEnd = async (result: unknown) => {
     setIsDragging(false);
+    setDragSourceStage(null);
 
     const { destination, source, draggableId } = result;
 
@@ -120,14 +128,36 @@ export function TaarufKanbanBoard() {
       return;
     }
 
+    // Same rules as the stage API - it would answer 409 anyway
+    if (!canTransition(actualSourceStage, destStage)) {
+      toast.error(describeIllegalTransition(actualSourceStage, destStage));
+      return;
+    }
+
+    if (requiresReason(destStage)) {
+      setPendingCancel({ card: dragged, from: actualSourceStage });
+      return;
+    }
+
+    await moveCard(dragged, actualSourceStage, destStage);
+  };
+
+  const moveCard = async (
+    dragged: TaarufCard,
+    fromStage: TaarufStage,
+    destStage: TaarufStage,
+    reason?: string
+  ) => {
+    if (!data) return;
+
     const optimisticData = { ...data };
     // Remove from actual source stage (where card currently is)
-    optimisticData[actualSourceStage] = optimisticData[actualSourceStage].filter(
-      (x) => String(x.id) !== String(draggableId)
+    optimisticData[fromStage] = optimisticData[fromStage].filter(
+      (x) => String(x.id) !== String(dragged.id)
     );
     // Add to destination stage
     optimisticData[destStage] = [
-      ...optimisticData[destStage],
+      ...(optimisticData[destStage] || []),
       {
         ...dragged,
         stage: destStage,
@@ -140,16 +170,16 @@ export function TaarufKanbanBoard() {
       await mutate(
         async () => {
           // Call API
-          const res = await fetch(`/api/admin/taaruf/${draggableId}/stage`, {
+          const res = await fetch(`/api/admin/taaruf/${dragged.id}/stage`, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ newStage: destStage }),
+            body: JSON.stringify({ newStage: destStage, reason }),
           });
           
           if (!res.ok) {
             const error = await res.json();
             console.error("API Error:", error);
-            throw new Error(error.error || "Update stage failed");
+            throw new StageUpdateError(error.error || "Update stage failed", res.status);
           }
 
           // Return optimistic data (don't revalidate immediately)
@@ -165,6 +195,12 @@ export function TaarufKanbanBoard() {
       toast.success(`Ta'aruf berhasil dipindah ke ${destStage}`);
     } catch (error) {
       console.error("Drag & drop error:", error);
+      if (error instanceof StageUpdateError && error.status === 409) {
+        // Board is stale (illegal move or another admin moved the card)
+        toast.error(error.message);
+        mutate();
+        return;
+      }
       toast.error("Gagal memindah Ta'aruf. Silakan coba lagi.");
       // SWR will automatically rollback to previous data
     }
@@ -195,7 +231,7 @@ export function TaarufKanbanBoard() {
       <Card>
         <CardContent className="p-8 text-center">
           <div className="text-destructive mb-4">
-            Gagal memuat data Ta'aruf. Silakan coba lagi.
+            Gagal memuat data Ta&apos;aruf. Silakan coba lagi.
           </div>
           <Button onClick={refreshData} className="gap-2">
             <RefreshCw className="h-4 w-4" />
@@ -230,8 +266,8 @@ export function TaarufKanbanBoard() {
             <Card key={stage} className="text-center hover:shadow-md transition-shadow border-l-4" style={{
               borderLeftColor: 
                 config.color === "success" ? "hsl(var(--success))" :
-                config.color === "warning" ? "hsl(var(--warning))" :
                 config.color === "info" ? "hsl(var(--info))" :
+                config.color === "destructive" ? "hsl(var(--destructive))" :
                 "hsl(var(--muted))"
             }}>
               <div className="p-6">
@@ -269,7 +305,14 @@ export function TaarufKanbanBoard() {
                 </CardHeader>
 
                 <CardContent className="flex-1 pt-0">
-                  <Droppable droppableId={stage}>
+                  <Droppable
+                    droppableId={stage}
+                    isDropDisabled={
+                      !!dragSourceStage &&
+                      dragSourceStage !== stage &&
+                      !canTransition(dragSourceStage, stage)
+                    }
+                  >
                     {(provided, snapshot) => (
                       <div
                         ref={provided.innerRef}
@@ -304,7 +347,7 @@ export function TaarufKanbanBoard() {
                         {cards.length === 0 && !isDragging && (
                           <div className="text-center py-8 text-muted-foreground">
                             <div className="text-sm">
-                              Belum ada Ta'aruf
+                              Belum ada Ta&apos;aruf
                             </div>
                           </div>
                         )}
@@ -325,6 +368,17 @@ export function TaarufKanbanBoard() {
         taaruf={selectedTaaruf}
       />
 
+      {pendingCancel && (
+        <CancelTaarufModal
+          open={!!pendingCancel}
+          onClose={() => setPendingCancel(null)}
+          pasanganKode={pendingCancel.card.pasanganKode}
+          onConfirm={(reason) =>
+            moveCard(pendingCancel.card, pendingCancel.from, "Dibatalkan", reason)
+          }
+        />
+      )}
+
       {zoomModalConfig && (
         <ZoomScheduleModal
           open={showZoomModal}
@@ -338,6 +392,13 @@ export function TaarufKanbanBoard() {
   );
 }
 
+class StageUpdateError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "StageUpdateError";
+  }
+}
+
 interface TaarufCardProps {
   card: TaarufCard;
   isDragging: boolean;
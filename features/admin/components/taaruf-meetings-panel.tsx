@@ -0,0 +1,265 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Video, Link as LinkIcon } from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { toast } from "@/lib/toast";
+import { MEETING_STATUS_LABELS } from "@/features/taaruf/lib/meetings";
+import { useTaarufMeetings, type TaarufMeetingItem } from "../hooks/use-taaruf-kanban";
+import { ZoomScheduleModal } from "./zoom-schedule-modal";
+import type { TaarufMeetingStatus } from "@/types/database.types";
+
+const statusVariants: Record<TaarufMeetingStatus, "info" | "success" | "warning" | "destructive"> = {
+  SCHEDULED: "info",
+  ATTENDED: "success",
+  NO_SHOW: "warning",
+  CANCELLED: "destructive",
+};
+
+interface Participant {
+  userId: string;
+  name: string;
+}
+
+interface TaarufMeetingsPanelProps {
+  taarufId: string | number;
+  participants: [Participant, Participant];
+}
+
+type MeetingAction =
+  | { action: "cancel"; reason: string }
+  | { action: "attended" }
+  | { action: "no_show"; no_show_user_id: string | null }
+  | { action: "moderator_notes"; moderator_notes: string | null };
+
+/**
+ * Meetings of a session for admins: reschedule, cancel, attendance and
+ * moderator notes (never shown to participants)
+ */
+export function TaarufMeetingsPanel({ taarufId, participants }: TaarufMeetingsPanelProps) {
+  const { meetings, isLoading, mutate } = useTaarufMeetings(taarufId);
+  const [rescheduling, setRescheduling] = useState<TaarufMeetingItem | null>(null);
+
+  const updateMeeting = async (meetingId: number, body: MeetingAction) => {
+    const response = await fetch(`/api/admin/taaruf/meetings/${meetingId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      toast.error(result.error || "Gagal memperbarui pertemuan");
+      return false;
+    }
+
+    await mutate();
+    return true;
+  };
+
+  return (
+    <div className="border rounded-lg p-5 space-y-4">
+      <div className="font-semibold mb-4 flex items-center gap-2">
+        <Video className="h-4 w-4" />
+        Pertemuan Zoom
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Memuat pertemuan...</div>
+      ) : meetings.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Belum ada pertemuan terjadwal</div>
+      ) : (
+        <div className="space-y-3 text-sm">
+          {meetings.map((meeting) => (
+            <MeetingRow
+              key={meeting.id}
+              meeting={meeting}
+              participants={participants}
+              onReschedule={() => setRescheduling(meeting)}
+              onUpdate={(body) => updateMeeting(meeting.id, body)}
+            />
+          ))}
+        </div>
+      )}
+
+      {rescheduling && (
+        <ZoomScheduleModal
+          open={!!rescheduling}
+          onClose={() => setRescheduling(null)}
+          taarufId={taarufId}
+          stage={rescheduling.stage === "Zoom 2" ? "Zoom 2" : "Zoom 1"}
+          meeting={rescheduling}
+          onScheduled={() => mutate()}
+        />
+      )}
+    </div>
+  );
+}
+
+interface MeetingRowProps {
+  meeting: TaarufMeetingItem;
+  participants: [Participant, Participant];
+  onReschedule: () => void;
+  onUpdate: (body: MeetingAction) => Promise<boolean>;
+}
+
+function MeetingRow({ meeting, participants, onReschedule, onUpdate }: MeetingRowProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [cancelReason, setCancelReason] = useState<string | null>(null);
+  const [noShowUser, setNoShowUser] = useState<string | null>(null);
+  const [notes, setNotes] = useState(meeting.moderator_notes || "");
+
+  const started = new Date(meeting.scheduled_at).getTime() <= Date.now();
+  const noShowName =
+    meeting.status === "NO_SHOW"
+      ? participants.find((p) => p.userId === meeting.no_show_user_id)?.name || "Kedua peserta"
+      : null;
+
+  const run = async (body: MeetingAction, successMessage: string) => {
+    setIsSaving(true);
+    const ok = await onUpdate(body);
+    setIsSaving(false);
+    if (ok) {
+      toast.success(successMessage);
+      setCancelReason(null);
+      setNoShowUser(null);
+    }
+  };
+
+  return (
+    <div className="py-3 border-b last:border-b-0 space-y-2">
+      <div className="flex justify-between items-center gap-2">
+        <span className="font-medium">{meeting.stage}</span>
+        <Badge variant={statusVariants[meeting.status]}>{MEETING_STATUS_LABELS[meeting.status]}</Badge>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {format(new Date(meeting.scheduled_at), "EEEE, dd MMM yyyy HH:mm", { locale: id })}
+        {" - "}
+        {format(new Date(meeting.ends_at), "HH:mm", { locale: id })}
+        {meeting.moderator_name && <> &middot; moderator {meeting.moderator_name}</>}
+        {meeting.reschedule_count > 0 && <> &middot; dijadwalkan ulang {meeting.reschedule_count}x</>}
+      </div>
+      <a
+        href={meeting.zoom_link}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-1 text-xs text-primary hover:underline"
+      >
+        <LinkIcon className="h-3 w-3" />
+        <span className="truncate">{meeting.zoom_link}</span>
+      </a>
+      {meeting.status === "CANCELLED" && meeting.cancel_reason && (
+        <div className="text-xs text-muted-foreground">Alasan batal: {meeting.cancel_reason}</div>
+      )}
+      {noShowName && <div className="text-xs text-muted-foreground">Tidak hadir: {noShowName}</div>}
+      {meeting.guardian_confirmed_at && (
+        <div className="text-xs text-muted-foreground">
+          Wali mengonfirmasi hadir {format(new Date(meeting.guardian_confirmed_at), "dd MMM HH:mm", { locale: id })}
+        </div>
+      )}
+
+      {meeting.status === "SCHEDULED" && cancelReason === null && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Button size="sm" variant="outline" onClick={onReschedule} disabled={isSaving}>
+            Jadwalkan Ulang
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setCancelReason("")} disabled={isSaving}>
+            Batalkan
+          </Button>
+        </div>
+      )}
+
+      {cancelReason !== null && (
+        <div className="space-y-2 pt-1">
+          <Textarea
+            placeholder="Alasan pembatalan (dikirim ke peserta)"
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={isSaving || cancelReason.trim().length < 3}
+              onClick={() => run({ action: "cancel", reason: cancelReason.trim() }, "Pertemuan dibatalkan")}
+            >
+              Konfirmasi Batal
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setCancelReason(null)} disabled={isSaving}>
+              Kembali
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {started && meeting.status !== "CANCELLED" && (
+        <div className="flex flex-wrap items-center gap-2 pt-1">
+          <Button
+            size="sm"
+            variant={meeting.status === "ATTENDED" ? "primary" : "outline"}
+            disabled={isSaving || meeting.status === "ATTENDED"}
+            onClick={() => run({ action: "attended" }, "Pertemuan ditandai terlaksana")}
+          >
+            Terlaksana
+          </Button>
+          <Select
+            className="h-9 w-auto text-xs"
+            value={noShowUser ?? ""}
+            onChange={(e) => setNoShowUser(e.target.value)}
+            disabled={isSaving}
+          >
+            <option value="">Tidak hadir...</option>
+            {participants.map((p) => (
+              <option key={p.userId} value={p.userId}>
+                {p.name}
+              </option>
+            ))}
+            <option value="both">Kedua peserta</option>
+          </Select>
+          {noShowUser && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSaving}
+              onClick={() =>
+                run(
+                  { action: "no_show", no_show_user_id: noShowUser === "both" ? null : noShowUser },
+                  "Ketidakhadiran dicatat"
+                )
+              }
+            >
+              Simpan
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-1">
+        <Textarea
+          placeholder="Catatan moderator (hanya untuk admin)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+        />
+        {notes !== (meeting.moderator_notes || "") && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isSaving}
+            onClick={() =>
+              run({ action: "moderator_notes", moderator_notes: notes.trim() || null }, "Catatan disimpan")
+            }
+          >
+            Simpan Catatan
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquareText } from "lucide-react";
+import { format } from "date-fns";
+import { id } from "date-fns/locale";
+import { toast } from "@/lib/toast";
+import { QA_STATUS_LABELS } from "@/features/taaruf/lib/qa";
+import { useTaarufQaThread } from "../hooks/use-taaruf-kanban";
+import type { QaThreadMessage } from "@/server/services/taaruf-qa";
+import type { TaarufQaStatus } from "@/types/database.types";
+
+const statusVariants: Record<TaarufQaStatus, "warning" | "success" | "destructive"> = {
+  PENDING: "warning",
+  APPROVED: "success",
+  REJECTED: "destructive",
+};
+
+interface Participant {
+  userId: string;
+  name: string;
+}
+
+interface TaarufQaPanelProps {
+  taarufId: string | number;
+  participants: [Participant, Participant];
+}
+
+type ReviewAction = { action: "approve" } | { action: "reject"; reason: string };
+
+/**
+ * Q&A thread of a session for admins: every message with its review
+ * status, pending ones approved (delivered) or rejected here
+ */
+export function TaarufQaPanel({ taarufId, participants }: TaarufQaPanelProps) {
+  const { items, isLoading, mutate } = useTaarufQaThread(taarufId);
+
+  const senderName = (userId: string) =>
+    participants.find((p) => p.userId === userId)?.name || "Unknown";
+
+  const pendingCount = items.reduce(
+    (count, q) =>
+      count + (q.status === "PENDING" ? 1 : 0) + q.answers.filter((a) => a.status === "PENDING").length,
+    0
+  );
+
+  const reviewMessage = async (messageId: number, body: ReviewAction) => {
+    const response = await fetch(`/api/admin/taaruf/questions/${messageId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      toast.error(result.error || "Gagal memoderasi pesan");
+      return false;
+    }
+
+    toast.success(body.action === "approve" ? "Pesan diteruskan" : "Pesan ditolak");
+    await mutate();
+    return true;
+  };
+
+  return (
+    <div className="border rounded-lg p-5 space-y-4">
+      <div className="font-semibold mb-4 flex items-center gap-2">
+        <MessageSquareText className="h-4 w-4" />
+        Tanya Jawab
+        {pendingCount > 0 && <Badge variant="warning">{pendingCount} menunggu</Badge>}
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Memuat tanya jawab...</div>
+      ) : items.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Belum ada pertanyaan</div>
+      ) : (
+        <div className="space-y-4 text-sm">
+          {items.map((question) => (
+            <div key={question.id} className="py-3 border-b last:border-b-0 space-y-2">
+              <MessageRow
+                message={question}
+                label={`Pertanyaan dari ${senderName(question.sender_id)}`}
+                onReview={(body) => reviewMessage(question.id, body)}
+              />
+              {question.answers.map((answer) => (
+                <div key={answer.id} className="pl-4 border-l">
+                  <MessageRow
+                    message={answer}
+                    label={`Jawaban dari ${senderName(answer.sender_id)}`}
+                    onReview={(body) => reviewMessage(answer.id, body)}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MessageRowProps {
+  message: QaThreadMessage;
+  label: string;
+  onReview: (body: ReviewAction) => Promise<boolean>;
+}
+
+function MessageRow({ message, label, onReview }: MessageRowProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [rejectReason, setRejectReason] = useState<string | null>(null);
+
+  const run = async (body: ReviewAction) => {
+    setIsSaving(true);
+    const ok = await onReview(body);
+    setIsSaving(false);
+    if (ok) setRejectReason(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-muted-foreground">
+          {label} &middot; {format(new Date(message.created_at), "dd MMM yyyy, HH:mm", { locale: id })}
+        </span>
+        <Badge variant={statusVariants[message.status]}>{QA_STATUS_LABELS[message.status]}</Badge>
+      </div>
+      <p className="whitespace-pre-wrap break-words">{message.body}</p>
+      {message.status === "REJECTED" && message.reject_reason && (
+        <div className="text-xs text-muted-foreground">Alasan tolak: {message.reject_reason}</div>
+      )}
+
+      {message.status === "PENDING" &&
+        (rejectReason !== null ? (
+          <div className="space-y-2">
+            <Textarea
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Alasan penolakan (dikirim ke pengirim)"
+              rows={2}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setRejectReason(null)} disabled={isSaving}>
+                Batal
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={isSaving || rejectReason.trim().length < 3}
+                onClick={() => run({ action: "reject", reason: rejectReason.trim() })}
+              >
+                Tolak Pesan
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setRejectReason("")} disabled={isSaving}>
+              Tolak
+            </Button>
+            <Button size="sm" onClick={() => run({ action: "approve" })} disabled={isSaving}>
+              Setujui &amp; Teruskan
+            </Button>
+          </div>
+        ))}
+    </div>
+  );
+}
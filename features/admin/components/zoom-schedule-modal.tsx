@@ -1,13 +1,18 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Calendar, Video, Clock, Link as LinkIcon } from "lucide-react";
+import { Calendar, Video, Clock, Link as LinkIcon, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
 import { toast } from "@/lib/toast";
+import { DEFAULT_MEETING_DURATION_MINUTES } from "@/features/taaruf/lib/meetings";
+import { useMeetingConflicts } from "../hooks/use-taaruf-kanban";
+import type { TaarufMeeting } from "@/types/database.types";
 
 interface ZoomScheduleModalProps {
   open: boolean;
@@ -15,16 +20,55 @@ interface ZoomScheduleModalProps {
   taarufId: string | number;
   stage: "Zoom 1" | "Zoom 2";
   onScheduled: () => void;
+  /** Reschedule this meeting instead of creating a new one */
+  meeting?: Pick<TaarufMeeting, "id" | "scheduled_at" | "ends_at" | "zoom_link" | "notes"> | null;
 }
 
-export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled }: ZoomScheduleModalProps) {
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+function initialFormData(meeting: ZoomScheduleModalProps["meeting"]) {
+  if (!meeting) {
+    return {
+      meeting_date: "",
+      meeting_time: "",
+      duration_minutes: DEFAULT_MEETING_DURATION_MINUTES,
+      zoom_link: "",
+      meeting_notes: "",
+    };
+  }
+
+  const start = new Date(meeting.scheduled_at);
+  return {
+    meeting_date: format(start, "yyyy-MM-dd"),
+    meeting_time: format(start, "HH:mm"),
+    duration_minutes: Math.round((new Date(meeting.ends_at).getTime() - start.getTime()) / 60000),
+    zoom_link: meeting.zoom_link,
+    meeting_notes: meeting.notes || "",
+  };
+}
+
+export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled, meeting }: ZoomScheduleModalProps) {
+  const isReschedule = !!meeting;
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [formData, setFormData] = useState({
-    meeting_date: "",
-    meeting_time: "",
-    zoom_link: "",
-    meeting_notes: "",
-  });
+  const [formData, setFormData] = useState(() => initialFormData(meeting));
+
+  // Check the admin's calendar once the slot stops changing
+  const [slot, setSlot] = useState<{ start: string; durationMinutes: number } | null>(null);
+  useEffect(() => {
+    if (!formData.meeting_date || !formData.meeting_time) {
+      setSlot(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setSlot({
+        start: new Date(`${formData.meeting_date}T${formData.meeting_time}`).toISOString(),
+        durationMinutes: formData.duration_minutes,
+      });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [formData.meeting_date, formData.meeting_time, formData.duration_minutes]);
+
+  const { conflicts } = useMeetingConflicts(open ? slot : null, meeting?.id);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,21 +81,36 @@ export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled
     setIsSubmitting(true);
 
     try {
-      // Combine date and time
-      const meetingDateTime = `${formData.meeting_date}T${formData.meeting_time}:00`;
-
-      const response = await fetch(`/api/admin/taaruf/${taarufId}/schedule-zoom`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          stage,
-          meeting_datetime: meetingDateTime,
-          zoom_link: formData.zoom_link,
-          notes: formData.meeting_notes,
-        }),
-      });
+      // Date and time are picked in the admin's local time; send an absolute instant
+      const meetingDateTime = new Date(`${formData.meeting_date}T${formData.meeting_time}`).toISOString();
+
+      const response = isReschedule
+        ? await fetch(`/api/admin/taaruf/meetings/${meeting.id}`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              action: "reschedule",
+              meeting_datetime: meetingDateTime,
+              duration_minutes: formData.duration_minutes,
+              zoom_link: formData.zoom_link,
+              notes: formData.meeting_notes || null,
+            }),
+          })
+        : await fetch(`/api/admin/taaruf/${taarufId}/schedule-zoom`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              stage,
+              meeting_datetime: meetingDateTime,
+              duration_minutes: formData.duration_minutes,
+              zoom_link: formData.zoom_link,
+              notes: formData.meeting_notes,
+            }),
+          });
 
       const result = await response.json();
 
@@ -73,7 +132,7 @@ export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled
       });
 
       toast.success(
-        `✅ ${stage} berhasil dijadwalkan!\n📅 ${formattedDate}\n🕒 ${formattedTime} WIB`,
+        `✅ ${stage} berhasil ${isReschedule ? "dijadwalkan ulang" : "dijadwalkan"}!\n📅 ${formattedDate}\n🕒 ${formattedTime} WIB`,
         6000 // Show for 6 seconds
       );
       
@@ -81,12 +140,7 @@ export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled
       onClose();
       
       // Reset form
-      setFormData({
-        meeting_date: "",
-        meeting_time: "",
-        zoom_link: "",
-        meeting_notes: "",
-      });
+      setFormData(initialFormData(null));
     } catch (error) {
       console.error("Schedule zoom error:", error);
       const errorMessage = error instanceof Error ? error.message : "Gagal menjadwalkan pertemuan";
@@ -102,7 +156,7 @@ export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled
         <DialogHeader className="mb-4">
           <DialogTitle className="flex items-center gap-2">
             <Video className="h-5 w-5 text-primary" />
-            Jadwalkan {stage}
+            {isReschedule ? "Jadwalkan Ulang" : "Jadwalkan"} {stage}
           </DialogTitle>
         </DialogHeader>
 
@@ -138,6 +192,41 @@ export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled
             />
           </div>
 
+          {/* Duration */}
+          <div className="space-y-2">
+            <Label htmlFor="duration_minutes">Durasi</Label>
+            <Select
+              id="duration_minutes"
+              value={formData.duration_minutes}
+              onChange={(e) => setFormData({ ...formData, duration_minutes: Number(e.target.value) })}
+            >
+              {[...new Set([...DURATION_OPTIONS, formData.duration_minutes])]
+                .sort((a, b) => a - b)
+                .map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} menit
+                  </option>
+                ))}
+            </Select>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">Bentrok dengan jadwal Anda:</p>
+                <ul className="mt-1 space-y-0.5">
+                  {conflicts.map((c) => (
+                    <li key={c.id}>
+                      {c.stage} (taaruf #{c.taaruf_id}), {format(new Date(c.scheduled_at), "dd/MM HH:mm")}–
+                      {format(new Date(c.ends_at), "HH:mm")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
           {/* Zoom Link */}
           <div className="space-y-2">
             <Label htmlFor="zoom_link" className="flex items-center gap-2">
@@ -172,8 +261,8 @@ export function ZoomScheduleModal({ open, onClose, taarufId, stage, onScheduled
             <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
               Batal
             </Button>
-            <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? "Menjadwalkan..." : "Jadwalkan Pertemuan"}
+            <Button type="submit" disabled={isSubmitting || conflicts.length > 0}>
+              {isSubmitting ? "Menjadwalkan..." : isReschedule ? "Simpan Jadwal Baru" : "Jadwalkan Pertemuan"}
             </Button>
           </DialogFooter>
         </form>
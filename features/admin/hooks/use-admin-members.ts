@@ -0,0 +1,19 @@
+"use client";
+
+import useSWR from "swr";
+import type { AdminMember } from "@/server/services/admin-roles";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed");
+    return r.json();
+  });
+
+export function useAdminMembers() {
+  const { data, error, isLoading, mutate } = useSWR<{ items: AdminMember[] }>(
+    "/api/admin/admins",
+    fetcher
+  );
+
+  return { data, error, isLoading, mutate };
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import useSWR from "swr";
+import type { OnboardingQuestion } from "@/types/database.types";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed");
+    return r.json();
+  });
+
+export function useOnboardingQuestions() {
+  const { data, error, isLoading, mutate } = useSWR<{ items: OnboardingQuestion[] }>(
+    "/api/admin/onboarding-questions",
+    fetcher
+  );
+
+  return { data, error, isLoading, mutate };
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import useSWR from "swr";
+import type { PaymentWebhookInbox } from "@/types/database.types";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed");
+    return r.json();
+  });
+
+export interface PaymentWebhookPage {
+  notifications: PaymentWebhookInbox[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export function usePaymentWebhooks(page = 1, filter = "all", orderId = "") {
+  const params = new URLSearchParams();
+  params.set("page", String(page));
+  if (filter) params.set("filter", filter);
+  if (orderId) params.set("orderId", orderId);
+
+  const { data, error, isLoading, mutate } = useSWR<PaymentWebhookPage>(
+    `/api/admin/payment-webhooks?${params.toString()}`,
+    fetcher
+  );
+
+  return { data, error, isLoading, mutate };
+}
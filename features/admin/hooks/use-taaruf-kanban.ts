@@ -1,6 +1,9 @@
 "use client";
 
 import useSWR from "swr";
+import type { TaarufMeeting } from "@/types/database.types";
+import type { MeetingConflict } from "@/server/services/taaruf-meetings";
+import type { QaThreadItem } from "@/server/services/taaruf-qa";
 
 const fetcher = (url: string) =>
   fetch(url, { credentials: "include" }).then((r) => {
@@ -17,3 +20,65 @@ export function useTaarufKanban() {
 
   return { data, error, isLoading, mutate };
 }
+
+export type TaarufStageHistoryItem = {
+  id: number;
+  fromStage: string | null;
+  toStage: string;
+  reason: string | null;
+  changedAt: string;
+  changedBy: string;
+};
+
+export function useTaarufStageHistory(taarufId?: string | number | null) {
+  const { data, error, isLoading, mutate } = useSWR<{ data: TaarufStageHistoryItem[] }>(
+    taarufId ? `/api/admin/taaruf/${taarufId}/stage` : null,
+    fetcher
+  );
+
+  return { history: data?.data || [], error, isLoading, mutate };
+}
+
+export type TaarufMeetingItem = TaarufMeeting & { moderator_name: string | null };
+
+export function useTaarufMeetings(taarufId?: string | number | null) {
+  const { data, error, isLoading, mutate } = useSWR<{ data: TaarufMeetingItem[] }>(
+    taarufId ? `/api/admin/taaruf/${taarufId}/meetings` : null,
+    fetcher
+  );
+
+  return { meetings: data?.data || [], error, isLoading, mutate };
+}
+
+export function useTaarufQaThread(taarufId?: string | number | null) {
+  const { data, error, isLoading, mutate } = useSWR<{ data: QaThreadItem[] }>(
+    taarufId ? `/api/admin/taaruf/${taarufId}/questions` : null,
+    fetcher
+  );
+
+  return { items: data?.data || [], error, isLoading, mutate };
+}
+
+/**
+ * The current admin's scheduled meetings overlapping a slot (debounce the
+ * inputs before passing them in)
+ */
+export function useMeetingConflicts(
+  slot: { start: string; durationMinutes: number } | null,
+  excludeMeetingId?: number
+) {
+  const params = slot
+    ? new URLSearchParams({
+        start: slot.start,
+        duration: String(slot.durationMinutes),
+        ...(excludeMeetingId ? { exclude: String(excludeMeetingId) } : {}),
+      })
+    : null;
+
+  const { data, isLoading } = useSWR<{ data: MeetingConflict[] }>(
+    params ? `/api/admin/taaruf/meetings/conflicts?${params}` : null,
+    fetcher
+  );
+
+  return { conflicts: data?.data || [], isLoading };
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import useSWR from "swr";
+import type { WalletRefund } from "@/server/services/wallet";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed");
+    return r.json();
+  });
+
+export interface WalletRefundPage {
+  refunds: WalletRefund[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export function useWalletRefunds(page = 1) {
+  const { data, error, isLoading, mutate } = useSWR<WalletRefundPage>(
+    `/api/admin/refunds?page=${page}`,
+    fetcher
+  );
+
+  return { data, error, isLoading, mutate };
+}
@@ -0,0 +1,102 @@
+/**
+ * Admin Roles & Permissions
+ * Single source of truth for what each admin role may do.
+ *
+ *   superadmin  everything, incl. granting roles
+ *   reviewer    CV verification only (no payments, no accounts)
+ *   finance     payments, refunds, wallet reconciliation (no suspend)
+ *   moderator   accounts, ta'aruf sessions, social media posts
+ *
+ * The role itself is stored in admin_roles (one row per admin). Used by
+ * the admin server actions, every /api/admin route and the sidebar.
+ * Keep ADMIN_ROLES in sync with the CHECK constraint on admin_roles.role.
+ */
+
+export const ADMIN_ROLES = ["superadmin", "reviewer", "finance", "moderator"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ADMIN_PERMISSIONS = [
+  "view_dashboard",
+  "view_cv",
+  "verify_cv",
+  "reject_cv",
+  "view_accounts",
+  "suspend_user",
+  "delete_user",
+  "view_taaruf",
+  "manage_taaruf",
+  "end_taaruf",
+  "view_payments",
+  "refund_payment",
+  "replay_payment_webhook",
+  "reconcile_wallet",
+  "moderate_social_media",
+  "manage_settings",
+  "view_audit_log",
+  "generate_reports",
+  "manage_admins",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  superadmin: ADMIN_PERMISSIONS,
+  reviewer: ["view_dashboard", "view_cv", "verify_cv", "reject_cv"],
+  finance: [
+    "view_dashboard",
+    "view_accounts",
+    "view_payments",
+    "refund_payment",
+    "replay_payment_webhook",
+    "reconcile_wallet",
+    "generate_reports",
+  ],
+  moderator: [
+    "view_dashboard",
+    "view_accounts",
+    "suspend_user",
+    "view_taaruf",
+    "manage_taaruf",
+    "end_taaruf",
+    "moderate_social_media",
+    "view_audit_log",
+  ],
+};
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  superadmin: "Superadmin",
+  reviewer: "Reviewer CV",
+  finance: "Keuangan",
+  moderator: "Moderator",
+};
+
+/** Sidebar scope → permission needed to see the menu item */
+const SCOPE_PERMISSIONS: Record<string, AdminPermission> = {
+  dashboard: "view_dashboard",
+  cv_verification: "view_cv",
+  account_management: "view_accounts",
+  taaruf_management: "view_taaruf",
+  finance: "view_payments",
+  posting_management: "moderate_social_media",
+  settings: "manage_settings",
+  admin_management: "manage_admins",
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function getRolePermissions(role: AdminRole | null): readonly AdminPermission[] {
+  return role ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(role: AdminRole | null, permission: AdminPermission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+export function getAdminScopes(role: AdminRole | null): string[] {
+  return Object.entries(SCOPE_PERMISSIONS)
+    .filter(([, permission]) => hasPermission(role, permission))
+    .map(([scope]) => scope);
+}
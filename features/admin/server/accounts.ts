@@ -3,7 +3,7 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError, validateInput } from "@/lib/api/error";
 import { z } from "zod";
-import { verifyAdminAccess, checkAdminPermission } from "./auth";
+import { verifyAdminAccess, assertAdminPermission, checkAdminPermission } from "./auth";
 
 /**
  * Validation schemas
@@ -32,7 +32,7 @@ const resetPasswordSchema = z.object({
  */
 export async function listUserAccounts(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_accounts");
     const data = validateInput(listAccountsSchema, input, "listUserAccounts");
     const supabase = createServiceClient();
 
@@ -110,7 +110,7 @@ export async function listUserAccounts(adminId: string, input: unknown) {
  */
 export async function getUserDetails(adminId: string, userId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_accounts");
     const supabase = createServiceClient();
 
     const { data: profile, error: profileError } = await supabase
@@ -334,7 +334,7 @@ export async function resetUserPassword(adminId: string, input: unknown) {
  */
 export async function viewUserAuditLog(adminId: string, userId: string, limit: number = 20) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_audit_log");
     const supabase = createServiceClient();
 
     const { data: logs, error } = await supabase
@@ -1,4 +1,14 @@
-import { createClient } from "@/server/db/client";
+import { createClient, createAdminClient } from "@/server/db/client";
+import { getAdminRole } from "@/server/services/admin-roles";
+import { hasPermission } from "../lib/permissions";
+import { recordCvReview } from "@/server/services/cv-versions";
+import { notifyCvReviewed } from "@/server/services/notifications";
+import { generateCandidateCode } from "@/server/services/sequence";
+import { isInterviewPending } from "@/server/services/onboarding-questions";
+import {
+  createRevisionComments,
+  type CvRevisionCommentInput,
+} from "@/server/services/cv-revision-comments";
 
 /**
  * ADMIN SERVER ACTIONS - ROOMAH MVP
@@ -15,14 +25,10 @@ import { createClient } from "@/server/db/client";
 export async function getPendingCVs(adminId: string) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "view_cv")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
@@ -59,14 +65,10 @@ export async function getPendingCVs(adminId: string) {
 export async function approveCV(adminId: string, userId: string) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "verify_cv")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
@@ -90,20 +92,21 @@ export async function approveCV(adminId: string, userId: string) {
       };
     }
 
+    if (await isInterviewPending(createAdminClient(), userId)) {
+      return {
+        success: false,
+        error: "Kandidat wajib wawancara admin sebelum CV disetujui",
+        data: null,
+      };
+    }
+
     // Generate candidate code
-    const { data: codeResult, error: codeError } = await supabase.rpc(
-      "generate_candidate_code",
-      {
-        p_gender: cv.gender,
-      }
-    );
+    const candidateCode = await generateCandidateCode(cv.gender);
 
-    if (codeError) {
-      throw new Error("Gagal generate kode kandidat: " + codeError.message);
+    if (!candidateCode) {
+      throw new Error("Gagal generate kode kandidat");
     }
 
-    const candidateCode = codeResult;
-
     // Update CV status
     const { data: updatedCv, error: updateError } = await supabase
       .from("cv_data")
@@ -121,6 +124,9 @@ export async function approveCV(adminId: string, userId: string) {
       throw new Error("Gagal approve CV: " + updateError.message);
     }
 
+    await recordCvReview(await supabase, userId, "APPROVED");
+    await notifyCvReviewed(userId, "APPROVED", { candidateCode });
+
     // Refresh materialized view (trigger via database function)
     await supabase.rpc("refresh_approved_candidates");
 
@@ -156,18 +162,15 @@ export async function approveCV(adminId: string, userId: string) {
 export async function reviseCV(
   adminId: string,
   userId: string,
-  adminNote: string
+  adminNote: string,
+  fieldComments: CvRevisionCommentInput[] = []
 ) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "reject_cv")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
@@ -191,6 +194,10 @@ export async function reviseCV(
     return { success: false, error: error.message, data: null };
   }
 
+  await createRevisionComments(await supabase, userId, adminId, fieldComments);
+  await recordCvReview(await supabase, userId, "REVISI", adminNote);
+  await notifyCvReviewed(userId, "REVISI", { adminNote });
+
   // Log admin action
   await supabase.from("admin_actions_audit").insert({
     admin_id: adminId,
@@ -198,6 +205,7 @@ export async function reviseCV(
     target_user_id: userId,
     details: {
       admin_note: adminNote,
+      field_comments: fieldComments,
     },
     created_at: new Date().toISOString(),
   });
@@ -220,14 +228,10 @@ export async function reviseCV(
 export async function getDashboardStats(adminId: string) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "view_dashboard")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
@@ -315,14 +319,10 @@ export async function getUserManagement(
 ) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "view_accounts")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
@@ -385,14 +385,10 @@ export async function suspendUser(
 ) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "suspend_user")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
@@ -457,14 +453,10 @@ export async function suspendUser(
 export async function reactivateUser(adminId: string, userId: string) {
   const supabase = createClient();
 
-  // Verify admin
-  const { data: admin } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("user_id", adminId)
-    .single();
+  // Verify admin role
+  const adminRole = await getAdminRole(await supabase, adminId);
 
-  if (!admin || admin.is_admin !== true) {
+  if (!hasPermission(adminRole, "suspend_user")) {
     return {
       success: false,
       error: "Unauthorized: Admin access required",
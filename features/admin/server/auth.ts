@@ -2,6 +2,12 @@
 
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError } from "@/lib/api/error";
+import { getAdminRole } from "@/server/services/admin-roles";
+import {
+  getRolePermissions,
+  hasPermission,
+  type AdminPermission,
+} from "../lib/permissions";
 
 /**
  * Verify admin access
@@ -24,7 +30,9 @@ export async function verifyAdminAccess(userId: string) {
       );
     }
 
-    if (profile.is_admin !== true) {
+    const role = await getAdminRole(supabase, userId);
+
+    if (profile.is_admin !== true || !role) {
       throw new AppError(
         ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS,
         "Anda tidak memiliki akses admin",
@@ -43,8 +51,10 @@ export async function verifyAdminAccess(userId: string) {
     return {
       success: true,
       data: {
-        isAdmin: profile.is_admin,
-        isSuperAdmin: false, // MVP: no super admin distinction
+        isAdmin: true,
+        isSuperAdmin: role === "superadmin",
+        role,
+        permissions: getRolePermissions(role),
       },
     };
   } catch (error) {
@@ -99,33 +109,12 @@ export async function getAdminAccessLog(adminId: string, limit: number = 20) {
  */
 export async function checkAdminPermission(
   adminId: string,
-  action: string,
-  resource?: string
+  action: AdminPermission
 ): Promise<{ allowed: boolean; reason?: string }> {
   try {
     const adminData = await verifyAdminAccess(adminId);
 
-    // Superadmin can do everything
-    if (adminData.data.isSuperAdmin) {
-      return { allowed: true };
-    }
-
-    // Role-based permission mapping
-    const adminPermissions: Record<string, string[]> = {
-      suspend_user: ["admin", "superadmin"],
-      delete_user: ["superadmin"],
-      verify_cv: ["admin", "superadmin"],
-      reject_cv: ["admin", "superadmin"],
-      end_taaruf: ["admin", "superadmin"],
-      view_audit_log: ["admin", "superadmin"],
-      view_payments: ["admin", "superadmin"],
-      generate_reports: ["admin", "superadmin"],
-      manage_admins: ["superadmin"],
-    };
-
-    const allowed = adminPermissions[action]?.includes("admin") || false;
-
-    if (!allowed) {
+    if (!hasPermission(adminData.data.role, action)) {
       return {
         allowed: false,
         reason: `Anda tidak memiliki izin untuk ${action}`,
@@ -138,3 +127,20 @@ export async function checkAdminPermission(
     return { allowed: false, reason: "Gagal memverifikasi izin" };
   }
 }
+
+/**
+ * Verify admin access and throw 403 if the admin's role lacks the permission
+ */
+export async function assertAdminPermission(adminId: string, action: AdminPermission) {
+  const adminData = await verifyAdminAccess(adminId);
+
+  if (!hasPermission(adminData.data.role, action)) {
+    throw new AppError(
+      ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS,
+      `Anda tidak memiliki izin untuk ${action}`,
+      403
+    );
+  }
+
+  return adminData;
+}
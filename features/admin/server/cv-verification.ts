@@ -3,7 +3,7 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError, validateInput } from "@/lib/api/error";
 import { z } from "zod";
-import { verifyAdminAccess, checkAdminPermission } from "./auth";
+import { verifyAdminAccess, assertAdminPermission, checkAdminPermission } from "./auth";
 
 /**
  * Validation schemas
@@ -29,7 +29,7 @@ const listPendingCvSchema = z.object({
  */
 export async function listPendingCvVerifications(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_cv");
     const data = validateInput(listPendingCvSchema, input, "listPendingCvVerifications");
     const supabase = createServiceClient();
 
@@ -96,7 +96,7 @@ export async function listPendingCvVerifications(adminId: string, input: unknown
  */
 export async function getCvVerificationDetail(adminId: string, userId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_cv");
     const supabase = createServiceClient();
 
     // Get onboarding verification record
@@ -307,7 +307,7 @@ export async function rejectCvVerification(adminId: string, input: unknown) {
  */
 export async function getCvVerificationStats(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_cv");
     const supabase = createServiceClient();
 
     const { data: stats, error } = await supabase
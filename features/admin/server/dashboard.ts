@@ -2,14 +2,15 @@
 
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError } from "@/lib/api/error";
-import { verifyAdminAccess } from "./auth";
+import { assertAdminPermission } from "./auth";
+import { hasPermission } from "../lib/permissions";
 
 /**
  * Get dashboard metrics
  */
 export async function getDashboardMetrics(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_dashboard");
     const supabase = createServiceClient();
 
     // Get total users
@@ -93,7 +94,7 @@ export async function getDashboardMetrics(adminId: string) {
  */
 export async function getRecentActivities(adminId: string, limit: number = 10) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_dashboard");
     const supabase = createServiceClient();
 
     const { data: activities, error } = await supabase
@@ -139,7 +140,7 @@ export async function getRecentActivities(adminId: string, limit: number = 10) {
  */
 export async function getSystemHealth(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const supabase = createServiceClient();
 
     // Check database connectivity
@@ -183,7 +184,7 @@ export async function getSystemHealth(adminId: string) {
  */
 export async function getUserGrowthMetrics(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_dashboard");
     const supabase = createServiceClient();
 
     // Get daily signups for last 30 days
@@ -224,7 +225,7 @@ export async function getUserGrowthMetrics(adminId: string) {
  */
 export async function getApprovalRateStats(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_dashboard");
     const supabase = createServiceClient();
 
     // Get CV verification stats
@@ -298,7 +299,7 @@ function determineTrend(dailyStats: any[]): "up" | "down" | "neutral" {
  */
 export async function generateAdminReport(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "generate_reports");
 
     // Fetch all necessary data
     const metrics = await getDashboardMetrics(adminId);
@@ -344,6 +345,8 @@ export async function getKpiData() {
     );
   }
 
+  const { data: admin } = await assertAdminPermission(user.id, "view_dashboard");
+
   const supabase = createServiceClient();
 
   // Get KPI data
@@ -369,6 +372,20 @@ export async function getKpiData() {
   // Get today's coin topup
   const today = new Date();
   today.setHours(0, 0, 0, 0);
+
+  // Roles without payment access only get the non-financial KPIs
+  if (!hasPermission(admin.role, "view_payments")) {
+    return {
+      totalUsers: totalUsers || 0,
+      approvedCV: approvedCV || 0,
+      pendingCV: pendingCV || 0,
+      activeTaaruf: activeTaaruf || 0,
+      coinTopupToday: 0,
+      revenueMTD: 0,
+      profitMTD: 0,
+    };
+  }
+
   const { data: topupToday } = await supabase
     .from("koin_transactions")
     .select("amount")
@@ -411,6 +428,8 @@ export async function getLatestTaaruf() {
     );
   }
 
+  await assertAdminPermission(user.id, "view_taaruf");
+
   const supabase = createServiceClient();
 
   // Simple query without foreign key joins
@@ -467,6 +486,8 @@ export async function getLatestTransactions() {
     );
   }
 
+  await assertAdminPermission(user.id, "view_payments");
+
   const supabase = createServiceClient();
 
   // Use payment_transactions table (not koin_transactions)
@@ -3,7 +3,8 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError, validateInput } from "@/lib/api/error";
 import { z } from "zod";
-import { verifyAdminAccess } from "./auth";
+import { koinToCents, refundWalletEntry } from "@/server/services/wallet";
+import { assertAdminPermission } from "./auth";
 
 /**
  * Validation schemas
@@ -22,8 +23,10 @@ const getAllTransactionsSchema = z.object({
 });
 
 const refundTransactionSchema = z.object({
-  transactionId: z.string(),
-  reason: z.string().min(10, "Alasan minimal 10 karakter").max(500),
+  transactionId: z.coerce.number().int().positive(),
+  /** Whole koin; omit to refund everything still refundable */
+  amountKoin: z.number().int().positive().optional(),
+  reason: z.string().trim().min(10, "Alasan minimal 10 karakter").max(500),
 });
 
 const exportTransactionDataSchema = z.object({
@@ -37,7 +40,7 @@ const exportTransactionDataSchema = z.object({
  */
 export async function getAllTransactions(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_payments");
     const data = validateInput(getAllTransactionsSchema, input, "getAllTransactions");
     const supabase = createServiceClient();
 
@@ -137,7 +140,7 @@ export async function getAllTransactions(adminId: string, input: unknown) {
  */
 export async function getPaymentStatistics(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_payments");
     const supabase = createServiceClient();
 
     // Get total revenue (completed topups)
@@ -207,7 +210,7 @@ export async function getPaymentStatistics(adminId: string) {
  */
 export async function getTransactionDetail(adminId: string, transactionId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_payments");
     const supabase = createServiceClient();
 
     const { data: transaction, error } = await supabase
@@ -264,66 +267,33 @@ export async function getTransactionDetail(adminId: string, transactionId: strin
 
 /**
  * Refund transaction (admin action)
+ * Full or partial refund of koin spent on a ta'aruf request or social
+ * media post, as a CREDIT/REFUND ledger entry plus a payment_refunds row
  */
 export async function refundTransaction(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "refund_payment");
     const data = validateInput(refundTransactionSchema, input, "refundTransaction");
     const supabase = createServiceClient();
 
-    // Get transaction
-    const { data: transaction, error: txError } = await supabase
-      .from("wallet_transactions")
-      .select("*")
-      .eq("id", data.transactionId)
-      .single();
-
-    if (txError || !transaction) {
-      throw new AppError(
-        ERROR_CODES.PAYMENT_NOT_FOUND,
-        "Transaksi tidak ditemukan",
-        404
-      );
-    }
-
-    if (transaction.status === "refunded") {
-      throw new AppError(
-        ERROR_CODES.PAYMENT_CANNOT_REFUND,
-        "Transaksi sudah di-refund sebelumnya",
-        400
-      );
-    }
-
-    // Update original transaction status
-    const { error: updateError } = await supabase
-      .from("wallet_transactions")
-      .update({
-        status: "refunded",
-      })
-      .eq("id", data.transactionId);
-
-    if (updateError) {
-      throw handleDatabaseError(updateError, "refundTransaction - update");
-    }
+    const result = await refundWalletEntry(supabase, {
+      transactionId: data.transactionId,
+      amountCents: data.amountKoin ? koinToCents(data.amountKoin) : null,
+      reason: data.reason,
+      adminId,
+    });
 
-    // Create credit transaction
-    if (transaction.type === "topup" && transaction.status === "completed") {
-      const { error: creditError } = await supabase
-        .from("wallet_transactions")
-        .insert({
-          profile_id: transaction.profile_id,
-          type: "refund",
-          amount: transaction.amount,
-          status: "completed",
-          notes: `Refund untuk transaksi ${data.transactionId}: ${data.reason}`,
-          related_entity_id: data.transactionId,
-          related_entity_type: "refund",
-          completed_at: new Date().toISOString(),
-        });
-
-      if (creditError) {
-        console.error("Error creating credit transaction:", creditError);
+    if (!result.success || !result.data) {
+      const message = result.error || "Gagal melakukan refund";
+      if (result.errorCode === "TRANSACTION_NOT_FOUND") {
+        throw new AppError(ERROR_CODES.PAYMENT_NOT_FOUND, message, 404);
       }
+      if (result.errorCode === "RPC_ERROR") {
+        throw new AppError(ERROR_CODES.DATABASE_ERROR, message, 500);
+      }
+      throw new AppError(ERROR_CODES.PAYMENT_CANNOT_REFUND, message, 400, {
+        reason: result.errorCode,
+      });
     }
 
     // Log audit trail
@@ -332,10 +302,13 @@ export async function refundTransaction(adminId: string, input: unknown) {
         actor_id: adminId,
         action: "transaction_refunded",
         entity_type: "wallet_transactions",
-        entity_id: data.transactionId,
+        entity_id: String(data.transactionId),
         changes: {
           reason: data.reason,
-          amount: transaction.amount,
+          refund_id: result.data.refundId,
+          ledger_entry_id: result.data.entryId,
+          refunded_cents: result.data.refundedCents,
+          refundable_cents: result.data.refundableCents,
         },
       });
     } catch (auditError) {
@@ -344,7 +317,11 @@ export async function refundTransaction(adminId: string, input: unknown) {
 
     return {
       success: true,
-      message: "Transaksi berhasil di-refund",
+      message:
+        result.data.refundableCents > 0
+          ? "Refund sebagian berhasil diproses"
+          : "Transaksi berhasil di-refund",
+      data: result.data,
     };
   } catch (error) {
     console.error("Refund transaction error:", error);
@@ -366,7 +343,7 @@ export async function getTransactionReport(
   endDate?: string
 ) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "generate_reports");
     const supabase = createServiceClient();
 
     let query = supabase
@@ -446,7 +423,7 @@ export async function getPaymentsByDateRange(
   limit: number = 50
 ) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_payments");
     const supabase = createServiceClient();
 
     const { data: transactions, error } = await supabase
@@ -3,7 +3,7 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError, validateInput } from "@/lib/api/error";
 import { z } from "zod";
-import { verifyAdminAccess } from "./auth";
+import { assertAdminPermission } from "./auth";
 
 /**
  * Validation schemas
@@ -33,7 +33,7 @@ const getSystemLogsSchema = z.object({
  */
 export async function getPlatformSettings(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const supabase = createServiceClient();
 
     const { data: settings, error } = await supabase
@@ -76,7 +76,7 @@ export async function getPlatformSettings(adminId: string) {
  */
 export async function updatePlatformSetting(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const data = validateInput(updatePlatformSettingsSchema, input, "updatePlatformSetting");
     const supabase = createServiceClient();
 
@@ -157,7 +157,7 @@ export async function updatePlatformSetting(adminId: string, input: unknown) {
  */
 export async function getFeatureFlags(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const supabase = createServiceClient();
 
     const { data: flags, error } = await supabase
@@ -205,7 +205,7 @@ export async function getFeatureFlags(adminId: string) {
  */
 export async function toggleFeatureFlag(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const data = validateInput(updateFeatureFlagSchema, input, "toggleFeatureFlag");
     const supabase = createServiceClient();
 
@@ -288,7 +288,7 @@ export async function toggleFeatureFlag(adminId: string, input: unknown) {
  */
 export async function getSystemLogs(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const data = validateInput(getSystemLogsSchema, input, "getSystemLogs");
     const supabase = createServiceClient();
 
@@ -350,7 +350,7 @@ export async function getSystemLogs(adminId: string, input: unknown) {
  */
 export async function getPerformanceMetrics(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const supabase = createServiceClient();
 
     // Check database connectivity with a simple ping
@@ -407,7 +407,7 @@ export async function getPerformanceMetrics(adminId: string) {
  */
 export async function exportSystemConfig(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "manage_settings");
     const supabase = createServiceClient();
 
     // Get settings
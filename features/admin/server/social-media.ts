@@ -3,7 +3,7 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError, validateInput } from "@/lib/api/error";
 import { z } from "zod";
-import { verifyAdminAccess } from "./auth";
+import { assertAdminPermission } from "./auth";
 
 /**
  * Validation schemas
@@ -33,7 +33,7 @@ const updateSocialMediaSettingsSchema = z.object({
  */
 export async function listUserSocialMediaAccounts(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const data = validateInput(listSocialMediaSchema, input, "listUserSocialMediaAccounts");
     const supabase = createServiceClient();
 
@@ -125,7 +125,7 @@ export async function listUserSocialMediaAccounts(adminId: string, input: unknow
  */
 export async function getSocialMediaStats(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const supabase = createServiceClient();
 
     // Get stats per platform
@@ -199,7 +199,7 @@ export async function verifySocialMediaLink(
   platform: string
 ) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const supabase = createServiceClient();
 
     const { data: link, error: fetchError } = await supabase
@@ -250,7 +250,7 @@ export async function verifySocialMediaLink(
  */
 export async function unlinkUserSocialMedia(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const data = validateInput(unlinkSocialMediaSchema, input, "unlinkUserSocialMedia");
     const supabase = createServiceClient();
 
@@ -315,7 +315,7 @@ export async function unlinkUserSocialMedia(adminId: string, input: unknown) {
  */
 export async function updateSocialMediaSettings(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const data = validateInput(updateSocialMediaSettingsSchema, input, "updateSocialMediaSettings");
     const supabase = createServiceClient();
 
@@ -400,7 +400,7 @@ export async function updateSocialMediaSettings(adminId: string, input: unknown)
  */
 export async function getSocialMediaPlatforms(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const supabase = createServiceClient();
 
     const { data: platforms, error } = await supabase
@@ -437,7 +437,7 @@ export async function getSocialMediaPlatforms(adminId: string) {
  */
 export async function getUserSocialMediaProfiles(adminId: string, userId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "moderate_social_media");
     const supabase = createServiceClient();
 
     const { data: profiles, error } = await supabase
@@ -3,7 +3,7 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { AppError, ERROR_CODES, handleDatabaseError, validateInput } from "@/lib/api/error";
 import { z } from "zod";
-import { verifyAdminAccess } from "./auth";
+import { assertAdminPermission } from "./auth";
 
 /**
  * Validation schemas
@@ -32,7 +32,7 @@ const reportTaarufIssueSchema = z.object({
  */
 export async function getActiveTaarufSessions(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_taaruf");
     const data = validateInput(getActiveTaarufSchema, input, "getActiveTaarufSessions");
     const supabase = createServiceClient();
 
@@ -113,7 +113,7 @@ export async function getActiveTaarufSessions(adminId: string, input: unknown) {
  */
 export async function getTaarufSessionDetail(adminId: string, taarufId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_taaruf");
     const supabase = createServiceClient();
 
     const { data: session, error: sessionError } = await supabase
@@ -190,7 +190,7 @@ export async function getTaarufSessionDetail(adminId: string, taarufId: string)
  */
 export async function getTaarufStatistics(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_taaruf");
     const supabase = createServiceClient();
 
     // Get counts
@@ -256,7 +256,7 @@ export async function getTaarufStatistics(adminId: string) {
  */
 export async function suspendTaarufSession(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "end_taaruf");
     const data = validateInput(suspendTaarufSessionSchema, input, "suspendTaarufSession");
     const supabase = createServiceClient();
 
@@ -325,7 +325,7 @@ export async function suspendTaarufSession(adminId: string, input: unknown) {
  */
 export async function reportTaarufIssue(adminId: string, input: unknown) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_taaruf");
     const data = validateInput(reportTaarufIssueSchema, input, "reportTaarufIssue");
     const supabase = createServiceClient();
 
@@ -385,7 +385,7 @@ export async function reportTaarufIssue(adminId: string, input: unknown) {
  */
 export async function getTaarufIssues(adminId: string, limit: number = 20) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_taaruf");
     const supabase = createServiceClient();
 
     const { data: issues, error } = await supabase
@@ -438,7 +438,7 @@ export async function getTaarufIssues(adminId: string, limit: number = 20) {
  */
 export async function getTaarufAnalytics(adminId: string) {
   try {
-    await verifyAdminAccess(adminId);
+    await assertAdminPermission(adminId, "view_taaruf");
     const supabase = createServiceClient();
 
     // Get all taaruf sessions for analysis
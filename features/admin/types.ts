@@ -1,9 +1,13 @@
+import type { TaarufStage } from "@/features/taaruf/lib/stages";
+import type { AdminRole } from "./lib/permissions";
+
 export type CvStatus = "approve" | "review" | "revisi";
 
 export type AdminUser = {
   id: string;
   email: string;
   isAdmin: boolean;
+  role?: AdminRole;
   scopes: string[];
 };
 
@@ -55,12 +59,7 @@ export type AccountDetail = AccountRow & {
   >;
 };
 
-export type TaarufStage =
-  | "Pengajuan"
-  | "Zoom 1"
-  | "Zoom 2"
-  | "Khitbah"
-  | "Selesai";
+export type { TaarufStage };
 
 export type TaarufCard = {
   id: string;
@@ -7,19 +7,22 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { fiveQSchema, type FiveQData } from "@/features/auth/schemas/fiveq";
 import { NegativeGateModal } from "./negative-gate-modal";
 import { saveVerification } from "@/server/actions/onboarding";
+import {
+  DEFAULT_BLOCK_MESSAGE,
+  evaluateFiveQ,
+  type FiveQQuestion,
+} from "@/features/auth/lib/fiveq";
+
+interface FiveQFormProps {
+  /** Configured in onboarding_questions, ordered q1..q5 */
+  questions: FiveQQuestion[];
+}
 
-const questions = [
-  "Apakah Anda sudah siap secara mental dan spiritual untuk menjalani Ta'aruf?",
-  "Apakah Anda memiliki tujuan yang jelas untuk menikah dalam waktu dekat (1-2 tahun)?",
-  "Apakah Anda memiliki kesiapan finansial untuk berkeluarga?",
-  "Apakah Anda sudah mendapat restu dari keluarga untuk mencari pasangan hidup?",
-  "Apakah Anda siap berkomitmen penuh dalam proses Ta'aruf yang serius?",
-];
-
-export function FiveQForm() {
+export function FiveQForm({ questions }: FiveQFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showModal, setShowModal] = useState(false);
-  const [negativeCount, setNegativeCount] = useState(0);
+  const [gateQuestions, setGateQuestions] = useState<FiveQQuestion[]>([]);
+  const [blockedMessage, setBlockedMessage] = useState<string | null>(null);
   const [pendingData, setPendingData] = useState<{
     q1: boolean;
     q2: boolean;
@@ -38,10 +41,6 @@ export function FiveQForm() {
   // helper normalisasi (radio mengirim "true"/"false" sebagai string)
   const toBool = (v: unknown) => v === true || v === "true";
 
-  function countNegativeAnswers(data: FiveQData): number {
-    return Object.values(data).filter((v) => !toBool(v)).length;
-  }
-
   async function onSubmit(raw: FiveQData) {
     setIsLoading(true);
     try {
@@ -54,18 +53,29 @@ export function FiveQForm() {
         q5: toBool(raw.q5),
       };
 
-      const negatives = countNegativeAnswers(raw);
-      setNegativeCount(negatives);
+      const evaluation = evaluateFiveQ(questions, payload);
+
+      if (evaluation.blockedBy.length > 0) {
+        // Jawaban "Tidak" pada pertanyaan yang menghentikan onboarding
+        setBlockedMessage(evaluation.blockedBy[0].block_message || DEFAULT_BLOCK_MESSAGE);
+        setGateQuestions([]);
+        setShowModal(true);
+        setIsLoading(false);
+        return;
+      }
 
-      if (negatives > 0) {
-        // Ada jawaban negatif - simpan data sementara dan tampilkan modal
+      if (evaluation.requiresCommitment) {
+        // Ada jawaban negatif - simpan data sementara dan minta komitmen
+        const flagged = evaluation.flags.map((f) => f.question_id);
+        setGateQuestions(questions.filter((q) => flagged.includes(q.id)));
+        setBlockedMessage(null);
         setPendingData(payload);
         setShowModal(true);
         setIsLoading(false);
         return;
       }
 
-      // Semua jawaban positif - simpan langsung tanpa committed flag
+      // Tidak perlu komitmen - simpan langsung tanpa committed flag
       const result = await saveVerification(payload);
       
       if (!result.success) {
@@ -108,7 +118,13 @@ export function FiveQForm() {
       
       if (!result.success) {
         console.error("Failed to save verification:", result.error);
-        alert("Gagal menyimpan verifikasi. Silakan coba lagi.");
+        if (result.blocked) {
+          // Pengaturan pertanyaan berubah sejak halaman dimuat
+          setBlockedMessage(result.error);
+          setShowModal(true);
+        } else {
+          alert("Gagal menyimpan verifikasi. Silakan coba lagi.");
+        }
         setIsLoading(false);
         return;
       }
@@ -137,12 +153,12 @@ export function FiveQForm() {
     <>
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
         <div className="space-y-6">
-          {questions.map((question, index) => {
-            const fieldName = `q${index + 1}` as keyof FiveQData;
+          {questions.map((question) => {
+            const fieldName = `q${question.id}` as keyof FiveQData;
             return (
-              <div key={index} className="space-y-3">
+              <div key={question.id} className="space-y-3">
                 <p className="text-sm font-medium text-card-foreground">
-                  {index + 1}. {question}
+                  {question.id}. {question.question}
                 </p>
                 <div className="flex space-x-6">
                   <label className="flex items-center space-x-2 cursor-pointer">
@@ -213,7 +229,8 @@ export function FiveQForm() {
         isOpen={showModal}
         onContinue={handleModalContinue}
         onCancel={handleModalCancel}
-        negativeCount={negativeCount}
+        questions={gateQuestions}
+        blockedMessage={blockedMessage}
       />
     </>
   );
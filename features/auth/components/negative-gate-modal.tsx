@@ -1,19 +1,24 @@
 "use client";
 
 import { useEffect, useRef } from "react";
+import type { FiveQQuestion } from "@/features/auth/lib/fiveq";
 
 interface NegativeGateModalProps {
   isOpen: boolean;
   onContinue: () => void;
   onCancel: () => void;
-  negativeCount: number;
+  /** Questions answered "Tidak" that the user has to commit on */
+  questions: FiveQQuestion[];
+  /** Set when a BLOCK question was answered "Tidak" - no way to continue */
+  blockedMessage?: string | null;
 }
 
 export function NegativeGateModal({
   isOpen,
   onContinue,
   onCancel,
-  negativeCount,
+  questions,
+  blockedMessage,
 }: NegativeGateModalProps) {
   const dialogRef = useRef<HTMLDivElement>(null);
   const cancelButtonRef = useRef<HTMLButtonElement>(null);
@@ -81,31 +86,63 @@ export function NegativeGateModal({
             id="modal-title"
             className="text-lg font-semibold text-card-foreground mb-2"
           >
-            Konfirmasi Lanjutan
+            {blockedMessage ? "Belum Dapat Melanjutkan" : "Konfirmasi Lanjutan"}
           </h3>
 
-          <p className="text-sm text-muted-foreground mb-6">
-            Kami melihat ada {negativeCount} jawaban &quot;Tidak&quot; dalam
-            verifikasi kesiapan Anda. Apakah Anda bersedia melanjutkan ke step
-            selanjutnya dengan dibimbing oleh Roomah?
-          </p>
+          {blockedMessage ? (
+            <p className="text-sm text-muted-foreground mb-6">{blockedMessage}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-4">
+              Kami melihat ada {questions.length} jawaban &quot;Tidak&quot; dalam
+              verifikasi kesiapan Anda. Dengan melanjutkan, Anda menyetujui
+              komitmen berikut:
+            </p>
+          )}
         </div>
 
-        <div className="flex space-x-3">
+        {!blockedMessage && (
+          <ul className="mb-6 space-y-2 text-sm text-left">
+            {questions.map((question) => (
+              <li key={question.id} className="rounded-md border border-input p-3">
+                <p className="text-card-foreground">
+                  {question.commitment_text || question.question}
+                </p>
+                {question.negative_consequence === "REQUIRE_INTERVIEW" && (
+                  <p className="mt-1 text-xs text-warning">
+                    Admin Roomah akan menghubungi Anda untuk wawancara sebelum CV
+                    disetujui.
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {blockedMessage ? (
           <button
             ref={cancelButtonRef}
             onClick={onCancel}
-            className="flex-1 bg-muted text-muted-foreground border border-input rounded-md px-4 py-2 font-medium hover:bg-muted/80 focus-visible:ring-ring"
-          >
-            Tidak
-          </button>
-          <button
-            onClick={onContinue}
-            className="flex-1 bg-primary text-primary-foreground rounded-md px-4 py-2 font-medium hover:bg-primary/90 focus-visible:ring-ring"
+            className="w-full bg-muted text-muted-foreground border border-input rounded-md px-4 py-2 font-medium hover:bg-muted/80 focus-visible:ring-ring"
           >
-            Ya, lanjut
+            Kembali ke Beranda
           </button>
-        </div>
+        ) : (
+          <div className="flex space-x-3">
+            <button
+              ref={cancelButtonRef}
+              onClick={onCancel}
+              className="flex-1 bg-muted text-muted-foreground border border-input rounded-md px-4 py-2 font-medium hover:bg-muted/80 focus-visible:ring-ring"
+            >
+              Tidak
+            </button>
+            <button
+              onClick={onContinue}
+              className="flex-1 bg-primary text-primary-foreground rounded-md px-4 py-2 font-medium hover:bg-primary/90 focus-visible:ring-ring"
+            >
+              Ya, saya berkomitmen
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,70 @@
+/**
+ * Onboarding 5Q
+ * What a "Tidak" answer leads to, configured per question in
+ * onboarding_questions (admin: Pengaturan Platform). Shared by the
+ * onboarding form, saveVerification and the CV review modal.
+ */
+
+import type {
+  OnboardingConsequence,
+  OnboardingFlag,
+  OnboardingQuestion,
+} from "@/types/database.types";
+
+export const ONBOARDING_CONSEQUENCES = [
+  "NONE",
+  "FLAG_REVIEW",
+  "REQUIRE_INTERVIEW",
+  "BLOCK",
+] as const satisfies readonly OnboardingConsequence[];
+
+export const ONBOARDING_CONSEQUENCE_LABELS: Record<OnboardingConsequence, string> = {
+  NONE: "Tidak ada",
+  FLAG_REVIEW: "Tandai CV saat review",
+  REQUIRE_INTERVIEW: "Wajib wawancara admin",
+  BLOCK: "Hentikan onboarding",
+};
+
+export const FIVEQ_KEYS = ["q1", "q2", "q3", "q4", "q5"] as const;
+
+export type FiveQAnswers = Record<(typeof FIVEQ_KEYS)[number], boolean>;
+
+/** Question fields the onboarding form needs */
+export type FiveQQuestion = Pick<
+  OnboardingQuestion,
+  "id" | "question" | "commitment_text" | "negative_consequence" | "block_message"
+>;
+
+export interface FiveQEvaluation {
+  /** Every "Tidak" answer except NONE */
+  flags: OnboardingFlag[];
+  /** "Tidak" on a BLOCK question */
+  blockedBy: FiveQQuestion[];
+  requiresInterview: boolean;
+  /** At least one "Tidak" answer that needs the user's commitment */
+  requiresCommitment: boolean;
+}
+
+export const DEFAULT_BLOCK_MESSAGE =
+  "Mohon maaf, Anda belum dapat melanjutkan proses Ta'aruf di Roomah saat ini.";
+
+export function evaluateFiveQ(questions: FiveQQuestion[], answers: FiveQAnswers): FiveQEvaluation {
+  const negatives = questions.filter((q) => {
+    const key = FIVEQ_KEYS[q.id - 1];
+    return key !== undefined && answers[key] === false;
+  });
+
+  const counted = negatives.filter((q) => q.negative_consequence !== "NONE");
+
+  return {
+    flags: counted.map((q) => ({
+      question_id: q.id,
+      question: q.question,
+      consequence: q.negative_consequence,
+      commitment: q.commitment_text,
+    })),
+    blockedBy: counted.filter((q) => q.negative_consequence === "BLOCK"),
+    requiresInterview: counted.some((q) => q.negative_consequence === "REQUIRE_INTERVIEW"),
+    requiresCommitment: counted.length > 0,
+  };
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState, type ComponentProps } from "react";
+import { Input } from "@/components/ui/input";
+import type { SavedSearchFilters } from "@/types/database.types";
+import {
+  INCOME_OPTIONS,
+  MARITAL_STATUS_OPTIONS,
+  QURAN_OPTIONS,
+  SALAT_OPTIONS,
+  parseListParam,
+  type AdvancedFilterKey,
+} from "../lib/search-filters";
+
+interface AdvancedFiltersProps {
+  values: Pick<SavedSearchFilters, AdvancedFilterKey>;
+  onChange: (key: AdvancedFilterKey, value: string) => void;
+}
+
+/**
+ * Height, marital status, income, worship profile and occupation filters.
+ * Multi-choice fields are stored as comma-separated URL params; text
+ * fields report on blur/Enter so URL-driven parents don't push per key.
+ */
+export function AdvancedFilters({ values, onChange }: AdvancedFiltersProps) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div>
+        <span className="block text-sm font-medium mb-2">Tinggi Badan (cm)</span>
+        <div className="flex items-center gap-2">
+          <TextFilter
+            id="minHeight"
+            type="number"
+            placeholder="Min"
+            value={values.minHeight || ""}
+            onCommit={(value) => onChange("minHeight", value)}
+          />
+          <span className="text-muted-foreground">-</span>
+          <TextFilter
+            id="maxHeight"
+            type="number"
+            placeholder="Maks"
+            value={values.maxHeight || ""}
+            onCommit={(value) => onChange("maxHeight", value)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="occupation" className="block text-sm font-medium mb-2">
+          Pekerjaan
+        </label>
+        <TextFilter
+          id="occupation"
+          placeholder="mis. guru, dokter, wiraswasta"
+          maxLength={50}
+          value={values.occupation || ""}
+          onCommit={(value) => onChange("occupation", value)}
+        />
+      </div>
+
+      <ChoiceFilter
+        label="Status Pernikahan"
+        options={MARITAL_STATUS_OPTIONS}
+        value={values.maritalStatus}
+        onChange={(value) => onChange("maritalStatus", value)}
+      />
+      <ChoiceFilter
+        label="Penghasilan per Bulan"
+        options={INCOME_OPTIONS}
+        value={values.income}
+        onChange={(value) => onChange("income", value)}
+      />
+      <ChoiceFilter
+        label="Salat Wajib"
+        options={SALAT_OPTIONS}
+        value={values.salat}
+        onChange={(value) => onChange("salat", value)}
+      />
+      <ChoiceFilter
+        label="Bacaan Al-Qur'an"
+        options={QURAN_OPTIONS}
+        value={values.quran}
+        onChange={(value) => onChange("quran", value)}
+      />
+    </div>
+  );
+}
+
+function TextFilter({
+  value,
+  onCommit,
+  ...props
+}: Omit<ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: string;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft.trim() !== value) onCommit(draft.trim());
+  };
+
+  return (
+    <Input
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+    />
+  );
+}
+
+function ChoiceFilter<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value?: string;
+  onChange: (value: string) => void;
+}) {
+  const selected = parseListParam(value, options);
+
+  const toggle = (option: T) => {
+    const next = selected.includes(option)
+      ? selected.filter((v) => v !== option)
+      : [...selected, option];
+    // Keep option order so equal selections give equal URLs
+    onChange(options.map((o) => o.value).filter((v) => next.includes(v)).join(","));
+  };
+
+  return (
+    <div>
+      <span className="block text-sm font-medium mb-2">{label}</span>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => {
+          const active = selected.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={active}
+              onClick={() => toggle(option.value)}
+              className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+                active
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-input bg-background hover:bg-muted"
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
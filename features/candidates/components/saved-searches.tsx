@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Bell, BellOff, Bookmark, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/lib/toast";
+import { useSavedSearches } from "../hooks/use-saved-searches";
+import {
+  MAX_SAVED_SEARCHES,
+  describeSearchFilters,
+  pickSearchFilters,
+  sameSearchFilters,
+  searchFiltersHref,
+} from "../lib/search-filters";
+
+interface SavedSearchesProps {
+  provinces?: { id: number; name: string }[];
+}
+
+/**
+ * Saved searches under the cari-jodoh filter bar: apply with one click,
+ * save the current filters, toggle new-candidate alerts
+ */
+export function SavedSearches({ provinces = [] }: SavedSearchesProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { searches, isLoading, isSaving, createSearch, updateSearch, deleteSearch } = useSavedSearches();
+  const [newName, setNewName] = useState<string | null>(null);
+
+  const currentFilters = pickSearchFilters(searchParams);
+  const provinceName = (id?: string) => provinces.find((p) => String(p.id) === id)?.name;
+  const alreadySaved = searches.some((s) => sameSearchFilters(s.filters, currentFilters));
+
+  const handleSave = async () => {
+    if (!newName?.trim()) return;
+
+    const error = await createSearch({ name: newName.trim(), filters: currentFilters, notify: true });
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success("Pencarian disimpan. Kami akan mengabari Anda bila ada kandidat baru yang cocok.");
+    setNewName(null);
+  };
+
+  const handleToggleNotify = async (id: number, notify: boolean) => {
+    const error = await updateSearch(id, { notify });
+    if (error) toast.error(error);
+    else toast.success(notify ? "Notifikasi kandidat baru diaktifkan" : "Notifikasi kandidat baru dimatikan");
+  };
+
+  const handleDelete = async (id: number) => {
+    const error = await deleteSearch(id);
+    if (error) toast.error(error);
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <div className="space-y-3">
+      {searches.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {searches.map((search) => {
+            const active = pathname === "/cari-jodoh" && sameSearchFilters(search.filters, currentFilters);
+            return (
+              <div
+                key={search.id}
+                className={`flex items-center gap-1 rounded-full border pl-3 pr-1 py-1 text-sm ${
+                  active ? "border-primary bg-primary/10 text-primary" : "border-input bg-card"
+                }`}
+              >
+                <button
+                  type="button"
+                  className="font-medium hover:underline"
+                  title={describeSearchFilters(search.filters, provinceName(search.filters.province))}
+                  onClick={() => router.push(searchFiltersHref(search.filters), { scroll: false })}
+                >
+                  {search.name}
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  title={search.notify ? "Matikan notifikasi kandidat baru" : "Aktifkan notifikasi kandidat baru"}
+                  disabled={isSaving}
+                  onClick={() => handleToggleNotify(search.id, !search.notify)}
+                >
+                  {search.notify ? <Bell className="h-3.5 w-3.5" /> : <BellOff className="h-3.5 w-3.5" />}
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full p-1 text-muted-foreground hover:text-destructive disabled:opacity-50"
+                  title="Hapus pencarian"
+                  disabled={isSaving}
+                  onClick={() => handleDelete(search.id)}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {newName === null ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={alreadySaved || searches.length >= MAX_SAVED_SEARCHES}
+          title={
+            alreadySaved
+              ? "Filter ini sudah tersimpan"
+              : searches.length >= MAX_SAVED_SEARCHES
+                ? `Maksimal ${MAX_SAVED_SEARCHES} pencarian tersimpan`
+                : undefined
+          }
+          onClick={() => setNewName("")}
+        >
+          <Bookmark className="h-4 w-4" />
+          Simpan Pencarian
+        </Button>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+          <Input
+            autoFocus
+            placeholder="Nama pencarian, mis. Akhwat Jabodetabek"
+            value={newName}
+            maxLength={60}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            className="sm:max-w-xs"
+          />
+          <span className="text-xs text-muted-foreground">
+            {describeSearchFilters(currentFilters, provinceName(currentFilters.province))}
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={isSaving || !newName.trim()}>
+              {isSaving ? "Menyimpan..." : "Simpan"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setNewName(null)} disabled={isSaving}>
+              Batal
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,12 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
+import { AdvancedFilters } from "./advanced-filters";
+import { countAdvancedFilters, readAdvancedFilters } from "../lib/search-filters";
 
 interface SearchFiltersProps {
   showGender?: boolean;
@@ -46,7 +49,10 @@ export function SearchFilters({ showGender = true }: SearchFiltersProps) {
     ageMax: searchParams.get("ageMax") || "",
     education: searchParams.get("education") || "",
     province: searchParams.get("province") || "",
+    ...readAdvancedFilters(searchParams),
   });
+  const advancedCount = countAdvancedFilters(filters);
+  const [showAdvanced, setShowAdvanced] = useState(advancedCount > 0);
 
   const handleFilterChange = (key: string, value: string) => {
     const newFilters = { ...filters, [key]: value };
@@ -71,6 +77,7 @@ export function SearchFilters({ showGender = true }: SearchFiltersProps) {
       ageMax: "",
       education: "",
       province: "",
+      ...readAdvancedFilters(),
     });
     router.push(window.location.pathname);
   };
@@ -173,6 +180,30 @@ export function SearchFilters({ showGender = true }: SearchFiltersProps) {
         </div>
       </div>
 
+      <button
+        type="button"
+        aria-expanded={showAdvanced}
+        onClick={() => setShowAdvanced((open) => !open)}
+        className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline"
+      >
+        <SlidersHorizontal className="h-4 w-4" />
+        Filter Lanjutan
+        {advancedCount > 0 && (
+          <span className="rounded-full bg-primary px-2 text-xs text-primary-foreground">
+            {advancedCount}
+          </span>
+        )}
+        <ChevronDown
+          className={`h-4 w-4 transition-transform ${showAdvanced ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {showAdvanced && (
+        <div className="mt-4 border-t border-input pt-4">
+          <AdvancedFilters values={filters} onChange={handleFilterChange} />
+        </div>
+      )}
+
       <div className="mt-4 flex justify-end">
         <Button variant="outline" onClick={handleReset} size="sm">
           Reset Filter
@@ -0,0 +1,43 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { toast } from "@/lib/toast";
+import { useShortlist } from "../hooks/use-shortlist";
+
+interface ShortlistButtonProps {
+  candidateId: string;
+  className?: string;
+}
+
+/**
+ * Star toggle: add/remove a candidate from "Kandidat Tersimpan"
+ */
+export function ShortlistButton({ candidateId, className = "" }: ShortlistButtonProps) {
+  const { isSaved, isLoading, isSaving, add, remove } = useShortlist();
+  const saved = isSaved(candidateId);
+
+  const handleClick = async () => {
+    const error = saved ? await remove(candidateId) : await add(candidateId);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success(saved ? "Dihapus dari Kandidat Tersimpan" : "Disimpan ke Kandidat Tersimpan");
+  };
+
+  return (
+    <button
+      type="button"
+      aria-pressed={saved}
+      title={saved ? "Hapus dari Kandidat Tersimpan" : "Simpan kandidat"}
+      disabled={isLoading || isSaving}
+      onClick={handleClick}
+      className={`rounded-full p-2 transition-colors hover:bg-muted disabled:opacity-50 ${className}`}
+    >
+      <Star
+        className={`h-5 w-5 ${saved ? "fill-warning text-warning" : "text-muted-foreground"}`}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { Heart } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { CandidateAvatar } from "@/components/common/candidate-avatar";
+import { CvBiodataFields } from "@/features/cv/components/cv-preview";
+import type { ShortlistItem } from "@/server/services/shortlist";
+import { QURAN_OPTIONS, SALAT_OPTIONS } from "../lib/search-filters";
+
+export const MAX_COMPARE = 3;
+
+interface ShortlistCompareProps {
+  items: ShortlistItem[];
+  open: boolean;
+  onClose: () => void;
+}
+
+const labelOf = (options: { value: string; label: string }[], value: string | null) =>
+  options.find((o) => o.value === value)?.label || "-";
+
+/**
+ * Side-by-side view of up to 3 saved candidates. Every row is rendered
+ * (with "-" when empty) so the columns line up.
+ */
+export function ShortlistCompare({ items, open, onClose }: ShortlistCompareProps) {
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-5xl w-[95vw] p-4 sm:p-6">
+        <DialogHeader className="pb-4">
+          <DialogTitle>Bandingkan Kandidat</DialogTitle>
+        </DialogHeader>
+
+        <div
+          className="grid gap-4"
+          style={{ gridTemplateColumns: `repeat(${items.length}, minmax(200px, 1fr))` }}
+        >
+          {items.map(({ candidate, note, salatStatus, quranAbility }) => (
+            <div key={candidate.id} className="space-y-4 rounded-lg border border-input p-4">
+              <div className="text-center space-y-2">
+                <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto overflow-hidden">
+                  <CandidateAvatar
+                    src={candidate.avatar}
+                    alt={candidate.kodeKandidat}
+                    className="w-full h-full object-cover"
+                    iconClassName="h-8 w-8 text-muted-foreground"
+                  />
+                </div>
+                <h3 className="font-semibold">{candidate.kodeKandidat}</h3>
+                <p className="text-sm text-muted-foreground">{candidate.umur} tahun</p>
+                <div className="flex flex-wrap justify-center gap-1">
+                  <Badge variant={candidate.status === "Siap Bertaaruf" ? "default" : "warning"}>
+                    {candidate.status}
+                  </Badge>
+                  {candidate.kecocokan?.score != null && (
+                    <Badge variant="info" className="gap-1">
+                      <Heart className="h-3 w-3" />
+                      {candidate.kecocokan.score}% cocok
+                    </Badge>
+                  )}
+                </div>
+              </div>
+
+              <CvBiodataFields
+                showEmpty
+                className="space-y-3"
+                biodata={{
+                  tanggalLahir: candidate.tanggalLahir,
+                  statusPernikahan: candidate.statusPernikahan,
+                  domisili: candidate.domisili,
+                  pendidikan: candidate.pendidikan,
+                  pekerjaan: candidate.pekerjaan,
+                  penghasilan: candidate.penghasilan,
+                  tinggiBadan: candidate.tinggiBadan ? String(candidate.tinggiBadan) : "",
+                  beratBadan: candidate.beratBadan ? String(candidate.beratBadan) : "-",
+                  riwayatPenyakit: candidate.riwayatPenyakit,
+                }}
+              />
+
+              <div className="pt-4 border-t border-input space-y-2 text-sm">
+                <div>
+                  <span className="font-medium">Salat Wajib:</span>
+                  <span className="ml-2">{labelOf(SALAT_OPTIONS, salatStatus)}</span>
+                </div>
+                <div>
+                  <span className="font-medium">Bacaan Al-Qur&apos;an:</span>
+                  <span className="ml-2">{labelOf(QURAN_OPTIONS, quranAbility)}</span>
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-input text-sm">
+                <span className="font-medium">Catatan Saya:</span>
+                <p className="mt-1 whitespace-pre-line text-muted-foreground">
+                  {note || "-"}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Columns3, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import EmptyState from "@/components/common/empty-state";
+import { CandidateCard } from "@/components/common/candidate-card";
+import { toast } from "@/lib/toast";
+import { useShortlist } from "../hooks/use-shortlist";
+import { MAX_COMPARE, ShortlistCompare } from "./shortlist-compare";
+
+/**
+ * "Kandidat Tersimpan" tab: saved candidates with a private note each and
+ * a side-by-side comparison of up to 3 of them
+ */
+export function ShortlistPanel() {
+  const { items, isLoading, error } = useShortlist();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+
+  // Ignores selections of candidates that were removed or pruned meanwhile
+  const compareItems = items.filter((item) => selected.includes(item.candidateId));
+
+  const toggleSelected = (candidateId: string) => {
+    if (selected.includes(candidateId)) {
+      setSelected(selected.filter((id) => id !== candidateId));
+    } else if (compareItems.length >= MAX_COMPARE) {
+      toast.warning(`Maksimal ${MAX_COMPARE} kandidat untuk dibandingkan`);
+    } else {
+      setSelected([...selected, candidateId]);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-64 rounded-lg bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-center py-12 text-muted-foreground">
+        Gagal memuat kandidat tersimpan. Silakan muat ulang halaman.
+      </p>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <EmptyState
+        icon={<Star className="h-12 w-12" />}
+        title="Belum ada kandidat tersimpan"
+        description="Tekan ikon bintang pada kartu kandidat untuk menyimpannya di sini, lalu bandingkan sebelum mengajukan taaruf."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          Pilih hingga {MAX_COMPARE} kandidat untuk dibandingkan. Kandidat yang tidak lagi
+          tampil di Cari Jodoh terhapus otomatis dari daftar ini.
+        </p>
+        <Button
+          variant="outline"
+          className="gap-2"
+          disabled={compareItems.length < 2}
+          onClick={() => setCompareOpen(true)}
+        >
+          <Columns3 className="h-4 w-4" />
+          Bandingkan ({compareItems.length})
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {items.map((item) => (
+          <div key={item.candidateId} className="flex flex-col gap-3">
+            <CandidateCard candidate={item.candidate} showTaarufButton canShortlist />
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(item.candidateId)}
+                onChange={() => toggleSelected(item.candidateId)}
+                className="h-4 w-4 accent-primary"
+              />
+              Bandingkan
+            </label>
+
+            <ShortlistNote candidateId={item.candidateId} note={item.note} />
+          </div>
+        ))}
+      </div>
+
+      <ShortlistCompare
+        items={compareItems}
+        open={compareOpen}
+        onClose={() => setCompareOpen(false)}
+      />
+    </div>
+  );
+}
+
+function ShortlistNote({ candidateId, note }: { candidateId: string; note: string | null }) {
+  const { updateNote, isSaving } = useShortlist();
+  const [draft, setDraft] = useState(note || "");
+
+  useEffect(() => {
+    setDraft(note || "");
+  }, [note]);
+
+  const dirty = draft.trim() !== (note || "");
+
+  const handleSave = async () => {
+    const error = await updateNote(candidateId, draft.trim() || null);
+    if (error) toast.error(error);
+    else toast.success("Catatan disimpan");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        placeholder="Catatan pribadi (hanya terlihat oleh Anda)"
+        value={draft}
+        maxLength={1000}
+        rows={3}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+      {dirty && (
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setDraft(note || "")} disabled={isSaving}>
+            Batal
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Menyimpan..." : "Simpan Catatan"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
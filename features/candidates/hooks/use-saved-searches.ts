@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type { SavedSearch, SavedSearchFilters } from "@/types/database.types";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed to fetch");
+    return r.json();
+  });
+
+const SAVED_SEARCHES_API = "/api/saved-searches";
+
+/**
+ * Saved cari-jodoh searches of the current user. Mutations resolve with
+ * an error message (null on success) so the caller can toast it.
+ */
+export function useSavedSearches() {
+  const [isSaving, setIsSaving] = useState(false);
+  const { data, error, isLoading, mutate } = useSWR<{ data: SavedSearch[] }>(
+    SAVED_SEARCHES_API,
+    fetcher
+  );
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+        credentials: "include",
+      });
+      const json = await res.json();
+      if (!res.ok) return (json.error as string) || "Gagal menyimpan perubahan";
+
+      await mutate();
+      return null;
+    } catch (err) {
+      console.error("Error updating saved searches:", err);
+      return "Gagal menyimpan perubahan";
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    searches: data?.data || [],
+    error,
+    isLoading,
+    isSaving,
+    createSearch: (input: { name: string; filters: SavedSearchFilters; notify: boolean }) =>
+      request(SAVED_SEARCHES_API, "POST", input),
+    updateSearch: (id: number, changes: { name?: string; notify?: boolean }) =>
+      request(`${SAVED_SEARCHES_API}/${id}`, "PATCH", changes),
+    deleteSearch: (id: number) => request(`${SAVED_SEARCHES_API}/${id}`, "DELETE"),
+  };
+}
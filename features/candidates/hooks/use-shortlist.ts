@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type { ShortlistItem } from "@/server/services/shortlist";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed to fetch");
+    return r.json();
+  });
+
+const SHORTLIST_API = "/api/shortlist";
+
+/**
+ * Saved candidates ("Kandidat Tersimpan") of the current user. Every star
+ * on the page shares this one SWR entry. Mutations resolve with an error
+ * message (null on success) so the caller can toast it.
+ */
+export function useShortlist() {
+  const [isSaving, setIsSaving] = useState(false);
+  const { data, error, isLoading, mutate } = useSWR<{ data: ShortlistItem[] }>(
+    SHORTLIST_API,
+    fetcher
+  );
+
+  const items = data?.data || [];
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+        credentials: "include",
+      });
+      const json = await res.json();
+      if (!res.ok) return (json.error as string) || "Gagal menyimpan perubahan";
+
+      await mutate();
+      return null;
+    } catch (err) {
+      console.error("Error updating shortlist:", err);
+      return "Gagal menyimpan perubahan";
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    items,
+    error,
+    isLoading,
+    isSaving,
+    isSaved: (candidateId: string) => items.some((item) => item.candidateId === candidateId),
+    add: (candidateId: string) => request(SHORTLIST_API, "POST", { candidateId }),
+    remove: (candidateId: string) => request(`${SHORTLIST_API}/${candidateId}`, "DELETE"),
+    updateNote: (candidateId: string, note: string | null) =>
+      request(`${SHORTLIST_API}/${candidateId}`, "PATCH", { note }),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * approved_candidates_v row → the summary CandidateCard / CandidateModal
+ * render. Shared by the cari-jodoh listing and the shortlist.
+ */
+
+import type { ApprovedCandidate } from "@/types/database.types";
+import { listingAvatarUrl } from "@/features/cv/lib/avatar";
+import type { CompatibilityResult } from "./compatibility";
+
+export type ApprovedCandidateRow = Partial<ApprovedCandidate> & {
+  user_id: string;
+  disease_history?: string[] | string | null;
+  compatibility?: CompatibilityResult | null;
+};
+
+export function toCandidateSummary(c: ApprovedCandidateRow, newSince?: string | null) {
+  // Format tanggal lahir dari birth_date jika ada
+  let tanggalLahir = "-";
+  if (c.birth_date) {
+    try {
+      const date = new Date(c.birth_date);
+      tanggalLahir = date.toLocaleDateString("id-ID", {
+        day: "2-digit",
+        month: "long",
+        year: "numeric"
+      });
+    } catch {
+      tanggalLahir = "-";
+    }
+  }
+
+  // Parse marital status dari enum
+  let statusPernikahan: "Single" | "Janda" | "Duda" = "Single";
+  if (c.marital_status === "JANDA") statusPernikahan = "Janda";
+  else if (c.marital_status === "DUDA") statusPernikahan = "Duda";
+
+  // Parse income bracket
+  let penghasilan: "0-2" | "2-5" | "5-10" | "10+" | "Saat Taaruf" = "Saat Taaruf";
+  if (c.income_bracket === "0_2") penghasilan = "0-2";
+  else if (c.income_bracket === "2_5") penghasilan = "2-5";
+  else if (c.income_bracket === "5_10") penghasilan = "5-10";
+  else if (c.income_bracket === "10_PLUS") penghasilan = "10+";
+
+  // Parse disease history - handle array, string, or null
+  let riwayatPenyakit: string[] = [];
+  if (Array.isArray(c.disease_history)) {
+    riwayatPenyakit = c.disease_history.filter(Boolean);
+  } else if (typeof c.disease_history === 'string' && c.disease_history.trim() !== '' && c.disease_history.toLowerCase() !== 'tidak ada') {
+    riwayatPenyakit = [c.disease_history];
+  }
+
+  return {
+    id: c.user_id,
+    kodeKandidat: c.candidate_code || `K${c.user_id.slice(0, 6).toUpperCase()}`,
+    // Avatar route: blurred or full depending on the candidate's policy
+    // and the viewer; none at all for HIDDEN
+    avatar: listingAvatarUrl(c.user_id, c.avatar_blur_path, c.avatar_visibility),
+    nama: c.full_name || "Kandidat",
+    umur: c.age || 0,
+    pekerjaan: c.occupation || "-",
+    domisili: c.province || "-",
+    pendidikan: c.education || "-",
+    kriteriaSingkat: `${c.education || "-"}`,
+    status: c.taaruf_status === "DALAM_PROSES" ? "Dalam Proses" as const : "Siap Bertaaruf" as const,
+    tanggalLahir,
+    statusPernikahan,
+    penghasilan,
+    tinggiBadan: c.height_cm || 0,
+    beratBadan: c.weight_kg || 0,
+    riwayatPenyakit,
+    gender: c.gender_label === "MALE" ? "M" as const : "F" as const,
+    kecocokan: c.compatibility ?? null,
+    baru: !!newSince && !!c.approved_at && new Date(c.approved_at) > new Date(newSince),
+  };
+}
+
+export type CandidateCardSummary = ReturnType<typeof toCandidateSummary>;
@@ -0,0 +1,214 @@
+/**
+ * Compatibility Scoring
+ * Compares a viewer's spouse_criteria with a candidate's CV - and the
+ * candidate's criteria with the viewer's CV - into a 0-100 score.
+ *
+ * Pure module: no DB access, safe to import from server and client code.
+ * Data loading lives in server/services/compatibility.ts.
+ */
+
+export type CompatibilityCriterion = "age" | "education" | "income" | "location" | "other";
+
+export interface SpouseCriteria {
+  ageMin: number | null;
+  ageMax: number | null;
+  education: string | null;
+  income: string | null;
+  location: string | null;
+  other: string[];
+}
+
+/** What one side brings to the comparison */
+export interface CompatibilityProfile {
+  age: number | null;
+  education: string | null;
+  incomeBracket: string | null;
+  province: string | null;
+  /** Free text the "other criteria" are matched against (occupation, ibadah, ...) */
+  searchableText: string;
+  criteria: SpouseCriteria;
+}
+
+export interface CompatibilityBreakdownItem {
+  criterion: CompatibilityCriterion;
+  label: string;
+  weight: number;
+  /** How well the candidate meets the viewer's criterion (0-1, null = no preference) */
+  viewerToCandidate: number | null;
+  /** How well the viewer meets the candidate's criterion (0-1, null = no preference) */
+  candidateToViewer: number | null;
+}
+
+export interface CompatibilityResult {
+  /** 0-100, null when neither side stated any criteria */
+  score: number | null;
+  breakdown: CompatibilityBreakdownItem[];
+}
+
+const WEIGHTS: Record<CompatibilityCriterion, number> = {
+  age: 30,
+  education: 25,
+  location: 20,
+  income: 15,
+  other: 10,
+};
+
+const LABELS: Record<CompatibilityCriterion, string> = {
+  age: "Usia",
+  education: "Pendidikan",
+  location: "Domisili",
+  income: "Penghasilan",
+  other: "Kriteria khusus",
+};
+
+const EDUCATION_ORDER = ["SMA_SMK", "D3", "S1", "S2", "S3"];
+const INCOME_ORDER = ["0_2", "2_5", "5_10", "10_PLUS"];
+
+// Answers that mean "no preference"
+const NO_PREFERENCE = ["", "-", "bebas", "semua", "mana saja", "dimana saja", "tidak ada", "tidak ada kriteria khusus", "saat_taaruf"];
+
+// Desired age given as a single number ("25") is read as ±3 years
+const SINGLE_AGE_TOLERANCE = 3;
+
+function isNoPreference(value: string | null | undefined): boolean {
+  return !value || NO_PREFERENCE.includes(value.trim().toLowerCase());
+}
+
+function parseAgeRange(value: unknown): { min: number | null; max: number | null } {
+  if (typeof value === "number") {
+    return { min: value - SINGLE_AGE_TOLERANCE, max: value + SINGLE_AGE_TOLERANCE };
+  }
+  if (typeof value !== "string" || isNoPreference(value)) {
+    return { min: null, max: null };
+  }
+
+  const numbers = value.match(/\d+/g)?.map(Number) ?? [];
+  if (numbers.length >= 2) {
+    return { min: Math.min(numbers[0], numbers[1]), max: Math.max(numbers[0], numbers[1]) };
+  }
+  if (numbers.length === 1) {
+    // "30+" / "min 30" → open ended, "25" → around 25
+    if (/\+|min|minimal|di atas/i.test(value)) return { min: numbers[0], max: null };
+    if (/max|maksimal|di bawah/i.test(value)) return { min: null, max: numbers[0] };
+    return { min: numbers[0] - SINGLE_AGE_TOLERANCE, max: numbers[0] + SINGLE_AGE_TOLERANCE };
+  }
+  return { min: null, max: null };
+}
+
+/**
+ * Normalize cv_details.spouse_criteria
+ * Accepts both stored shapes: { age_range, education, income_bracket, location, other_criteria }
+ * (updateCvKriteria) and { desired_age, desired_education, desired_income, special_criteria }
+ * (saveCvData).
+ */
+export function normalizeSpouseCriteria(raw: unknown): SpouseCriteria {
+  const c = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" && !isNoPreference(v) ? v.trim() : null);
+
+  const { min, max } = parseAgeRange(c.age_range ?? c.desired_age);
+  const otherRaw = c.other_criteria ?? c.special_criteria;
+
+  return {
+    ageMin: min,
+    ageMax: max,
+    education: str(c.education ?? c.desired_education),
+    income: str(c.income_bracket ?? c.income ?? c.desired_income),
+    location: str(c.location ?? c.living_location),
+    other: Array.isArray(otherRaw)
+      ? otherRaw.filter((item): item is string => typeof item === "string" && !isNoPreference(item))
+      : [],
+  };
+}
+
+function scoreAge(criteria: SpouseCriteria, age: number | null): number | null {
+  if (criteria.ageMin === null && criteria.ageMax === null) return null;
+  if (age === null) return 0;
+
+  const below = criteria.ageMin !== null ? criteria.ageMin - age : 0;
+  const above = criteria.ageMax !== null ? age - criteria.ageMax : 0;
+  const distance = Math.max(below, above, 0);
+
+  // Lose 20% per year outside the range
+  return Math.max(0, 1 - distance * 0.2);
+}
+
+/** Criterion is a minimum: meeting or exceeding it is a full match, one step short is half */
+function scoreOrdered(order: string[], wanted: string | null, actual: string | null): number | null {
+  if (!wanted) return null;
+  const wantedIdx = order.indexOf(wanted);
+  if (wantedIdx === -1) return null;
+
+  const actualIdx = actual ? order.indexOf(actual) : -1;
+  if (actualIdx === -1) return 0.5; // undisclosed (e.g. income "Saat Taaruf")
+  if (actualIdx >= wantedIdx) return 1;
+  return actualIdx === wantedIdx - 1 ? 0.5 : 0;
+}
+
+function scoreLocation(wanted: string | null, province: string | null): number | null {
+  if (!wanted) return null;
+  if (!province) return 0;
+
+  const w = wanted.toLowerCase();
+  const p = province.toLowerCase();
+  return w.includes(p) || p.includes(w) ? 1 : 0;
+}
+
+function scoreOther(wanted: string[], text: string): number | null {
+  if (wanted.length === 0) return null;
+  const haystack = text.toLowerCase();
+
+  const met = wanted.filter((criterion) => {
+    const words = criterion.toLowerCase().split(/\W+/).filter((w) => w.length > 3);
+    return words.length > 0 && words.some((word) => haystack.includes(word));
+  });
+
+  return met.length / wanted.length;
+}
+
+function scoreDirection(from: SpouseCriteria, to: CompatibilityProfile) {
+  return {
+    age: scoreAge(from, to.age),
+    education: scoreOrdered(EDUCATION_ORDER, from.education, to.education),
+    income: scoreOrdered(INCOME_ORDER, from.income, to.incomeBracket),
+    location: scoreLocation(from.location, to.province),
+    other: scoreOther(from.other, to.searchableText),
+  } satisfies Record<CompatibilityCriterion, number | null>;
+}
+
+/**
+ * Score how well viewer and candidate fit each other's spouse criteria.
+ * Criteria without a preference are left out of the average, so a short
+ * criteria list is not penalized.
+ */
+export function scoreCompatibility(
+  viewer: CompatibilityProfile,
+  candidate: CompatibilityProfile
+): CompatibilityResult {
+  const forward = scoreDirection(viewer.criteria, candidate);
+  const reverse = scoreDirection(candidate.criteria, viewer);
+
+  let earned = 0;
+  let possible = 0;
+
+  const breakdown = (Object.keys(WEIGHTS) as CompatibilityCriterion[]).map((criterion) => {
+    const weight = WEIGHTS[criterion];
+    for (const value of [forward[criterion], reverse[criterion]]) {
+      if (value === null) continue;
+      earned += weight * value;
+      possible += weight;
+    }
+
+    return {
+      criterion,
+      label: LABELS[criterion],
+      weight,
+      viewerToCandidate: forward[criterion],
+      candidateToViewer: reverse[criterion],
+    };
+  });
+
+  return {
+    score: possible > 0 ? Math.round((earned / possible) * 100) : null,
+    breakdown,
+  };
+}
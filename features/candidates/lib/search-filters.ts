@@ -0,0 +1,247 @@
+/**
+ * cari-jodoh search filters: the URL params FilterBar writes, as stored
+ * in saved searches, and their translation to listApprovedCandidates
+ * filters. Shared by the page, the saved-search UI and the digest job.
+ */
+
+import type {
+  IncomeBracket,
+  MaritalStatus,
+  QuranAbility,
+  SalatStatus,
+  SavedSearchFilters,
+} from "@/types/database.types";
+
+export const SEARCH_FILTER_KEYS = [
+  "gender",
+  "ageRange",
+  "education",
+  "province",
+  "minHeight",
+  "maxHeight",
+  "maritalStatus",
+  "income",
+  "salat",
+  "quran",
+  "occupation",
+] as const;
+
+/** Filters behind the "Filter Lanjutan" drawer */
+export const ADVANCED_FILTER_KEYS = [
+  "minHeight",
+  "maxHeight",
+  "maritalStatus",
+  "income",
+  "salat",
+  "quran",
+  "occupation",
+] as const;
+
+export type AdvancedFilterKey = (typeof ADVANCED_FILTER_KEYS)[number];
+
+export const MAX_SAVED_SEARCHES = 10;
+
+export const GENDER_LABELS: Record<string, string> = {
+  IKHWAN: "Ikhwan",
+  AKHWAT: "Akhwat",
+};
+
+export const EDUCATION_LABELS: Record<string, string> = {
+  SMA_SMK: "SMA/SMK",
+  D3: "D3",
+  S1: "S1",
+  S2: "S2",
+  S3: "S3",
+};
+
+export const MARITAL_STATUS_OPTIONS: { value: MaritalStatus; label: string }[] = [
+  { value: "SINGLE", label: "Lajang" },
+  { value: "JANDA", label: "Janda" },
+  { value: "DUDA", label: "Duda" },
+];
+
+export const INCOME_OPTIONS: { value: IncomeBracket; label: string }[] = [
+  { value: "SAAT_TAARUF", label: "Dijelaskan saat taaruf" },
+  { value: "0_2", label: "0-2 Juta" },
+  { value: "2_5", label: "2-5 Juta" },
+  { value: "5_10", label: "5-10 Juta" },
+  { value: "10_PLUS", label: "10+ Juta" },
+];
+
+export const SALAT_OPTIONS: { value: SalatStatus; label: string }[] = [
+  { value: "TERJAGA", label: "Terjaga" },
+  { value: "KADANG", label: "Kadang-kadang" },
+  { value: "BELUM_ISTIQOMAH", label: "Belum istiqomah" },
+];
+
+export const QURAN_OPTIONS: { value: QuranAbility; label: string }[] = [
+  { value: "LANCAR", label: "Lancar" },
+  { value: "BELAJAR", label: "Sedang belajar" },
+  { value: "BELUM_BISA", label: "Belum bisa" },
+];
+
+const HEIGHT_MIN_CM = 100;
+const HEIGHT_MAX_CM = 250;
+
+/**
+ * Keep only the known, non-empty filter params
+ */
+export function pickSearchFilters(
+  source: Record<string, unknown> | URLSearchParams
+): SavedSearchFilters {
+  const filters: SavedSearchFilters = {};
+
+  for (const key of SEARCH_FILTER_KEYS) {
+    const raw = source instanceof URLSearchParams ? source.get(key) : source[key];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (typeof value === "string" && value.trim() !== "") {
+      filters[key] = value.trim();
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * "23-28" → 23..28, "47+" → 47 and up
+ */
+export function parseAgeRange(ageRange?: string) {
+  if (!ageRange) return {};
+
+  const [min, max] = ageRange.replace("+", "").split("-");
+  const minAge = parseInt(min);
+  const maxAge = max ? parseInt(max) : NaN;
+
+  return {
+    minAge: Number.isNaN(minAge) ? undefined : minAge,
+    maxAge: Number.isNaN(maxAge) ? undefined : maxAge,
+  };
+}
+
+/**
+ * "SINGLE,JANDA" → ["SINGLE", "JANDA"], unknown values dropped
+ */
+export function parseListParam<T extends string>(
+  value: string | undefined,
+  options: { value: T }[]
+): T[] {
+  if (!value) return [];
+
+  const allowed = new Set<string>(options.map((o) => o.value));
+  return value.split(",").filter((v): v is T => allowed.has(v));
+}
+
+function parseHeight(value?: string) {
+  const height = value ? parseInt(value) : NaN;
+  return height >= HEIGHT_MIN_CM && height <= HEIGHT_MAX_CM ? height : undefined;
+}
+
+/**
+ * Strip LIKE wildcards so the keyword matches literally
+ */
+function parseKeyword(value?: string) {
+  const keyword = value?.replace(/[%_\\]/g, "").trim();
+  return keyword || undefined;
+}
+
+function listOrUndefined<T>(values: T[]) {
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Advanced filter form state from the URL ("" for unset); no params → all empty
+ */
+export function readAdvancedFilters(searchParams?: URLSearchParams) {
+  return Object.fromEntries(
+    ADVANCED_FILTER_KEYS.map((key) => [key, searchParams?.get(key) || ""])
+  ) as Record<AdvancedFilterKey, string>;
+}
+
+/**
+ * How many advanced filters are set (badge on the "Filter Lanjutan" toggle)
+ */
+export function countAdvancedFilters(filters: SavedSearchFilters) {
+  const heightSet = filters.minHeight || filters.maxHeight;
+  return (
+    (heightSet ? 1 : 0) +
+    ADVANCED_FILTER_KEYS.filter(
+      (key) => key !== "minHeight" && key !== "maxHeight" && !!filters[key]
+    ).length
+  );
+}
+
+/**
+ * URL params → listApprovedCandidates filters
+ */
+export function toCandidateFilters(filters: SavedSearchFilters) {
+  const provinceId = filters.province ? parseInt(filters.province) : NaN;
+
+  return {
+    gender:
+      filters.gender === "IKHWAN"
+        ? ("MALE" as const)
+        : filters.gender === "AKHWAT"
+          ? ("FEMALE" as const)
+          : undefined,
+    ...parseAgeRange(filters.ageRange),
+    education: filters.education || undefined,
+    provinceId: Number.isNaN(provinceId) ? undefined : provinceId,
+    minHeight: parseHeight(filters.minHeight),
+    maxHeight: parseHeight(filters.maxHeight),
+    maritalStatus: listOrUndefined(parseListParam(filters.maritalStatus, MARITAL_STATUS_OPTIONS)),
+    incomeBrackets: listOrUndefined(parseListParam(filters.income, INCOME_OPTIONS)),
+    salatStatus: listOrUndefined(parseListParam(filters.salat, SALAT_OPTIONS)),
+    quranAbility: listOrUndefined(parseListParam(filters.quran, QURAN_OPTIONS)),
+    occupationKeyword: parseKeyword(filters.occupation),
+  };
+}
+
+export function searchFiltersHref(filters: SavedSearchFilters) {
+  const params = new URLSearchParams(filters as Record<string, string>);
+  params.set("page", "1");
+  return `/cari-jodoh?${params.toString()}`;
+}
+
+function describeList<T extends string>(
+  value: string | undefined,
+  options: { value: T; label: string }[]
+) {
+  const labels = parseListParam(value, options).map(
+    (v) => options.find((o) => o.value === v)?.label
+  );
+  return labels.length > 0 ? labels.join("/") : null;
+}
+
+function describeHeight(minHeight?: string, maxHeight?: string) {
+  if (minHeight && maxHeight) return `${minHeight}-${maxHeight} cm`;
+  if (minHeight) return `≥ ${minHeight} cm`;
+  if (maxHeight) return `≤ ${maxHeight} cm`;
+  return null;
+}
+
+/**
+ * Short label, e.g. "Akhwat · 23-28 tahun · S1 · Jawa Barat · 155-170 cm"
+ */
+export function describeSearchFilters(filters: SavedSearchFilters, provinceName?: string | null) {
+  const salat = describeList(filters.salat, SALAT_OPTIONS);
+  const quran = describeList(filters.quran, QURAN_OPTIONS);
+
+  const parts = [
+    filters.gender ? GENDER_LABELS[filters.gender] || filters.gender : null,
+    filters.ageRange ? `${filters.ageRange} tahun` : null,
+    filters.education ? EDUCATION_LABELS[filters.education] || filters.education : null,
+    filters.province ? provinceName || "1 provinsi" : null,
+    describeHeight(filters.minHeight, filters.maxHeight),
+    describeList(filters.maritalStatus, MARITAL_STATUS_OPTIONS),
+    describeList(filters.income, INCOME_OPTIONS),
+    salat ? `Salat ${salat.toLowerCase()}` : null,
+    quran ? `Quran ${quran.toLowerCase()}` : null,
+    filters.occupation ? `"${filters.occupation}"` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" · ") : "Semua kandidat";
+}
+
+export function sameSearchFilters(a: SavedSearchFilters, b: SavedSearchFilters) {
+  return SEARCH_FILTER_KEYS.every((key) => (a[key] || "") === (b[key] || ""));
+}
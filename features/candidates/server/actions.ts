@@ -1,5 +1,6 @@
 import { createClient } from "@/server/db/client";
 import { calculateAge } from "@/lib/utils/date";
+import type { AvatarVisibility } from "@/types/database.types";
 
 /**
  * CANDIDATES SERVER ACTIONS - ROOMAH MVP
@@ -22,7 +23,9 @@ export interface CandidateSearchResult {
   user_id: string;
   candidate_code: string;
   full_name: string;
-  avatar_path: string | null;
+  /** Blurred avatar; the full one is never listed */
+  avatar_blur_path: string | null;
+  avatar_visibility: AvatarVisibility;
   age: number;
   gender_label: "IKHWAN" | "AKHWAT";
   province: string;
@@ -135,7 +138,6 @@ export async function getCandidateProfile(candidateUserId: string) {
       `
       user_id,
       full_name,
-      avatar_path,
       candidate_code,
       birth_date,
       marital_status,
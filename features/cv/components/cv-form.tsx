@@ -14,9 +14,30 @@ import {
   AlertCircle,
   Save,
   User,
+  CheckCircle,
+  MessageSquareWarning,
 } from "lucide-react";
 import { CvData } from "../types";
-import { loadCvData, saveCvData, uploadAvatar } from "@/server/actions/cv-details";
+import {
+  loadCvData,
+  saveCvData,
+  uploadAvatar,
+  updateAvatarVisibility,
+  loadCvRevisionComments,
+  acknowledgeCvRevisionComment,
+} from "@/server/actions/cv-details";
+import {
+  CV_REVISION_FIELDS,
+  isCvRevisionFieldKey,
+  isRevisionFieldChanged,
+  type CvRevisionFieldKey,
+} from "../lib/revision-fields";
+import {
+  AVATAR_MAX_UPLOAD_BYTES,
+  AVATAR_UPLOAD_TYPES,
+  AVATAR_VISIBILITY_OPTIONS,
+} from "../lib/avatar";
+import type { AvatarVisibility, CvRevisionComment } from "@/types/database.types";
 import { getProvincesList } from "@/server/actions/provinces";
 import { toast } from "sonner";
 
@@ -42,21 +63,39 @@ export function CvForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [isSavingVisibility, setIsSavingVisibility] = useState(false);
   const [riwayatPenyakit, setRiwayatPenyakit] = useState<string[]>([""]);
   const [kriteriaKhusus, setKriteriaKhusus] = useState<string[]>([""]);
   const [provinces, setProvinces] = useState<{ id: number; name: string }[]>([]);
+  const [revisionComments, setRevisionComments] = useState<CvRevisionComment[]>([]);
+  // Current value per input name, tracked only to detect edits on flagged fields
+  const [editedValues, setEditedValues] = useState<Record<string, string>>({});
 
   useEffect(() => {
     const fetchCvData = async () => {
       try {
         // Load CV data and provinces in parallel
-        const [data, provincesList] = await Promise.all([
+        const [data, provincesList, comments] = await Promise.all([
           loadCvData(),
-          getProvincesList()
+          getProvincesList(),
+          loadCvRevisionComments(),
         ]);
         
         setCvData(data);
         setProvinces(provincesList);
+        setRevisionComments(comments);
+
+        // Open every section that has a flagged field
+        const flaggedSections = comments
+          .filter((c) => isCvRevisionFieldKey(c.field_key))
+          .map((c) => CV_REVISION_FIELDS[c.field_key as CvRevisionFieldKey].formSection);
+        if (flaggedSections.length > 0) {
+          setSections((prev) =>
+            prev.map((section) =>
+              flaggedSections.includes(section.id) ? { ...section, isOpen: true } : section
+            )
+          );
+        }
 
         if (data) {
           setRiwayatPenyakit(
@@ -120,19 +159,142 @@ export function CvForm() {
     }
   };
 
+  // Flagged fields with their resolution state, per input name
+  const flaggedFields = revisionComments
+    .filter((c) => isCvRevisionFieldKey(c.field_key))
+    .map((comment) => {
+      const key = comment.field_key as CvRevisionFieldKey;
+      const { formField } = CV_REVISION_FIELDS[key];
+      const current =
+        formField === "riwayatPenyakit"
+          ? riwayatPenyakit
+          : formField === "kriteriaKhusus"
+            ? kriteriaKhusus
+            : editedValues[formField];
+      const changed =
+        !!cvData && current !== undefined && isRevisionFieldChanged(key, cvData, current);
+      return { comment, key, formField, changed };
+    });
+
+  const pendingFlags = flaggedFields.filter((f) => !f.changed && !f.comment.acknowledged_at);
+  const isResubmitBlocked = cvData?.status === "REVISI" && pendingFlags.length > 0;
+
+  const handleFieldChange = (e: React.FormEvent<HTMLFormElement>) => {
+    const target = e.target as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+    if (!target.name || !flaggedFields.some((f) => f.formField === target.name)) return;
+    setEditedValues((prev) => ({ ...prev, [target.name]: target.value }));
+  };
+
+  const handleAcknowledge = async (commentId: number) => {
+    const result = await acknowledgeCvRevisionComment(commentId);
+    if (result.success) {
+      setRevisionComments((prev) =>
+        prev.map((c) =>
+          c.id === commentId ? { ...c, acknowledged_at: new Date().toISOString() } : c
+        )
+      );
+    } else {
+      toast.error(result.error || "Gagal menandai catatan");
+    }
+  };
+
+  const renderRevisionNote = (formField: string) => {
+    const flags = flaggedFields.filter((f) => f.formField === formField);
+    if (flags.length === 0) return null;
+
+    return flags.map(({ comment, changed }) => {
+      const resolved = changed || !!comment.acknowledged_at;
+      return (
+        <div
+          key={comment.id}
+          className={`mt-2 rounded-md border p-3 text-sm ${
+            resolved
+              ? "border-green-300 bg-green-50 text-green-800"
+              : "border-amber-300 bg-amber-50 text-amber-900"
+          }`}
+        >
+          <div className="flex items-start gap-2">
+            {resolved ? (
+              <CheckCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            ) : (
+              <MessageSquareWarning className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            )}
+            <div className="flex-1">
+              <p className="font-medium">Catatan admin</p>
+              <p>{comment.comment}</p>
+              {changed ? (
+                <p className="mt-1 text-xs">Sudah diubah</p>
+              ) : comment.acknowledged_at ? (
+                <p className="mt-1 text-xs">Ditandai sudah sesuai</p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleAcknowledge(comment.id)}
+                  className="mt-1 text-xs font-medium underline underline-offset-2"
+                >
+                  Sudah sesuai, tidak perlu diubah
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      );
+    });
+  };
+
+  const renderSectionFlag = (sectionId: string) => {
+    const count = pendingFlags.filter(
+      (f) => CV_REVISION_FIELDS[f.key].formSection === sectionId
+    ).length;
+    if (count === 0) return null;
+
+    return (
+      <Badge variant="warning" className="text-xs">
+        {count} perlu diperbaiki
+      </Badge>
+    );
+  };
+
+  const handleAvatarVisibilityChange = async (visibility: AvatarVisibility) => {
+    if (!cvData || cvData.biodata.avatarVisibility === visibility) return;
+
+    const previous = cvData.biodata.avatarVisibility;
+    setCvData({ ...cvData, biodata: { ...cvData.biodata, avatarVisibility: visibility } });
+    setIsSavingVisibility(true);
+
+    try {
+      const result = await updateAvatarVisibility(visibility);
+      if (result.success) {
+        toast.success("Privasi foto disimpan");
+      } else {
+        toast.error(result.error || "Gagal menyimpan privasi foto");
+        setCvData((current) =>
+          current ? { ...current, biodata: { ...current.biodata, avatarVisibility: previous } } : current
+        );
+      }
+    } catch (error) {
+      console.error("Error updating avatar visibility:", error);
+      toast.error("Gagal menyimpan privasi foto");
+      setCvData((current) =>
+        current ? { ...current, biodata: { ...current.biodata, avatarVisibility: previous } } : current
+      );
+    } finally {
+      setIsSavingVisibility(false);
+    }
+  };
+
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     // Validate file size (max 1MB)
-    if (file.size > 1024 * 1024) {
+    if (file.size > AVATAR_MAX_UPLOAD_BYTES) {
       toast.error("Ukuran file maksimal 1MB");
       return;
     }
 
     // Validate file type
-    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
-    if (!allowedTypes.includes(file.type)) {
+    if (!AVATAR_UPLOAD_TYPES.includes(file.type)) {
       toast.error("Format file harus JPG, PNG, atau WebP");
       return;
     }
@@ -197,8 +359,13 @@ export function CvForm() {
           "CV berhasil disimpan! Tunggu 1x24 jam untuk verifikasi admin."
         );
         // Refresh data
-        const updatedData = await loadCvData();
+        const [updatedData, comments] = await Promise.all([
+          loadCvData(),
+          loadCvRevisionComments(),
+        ]);
         setCvData(updatedData);
+        setRevisionComments(comments);
+        setEditedValues({});
       } else {
         toast.error(result.error || "Gagal menyimpan CV");
       }
@@ -225,7 +392,7 @@ export function CvForm() {
   }
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-6">
+    <form onSubmit={handleSubmit} onChange={handleFieldChange} className="space-y-6">
       {/* CV Status Badge */}
       <Card className="p-4">
         <div className="flex items-center justify-between">
@@ -271,7 +438,10 @@ export function CvForm() {
           className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50"
           onClick={() => toggleSection("biodata")}
         >
-          <h2 className="text-lg font-semibold">Biodata Lengkap</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Biodata Lengkap</h2>
+            {renderSectionFlag("biodata")}
+          </div>
           {sections.find((s) => s.id === "biodata")?.isOpen ? (
             <ChevronUp className="h-5 w-5" />
           ) : (
@@ -322,6 +492,37 @@ export function CvForm() {
                 Maks 1MB • JPG, PNG, WebP
               </p>
             </div>
+
+            {/* Photo privacy: saved right away, independent of the CV form */}
+            <div className="w-full max-w-md space-y-2">
+              <p className="text-sm font-medium">Siapa yang bisa melihat foto Anda?</p>
+              <div role="radiogroup" className="space-y-2">
+                {AVATAR_VISIBILITY_OPTIONS.map((option) => {
+                  const selected = (cvData?.biodata.avatarVisibility || "BLURRED") === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      role="radio"
+                      aria-checked={selected}
+                      disabled={isSavingVisibility || !cvData}
+                      onClick={() => handleAvatarVisibilityChange(option.value)}
+                      className={`w-full text-left rounded-md border p-3 transition ${
+                        selected ? "border-primary bg-primary/5" : "border-input hover:bg-muted/50"
+                      }`}
+                    >
+                      <span className="block text-sm font-medium">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground mt-0.5">
+                        {option.description}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Pasangan taaruf yang sudah diterima dan admin selalu dapat melihat foto asli.
+              </p>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -338,6 +539,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.namaLengkap || ""}
                   required
                 />
+                {renderRevisionNote("namaLengkap")}
               </div>
 
               <div>
@@ -354,6 +556,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.tanggalLahir || ""}
                   required
                 />
+                {renderRevisionNote("tanggalLahir")}
               </div>
 
               <div>
@@ -395,6 +598,7 @@ export function CvForm() {
                   <option value="JANDA">Janda</option>
                   <option value="DUDA">Duda</option>
                 </select>
+                {renderRevisionNote("statusPernikahan")}
               </div>
 
               <div>
@@ -418,6 +622,7 @@ export function CvForm() {
                     </option>
                   ))}
                 </select>
+                {renderRevisionNote("domisili")}
               </div>
             </div>
 
@@ -435,6 +640,7 @@ export function CvForm() {
                 required
                 rows={3}
               />
+              {renderRevisionNote("alamatLengkap")}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -459,6 +665,7 @@ export function CvForm() {
                   <option value="S2">S2</option>
                   <option value="S3">S3</option>
                 </select>
+                {renderRevisionNote("pendidikan")}
               </div>
 
               <div>
@@ -475,6 +682,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.pekerjaan || ""}
                   required
                 />
+                {renderRevisionNote("pekerjaan")}
               </div>
 
               <div>
@@ -498,6 +706,7 @@ export function CvForm() {
                   <option value="10_PLUS">10+ Juta</option>
                   <option value="SAAT_TAARUF">Saat Taaruf</option>
                 </select>
+                {renderRevisionNote("penghasilan")}
               </div>
           </div>
         </div>
@@ -509,7 +718,10 @@ export function CvForm() {
           className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50"
           onClick={() => toggleSection("kondisiFisik")}
         >
-          <h2 className="text-lg font-semibold">Kondisi Fisik</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Kondisi Fisik</h2>
+            {renderSectionFlag("kondisiFisik")}
+          </div>
           {sections.find((s) => s.id === "kondisiFisik")?.isOpen ? (
             <ChevronUp className="h-5 w-5" />
           ) : (
@@ -539,6 +751,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.tinggiBadan || ""}
                   required
                 />
+                {renderRevisionNote("tinggiBadan")}
               </div>
 
               <div>
@@ -558,6 +771,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.beratBadan || ""}
                   required
                 />
+                {renderRevisionNote("beratBadan")}
               </div>
           </div>
 
@@ -576,8 +790,11 @@ export function CvForm() {
               maxLength={200}
               rows={3}
             />
+            {renderRevisionNote("ciriFisik")}
           </div>
 
+          {renderRevisionNote("riwayatPenyakit")}
+
           {/* Riwayat Penyakit Accordion */}
           <div className="border border-input rounded-md">
             <div
@@ -644,7 +861,10 @@ export function CvForm() {
           className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50"
           onClick={() => toggleSection("latarBelakang")}
         >
-          <h2 className="text-lg font-semibold">Latar Belakang Keluarga</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Latar Belakang Keluarga</h2>
+            {renderSectionFlag("latarBelakang")}
+          </div>
           {sections.find((s) => s.id === "latarBelakang")?.isOpen ? (
             <ChevronUp className="h-5 w-5" />
           ) : (
@@ -676,6 +896,7 @@ export function CvForm() {
               <option value="Piatu">Piatu</option>
               <option value="Yatim Piatu">Yatim Piatu</option>
             </select>
+            {renderRevisionNote("keberadaanOrangTua")}
           </div>
 
           <div>
@@ -692,6 +913,7 @@ export function CvForm() {
               defaultValue={cvData?.biodata.pekerjaanOrangTua || ""}
               required
             />
+            {renderRevisionNote("pekerjaanOrangTua")}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -712,6 +934,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.anakKe || ""}
                   required
                 />
+                {renderRevisionNote("anakKe")}
               </div>
 
               <div>
@@ -731,6 +954,7 @@ export function CvForm() {
                   defaultValue={cvData?.biodata.saudaraKandung || ""}
                   required
                 />
+                {renderRevisionNote("saudaraKandung")}
               </div>
           </div>
         </div>
@@ -742,7 +966,10 @@ export function CvForm() {
           className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50"
           onClick={() => toggleSection("ibadah")}
         >
-          <h2 className="text-lg font-semibold">Kondisi Ibadah</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Kondisi Ibadah</h2>
+            {renderSectionFlag("ibadah")}
+          </div>
           {sections.find((s) => s.id === "ibadah")?.isOpen ? (
             <ChevronUp className="h-5 w-5" />
           ) : (
@@ -773,6 +1000,7 @@ export function CvForm() {
                   <option value="kadang-kadang">Kadang-kadang</option>
                   <option value="belum istiqomah">Belum Istiqomah</option>
                 </select>
+                {renderRevisionNote("shalatFardu")}
               </div>
 
               <div>
@@ -793,6 +1021,7 @@ export function CvForm() {
                   <option value="masih belajar">Masih Belajar</option>
                   <option value="belum bisa">Belum Bisa</option>
                 </select>
+                {renderRevisionNote("bacaanQuran")}
               </div>
 
               <div>
@@ -808,6 +1037,7 @@ export function CvForm() {
                   placeholder="Sholat Dhuha"
                   defaultValue={cvData?.kondisiIbadah.shalatSunnah || ""}
                 />
+                {renderRevisionNote("shalatSunnah")}
               </div>
 
               <div>
@@ -823,6 +1053,7 @@ export function CvForm() {
                   placeholder="Juz 30"
                   defaultValue={cvData?.kondisiIbadah.hafalanQuran || ""}
                 />
+                {renderRevisionNote("hafalanQuran")}
               </div>
 
               <div>
@@ -838,6 +1069,7 @@ export function CvForm() {
                   placeholder="Puasa Senin dan Kamis"
                   defaultValue={cvData?.kondisiIbadah.puasa || ""}
                 />
+                {renderRevisionNote("puasa")}
               </div>
 
               <div>
@@ -853,6 +1085,7 @@ export function CvForm() {
                   placeholder="Ustadz Fulan.. Ustadzah Fulanah"
                   defaultValue={cvData?.kondisiIbadah.kajian || ""}
                 />
+                {renderRevisionNote("kajian")}
               </div>
           </div>
         </div>
@@ -864,7 +1097,10 @@ export function CvForm() {
           className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50"
           onClick={() => toggleSection("kriteria")}
         >
-          <h2 className="text-lg font-semibold">Kriteria Pasangan</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Kriteria Pasangan</h2>
+            {renderSectionFlag("kriteria")}
+          </div>
           {sections.find((s) => s.id === "kriteria")?.isOpen ? (
             <ChevronUp className="h-5 w-5" />
           ) : (
@@ -893,6 +1129,7 @@ export function CvForm() {
                   placeholder="25"
                   defaultValue={cvData?.kriteriaPasangan.usia || ""}
                 />
+                {renderRevisionNote("kriteriaUsia")}
               </div>
 
               <div>
@@ -916,6 +1153,7 @@ export function CvForm() {
                   <option value="S2">S2</option>
                   <option value="S3">S3</option>
                 </select>
+                {renderRevisionNote("kriteriaPendidikan")}
               </div>
 
               <div className="md:col-span-2">
@@ -939,6 +1177,7 @@ export function CvForm() {
                   <option value="10_PLUS">10+ Juta</option>
                   <option value="SAAT_TAARUF">Saat Taaruf</option>
                 </select>
+                {renderRevisionNote("kriteriaPenghasilan")}
               </div>
           </div>
 
@@ -957,8 +1196,11 @@ export function CvForm() {
               maxLength={200}
               rows={3}
             />
+            {renderRevisionNote("kriteriaCiriFisik")}
           </div>
 
+          {renderRevisionNote("kriteriaKhusus")}
+
           {/* Kriteria Khusus Accordion */}
           <div className="border border-input rounded-md">
             <div
@@ -1030,7 +1272,10 @@ export function CvForm() {
           className="flex items-center justify-between p-4 cursor-pointer hover:bg-muted/50"
           onClick={() => toggleSection("rencana")}
         >
-          <h2 className="text-lg font-semibold">Rencana Pernikahan</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Rencana Pernikahan</h2>
+            {renderSectionFlag("rencana")}
+          </div>
           {sections.find((s) => s.id === "rencana")?.isOpen ? (
             <ChevronUp className="h-5 w-5" />
           ) : (
@@ -1059,6 +1304,7 @@ export function CvForm() {
                   placeholder="2027"
                   defaultValue={cvData?.rencanaPernikahan.tahunNikah || ""}
                 />
+                {renderRevisionNote("tahunNikah")}
               </div>
 
               <div>
@@ -1075,6 +1321,7 @@ export function CvForm() {
                   defaultValue={cvData?.rencanaPernikahan.tempatTinggal || ""}
                   required
                 />
+                {renderRevisionNote("tempatTinggal")}
               </div>
           </div>
 
@@ -1091,6 +1338,7 @@ export function CvForm() {
               rows={3}
               required
             />
+            {renderRevisionNote("visi")}
           </div>
 
           <div>
@@ -1106,13 +1354,20 @@ export function CvForm() {
               rows={3}
               required
             />
+            {renderRevisionNote("misi")}
           </div>
         </div>
       </Card>
 
       {/* Submit Button */}
-      <div className="flex justify-end">
-        <Button type="submit" disabled={isSubmitting} className="gap-2 px-8">
+      <div className="flex flex-col items-end gap-2">
+        {isResubmitBlocked && (
+          <p className="text-sm text-amber-700 text-right">
+            Ubah atau tandai sudah sesuai isian berikut sebelum mengajukan ulang:{" "}
+            {pendingFlags.map((f) => CV_REVISION_FIELDS[f.key].label).join(", ")}
+          </p>
+        )}
+        <Button type="submit" disabled={isSubmitting || isResubmitBlocked} className="gap-2 px-8">
           <Save className="h-4 w-4" />
           {isSubmitting ? "Menyimpan..." : "Simpan CV"}
         </Button>
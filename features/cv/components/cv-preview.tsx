@@ -31,8 +31,11 @@ import {
   Clock,
   CheckCircle2,
   AlertCircle,
+  CalendarClock,
+  XCircle,
+  ExternalLink,
 } from "lucide-react";
-import { CvData } from "../types";
+import { BiodataLengkap, CvData } from "../types";
 import { loadCvData } from "@/server/actions/cv-details";
 import {
   toggleCvVisibility,
@@ -41,6 +44,113 @@ import {
   getSocialMediaPostStatus,
 } from "@/server/actions/social-media";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import { id as idLocale } from "date-fns/locale";
+
+const formatPenghasilan = (penghasilan: string) => {
+  const map: Record<string, string> = {
+    // Enum format
+    "0_2": "0-2 Juta",
+    "2_5": "2-5 Juta",
+    "5_10": "5-10 Juta",
+    "10_PLUS": "10+ Juta",
+    "SAAT_TAARUF": "Saat Taaruf",
+    // Display format (fallback)
+    "0-2": "0-2 Juta",
+    "2-5": "2-5 Juta",
+    "5-10": "5-10 Juta",
+    "10+": "10+ Juta",
+    "Saat Taaruf": "Saat Taaruf",
+  };
+  return map[penghasilan] || penghasilan;
+};
+
+type CvBiodataFieldsProps = {
+  biodata: Pick<
+    BiodataLengkap,
+    | "tanggalLahir"
+    | "statusPernikahan"
+    | "domisili"
+    | "pendidikan"
+    | "pekerjaan"
+    | "penghasilan"
+    | "tinggiBadan"
+    | "beratBadan"
+    | "riwayatPenyakit"
+  >;
+  /** Render every row ("-" when empty) so side-by-side columns line up */
+  showEmpty?: boolean;
+  className?: string;
+};
+
+/**
+ * "Biodata Wajib" section of the CV preview; also used by the shortlist
+ * compare view
+ */
+export function CvBiodataFields({
+  biodata,
+  showEmpty = false,
+  className = "grid grid-cols-1 md:grid-cols-2 gap-4",
+}: CvBiodataFieldsProps) {
+  const rows = [
+    { icon: Calendar, label: "Tanggal Lahir", value: biodata.tanggalLahir },
+    { icon: User, label: "Status", value: biodata.statusPernikahan },
+    { icon: MapPin, label: "Domisili", value: biodata.domisili },
+    { icon: GraduationCap, label: "Pendidikan", value: biodata.pendidikan },
+    { icon: Briefcase, label: "Pekerjaan", value: biodata.pekerjaan },
+    {
+      icon: DollarSign,
+      label: "Penghasilan",
+      value: biodata.penghasilan && formatPenghasilan(biodata.penghasilan),
+    },
+    {
+      icon: Ruler,
+      label: "Tinggi/Berat",
+      value: biodata.tinggiBadan && `${biodata.tinggiBadan} cm / ${biodata.beratBadan} kg`,
+    },
+  ];
+  const riwayatPenyakit = biodata.riwayatPenyakit || [];
+
+  return (
+    <>
+      <div className={className}>
+        {rows
+          .filter((row) => showEmpty || row.value)
+          .map(({ icon: Icon, label, value }) => (
+            <div key={label} className="flex items-center gap-3 text-sm">
+              <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              <div>
+                <span className="font-medium">{label}:</span>
+                <span className="ml-2">{value || "-"}</span>
+              </div>
+            </div>
+          ))}
+      </div>
+
+      {(showEmpty || riwayatPenyakit.length > 0) && (
+        <div className="pt-4 border-t border-input">
+          <div className="flex items-start gap-3 text-sm">
+            <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+            <div>
+              <span className="font-medium">Riwayat Penyakit:</span>
+              <div className="ml-2 mt-1 space-y-1">
+                {riwayatPenyakit.length > 0 ? (
+                  riwayatPenyakit.map((penyakit, index) => (
+                    <div key={index} className="text-muted-foreground">
+                      • {penyakit}
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-muted-foreground">• Tidak ada</div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
 
 interface CvPreviewProps {
   onEditClick: () => void;
@@ -51,7 +161,7 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
   const [loading, setLoading] = useState(true);
   const [isVisible, setIsVisible] = useState(true);
   const [isTogglingVisibility, setIsTogglingVisibility] = useState(false);
-  const [socialMediaStatus, setSocialMediaStatus] = useState<string | null>(null);
+  const [socialMedia, setSocialMedia] = useState<Awaited<ReturnType<typeof getSocialMediaPostStatus>> | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -66,7 +176,7 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
         
         setCvData(data);
         setIsVisible(visibilityData.isVisible);
-        setSocialMediaStatus(socialData.status);
+        setSocialMedia(socialData);
       } catch (error) {
         console.error("Error loading CV data:", error);
       } finally {
@@ -104,7 +214,7 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
       const result = await submitSocialMediaPost();
       if (result.success) {
         toast.success(result.message);
-        setSocialMediaStatus("PENDING");
+        setSocialMedia(await getSocialMediaPostStatus());
         setShowConfirmModal(false);
       } else {
         toast.error(result.error || "Gagal mengajukan posting");
@@ -116,6 +226,8 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
     }
   };
 
+  const socialMediaStatus = socialMedia?.status ?? null;
+
   if (loading) {
     return (
       <Card className="p-6">
@@ -154,24 +266,6 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
     );
   }
 
-  const formatPenghasilan = (penghasilan: string) => {
-    const map: Record<string, string> = {
-      // Enum format
-      "0_2": "0-2 Juta",
-      "2_5": "2-5 Juta",
-      "5_10": "5-10 Juta",
-      "10_PLUS": "10+ Juta",
-      "SAAT_TAARUF": "Saat Taaruf",
-      // Display format (fallback)
-      "0-2": "0-2 Juta",
-      "2-5": "2-5 Juta",
-      "5-10": "5-10 Juta",
-      "10+": "10+ Juta",
-      "Saat Taaruf": "Saat Taaruf",
-    };
-    return map[penghasilan] || penghasilan;
-  };
-
   // Mapping status yang sesuai dengan server (case-insensitive):
   // - "APPROVED"    -> default (hijau)
   // - "REVISI"      -> destructive (merah)
@@ -251,104 +345,7 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
             </h3>
           </div>
 
-          {/* Biodata Wajib */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {cvData?.biodata.tanggalLahir && (
-              <div className="flex items-center gap-3 text-sm">
-                <Calendar className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Tanggal Lahir:</span>
-                  <span className="ml-2">{cvData.biodata.tanggalLahir}</span>
-                </div>
-              </div>
-            )}
-
-            {cvData?.biodata.statusPernikahan && (
-              <div className="flex items-center gap-3 text-sm">
-                <User className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Status:</span>
-                  <span className="ml-2">
-                    {cvData.biodata.statusPernikahan}
-                  </span>
-                </div>
-              </div>
-            )}
-
-            {cvData?.biodata.domisili && (
-              <div className="flex items-center gap-3 text-sm">
-                <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Domisili:</span>
-                  <span className="ml-2">{cvData.biodata.domisili}</span>
-                </div>
-              </div>
-            )}
-
-            {cvData?.biodata.pendidikan && (
-              <div className="flex items-center gap-3 text-sm">
-                <GraduationCap className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Pendidikan:</span>
-                  <span className="ml-2">{cvData.biodata.pendidikan}</span>
-                </div>
-              </div>
-            )}
-
-            {cvData?.biodata.pekerjaan && (
-              <div className="flex items-center gap-3 text-sm">
-                <Briefcase className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Pekerjaan:</span>
-                  <span className="ml-2">{cvData.biodata.pekerjaan}</span>
-                </div>
-              </div>
-            )}
-
-            {cvData?.biodata.penghasilan && (
-              <div className="flex items-center gap-3 text-sm">
-                <DollarSign className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Penghasilan:</span>
-                  <span className="ml-2">
-                    {formatPenghasilan(cvData.biodata.penghasilan)}
-                  </span>
-                </div>
-              </div>
-            )}
-
-            {cvData?.biodata.tinggiBadan && (
-              <div className="flex items-center gap-3 text-sm">
-                <Ruler className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                <div>
-                  <span className="font-medium">Tinggi/Berat:</span>
-                  <span className="ml-2">
-                    {cvData.biodata.tinggiBadan} cm /{" "}
-                    {cvData.biodata.beratBadan} kg
-                  </span>
-                </div>
-              </div>
-            )}
-          </div>
-
-          {cvData?.biodata.riwayatPenyakit &&
-            cvData.biodata.riwayatPenyakit.length > 0 && (
-              <div className="pt-4 border-t border-input">
-                <div className="flex items-start gap-3 text-sm">
-                  <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
-                  <div>
-                    <span className="font-medium">Riwayat Penyakit:</span>
-                    <div className="ml-2 mt-1 space-y-1">
-                      {cvData.biodata.riwayatPenyakit.map((penyakit, index) => (
-                        <div key={index} className="text-muted-foreground">
-                          • {penyakit}
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
+          <CvBiodataFields biodata={cvData.biodata} />
         </div>
       </Card>
 
@@ -413,6 +410,23 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
                 </div>
               )}
 
+              {socialMediaStatus === "SCHEDULED" && (
+                <div className="flex items-start gap-3 p-4 bg-blue-50 border border-blue-200 rounded-lg mb-4">
+                  <CalendarClock className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <h4 className="text-sm font-semibold text-blue-900 mb-1">
+                      Sudah Dijadwalkan
+                    </h4>
+                    <p className="text-xs text-blue-800">
+                      CV Anda dijadwalkan tayang di media sosial Roomah
+                      {socialMedia?.scheduledAt &&
+                        ` pada ${format(new Date(socialMedia.scheduledAt), "d MMMM yyyy, HH:mm", { locale: idLocale })}`}
+                      .
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {socialMediaStatus === "POSTED" && (
                 <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-200 rounded-lg mb-4">
                   <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
@@ -424,12 +438,43 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
                       CV Anda sudah diposting ke media sosial Roomah. Semoga
                       segera bertemu jodoh!
                     </p>
+                    {socialMedia?.postUrl && (
+                      <a
+                        href={socialMedia.postUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 mt-2 text-xs font-medium text-green-900 hover:underline"
+                      >
+                        Lihat postingan
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {socialMediaStatus === "REJECTED" && (
+                <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
+                  <XCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <h4 className="text-sm font-semibold text-red-900 mb-1">
+                      Pengajuan Ditolak
+                    </h4>
+                    {socialMedia?.rejectedReason && (
+                      <p className="text-xs text-red-800 mb-1">
+                        Alasan: {socialMedia.rejectedReason}
+                      </p>
+                    )}
+                    <p className="text-xs text-red-800">
+                      5 koin sudah dikembalikan ke saldo Anda. Anda dapat
+                      mengajukan kembali setelah memperbaiki CV bila diperlukan.
+                    </p>
                   </div>
                 </div>
               )}
 
               {/* Button Ajukan */}
-              {!socialMediaStatus && (
+              {(!socialMediaStatus || socialMediaStatus === "REJECTED") && (
                 <div className="mt-4">
                   <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-lg mb-3">
                     <Coins className="h-5 w-5 text-warning" />
@@ -508,9 +553,9 @@ export function CvPreview({ onEditClick }: CvPreviewProps) {
             </div>
 
             <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
-              <strong>Catatan:</strong> Proses posting akan dilakukan oleh
-              admin dalam 1x24 jam. Koin yang sudah dipotong tidak dapat
-              dikembalikan.
+              <strong>Catatan:</strong> Caption dan gambar dibuat otomatis
+              dari CV Anda tanpa nama dan foto. Admin akan menjadwalkan
+              postingan; jika pengajuan ditolak, 5 koin dikembalikan.
             </div>
           </div>
 
@@ -0,0 +1,76 @@
+/**
+ * CV Avatar
+ * Uploads are re-encoded server-side into two files in the private
+ * cv-avatars bucket: the full avatar (profiles.avatar_path) and a small
+ * blurred variant (profiles.avatar_blur_path). Nobody gets a bucket URL:
+ * every photo goes through /api/avatars/[userId], which picks the variant
+ * the viewer may see from the owner's avatar_visibility.
+ *
+ * Pure module: shared by the upload action, candidate listings and cv-form.
+ */
+
+import type { AvatarVisibility } from "@/types/database.types";
+
+export const AVATAR_BUCKET = "cv-avatars";
+
+/** Largest upload accepted (server actions cap request bodies at 1MB) */
+export const AVATAR_MAX_UPLOAD_BYTES = 1024 * 1024;
+
+export const AVATAR_UPLOAD_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+/** Full avatar, square px */
+export const AVATAR_SIZE = 512;
+
+/** Blurred variant, square px */
+export const AVATAR_BLUR_SIZE = 96;
+
+/** Signed URLs handed out by the avatar route, seconds */
+export const AVATAR_SIGNED_URL_TTL = 300;
+
+export const AVATAR_VISIBILITY_OPTIONS: {
+  value: AvatarVisibility;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "HIDDEN",
+    label: "Sembunyikan",
+    description: "Foto tidak ditampilkan sama sekali sampai taaruf diterima.",
+  },
+  {
+    value: "BLURRED",
+    label: "Blur sampai diterima",
+    description: "Anggota lain melihat versi blur; foto asli terbuka setelah taaruf diterima.",
+  },
+  {
+    value: "MEMBERS",
+    label: "Anggota terverifikasi",
+    description: "Anggota dengan CV yang sudah disetujui melihat foto asli.",
+  },
+];
+
+export function isAvatarVisibility(value: unknown): value is AvatarVisibility {
+  return AVATAR_VISIBILITY_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Avatar route for a user. `version` busts the browser cache after an
+ * upload; the route itself decides full, blurred or nothing.
+ */
+export function avatarRouteUrl(userId: string, version?: string | number) {
+  const base = `/api/avatars/${userId}`;
+  return version === undefined ? base : `${base}?v=${encodeURIComponent(String(version))}`;
+}
+
+/**
+ * Avatar for candidate listings: nothing for HIDDEN (no request that would
+ * only 404) or when there's no blurred variant to fall back on
+ */
+export function listingAvatarUrl(
+  userId: string,
+  blurPath: string | null | undefined,
+  visibility: AvatarVisibility | null | undefined
+) {
+  if (!blurPath || visibility === "HIDDEN") return null;
+  return avatarRouteUrl(userId);
+}
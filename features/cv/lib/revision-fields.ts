@@ -0,0 +1,107 @@
+/**
+ * CV Revision Fields
+ * Fields an admin can attach a revision comment to. Keys follow the six
+ * categories in features/cv/schemas/cv.ts ("<category>.<field>"); fields the
+ * form has but the schemas don't (e.g. ibadah.kajian) use the form name.
+ *
+ * Pure module: shared by the review modal, cv-form and the save/revise actions.
+ */
+
+import type { CvData } from "../types";
+
+export type CvRevisionCategory =
+  | "biodata"
+  | "kondisiFisik"
+  | "latarBelakangKeluarga"
+  | "ibadah"
+  | "kriteriaPasangan"
+  | "rencanaPernikahan";
+
+export interface CvRevisionField {
+  label: string;
+  category: CvRevisionCategory;
+  /** `name` of the input in cv-form (and the saveCvData FormData key) */
+  formField: string;
+  /** Section id in cv-form, opened when the field is flagged */
+  formSection: string;
+  read: (cv: CvData) => string | string[];
+}
+
+export const CV_REVISION_CATEGORY_LABELS: Record<CvRevisionCategory, string> = {
+  biodata: "Biodata",
+  kondisiFisik: "Kondisi Fisik",
+  latarBelakangKeluarga: "Latar Belakang Keluarga",
+  ibadah: "Kondisi Ibadah",
+  kriteriaPasangan: "Kriteria Pasangan",
+  rencanaPernikahan: "Rencana Pernikahan",
+};
+
+export const CV_REVISION_FIELDS = {
+  "biodata.fullName": { label: "Nama Lengkap", category: "biodata", formField: "namaLengkap", formSection: "biodata", read: (cv) => cv.biodata.namaLengkap },
+  "biodata.birthDate": { label: "Tanggal Lahir", category: "biodata", formField: "tanggalLahir", formSection: "biodata", read: (cv) => cv.biodata.tanggalLahir },
+  "biodata.maritalStatus": { label: "Status Pernikahan", category: "biodata", formField: "statusPernikahan", formSection: "biodata", read: (cv) => cv.biodata.statusPernikahan },
+  "biodata.provinceId": { label: "Domisili Provinsi", category: "biodata", formField: "domisili", formSection: "biodata", read: (cv) => cv.biodata.domisili },
+  "biodata.fullAddress": { label: "Alamat Lengkap", category: "biodata", formField: "alamatLengkap", formSection: "biodata", read: (cv) => cv.biodata.alamatLengkap },
+  "biodata.education": { label: "Pendidikan", category: "biodata", formField: "pendidikan", formSection: "biodata", read: (cv) => cv.biodata.pendidikan },
+  "biodata.occupation": { label: "Pekerjaan", category: "biodata", formField: "pekerjaan", formSection: "biodata", read: (cv) => cv.biodata.pekerjaan },
+  "biodata.incomeBracket": { label: "Penghasilan", category: "biodata", formField: "penghasilan", formSection: "biodata", read: (cv) => cv.biodata.penghasilan },
+
+  "kondisiFisik.heightCm": { label: "Tinggi Badan", category: "kondisiFisik", formField: "tinggiBadan", formSection: "kondisiFisik", read: (cv) => cv.biodata.tinggiBadan },
+  "kondisiFisik.weightKg": { label: "Berat Badan", category: "kondisiFisik", formField: "beratBadan", formSection: "kondisiFisik", read: (cv) => cv.biodata.beratBadan },
+  "kondisiFisik.ciriFisik": { label: "Ciri Fisik", category: "kondisiFisik", formField: "ciriFisik", formSection: "kondisiFisik", read: (cv) => cv.biodata.ciriFisik },
+  "kondisiFisik.diseaseHistory": { label: "Riwayat Penyakit", category: "kondisiFisik", formField: "riwayatPenyakit", formSection: "kondisiFisik", read: (cv) => cv.biodata.riwayatPenyakit },
+
+  "latarBelakangKeluarga.parentStatus": { label: "Keberadaan Orang Tua", category: "latarBelakangKeluarga", formField: "keberadaanOrangTua", formSection: "latarBelakang", read: (cv) => cv.biodata.keberadaanOrangTua },
+  "latarBelakangKeluarga.parentOccupation": { label: "Pekerjaan Orang Tua", category: "latarBelakangKeluarga", formField: "pekerjaanOrangTua", formSection: "latarBelakang", read: (cv) => cv.biodata.pekerjaanOrangTua },
+  "latarBelakangKeluarga.siblingOrder": { label: "Anak Ke", category: "latarBelakangKeluarga", formField: "anakKe", formSection: "latarBelakang", read: (cv) => cv.biodata.anakKe },
+  "latarBelakangKeluarga.siblingTotal": { label: "Jumlah Saudara Kandung", category: "latarBelakangKeluarga", formField: "saudaraKandung", formSection: "latarBelakang", read: (cv) => cv.biodata.saudaraKandung },
+
+  "ibadah.salatStatus": { label: "Shalat Fardu", category: "ibadah", formField: "shalatFardu", formSection: "ibadah", read: (cv) => cv.kondisiIbadah.shalatFardu },
+  "ibadah.quranAbility": { label: "Bacaan Quran", category: "ibadah", formField: "bacaanQuran", formSection: "ibadah", read: (cv) => cv.kondisiIbadah.bacaanQuran },
+  "ibadah.shalatSunnah": { label: "Shalat Sunnah", category: "ibadah", formField: "shalatSunnah", formSection: "ibadah", read: (cv) => cv.kondisiIbadah.shalatSunnah },
+  "ibadah.hafalanQuran": { label: "Hafalan Quran", category: "ibadah", formField: "hafalanQuran", formSection: "ibadah", read: (cv) => cv.kondisiIbadah.hafalanQuran },
+  "ibadah.fasting": { label: "Puasa", category: "ibadah", formField: "puasa", formSection: "ibadah", read: (cv) => cv.kondisiIbadah.puasa },
+  "ibadah.kajian": { label: "Kajian", category: "ibadah", formField: "kajian", formSection: "ibadah", read: (cv) => cv.kondisiIbadah.kajian },
+
+  "kriteriaPasangan.ageRange": { label: "Kriteria Usia", category: "kriteriaPasangan", formField: "kriteriaUsia", formSection: "kriteria", read: (cv) => cv.kriteriaPasangan.usia },
+  "kriteriaPasangan.education": { label: "Kriteria Pendidikan", category: "kriteriaPasangan", formField: "kriteriaPendidikan", formSection: "kriteria", read: (cv) => cv.kriteriaPasangan.pendidikan },
+  "kriteriaPasangan.incomeBracket": { label: "Kriteria Penghasilan", category: "kriteriaPasangan", formField: "kriteriaPenghasilan", formSection: "kriteria", read: (cv) => cv.kriteriaPasangan.penghasilan },
+  "kriteriaPasangan.ciriFisik": { label: "Kriteria Ciri Fisik", category: "kriteriaPasangan", formField: "kriteriaCiriFisik", formSection: "kriteria", read: (cv) => cv.kriteriaPasangan.ciriFisik },
+  "kriteriaPasangan.otherCriteria": { label: "Kriteria Khusus", category: "kriteriaPasangan", formField: "kriteriaKhusus", formSection: "kriteria", read: (cv) => cv.kriteriaPasangan.kriteriaKhusus },
+
+  "rencanaPernikahan.marriageYear": { label: "Target Tahun Nikah", category: "rencanaPernikahan", formField: "tahunNikah", formSection: "rencana", read: (cv) => cv.rencanaPernikahan.tahunNikah },
+  "rencanaPernikahan.livingPlan": { label: "Rencana Tempat Tinggal", category: "rencanaPernikahan", formField: "tempatTinggal", formSection: "rencana", read: (cv) => cv.rencanaPernikahan.tempatTinggal },
+  "rencanaPernikahan.vision": { label: "Visi Pernikahan", category: "rencanaPernikahan", formField: "visi", formSection: "rencana", read: (cv) => cv.rencanaPernikahan.visi },
+  "rencanaPernikahan.mission": { label: "Misi Pernikahan", category: "rencanaPernikahan", formField: "misi", formSection: "rencana", read: (cv) => cv.rencanaPernikahan.misi },
+} satisfies Record<string, CvRevisionField>;
+
+export type CvRevisionFieldKey = keyof typeof CV_REVISION_FIELDS;
+
+export const CV_REVISION_FIELD_KEYS = Object.keys(CV_REVISION_FIELDS) as [
+  CvRevisionFieldKey,
+  ...CvRevisionFieldKey[],
+];
+
+export function isCvRevisionFieldKey(value: string): value is CvRevisionFieldKey {
+  return value in CV_REVISION_FIELDS;
+}
+
+/** Compare ignoring case, surrounding whitespace and empty repeater rows */
+function normalizeValue(value: string | string[] | null | undefined): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => item.trim().toLowerCase()).filter(Boolean).join("\n");
+  }
+  return (value ?? "").trim().toLowerCase();
+}
+
+/**
+ * Has the user changed a flagged field since the admin's comment?
+ * `saved` is the CV as the admin reviewed it, `submitted` the new value.
+ */
+export function isRevisionFieldChanged(
+  key: CvRevisionFieldKey,
+  saved: CvData,
+  submitted: string | string[] | null | undefined
+): boolean {
+  return normalizeValue(CV_REVISION_FIELDS[key].read(saved)) !== normalizeValue(submitted);
+}
@@ -0,0 +1,91 @@
+/**
+ * Social Media Post
+ * Caption template and labels for the CV posts on Roomah's social media.
+ * Everything is rendered from the anonymised SocialPostCard snapshot, never
+ * from the CV itself: no name, photo or contact details end up in a post.
+ *
+ * Pure module: shared by the submit action, the admin queue and the image
+ * card route.
+ */
+
+import { EDUCATION_LABELS, GENDER_LABELS } from "@/features/candidates/lib/search-filters";
+import type { SocialMediaPostStatus, SocialPostCard } from "@/types/database.types";
+
+/** Instagram's caption limit */
+export const SOCIAL_POST_CAPTION_MAX = 2200;
+
+/** Square image card, px */
+export const SOCIAL_POST_IMAGE_SIZE = 1080;
+
+const VISION_MAX = 280;
+
+export const SOCIAL_POST_STATUS_LABELS: Record<SocialMediaPostStatus, string> = {
+  PENDING: "Menunggu",
+  SCHEDULED: "Terjadwal",
+  POSTED: "Dipublikasikan",
+  REJECTED: "Ditolak",
+};
+
+/** Statuses in which admins can still change the caption or schedule */
+export const EDITABLE_SOCIAL_POST_STATUSES: SocialMediaPostStatus[] = ["PENDING", "SCHEDULED"];
+
+/**
+ * Strip what could identify the candidate from free text (links, emails,
+ * @handles, phone numbers) and cut it to a caption-friendly length
+ */
+export function anonymiseSocialText(text: string | null | undefined, max = VISION_MAX) {
+  const cleaned = (text || "")
+    .replace(/https?:\/\/\S+|www\.\S+/gi, "")
+    .replace(/\S+@\S+\.\S+/g, "")
+    .replace(/@\w+/g, "")
+    .replace(/\+?\d[\d\s.-]{7,}\d/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (cleaned.length <= max) return cleaned;
+  return `${cleaned.slice(0, max - 1).trimEnd()}…`;
+}
+
+export function socialPostGenderLabel(card: SocialPostCard) {
+  return card.gender ? GENDER_LABELS[card.gender] : "Kandidat";
+}
+
+/**
+ * Age / domicile / education lines, shared by the caption and the image card
+ */
+export function socialPostFacts(card: SocialPostCard) {
+  return [
+    { label: "Usia", value: card.age ? `${card.age} tahun` : null },
+    { label: "Domisili", value: card.province },
+    { label: "Pendidikan", value: card.education ? EDUCATION_LABELS[card.education] : null },
+  ].filter((fact): fact is { label: string; value: string } => !!fact.value);
+}
+
+/**
+ * Default caption for a post; admins can edit it before publishing
+ */
+export function buildSocialPostCaption(card: SocialPostCard) {
+  const code = card.candidate_code || "-";
+  const vision = anonymiseSocialText(card.vision);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "https://roomah.id";
+
+  const lines = [
+    `${socialPostGenderLabel(card)} ${code} sedang mencari pasangan`,
+    "",
+    ...socialPostFacts(card).map((fact) => `${fact.label}: ${fact.value}`),
+  ];
+
+  if (vision) {
+    lines.push("", "Visi pernikahan:", `"${vision}"`);
+  }
+
+  lines.push(
+    "",
+    `Tertarik berkenalan? Cari kode ${code} di menu Cari Jodoh dan ajukan taaruf melalui Roomah.`,
+    `${appUrl}/cari-jodoh`,
+    "",
+    "#Roomah #Taaruf #CariJodoh #MenikahKarenaAllah"
+  );
+
+  return lines.join("\n");
+}
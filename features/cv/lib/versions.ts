@@ -0,0 +1,111 @@
+/**
+ * CV Version Diff
+ * Field-by-field comparison of two cv_versions snapshots (raw cv_data +
+ * cv_details rows as stored by snapshot_cv_version).
+ */
+
+export type CvVersionSection = "biodata" | "fisik" | "keluarga" | "ibadah" | "kriteria" | "rencana";
+
+export interface CvVersionSnapshot {
+  cv_data: Record<string, unknown>;
+  cv_details: Record<string, unknown> | null;
+}
+
+export interface CvFieldChange {
+  key: string;
+  label: string;
+  section: CvVersionSection;
+  before: string;
+  after: string;
+}
+
+interface CvVersionField {
+  key: string;
+  label: string;
+  section: CvVersionSection;
+  get: (snapshot: CvVersionSnapshot) => unknown;
+}
+
+function fromData(column: string) {
+  return (snapshot: CvVersionSnapshot) => snapshot.cv_data?.[column];
+}
+
+function fromDetails(group: string, key: string) {
+  return (snapshot: CvVersionSnapshot) => {
+    const value = snapshot.cv_details?.[group];
+    return value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  };
+}
+
+export const CV_SECTION_LABELS: Record<CvVersionSection, string> = {
+  biodata: "Biodata",
+  fisik: "Kondisi Fisik",
+  keluarga: "Latar Belakang Keluarga",
+  ibadah: "Kondisi Ibadah",
+  kriteria: "Kriteria Pasangan",
+  rencana: "Rencana Pernikahan",
+};
+
+// Order matches the sections in cv-review-modal
+const CV_VERSION_FIELDS: CvVersionField[] = [
+  { key: "full_name", label: "Nama Lengkap", section: "biodata", get: fromData("full_name") },
+  { key: "birth_date", label: "Tanggal Lahir", section: "biodata", get: fromData("birth_date") },
+  { key: "gender", label: "Jenis Kelamin", section: "biodata", get: fromData("gender") },
+  { key: "marital_status", label: "Status Pernikahan", section: "biodata", get: fromData("marital_status") },
+  { key: "province", label: "Domisili", section: "biodata", get: fromData("province_name") },
+  { key: "education", label: "Pendidikan", section: "biodata", get: fromData("education") },
+  { key: "occupation", label: "Pekerjaan", section: "biodata", get: fromData("occupation") },
+  { key: "income_bracket", label: "Penghasilan", section: "biodata", get: fromData("income_bracket") },
+
+  { key: "height", label: "Tinggi Badan", section: "fisik", get: fromDetails("family_background", "height") },
+  { key: "weight", label: "Berat Badan", section: "fisik", get: fromDetails("family_background", "weight") },
+  { key: "physical_traits", label: "Ciri Fisik", section: "fisik", get: fromDetails("family_background", "physical_traits") },
+  { key: "medical_history", label: "Riwayat Penyakit", section: "fisik", get: fromDetails("family_background", "medical_history") },
+
+  { key: "address", label: "Alamat", section: "keluarga", get: fromDetails("family_background", "address") },
+  { key: "parent_status", label: "Keberadaan Orang Tua", section: "keluarga", get: fromDetails("family_background", "parent_status") },
+  { key: "parent_occupation", label: "Pekerjaan Orang Tua", section: "keluarga", get: fromDetails("family_background", "parent_occupation") },
+  { key: "birth_order", label: "Anak Ke", section: "keluarga", get: fromDetails("family_background", "birth_order") },
+  { key: "sibling_count", label: "Saudara Kandung", section: "keluarga", get: fromDetails("family_background", "sibling_count") },
+
+  { key: "prayer_fardu", label: "Shalat Fardu", section: "ibadah", get: fromDetails("worship_profile", "prayer_fardu") },
+  { key: "quran_reading", label: "Bacaan Quran", section: "ibadah", get: fromDetails("worship_profile", "quran_reading") },
+  { key: "prayer_sunnah", label: "Shalat Sunnah", section: "ibadah", get: fromDetails("worship_profile", "prayer_sunnah") },
+  { key: "quran_memorization", label: "Hafalan Quran", section: "ibadah", get: fromDetails("worship_profile", "quran_memorization") },
+  { key: "fasting", label: "Puasa", section: "ibadah", get: fromDetails("worship_profile", "fasting") },
+  { key: "kajian", label: "Kajian", section: "ibadah", get: fromDetails("worship_profile", "kajian") },
+
+  { key: "desired_age", label: "Usia", section: "kriteria", get: fromDetails("spouse_criteria", "desired_age") },
+  { key: "desired_education", label: "Pendidikan", section: "kriteria", get: fromDetails("spouse_criteria", "desired_education") },
+  { key: "desired_income", label: "Penghasilan", section: "kriteria", get: fromDetails("spouse_criteria", "desired_income") },
+  { key: "desired_physical_traits", label: "Ciri Fisik", section: "kriteria", get: fromDetails("spouse_criteria", "desired_physical_traits") },
+  { key: "special_criteria", label: "Kriteria Lainnya", section: "kriteria", get: fromDetails("spouse_criteria", "special_criteria") },
+
+  { key: "marriage_year", label: "Tahun Nikah", section: "rencana", get: fromDetails("marriage_plan", "marriage_year") },
+  { key: "living_location", label: "Tempat Tinggal", section: "rencana", get: fromDetails("marriage_plan", "living_location") },
+  { key: "vision", label: "Visi", section: "rencana", get: fromDetails("marriage_plan", "vision") },
+  { key: "mission", label: "Misi", section: "rencana", get: fromDetails("marriage_plan", "mission") },
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).trim();
+}
+
+/**
+ * List the fields that differ between two snapshots
+ * Empty values ("", null, []) are treated as equal.
+ */
+export function diffCvVersions(
+  previous: CvVersionSnapshot,
+  current: CvVersionSnapshot
+): CvFieldChange[] {
+  return CV_VERSION_FIELDS.flatMap((field) => {
+    const before = formatValue(field.get(previous));
+    const after = formatValue(field.get(current));
+    if (before === after) return [];
+    return [{ key: field.key, label: field.label, section: field.section, before, after }];
+  });
+}
@@ -1,4 +1,11 @@
 import { createClient } from "@/server/db/client";
+import { snapshotCvVersion } from "@/server/services/cv-versions";
+import { processAvatar, saveAvatar } from "@/server/services/avatars";
+import {
+  AVATAR_MAX_UPLOAD_BYTES,
+  AVATAR_UPLOAD_TYPES,
+  avatarRouteUrl,
+} from "../lib/avatar";
 import { normalizeCvText, limitArrayItems } from "@/lib/utils/text";
 import {
   cvBiodataSchema,
@@ -525,6 +532,8 @@ export async function submitCvForReview(userId: string) {
     return { success: false, error: error.message, data: null };
   }
 
+  await snapshotCvVersion(await supabase, userId);
+
   return {
     success: true,
     data,
@@ -534,16 +543,16 @@ export async function submitCvForReview(userId: string) {
 }
 
 /**
- * Upload CV Avatar
+ * Upload CV Avatar (re-encoded, see server/services/avatars)
  */
 export async function uploadCvAvatar(
   userId: string,
   file: File
 ) {
-  const supabase = createClient();
+  const supabase = await createClient();
 
   // Validate file
-  if (file.size > 1024 * 1024) {
+  if (file.size > AVATAR_MAX_UPLOAD_BYTES) {
     // 1MB
     return {
       success: false,
@@ -552,8 +561,7 @@ export async function uploadCvAvatar(
     };
   }
 
-  const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
-  if (!allowedTypes.includes(file.type)) {
+  if (!AVATAR_UPLOAD_TYPES.includes(file.type)) {
     return {
       success: false,
       error: "Format file harus JPG, PNG, atau WebP",
@@ -561,42 +569,19 @@ export async function uploadCvAvatar(
     };
   }
 
-  // Generate unique filename
-  const fileExt = file.name.split(".").pop();
-  const fileName = `${userId}-${Date.now()}.${fileExt}`;
-  const filePath = `avatars/${fileName}`;
-
-  // Upload to storage
-  const { data: uploadData, error: uploadError } = await supabase.storage
-    .from("cv-avatars")
-    .upload(filePath, file, {
-      cacheControl: "3600",
-      upsert: true,
-    });
-
-  if (uploadError) {
-    return { success: false, error: uploadError.message, data: null };
+  const processed = await processAvatar(Buffer.from(await file.arrayBuffer()));
+  if (!processed) {
+    return {
+      success: false,
+      error: "Format file harus JPG, PNG, atau WebP",
+      data: null,
+    };
   }
 
-  // Get public URL
-  const {
-    data: { publicUrl },
-  } = supabase.storage.from("cv-avatars").getPublicUrl(filePath);
-
-  // Update cv_data
-  const { data, error } = await supabase
-    .from("cv_data")
-    .update({
-      avatar_path: filePath,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("user_id", userId)
-    .select()
-    .single();
-
-  if (error) {
-    return { success: false, error: error.message, data: null };
+  const saved = await saveAvatar(supabase, userId, processed);
+  if (!saved.success || !saved.data) {
+    return { success: false, error: saved.error, data: null };
   }
 
-  return { success: true, data: { url: publicUrl }, error: null };
+  return { success: true, data: { url: avatarRouteUrl(userId, Date.now()) }, error: null };
 }
@@ -1,5 +1,11 @@
+import type { AvatarVisibility } from "@/types/database.types";
+
 export interface BiodataLengkap {
   avatar?: string;
+  /** Viewer only gets the blurred avatar (candidate's photo policy) */
+  avatarBlurred?: boolean;
+  /** Own CV only: photo policy picked in cv-saya */
+  avatarVisibility?: AvatarVisibility;
   namaLengkap: string;
   tanggalLahir: string;
   jenisKelamin: string;
@@ -140,6 +140,12 @@ export function KoinDashboard() {
         throw new Error(json.error || "Gagal membuat transaksi");
       }
 
+      // Local simulator (PAYMENT_GATEWAY=fake): its pay page stands in for Snap
+      if (json.provider === "fake") {
+        window.location.href = json.redirectUrl;
+        return;
+      }
+
       // Check if Snap is loaded
       if (!window.snap) {
         console.error("❌ Midtrans Snap not loaded");
@@ -325,7 +331,7 @@ export function KoinDashboard() {
             <div className="text-sm">
               <h4 className="font-medium mb-1">Informasi Penggunaan Koin</h4>
               <ul className="space-y-1 text-muted-foreground">
-                <li>• Setiap pengajuan Ta'aruf membutuhkan 5 koin</li>
+                <li>• Setiap pengajuan Ta&apos;aruf membutuhkan 5 koin</li>
                 <li>• Koin tidak akan dikembalikan jika pengajuan ditolak</li>
                 <li>• Saldo koin tidak memiliki masa expired</li>
                 <li>• Pembayaran menggunakan sistem yang aman</li>
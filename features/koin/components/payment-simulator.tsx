@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Clock, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+type SimulatorAction = "pay" | "fail" | "expire";
+
+interface PaymentSimulatorProps {
+  token: string;
+  orderId: string;
+  grossAmount: number;
+}
+
+/**
+ * Local stand-in for the Midtrans Snap page (PAYMENT_GATEWAY=fake)
+ */
+export function PaymentSimulator({ token, orderId, grossAmount }: PaymentSimulatorProps) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] = useState<SimulatorAction | null>(null);
+
+  const handleAction = async (action: SimulatorAction) => {
+    setPendingAction(action);
+    try {
+      const res = await fetch("/api/koin/simulator", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify({ token, action }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        throw new Error(json.error || "Simulasi gagal");
+      }
+
+      if (action === "pay") {
+        toast.success("Pembayaran simulasi berhasil");
+      } else {
+        toast.message(`Transaksi ditandai ${json.transactionStatus}`);
+      }
+      router.push(json.redirectUrl);
+    } catch (error) {
+      toast.error((error as Error).message || "Simulasi gagal");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6 max-w-lg">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm text-muted-foreground">Order ID</div>
+          <div className="font-mono text-sm">{orderId}</div>
+        </div>
+        <Badge variant="warning">Simulator</Badge>
+      </div>
+
+      <div>
+        <div className="text-sm text-muted-foreground">Total</div>
+        <div className="text-2xl font-bold">
+          {new Intl.NumberFormat("id-ID", {
+            style: "currency",
+            currency: "IDR",
+            minimumFractionDigits: 0,
+          }).format(grossAmount)}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Button
+          className="gap-2"
+          disabled={pendingAction !== null}
+          onClick={() => handleAction("pay")}
+        >
+          <CheckCircle2 className="h-4 w-4" />
+          Bayar
+        </Button>
+        <Button
+          variant="destructive"
+          className="gap-2"
+          disabled={pendingAction !== null}
+          onClick={() => handleAction("fail")}
+        >
+          <XCircle className="h-4 w-4" />
+          Gagal
+        </Button>
+        <Button
+          variant="outline"
+          className="gap-2"
+          disabled={pendingAction !== null}
+          onClick={() => handleAction("expire")}
+        >
+          <Clock className="h-4 w-4" />
+          Kedaluwarsa
+        </Button>
+      </div>
+    </Card>
+  );
+}
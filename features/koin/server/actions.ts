@@ -1,4 +1,11 @@
 import { createClient } from "@/server/db/client";
+import { getPaymentGateway } from "@/server/services/payment-gateway";
+import { centsToKoin, getWalletBalance, koinToCents } from "@/server/services/wallet";
+import {
+  ingestMidtransNotification,
+  verifyMidtransSignature,
+  type MidtransNotification,
+} from "@/server/services/payment-webhooks";
 
 /**
  * WALLET/KOIN SERVER ACTIONS - ROOMAH MVP
@@ -14,7 +21,7 @@ export const KOIN_PACKAGES = [
     id: "PACKAGE_5",
     koin: 5,
     amount: 25000, // IDR
-    amountIdr: 250, // In ledger (cents)
+    amountCents: koinToCents(5), // In ledger
     label: "5 Koin",
     priceLabel: "Rp 25.000",
   },
@@ -22,7 +29,7 @@ export const KOIN_PACKAGES = [
     id: "PACKAGE_10",
     koin: 10,
     amount: 50000,
-    amountIdr: 500,
+    amountCents: koinToCents(10),
     label: "10 Koin",
     priceLabel: "Rp 50.000",
   },
@@ -30,7 +37,7 @@ export const KOIN_PACKAGES = [
     id: "PACKAGE_100",
     koin: 100,
     amount: 100000,
-    amountIdr: 1000,
+    amountCents: koinToCents(100),
     label: "100 Koin",
     priceLabel: "Rp 100.000",
     popular: true,
@@ -42,45 +49,30 @@ export const KOIN_PACKAGES = [
 // ============================================================================
 
 /**
- * Get user koin balance from wallet_balances_v
+ * Get user koin balance (ledger, via the wallet service)
  */
 export async function getKoinBalance(userId: string) {
   const supabase = await createClient();
 
-  const { data, error } = await supabase
-    .from("wallet_balances_v")
-    .select("*")
-    .eq("user_id", userId)
-    .single();
-
-  if (error) {
-    // If no balance record, return 0
-    if (error.code === "PGRST116") {
-      return {
-        success: true,
-        data: {
-          user_id: userId,
-          balance: 0,
-          koin: 0,
-        },
-        error: null,
-      };
-    }
-    return { success: false, error: error.message, data: null };
+  const result = await getWalletBalance(supabase, userId);
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error, data: null };
   }
 
   return {
     success: true,
     data: {
-      ...data,
-      koin: Math.floor(data.balance / 100), // Convert to koin (1 koin = 100 balance)
+      user_id: userId,
+      balance: result.data.balanceCents,
+      available: result.data.availableCents,
+      koin: result.data.koin,
     },
     error: null,
   };
 }
 
 // ============================================================================
-// INITIATE TOP-UP (MIDTRANS SANDBOX)
+// INITIATE TOP-UP (MIDTRANS SANDBOX / SIMULATOR)
 // ============================================================================
 
 /**
@@ -123,7 +115,7 @@ export async function initiateTopup(userId: string, packageId: string) {
       .insert({
         order_id: orderId,
         user_id: userId,
-        amount_cents: selectedPackage.koin * 100, // Store in balance units (cents)
+        amount_cents: selectedPackage.amountCents,
         status: "PENDING",
         payment_type: null,
       });
@@ -133,58 +125,34 @@ export async function initiateTopup(userId: string, packageId: string) {
       throw new Error("Gagal membuat transaksi: " + txError.message);
     }
 
-    // Call Midtrans Snap API (Sandbox)
-    const midtransServerKey = process.env.MIDTRANS_SERVER_KEY || "";
-    const midtransApiUrl =
-      process.env.MIDTRANS_API_URL || "https://app.sandbox.midtrans.com/snap/v1";
-
-    const authString = Buffer.from(midtransServerKey + ":").toString("base64");
-
-    const snapPayload = {
-      transaction_details: {
-        order_id: orderId,
-        gross_amount: selectedPackage.amount,
-      },
-      customer_details: {
-        first_name: profile.full_name || "User",
+    // Create Snap transaction (Midtrans Sandbox, or the local simulator)
+    const gateway = getPaymentGateway();
+    const snapTransaction = await gateway.createTransaction({
+      orderId,
+      grossAmount: selectedPackage.amount,
+      customer: {
+        firstName: profile.full_name || "User",
         email: profile.email || "user@roomah.com",
       },
-      item_details: [
-        {
-          id: packageId,
-          price: selectedPackage.amount,
-          quantity: 1,
-          name: `${selectedPackage.label} - Roomah`,
-        },
-      ],
+      item: {
+        id: packageId,
+        price: selectedPackage.amount,
+        name: `${selectedPackage.label} - Roomah`,
+      },
       callbacks: {
         finish: `${process.env.NEXT_PUBLIC_APP_URL}/koin-saya?status=success`,
         error: `${process.env.NEXT_PUBLIC_APP_URL}/koin-saya?status=error`,
         pending: `${process.env.NEXT_PUBLIC_APP_URL}/koin-saya?status=pending`,
       },
-    };
-
-    const response = await fetch(`${midtransApiUrl}/transactions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${authString}`,
-      },
-      body: JSON.stringify(snapPayload),
     });
 
-    if (!response.ok) {
-      throw new Error("Gagal membuat transaksi Midtrans");
-    }
-
-    const snapResponse = await response.json();
-
     return {
       success: true,
       data: {
-        snapToken: snapResponse.token,
+        snapToken: snapTransaction.token,
         orderId,
-        redirectUrl: snapResponse.redirect_url,
+        redirectUrl: snapTransaction.redirectUrl,
+        provider: gateway.name,
       },
       error: null,
     };
@@ -203,125 +171,35 @@ export async function initiateTopup(userId: string, packageId: string) {
 
 /**
  * Handle Midtrans webhook callback
- * Verify signature and process payment
+ * Verify signature, then store + process via the webhook inbox
  */
-export async function handleMidtransWebhook(payload: any) {
-  const supabase = await createClient();
-
-  try {
-    // 1. Verify signature
-    const serverKey = process.env.MIDTRANS_SERVER_KEY || "";
-    const orderId = payload.order_id;
-    const statusCode = payload.status_code;
-    const grossAmount = payload.gross_amount;
-
-    const signatureKey = payload.signature_key;
-    const crypto = require("crypto");
-    const hash = crypto
-      .createHash("sha512")
-      .update(orderId + statusCode + grossAmount + serverKey)
-      .digest("hex");
-
-    if (hash !== signatureKey) {
-      return {
-        success: false,
-        error: "Invalid signature",
-        data: null,
-      };
-    }
-
-    // 2. Get transaction from actual table
-    const { data: transaction, error: txError } = await supabase
-      .from("koin_topup_orders")
-      .select("*")
-      .eq("order_id", orderId)
-      .single();
-
-    if (txError || !transaction) {
-      return {
-        success: false,
-        error: "Transaksi tidak ditemukan",
-        data: null,
-      };
-    }
-
-    // 3. Process based on status
-    const transactionStatus = payload.transaction_status;
-    const fraudStatus = payload.fraud_status;
-
-    let finalStatus = "PENDING";
-    let shouldCredit = false;
-
-    if (transactionStatus === "capture") {
-      if (fraudStatus === "accept") {
-        finalStatus = "SUCCESS";
-        shouldCredit = true;
-      }
-    } else if (transactionStatus === "settlement") {
-      finalStatus = "SUCCESS";
-      shouldCredit = true;
-    } else if (
-      transactionStatus === "cancel" ||
-      transactionStatus === "deny" ||
-      transactionStatus === "expire"
-    ) {
-      finalStatus = "FAILED";
-    } else if (transactionStatus === "pending") {
-      finalStatus = "PENDING";
-    }
-
-    // 4. Update transaction status in actual table
-    await supabase
-      .from("koin_topup_orders")
-      .update({
-        status: finalStatus,
-        payment_type: payload.payment_type || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("order_id", orderId);
-
-    // 5. Credit koin if success (idempotency check)
-    if (shouldCredit) {
-      // Check if already credited using actual table
-      const { data: existingCredit } = await supabase
-        .from("wallet_transactions")
-        .select("id")
-        .eq("reason", "TOPUP")
-        .eq("description", `Top-up koin - Order ${orderId}`)
-        .single();
-
-      if (!existingCredit) {
-        // Credit to ledger using actual table
-        await supabase.from("wallet_transactions").insert({
-          user_id: transaction.user_id,
-          type: "CREDIT",
-          amount_cents: transaction.amount_cents,
-          reason: "TOPUP",
-          description: `Top-up koin - Order ${orderId}`,
-          metadata: {
-            order_id: orderId,
-            payment_type: payload.payment_type,
-          },
-          created_at: new Date().toISOString(),
-        });
-      }
-    }
-
+export async function handleMidtransWebhook(payload: MidtransNotification) {
+  if (!verifyMidtransSignature(payload)) {
     return {
-      success: true,
-      data: {
-        orderId,
-        status: finalStatus,
-      },
-      error: null,
+      success: false,
+      error: "Invalid signature",
+      data: null,
     };
-  } catch (error: any) {
+  }
+
+  const result = await ingestMidtransNotification(payload);
+
+  if (!result.success) {
     return {
       success: false,
-      error: error.message || "Gagal memproses webhook",
+      error: result.error || "Gagal memproses webhook",
       data: null,
     };
   }
+
+  return {
+    success: true,
+    data: {
+      orderId: result.data.order_id,
+      status: result.data.order_status,
+    },
+    error: null,
+  };
 }
 
 // ============================================================================
@@ -367,7 +245,7 @@ export async function getTransactionHistory(
     success: true,
     data: data.map((entry) => ({
       ...entry,
-      koin: Math.floor(entry.amount / 100),
+      koin: centsToKoin(entry.amount),
     })),
     pagination: {
       limit,
@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUnreadNotificationCount } from "../hooks/use-notifications";
+import { NOTIFICATIONS_PATH } from "../lib/links";
+
+export function formatUnreadCount(count: number) {
+  return count > 99 ? "99+" : String(count);
+}
+
+export function UnreadBadge({ count }: { count: number }) {
+  if (count <= 0) return null;
+
+  return (
+    <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-[18px] text-center">
+      {formatUnreadCount(count)}
+    </span>
+  );
+}
+
+export function NotificationBell() {
+  const pathname = usePathname();
+  const unreadCount = useUnreadNotificationCount();
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      asChild
+      className={pathname === NOTIFICATIONS_PATH ? "text-primary" : "text-muted-foreground hover:text-primary"}
+    >
+      <Link href={NOTIFICATIONS_PATH} className="relative">
+        <Bell className="h-5 w-5" />
+        <UnreadBadge count={unreadCount} />
+        <span className="sr-only">
+          Notifikasi{unreadCount > 0 ? ` (${unreadCount} belum dibaca)` : ""}
+        </span>
+      </Link>
+    </Button>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { id as localeId } from "date-fns/locale";
+import { Bell, CheckCheck } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/lib/toast";
+import { useNotifications } from "../hooks/use-notifications";
+import { getNotificationHref, NOTIFICATIONS_PATH } from "../lib/links";
+import type { Notification } from "@/types/database.types";
+
+export function NotificationList() {
+  const router = useRouter();
+  const [page, setPage] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const { data, error, isLoading, isUpdating, markAsRead, markAllAsRead } =
+    useNotifications(page, unreadOnly);
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+  const totalPages = data?.pagination.totalPages ?? 1;
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.is_read) {
+      await markAsRead([notification.id]);
+    }
+
+    const href = getNotificationHref(notification);
+    if (href !== NOTIFICATIONS_PATH) {
+      router.push(href);
+    }
+  };
+
+  const handleMarkAll = async () => {
+    const ok = await markAllAsRead();
+    if (ok) {
+      toast.success("Semua notifikasi ditandai sudah dibaca");
+    } else {
+      toast.error("Gagal memperbarui notifikasi");
+    }
+  };
+
+  const toggleFilter = (value: boolean) => {
+    setUnreadOnly(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          <Button
+            variant={unreadOnly ? "outline" : "primary"}
+            size="sm"
+            onClick={() => toggleFilter(false)}
+          >
+            Semua
+          </Button>
+          <Button
+            variant={unreadOnly ? "primary" : "outline"}
+            size="sm"
+            onClick={() => toggleFilter(true)}
+          >
+            Belum Dibaca{unreadCount > 0 ? ` (${unreadCount})` : ""}
+          </Button>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleMarkAll}
+          disabled={isUpdating || unreadCount === 0}
+          className="gap-2"
+        >
+          <CheckCheck className="h-4 w-4" />
+          Tandai Semua Dibaca
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Card className="p-6">
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="space-y-2 p-4 border border-input rounded-md">
+                <div className="h-4 bg-muted rounded w-48"></div>
+                <div className="h-3 bg-muted rounded w-72"></div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      ) : error ? (
+        <Card className="p-8 text-center text-destructive">
+          Gagal memuat notifikasi
+        </Card>
+      ) : notifications.length === 0 ? (
+        <Card className="p-8 text-center">
+          <div className="text-muted-foreground">
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Bell className="w-8 h-8" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">
+              {unreadOnly ? "Semua Sudah Dibaca" : "Belum Ada Notifikasi"}
+            </h3>
+            <p>Kabar terbaru tentang proses Taaruf Anda akan muncul di sini</p>
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {notifications.map((notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={() => handleOpen(notification)}
+              className={`w-full text-left rounded-md border p-4 transition-colors hover:bg-muted/50 ${
+                notification.is_read
+                  ? "border-input bg-card"
+                  : "border-primary/30 bg-primary/5"
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                    notification.is_read ? "bg-transparent" : "bg-primary"
+                  }`}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm ${notification.is_read ? "font-medium" : "font-semibold"} text-foreground`}>
+                    {notification.title}
+                  </p>
+                  {notification.message && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {notification.message}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {formatDistanceToNow(new Date(notification.created_at), {
+                      addSuffix: true,
+                      locale: localeId,
+                    })}
+                  </p>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Halaman {page} dari {totalPages}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+            >
+              Sebelumnya
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+            >
+              Selanjutnya
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { Mail, MessageCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/lib/toast";
+import { useNotificationPreferences } from "../hooks/use-notification-preferences";
+
+const CHANNELS = [
+  {
+    key: "emailEnabled",
+    field: "email_enabled",
+    label: "Email",
+    description: "Kirim salinan notifikasi ke email akun Anda",
+    icon: Mail,
+  },
+  {
+    key: "whatsappEnabled",
+    field: "whatsapp_enabled",
+    label: "WhatsApp",
+    description: "Kirim notifikasi ke nomor WhatsApp di profil Anda",
+    icon: MessageCircle,
+  },
+] as const;
+
+export function NotificationPreferencesCard() {
+  const { preferences, isLoading, isSaving, updatePreferences } = useNotificationPreferences();
+
+  const handleChange = async (key: (typeof CHANNELS)[number]["key"], value: boolean) => {
+    const ok = await updatePreferences({ [key]: value });
+    if (ok) {
+      toast.success("Pengaturan notifikasi disimpan");
+    } else {
+      toast.error("Gagal menyimpan pengaturan notifikasi");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold text-foreground mb-1">
+        Notifikasi di Luar Aplikasi
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Agar tidak terlewat pengajuan Taaruf dan jadwal pertemuan saat Anda tidak membuka Roomah
+      </p>
+
+      <div className="space-y-4">
+        {CHANNELS.map((channel) => {
+          const Icon = channel.icon;
+          const id = `notif-${channel.key}`;
+
+          return (
+            <div key={channel.key} className="flex items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <Icon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                <div>
+                  <Label htmlFor={id}>{channel.label}</Label>
+                  <p className="text-sm text-muted-foreground">{channel.description}</p>
+                </div>
+              </div>
+              <Switch
+                id={id}
+                checked={preferences?.[channel.field] ?? true}
+                disabled={isLoading || isSaving}
+                onCheckedChange={(value) => handleChange(channel.key, value)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSWRConfig } from "swr";
+import { createClient } from "@/lib/supabase/client";
+import { toast } from "@/lib/toast";
+import { isNotificationsKey } from "../hooks/use-notifications";
+import type { Notification } from "@/types/database.types";
+
+/**
+ * Subscribes once per app shell to new notifications of the signed-in
+ * user (Supabase realtime, RLS-filtered), shows a toast and refreshes the
+ * inbox and bell badges. Renders nothing.
+ */
+export function NotificationRealtime() {
+  const { mutate } = useSWRConfig();
+
+  useEffect(() => {
+    const supabase = createClient();
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let cancelled = false;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return;
+
+      channel = supabase
+        .channel(`notifications:${user.id}`)
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "notifications",
+            filter: `user_id=eq.${user.id}`,
+          },
+          (payload) => {
+            const notification = payload.new as Notification;
+            toast.info(notification.title);
+            mutate(isNotificationsKey);
+          }
+        )
+        .subscribe();
+    });
+
+    return () => {
+      cancelled = true;
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [mutate]);
+
+  return null;
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type { NotificationPreferences } from "@/types/database.types";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed to fetch");
+    return r.json();
+  });
+
+export type NotificationChannelPreferences = Pick<
+  NotificationPreferences,
+  "email_enabled" | "whatsapp_enabled"
+>;
+
+const PREFERENCES_API = "/api/notifications/preferences";
+
+/**
+ * Email / WhatsApp switches for outbound notifications
+ */
+export function useNotificationPreferences() {
+  const [isSaving, setIsSaving] = useState(false);
+  const { data, error, isLoading, mutate } = useSWR<{ data: NotificationChannelPreferences }>(
+    PREFERENCES_API,
+    fetcher
+  );
+
+  const updatePreferences = async (changes: { emailEnabled?: boolean; whatsappEnabled?: boolean }) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(PREFERENCES_API, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+        credentials: "include",
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to update");
+
+      await mutate({ data: json.data }, { revalidate: false });
+      return true;
+    } catch (err) {
+      console.error("Error updating notification preferences:", err);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    preferences: data?.data,
+    error,
+    isLoading,
+    isSaving,
+    updatePreferences,
+  };
+}
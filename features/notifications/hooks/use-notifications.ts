@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import useSWR, { useSWRConfig } from "swr";
+import type { Notification } from "@/types/database.types";
+
+const fetcher = (url: string) =>
+  fetch(url, { credentials: "include" }).then((r) => {
+    if (!r.ok) throw new Error("Failed to fetch");
+    return r.json();
+  });
+
+export const NOTIFICATIONS_API = "/api/notifications";
+
+export interface NotificationPage {
+  notifications: Notification[];
+  unreadCount: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/** Matches every cached /api/notifications request (list pages + badge) */
+export const isNotificationsKey = (key: unknown) =>
+  typeof key === "string" && key.startsWith(NOTIFICATIONS_API);
+
+/**
+ * Unread count for the bell badge (kept fresh by NotificationRealtime)
+ */
+export function useUnreadNotificationCount() {
+  const { data } = useSWR<NotificationPage>(`${NOTIFICATIONS_API}?limit=1`, fetcher);
+  return data?.unreadCount ?? 0;
+}
+
+/**
+ * Notification inbox with mark-read / mark-all-read
+ */
+export function useNotifications(page = 1, unreadOnly = false) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { mutate: mutateGlobal } = useSWRConfig();
+
+  const params = new URLSearchParams({ page: String(page) });
+  if (unreadOnly) params.set("unread", "1");
+
+  const { data, error, isLoading, mutate } = useSWR<NotificationPage>(
+    `${NOTIFICATIONS_API}?${params.toString()}`,
+    fetcher
+  );
+
+  const markRead = async (body: { ids: number[] } | { all: true }) => {
+    setIsUpdating(true);
+    try {
+      const res = await fetch(NOTIFICATIONS_API, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to update");
+      return true;
+    } catch (err) {
+      console.error("Error marking notifications read:", err);
+      return false;
+    } finally {
+      setIsUpdating(false);
+      // Refresh this page and the bell badge
+      await mutateGlobal(isNotificationsKey);
+    }
+  };
+
+  return {
+    data,
+    error,
+    isLoading,
+    isUpdating,
+    mutate,
+    markAsRead: (ids: number[]) => markRead({ ids }),
+    markAllAsRead: () => markRead({ all: true }),
+  };
+}
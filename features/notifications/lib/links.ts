@@ -0,0 +1,56 @@
+/**
+ * Notification Links
+ * Where a notification leads when it's clicked, per notification type.
+ * Unknown types stay on the notifications page.
+ */
+
+import type { Notification } from "@/types/database.types";
+
+export const NOTIFICATIONS_PATH = "/notifikasi";
+
+const NOTIFICATION_LINKS: Record<string, string> = {
+  TAARUF_REQUEST_RECEIVED: "/riwayat-taaruf",
+  TAARUF_REQUEST_REJECTED: "/cari-jodoh",
+  TAARUF_REQUEST_EXPIRED: "/riwayat-taaruf",
+  TAARUF_STAGE_UPDATED: "/riwayat-taaruf",
+  TAARUF_ENDED: "/riwayat-taaruf",
+  ZOOM_SCHEDULED: "/riwayat-taaruf",
+  MEETING_RESCHEDULED: "/riwayat-taaruf",
+  MEETING_CANCELLED: "/riwayat-taaruf",
+  GUARDIAN_INVITED: "/riwayat-taaruf",
+  TAARUF_QUESTION_RECEIVED: "/riwayat-taaruf",
+  TAARUF_ANSWER_RECEIVED: "/riwayat-taaruf",
+  TAARUF_QA_REJECTED: "/riwayat-taaruf",
+  CV_APPROVED: "/cv-saya",
+  CV_REVISION: "/cv-saya",
+  SAVED_SEARCH_MATCHES: "/cari-jodoh",
+  SOCIAL_POST_SCHEDULED: "/cv-saya",
+  SOCIAL_POST_PUBLISHED: "/cv-saya",
+  SOCIAL_POST_REJECTED: "/cv-saya",
+};
+
+/**
+ * Same-site path only. Resolving against a placeholder origin applies the
+ * browser's URL rules, so "//host", "/\host" and "/\t/host" (which
+ * router.push would follow off the site) all come out as another origin.
+ */
+function isInternalPath(href: string) {
+  if (!href.startsWith("/")) return false;
+  try {
+    const base = "https://roomah.invalid";
+    return new URL(href, base).origin === base;
+  } catch {
+    return false;
+  }
+}
+
+export function getNotificationHref(notification: Pick<Notification, "type" | "data">): string {
+  const data = notification.data as Record<string, unknown> | null;
+
+  // Explicit link stored with the notification wins
+  if (data && typeof data.href === "string" && isInternalPath(data.href)) {
+    return data.href;
+  }
+
+  return NOTIFICATION_LINKS[notification.type] || NOTIFICATIONS_PATH;
+}
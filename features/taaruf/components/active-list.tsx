@@ -2,12 +2,29 @@
 import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Heart, User, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar, Heart, HeartOff, User, Clock } from "lucide-react";
 import { ActiveItem } from "../types";
+import { useTaarufActions } from "../hooks/use-taaruf";
+import { EndTaarufModal } from "./end-taaruf-modal";
+import type { TaarufEndReason } from "../lib/end-reasons";
+import type { ParticipantMeeting } from "../lib/meetings";
+import { UpcomingMeetings } from "./upcoming-meetings";
+
+interface ActiveSession {
+  id: number;
+  taaruf_code: string;
+  started_at: string;
+  partner_id: string;
+  partner_code: string | null;
+  meetings?: ParticipantMeeting[];
+}
 
 export function ActiveList() {
   const [activeItems, setActiveItems] = useState<ActiveItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [endingItem, setEndingItem] = useState<ActiveItem | null>(null);
+  const { endTaaruf, isLoading: actionLoading } = useTaarufActions();
 
   useEffect(() => {
     fetchActiveItems();
@@ -18,7 +35,17 @@ export function ActiveList() {
       const res = await fetch("/api/taaruf/active", { cache: "no-store" });
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || "Failed to load");
-      setActiveItems(json.items ?? []);
+      setActiveItems(
+        (json.data ?? []).map((session: ActiveSession) => ({
+          id: String(session.id),
+          kodeTaaruf: session.taaruf_code,
+          kodeKandidat: session.partner_code || "-",
+          waktuMulai: session.started_at,
+          status: "active",
+          candidateId: session.partner_id,
+          meetings: session.meetings || [],
+        }))
+      );
     } catch (err) {
       console.error("Error fetching active items:", err);
     } finally {
@@ -26,6 +53,16 @@ export function ActiveList() {
     }
   }
 
+  async function handleEndConfirm(reason: TaarufEndReason, note?: string) {
+    if (!endingItem) return;
+
+    const result = await endTaaruf(endingItem.id, reason, note);
+    if (result.success) {
+      setEndingItem(null);
+      fetchActiveItems();
+    }
+  }
+
   const formatDate = (dateString: string) =>
     new Date(dateString).toLocaleString("id-ID", {
       weekday: "long",
@@ -139,13 +176,36 @@ export function ActiveList() {
               </div>
             </div>
 
+            <UpcomingMeetings meetings={item.meetings} />
+
             <div className="bg-muted/50 rounded-md p-3 text-sm text-muted-foreground">
               🎉 Selamat! Taaruf Anda telah dimulai. Silakan lanjutkan
               komunikasi melalui admin.
             </div>
+
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 text-destructive hover:text-destructive"
+                onClick={() => setEndingItem(item)}
+                disabled={actionLoading}
+              >
+                <HeartOff className="h-4 w-4" />
+                Akhiri Taaruf
+              </Button>
+            </div>
           </div>
         </Card>
       ))}
+
+      <EndTaarufModal
+        open={!!endingItem}
+        taarufCode={endingItem?.kodeTaaruf || ""}
+        onConfirm={handleEndConfirm}
+        onCancel={() => setEndingItem(null)}
+        isLoading={actionLoading}
+      />
     </div>
   );
 }
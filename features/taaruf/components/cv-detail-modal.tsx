@@ -19,6 +19,7 @@ import {
   ChevronDown,
 } from "lucide-react";
 import { loadCvDataByUserId } from "@/server/actions/cv-details";
+import { CandidateAvatar } from "@/components/common/candidate-avatar";
 import { toast } from "sonner";
 
 interface CvDetailModalProps {
@@ -138,23 +139,41 @@ export function CvDetailModal({
           <div className="space-y-4 sm:space-y-6 px-0 sm:px-2 pb-6">
             {/* Header Info */}
             <Card className="p-3 sm:p-4 bg-primary/5 border-primary/20">
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-                <div>
-                  <label className="text-xs font-medium text-muted-foreground uppercase">
-                    Nama Lengkap
-                  </label>
-                  <div className="text-base sm:text-lg font-semibold mt-1">
-                    {cvData.biodata?.namaLengkap || "-"}
+              <div className="flex flex-col sm:flex-row items-center sm:items-start gap-3 sm:gap-4">
+                {/* Loader only sets the avatar the candidate's photo policy allows */}
+                <div className="flex flex-col items-center gap-1 shrink-0">
+                  <div className="w-20 h-20 sm:w-24 sm:h-24 rounded-full bg-muted flex items-center justify-center overflow-hidden ring-2 ring-primary/10">
+                    <CandidateAvatar
+                      src={cvData.biodata?.avatar}
+                      alt={cvData.kodeKandidat || "Kandidat"}
+                      className="w-full h-full object-cover"
+                      iconClassName="h-10 w-10 text-muted-foreground"
+                    />
                   </div>
+                  {cvData.biodata?.avatarBlurred && (
+                    <p className="text-[11px] text-muted-foreground text-center max-w-[8rem]">
+                      Foto asli terbuka setelah taaruf diterima
+                    </p>
+                  )}
                 </div>
-                <div>
-                  <label className="text-xs font-medium text-muted-foreground uppercase">
-                    Kode Kandidat
-                  </label>
-                  <div className="mt-1">
-                    <Badge variant="success" className="text-xs sm:text-sm">
-                      {cvData.kodeKandidat || "Belum ada"}
-                    </Badge>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 flex-1 w-full">
+                  <div>
+                    <label className="text-xs font-medium text-muted-foreground uppercase">
+                      Nama Lengkap
+                    </label>
+                    <div className="text-base sm:text-lg font-semibold mt-1">
+                      {cvData.biodata?.namaLengkap || "-"}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-muted-foreground uppercase">
+                      Kode Kandidat
+                    </label>
+                    <div className="mt-1">
+                      <Badge variant="success" className="text-xs sm:text-sm">
+                        {cvData.kodeKandidat || "Belum ada"}
+                      </Badge>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { HeartOff } from "lucide-react";
+import {
+  TAARUF_END_REASONS,
+  TAARUF_END_REASON_CODES,
+  requiresEndNote,
+  type TaarufEndReason,
+} from "../lib/end-reasons";
+
+interface EndTaarufModalProps {
+  open: boolean;
+  taarufCode: string;
+  onConfirm: (reason: TaarufEndReason, note?: string) => Promise<void> | void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+export function EndTaarufModal({
+  open,
+  taarufCode,
+  onConfirm,
+  onCancel,
+  isLoading = false,
+}: EndTaarufModalProps) {
+  const [reason, setReason] = useState<TaarufEndReason | "">("");
+  const [note, setNote] = useState("");
+
+  const noteRequired = reason !== "" && requiresEndNote(reason);
+  const canSubmit = reason !== "" && (!noteRequired || note.trim().length > 0);
+
+  const reset = () => {
+    setReason("");
+    setNote("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    await onConfirm(reason as TaarufEndReason, note.trim() || undefined);
+    reset();
+  };
+
+  const handleCancel = () => {
+    reset();
+    onCancel();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleCancel}>
+      <DialogContent className="max-w-md p-6">
+        <DialogHeader className="mb-4">
+          <DialogTitle className="flex items-center gap-2">
+            <HeartOff className="h-5 w-5 text-destructive" />
+            Akhiri Taaruf {taarufCode}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 px-1">
+          <p className="text-sm text-muted-foreground">
+            Proses taaruf akan dihentikan dan tidak bisa dilanjutkan kembali. Pasangan
+            taaruf dan admin akan menerima pemberitahuan, dan CV Anda akan kembali
+            tampil di pencarian.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="end_reason">
+              Alasan <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              id="end_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as TaarufEndReason)}
+              disabled={isLoading}
+              required
+            >
+              <option value="" disabled>
+                Pilih alasan...
+              </option>
+              {TAARUF_END_REASON_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {TAARUF_END_REASONS[code]}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="end_note">
+              Keterangan {noteRequired ? <span className="text-destructive">*</span> : "(Opsional)"}
+            </Label>
+            <Textarea
+              id="end_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Keterangan tambahan untuk admin..."
+              maxLength={500}
+              rows={3}
+              disabled={isLoading}
+              required={noteRequired}
+            />
+            <p className="text-xs text-muted-foreground">
+              Keterangan hanya dapat dibaca oleh admin, tidak oleh pasangan taaruf
+            </p>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={handleCancel} disabled={isLoading}>
+              Batal
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isLoading || !canSubmit}>
+              {isLoading ? "Memproses..." : "Ya, Akhiri Taaruf"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { Mail, Pencil, Phone, Send, ShieldCheck, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { useGuardian, type GuardianFormValues } from "../hooks/use-taaruf";
+import { GUARDIAN_RELATIONS, GUARDIAN_RELATION_LABELS } from "../lib/guardians";
+import type { TaarufGuardian } from "@/types/database.types";
+
+interface GuardianCardProps {
+  /** Inviting needs an active session to link to */
+  hasActiveSession: boolean;
+}
+
+const EMPTY_FORM: GuardianFormValues = { name: "", relation: "AYAH", email: "", phone: "" };
+
+function toForm(guardian: TaarufGuardian | null): GuardianFormValues {
+  if (!guardian) return EMPTY_FORM;
+  return {
+    name: guardian.name,
+    relation: guardian.relation,
+    email: guardian.email || "",
+    phone: guardian.phone || "",
+  };
+}
+
+/**
+ * Wali contact of an akhwat: registered once, CC'd on meeting schedules
+ * and sent a read-only link to the active taaruf. Renders nothing for
+ * ikhwan.
+ */
+export function GuardianCard({ hasActiveSession }: GuardianCardProps) {
+  const { eligible, guardian, isLoading, isSaving, saveGuardian, removeGuardian, inviteGuardian } =
+    useGuardian();
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<GuardianFormValues>(EMPTY_FORM);
+
+  if (isLoading || !eligible) return null;
+
+  const startEditing = () => {
+    setForm(toForm(guardian));
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveGuardian(form)) setEditing(false);
+  };
+
+  return (
+    <Card className="p-5 sm:p-6 mx-2 sm:mx-4 space-y-4">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="h-5 w-5 mt-0.5 text-primary shrink-0" />
+        <div>
+          <h3 className="font-semibold text-foreground">Wali Taaruf</h3>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Wali Anda menerima salinan jadwal pertemuan dan tautan untuk membaca CV serta
+            mengonfirmasi kehadiran, tanpa perlu membuat akun.
+          </p>
+        </div>
+      </div>
+
+      {editing || !guardian ? (
+        editing ? (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="guardian-name">Nama Wali</Label>
+                <Input
+                  id="guardian-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-relation">Hubungan</Label>
+                <Select
+                  id="guardian-relation"
+                  value={form.relation}
+                  onChange={(e) =>
+                    setForm({ ...form, relation: e.target.value as GuardianFormValues["relation"] })
+                  }
+                >
+                  {GUARDIAN_RELATIONS.map((relation) => (
+                    <option key={relation} value={relation}>
+                      {GUARDIAN_RELATION_LABELS[relation]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-email">Email</Label>
+                <Input
+                  id="guardian-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  placeholder="wali@email.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-phone">Nomor WhatsApp</Label>
+                <Input
+                  id="guardian-phone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  placeholder="08xxxxxxxxxx"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Isi minimal salah satu dari email atau nomor WhatsApp. Mengganti kontak menonaktifkan
+              tautan yang sudah terkirim.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditing(false)}>
+                Batal
+              </Button>
+              <Button type="submit" size="sm" disabled={isSaving}>
+                {isSaving ? "Menyimpan..." : "Simpan"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" size="sm" onClick={startEditing}>
+            Daftarkan Wali
+          </Button>
+        )
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm space-y-1">
+            <p className="font-medium">
+              {guardian.name}{" "}
+              <span className="text-muted-foreground font-normal">
+                ({GUARDIAN_RELATION_LABELS[guardian.relation]})
+              </span>
+            </p>
+            {guardian.email && (
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Mail className="h-3 w-3" />
+                {guardian.email}
+              </p>
+            )}
+            {guardian.phone && (
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Phone className="h-3 w-3" />
+                {guardian.phone}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              className="gap-1"
+              onClick={inviteGuardian}
+              disabled={isSaving || !hasActiveSession}
+              title={hasActiveSession ? undefined : "Tersedia saat taaruf sedang berjalan"}
+            >
+              <Send className="h-3 w-3" />
+              Kirim Tautan ke Wali
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={startEditing} disabled={isSaving}>
+              <Pencil className="h-3 w-3" />
+              Ubah
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1 text-destructive hover:text-destructive"
+              onClick={removeGuardian}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-3 w-3" />
+              Hapus
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Calendar, CheckCircle, Link as LinkIcon, ShieldCheck, Video } from "lucide-react";
+import { format } from "date-fns";
+import { id as idLocale } from "date-fns/locale";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/lib/toast";
+import { CvBiodataFields } from "@/features/cv/components/cv-preview";
+import { MEETING_STATUS_LABELS, type ParticipantMeeting } from "../lib/meetings";
+import { GUARDIAN_RELATION_LABELS } from "../lib/guardians";
+import type { CvData } from "@/features/cv/types";
+import type { GuardianSessionView } from "@/server/services/taaruf-guardians";
+
+interface GuardianSessionProps {
+  token: string;
+  view: GuardianSessionView;
+}
+
+function Row({ label, value }: { label: string; value?: string | null }) {
+  if (!value) return null;
+  return (
+    <div className="text-sm">
+      <span className="text-muted-foreground">{label}:</span> <span>{value}</span>
+    </div>
+  );
+}
+
+function GuardianCv({ title, cv }: { title: string; cv: CvData | null }) {
+  return (
+    <Card className="p-5 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-foreground">{title}</h3>
+        {cv?.kodeKandidat && <Badge variant="success">{cv.kodeKandidat}</Badge>}
+      </div>
+
+      {cv ? (
+        <>
+          <p className="text-lg font-semibold">{cv.biodata.namaLengkap || "-"}</p>
+          <CvBiodataFields biodata={cv.biodata} />
+
+          <div className="pt-4 border-t border-input space-y-1">
+            <h4 className="text-sm font-medium mb-2">Kondisi Ibadah</h4>
+            <Row label="Shalat Fardu" value={cv.kondisiIbadah.shalatFardu} />
+            <Row label="Bacaan Quran" value={cv.kondisiIbadah.bacaanQuran} />
+            <Row label="Hafalan Quran" value={cv.kondisiIbadah.hafalanQuran} />
+            <Row label="Puasa" value={cv.kondisiIbadah.puasa} />
+            <Row label="Kajian" value={cv.kondisiIbadah.kajian} />
+          </div>
+
+          <div className="pt-4 border-t border-input space-y-1">
+            <h4 className="text-sm font-medium mb-2">Rencana Pernikahan</h4>
+            <Row label="Tahun Nikah" value={cv.rencanaPernikahan.tahunNikah} />
+            <Row label="Tempat Tinggal" value={cv.rencanaPernikahan.tempatTinggal} />
+            <Row label="Visi" value={cv.rencanaPernikahan.visi} />
+            <Row label="Misi" value={cv.rencanaPernikahan.misi} />
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">CV tidak tersedia</p>
+      )}
+    </Card>
+  );
+}
+
+function GuardianMeeting({ token, meeting }: { token: string; meeting: ParticipantMeeting }) {
+  const router = useRouter();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const upcoming = meeting.status === "SCHEDULED" && new Date(meeting.ends_at).getTime() > Date.now();
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    try {
+      const res = await fetch(`/api/wali/${encodeURIComponent(token)}/meetings/${meeting.id}/confirm`, {
+        method: "POST",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data.error || "Gagal menyimpan konfirmasi");
+        return;
+      }
+
+      toast.success("Terima kasih, kehadiran Anda telah dikonfirmasi");
+      router.refresh();
+    } catch (error) {
+      console.error("Error confirming attendance:", error);
+      toast.error("Terjadi kesalahan. Silakan coba lagi.");
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <div className={`rounded-lg p-3 space-y-2 ${upcoming ? "bg-primary/5" : "bg-muted/50"}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{meeting.stage}</span>
+        <Badge variant={upcoming ? "info" : "default"} className="text-xs">
+          {MEETING_STATUS_LABELS[meeting.status]}
+        </Badge>
+      </div>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Calendar className="h-3 w-3" />
+        <span className={meeting.status === "CANCELLED" ? "line-through" : undefined}>
+          {format(new Date(meeting.scheduled_at), "EEEE, dd MMM yyyy HH:mm", { locale: idLocale })}
+          {" - "}
+          {format(new Date(meeting.ends_at), "HH:mm", { locale: idLocale })}
+        </span>
+      </div>
+      {meeting.status === "CANCELLED" && meeting.cancel_reason && (
+        <p className="text-xs text-muted-foreground">Alasan: {meeting.cancel_reason}</p>
+      )}
+
+      {upcoming && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <a
+            href={meeting.zoom_link}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 text-sm text-primary hover:underline"
+          >
+            <LinkIcon className="h-3 w-3" />
+            <span>Link Zoom Meeting</span>
+          </a>
+          {meeting.guardian_confirmed_at ? (
+            <span className="flex items-center gap-1 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              Kehadiran dikonfirmasi
+            </span>
+          ) : (
+            <Button size="sm" onClick={handleConfirm} disabled={isConfirming}>
+              {isConfirming ? "Menyimpan..." : "Konfirmasi Kehadiran"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Read-only view of a taaruf for the akhwat's wali (magic link): both CVs
+ * and the meeting schedule, with attendance confirmation
+ */
+export function GuardianSession({ token, view }: GuardianSessionProps) {
+  const { guardian, session, wardCv, partnerCv, meetings } = view;
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-5 sm:p-6">
+        <div className="flex items-start gap-3">
+          <ShieldCheck className="h-6 w-6 text-primary shrink-0" />
+          <div className="space-y-1">
+            <h1 className="text-xl sm:text-2xl font-bold text-foreground">Taaruf {session.taarufCode}</h1>
+            <p className="text-sm text-muted-foreground">
+              Assalamu&apos;alaikum {guardian.name} ({GUARDIAN_RELATION_LABELS[guardian.relation]}). Anda
+              diundang sebagai wali untuk mengikuti proses taaruf ini.
+            </p>
+            <p className="text-sm">
+              Tahap saat ini: <span className="font-medium">{session.stage}</span>
+              {session.startedAt && (
+                <>
+                  {" "}&middot; dimulai{" "}
+                  {format(new Date(session.startedAt), "dd MMMM yyyy", { locale: idLocale })}
+                </>
+              )}
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-5 sm:p-6 space-y-3">
+        <div className="flex items-center gap-2 font-semibold">
+          <Video className="h-4 w-4 text-primary" />
+          <span>Jadwal Pertemuan</span>
+        </div>
+        {meetings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Belum ada pertemuan yang dijadwalkan</p>
+        ) : (
+          meetings.map((meeting) => <GuardianMeeting key={meeting.id} token={token} meeting={meeting} />)
+        )}
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <GuardianCv title="CV Akhwat" cv={wardCv} />
+        <GuardianCv title="CV Ikhwan" cv={partnerCv} />
+      </div>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Tautan ini bersifat pribadi dan hanya berlaku selama taaruf berlangsung. Mohon tidak dibagikan.
+      </p>
+    </div>
+  );
+}
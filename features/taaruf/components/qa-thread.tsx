@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, MessageSquareText } from "lucide-react";
+import { format } from "date-fns";
+import { id as idLocale } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useTaarufQa } from "../hooks/use-taaruf";
+import {
+  QA_MESSAGE_MAX_LENGTH,
+  QA_STATUS_LABELS,
+  describeContactDetails,
+  detectContactDetails,
+} from "../lib/qa";
+import type { QaThreadMessage } from "@/server/services/taaruf-qa";
+
+const statusVariants = {
+  PENDING: "warning",
+  APPROVED: "success",
+  REJECTED: "destructive",
+} as const;
+
+interface QaThreadProps {
+  sessionId: string | number;
+}
+
+interface MessageFormProps {
+  placeholder: string;
+  submitLabel: string;
+  disabled: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+}
+
+/**
+ * Textarea that warns about contact details before the API refuses them
+ */
+function MessageForm({ placeholder, submitLabel, disabled, onSubmit }: MessageFormProps) {
+  const [body, setBody] = useState("");
+  const contacts = detectContactDetails(body);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onSubmit(body.trim())) setBody("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={QA_MESSAGE_MAX_LENGTH}
+        rows={2}
+        className="text-sm"
+      />
+      {contacts.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-destructive">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          Pesan tidak boleh berisi {describeContactDetails(contacts)}
+        </p>
+      )}
+      <div className="flex justify-end">
+        <Button
+          type="submit"
+          size="sm"
+          disabled={disabled || !body.trim() || contacts.length > 0}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function MessageBubble({ message, mine }: { message: QaThreadMessage; mine: boolean }) {
+  return (
+    <div className={`rounded-lg p-3 space-y-1 ${mine ? "bg-primary/5" : "bg-muted/50"}`}>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {mine ? "Anda" : "Pasangan taaruf"} &middot;{" "}
+          {format(new Date(message.created_at), "dd MMM yyyy HH:mm", { locale: idLocale })}
+        </span>
+        {mine && message.status !== "APPROVED" && (
+          <Badge variant={statusVariants[message.status]} className="text-xs">
+            {QA_STATUS_LABELS[message.status]}
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+      {mine && message.status === "REJECTED" && message.reject_reason && (
+        <p className="text-xs text-destructive">Alasan: {message.reject_reason}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Moderated Q&A with the other side of a session: messages reach them only
+ * after an admin approves
+ */
+export function QaThread({ sessionId }: QaThreadProps) {
+  const { items, viewerId, canPost, isLoading, isSending, askQuestion, answerQuestion } =
+    useTaarufQa(sessionId);
+
+  return (
+    <div className="pt-2 border-t space-y-3">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <MessageSquareText className="h-4 w-4 text-primary" />
+        <span>Tanya Jawab</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Setiap pertanyaan dan jawaban ditinjau admin sebelum diteruskan. Jangan menyertakan nomor
+        telepon, email atau akun media sosial.
+      </p>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Memuat tanya jawab...</p>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Belum ada pertanyaan</p>
+      ) : (
+        <div className="space-y-4">
+          {items.map((question) => {
+            const askedByMe = question.sender_id === viewerId;
+            // A rejected answer can be written again
+            const canAnswer =
+              canPost &&
+              !askedByMe &&
+              question.status === "APPROVED" &&
+              question.answers.every((a) => a.status === "REJECTED");
+
+            return (
+              <div key={question.id} className="space-y-2">
+                <MessageBubble message={question} mine={askedByMe} />
+                <div className="pl-4 space-y-2">
+                  {question.answers.map((answer) => (
+                    <MessageBubble key={answer.id} message={answer} mine={answer.sender_id === viewerId} />
+                  ))}
+                  {canAnswer && (
+                    <MessageForm
+                      placeholder="Tulis jawaban Anda..."
+                      submitLabel="Kirim Jawaban"
+                      disabled={isSending}
+                      onSubmit={(body) => answerQuestion(question.id, body)}
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canPost && (
+        <MessageForm
+          placeholder="Tulis pertanyaan untuk pasangan taaruf Anda..."
+          submitLabel="Kirim Pertanyaan"
+          disabled={isSending}
+          onSubmit={askQuestion}
+        />
+      )}
+    </div>
+  );
+}
@@ -16,8 +16,7 @@ import {
   Calendar,
   Briefcase,
   Eye,
-  Video,
-  Link as LinkIcon
+  HeartOff
 } from "lucide-react";
 import { 
   useIncomingRequests, 
@@ -30,12 +29,17 @@ import { id as idLocale } from "date-fns/locale";
 import { CvDetailModal } from "./cv-detail-modal";
 import { TaarufConfirmationModal } from "./taaruf-confirmation-modal";
 import { CountdownTimer } from "./countdown-timer";
+import { EndTaarufModal } from "./end-taaruf-modal";
+import { UpcomingMeetings } from "./upcoming-meetings";
+import { GuardianCard } from "./guardian-card";
+import { QaThread } from "./qa-thread";
+import type { TaarufEndReason } from "../lib/end-reasons";
 
 export function TaarufTabs() {
   const { requests: incoming, isLoading: loadingIncoming, refresh: refreshIncoming } = useIncomingRequests();
   const { requests: sent, isLoading: loadingSent, refresh: refreshSent } = useSentRequests();
   const { sessions: active, isLoading: loadingActive, refresh: refreshActive } = useActiveTaaruf();
-  const { acceptRequest, rejectRequest, isLoading: actionLoading } = useTaarufActions();
+  const { acceptRequest, rejectRequest, endTaaruf, isLoading: actionLoading } = useTaarufActions();
 
   // Modal states
   const [cvDetailOpen, setCvDetailOpen] = useState(false);
@@ -44,6 +48,7 @@ export function TaarufTabs() {
   const [confirmationType, setConfirmationType] = useState<"accept" | "reject" | null>(null);
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
   const [selectedCandidateCode, setSelectedCandidateCode] = useState<string>("");
+  const [endingSession, setEndingSession] = useState<{ id: string | number; taarufCode: string } | null>(null);
 
   const handleViewCV = (userId: string) => {
     setSelectedUserId(userId);
@@ -64,6 +69,16 @@ export function TaarufTabs() {
     setConfirmationOpen(true);
   };
 
+  const handleEndConfirm = async (reason: TaarufEndReason, note?: string) => {
+    if (!endingSession) return;
+
+    const result = await endTaaruf(endingSession.id, reason, note);
+    if (result.success) {
+      setEndingSession(null);
+      refreshActive();
+    }
+  };
+
   const handleConfirmAction = async (rejectReason?: string) => {
     if (!selectedRequestId) return;
 
@@ -213,6 +228,7 @@ export function TaarufTabs() {
             const isPending = request.status === "PENDING";
             const isAccepted = request.status === "ACCEPTED";
             const isRejected = request.status === "REJECTED";
+            const isExpired = request.status === "EXPIRED";
             
             return (
               <Card key={request.id} className="mx-0">
@@ -224,13 +240,15 @@ export function TaarufTabs() {
                       variant={
                         isAccepted ? "success" :
                         isRejected ? "destructive" :
+                        isExpired ? "info" :
                         isPending ? "warning" : "default"
                       }
                       className="text-xs sm:text-sm px-2 sm:px-3 py-1 shrink-0"
                     >
                       {isAccepted ? "Diterima" :
                        isRejected ? "Ditolak" :
-                       expired ? "Expired" : "Menunggu"}
+                       isExpired ? "Kedaluwarsa" :
+                       expired ? "Sedang diproses" : "Menunggu"}
                     </Badge>
                   </div>
 
@@ -243,7 +261,14 @@ export function TaarufTabs() {
                   {isPending && (
                     <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
                       <Calendar className="h-4 w-4" />
-                      <CountdownTimer expiresAt={request.expires_at} />
+                      <CountdownTimer expiresAt={request.expires_at} onExpired={refreshSent} />
+                    </div>
+                  )}
+
+                  {/* Kedaluwarsa: koin dikembalikan otomatis */}
+                  {isExpired && (
+                    <div className="mt-4 pt-4 border-t text-xs sm:text-sm text-muted-foreground">
+                      Tidak direspons dalam 72 jam. Koin pengajuan telah dikembalikan ke saldo Anda.
                     </div>
                   )}
 
@@ -263,6 +288,8 @@ export function TaarufTabs() {
 
       {/* TAARUF AKTIF - Active Sessions */}
       <TabsContent value="aktif" className="space-y-4 mt-6 px-2 sm:px-4">
+        <GuardianCard hasActiveSession={active.length > 0} />
+
         {loadingActive ? (
           <Card>
             <CardContent className="p-8 text-center text-muted-foreground">
@@ -311,48 +338,29 @@ export function TaarufTabs() {
                 </div>
 
                 {/* Jadwal Zoom (jika ada) */}
-                {session.zoom_schedules && session.zoom_schedules.length > 0 && (
-                  <div className="pt-2 border-t space-y-3">
-                    <div className="flex items-center gap-2 text-sm font-semibold">
-                      <Video className="h-4 w-4 text-primary" />
-                      <span>Jadwal Pertemuan</span>
-                    </div>
-                    {session.zoom_schedules.map((zoom: any, index: number) => (
-                      <div key={index} className="bg-primary/5 rounded-lg p-3 space-y-2">
-                        <div className="flex items-center justify-between">
-                          <span className="text-xs sm:text-sm font-medium">{zoom.stage}</span>
-                          <Badge variant="info" className="text-xs">Terjadwal</Badge>
-                        </div>
-                        <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
-                          <Calendar className="h-3 w-3" />
-                          <span>{zoom.meeting_datetime ? format(new Date(zoom.meeting_datetime), "EEEE, dd MMM yyyy HH:mm", { locale: idLocale }) : "-"}</span>
-                        </div>
-                        {zoom.zoom_link && (
-                          <a 
-                            href={zoom.zoom_link} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="flex items-center gap-2 text-xs sm:text-sm text-primary hover:underline"
-                          >
-                            <LinkIcon className="h-3 w-3" />
-                            <span className="truncate">Link Zoom Meeting</span>
-                          </a>
-                        )}
-                        {zoom.notes && (
-                          <p className="text-xs text-muted-foreground italic">
-                            {zoom.notes}
-                          </p>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <UpcomingMeetings meetings={session.meetings || []} />
+
+                {/* Tanya jawab (dimoderasi admin) */}
+                <QaThread sessionId={session.id} />
 
                 <div className="pt-2 border-t">
                   <p className="text-xs sm:text-sm text-muted-foreground">
                     💬 Lanjutkan komunikasi taaruf Anda melalui kontak yang telah disepakati
                   </p>
                 </div>
+
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1 text-destructive hover:text-destructive"
+                    onClick={() => setEndingSession({ id: session.id, taarufCode: session.taaruf_code })}
+                    disabled={actionLoading}
+                  >
+                    <HeartOff className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="text-xs sm:text-sm">Akhiri Taaruf</span>
+                  </Button>
+                </div>
               </CardContent>
             </Card>
           ))
@@ -374,6 +382,14 @@ export function TaarufTabs() {
         onCancel={() => setConfirmationOpen(false)}
         isLoading={actionLoading}
       />
+
+      <EndTaarufModal
+        open={!!endingSession}
+        taarufCode={endingSession?.taarufCode || ""}
+        onConfirm={handleEndConfirm}
+        onCancel={() => setEndingSession(null)}
+        isLoading={actionLoading}
+      />
     </Tabs>
   );
 }
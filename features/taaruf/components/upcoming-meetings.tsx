@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, CalendarPlus, Link as LinkIcon, ShieldCheck, Video } from "lucide-react";
+import { format } from "date-fns";
+import { id as idLocale } from "date-fns/locale";
+import { CountdownTimer } from "./countdown-timer";
+import { MEETING_STATUS_LABELS, meetingIcsPath, type ParticipantMeeting } from "../lib/meetings";
+
+interface UpcomingMeetingsProps {
+  meetings: ParticipantMeeting[];
+}
+
+/**
+ * Scheduled meetings that haven't ended yet (with countdown, Zoom link and
+ * calendar download) plus upcoming slots the admin cancelled
+ */
+export function UpcomingMeetings({ meetings }: UpcomingMeetingsProps) {
+  // Re-render when a countdown runs out so the meeting shows as started
+  const [, setTick] = useState(0);
+  const now = Date.now();
+
+  const visible = meetings.filter(
+    (m) =>
+      new Date(m.ends_at).getTime() > now && (m.status === "SCHEDULED" || m.status === "CANCELLED")
+  );
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="pt-2 border-t space-y-3">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <Video className="h-4 w-4 text-primary" />
+        <span>Jadwal Pertemuan</span>
+      </div>
+      {visible.map((meeting) => {
+        const cancelled = meeting.status === "CANCELLED";
+        const started = new Date(meeting.scheduled_at).getTime() <= now;
+
+        return (
+          <div
+            key={meeting.id}
+            className={`rounded-lg p-3 space-y-2 ${cancelled ? "bg-muted/50" : "bg-primary/5"}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs sm:text-sm font-medium">{meeting.stage}</span>
+              <Badge variant={cancelled ? "destructive" : started ? "success" : "info"} className="text-xs">
+                {cancelled ? MEETING_STATUS_LABELS.CANCELLED : started ? "Sedang Berlangsung" : MEETING_STATUS_LABELS.SCHEDULED}
+              </Badge>
+            </div>
+            <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+              <Calendar className="h-3 w-3" />
+              <span className={cancelled ? "line-through" : undefined}>
+                {format(new Date(meeting.scheduled_at), "EEEE, dd MMM yyyy HH:mm", { locale: idLocale })}
+                {" - "}
+                {format(new Date(meeting.ends_at), "HH:mm", { locale: idLocale })}
+              </span>
+              {meeting.reschedule_count > 0 && !cancelled && (
+                <span className="text-xs italic">(jadwal diubah)</span>
+              )}
+            </div>
+
+            {cancelled ? (
+              meeting.cancel_reason && (
+                <p className="text-xs text-muted-foreground">Alasan: {meeting.cancel_reason}</p>
+              )
+            ) : (
+              <>
+                {!started && (
+                  <CountdownTimer
+                    expiresAt={meeting.scheduled_at}
+                    onExpired={() => setTick((t) => t + 1)}
+                  />
+                )}
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                  <a
+                    href={meeting.zoom_link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-xs sm:text-sm text-primary hover:underline"
+                  >
+                    <LinkIcon className="h-3 w-3" />
+                    <span className="truncate">Link Zoom Meeting</span>
+                  </a>
+                  <a
+                    href={meetingIcsPath(meeting.id)}
+                    className="flex items-center gap-2 text-xs sm:text-sm text-primary hover:underline"
+                  >
+                    <CalendarPlus className="h-3 w-3" />
+                    <span>Tambahkan ke Kalender</span>
+                  </a>
+                </div>
+                {meeting.notes && (
+                  <p className="text-xs text-muted-foreground italic">{meeting.notes}</p>
+                )}
+                {meeting.guardian_confirmed_at && (
+                  <p className="flex items-center gap-2 text-xs text-green-700">
+                    <ShieldCheck className="h-3 w-3" />
+                    <span>Wali telah mengonfirmasi kehadiran</span>
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "@/lib/toast";
+import type { TaarufEndReason } from "../lib/end-reasons";
+import type { GuardianRelation, TaarufGuardian } from "@/types/database.types";
+import type { QaThreadItem } from "@/server/services/taaruf-qa";
 import useSWR from "swr";
 
 const fetcher = (url: string) =>
@@ -17,19 +20,38 @@ const fetcher = (url: string) =>
 export function useAjukanTaaruf() {
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
+  // One idempotency key per target, kept until the server gives a definitive
+  // answer so double-clicks and network retries are never charged twice
+  const pendingKeys = useRef(new Map<string, string>());
 
   const ajukan = async (toUserId: string) => {
+    if (isLoading) {
+      return { success: false, error: "Pengajuan sedang diproses" };
+    }
+
+    let idempotencyKey = pendingKeys.current.get(toUserId);
+    if (!idempotencyKey) {
+      idempotencyKey = crypto.randomUUID();
+      pendingKeys.current.set(toUserId, idempotencyKey);
+    }
+
     setIsLoading(true);
     try {
       const res = await fetch("/api/taaruf/ajukan", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ toUserId }),
+        body: JSON.stringify({ toUserId, idempotencyKey }),
         credentials: "include",
       });
 
       const data = await res.json();
 
+      // Definitive answer (success or business error) - next attempt is a new
+      // request. 5xx (DB/RPC failure) keeps the key so the retry is replayed.
+      if (res.ok || (res.status >= 400 && res.status < 500)) {
+        pendingKeys.current.delete(toUserId);
+      }
+
       if (!res.ok) {
         // Handle specific error codes with redirects
         if (data.errorCode === "CV_NOT_FOUND" || data.errorCode === "CV_NOT_APPROVED") {
@@ -187,5 +209,172 @@ export function useTaarufActions() {
     }
   };
 
-  return { acceptRequest, rejectRequest, isLoading };
+  const endTaaruf = async (sessionId: string | number, reason: TaarufEndReason, note?: string) => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/taaruf/sessions/${sessionId}/end`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, note }),
+        credentials: "include",
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data.error || "Gagal mengakhiri taaruf");
+        return { success: false };
+      }
+
+      toast.success(data.message || "Taaruf telah diakhiri");
+      return { success: true };
+
+    } catch (error) {
+      console.error("Error ending taaruf:", error);
+      toast.error("Terjadi kesalahan. Silakan coba lagi.");
+      return { success: false };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { acceptRequest, rejectRequest, endTaaruf, isLoading };
+}
+
+export interface GuardianFormValues {
+  name: string;
+  relation: GuardianRelation;
+  email: string;
+  phone: string;
+}
+
+/**
+ * Hook for the akhwat's wali contact and sending the wali a session link
+ */
+export function useGuardian() {
+  const { data, error, isLoading, mutate } = useSWR("/api/taaruf/guardian", fetcher);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const request = async (url: string, init: RequestInit, fallbackError: string) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(url, { ...init, credentials: "include" });
+      const body = await res.json();
+
+      if (!res.ok) {
+        toast.error(body.error || fallbackError);
+        return { success: false as const, data: null };
+      }
+
+      return { success: true as const, data: body };
+    } catch (error) {
+      console.error(`Error calling ${url}:`, error);
+      toast.error("Terjadi kesalahan. Silakan coba lagi.");
+      return { success: false as const, data: null };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveGuardian = async (values: GuardianFormValues) => {
+    const result = await request(
+      "/api/taaruf/guardian",
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      },
+      "Gagal menyimpan kontak wali"
+    );
+    if (result.success) {
+      toast.success("Kontak wali disimpan");
+      mutate();
+    }
+    return result.success;
+  };
+
+  const removeGuardian = async () => {
+    const result = await request("/api/taaruf/guardian", { method: "DELETE" }, "Gagal menghapus kontak wali");
+    if (result.success) {
+      toast.success("Kontak wali dihapus");
+      mutate();
+    }
+    return result.success;
+  };
+
+  const inviteGuardian = async () => {
+    const result = await request("/api/taaruf/guardian/invite", { method: "POST" }, "Gagal mengirim tautan ke wali");
+    if (result.success) {
+      toast.success(result.data.message || "Tautan dikirim ke wali Anda");
+    }
+    return result.success;
+  };
+
+  return {
+    eligible: !!data?.eligible,
+    guardian: (data?.data ?? null) as TaarufGuardian | null,
+    error,
+    isLoading,
+    isSaving,
+    saveGuardian,
+    removeGuardian,
+    inviteGuardian,
+  };
+}
+
+/**
+ * Hook for the moderated Q&A thread of one active session
+ */
+export function useTaarufQa(sessionId: string | number | null) {
+  const { data, error, isLoading, mutate } = useSWR(
+    sessionId ? `/api/taaruf/sessions/${sessionId}/questions` : null,
+    fetcher,
+    { refreshInterval: 60000 }
+  );
+  const [isSending, setIsSending] = useState(false);
+
+  const send = async (url: string, body: string, fallbackError: string) => {
+    setIsSending(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body }),
+        credentials: "include",
+      });
+      const result = await res.json();
+
+      if (!res.ok) {
+        toast.error(result.error || fallbackError);
+        return false;
+      }
+
+      toast.success(result.message || "Pesan dikirim");
+      mutate();
+      return true;
+    } catch (error) {
+      console.error("Error sending Q&A message:", error);
+      toast.error("Terjadi kesalahan. Silakan coba lagi.");
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const askQuestion = (body: string) =>
+    send(`/api/taaruf/sessions/${sessionId}/questions`, body, "Gagal mengirim pertanyaan");
+
+  const answerQuestion = (questionId: number, body: string) =>
+    send(`/api/taaruf/questions/${questionId}/answer`, body, "Gagal mengirim jawaban");
+
+  return {
+    items: (data?.data?.items || []) as QaThreadItem[],
+    viewerId: (data?.data?.viewerId ?? null) as string | null,
+    canPost: !!data?.data?.canPost,
+    error,
+    isLoading,
+    isSending,
+    askQuestion,
+    answerQuestion,
+  };
 }
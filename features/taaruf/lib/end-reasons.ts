@@ -0,0 +1,26 @@
+/**
+ * Reasons a participant can give for ending an active taaruf.
+ * Labels are shown to the user and copied into notifications.
+ * Keep codes in sync with the CHECK constraint on taaruf_sessions.end_reason.
+ */
+
+export const TAARUF_END_REASONS = {
+  TIDAK_COCOK: "Merasa tidak cocok",
+  KEBERATAN_KELUARGA: "Keluarga tidak merestui",
+  BEDA_PRINSIP: "Perbedaan prinsip / visi pernikahan",
+  TIDAK_ADA_KABAR: "Pihak lain tidak responsif",
+  ALASAN_PRIBADI: "Alasan pribadi",
+  LAINNYA: "Lainnya",
+} as const;
+
+export type TaarufEndReason = keyof typeof TAARUF_END_REASONS;
+
+export const TAARUF_END_REASON_CODES = Object.keys(TAARUF_END_REASONS) as [
+  TaarufEndReason,
+  ...TaarufEndReason[],
+];
+
+/** "Lainnya" needs a short explanation */
+export function requiresEndNote(reason: TaarufEndReason): boolean {
+  return reason === "LAINNYA";
+}
@@ -0,0 +1,39 @@
+/**
+ * Wali (guardian) of an akhwat in taaruf: relation labels and the magic
+ * link shape. Pure - safe to import from client and server.
+ */
+
+import type { GuardianRelation } from "@/types/database.types";
+
+export const GUARDIAN_RELATIONS = [
+  "AYAH",
+  "KAKEK",
+  "SAUDARA",
+  "PAMAN",
+  "WALI_HAKIM",
+  "LAINNYA",
+] as const satisfies readonly GuardianRelation[];
+
+export const GUARDIAN_RELATION_LABELS: Record<GuardianRelation, string> = {
+  AYAH: "Ayah",
+  KAKEK: "Kakek",
+  SAUDARA: "Saudara Laki-laki",
+  PAMAN: "Paman",
+  WALI_HAKIM: "Wali Hakim",
+  LAINNYA: "Lainnya",
+};
+
+/** Upper bound of a magic link; it also stops working when the session ends */
+export const GUARDIAN_LINK_TTL_DAYS = 30;
+
+/** Notification types the wali gets a copy of (see enqueue_notification_deliveries) */
+export const GUARDIAN_CC_NOTIFICATION_TYPES = [
+  "ZOOM_SCHEDULED",
+  "MEETING_RESCHEDULED",
+  "MEETING_CANCELLED",
+  "GUARDIAN_INVITED",
+];
+
+export function guardianLinkPath(token: string) {
+  return `/wali/${token}`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Taaruf meetings: status labels, the participant-safe shape and the
+ * iCalendar (ICS) invitation shared by the download route and the
+ * meeting emails. Pure - safe to import from client and server.
+ */
+
+import type { TaarufMeeting, TaarufMeetingStatus } from "@/types/database.types";
+
+export const MEETING_STATUS_LABELS: Record<TaarufMeetingStatus, string> = {
+  SCHEDULED: "Terjadwal",
+  CANCELLED: "Dibatalkan",
+  ATTENDED: "Terlaksana",
+  NO_SHOW: "Tidak Hadir",
+};
+
+export const DEFAULT_MEETING_DURATION_MINUTES = 60;
+
+/** What participants may see of a meeting (no moderator fields) */
+export type ParticipantMeeting = Pick<
+  TaarufMeeting,
+  | "id"
+  | "taaruf_id"
+  | "stage"
+  | "scheduled_at"
+  | "ends_at"
+  | "zoom_link"
+  | "notes"
+  | "status"
+  | "cancel_reason"
+  | "reschedule_count"
+  | "guardian_confirmed_at"
+>;
+
+export const PARTICIPANT_MEETING_COLUMNS =
+  "id, taaruf_id, stage, scheduled_at, ends_at, zoom_link, notes, status, cancel_reason, reschedule_count, guardian_confirmed_at";
+
+export type MeetingIcsInput = Pick<
+  ParticipantMeeting,
+  "id" | "stage" | "scheduled_at" | "ends_at" | "zoom_link" | "notes" | "status" | "reschedule_count"
+> & { taarufCode: string | null };
+
+export function meetingIcsPath(meetingId: number) {
+  return `/api/taaruf/meetings/${meetingId}/ics`;
+}
+
+export function meetingIcsFilename(meeting: Pick<MeetingIcsInput, "id" | "stage">) {
+  return `roomah-${meeting.stage.toLowerCase().replace(/\s+/g, "-")}-${meeting.id}.ics`;
+}
+
+function icsDate(value: string) {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function icsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+const byteLength = (value: string) => encoder.encode(value).length;
+
+/** RFC 5545: lines longer than 75 octets continue on the next line after a space */
+function foldLine(line: string) {
+  if (byteLength(line) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Calendar invitation for one meeting. Cancelled meetings produce a
+ * METHOD:CANCEL update of the same UID so calendars remove the event.
+ */
+export function buildMeetingIcs(meeting: MeetingIcsInput, now = new Date()) {
+  const cancelled = meeting.status === "CANCELLED";
+  const title = `Taaruf ${meeting.stage}${meeting.taarufCode ? ` - ${meeting.taarufCode}` : ""}`;
+  const description = [
+    `Pertemuan ${meeting.stage} melalui Zoom, didampingi admin Roomah.`,
+    `Link Zoom: ${meeting.zoom_link}`,
+    meeting.notes ? `Catatan: ${meeting.notes}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Roomah//Taaruf Meeting//ID",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${cancelled ? "CANCEL" : "PUBLISH"}`,
+    "BEGIN:VEVENT",
+    `UID:taaruf-meeting-${meeting.id}@roomahapp.com`,
+    // A cancellation must outrank the last invitation it replaces
+    `SEQUENCE:${meeting.reschedule_count + (cancelled ? 1 : 0)}`,
+    `DTSTAMP:${icsDate(now.toISOString())}`,
+    `DTSTART:${icsDate(meeting.scheduled_at)}`,
+    `DTEND:${icsDate(meeting.ends_at)}`,
+    `SUMMARY:${icsText(title)}`,
+    `DESCRIPTION:${icsText(description)}`,
+    `LOCATION:${icsText(meeting.zoom_link)}`,
+    `URL:${meeting.zoom_link}`,
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    ...(cancelled
+      ? []
+      : [
+          "BEGIN:VALARM",
+          "TRIGGER:-PT30M",
+          "ACTION:DISPLAY",
+          `DESCRIPTION:${icsText(`${title} dimulai 30 menit lagi`)}`,
+          "END:VALARM",
+        ]),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
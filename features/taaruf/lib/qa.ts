@@ -0,0 +1,63 @@
+/**
+ * Taaruf Q&A: limits, labels and contact-detail detection. Pure - the
+ * form warns with the same check the API enforces.
+ */
+
+import type { TaarufQaStatus } from "@/types/database.types";
+
+export const QA_MESSAGE_MAX_LENGTH = 1000;
+
+/** Messages a participant may have waiting for review at once */
+export const QA_MAX_PENDING_PER_SENDER = 5;
+
+export const QA_STATUS_LABELS: Record<TaarufQaStatus, string> = {
+  PENDING: "Menunggu Moderasi",
+  APPROVED: "Terkirim",
+  REJECTED: "Ditolak",
+};
+
+export type ContactDetailKind = "PHONE" | "EMAIL" | "SOCIAL" | "LINK";
+
+export const CONTACT_DETAIL_LABELS: Record<ContactDetailKind, string> = {
+  PHONE: "nomor telepon",
+  EMAIL: "alamat email",
+  SOCIAL: "akun media sosial",
+  LINK: "tautan",
+};
+
+const EMAIL_PATTERN =
+  /[a-z0-9._%+-]+(?:@|\s*(?:\(at\)|\[at\])\s*)[a-z0-9-]+(?:(?:\.|\s*(?:\(dot\)|\[dot\])\s*)[a-z0-9-]+)+/i;
+
+// Nine or more digits, allowing the separators people use to dodge filters
+const PHONE_PATTERN = /(?:\+?\d[\s.\-()/]*){9,}/;
+
+const SOCIAL_PATTERNS = [
+  /(?:^|[\s(])@[a-z0-9._]{3,30}/i,
+  /\b(?:instagram|insta|whats\s*app|telegram|tiktok|facebook|twitter|snapchat|line\s*id)\b/i,
+  /\b(?:ig|wa|tele|fb)\s*[:=]/i,
+  /\b(?:wa\.me|t\.me|fb\.com|instagram\.com)\b/i,
+];
+
+const LINK_PATTERN = /(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|id|me|co|ly|io)(?:\/\S*)?\b/i;
+
+/**
+ * Kinds of contact details found in a message; empty when clean
+ */
+export function detectContactDetails(text: string): ContactDetailKind[] {
+  const found: ContactDetailKind[] = [];
+
+  if (EMAIL_PATTERN.test(text)) found.push("EMAIL");
+  if (PHONE_PATTERN.test(text)) found.push("PHONE");
+  if (SOCIAL_PATTERNS.some((pattern) => pattern.test(text))) found.push("SOCIAL");
+  if (!found.includes("EMAIL") && LINK_PATTERN.test(text)) found.push("LINK");
+
+  return found;
+}
+
+/** "nomor telepon dan akun media sosial" */
+export function describeContactDetails(kinds: ContactDetailKind[]) {
+  const labels = kinds.map((kind) => CONTACT_DETAIL_LABELS[kind]);
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(", ")} dan ${labels[labels.length - 1]}`
+    : labels[0] || "";
+}
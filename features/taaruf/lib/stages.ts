@@ -0,0 +1,61 @@
+/**
+ * Taaruf Stage Machine
+ * Single source of truth for the admin kanban stages.
+ *
+ *   Zoom 1 → Zoom 2 → Khitbah → Selesai
+ *      └───────┴─────────┴──→ Dibatalkan
+ *
+ * Used by both the kanban board (to block illegal drops) and
+ * /api/admin/taaruf/[id]/stage (to reject them with 409).
+ * Keep in sync with the CHECK constraint on taaruf_sessions.current_stage.
+ */
+
+export const TAARUF_STAGES = [
+  "Zoom 1",
+  "Zoom 2",
+  "Khitbah",
+  "Selesai",
+  "Dibatalkan",
+] as const;
+
+export type TaarufStage = (typeof TAARUF_STAGES)[number];
+
+/** Stage of a freshly accepted taaruf session */
+export const INITIAL_TAARUF_STAGE: TaarufStage = "Zoom 1";
+
+const TRANSITIONS: Record<TaarufStage, readonly TaarufStage[]> = {
+  "Zoom 1": ["Zoom 2", "Dibatalkan"],
+  "Zoom 2": ["Khitbah", "Dibatalkan"],
+  Khitbah: ["Selesai", "Dibatalkan"],
+  Selesai: [],
+  Dibatalkan: [],
+};
+
+export function isTaarufStage(value: unknown): value is TaarufStage {
+  return typeof value === "string" && (TAARUF_STAGES as readonly string[]).includes(value);
+}
+
+export function getNextStages(from: TaarufStage): readonly TaarufStage[] {
+  return TRANSITIONS[from];
+}
+
+export function canTransition(from: TaarufStage, to: TaarufStage): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** Selesai and Dibatalkan end the session - no further moves */
+export function isTerminalStage(stage: TaarufStage): boolean {
+  return TRANSITIONS[stage].length === 0;
+}
+
+/** Cancelling must always be explained */
+export function requiresReason(to: TaarufStage): boolean {
+  return to === "Dibatalkan";
+}
+
+export function describeIllegalTransition(from: TaarufStage, to: TaarufStage): string {
+  if (isTerminalStage(from)) {
+    return `Ta'aruf sudah berada di tahap ${from} dan tidak bisa dipindah lagi`;
+  }
+  return `Tidak bisa memindah dari ${from} ke ${to}. Tahap berikutnya: ${getNextStages(from).join(" atau ")}`;
+}
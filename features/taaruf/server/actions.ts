@@ -1,10 +1,31 @@
 "use server";
 
-import { createClient } from "@/server/db/client";
-import { generateTaarufCodeSafe } from "@/server/services/sequence";
+import { createAdminClient, createClient } from "@/server/db/client";
+import { generateTaarufCode } from "@/server/services/sequence";
+import { centsToKoin, getWalletBalance } from "@/server/services/wallet";
+import { createNotification } from "@/server/services/notifications";
+import { cancelSessionMeetings, listParticipantMeetings } from "@/server/services/taaruf-meetings";
+import { requiresEndNote, type TaarufEndReason } from "@/features/taaruf/lib/end-reasons";
+import type {
+  AjukanTaarufResult,
+  CVData,
+  EndTaarufSessionResult,
+  TaarufSession,
+} from "@/types/database.types";
 
-// Configuration - Make this tunable via env later
-const TAARUF_COST_KOIN = parseInt(process.env.TAARUF_COST_KOIN || "5", 10);
+/**
+ * Taaruf cost in koin, from taaruf_cost_cents() - the same value ajukan_taaruf charges
+ */
+async function getTaarufCostKoin(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data, error } = await supabase.rpc("taaruf_cost_cents");
+
+  if (error || typeof data !== "number") {
+    console.error("Error reading taaruf cost:", error);
+    return null;
+  }
+
+  return centsToKoin(data);
+}
 
 /**
  * Business Guards for Ajukan Taaruf
@@ -50,13 +71,10 @@ export async function validateTaarufRequest(toUserId: string) {
       };
     }
     
-    // Guard 3: Koin balance must be sufficient
-    // Use RPC function to get real-time balance from wallet_transactions
-    const { data: balanceData, error: balanceError } = await supabase
-      .rpc("get_wallet_balance", { p_user_id: user.id });
+    // Guard 3: Koin balance must be sufficient (available ledger balance)
+    const balanceResult = await getWalletBalance(supabase, user.id);
     
-    if (balanceError) {
-      console.error("Error getting wallet balance:", balanceError);
+    if (!balanceResult.success || !balanceResult.data) {
       return {
         isValid: false,
         error: "Gagal memeriksa saldo koin Anda",
@@ -64,16 +82,24 @@ export async function validateTaarufRequest(toUserId: string) {
       };
     }
     
-    // Convert cents to koin (100 cents = 1 koin)
-    const currentBalance = Math.floor((balanceData || 0) / 100);
+    const currentBalance = balanceResult.data.koin;
+    const costKoin = await getTaarufCostKoin(supabase);
     
-    if (currentBalance < TAARUF_COST_KOIN) {
+    if (costKoin === null) {
       return {
         isValid: false,
-        error: `Saldo koin Anda tidak cukup. Dibutuhkan ${TAARUF_COST_KOIN} koin untuk mengajukan taaruf.`,
+        error: "Gagal memeriksa biaya taaruf",
+        errorCode: "BALANCE_CHECK_ERROR",
+      };
+    }
+    
+    if (currentBalance < costKoin) {
+      return {
+        isValid: false,
+        error: `Saldo koin Anda tidak cukup. Dibutuhkan ${costKoin} koin untuk mengajukan taaruf.`,
         errorCode: "INSUFFICIENT_KOIN",
         redirectTo: "/koin-saya",
-        requiredKoin: TAARUF_COST_KOIN,
+        requiredKoin: costKoin,
         currentBalance: currentBalance,
       };
     }
@@ -146,11 +172,60 @@ export async function validateTaarufRequest(toUserId: string) {
   }
 }
 
+/**
+ * Map ajukan_taaruf RPC guard codes to the same messages as validateTaarufRequest
+ */
+function describeAjukanError(row: AjukanTaarufResult): {
+  error: string;
+  redirectTo?: string;
+} {
+  switch (row.error_code) {
+    case "NOT_AUTHENTICATED":
+      return { error: "Anda harus login terlebih dahulu" };
+    case "CV_NOT_FOUND":
+      return {
+        error: "CV Anda belum dibuat. Silakan lengkapi CV terlebih dahulu.",
+        redirectTo: "/cv-saya",
+      };
+    case "CV_NOT_APPROVED":
+      return {
+        error: `CV Anda dalam status ${row.existing_status}. Hanya CV dengan status APPROVED yang dapat mengajukan taaruf.`,
+        redirectTo: "/cv-saya",
+      };
+    case "SELF_REQUEST":
+      return { error: "Anda tidak dapat mengajukan taaruf kepada diri sendiri" };
+    case "TARGET_NOT_AVAILABLE":
+      return { error: "Kandidat ini tidak tersedia untuk diajukan taaruf" };
+    case "INSUFFICIENT_KOIN":
+      return {
+        error: `Saldo koin Anda tidak cukup. Dibutuhkan ${centsToKoin(row.charged_cents || 0)} koin untuk mengajukan taaruf.`,
+        redirectTo: "/koin-saya",
+      };
+    case "ACTIVE_TAARUF_EXISTS":
+      return {
+        error: `Anda sedang dalam proses taaruf aktif (${row.active_taaruf_code}). Selesaikan taaruf ini terlebih dahulu.`,
+        redirectTo: "/riwayat-taaruf",
+      };
+    case "REQUEST_EXISTS": {
+      const statusText = row.existing_status === "PENDING" ? "menunggu persetujuan" : "sudah diterima";
+      return { error: `Anda sudah memiliki pengajuan taaruf yang ${statusText} kepada kandidat ini` };
+    }
+    case "IDEMPOTENCY_CONFLICT":
+    case "INVALID_IDEMPOTENCY_KEY":
+      return { error: "Permintaan tidak valid. Silakan muat ulang halaman dan coba lagi." };
+    default:
+      return { error: "Gagal membuat pengajuan taaruf. Silakan coba lagi." };
+  }
+}
+
 /**
  * Ajukan Taaruf
- * Deducts koin and creates taaruf request
+ * Creates taaruf request and deducts koin atomically via ajukan_taaruf RPC.
+ * The same idempotencyKey can be retried safely (double-click, network retry)
+ * without being charged twice. DB_ERROR / INTERNAL_ERROR mean nothing
+ * definitive happened - callers should answer 5xx so the key is retried.
  */
-export async function ajukanTaaruf(toUserId: string) {
+export async function ajukanTaaruf(toUserId: string, idempotencyKey: string) {
   try {
     const supabase = await createClient();
     
@@ -161,81 +236,65 @@ export async function ajukanTaaruf(toUserId: string) {
       return {
         success: false,
         error: "Not authenticated",
+        errorCode: "NOT_AUTHENTICATED",
       };
     }
     
-    // Validate request with all business guards
-    const validation = await validateTaarufRequest(toUserId);
+    // Guards, request insert and DEBIT all run in one database transaction
+    const { data, error: rpcError } = await supabase
+      .rpc("ajukan_taaruf", {
+        p_to_user: toUserId,
+        p_idempotency_key: idempotencyKey,
+      })
+      .single();
+    const result = data as AjukanTaarufResult | null;
     
-    if (!validation.isValid) {
+    if (rpcError || !result) {
+      console.error("Error calling ajukan_taaruf:", rpcError);
       return {
         success: false,
-        error: validation.error,
-        errorCode: validation.errorCode,
-        redirectTo: validation.redirectTo,
+        error: "Gagal membuat pengajuan taaruf. Silakan coba lagi.",
+        errorCode: "DB_ERROR",
       };
     }
     
-    // TRANSACTION START: Create request first, then deduct koin
-    // IMPORTANT: Must create request BEFORE deducting koin because RLS policy
-    // on taaruf_requests checks balance via can_ajukan_taaruf() function
-    
-    // 1. Create taaruf request (RLS will check balance BEFORE deduction)
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 72); // 72 hours expiry
-    
-    const { error: requestError } = await supabase
-      .from("taaruf_requests")
-      .insert({
-        from_user: user.id,
-        to_user: toUserId,
-        status: "PENDING",
-        expires_at: expiresAt.toISOString(),
-        created_at: new Date().toISOString(),
-      });
-    
-    if (requestError) {
+    if (result.error_code) {
+      const { error, redirectTo } = describeAjukanError(result);
       return {
         success: false,
-        error: "Gagal membuat pengajuan taaruf. Silakan coba lagi.",
+        error,
+        errorCode: result.error_code,
+        redirectTo,
       };
     }
     
-    // 2. Deduct koin AFTER request created successfully
-    const idempotencyKey = `taaruf-${user.id}-${toUserId}-${Date.now()}`;
-    
-    const { error: deductError } = await supabase
-      .from("wallet_transactions")
-      .insert({
-        user_id: user.id,
-        type: "DEBIT",
-        amount_cents: TAARUF_COST_KOIN * 100, // Convert to cents (5 koin = 500 cents)
-        reason: "TAARUF_COST",
-        idempotency_key: idempotencyKey,
-        created_at: new Date().toISOString(),
-      });
-    
-    if (deductError) {
-      console.error("Error deducting koin:", deductError);
-      
-      // Rollback: Delete the request we just created
-      await supabase
-        .from("taaruf_requests")
-        .delete()
-        .eq("from_user", user.id)
-        .eq("to_user", toUserId)
-        .eq("status", "PENDING");
-      
+    if (result.replayed) {
       return {
-        success: false,
-        error: "Gagal mengurangi saldo koin. Pengajuan taaruf dibatalkan.",
+        success: true,
+        message: "Pengajuan taaruf Anda sudah terkirim sebelumnya.",
+        koinDeducted: 0,
+        requestId: result.request_id,
       };
     }
     
+    const koinDeducted = centsToKoin(result.charged_cents);
+    
+    await createNotification({
+      userId: toUserId,
+      type: "TAARUF_REQUEST_RECEIVED",
+      title: "Pengajuan Taaruf Baru",
+      message: "Anda menerima pengajuan Taaruf baru. Tinjau CV pengaju dan beri jawaban dalam 72 jam.",
+      data: {
+        request_id: result.request_id,
+        expires_at: result.expires_at,
+      },
+    });
+    
     return {
       success: true,
-      message: `Pengajuan taaruf berhasil dikirim! ${TAARUF_COST_KOIN} koin telah dipotong.`,
-      koinDeducted: TAARUF_COST_KOIN,
+      message: `Pengajuan taaruf berhasil dikirim! ${koinDeducted} koin telah dipotong.`,
+      koinDeducted,
+      requestId: result.request_id,
     };
     
   } catch (error) {
@@ -243,6 +302,7 @@ export async function ajukanTaaruf(toUserId: string) {
     return {
       success: false,
       error: error instanceof Error ? error.message : "Failed to create taaruf request",
+      errorCode: "INTERNAL_ERROR",
     };
   }
 }
@@ -297,7 +357,7 @@ export async function acceptTaarufRequest(requestId: string) {
     }
     
     // Generate taaruf code
-    const taarufCode = await generateTaarufCodeSafe();
+    const taarufCode = await generateTaarufCode();
     
     if (!taarufCode) {
       return {
@@ -343,22 +403,20 @@ export async function acceptTaarufRequest(requestId: string) {
       })
       .eq("id", requestId);
     
-    // Create notification for stage tracking (Zoom 1 stage)
-    // This allows admin kanban to show the taaruf in "Zoom 1" column
-    await supabase
-      .from("notifications")
-      .insert({
-        user_id: request.from_user, // Notify User A (sender)
-        type: "TAARUF_STAGE_UPDATED",
-        title: "Taaruf Diterima",
-        message: `Pengajuan Taaruf Anda telah diterima. Kode Taaruf: ${taarufCode}`,
-        data: {
-          taaruf_id: sessionData.id,
-          taaruf_code: taarufCode,
-          stage: "Zoom 1",
-          request_id: requestId,
-        },
-      });
+    // Notify sender. Initial kanban stage (Zoom 1) is recorded in
+    // taaruf_stage_history by the taaruf_sessions insert trigger
+    await createNotification({
+      userId: request.from_user, // Notify User A (sender)
+      type: "TAARUF_STAGE_UPDATED",
+      title: "Taaruf Diterima",
+      message: `Pengajuan Taaruf Anda telah diterima. Kode Taaruf: ${taarufCode}`,
+      data: {
+        taaruf_id: sessionData.id,
+        taaruf_code: taarufCode,
+        stage: "Zoom 1",
+        request_id: requestId,
+      },
+    });
     
     return {
       success: true,
@@ -426,6 +484,24 @@ export async function rejectTaarufRequest(requestId: string, rejectReason?: stri
       };
     }
     
+    const { data: ownCv } = await supabase
+      .from("cv_data")
+      .select("candidate_code")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    const candidateCode = (ownCv as Pick<CVData, "candidate_code"> | null)?.candidate_code;
+    
+    await createNotification({
+      userId: request.from_user,
+      type: "TAARUF_REQUEST_REJECTED",
+      title: "Pengajuan Taaruf Tidak Dilanjutkan",
+      message: `Pengajuan Taaruf Anda kepada ${candidateCode || "kandidat"} belum dapat diterima.`,
+      data: {
+        request_id: requestId,
+        candidate_code: candidateCode || null,
+      },
+    });
+    
     return {
       success: true,
       message: "Pengajuan taaruf berhasil ditolak",
@@ -440,6 +516,100 @@ export async function rejectTaarufRequest(requestId: string, rejectReason?: stri
   }
 }
 
+/**
+ * End Active Taaruf (by either participant)
+ * Session → CANCELLED, CVs visible in search again,
+ * other party + admins notified - all inside end_taaruf_session RPC
+ */
+export async function endTaarufSession(
+  sessionId: string,
+  reason: TaarufEndReason,
+  note?: string
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: "Not authenticated",
+        errorCode: "NOT_AUTHENTICATED",
+      };
+    }
+
+    if (requiresEndNote(reason) && !note?.trim()) {
+      return {
+        success: false,
+        error: "Mohon jelaskan alasan Anda mengakhiri taaruf",
+        errorCode: "NOTE_REQUIRED",
+      };
+    }
+
+    const { data, error } = await supabase
+      .rpc("end_taaruf_session", {
+        p_session_id: Number(sessionId),
+        p_reason: reason,
+        p_note: note?.trim() || null,
+      })
+      .single();
+
+    const result = data as EndTaarufSessionResult | null;
+
+    if (error || !result) {
+      console.error("Error ending taaruf session:", error);
+      return {
+        success: false,
+        error: "Gagal mengakhiri taaruf. Silakan coba lagi.",
+        errorCode: "RPC_ERROR",
+      };
+    }
+
+    if (result.error_code) {
+      const messages: Record<string, string> = {
+        NOT_AUTHENTICATED: "Not authenticated",
+        INVALID_REASON: "Alasan tidak valid",
+        NOTE_REQUIRED: "Mohon jelaskan alasan Anda mengakhiri taaruf",
+        SESSION_NOT_FOUND: "Sesi taaruf tidak ditemukan",
+        SESSION_NOT_ACTIVE: "Taaruf ini sudah berakhir",
+      };
+
+      return {
+        success: false,
+        error: messages[result.error_code] || "Gagal mengakhiri taaruf",
+        errorCode: result.error_code,
+      };
+    }
+
+    // taaruf_meetings is service-role only; the RPC already checked the caller
+    await cancelSessionMeetings(
+      createAdminClient(),
+      Number(sessionId),
+      "Taaruf diakhiri oleh peserta",
+      user.id
+    );
+
+    return {
+      success: true,
+      message: `Taaruf ${result.taaruf_code} telah diakhiri. Anda sudah dapat mengajukan taaruf baru.`,
+      data: {
+        sessionId: result.session_id,
+        taarufCode: result.taaruf_code,
+        endedAt: result.ended_at,
+      },
+    };
+
+  } catch (error) {
+    console.error("Error ending taaruf:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to end taaruf",
+      errorCode: "UNKNOWN",
+    };
+  }
+}
+
 /**
  * Get Taaruf Requests (CV Masuk - Incoming)
  */
@@ -543,7 +713,7 @@ export async function getSentRequests() {
         )
       `)
       .eq("from_user", user.id)
-      .in("status", ["PENDING", "ACCEPTED", "REJECTED"])
+      .in("status", ["PENDING", "ACCEPTED", "REJECTED", "EXPIRED"])
       .order("created_at", { ascending: false });
     
     if (error) {
@@ -586,7 +756,7 @@ export async function getActiveTaaruf() {
       };
     }
     
-    const { data: sessions, error } = await supabase
+    const { data: sessionRows, error } = await supabase
       .from("taaruf_sessions")
       .select(`
         id,
@@ -609,72 +779,42 @@ export async function getActiveTaaruf() {
       };
     }
 
-    // Get zoom schedules for each session from notifications
-    // TEMPORARY DISABLED FOR DEBUGGING
-    if (sessions && sessions.length > 0) {
-      try {
-        const sessionsWithZoom = await Promise.all(
-          sessions.map(async (session) => {
-            try {
-              // Find zoom schedule notifications for this user
-              const { data: zoomNotifications, error: notifError } = await supabase
-                .from("notifications")
-                .select("data")
-                .eq("user_id", user.id)
-                .eq("type", "ZOOM_SCHEDULED")
-                .order("created_at", { ascending: false });
-
-              if (notifError) {
-                console.error("Error fetching zoom notifications:", notifError);
-                // Return session without zoom schedules if query fails
-                return {
-                  ...session,
-                  zoom_schedules: [],
-                };
-              }
+    // Attach partner's candidate code (who the user is in taaruf with)
+    const rows = (sessionRows || []) as TaarufSession[];
+    const partnerIds = rows.map((s) => (s.user_a === user.id ? s.user_b : s.user_a));
+    const { data: partnerCvs } = partnerIds.length
+      ? await supabase.from("cv_data").select("user_id, candidate_code").in("user_id", partnerIds)
+      : { data: [] };
+    const partnerCodeMap = new Map(
+      ((partnerCvs || []) as Pick<CVData, "user_id" | "candidate_code">[]).map((cv) => [cv.user_id, cv.candidate_code])
+    );
 
-              // Extract zoom schedules from notifications data
-              const zoom_schedules = zoomNotifications
-                ?.filter((notif: any) => notif.data?.taaruf_id && String(notif.data.taaruf_id) === String(session.id))
-                .map((notif: any) => ({
-                  stage: notif.data.stage,
-                  meeting_datetime: notif.data.meeting_datetime,
-                  zoom_link: notif.data.zoom_link,
-                  notes: notif.data.notes,
-                })) || [];
-
-              return {
-                ...session,
-                zoom_schedules,
-              };
-            } catch (err) {
-              console.error("Error processing zoom schedules for session:", session.id, err);
-              // Return session without zoom schedules if error
-              return {
-                ...session,
-                zoom_schedules: [],
-              };
-            }
-          })
-        );
+    const sessions = rows.map((s) => {
+      const partnerId = s.user_a === user.id ? s.user_b : s.user_a;
+      return {
+        ...s,
+        partner_id: partnerId,
+        partner_code: partnerCodeMap.get(partnerId) || null,
+      };
+    });
 
-        return {
-          success: true,
-          data: sessionsWithZoom,
-        };
-      } catch (err) {
-        console.error("Error fetching zoom schedules:", err);
-        // If zoom schedule query fails, return sessions without schedules
-        return {
-          success: true,
-          data: sessions.map(s => ({ ...s, zoom_schedules: [] })),
-        };
-      }
+    // Meetings have no user policies: read them with the service role,
+    // limited to these sessions and to participant-safe columns
+    const meetingsResult = await listParticipantMeetings(
+      createAdminClient(),
+      sessions.map((s) => Number(s.id))
+    );
+    if (!meetingsResult.success) {
+      console.error("Error fetching taaruf meetings:", meetingsResult.error);
     }
-    
+    const meetings = meetingsResult.data || [];
+
     return {
       success: true,
-      data: sessions || [],
+      data: sessions.map((s) => ({
+        ...s,
+        meetings: meetings.filter((m) => m.taaruf_id === Number(s.id)),
+      })),
     };
     
   } catch (error) {
@@ -1,3 +1,5 @@
+import type { ParticipantMeeting } from "./lib/meetings";
+
 export interface InboundItem {
   id: string;
   kodeKandidat: string;
@@ -22,4 +24,5 @@ export interface ActiveItem {
   waktuMulai: string;
   status: "active";
   candidateId: string;
+  meetings: ParticipantMeeting[];
 }
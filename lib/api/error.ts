@@ -45,6 +45,8 @@ export const ERROR_CODES = {
   PAYMENT_INSUFFICIENT_BALANCE: "PAYMENT_INSUFFICIENT_BALANCE",
   PAYMENT_FAILED: "PAYMENT_FAILED",
   PAYMENT_VERIFICATION_FAILED: "PAYMENT_VERIFICATION_FAILED",
+  PAYMENT_NOT_FOUND: "PAYMENT_NOT_FOUND",
+  PAYMENT_CANNOT_REFUND: "PAYMENT_CANNOT_REFUND",
   MIDTRANS_ERROR: "MIDTRANS_ERROR",
 
   // Validation errors
@@ -1,4 +1,11 @@
 import { z } from "zod";
+import { TAARUF_STAGES } from "@/features/taaruf/lib/stages";
+import { TAARUF_END_REASON_CODES } from "@/features/taaruf/lib/end-reasons";
+import { CV_REVISION_FIELD_KEYS } from "@/features/cv/lib/revision-fields";
+import { ADMIN_ROLES } from "@/features/admin/lib/permissions";
+import { ONBOARDING_CONSEQUENCES } from "@/features/auth/lib/fiveq";
+import { GUARDIAN_RELATIONS } from "@/features/taaruf/lib/guardians";
+import { QA_MESSAGE_MAX_LENGTH } from "@/features/taaruf/lib/qa";
 
 /**
  * API Request Validation Schemas using Zod
@@ -11,6 +18,10 @@ import { z } from "zod";
 
 export const ajukanTaarufSchema = z.object({
   toUserId: z.string().uuid("Invalid user ID format"),
+  idempotencyKey: z
+    .string()
+    .min(8, "Invalid idempotency key")
+    .max(100, "Invalid idempotency key"),
 });
 
 export const acceptTaarufSchema = z.object({
@@ -22,6 +33,13 @@ export const rejectTaarufSchema = z.object({
   rejectReason: z.string().max(500, "Reason too long").optional(),
 });
 
+export const endTaarufSchema = z.object({
+  reason: z.enum(TAARUF_END_REASON_CODES, {
+    message: "Pilih alasan mengakhiri taaruf",
+  }),
+  note: z.string().trim().max(500, "Catatan terlalu panjang").optional(),
+});
+
 // ============================================================================
 // KOIN/PAYMENT SCHEMAS
 // ============================================================================
@@ -59,21 +77,113 @@ export const approveRejectCvSchema = z.object({
   feedback: z.string().max(1000, "Feedback too long").optional(),
 });
 
+export const reviseCvSchema = z
+  .object({
+    note: z.string().trim().max(1000, "Catatan terlalu panjang").default(""),
+    fields: z
+      .array(
+        z.object({
+          field: z.enum(CV_REVISION_FIELD_KEYS, { message: "Isian CV tidak dikenal" }),
+          comment: z.string().trim().min(1, "Komentar wajib diisi").max(500, "Komentar terlalu panjang"),
+        })
+      )
+      .max(CV_REVISION_FIELD_KEYS.length)
+      .default([]),
+  })
+  .refine((data) => data.note.length > 0 || data.fields.length > 0, {
+    message: "Isi catatan atau tandai minimal satu isian CV",
+  });
+
+const meetingSlotSchema = {
+  meeting_datetime: z.string().datetime({ offset: true, message: "Format waktu tidak valid" }),
+  duration_minutes: z
+    .number()
+    .int()
+    .min(15, "Durasi minimal 15 menit")
+    .max(240, "Durasi maksimal 4 jam")
+    .default(60),
+};
+
 export const scheduleTaarufZoomSchema = z.object({
-  taarufId: z.string().uuid("Invalid taaruf ID format"),
-  stage: z.enum(["Zoom 1", "Zoom 2", "Zoom 3"], {
-    errorMap: () => ({ message: "Invalid stage" }),
+  stage: z.enum(["Zoom 1", "Zoom 2"], { message: "Invalid stage" }),
+  ...meetingSlotSchema,
+  zoom_link: z.string().url("Link Zoom tidak valid"),
+  notes: z.string().trim().max(500, "Notes too long").optional(),
+});
+
+export const updateTaarufMeetingSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("reschedule"),
+    ...meetingSlotSchema,
+    zoom_link: z.string().url("Link Zoom tidak valid").optional(),
+    notes: z.string().trim().max(500, "Notes too long").nullable().optional(),
   }),
-  meetingDatetime: z.string().datetime("Invalid datetime format"),
-  zoomLink: z.string().url("Invalid URL format"),
-  notes: z.string().max(500, "Notes too long").optional(),
+  z.object({
+    action: z.literal("cancel"),
+    reason: z.string().trim().min(3, "Alasan pembatalan wajib diisi").max(500, "Reason too long"),
+  }),
+  z.object({
+    action: z.literal("attended"),
+  }),
+  z.object({
+    action: z.literal("no_show"),
+    // null = neither participant joined
+    no_show_user_id: z.string().uuid("Invalid user ID format").nullable(),
+  }),
+  z.object({
+    action: z.literal("moderator_notes"),
+    moderator_notes: z.string().trim().max(2000, "Catatan terlalu panjang").nullable(),
+  }),
+]);
+
+export const saveTaarufGuardianSchema = z
+  .object({
+    name: z.string().trim().min(2, "Nama wali minimal 2 karakter").max(100, "Nama wali maksimal 100 karakter"),
+    relation: z.enum(GUARDIAN_RELATIONS, { message: "Hubungan wali tidak valid" }),
+    email: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .max(254)
+      .transform((v) => v || null)
+      .pipe(z.string().email("Email wali tidak valid").nullable())
+      .nullable()
+      .optional(),
+    phone: z
+      .string()
+      .trim()
+      .transform((v) => v.replace(/[\s-]/g, "") || null)
+      .pipe(z.string().regex(/^(\+62|62|0)8\d{7,12}$/, "Nomor HP wali tidak valid").nullable())
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => !!data.email || !!data.phone, {
+    message: "Isi email atau nomor HP wali",
+  });
+
+export const submitTaarufQaMessageSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Pesan tidak boleh kosong")
+    .max(QA_MESSAGE_MAX_LENGTH, `Pesan maksimal ${QA_MESSAGE_MAX_LENGTH} karakter`),
 });
 
+export const reviewTaarufQaMessageSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    reason: z.string().trim().min(3, "Alasan penolakan wajib diisi").max(500, "Reason too long"),
+  }),
+]);
+
 export const updateTaarufStageSchema = z.object({
-  taarufId: z.string().uuid("Invalid taaruf ID format"),
-  newStage: z.enum(["Zoom 1", "Zoom 2", "Zoom 3", "Khitbah", "Selesai"], {
-    errorMap: () => ({ message: "Invalid stage" }),
+  newStage: z.enum(TAARUF_STAGES, {
+    message: "Invalid stage",
   }),
+  reason: z.string().trim().max(500, "Reason too long").optional(),
 });
 
 // ============================================================================
@@ -92,6 +202,125 @@ export const rejectSocialMediaPostSchema = z.object({
   postId: z.string().uuid("Invalid post ID format"),
 });
 
+// ============================================================================
+// ADMIN ROLE SCHEMAS
+// ============================================================================
+
+export const grantAdminRoleSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Email tidak valid"),
+  role: z.enum(ADMIN_ROLES, { message: "Peran admin tidak valid" }),
+});
+
+export const updateAdminRoleSchema = z.object({
+  role: z.enum(ADMIN_ROLES, { message: "Peran admin tidak valid" }),
+});
+
+// ============================================================================
+// ONBOARDING 5Q SCHEMAS
+// ============================================================================
+
+export const updateOnboardingQuestionSchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(10, "Pertanyaan minimal 10 karakter")
+    .max(300, "Pertanyaan maksimal 300 karakter"),
+  commitmentText: z
+    .string()
+    .trim()
+    .max(500, "Komitmen maksimal 500 karakter")
+    .nullable()
+    .optional()
+    .transform((v) => v || null),
+  negativeConsequence: z.enum(ONBOARDING_CONSEQUENCES, {
+    message: "Konsekuensi tidak valid",
+  }),
+  blockMessage: z
+    .string()
+    .trim()
+    .max(500, "Pesan maksimal 500 karakter")
+    .nullable()
+    .optional()
+    .transform((v) => v || null),
+});
+
+// ============================================================================
+// NOTIFICATION SCHEMAS
+// ============================================================================
+
+export const markNotificationsReadSchema = z.union([
+  z.object({
+    ids: z.array(z.number().int().positive()).min(1, "Pilih notifikasi").max(100),
+  }),
+  z.object({ all: z.literal(true) }),
+]);
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    emailEnabled: z.boolean().optional(),
+    whatsappEnabled: z.boolean().optional(),
+  })
+  .refine((data) => data.emailEnabled !== undefined || data.whatsappEnabled !== undefined, {
+    message: "Tidak ada perubahan",
+  });
+
+// ============================================================================
+// SAVED SEARCH SCHEMAS
+// ============================================================================
+
+const savedSearchNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Nama pencarian wajib diisi")
+  .max(60, "Nama pencarian maksimal 60 karakter");
+
+const optionalFilterParam = z.string().trim().max(20).optional();
+const optionalListParam = z.string().trim().max(60).optional();
+
+export const createSavedSearchSchema = z.object({
+  name: savedSearchNameSchema,
+  filters: z.object({
+    gender: z.enum(["IKHWAN", "AKHWAT"]).optional(),
+    ageRange: optionalFilterParam,
+    education: optionalFilterParam,
+    province: optionalFilterParam,
+    minHeight: optionalFilterParam,
+    maxHeight: optionalFilterParam,
+    maritalStatus: optionalListParam,
+    income: optionalListParam,
+    salat: optionalListParam,
+    quran: optionalListParam,
+    occupation: z.string().trim().max(50).optional(),
+  }),
+  notify: z.boolean().default(true),
+});
+
+export const updateSavedSearchSchema = z
+  .object({
+    name: savedSearchNameSchema.optional(),
+    notify: z.boolean().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.notify !== undefined, {
+    message: "Tidak ada perubahan",
+  });
+
+// ============================================================================
+// SHORTLIST SCHEMAS
+// ============================================================================
+
+export const addToShortlistSchema = z.object({
+  candidateId: z.string().uuid("ID kandidat tidak valid"),
+});
+
+export const updateShortlistNoteSchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .max(1000, "Catatan maksimal 1000 karakter")
+    .transform((note) => note || null)
+    .nullable(),
+});
+
 // ============================================================================
 // HELPER: Validate and parse request body
 // ============================================================================
@@ -0,0 +1,73 @@
+/**
+ * Candidate / Ta'aruf Code Repair Script
+ * Lists APPROVED CVs without a candidate code and ta'aruf sessions with a
+ * missing or duplicated code, and syncs the code counters.
+ *
+ * Run: npx tsx scripts/repair-sequence-codes.ts           (report only)
+ *      npx tsx scripts/repair-sequence-codes.ts --apply   (assign new codes)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase credentials in .env.local');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+const apply = process.argv.includes('--apply');
+
+type RepairRow = {
+  entity: 'cv_data' | 'taaruf_sessions';
+  entity_id: string;
+  issue: 'MISSING' | 'DUPLICATE';
+  old_code: string | null;
+  new_code: string | null;
+};
+
+async function repairSequenceCodes() {
+  console.log(`🔢 CODE REPAIR ${apply ? '(APPLY)' : '(DRY RUN)'}\n`);
+  console.log('='.repeat(60));
+
+  const { data, error } = await supabase.rpc('repair_sequence_codes', {
+    p_apply: apply,
+  });
+
+  if (error) {
+    console.error('\n❌ repair_sequence_codes failed:', error.message);
+    process.exit(1);
+  }
+
+  const rows = (data || []) as RepairRow[];
+
+  if (rows.length === 0) {
+    console.log('\n✅ No duplicate or missing codes. Counters are in sync.');
+    return;
+  }
+
+  for (const entity of ['cv_data', 'taaruf_sessions'] as const) {
+    const entityRows = rows.filter((row) => row.entity === entity);
+    if (entityRows.length === 0) continue;
+
+    console.log(`\n📋 ${entity.toUpperCase()} (${entityRows.length}):`);
+    for (const row of entityRows) {
+      const change = apply ? `${row.old_code || '-'} → ${row.new_code}` : row.old_code || '-';
+      console.log(`   [${row.issue}] ${row.entity_id}: ${change}`);
+    }
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(
+    apply
+      ? `✅ ${rows.length} code(s) reassigned`
+      : `⚠️  ${rows.length} code(s) need repair. Re-run with --apply to fix.`
+  );
+}
+
+repairSequenceCodes().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
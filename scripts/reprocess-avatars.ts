@@ -0,0 +1,97 @@
+/**
+ * Avatar Reprocessing Script
+ * Runs avatars uploaded before server-side processing through it: strips
+ * metadata, stores the 512px WebP plus the blurred listing variant and
+ * deletes the original. Until then those candidates show the placeholder.
+ * External avatar URLs (Google sign-up) are listed but left alone.
+ *
+ * Run: npx tsx scripts/reprocess-avatars.ts           (report only)
+ *      npx tsx scripts/reprocess-avatars.ts --apply   (reprocess)
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { processAvatar, saveAvatar } from '@/server/services/avatars';
+import { AVATAR_BUCKET } from '@/features/cv/lib/avatar';
+
+if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Missing Supabase credentials in .env.local');
+  process.exit(1);
+}
+
+const supabase = createAdminClient();
+const apply = process.argv.includes('--apply');
+
+async function reprocessAvatars() {
+  console.log(`🖼️  AVATAR REPROCESSING ${apply ? '(APPLY)' : '(DRY RUN)'}\n`);
+  console.log('='.repeat(60));
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, avatar_path')
+    .not('avatar_path', 'is', null)
+    .is('avatar_blur_path', null);
+
+  if (error) {
+    console.error('\n❌ Failed to load profiles:', error.message);
+    process.exit(1);
+  }
+
+  const rows = (data || []) as { user_id: string; avatar_path: string }[];
+  const external = rows.filter((row) => /^https?:\/\//.test(row.avatar_path));
+  const stored = rows.filter((row) => !/^https?:\/\//.test(row.avatar_path));
+
+  console.log(`\n📋 ${stored.length} stored avatar(s) without a blurred variant`);
+  if (external.length > 0) {
+    console.log(`   ${external.length} external avatar URL(s) skipped`);
+  }
+
+  if (!apply) {
+    console.log('\n' + '='.repeat(60));
+    console.log(
+      stored.length > 0
+        ? `⚠️  Re-run with --apply to reprocess ${stored.length} avatar(s).`
+        : '✅ Every stored avatar is processed.'
+    );
+    return;
+  }
+
+  let done = 0;
+  for (const row of stored) {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .download(row.avatar_path);
+
+    if (downloadError || !file) {
+      console.log(`   [MISSING] ${row.user_id}: ${row.avatar_path}`);
+      continue;
+    }
+
+    const processed = await processAvatar(Buffer.from(await file.arrayBuffer()));
+    if (!processed) {
+      console.log(`   [INVALID] ${row.user_id}: ${row.avatar_path}`);
+      continue;
+    }
+
+    const saved = await saveAvatar(supabase, row.user_id, processed);
+    if (!saved.success) {
+      console.log(`   [FAILED] ${row.user_id}: ${saved.error}`);
+      continue;
+    }
+
+    // Files outside the user's folder (old avatars/ uploads) aren't removed by saveAvatar
+    if (!row.avatar_path.startsWith(`${row.user_id}/`)) {
+      await supabase.storage.from(AVATAR_BUCKET).remove([row.avatar_path]);
+    }
+
+    done++;
+    console.log(`   [OK] ${row.user_id}`);
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`✅ ${done} of ${stored.length} avatar(s) reprocessed`);
+}
+
+reprocessAvatars().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
@@ -1,7 +1,16 @@
 "use server";
 
-import { createClient } from "@/server/db/client";
-import { generateCandidateCodeSafe } from "@/server/services/sequence";
+import { createClient, createAdminClient } from "@/server/db/client";
+import { generateCandidateCode } from "@/server/services/sequence";
+import { getAdminRole } from "@/server/services/admin-roles";
+import { isInterviewPending } from "@/server/services/onboarding-questions";
+import { hasPermission } from "@/features/admin/lib/permissions";
+import { recordCvReview } from "@/server/services/cv-versions";
+import { notifyCvReviewed } from "@/server/services/notifications";
+import {
+  createRevisionComments,
+  type CvRevisionCommentInput,
+} from "@/server/services/cv-revision-comments";
 import { GenderEnum } from "@/types/database.types";
 
 /**
@@ -22,14 +31,10 @@ export async function approveCV(userId: string) {
       };
     }
     
-    // Check if user is admin
-    const { data: adminProfile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .maybeSingle();
+    // Check admin role
+    const adminRole = await getAdminRole(supabase, user.id);
     
-    if (!adminProfile?.is_admin) {
+    if (!hasPermission(adminRole, "verify_cv")) {
       return {
         success: false,
         error: "Unauthorized - Admin only",
@@ -50,6 +55,14 @@ export async function approveCV(userId: string) {
       };
     }
     
+    // A REQUIRE_INTERVIEW answer at onboarding holds approval
+    if (await isInterviewPending(createAdminClient(), userId)) {
+      return {
+        success: false,
+        error: "Kandidat wajib wawancara admin sebelum CV disetujui.",
+      };
+    }
+
     // Validate gender exists
     if (!cvData.gender) {
       return {
@@ -67,7 +80,7 @@ export async function approveCV(userId: string) {
       // Generate candidate code based on gender
       try {
         console.log("Generating candidate code for gender:", cvData.gender);
-        candidateCode = await generateCandidateCodeSafe(cvData.gender as GenderEnum);
+        candidateCode = await generateCandidateCode(cvData.gender as GenderEnum);
         
         console.log("Generated candidate code:", candidateCode);
         
@@ -104,6 +117,9 @@ export async function approveCV(userId: string) {
         error: "Failed to approve CV",
       };
     }
+
+    await recordCvReview(supabase, userId, "APPROVED");
+    await notifyCvReviewed(userId, "APPROVED", { candidateCode });
     
     return {
       success: true,
@@ -122,8 +138,14 @@ export async function approveCV(userId: string) {
 
 /**
  * Admin action to reject/revise CV
+ * fieldComments flag individual fields; the user must change or acknowledge
+ * each of them before resubmitting.
  */
-export async function rejectCV(userId: string, adminNote: string) {
+export async function rejectCV(
+  userId: string,
+  adminNote: string,
+  fieldComments: CvRevisionCommentInput[] = []
+) {
   try {
     const supabase = await createClient();
     
@@ -137,14 +159,10 @@ export async function rejectCV(userId: string, adminNote: string) {
       };
     }
     
-    // Check if user is admin
-    const { data: adminProfile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .maybeSingle();
+    // Check admin role
+    const adminRole = await getAdminRole(supabase, user.id);
     
-    if (!adminProfile?.is_admin) {
+    if (!hasPermission(adminRole, "reject_cv")) {
       return {
         success: false,
         error: "Unauthorized - Admin only",
@@ -169,6 +187,17 @@ export async function rejectCV(userId: string, adminNote: string) {
         error: "Failed to reject CV",
       };
     }
+
+    const commentsResult = await createRevisionComments(supabase, userId, user.id, fieldComments);
+    if (!commentsResult.success) {
+      return {
+        success: false,
+        error: "CV marked for revision, but failed to save field comments",
+      };
+    }
+
+    await recordCvReview(supabase, userId, "REVISI", adminNote);
+    await notifyCvReviewed(userId, "REVISI", { adminNote });
     
     return {
       success: true,
@@ -202,14 +231,10 @@ export async function getPendingCVs() {
       };
     }
     
-    // Check if user is admin
-    const { data: adminProfile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .maybeSingle();
+    // Check admin role
+    const adminRole = await getAdminRole(supabase, user.id);
     
-    if (!adminProfile?.is_admin) {
+    if (!hasPermission(adminRole, "view_cv")) {
       return {
         success: false,
         error: "Unauthorized - Admin only",
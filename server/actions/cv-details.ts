@@ -1,25 +1,29 @@
 "use server";
 
-import { createClient } from "@/server/db/client";
+import { createAdminClient, createClient } from "@/server/db/client";
 import { CvData } from "@/features/cv/types";
 import { capitalizeEachWord } from "@/lib/utils/text";
-
-/**
- * Convert income bracket enum to display format
- */
-function formatIncomeBracket(bracket: string | null): string {
-  if (!bracket) return "";
-  
-  const mapping: Record<string, string> = {
-    "0_2": "0-2",
-    "2_5": "2-5",
-    "5_10": "5-10",
-    "10_PLUS": "10+",
-    "SAAT_TAARUF": "Saat Taaruf",
-  };
-  
-  return mapping[bracket] || bracket;
-}
+import { snapshotCvVersion } from "@/server/services/cv-versions";
+import { processAvatar, saveAvatar } from "@/server/services/avatars";
+import { resolveAvatarVariant } from "@/server/services/avatar-access";
+import { buildCvData } from "@/server/services/cv-data";
+import {
+  AVATAR_MAX_UPLOAD_BYTES,
+  AVATAR_UPLOAD_TYPES,
+  avatarRouteUrl,
+  isAvatarVisibility,
+} from "@/features/cv/lib/avatar";
+import {
+  getOpenRevisionComments,
+  resolveRevisionComments,
+} from "@/server/services/cv-revision-comments";
+import {
+  CV_REVISION_FIELDS,
+  isCvRevisionFieldKey,
+  isRevisionFieldChanged,
+  type CvRevisionFieldKey,
+} from "@/features/cv/lib/revision-fields";
+import type { AvatarVisibility, CvRevisionComment, Profile } from "@/types/database.types";
 
 /**
  * Convert display format to income bracket enum
@@ -43,6 +47,38 @@ function parseIncomeBracket(display: string | null): string {
   return reverseMapping[display] || display;
 }
 
+/**
+ * Flagged fields that were neither changed in formData nor acknowledged
+ */
+async function getPendingRevisionFields(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  formData: FormData
+): Promise<CvRevisionFieldKey[]> {
+  const comments = await getOpenRevisionComments(supabase, userId);
+  const open = comments.filter((c) => !c.acknowledged_at && isCvRevisionFieldKey(c.field_key));
+  if (open.length === 0) return [];
+
+  const saved = await loadCvData();
+  if (!saved) return [];
+
+  const pending = new Set<CvRevisionFieldKey>();
+  for (const comment of open) {
+    const key = comment.field_key as CvRevisionFieldKey;
+    const raw = formData.get(CV_REVISION_FIELDS[key].formField) as string | null;
+    // Repeater fields are sent as JSON arrays
+    const submitted = Array.isArray(CV_REVISION_FIELDS[key].read(saved))
+      ? (JSON.parse(raw || "[]") as string[])
+      : raw;
+
+    if (!isRevisionFieldChanged(key, saved, submitted)) {
+      pending.add(key);
+    }
+  }
+
+  return [...pending];
+}
+
 /**
  * Load CV data for current user
  */
@@ -70,20 +106,15 @@ export async function loadCvData(): Promise<CvData | null> {
     }
 
     // Get avatar from profiles table
-    const { data: profileData } = await supabase
+    const { data: profileRow } = await supabase
       .from("profiles")
-      .select("avatar_path")
+      .select("avatar_path, avatar_visibility")
       .eq("user_id", user.id)
       .single();
+    const profileData = profileRow as Pick<Profile, "avatar_path" | "avatar_visibility"> | null;
     
-    // Get public URL from avatar_path
-    let avatarUrl = null;
-    if (profileData?.avatar_path) {
-      const { data: { publicUrl } } = supabase.storage
-        .from("cv-avatars")
-        .getPublicUrl(profileData.avatar_path);
-      avatarUrl = publicUrl;
-    }
+    // Private bucket: the avatar route signs the owner's full photo
+    const avatarUrl = profileData?.avatar_path ? avatarRouteUrl(user.id) : null;
 
     // Load from cv_details table if exists (JSONB structure)
     const { data: cvDetails } = await supabase
@@ -116,6 +147,7 @@ export async function loadCvData(): Promise<CvData | null> {
       adminNote: cvData.admin_note || undefined,
       biodata: {
         avatar: avatarUrl || undefined,
+        avatarVisibility: profileData?.avatar_visibility || "BLURRED",
         namaLengkap: cvData.full_name || "",
         tanggalLahir: cvData.birth_date || "",
         jenisKelamin: cvData.gender || "",
@@ -223,6 +255,30 @@ export async function saveCvData(formData: FormData) {
       provinceId = provinceData?.id || null;
     }
 
+    // Check current CV status to preserve APPROVED status
+    const { data: existingCv } = await supabase
+      .from("cv_data")
+      .select("status, candidate_code")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    const previousStatus = (existingCv as { status: string } | null)?.status;
+
+    // Resubmission after "Minta Revisi": every field the admin flagged must be
+    // changed or acknowledged first
+    if (previousStatus === "REVISI") {
+      const pendingFields = await getPendingRevisionFields(supabase, user.id, formData);
+      if (pendingFields.length > 0) {
+        return {
+          success: false,
+          error: `Masih ada isian yang ditandai admin: ${pendingFields
+            .map((key) => CV_REVISION_FIELDS[key].label)
+            .join(", ")}. Ubah isian tersebut atau tandai sudah sesuai.`,
+          errorCode: "REVISION_PENDING",
+          pendingFields,
+        };
+      }
+    }
+
     // Update profiles table with gender (KRUSIAL untuk filtering candidate by gender)
     const { error: profileError } = await supabase
       .from("profiles")
@@ -245,13 +301,6 @@ export async function saveCvData(formData: FormData) {
       };
     }
 
-    // Check current CV status to preserve APPROVED status
-    const { data: existingCv } = await supabase
-      .from("cv_data")
-      .select("status, candidate_code")
-      .eq("user_id", user.id)
-      .maybeSingle();
-
     // Upsert cv_data (main table) - MUST use upsert to handle first-time CV creation
     const cvDataPayload: any = {
       user_id: user.id,
@@ -349,6 +398,15 @@ export async function saveCvData(formData: FormData) {
       };
     }
 
+    // Snapshot this submission so the reviewer can diff it against the last review
+    if (cvDataPayload.status === "REVIEW") {
+      await snapshotCvVersion(supabase, user.id);
+    }
+
+    if (previousStatus === "REVISI") {
+      await resolveRevisionComments(supabase);
+    }
+
     console.log("CV data saved successfully!");
     return {
       success: true,
@@ -363,6 +421,58 @@ export async function saveCvData(formData: FormData) {
   }
 }
 
+/**
+ * Load open revision comments on the current user's CV
+ */
+export async function loadCvRevisionComments(): Promise<CvRevisionComment[]> {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return [];
+    }
+
+    return await getOpenRevisionComments(supabase, user.id);
+  } catch (error) {
+    console.error("Error loading CV revision comments:", error);
+    return [];
+  }
+}
+
+/**
+ * Acknowledge a revision comment without changing the field
+ */
+export async function acknowledgeCvRevisionComment(commentId: number) {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc("acknowledge_cv_revision_comment", {
+      p_comment_id: commentId,
+    });
+
+    const result = (data || [])[0] as { error_code: string | null } | undefined;
+    if (error || !result || result.error_code) {
+      console.error("Error acknowledging revision comment:", error || result?.error_code);
+      return {
+        success: false,
+        error: "Gagal menandai catatan",
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("Error acknowledging revision comment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Gagal menandai catatan",
+    };
+  }
+}
+
 /**
  * Upload avatar
  */
@@ -389,7 +499,7 @@ export async function uploadAvatar(formData: FormData) {
     }
 
     // Validate file size (max 1MB)
-    if (file.size > 1024 * 1024) {
+    if (file.size > AVATAR_MAX_UPLOAD_BYTES) {
       return {
         success: false,
         error: "File size must be less than 1MB",
@@ -397,195 +507,143 @@ export async function uploadAvatar(formData: FormData) {
     }
 
     // Validate file type
-    const allowedTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
-    if (!allowedTypes.includes(file.type)) {
+    if (!AVATAR_UPLOAD_TYPES.includes(file.type)) {
       return {
         success: false,
         error: "File must be JPG, PNG, or WebP",
       };
     }
 
-    // Upload to Supabase Storage with user folder
-    const fileExt = file.name.split(".").pop();
-    const fileName = `${user.id}/avatar-${Date.now()}.${fileExt}`;
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from("cv-avatars")
-      .upload(fileName, file, {
-        upsert: true,
-        contentType: file.type,
-      });
+    // Re-encode: fixed size, no EXIF/GPS, plus the blurred listing variant
+    const processed = await processAvatar(Buffer.from(await file.arrayBuffer()));
+    if (!processed) {
+      return {
+        success: false,
+        error: "File must be JPG, PNG, or WebP",
+      };
+    }
 
-    if (uploadError) {
-      console.error("Upload error:", uploadError);
+    const saved = await saveAvatar(supabase, user.id, processed);
+    if (!saved.success || !saved.data) {
       return {
         success: false,
         error: "Failed to upload avatar",
       };
     }
 
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from("cv-avatars")
-      .getPublicUrl(fileName);
+    return {
+      success: true,
+      // New query string so the browser doesn't keep showing the old photo
+      avatarUrl: avatarRouteUrl(user.id, Date.now()),
+    };
+  } catch (error) {
+    console.error("Error uploading avatar:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to upload avatar",
+    };
+  }
+}
+
+/**
+ * Who sees the current user's photo before a taaruf is accepted
+ */
+export async function updateAvatarVisibility(visibility: AvatarVisibility) {
+  try {
+    if (!isAvatarVisibility(visibility)) {
+      return {
+        success: false,
+        error: "Pilihan privasi foto tidak valid",
+      };
+    }
+
+    const supabase = await createClient();
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
 
-    // Update profiles table with avatar path
-    const { error: updateError } = await supabase
+    if (userError || !user) {
+      return {
+        success: false,
+        error: "User not authenticated",
+      };
+    }
+
+    const { error } = await supabase
       .from("profiles")
       .update({
-        avatar_path: fileName,
+        avatar_visibility: visibility,
         updated_at: new Date().toISOString(),
       })
       .eq("user_id", user.id);
 
-    if (updateError) {
-      console.error("Error updating avatar path:", updateError);
-      // Don't fail - avatar is uploaded, just DB update failed
+    if (error) {
+      console.error("Error updating avatar visibility:", error);
+      return {
+        success: false,
+        error: "Gagal menyimpan privasi foto",
+      };
     }
 
+    // Listings read the policy from approved_candidates_v
+    await supabase.rpc("refresh_approved_candidates");
+
     return {
       success: true,
-      avatarUrl: publicUrl,
     };
   } catch (error) {
-    console.error("Error uploading avatar:", error);
+    console.error("Error updating avatar visibility:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Failed to upload avatar",
+      error: error instanceof Error ? error.message : "Gagal menyimpan privasi foto",
     };
   }
 }
 
 /**
- * Load CV data for a specific user (admin use only)
+ * Load CV data for a specific user (admin review, taaruf CV view)
  */
 export async function loadCvDataByUserId(userId: string): Promise<CvData | null> {
   try {
     const supabase = await createClient();
 
-    // Get CV data
-    const { data: cvData, error: cvError } = await supabase
-      .from("cv_data")
-      .select("*")
-      .eq("user_id", userId)
-      .maybeSingle();
-
-    if (cvError) {
-      console.error("Error loading CV data:", cvError);
+    const result = await buildCvData(supabase, userId);
+    if (!result) {
       return null;
     }
 
-    if (!cvData) {
-      return null;
-    }
+    // Avatar: whichever variant the viewer may see under the candidate's
+    // photo policy (admins and accepted taaruf partners get the full one)
+    const {
+      data: { user: viewer },
+    } = await supabase.auth.getUser();
 
-    // Get profile data for avatar
-    const { data: profileData } = await supabase
+    const serviceClient = createAdminClient();
+    const { data: profileData } = await serviceClient
       .from("profiles")
-      .select("avatar_path")
-      .eq("user_id", userId)
-      .single();
-
-    // Get public URL for avatar
-    let avatarUrl = "";
-    if (profileData?.avatar_path) {
-      const { data } = supabase.storage
-        .from("cv-avatars")
-        .getPublicUrl(profileData.avatar_path);
-      avatarUrl = data.publicUrl;
-    }
-
-    // Get cv_details
-    const { data: cvDetails } = await supabase
-      .from("cv_details")
-      .select("*")
+      .select("avatar_path, avatar_blur_path, avatar_visibility")
       .eq("user_id", userId)
       .maybeSingle();
 
-    // Parse JSONB fields from cv_details
-    const familyBackground = cvDetails?.family_background || {};
-    const worshipProfile = cvDetails?.worship_profile || {};
-    const spouseCriteria = cvDetails?.spouse_criteria || {};
-    const marriagePlan = cvDetails?.marriage_plan || {};
-
-    // Get province name from province_id
-    let provinceName = "";
-    if (cvData.province_id) {
-      const { data: provinceData } = await supabase
-        .from("provinces")
-        .select("name")
-        .eq("id", cvData.province_id)
-        .single();
-      provinceName = provinceData?.name || "";
-    }
-
-    // Construct CV data matching the actual CvData type structure
-    const result: CvData = {
-      kodeKandidat: cvData.kode_kandidat || "",
-      status: cvData.status as "draft" | "approved" | "revisi",
-      biodata: {
-        avatar: avatarUrl,
-        namaLengkap: cvData.full_name || "",
-        tanggalLahir: cvData.birth_date || cvData.dob || "",
-        jenisKelamin: cvData.gender || "",
-        statusPernikahan: cvData.marital_status || "",
-        domisili: provinceName || cvData.domicile || "",
-        alamatLengkap: familyBackground.address || "",
-        pendidikan: cvData.education || "",
-        pekerjaan: cvData.occupation || "",
-        penghasilan: formatIncomeBracket(cvData.income_bracket),
-        tinggiBadan: familyBackground.height?.toString() || "",
-        beratBadan: familyBackground.weight?.toString() || "",
-        ciriFisik: familyBackground.physical_traits || "",
-        riwayatPenyakit: familyBackground.medical_history || [],
-        keberadaanOrangTua: familyBackground.parent_status || "",
-        pekerjaanOrangTua: familyBackground.parent_occupation || "",
-        anakKe: familyBackground.birth_order?.toString() || "",
-        saudaraKandung: familyBackground.sibling_count?.toString() || "",
-      },
-      latarBelakangKeluarga: {
-        namaAyah: familyBackground.namaAyah || "",
-        pekerjaanAyah: familyBackground.pekerjaanAyah || "",
-        namaIbu: familyBackground.namaIbu || "",
-        pekerjaanIbu: familyBackground.pekerjaanIbu || "",
-        jumlahSaudara: familyBackground.sibling_count?.toString() || "",
-        anakKe: familyBackground.birth_order?.toString() || "",
-      },
-      kondisiIbadah: {
-        shalat: worshipProfile.shalat || "",
-        shaum: worshipProfile.shaum || "",
-        tilawah: worshipProfile.tilawah || "",
-        tahajud: worshipProfile.tahajud || "",
-        kebiasaanIbadah: worshipProfile.kebiasaanIbadah || "",
-        shalatFardu: worshipProfile.prayer_fardu || "",
-        bacaanQuran: worshipProfile.quran_reading || "",
-        shalatSunnah: worshipProfile.prayer_sunnah || "",
-        hafalanQuran: worshipProfile.quran_memorization || "",
-        puasa: worshipProfile.fasting || "",
-        kajian: worshipProfile.kajian || "",
-      },
-      kriteriaPasangan: {
-        usia: spouseCriteria.desired_age || "",
-        pendidikan: spouseCriteria.desired_education || "",
-        pekerjaan: spouseCriteria.pekerjaan || "",
-        sifatKepribadian: spouseCriteria.sifatKepribadian || "",
-        kriteriaKhusus: spouseCriteria.special_criteria || [],
-        usiaCriteria: spouseCriteria.desired_age || "",
-        pendidikanCriteria: spouseCriteria.desired_education || "",
-        penghasilanCriteria: spouseCriteria.desired_income || "",
-        penghasilan: spouseCriteria.desired_income || "",
-        ciriFisik: spouseCriteria.desired_physical_traits || "",
-      },
-      rencanaPernikahan: {
-        target: marriagePlan.target || "",
-        persiapan: marriagePlan.persiapan || "",
-        lokasiTinggal: marriagePlan.living_location || "",
-        visiPernikahan: marriagePlan.visiPernikahan || "",
-        tahunNikah: marriagePlan.marriage_year || "",
-        tempatTinggal: marriagePlan.living_location || "",
-        visi: marriagePlan.vision || "",
-        misi: marriagePlan.mission || "",
-      },
-    };
+    const avatarProfile = profileData as Pick<
+      Profile,
+      "avatar_path" | "avatar_blur_path" | "avatar_visibility"
+    > | null;
+    const avatarVariant = avatarProfile
+      ? await resolveAvatarVariant(
+          serviceClient,
+          viewer?.id ?? null,
+          userId,
+          avatarProfile.avatar_visibility || "BLURRED"
+        )
+      : null;
+    const avatarPath = avatarVariant === "full"
+      ? avatarProfile?.avatar_path
+      : avatarVariant === "blur"
+        ? avatarProfile?.avatar_blur_path
+        : null;
+
+    result.biodata.avatar = avatarPath ? avatarRouteUrl(userId) : "";
+    result.biodata.avatarBlurred = avatarVariant === "blur";
 
     return result;
   } catch (error) {
@@ -1,7 +1,17 @@
 "use server";
 
 import { createClient } from "@/server/db/client";
+import { createServiceClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
+import {
+  getOnboardingReview,
+  listOnboardingQuestions,
+} from "@/server/services/onboarding-questions";
+import {
+  DEFAULT_BLOCK_MESSAGE,
+  evaluateFiveQ,
+  type FiveQQuestion,
+} from "@/features/auth/lib/fiveq";
 
 export interface FiveQData {
   q1: boolean;
@@ -12,8 +22,22 @@ export interface FiveQData {
   committed?: boolean;
 }
 
+/**
+ * The five onboarding questions with their configured consequences
+ */
+export async function getFiveQQuestions(): Promise<FiveQQuestion[]> {
+  const supabase = await createClient();
+  const result = await listOnboardingQuestions(supabase);
+  return result.data || [];
+}
+
 /**
  * Save 5Q verification data
+ * A "Tidak" answer is handled as configured in onboarding_questions:
+ * BLOCK stops here, everything else needs the user's commitment and is
+ * stored as a flag for the CV reviewer (REQUIRE_INTERVIEW also holds CV
+ * approval until an admin interview). Once saved with flags the answers
+ * stay as the reviewer saw them.
  */
 export async function saveVerification(data: FiveQData) {
   const supabase = await createClient();
@@ -30,28 +54,65 @@ export async function saveVerification(data: FiveQData) {
     };
   }
 
-  // Check if all questions are answered positively
-  const allPositive = data.q1 && data.q2 && data.q3 && data.q4 && data.q5;
-  const hasNegative = !data.q1 || !data.q2 || !data.q3 || !data.q4 || !data.q5;
-
-  // If has negative and not committed, block
-  if (hasNegative && !data.committed) {
+  const questionsResult = await listOnboardingQuestions(supabase);
+  if (!questionsResult.success || !questionsResult.data) {
     return {
       success: false,
-      error: "Commitment required for negative answers",
-      requiresCommitment: true,
+      error: "Gagal memuat pertanyaan verifikasi",
     };
   }
 
-  // Save verification
-  const { error } = await supabase.from("onboarding_verifications").upsert({
-    user_id: user.id,
+  const answers = {
     q1: data.q1,
     q2: data.q2,
     q3: data.q3,
     q4: data.q4,
     q5: data.q5,
-    committed: data.committed || false,
+  };
+  const evaluation = evaluateFiveQ(questionsResult.data, answers);
+  const allPositive = Object.values(answers).every(Boolean);
+
+  if (evaluation.blockedBy.length > 0) {
+    return {
+      success: false,
+      error: evaluation.blockedBy[0].block_message || DEFAULT_BLOCK_MESSAGE,
+      blocked: true,
+    };
+  }
+
+  // Negative answers need the user's commitment
+  if (evaluation.requiresCommitment && !data.committed) {
+    return {
+      success: false,
+      error: "Commitment required for negative answers",
+      requiresCommitment: true,
+    };
+  }
+
+  // Users can't write onboarding_verifications themselves: flags and the
+  // interview gate are set here only
+  const serviceClient = createServiceClient();
+
+  const existing = await getOnboardingReview(serviceClient, user.id);
+  if (
+    existing &&
+    (existing.flags.length > 0 || (existing.requiresInterview && !existing.interviewCompletedAt))
+  ) {
+    return {
+      success: false,
+      error: "Jawaban verifikasi Anda sedang ditinjau admin dan tidak dapat diubah",
+    };
+  }
+
+  // Save verification
+  const { error } = await serviceClient.from("onboarding_verifications").upsert({
+    user_id: user.id,
+    ...answers,
+    committed: evaluation.requiresCommitment && !!data.committed,
+    flags: evaluation.flags,
+    requires_interview: evaluation.requiresInterview,
+    interview_completed_at: null,
+    interview_completed_by: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   });
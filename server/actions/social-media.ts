@@ -1,6 +1,27 @@
 "use server";
 
 import { createClient } from "@/server/db/client";
+import { createServiceClient } from "@/lib/supabase/server";
+import {
+  captureWalletHold,
+  placeWalletHold,
+  releaseWalletHold,
+} from "@/server/services/wallet";
+import {
+  buildSocialPostCard,
+  getLatestSocialMediaPost,
+  publishSocialMediaPost,
+  regenerateSocialMediaPost,
+  rejectSocialMediaPost,
+  scheduleSocialMediaPost,
+  SOCIAL_MEDIA_POST_COST_CENTS,
+  updateSocialMediaPostCaption,
+} from "@/server/services/social-media-posts";
+import { notifySocialMediaPost } from "@/server/services/notifications";
+import { getAdminRole } from "@/server/services/admin-roles";
+import { hasPermission } from "@/features/admin/lib/permissions";
+import { buildSocialPostCaption, SOCIAL_POST_CAPTION_MAX } from "@/features/cv/lib/social-post";
+import type { SocialMediaPost, SocialMediaPostStatus } from "@/types/database.types";
 
 /**
  * Toggle CV visibility in candidate cards
@@ -76,8 +97,10 @@ export async function getCvVisibility() {
   }
 }
 
+
 /**
- * Submit social media posting request (costs 5 koin)
+ * Submit social media posting request (costs 5 koin). The post's card and
+ * caption are generated from the approved CV right away.
  */
 export async function submitSocialMediaPost() {
   try {
@@ -113,15 +136,11 @@ export async function submitSocialMediaPost() {
       };
     }
 
-    // Check if already have pending or posted request
-    const { data: existingPost } = await supabase
-      .from("social_media_posts")
-      .select("*")
-      .eq("user_id", user.id)
-      .maybeSingle();
+    // Check if already have an open or posted request (a rejected one may be resubmitted)
+    const existingPost = await getLatestSocialMediaPost(supabase, user.id);
 
     if (existingPost) {
-      if (existingPost.status === "PENDING") {
+      if (existingPost.status === "PENDING" || existingPost.status === "SCHEDULED") {
         return {
           success: false,
           error: "You already have a pending social media post request",
@@ -134,62 +153,51 @@ export async function submitSocialMediaPost() {
       }
     }
 
-    // Check koin balance (balance in cents, 1 koin = 100 cents)
-    const { data: balanceData } = await supabase
-      .rpc("get_wallet_balance", { p_user_id: user.id });
-
-    const balance = balanceData ?? 0;
-    const requiredBalance = 500; // 5 koin = 500 cents
-
-    if (balance < requiredBalance) {
+    const card = await buildSocialPostCard(supabase, user.id);
+    if (!card) {
       return {
         success: false,
-        error: "Insufficient koin balance. You need 5 koin to post to social media.",
+        error: "CV not found. Please create your CV first.",
       };
     }
 
-    // Deduct 5 koin (500 cents) using wallet_transactions
+    // Reserve 5 koin first; it is only charged once the request exists
     const orderId = `SOCMED-${user.id}-${Date.now()}`;
-    const { error: deductError } = await supabase
-      .from("wallet_transactions")
-      .insert({
-        user_id: user.id,
-        type: "DEBIT",
-        amount_cents: 500,
-        reason: "SOCIAL_MEDIA_POST",
-        linked_order_id: null,
-        idempotency_key: orderId,
-      });
-
-    if (deductError) {
-      console.error("Error deducting koin:", deductError);
+    const hold = await placeWalletHold(supabase, {
+      userId: user.id,
+      amountCents: SOCIAL_MEDIA_POST_COST_CENTS,
+      reason: "SOCIAL_MEDIA_POST",
+      idempotencyKey: orderId,
+    });
+
+    if (!hold.success || !hold.data) {
       return {
         success: false,
-        error: "Failed to deduct koin",
+        error:
+          hold.errorCode === "INSUFFICIENT_BALANCE"
+            ? "Insufficient koin balance. You need 5 koin to post to social media."
+            : "Failed to deduct koin",
       };
     }
 
-    // Create social media post request
-    const { error: postError } = await supabase
+    // Create social media post request. Posts are written by the service
+    // role only, so card, caption and hold are always the ones built here.
+    const serviceClient = createServiceClient();
+    const { data: post, error: postError } = await serviceClient
       .from("social_media_posts")
       .insert({
         user_id: user.id,
         status: "PENDING",
-      });
+        card,
+        caption: buildSocialPostCaption(card),
+        wallet_hold_id: hold.data.holdId,
+      })
+      .select("id")
+      .single();
 
-    if (postError) {
+    if (postError || !post) {
       console.error("Error creating social media post:", postError);
-      // Try to refund koin
-      await supabase
-        .from("wallet_transactions")
-        .insert({
-          user_id: user.id,
-          type: "CREDIT",
-          amount_cents: 500,
-          reason: "REFUND",
-          linked_order_id: null,
-          idempotency_key: `refund-${orderId}`,
-        });
+      await releaseWalletHold(supabase, hold.data.holdId);
       
       return {
         success: false,
@@ -197,6 +205,30 @@ export async function submitSocialMediaPost() {
       };
     }
 
+    const capture = await captureWalletHold(supabase, hold.data.holdId);
+    if (!capture.success) {
+      console.error("Error capturing koin hold:", capture.error);
+
+      // A release that finds the hold CAPTURED means the charge did go
+      // through and only the answer was lost - keep the post then
+      const release = await releaseWalletHold(supabase, hold.data.holdId);
+      if (release.data?.status !== "CAPTURED") {
+        const { error: deleteError } = await serviceClient
+          .from("social_media_posts")
+          .delete()
+          .eq("id", (post as { id: string }).id);
+
+        if (deleteError) {
+          console.error("Error removing uncharged social media post:", deleteError);
+        }
+
+        return {
+          success: false,
+          error: "Failed to deduct koin",
+        };
+      }
+    }
+
     return {
       success: true,
       message: "Successfully submitted! Your CV will be posted to social media soon.",
@@ -211,90 +243,143 @@ export async function submitSocialMediaPost() {
 }
 
 /**
- * Get social media post status for current user
+ * Get social media post status for current user (latest request)
  */
 export async function getSocialMediaPostStatus() {
+  const empty = {
+    status: null,
+    postedAt: null,
+    postUrl: null,
+    scheduledAt: null,
+    rejectedReason: null,
+  };
+
   try {
     const supabase = await createClient();
     
     const { data: { user }, error: userError } = await supabase.auth.getUser();
     
     if (userError || !user) {
-      return { status: null, postedAt: null };
+      return empty;
     }
 
-    const { data, error } = await supabase
-      .from("social_media_posts")
-      .select("status, posted_at")
-      .eq("user_id", user.id)
-      .maybeSingle();
+    const post = await getLatestSocialMediaPost(supabase, user.id);
 
-    if (error || !data) {
-      return { status: null, postedAt: null };
+    if (!post) {
+      return empty;
     }
 
     return {
-      status: data.status,
-      postedAt: data.posted_at,
+      status: post.status,
+      postedAt: post.posted_at,
+      postUrl: post.post_url,
+      scheduledAt: post.scheduled_at,
+      rejectedReason: post.rejected_reason,
     };
   } catch (error) {
     console.error("Error getting social media post status:", error);
-    return { status: null, postedAt: null };
+    return empty;
   }
 }
 
 /**
- * ADMIN: Get all pending social media posts
+ * Current user if they may moderate social media posts
  */
-export async function adminGetPendingSocialMediaPosts() {
+async function authorizeSocialMediaModerator() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return { supabase, user: null, error: "Not authenticated" };
+  }
+
+  if (!hasPermission(await getAdminRole(supabase, user.id), "moderate_social_media")) {
+    return { supabase, user: null, error: "Unauthorized - Admin only" };
+  }
+
+  return { supabase, user, error: null };
+}
+
+async function logSocialMediaPostAudit(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  actorId: string,
+  action: string,
+  postId: string,
+  changes: Record<string, unknown>
+) {
   try {
-    const supabase = await createClient();
-    
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    
-    if (userError || !user) {
-      return {
-        success: false,
-        error: "Not authenticated",
-        posts: [],
-      };
-    }
+    await supabase.from("audit_logs").insert({
+      actor_id: actorId,
+      action,
+      entity_type: "social_media_posts",
+      entity_id: postId,
+      changes,
+    });
+  } catch (auditError) {
+    console.error("Failed to log audit trail:", auditError);
+  }
+}
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("user_id", user.id)
-      .single();
+export interface AdminSocialMediaPost extends SocialMediaPost {
+  profiles: {
+    id: string;
+    full_name: string;
+    email: string;
+    gender: string;
+  } | null;
+  cv_data: {
+    kode_kandidat: string;
+    status: string;
+  } | null;
+}
+
+/**
+ * ADMIN: Get social media posts in one status. The queue (PENDING) and the
+ * schedule (SCHEDULED) come in working order, the archive newest first.
+ */
+export async function adminGetSocialMediaPosts(status: SocialMediaPostStatus = "PENDING") {
+  try {
+    const { supabase, user, error: authError } = await authorizeSocialMediaModerator();
 
-    if (!profile?.is_admin) {
+    if (!user) {
       return {
         success: false,
-        error: "Unauthorized - Admin only",
-        posts: [],
+        error: authError,
+        posts: [] as AdminSocialMediaPost[],
       };
     }
 
-    // Get pending posts
-    const { data: posts, error } = await supabase
+    let query = supabase
       .from("social_media_posts")
       .select("*")
-      .eq("status", "PENDING")
-      .order("created_at", { ascending: false });
+      .eq("status", status);
+
+    if (status === "PENDING") {
+      query = query.order("created_at", { ascending: true });
+    } else if (status === "SCHEDULED") {
+      query = query.order("scheduled_at", { ascending: true });
+    } else {
+      query = query.order("updated_at", { ascending: false }).limit(50);
+    }
+
+    const { data, error } = await query;
 
     if (error) {
-      console.error("Error fetching pending posts:", error);
+      console.error("Error fetching social media posts:", error);
       return {
         success: false,
-        error: "Failed to fetch pending posts",
-        posts: [],
+        error: "Failed to fetch social media posts",
+        posts: [] as AdminSocialMediaPost[],
       };
     }
 
-    if (!posts || posts.length === 0) {
+    const posts = (data || []) as SocialMediaPost[];
+
+    if (posts.length === 0) {
       return {
         success: true,
-        posts: [],
+        posts: [] as AdminSocialMediaPost[],
       };
     }
 
@@ -312,7 +397,7 @@ export async function adminGetPendingSocialMediaPosts() {
       .in("user_id", userIds);
 
     // Merge data
-    const enrichedPosts = posts.map(post => {
+    const enrichedPosts: AdminSocialMediaPost[] = posts.map(post => {
       const profile = profiles?.find(p => p.user_id === post.user_id);
       const cv = cvData?.find(c => c.user_id === post.user_id);
 
@@ -336,130 +421,204 @@ export async function adminGetPendingSocialMediaPosts() {
       posts: enrichedPosts,
     };
   } catch (error) {
-    console.error("Error getting pending posts:", error);
+    console.error("Error getting social media posts:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Failed to get pending posts",
-      posts: [],
+      error: error instanceof Error ? error.message : "Failed to get social media posts",
+      posts: [] as AdminSocialMediaPost[],
     };
   }
 }
 
 /**
- * ADMIN: Approve social media post
+ * ADMIN: Edit the caption of a post that isn't published yet
  */
-export async function adminApproveSocialMediaPost(postId: string) {
+export async function adminUpdateSocialMediaPostCaption(postId: string, caption: string) {
   try {
-    const supabase = await createClient();
-    
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    
-    if (userError || !user) {
+    const { supabase, user, error: authError } = await authorizeSocialMediaModerator();
+    if (!user) return { success: false, error: authError };
+
+    const trimmed = caption.trim();
+    if (!trimmed || trimmed.length > SOCIAL_POST_CAPTION_MAX) {
       return {
         success: false,
-        error: "Not authenticated",
+        error: `Caption wajib diisi, maksimal ${SOCIAL_POST_CAPTION_MAX} karakter`,
       };
     }
 
-    // Update post status to POSTED
-    const { error } = await supabase
-      .from("social_media_posts")
-      .update({
-        status: "POSTED",
-        posted_at: new Date().toISOString(),
-      })
-      .eq("id", postId);
+    const result = await updateSocialMediaPostCaption(supabase, postId, trimmed);
+    if (!result.success) return { success: false, error: result.error };
 
-    if (error) {
-      console.error("Error approving post:", error);
-      return {
-        success: false,
-        error: "Failed to approve post",
-      };
-    }
+    await logSocialMediaPostAudit(supabase, user.id, "social_media_post_caption_updated", postId, {
+      caption: trimmed,
+    });
 
     return {
       success: true,
-      message: "Postingan berhasil disetujui",
+      message: "Caption disimpan",
+      post: result.data,
     };
   } catch (error) {
-    console.error("Error approving post:", error);
+    console.error("Error updating post caption:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Failed to approve post",
+      error: error instanceof Error ? error.message : "Failed to update caption",
     };
   }
 }
 
 /**
- * ADMIN: Reject social media post and refund koin
+ * ADMIN: Rebuild card and caption from the candidate's current CV
  */
-export async function adminRejectSocialMediaPost(postId: string, reason?: string) {
+export async function adminRegenerateSocialMediaPost(postId: string) {
   try {
-    const supabase = await createClient();
-    
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    
-    if (userError || !user) {
-      return {
-        success: false,
-        error: "Not authenticated",
-      };
+    const { supabase, user, error: authError } = await authorizeSocialMediaModerator();
+    if (!user) return { success: false, error: authError };
+
+    const result = await regenerateSocialMediaPost(supabase, postId);
+    if (!result.success) return { success: false, error: result.error };
+
+    await logSocialMediaPostAudit(supabase, user.id, "social_media_post_regenerated", postId, {
+      card: result.data?.card ?? null,
+    });
+
+    return {
+      success: true,
+      message: "Caption dan gambar dibuat ulang dari CV",
+      post: result.data,
+    };
+  } catch (error) {
+    console.error("Error regenerating post:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to regenerate post",
+    };
+  }
+}
+
+/**
+ * ADMIN: Schedule a post (ISO datetime in the future); null unschedules it
+ */
+export async function adminScheduleSocialMediaPost(postId: string, scheduledAt: string | null) {
+  try {
+    const { supabase, user, error: authError } = await authorizeSocialMediaModerator();
+    if (!user) return { success: false, error: authError };
+
+    if (scheduledAt) {
+      const date = new Date(scheduledAt);
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        return {
+          success: false,
+          error: "Jadwal posting harus di masa depan",
+        };
+      }
+      scheduledAt = date.toISOString();
     }
 
-    // Get post data first
-    const { data: post, error: getError } = await supabase
-      .from("social_media_posts")
-      .select("*")
-      .eq("id", postId)
-      .single();
+    const result = await scheduleSocialMediaPost(supabase, postId, user.id, scheduledAt);
+    if (!result.success || !result.data) return { success: false, error: result.error };
 
-    if (getError || !post) {
-      return {
-        success: false,
-        error: "Post not found",
-      };
+    await logSocialMediaPostAudit(supabase, user.id, "social_media_post_scheduled", postId, {
+      scheduled_at: scheduledAt,
+    });
+
+    if (scheduledAt) {
+      await notifySocialMediaPost(result.data.user_id, "SCHEDULED", { scheduledAt });
     }
 
-    // Refund 5 koin (500 cents) to user
-    // Add created_at to bypass RLS constraint
-    const refundOrderId = `SOCMED-REFUND-${postId}-${Date.now()}`;
-    const { error: refundError } = await supabase
-      .from("wallet_transactions")
-      .insert({
-        user_id: post.user_id,
-        type: "CREDIT",
-        amount_cents: 500,
-        reason: "REFUND",
-        linked_order_id: null,
-        idempotency_key: refundOrderId,
-        created_at: new Date().toISOString(),
-      });
-
-    if (refundError) {
-      console.error("Error refunding koin:", refundError);
+    return {
+      success: true,
+      message: scheduledAt ? "Postingan dijadwalkan" : "Jadwal postingan dibatalkan",
+      post: result.data,
+    };
+  } catch (error) {
+    console.error("Error scheduling post:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to schedule post",
+    };
+  }
+}
+
+/**
+ * ADMIN: Mark a post as published with the link to it
+ */
+export async function adminPublishSocialMediaPost(postId: string, postUrl: string) {
+  try {
+    const { supabase, user, error: authError } = await authorizeSocialMediaModerator();
+    if (!user) return { success: false, error: authError };
+
+    let url: URL | null = null;
+    try {
+      url = new URL(postUrl.trim());
+    } catch {
+      url = null;
+    }
+
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
       return {
         success: false,
-        error: "Gagal mengembalikan koin",
+        error: "Link postingan tidak valid",
       };
     }
 
-    // Update post status to REJECTED
-    const { error: updateError } = await supabase
-      .from("social_media_posts")
-      .update({
-        status: "REJECTED",
-      })
-      .eq("id", postId);
+    const result = await publishSocialMediaPost(supabase, postId, user.id, url.toString());
+    if (!result.success || !result.data) return { success: false, error: result.error };
+
+    await logSocialMediaPostAudit(supabase, user.id, "social_media_post_published", postId, {
+      post_url: url.toString(),
+    });
 
-    if (updateError) {
-      console.error("Error rejecting post:", updateError);
+    await notifySocialMediaPost(result.data.user_id, "POSTED", { postUrl: url.toString() });
+
+    return {
+      success: true,
+      message: "Postingan ditandai sudah dipublikasikan",
+      post: result.data,
+    };
+  } catch (error) {
+    console.error("Error publishing post:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to publish post",
+    };
+  }
+}
+
+/**
+ * ADMIN: Reject social media post and refund koin
+ */
+export async function adminRejectSocialMediaPost(postId: string, reason: string) {
+  try {
+    const { supabase, user, error: authError } = await authorizeSocialMediaModerator();
+    if (!user) return { success: false, error: authError };
+
+    const trimmed = reason.trim();
+    if (trimmed.length < 5 || trimmed.length > 500) {
       return {
         success: false,
-        error: "Failed to reject post",
+        error: "Alasan penolakan 5-500 karakter",
       };
     }
 
+    // Refunds go through the service role: moderators can't post ledger entries
+    const result = await rejectSocialMediaPost(
+      supabase,
+      createServiceClient(),
+      postId,
+      user.id,
+      trimmed
+    );
+
+    if (!result.success || !result.data) return { success: false, error: result.error };
+
+    await logSocialMediaPostAudit(supabase, user.id, "social_media_post_rejected", postId, {
+      reason: trimmed,
+      refunded_cents: SOCIAL_MEDIA_POST_COST_CENTS,
+    });
+
+    await notifySocialMediaPost(result.data.user_id, "REJECTED", { reason: trimmed });
+
     return {
       success: true,
       message: "Postingan ditolak dan koin dikembalikan",
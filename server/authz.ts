@@ -1,11 +1,24 @@
-import { createClient } from "@/server/db/client";
+import { NextResponse } from "next/server";
 import { redirect } from "next/navigation";
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient, createClient, getCurrentUser } from "@/server/db/client";
+import { getAdminRole } from "@/server/services/admin-roles";
+import {
+  hasPermission,
+  type AdminPermission,
+  type AdminRole,
+} from "@/features/admin/lib/permissions";
+
+type AdminApiAuthorization =
+  | { user: User; role: AdminRole; response: null }
+  | { user: null; role: AdminRole | null; response: NextResponse };
 
 /**
- * Check if current user is an admin
- * Redirects to home if not authenticated or not admin
+ * Check if current user is an admin (optionally with a permission)
+ * Redirects to login if not authenticated, home if not admin and the
+ * admin dashboard if their role lacks the permission
  */
-export async function requireAdmin() {
+export async function requireAdmin(permission?: AdminPermission) {
   const supabase = await createClient();
 
   const {
@@ -17,18 +30,57 @@ export async function requireAdmin() {
     redirect("/login");
   }
 
-  // Check if user is admin
-  const { data: profile, error: profileError } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", user.id)
-    .single();
+  const role = await getAdminRole(supabase, user.id);
 
-  if (profileError || !profile?.is_admin) {
+  if (!role) {
     redirect("/");
   }
 
-  return { user, profile };
+  if (permission && !hasPermission(role, permission)) {
+    redirect("/admin/dashboard?error=forbidden");
+  }
+
+  return { user, role };
+}
+
+/**
+ * Admin check for /api/admin routes
+ * Returns the user and role, or a 401/403 response to send back as is
+ */
+export async function authorizeAdminApi(
+  permission: AdminPermission
+): Promise<AdminApiAuthorization> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      user: null,
+      role: null,
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const role = await getAdminRole(createAdminClient(), user.id);
+
+  if (!role) {
+    return {
+      user: null,
+      role: null,
+      response: NextResponse.json({ error: "Forbidden - Admin only" }, { status: 403 }),
+    };
+  }
+
+  if (!hasPermission(role, permission)) {
+    return {
+      user: null,
+      role,
+      response: NextResponse.json(
+        { error: "Forbidden - Missing permission", permission },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, role, response: null };
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * Admin Roles Service
+ * Reads and changes the scoped admin role (admin_roles). What each role
+ * may do is defined in features/admin/lib/permissions.ts; granting and
+ * revoking goes through the set_admin_role RPC, which refuses to remove
+ * the last superadmin.
+ */
+
+import type { createClient } from "@/server/db/client";
+import { isAdminRole, type AdminRole } from "@/features/admin/lib/permissions";
+import type { AdminRoleName, SetAdminRoleResult } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+/** set_admin_role error_code → HTTP status for the admin API */
+export const ADMIN_ROLE_ERROR_STATUS: Record<string, number> = {
+  FORBIDDEN: 403,
+  INVALID_ROLE: 400,
+  PROFILE_NOT_FOUND: 404,
+  LAST_SUPERADMIN: 409,
+};
+
+export interface AdminMember {
+  userId: string;
+  email: string;
+  fullName: string | null;
+  role: AdminRole;
+  grantedBy: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Role of one user, null when they are not an admin
+ */
+export async function getAdminRole(supabase: DbClient, userId: string): Promise<AdminRole | null> {
+  const { data, error } = await supabase
+    .from("admin_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getAdminRole] Error:", error);
+    return null;
+  }
+
+  const role = (data as { role: string } | null)?.role;
+  return isAdminRole(role) ? role : null;
+}
+
+/**
+ * Every admin with their role (admin or service role client)
+ */
+export async function listAdminMembers(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("admin_roles")
+    .select("user_id, role, granted_by, updated_at, profile:profiles!admin_roles_user_id_fkey(email, full_name)")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[listAdminMembers] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  type Row = {
+    user_id: string;
+    role: AdminRoleName;
+    granted_by: string | null;
+    updated_at: string;
+    profile: { email: string; full_name: string | null } | null;
+  };
+
+  const members: AdminMember[] = ((data || []) as unknown as Row[]).map((row) => ({
+    userId: row.user_id,
+    email: row.profile?.email || "",
+    fullName: row.profile?.full_name ?? null,
+    role: row.role,
+    grantedBy: row.granted_by,
+    updatedAt: row.updated_at,
+  }));
+
+  return { success: true, error: null, data: members };
+}
+
+/**
+ * Grant / change (role) or revoke (null) an admin role
+ */
+export async function setAdminRole(supabase: DbClient, userId: string, role: AdminRole | null) {
+  const { data, error } = await supabase.rpc("set_admin_role", {
+    p_user_id: userId,
+    p_role: role,
+  });
+
+  const result = ((data || []) as SetAdminRoleResult[])[0];
+
+  if (error || !result) {
+    console.error("[setAdminRole] RPC error:", error);
+    return {
+      success: false,
+      error: error?.message || "Gagal mengubah peran admin",
+      errorCode: "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  if (result.error_code) {
+    const messages: Record<string, string> = {
+      FORBIDDEN: "Hanya superadmin yang dapat mengatur peran admin",
+      INVALID_ROLE: "Peran admin tidak valid",
+      PROFILE_NOT_FOUND: "Pengguna tidak ditemukan",
+      LAST_SUPERADMIN: "Superadmin terakhir tidak dapat dicabut",
+    };
+
+    return {
+      success: false,
+      error: messages[result.error_code] || "Gagal mengubah peran admin",
+      errorCode: result.error_code,
+      data: null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: { role: result.role, previousRole: result.previous_role },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Avatar Access Service
+ * Picks the avatar file a viewer may see, following the owner's
+ * avatar_visibility:
+ *   HIDDEN  - nothing until a taaruf between the two is accepted
+ *   BLURRED - the blurred variant until accepted
+ *   MEMBERS - the full photo for members whose own CV is approved
+ * The owner, admins and accepted taaruf partners always get the full photo.
+ * Needs the service role client: the viewer can't read the other side's
+ * profile or requests through RLS.
+ */
+
+import type { createClient } from "@/server/db/client";
+import { getAdminRole } from "./admin-roles";
+import { AVATAR_BUCKET, AVATAR_SIGNED_URL_TTL } from "@/features/cv/lib/avatar";
+import type { AvatarVisibility } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export type AvatarVariant = "full" | "blur";
+
+interface AvatarProfile {
+  avatar_path: string | null;
+  avatar_blur_path: string | null;
+  avatar_visibility: AvatarVisibility | null;
+}
+
+/** Google sign-up stores the provider's picture URL as avatar_path */
+function isExternalAvatar(path: string) {
+  return /^https?:\/\//.test(path);
+}
+
+/**
+ * True once either side accepted a taaruf request from the other, or the
+ * two have (had) a taaruf session
+ */
+export async function hasAcceptedTaaruf(supabase: DbClient, userA: string, userB: string) {
+  const [{ data: requests, error: requestError }, { data: sessions, error: sessionError }] =
+    await Promise.all([
+      supabase
+        .from("taaruf_requests")
+        .select("id")
+        .or(`and(from_user.eq.${userA},to_user.eq.${userB}),and(from_user.eq.${userB},to_user.eq.${userA})`)
+        .eq("status", "ACCEPTED")
+        .limit(1),
+      supabase
+        .from("taaruf_sessions")
+        .select("id")
+        .or(`and(user_a.eq.${userA},user_b.eq.${userB}),and(user_a.eq.${userB},user_b.eq.${userA})`)
+        .limit(1),
+    ]);
+
+  if (requestError || sessionError) {
+    console.error("[hasAcceptedTaaruf] Error:", requestError || sessionError);
+    return false;
+  }
+
+  return (requests?.length ?? 0) > 0 || (sessions?.length ?? 0) > 0;
+}
+
+async function hasApprovedCv(supabase: DbClient, userId: string) {
+  const { data } = await supabase
+    .from("cv_data")
+    .select("status")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return (data as { status: string } | null)?.status === "APPROVED";
+}
+
+/**
+ * Which variant of the owner's avatar the viewer (null = signed out) gets,
+ * or null when they get none
+ */
+export async function resolveAvatarVariant(
+  supabase: DbClient,
+  viewerId: string | null,
+  ownerId: string,
+  visibility: AvatarVisibility
+): Promise<AvatarVariant | null> {
+  if (!viewerId) {
+    return visibility === "HIDDEN" ? null : "blur";
+  }
+
+  if (viewerId === ownerId) return "full";
+
+  if (await getAdminRole(supabase, viewerId)) return "full";
+
+  if (await hasAcceptedTaaruf(supabase, viewerId, ownerId)) return "full";
+
+  if (visibility === "MEMBERS" && (await hasApprovedCv(supabase, viewerId))) return "full";
+
+  return visibility === "HIDDEN" ? null : "blur";
+}
+
+/**
+ * URL of the avatar the viewer may see: a short-lived signed URL into the
+ * private bucket (or the provider URL for Google pictures), null for none
+ */
+export async function getAvatarForViewer(supabase: DbClient, viewerId: string | null, ownerId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("avatar_path, avatar_blur_path, avatar_visibility")
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getAvatarForViewer] Error loading profile:", error);
+    return null;
+  }
+
+  const profile = data as AvatarProfile | null;
+  if (!profile?.avatar_path && !profile?.avatar_blur_path) return null;
+
+  const variant = await resolveAvatarVariant(
+    supabase,
+    viewerId,
+    ownerId,
+    profile.avatar_visibility || "BLURRED"
+  );
+  if (!variant) return null;
+
+  const path = variant === "full" ? profile.avatar_path : profile.avatar_blur_path;
+  // No blurred variant yet (pre-processing upload): nothing rather than the full photo
+  if (!path) return null;
+
+  if (isExternalAvatar(path)) {
+    return variant === "full" ? { variant, url: path } : null;
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .createSignedUrl(path, AVATAR_SIGNED_URL_TTL);
+
+  if (signError || !signed) {
+    console.error("[getAvatarForViewer] Error signing URL:", signError);
+    return null;
+  }
+
+  return { variant, url: signed.signedUrl };
+}
@@ -0,0 +1,128 @@
+/**
+ * Avatar Service
+ * Normalises avatar uploads with sharp before they reach storage: EXIF
+ * orientation applied, re-encoded as WebP (sharp drops EXIF/GPS and other
+ * metadata unless asked to keep it), cropped to a fixed square, plus a
+ * blurred low-res variant for candidate listings. Replacing an avatar
+ * deletes the previous files.
+ */
+
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { createClient } from "@/server/db/client";
+import {
+  AVATAR_BLUR_SIZE,
+  AVATAR_BUCKET,
+  AVATAR_SIZE,
+} from "@/features/cv/lib/avatar";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+/** Rejects decompression bombs before decoding (~24MP) */
+const MAX_INPUT_PIXELS = 24_000_000;
+
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp"]);
+
+export interface ProcessedAvatar {
+  full: Buffer;
+  blur: Buffer;
+}
+
+/**
+ * Full + blurred WebP of an uploaded image. Returns null when the bytes
+ * aren't a JPG/PNG/WebP image, whatever the declared content type says.
+ */
+export async function processAvatar(input: Buffer): Promise<ProcessedAvatar | null> {
+  try {
+    const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS, failOn: "error" });
+    const metadata = await image.metadata();
+    if (!metadata.format || !ACCEPTED_FORMATS.has(metadata.format)) return null;
+
+    // rotate() bakes the EXIF orientation in before the metadata is dropped
+    const normalised = image.rotate();
+
+    const [full, blur] = await Promise.all([
+      normalised
+        .clone()
+        .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover", position: "attention" })
+        .webp({ quality: 82 })
+        .toBuffer(),
+      normalised
+        .clone()
+        .resize(AVATAR_BLUR_SIZE, AVATAR_BLUR_SIZE, { fit: "cover", position: "attention" })
+        .blur(8)
+        .webp({ quality: 50 })
+        .toBuffer(),
+    ]);
+
+    return { full, blur };
+  } catch (error) {
+    console.error("[processAvatar] Error:", error);
+    return null;
+  }
+}
+
+function avatarPaths(userId: string) {
+  // Separate random names: the blurred path says nothing about the full one
+  return {
+    full: `${userId}/avatar-${randomUUID()}.webp`,
+    blur: `${userId}/blur-${randomUUID()}.webp`,
+  };
+}
+
+/**
+ * Store a processed avatar for the user and point profiles at it. Old
+ * files are deleted only once the profile references the new ones.
+ */
+export async function saveAvatar(supabase: DbClient, userId: string, avatar: ProcessedAvatar) {
+  const { data: previous } = await supabase
+    .from("profiles")
+    .select("avatar_path, avatar_blur_path")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const paths = avatarPaths(userId);
+  const bucket = supabase.storage.from(AVATAR_BUCKET);
+
+  const uploads = await Promise.all([
+    bucket.upload(paths.full, avatar.full, { contentType: "image/webp", cacheControl: "31536000" }),
+    bucket.upload(paths.blur, avatar.blur, { contentType: "image/webp", cacheControl: "31536000" }),
+  ]);
+
+  const uploadError = uploads.find((u) => u.error)?.error;
+  if (uploadError) {
+    console.error("[saveAvatar] Upload error:", uploadError);
+    await bucket.remove([paths.full, paths.blur]);
+    return { success: false, error: "Gagal mengunggah foto", data: null };
+  }
+
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update({
+      avatar_path: paths.full,
+      avatar_blur_path: paths.blur,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId);
+
+  if (updateError) {
+    console.error("[saveAvatar] Error updating profile:", updateError);
+    await bucket.remove([paths.full, paths.blur]);
+    return { success: false, error: "Gagal menyimpan foto", data: null };
+  }
+
+  const old = previous as { avatar_path: string | null; avatar_blur_path: string | null } | null;
+  const stale = [old?.avatar_path, old?.avatar_blur_path].filter(
+    // Only our own folder: Google sign-up stores an external URL here
+    (path): path is string => !!path && path.startsWith(`${userId}/`)
+  );
+
+  if (stale.length > 0) {
+    const { error: removeError } = await bucket.remove(stale);
+    if (removeError) {
+      console.error("[saveAvatar] Error deleting previous avatar:", removeError);
+    }
+  }
+
+  return { success: true, error: null, data: paths };
+}
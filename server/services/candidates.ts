@@ -1,6 +1,23 @@
 "use server";
 
-import { createClient } from "@/server/db/client";
+import { createAdminClient, createClient } from "@/server/db/client";
+import { scoreCandidatesForViewer } from "@/server/services/compatibility";
+import type { CompatibilityResult } from "@/features/candidates/lib/compatibility";
+import type {
+  IncomeBracket,
+  MaritalStatus,
+  QuranAbility,
+  SalatStatus,
+} from "@/types/database.types";
+
+// "matched" sorting scores in memory - cap how many candidates are ranked.
+// Callers get the real total plus `matchedPool` to say the ranking is capped.
+const MATCHED_POOL_SIZE = 200;
+
+interface ScoredCandidateRow {
+  user_id: string;
+  compatibility?: CompatibilityResult | null;
+}
 
 export interface CandidateFilters {
   gender?: "MALE" | "FEMALE";
@@ -9,7 +26,18 @@ export interface CandidateFilters {
   education?: string;
   province?: string;
   provinceId?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  maritalStatus?: MaritalStatus[];
+  incomeBrackets?: IncomeBracket[];
+  salatStatus?: SalatStatus[];
+  quranAbility?: QuranAbility[];
+  /** Case-insensitive substring of the occupation, without LIKE wildcards */
+  occupationKeyword?: string;
   excludeUserId?: string;
+  /** Viewer to score compatibility against (adds `compatibility` to each row) */
+  viewerId?: string;
+  sortBy?: "recent" | "matched";
   page?: number;
   limit?: number;
 }
@@ -55,15 +83,49 @@ export async function listApprovedCandidates(filters: CandidateFilters = {}) {
     query = query.eq("province_id", filters.provinceId);
   }
 
+  if (filters.minHeight) {
+    query = query.gte("height_cm", filters.minHeight);
+  }
+
+  if (filters.maxHeight) {
+    query = query.lte("height_cm", filters.maxHeight);
+  }
+
+  if (filters.maritalStatus?.length) {
+    query = query.in("marital_status", filters.maritalStatus);
+  }
+
+  if (filters.incomeBrackets?.length) {
+    query = query.in("income_bracket", filters.incomeBrackets);
+  }
+
+  if (filters.salatStatus?.length) {
+    query = query.in("salat_status", filters.salatStatus);
+  }
+
+  if (filters.quranAbility?.length) {
+    query = query.in("quran_ability", filters.quranAbility);
+  }
+
+  if (filters.occupationKeyword) {
+    query = query.ilike("occupation", `%${filters.occupationKeyword}%`);
+  }
+
   // Exclude current user from results (don't show own profile)
   if (filters.excludeUserId) {
     query = query.neq("user_id", filters.excludeUserId);
   }
 
-  // Apply pagination
-  query = query.range(offset, offset + limit - 1).order("cv_updated_at", {
-    ascending: false,
-  });
+  // "matched" needs the whole pool to rank, paginate after scoring
+  const sortByMatch = filters.sortBy === "matched" && !!filters.viewerId;
+
+  if (sortByMatch) {
+    query = query.order("cv_updated_at", { ascending: false }).limit(MATCHED_POOL_SIZE);
+  } else {
+    query = query.range(offset, offset + limit - 1).order("cv_updated_at", {
+      ascending: false,
+    });
+  }
 
   const { data, error, count } = await query;
 
@@ -75,6 +137,7 @@ export async function listApprovedCandidates(filters: CandidateFilters = {}) {
       page,
       limit,
       totalPages: 0,
+      matchedPool: null,
     };
   }
 
@@ -82,6 +145,8 @@ export async function listApprovedCandidates(filters: CandidateFilters = {}) {
   // Need to fetch taaruf_status from cv_data table
   let filteredData = data || [];
   let adjustedCount = count || 0;
+  // Candidates reachable through the "matched" ranking (the scored pool)
+  let rankedCount: number | null = null;
   
   if (filteredData.length > 0) {
     const userIds = filteredData.map((c) => c.user_id);
@@ -109,7 +174,35 @@ export async function listApprovedCandidates(filters: CandidateFilters = {}) {
     adjustedCount = Math.max(0, adjustedCount - removedCount);
   }
 
-  const totalPages = adjustedCount ? Math.ceil(adjustedCount / limit) : 0;
+  // Compatibility score (0-100) against the viewer's CV + spouse criteria
+  if (filters.viewerId && filteredData.length > 0) {
+    let scored = filteredData as unknown as ScoredCandidateRow[];
+    const scores = await scoreCandidatesForViewer(
+      createAdminClient(),
+      filters.viewerId,
+      scored.map((c) => c.user_id)
+    );
+
+    scored = scored.map((candidate) => ({
+      ...candidate,
+      compatibility: scores.get(candidate.user_id) ?? null,
+    }));
+
+    if (sortByMatch) {
+      // Stable sort: equal scores keep most recently updated CV first
+      scored.sort(
+        (a, b) => (b.compatibility?.score ?? -1) - (a.compatibility?.score ?? -1)
+      );
+      rankedCount = scored.length;
+      scored = scored.slice(offset, offset + limit);
+    }
+
+    filteredData = scored as unknown as typeof filteredData;
+  }
+
+  // Pages past the ranked pool would be empty, so "matched" pages over the pool
+  const pagedCount = rankedCount ?? adjustedCount;
+  const totalPages = pagedCount ? Math.ceil(pagedCount / limit) : 0;
 
   return {
     candidates: filteredData,
@@ -117,5 +210,9 @@ export async function listApprovedCandidates(filters: CandidateFilters = {}) {
     page,
     limit,
     totalPages,
+    matchedPool:
+      rankedCount === null
+        ? null
+        : { size: MATCHED_POOL_SIZE, ranked: rankedCount, capped: (count || 0) > MATCHED_POOL_SIZE },
   };
 }
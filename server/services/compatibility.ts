@@ -0,0 +1,138 @@
+/**
+ * Compatibility Service
+ * Loads the CV facts + spouse_criteria needed by features/candidates/lib/compatibility
+ * and scores a batch of candidates against one viewer.
+ *
+ * Other users' cv_data / cv_details aren't readable through RLS - call with
+ * the service-role client; only approved CVs (and the viewer's own) are used.
+ */
+
+import type { createClient } from "@/server/db/client";
+import {
+  normalizeSpouseCriteria,
+  scoreCompatibility,
+  type CompatibilityProfile,
+  type CompatibilityResult,
+} from "@/features/candidates/lib/compatibility";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+interface CvRow {
+  user_id: string;
+  status: string | null;
+  birth_date: string | null;
+  education: string | null;
+  income_bracket: string | null;
+  province_id: number | null;
+  occupation: string | null;
+}
+
+interface CvDetailsRow {
+  user_id: string;
+  spouse_criteria: unknown;
+  worship_profile: unknown;
+  family_background: unknown;
+}
+
+function ageFromBirthDate(birthDate: string | null): number | null {
+  if (!birthDate) return null;
+  const today = new Date();
+  const birth = new Date(birthDate);
+  let age = today.getFullYear() - birth.getFullYear();
+  const monthDiff = today.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+/** Flatten JSONB values into one lowercase-able string */
+function collectText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(collectText).join(" ");
+  if (value && typeof value === "object") return Object.values(value).map(collectText).join(" ");
+  return "";
+}
+
+/**
+ * Build compatibility profiles for the viewer and the given candidates
+ * Users without cv_data, and candidates whose CV isn't approved, are left
+ * out of the map.
+ */
+export async function loadCompatibilityProfiles(
+  supabase: DbClient,
+  viewerId: string,
+  candidateIds: string[]
+): Promise<Map<string, CompatibilityProfile>> {
+  const profiles = new Map<string, CompatibilityProfile>();
+  const userIds = [viewerId, ...candidateIds];
+
+  const [{ data: cvRows }, { data: detailRows }] = await Promise.all([
+    supabase
+      .from("cv_data")
+      .select("user_id, status, birth_date, education, income_bracket, province_id, occupation")
+      .in("user_id", userIds),
+    supabase
+      .from("cv_details")
+      .select("user_id, spouse_criteria, worship_profile, family_background")
+      .in("user_id", userIds),
+  ]);
+
+  const cvs = ((cvRows || []) as CvRow[]).filter(
+    (cv) => cv.user_id === viewerId || cv.status === "APPROVED"
+  );
+  const details = new Map(((detailRows || []) as CvDetailsRow[]).map((d) => [d.user_id, d]));
+
+  const provinceIds = [...new Set(cvs.map((cv) => cv.province_id).filter((id): id is number => id !== null))];
+  const { data: provinceRows } = provinceIds.length
+    ? await supabase.from("provinces").select("id, name").in("id", provinceIds)
+    : { data: [] };
+  const provinceMap = new Map(
+    ((provinceRows || []) as { id: number; name: string }[]).map((p) => [p.id, p.name])
+  );
+
+  for (const cv of cvs) {
+    const detail = details.get(cv.user_id);
+    profiles.set(cv.user_id, {
+      age: ageFromBirthDate(cv.birth_date),
+      education: cv.education,
+      incomeBracket: cv.income_bracket,
+      province: cv.province_id !== null ? provinceMap.get(cv.province_id) ?? null : null,
+      searchableText: [
+        cv.occupation,
+        collectText(detail?.worship_profile),
+        collectText(detail?.family_background),
+      ]
+        .filter(Boolean)
+        .join(" "),
+      criteria: normalizeSpouseCriteria(detail?.spouse_criteria),
+    });
+  }
+
+  return profiles;
+}
+
+/**
+ * Score candidates for a viewer (service-role client)
+ * Returns an empty map when the viewer has no CV yet.
+ */
+export async function scoreCandidatesForViewer(
+  supabase: DbClient,
+  viewerId: string,
+  candidateIds: string[]
+): Promise<Map<string, CompatibilityResult>> {
+  const scores = new Map<string, CompatibilityResult>();
+  const profiles = await loadCompatibilityProfiles(supabase, viewerId, candidateIds);
+
+  const viewer = profiles.get(viewerId);
+  if (!viewer) return scores;
+
+  for (const candidateId of candidateIds) {
+    const candidate = profiles.get(candidateId);
+    if (candidate) {
+      scores.set(candidateId, scoreCompatibility(viewer, candidate));
+    }
+  }
+
+  return scores;
+}
@@ -0,0 +1,144 @@
+/**
+ * CV Data Service
+ * A user's CV (cv_data + cv_details JSONB) in the CvData shape the CV
+ * views render. Whoever calls it has already decided the viewer may read
+ * this CV; the avatar is left empty for the caller to fill in under the
+ * photo policy.
+ */
+
+import type { createClient } from "@/server/db/client";
+import type { CvData } from "@/features/cv/types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Convert income bracket enum to display format
+ */
+function formatIncomeBracket(bracket: string | null): string {
+  if (!bracket) return "";
+  
+  const mapping: Record<string, string> = {
+    "0_2": "0-2",
+    "2_5": "2-5",
+    "5_10": "5-10",
+    "10_PLUS": "10+",
+    "SAAT_TAARUF": "Saat Taaruf",
+  };
+  
+  return mapping[bracket] || bracket;
+}
+
+/**
+ * CvData for one user, null when they have no CV
+ */
+export async function buildCvData(supabase: DbClient, userId: string): Promise<CvData | null> {
+  const { data: cvData, error: cvError } = await supabase
+    .from("cv_data")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (cvError) {
+    console.error("[buildCvData] Error loading CV data:", cvError);
+    return null;
+  }
+
+  if (!cvData) {
+    return null;
+  }
+
+  // Get cv_details
+  const { data: cvDetails } = await supabase
+    .from("cv_details")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  // Parse JSONB fields from cv_details
+  const familyBackground = cvDetails?.family_background || {};
+  const worshipProfile = cvDetails?.worship_profile || {};
+  const spouseCriteria = cvDetails?.spouse_criteria || {};
+  const marriagePlan = cvDetails?.marriage_plan || {};
+
+  // Get province name from province_id
+  let provinceName = "";
+  if (cvData.province_id) {
+    const { data: provinceData } = await supabase
+      .from("provinces")
+      .select("name")
+      .eq("id", cvData.province_id)
+      .single();
+    provinceName = provinceData?.name || "";
+  }
+
+  // Construct CV data matching the actual CvData type structure
+  const result: CvData = {
+    kodeKandidat: cvData.kode_kandidat || "",
+    status: cvData.status as "draft" | "approved" | "revisi",
+    biodata: {
+      avatar: "",
+      namaLengkap: cvData.full_name || "",
+      tanggalLahir: cvData.birth_date || cvData.dob || "",
+      jenisKelamin: cvData.gender || "",
+      statusPernikahan: cvData.marital_status || "",
+      domisili: provinceName || cvData.domicile || "",
+      alamatLengkap: familyBackground.address || "",
+      pendidikan: cvData.education || "",
+      pekerjaan: cvData.occupation || "",
+      penghasilan: formatIncomeBracket(cvData.income_bracket),
+      tinggiBadan: familyBackground.height?.toString() || "",
+      beratBadan: familyBackground.weight?.toString() || "",
+      ciriFisik: familyBackground.physical_traits || "",
+      riwayatPenyakit: familyBackground.medical_history || [],
+      keberadaanOrangTua: familyBackground.parent_status || "",
+      pekerjaanOrangTua: familyBackground.parent_occupation || "",
+      anakKe: familyBackground.birth_order?.toString() || "",
+      saudaraKandung: familyBackground.sibling_count?.toString() || "",
+    },
+    latarBelakangKeluarga: {
+      namaAyah: familyBackground.namaAyah || "",
+      pekerjaanAyah: familyBackground.pekerjaanAyah || "",
+      namaIbu: familyBackground.namaIbu || "",
+      pekerjaanIbu: familyBackground.pekerjaanIbu || "",
+      jumlahSaudara: familyBackground.sibling_count?.toString() || "",
+      anakKe: familyBackground.birth_order?.toString() || "",
+    },
+    kondisiIbadah: {
+      shalat: worshipProfile.shalat || "",
+      shaum: worshipProfile.shaum || "",
+      tilawah: worshipProfile.tilawah || "",
+      tahajud: worshipProfile.tahajud || "",
+      kebiasaanIbadah: worshipProfile.kebiasaanIbadah || "",
+      shalatFardu: worshipProfile.prayer_fardu || "",
+      bacaanQuran: worshipProfile.quran_reading || "",
+      shalatSunnah: worshipProfile.prayer_sunnah || "",
+      hafalanQuran: worshipProfile.quran_memorization || "",
+      puasa: worshipProfile.fasting || "",
+      kajian: worshipProfile.kajian || "",
+    },
+    kriteriaPasangan: {
+      usia: spouseCriteria.desired_age || "",
+      pendidikan: spouseCriteria.desired_education || "",
+      pekerjaan: spouseCriteria.pekerjaan || "",
+      sifatKepribadian: spouseCriteria.sifatKepribadian || "",
+      kriteriaKhusus: spouseCriteria.special_criteria || [],
+      usiaCriteria: spouseCriteria.desired_age || "",
+      pendidikanCriteria: spouseCriteria.desired_education || "",
+      penghasilanCriteria: spouseCriteria.desired_income || "",
+      penghasilan: spouseCriteria.desired_income || "",
+      ciriFisik: spouseCriteria.desired_physical_traits || "",
+    },
+    rencanaPernikahan: {
+      target: marriagePlan.target || "",
+      persiapan: marriagePlan.persiapan || "",
+      lokasiTinggal: marriagePlan.living_location || "",
+      visiPernikahan: marriagePlan.visiPernikahan || "",
+      tahunNikah: marriagePlan.marriage_year || "",
+      tempatTinggal: marriagePlan.living_location || "",
+      visi: marriagePlan.vision || "",
+      misi: marriagePlan.mission || "",
+    },
+  };
+
+  return result;
+}
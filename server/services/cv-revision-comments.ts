@@ -0,0 +1,86 @@
+/**
+ * CV Revision Comment Service
+ * Per-field comments an admin attaches when sending a CV back for revision.
+ * Open comments gate the next resubmission in saveCvData.
+ */
+
+import type { createClient } from "@/server/db/client";
+import type { CvRevisionComment } from "@/types/database.types";
+import type { CvRevisionFieldKey } from "@/features/cv/lib/revision-fields";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface CvRevisionCommentInput {
+  field: CvRevisionFieldKey;
+  comment: string;
+}
+
+/**
+ * Open (unresolved) comments for a user, oldest first
+ */
+export async function getOpenRevisionComments(
+  supabase: DbClient,
+  userId: string
+): Promise<CvRevisionComment[]> {
+  const { data, error } = await supabase
+    .from("cv_revision_comments")
+    .select("*")
+    .eq("user_id", userId)
+    .is("resolved_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[getOpenRevisionComments] Error:", error);
+    return [];
+  }
+
+  return (data || []) as CvRevisionComment[];
+}
+
+/**
+ * Attach comments to a CV (admin only, enforced by RLS)
+ * A field flagged again replaces its previous open comment.
+ */
+export async function createRevisionComments(
+  supabase: DbClient,
+  userId: string,
+  adminId: string,
+  comments: CvRevisionCommentInput[]
+) {
+  if (comments.length === 0) return { success: true, error: null };
+
+  const fields = comments.map((c) => c.field);
+
+  await supabase
+    .from("cv_revision_comments")
+    .update({ resolved_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .in("field_key", fields)
+    .is("resolved_at", null);
+
+  const { error } = await supabase.from("cv_revision_comments").insert(
+    comments.map((c) => ({
+      user_id: userId,
+      field_key: c.field,
+      comment: c.comment.trim(),
+      created_by: adminId,
+    }))
+  );
+
+  if (error) {
+    console.error("[createRevisionComments] Error:", error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, error: null };
+}
+
+/**
+ * Close the current user's open comments after a successful resubmission
+ */
+export async function resolveRevisionComments(supabase: DbClient) {
+  const { error } = await supabase.rpc("resolve_cv_revision_comments");
+  if (error) {
+    console.error("[resolveRevisionComments] Error:", error);
+  }
+}
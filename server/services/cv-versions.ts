@@ -0,0 +1,113 @@
+/**
+ * CV Version Service
+ * Snapshots every submission to REVIEW into cv_versions and records the
+ * admin decision on it, so the next review can diff against it.
+ *
+ * Snapshot/review failures are logged, never thrown: the CV save or the
+ * review itself has already succeeded at that point.
+ */
+
+import type { createClient } from "@/server/db/client";
+import { diffCvVersions, type CvFieldChange, type CvVersionSnapshot } from "@/features/cv/lib/versions";
+import type { CvVersion, CvVersionRpcResult } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface CvRevisionDiff {
+  current: Pick<CvVersion, "id" | "version_number" | "submitted_at">;
+  /** Last version an admin reviewed, null on a first submission */
+  previous: Pick<
+    CvVersion,
+    "id" | "version_number" | "submitted_at" | "review_decision" | "admin_note" | "reviewed_at"
+  > | null;
+  changes: CvFieldChange[];
+}
+
+/**
+ * Snapshot the user's current cv_data + cv_details
+ * Call after both tables are saved with status REVIEW.
+ */
+export async function snapshotCvVersion(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase.rpc("snapshot_cv_version", { p_user_id: userId });
+
+  const result = ((data || []) as CvVersionRpcResult[])[0];
+  if (error || !result || result.error_code) {
+    console.error("[snapshotCvVersion] Failed:", error || result?.error_code);
+    return null;
+  }
+
+  return result.version_number;
+}
+
+/**
+ * Record an admin decision on the newest unreviewed version
+ */
+export async function recordCvReview(
+  supabase: DbClient,
+  userId: string,
+  decision: "APPROVED" | "REVISI",
+  adminNote?: string | null
+) {
+  const { data, error } = await supabase.rpc("record_cv_review", {
+    p_user_id: userId,
+    p_decision: decision,
+    p_note: adminNote ?? null,
+  });
+
+  const result = ((data || []) as CvVersionRpcResult[])[0];
+  if (error || result?.error_code) {
+    // NO_PENDING_VERSION: CV submitted before versioning existed
+    if (result?.error_code !== "NO_PENDING_VERSION") {
+      console.error("[recordCvReview] Failed:", error || result?.error_code);
+    }
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Diff the newest submission against the last reviewed version
+ * Returns null when the user has no snapshot yet.
+ */
+export async function getCvRevisionDiff(
+  supabase: DbClient,
+  userId: string
+): Promise<CvRevisionDiff | null> {
+  const { data, error } = await supabase
+    .from("cv_versions")
+    .select("id, version_number, cv_data, cv_details, submitted_at, review_decision, admin_note, reviewed_at")
+    .eq("user_id", userId)
+    .order("version_number", { ascending: false })
+    .limit(20);
+
+  if (error) {
+    console.error("[getCvRevisionDiff] Error:", error);
+    return null;
+  }
+
+  const versions = (data || []) as CvVersion[];
+  const current = versions[0];
+  if (!current) return null;
+
+  const previous = versions.slice(1).find((v) => v.review_decision !== null) ?? null;
+
+  return {
+    current: {
+      id: current.id,
+      version_number: current.version_number,
+      submitted_at: current.submitted_at,
+    },
+    previous: previous && {
+      id: previous.id,
+      version_number: previous.version_number,
+      submitted_at: previous.submitted_at,
+      review_decision: previous.review_decision,
+      admin_note: previous.admin_note,
+      reviewed_at: previous.reviewed_at,
+    },
+    changes: previous
+      ? diffCvVersions(previous as CvVersionSnapshot, current as CvVersionSnapshot)
+      : [],
+  };
+}
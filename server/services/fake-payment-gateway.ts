@@ -0,0 +1,151 @@
+/**
+ * Fake Payment Gateway (Midtrans simulator)
+ * Issues local snap tokens and a local pay page (/koin-saya/simulasi/[token]).
+ * Paying, failing or expiring there POSTs a correctly signed notification to
+ * /api/webhooks/midtrans, so topup → credit → spend runs without the network.
+ *
+ * Status lookups read the notifications the simulator already delivered
+ * (payment_webhook_inbox); an order without any is still pending.
+ */
+
+import { createAdminClient } from "@/server/db/client";
+import type { PaymentGateway } from "./payment-gateway";
+import { signMidtransNotification, type MidtransNotification } from "./payment-webhooks";
+
+export type FakePaymentAction = "pay" | "fail" | "expire";
+
+export const FAKE_PAYMENT_ACTIONS: FakePaymentAction[] = ["pay", "fail", "expire"];
+
+const TOKEN_PREFIX = "fake-";
+
+/** Midtrans transaction_status / status_code per simulator action */
+const ACTION_STATUS: Record<FakePaymentAction, { transactionStatus: string; statusCode: string }> = {
+  pay: { transactionStatus: "settlement", statusCode: "200" },
+  fail: { transactionStatus: "deny", statusCode: "202" },
+  expire: { transactionStatus: "expire", statusCode: "407" },
+};
+
+export interface FakeSnapToken {
+  orderId: string;
+  grossAmount: number;
+}
+
+function appUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+}
+
+export function encodeFakeSnapToken(token: FakeSnapToken): string {
+  return TOKEN_PREFIX + Buffer.from(JSON.stringify(token)).toString("base64url");
+}
+
+export function decodeFakeSnapToken(token: string): FakeSnapToken | null {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(token.slice(TOKEN_PREFIX.length), "base64url").toString("utf8")
+    );
+    if (typeof decoded?.orderId !== "string" || typeof decoded?.grossAmount !== "number") {
+      return null;
+    }
+    return decoded as FakeSnapToken;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signed notification body as Midtrans would send it
+ */
+export function buildFakeNotification(
+  orderId: string,
+  grossAmount: number,
+  transactionStatus: string,
+  statusCode: string
+): MidtransNotification {
+  const gross = grossAmount.toFixed(2);
+  const now = new Date().toISOString().replace("T", " ").slice(0, 19);
+
+  return {
+    order_id: orderId,
+    status_code: statusCode,
+    gross_amount: gross,
+    signature_key: signMidtransNotification(orderId, statusCode, gross),
+    transaction_status: transactionStatus,
+    transaction_id: `fake-${orderId}`,
+    transaction_time: now,
+    settlement_time: transactionStatus === "settlement" ? now : undefined,
+    fraud_status: "accept",
+    payment_type: "fake",
+    currency: "IDR",
+  };
+}
+
+/**
+ * Deliver a simulator action to the webhook over HTTP (same path as Midtrans)
+ */
+export async function sendFakeNotification(token: FakeSnapToken, action: FakePaymentAction) {
+  const { transactionStatus, statusCode } = ACTION_STATUS[action];
+  const notification = buildFakeNotification(
+    token.orderId,
+    token.grossAmount,
+    transactionStatus,
+    statusCode
+  );
+
+  const response = await fetch(`${appUrl()}/api/webhooks/midtrans`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(notification),
+  });
+
+  const body = await response.json().catch(() => null);
+
+  return {
+    success: response.ok,
+    status: response.status,
+    transactionStatus,
+    body,
+  };
+}
+
+export const fakePaymentGateway: PaymentGateway = {
+  name: "fake",
+
+  async createTransaction(request) {
+    const token = encodeFakeSnapToken({
+      orderId: request.orderId,
+      grossAmount: request.grossAmount,
+    });
+
+    return {
+      token,
+      redirectUrl: `${appUrl()}/koin-saya/simulasi/${token}`,
+    };
+  },
+
+  async getTransactionStatus(orderId) {
+    const supabase = createAdminClient();
+
+    const { data } = await supabase
+      .from("payment_webhook_inbox")
+      .select("payload")
+      .eq("order_id", orderId)
+      .order("last_received_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const delivered = (data as { payload: MidtransNotification } | null)?.payload;
+    if (delivered) return delivered;
+
+    const { data: order } = await supabase
+      .from("koin_topup_orders")
+      .select("amount_cents")
+      .eq("order_id", orderId)
+      .maybeSingle();
+
+    // Not paid yet; gross_amount is only used for the signature here
+    const amount = (order as { amount_cents: number } | null)?.amount_cents ?? 0;
+    return buildFakeNotification(orderId, amount, "pending", "201");
+  },
+};
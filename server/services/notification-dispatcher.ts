@@ -0,0 +1,269 @@
+/**
+ * Notification Dispatcher
+ * Sends the email / WhatsApp copies of in-app notifications. A trigger
+ * queues one notification_deliveries row per channel for every
+ * notifications insert; each dispatcher run (cron) claims the due rows,
+ * renders the Indonesian template and hands it to the channel transport.
+ *
+ * Per delivery:
+ * - SKIPPED: channel off in the user's preferences, no address/number on
+ *   the profile, or no transport configured for the channel
+ * - SENT: transport accepted the message
+ * - PENDING again with backoff on failure, FAILED after MAX_DELIVERY_ATTEMPTS
+ *
+ * Rows with guardian_id are the wali's copy of the user's notification:
+ * sent to the wali's email / phone regardless of the user's preferences,
+ * with a fresh magic link into the session the notification is about.
+ *
+ * Runs with the service-role client (deliveries and outbox have no user
+ * policies).
+ */
+
+import type { createAdminClient } from "@/server/db/client";
+import { getNotificationTransport } from "./notification-transports";
+import { renderNotification, type RenderedNotification } from "./notification-templates";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "./notifications";
+import { createGuardianLink } from "./taaruf-guardians";
+import { guardianLinkPath } from "@/features/taaruf/lib/guardians";
+import type {
+  Notification,
+  NotificationDelivery,
+  NotificationPreferences,
+  Profile,
+  TaarufGuardian,
+} from "@/types/database.types";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/** Wait before retry N (1-based); the attempt after the last entry is final */
+export const DELIVERY_RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+
+export const MAX_DELIVERY_ATTEMPTS = DELIVERY_RETRY_DELAYS_MINUTES.length + 1;
+
+export interface DispatchSummary {
+  claimed: number;
+  sent: number;
+  skipped: number;
+  retrying: number;
+  failed: number;
+}
+
+type DeliveryProfile = Pick<Profile, "user_id" | "email" | "full_name" | "whatsapp_number" | "phone_number">;
+
+type DeliveryPreferences = Pick<NotificationPreferences, "user_id" | "email_enabled" | "whatsapp_enabled">;
+
+type DeliveryGuardian = Pick<TaarufGuardian, "id" | "name" | "email" | "phone">;
+
+/**
+ * 08xx / +62xx / 62xx → 62xx, null when it doesn't look like a phone number
+ */
+export function normalizeWhatsappNumber(raw: string | null) {
+  if (!raw) return null;
+
+  let digits = raw.replace(/\D/g, "");
+  if (digits.startsWith("0")) digits = `62${digits.slice(1)}`;
+  else if (digits.startsWith("8")) digits = `62${digits}`;
+
+  return /^62\d{8,13}$/.test(digits) ? digits : null;
+}
+
+export function nextDeliveryAttemptAt(attempts: number, now = new Date()) {
+  const delay = DELIVERY_RETRY_DELAYS_MINUTES[Math.min(attempts, DELIVERY_RETRY_DELAYS_MINUTES.length) - 1];
+  return new Date(now.getTime() + delay * 60_000);
+}
+
+async function finishDelivery(
+  supabase: AdminClient,
+  deliveryId: number,
+  changes: Partial<NotificationDelivery>
+) {
+  const { error } = await supabase
+    .from("notification_deliveries")
+    .update({ ...changes, locked_at: null, updated_at: new Date().toISOString() })
+    .eq("id", deliveryId);
+
+  if (error) {
+    console.error(`[dispatchNotifications] Failed to update delivery ${deliveryId}:`, error);
+  }
+}
+
+/**
+ * Send one claimed delivery and record the outcome
+ */
+async function processDelivery(
+  supabase: AdminClient,
+  delivery: NotificationDelivery,
+  notification: Notification | undefined,
+  profile: DeliveryProfile | undefined,
+  preferences: DeliveryPreferences | typeof DEFAULT_NOTIFICATION_PREFERENCES,
+  guardian: DeliveryGuardian | undefined
+): Promise<keyof Omit<DispatchSummary, "claimed">> {
+  const skip = async (reason: string) => {
+    await finishDelivery(supabase, delivery.id, { status: "SKIPPED", last_error: reason });
+    return "skipped" as const;
+  };
+
+  if (!notification || !profile) {
+    return skip("Notification or profile no longer exists");
+  }
+
+  const isEmail = delivery.channel === "EMAIL";
+  const isGuardianCopy = delivery.guardian_id !== null;
+  const taarufId = (notification.data as Record<string, unknown> | null)?.taaruf_id;
+
+  if (isGuardianCopy) {
+    if (!guardian) return skip("Guardian no longer exists");
+    if (typeof taarufId !== "number") return skip("Notification has no taaruf session");
+  } else if (isEmail ? !preferences.email_enabled : !preferences.whatsapp_enabled) {
+    return skip("Disabled in user preferences");
+  }
+
+  const recipient = guardian
+    ? isEmail
+      ? guardian.email
+      : normalizeWhatsappNumber(guardian.phone)
+    : isEmail
+      ? profile.email || null
+      : normalizeWhatsappNumber(profile.whatsapp_number || profile.phone_number);
+
+  if (!recipient) {
+    return skip(isEmail ? "No email address" : "No WhatsApp number");
+  }
+
+  const transport = getNotificationTransport(delivery.channel);
+  if (!transport) {
+    return skip(`No transport configured for ${delivery.channel}`);
+  }
+
+  try {
+    let rendered: RenderedNotification;
+    if (guardian) {
+      // A link per message: the one in an older message may have been revoked
+      const token = await createGuardianLink(supabase, guardian.id, taarufId as number);
+      if (!token) throw new Error("Failed to create guardian link");
+
+      rendered = renderNotification(notification, delivery.channel, guardian.name, {
+        wardName: profile.full_name,
+        linkPath: guardianLinkPath(token),
+      });
+    } else {
+      rendered = renderNotification(notification, delivery.channel, profile.full_name);
+    }
+
+    const providerMessageId = await transport.send({
+      deliveryId: delivery.id,
+      channel: delivery.channel,
+      to: recipient,
+      subject: isEmail ? rendered.subject : null,
+      text: rendered.text,
+      attachments: isEmail ? rendered.attachments : undefined,
+    });
+
+    await finishDelivery(supabase, delivery.id, {
+      status: "SENT",
+      transport: transport.name,
+      recipient,
+      provider_message_id: providerMessageId,
+      last_error: null,
+      sent_at: new Date().toISOString(),
+    });
+    return "sent";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isFinal = delivery.attempts >= MAX_DELIVERY_ATTEMPTS;
+
+    console.warn(
+      `[dispatchNotifications] ${delivery.channel} delivery ${delivery.id} attempt ${delivery.attempts} failed:`,
+      message
+    );
+
+    await finishDelivery(supabase, delivery.id, {
+      status: isFinal ? "FAILED" : "PENDING",
+      transport: transport.name,
+      recipient,
+      last_error: message.slice(0, 1000),
+      ...(isFinal ? {} : { next_attempt_at: nextDeliveryAttemptAt(delivery.attempts).toISOString() }),
+    });
+    return isFinal ? "failed" : "retrying";
+  }
+}
+
+/**
+ * One dispatcher run: claim up to `limit` due deliveries and send them
+ */
+export async function dispatchNotifications(supabase: AdminClient, { limit = 50 }: { limit?: number } = {}) {
+  const { data, error } = await supabase.rpc("claim_notification_deliveries", { p_limit: limit });
+
+  if (error) {
+    console.error("[dispatchNotifications] Claim failed:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  const deliveries = (data || []) as NotificationDelivery[];
+  const summary: DispatchSummary = { claimed: deliveries.length, sent: 0, skipped: 0, retrying: 0, failed: 0 };
+
+  if (deliveries.length === 0) {
+    return { success: true, error: null, data: summary };
+  }
+
+  const notificationIds = [...new Set(deliveries.map((d) => d.notification_id))];
+  const userIds = [...new Set(deliveries.map((d) => d.user_id))];
+  const guardianIds = [
+    ...new Set(deliveries.map((d) => d.guardian_id).filter((id): id is number => id !== null)),
+  ];
+
+  const [notificationsResult, profilesResult, preferencesResult, guardiansResult] = await Promise.all([
+    supabase.from("notifications").select("*").in("id", notificationIds),
+    supabase
+      .from("profiles")
+      .select("user_id, email, full_name, whatsapp_number, phone_number")
+      .in("user_id", userIds),
+    supabase
+      .from("notification_preferences")
+      .select("user_id, email_enabled, whatsapp_enabled")
+      .in("user_id", userIds),
+    guardianIds.length > 0
+      ? supabase.from("taaruf_guardians").select("id, name, email, phone").in("id", guardianIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const lookupError =
+    notificationsResult.error || profilesResult.error || preferencesResult.error || guardiansResult.error;
+  if (lookupError) {
+    // Hand the claimed rows straight back so the next run picks them up
+    console.error("[dispatchNotifications] Lookup failed:", lookupError);
+    await supabase
+      .from("notification_deliveries")
+      .update({ status: "PENDING", locked_at: null, updated_at: new Date().toISOString() })
+      .in("id", deliveries.map((d) => d.id));
+    return { success: false, error: lookupError.message, data: null };
+  }
+
+  const notifications = new Map(
+    ((notificationsResult.data || []) as Notification[]).map((n) => [n.id, n])
+  );
+  const profiles = new Map(
+    ((profilesResult.data || []) as DeliveryProfile[]).map((p) => [p.user_id, p])
+  );
+  const preferences = new Map(
+    ((preferencesResult.data || []) as DeliveryPreferences[]).map((p) => [p.user_id, p])
+  );
+  const guardians = new Map(
+    ((guardiansResult.data || []) as DeliveryGuardian[]).map((g) => [g.id, g])
+  );
+
+  // Sequential on purpose: providers rate-limit and a run is small
+  for (const delivery of deliveries) {
+    const outcome = await processDelivery(
+      supabase,
+      delivery,
+      notifications.get(delivery.notification_id),
+      profiles.get(delivery.user_id),
+      preferences.get(delivery.user_id) ?? DEFAULT_NOTIFICATION_PREFERENCES,
+      delivery.guardian_id !== null ? guardians.get(delivery.guardian_id) : undefined
+    );
+    summary[outcome] += 1;
+  }
+
+  return { success: true, error: null, data: summary };
+}
@@ -0,0 +1,316 @@
+/**
+ * Notification Templates
+ * Indonesian email / WhatsApp copy per notification type. The in-app
+ * title and message stay the core of every message; templates add the
+ * subject, the type-specific details and the link back into the app.
+ * Unknown types fall back to title + message.
+ *
+ * Meeting notifications carry the meeting in their data, so the email
+ * gets the calendar invitation (.ics) attached without another query.
+ *
+ * A wali's copy of an akhwat's notification is introduced as such and
+ * links to the wali page (magic link) instead of the app.
+ */
+
+import { getNotificationHref } from "@/features/notifications/lib/links";
+import {
+  buildMeetingIcs,
+  meetingIcsFilename,
+  meetingIcsPath,
+  type MeetingIcsInput,
+} from "@/features/taaruf/lib/meetings";
+import type { SmtpAttachment } from "./smtp";
+import type {
+  Notification,
+  NotificationChannel,
+  TaarufMeetingStatus,
+  TaarufStage,
+} from "@/types/database.types";
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  attachments: SmtpAttachment[];
+}
+
+/** The wali's copy: who it is for and the wali page link to send */
+export interface GuardianCopy {
+  wardName: string | null;
+  linkPath: string;
+}
+
+interface TemplateContext {
+  notification: Notification;
+  data: Record<string, unknown>;
+  guardian?: GuardianCopy;
+}
+
+interface NotificationTemplate {
+  subject: (ctx: TemplateContext) => string;
+  /** Extra lines after the message, e.g. meeting details */
+  details?: (ctx: TemplateContext) => string[];
+  /** Call to action before the link */
+  action: string;
+  /** Replaces the message in the wali's copy */
+  guardianMessage?: (ctx: TemplateContext) => string;
+}
+
+const str = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+function formatDateTime(value: unknown) {
+  const raw = str(value);
+  if (!raw) return null;
+
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) return null;
+
+  // Recipients are in Indonesia; the server clock is UTC
+  return date.toLocaleString("id-ID", {
+    timeZone: "Asia/Jakarta",
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function meetingDetails({ data, guardian }: TemplateContext) {
+  const lines: string[] = [];
+  const when = formatDateTime(data.meeting_datetime);
+  if (when) lines.push(`Waktu: ${when} WIB`);
+  if (str(data.zoom_link)) lines.push(`Link Zoom: ${data.zoom_link}`);
+  if (str(data.notes)) lines.push(`Catatan: ${data.notes}`);
+  // The calendar route needs a login; the wali has the .ics attachment
+  if (typeof data.meeting_id === "number" && !guardian) {
+    lines.push(`Tambahkan ke kalender: ${appUrl()}${meetingIcsPath(data.meeting_id)}`);
+  }
+  return lines;
+}
+
+/**
+ * Invitation (or cancellation) for notifications written by the meetings
+ * service; older ZOOM_SCHEDULED rows without meeting_id get none
+ */
+function meetingInvitation(data: Record<string, unknown>): SmtpAttachment[] {
+  const scheduledAt = str(data.meeting_datetime);
+  const endsAt = str(data.ends_at);
+  const zoomLink = str(data.zoom_link);
+  if (typeof data.meeting_id !== "number" || !scheduledAt || !endsAt || !zoomLink) {
+    return [];
+  }
+
+  const meeting: MeetingIcsInput = {
+    id: data.meeting_id,
+    stage: (str(data.stage) || "Zoom 1") as TaarufStage,
+    scheduled_at: scheduledAt,
+    ends_at: endsAt,
+    zoom_link: zoomLink,
+    notes: str(data.notes),
+    status: (str(data.status) || "SCHEDULED") as TaarufMeetingStatus,
+    reschedule_count: typeof data.reschedule_count === "number" ? data.reschedule_count : 0,
+    taarufCode: str(data.taaruf_code),
+  };
+  const cancelled = meeting.status === "CANCELLED";
+
+  return [
+    {
+      filename: meetingIcsFilename(meeting),
+      contentType: `text/calendar; method=${cancelled ? "CANCEL" : "PUBLISH"}`,
+      content: buildMeetingIcs(meeting),
+    },
+  ];
+}
+
+const TEMPLATES: Record<string, NotificationTemplate> = {
+  TAARUF_REQUEST_RECEIVED: {
+    subject: () => "Ada Pengajuan Taaruf Baru untuk Anda",
+    details: ({ data }) => {
+      const expiresAt = formatDateTime(data.expires_at);
+      return expiresAt
+        ? [`Mohon beri jawaban sebelum ${expiresAt} WIB. Pengajuan yang tidak dijawab akan kedaluwarsa.`]
+        : ["Mohon beri jawaban dalam 72 jam. Pengajuan yang tidak dijawab akan kedaluwarsa."];
+    },
+    action: "Tinjau pengajuan di Roomah",
+  },
+  TAARUF_STAGE_UPDATED: {
+    subject: ({ notification }) => notification.title,
+    details: ({ data }) => {
+      const code = str(data.taaruf_code);
+      return code ? [`Kode Taaruf: ${code}`] : [];
+    },
+    action: "Lihat proses Taaruf Anda",
+  },
+  TAARUF_REQUEST_REJECTED: {
+    subject: () => "Pengajuan Taaruf Anda Belum Diterima",
+    details: () => ["Jangan berkecil hati, Anda dapat mengajukan Taaruf kepada kandidat lain."],
+    action: "Cari kandidat lain",
+  },
+  TAARUF_REQUEST_EXPIRED: {
+    subject: ({ notification }) => notification.title,
+    action: "Lihat riwayat Taaruf",
+  },
+  ZOOM_SCHEDULED: {
+    subject: ({ notification }) => notification.title,
+    details: meetingDetails,
+    action: "Lihat jadwal pertemuan",
+  },
+  MEETING_RESCHEDULED: {
+    subject: ({ notification }) => notification.title,
+    details: meetingDetails,
+    action: "Lihat jadwal pertemuan",
+  },
+  MEETING_CANCELLED: {
+    subject: ({ notification }) => notification.title,
+    details: ({ data }) => {
+      const reason = str(data.cancel_reason);
+      return reason ? [`Alasan: ${reason}`] : [];
+    },
+    action: "Lihat proses Taaruf Anda",
+  },
+  TAARUF_ENDED: {
+    subject: ({ notification }) => notification.title,
+    action: "Lihat riwayat Taaruf",
+  },
+  CV_APPROVED: {
+    subject: () => "CV Anda Telah Disetujui",
+    details: ({ data }) => {
+      const code = str(data.candidate_code);
+      return code ? [`Kode Kandidat: ${code}`] : [];
+    },
+    action: "Mulai cari jodoh",
+  },
+  SAVED_SEARCH_MATCHES: {
+    subject: ({ notification }) => notification.title,
+    details: ({ data }) => {
+      const searches = Array.isArray(data.searches) ? (data.searches as Record<string, unknown>[]) : [];
+      return searches.map((search) => {
+        const codes = Array.isArray(search.candidate_codes) ? search.candidate_codes.join(", ") : "";
+        return `- ${search.name}: ${search.count} kandidat baru${codes ? ` (${codes})` : ""}`;
+      });
+    },
+    action: "Lihat kandidat baru",
+  },
+  CV_REVISION: {
+    subject: () => "CV Anda Perlu Diperbaiki",
+    details: ({ data }) => {
+      const note = str(data.admin_note);
+      return note ? [`Catatan admin: ${note}`] : [];
+    },
+    action: "Perbaiki CV Anda",
+  },
+  TAARUF_QUESTION_RECEIVED: {
+    subject: ({ notification }) => notification.title,
+    details: () => ["Pertanyaan ini telah ditinjau admin Roomah."],
+    action: "Jawab pertanyaan",
+  },
+  TAARUF_ANSWER_RECEIVED: {
+    subject: ({ notification }) => notification.title,
+    action: "Baca jawaban",
+  },
+  TAARUF_QA_REJECTED: {
+    subject: ({ notification }) => notification.title,
+    details: () => ["Anda dapat menulis ulang pesan dengan memperhatikan alasan di atas."],
+    action: "Lihat tanya jawab",
+  },
+  GUARDIAN_INVITED: {
+    subject: ({ notification, guardian }) => (guardian ? "Undangan Wali Taaruf di Roomah" : notification.title),
+    guardianMessage: ({ data, guardian }) => {
+      const code = str(data.taaruf_code);
+      return `${guardian?.wardName || "Putri Anda"} mengundang Anda sebagai wali dalam proses Taaruf${code ? ` ${code}` : ""} di Roomah. Melalui tautan di bawah Anda dapat membaca CV kedua pihak, melihat jadwal pertemuan dan mengonfirmasi kehadiran Anda.`;
+    },
+    action: "Lihat proses Taaruf Anda",
+  },
+  SOCIAL_POST_SCHEDULED: {
+    subject: ({ notification }) => notification.title,
+    details: ({ data }) => {
+      const when = formatDateTime(data.scheduled_at);
+      return when ? [`Jadwal posting: ${when} WIB`] : [];
+    },
+    action: "Lihat CV Anda",
+  },
+  SOCIAL_POST_PUBLISHED: {
+    subject: ({ notification }) => notification.title,
+    details: ({ data }) => {
+      const url = str(data.post_url);
+      return url ? [`Lihat postingan: ${url}`] : [];
+    },
+    action: "Lihat CV Anda",
+  },
+  SOCIAL_POST_REJECTED: {
+    subject: ({ notification }) => notification.title,
+    details: ({ data }) => {
+      const reason = str(data.reason);
+      return reason ? [`Alasan: ${reason}`] : [];
+    },
+    action: "Lihat CV Anda",
+  },
+};
+
+function appUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+}
+
+function guardianMessage(ctx: TemplateContext, template: NotificationTemplate | undefined) {
+  if (template?.guardianMessage) return template.guardianMessage(ctx);
+
+  const code = str(ctx.data.taaruf_code);
+  return `Pemberitahuan untuk ${ctx.guardian?.wardName || "taaruf yang Anda dampingi"}${code ? ` (Taaruf ${code})` : ""}: ${ctx.notification.message || ctx.notification.title}`;
+}
+
+/**
+ * Render a notification for one channel. Email gets a greeting and a
+ * signature; WhatsApp stays short with the title in bold. Pass `guardian`
+ * for the wali's copy.
+ */
+export function renderNotification(
+  notification: Notification,
+  channel: NotificationChannel,
+  recipientName: string | null,
+  guardian?: GuardianCopy
+): RenderedNotification {
+  const data = (notification.data || {}) as Record<string, unknown>;
+  const ctx = { notification, data, guardian };
+  const template = TEMPLATES[notification.type];
+
+  const subject = template ? template.subject(ctx) : notification.title;
+  const details = template?.details?.(ctx) ?? [];
+  const action = guardian ? "Buka halaman wali" : (template?.action ?? "Buka Roomah");
+  const link = `${appUrl()}${guardian ? guardian.linkPath : getNotificationHref(notification)}`;
+  const message = guardian ? guardianMessage(ctx, template) : notification.message || notification.title;
+  const body = [message, ...details];
+
+  if (channel === "WHATSAPP") {
+    return {
+      subject,
+      text: [`*${subject}*`, "", ...body, "", `${action}: ${link}`].join("\n"),
+      attachments: [],
+    };
+  }
+
+  return {
+    subject,
+    attachments: meetingInvitation(data),
+    text: [
+      `Assalamu'alaikum ${recipientName || "Sahabat Roomah"},`,
+      "",
+      ...body,
+      "",
+      `${action}: ${link}`,
+      "",
+      "Wassalamu'alaikum,",
+      "Tim Roomah",
+      "",
+      ...(guardian
+        ? [
+            `Anda menerima email ini karena ${guardian.wardName || "peserta taaruf yang Anda dampingi"} mendaftarkan Anda sebagai wali di Roomah.`,
+            "Tautan di atas bersifat pribadi, mohon tidak dibagikan.",
+          ]
+        : [
+            "Anda menerima email ini karena notifikasi email aktif di akun Roomah Anda.",
+            `Atur notifikasi: ${appUrl()}/notifikasi`,
+          ]),
+    ].join("\n"),
+  };
+}
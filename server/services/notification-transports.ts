@@ -0,0 +1,133 @@
+/**
+ * Notification Transports
+ * Outbound providers for the notification dispatcher, one per channel:
+ * - EMAIL: SMTP (see smtp.ts), enabled by SMTP_HOST
+ * - WHATSAPP: Fonnte-compatible HTTP API, enabled by WHATSAPP_API_TOKEN
+ * - outbox: stores the message in notification_outbox instead of sending,
+ *   for local development and automated tests
+ *
+ * NOTIFICATION_TRANSPORT=outbox forces the outbox for every channel. A
+ * channel without provider config falls back to the outbox outside
+ * production and is switched off in production.
+ */
+
+import { createAdminClient } from "@/server/db/client";
+import { getSmtpConfig, sendSmtpMail, type SmtpAttachment } from "./smtp";
+import type { NotificationChannel, NotificationOutboxMessage } from "@/types/database.types";
+
+export type NotificationTransportName = "smtp" | "whatsapp" | "outbox";
+
+export interface OutboundMessage {
+  deliveryId: number;
+  channel: NotificationChannel;
+  /** Email address or WhatsApp number (62...) */
+  to: string;
+  /** Email only */
+  subject: string | null;
+  text: string;
+  /** Email only, e.g. the meeting invitation (.ics) */
+  attachments?: SmtpAttachment[];
+}
+
+export interface NotificationTransport {
+  readonly name: NotificationTransportName;
+  /** Resolves with the provider's message id; throws when sending failed */
+  send(message: OutboundMessage): Promise<string | null>;
+}
+
+export const smtpTransport: NotificationTransport = {
+  name: "smtp",
+
+  async send(message) {
+    const config = getSmtpConfig();
+    if (!config) {
+      throw new Error("SMTP belum dikonfigurasi");
+    }
+
+    return sendSmtpMail(config, {
+      to: message.to,
+      subject: message.subject || "Notifikasi Roomah",
+      text: message.text,
+      attachments: message.attachments,
+    });
+  },
+};
+
+export const whatsappTransport: NotificationTransport = {
+  name: "whatsapp",
+
+  async send(message) {
+    const token = process.env.WHATSAPP_API_TOKEN;
+    if (!token) {
+      throw new Error("WhatsApp provider belum dikonfigurasi");
+    }
+
+    const response = await fetch(process.env.WHATSAPP_API_URL || "https://api.fonnte.com/send", {
+      method: "POST",
+      headers: {
+        Authorization: token,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        target: message.to,
+        message: message.text,
+        countryCode: "62",
+      }),
+    });
+
+    const body = await response.json().catch(() => null);
+
+    // Fonnte answers 200 with { status: false, reason } on rejected sends
+    if (!response.ok || body?.status === false) {
+      throw new Error(`WhatsApp provider error: ${body?.reason || response.status}`);
+    }
+
+    const id = Array.isArray(body?.id) ? body.id[0] : body?.id;
+    return id ? String(id) : null;
+  },
+};
+
+export const outboxTransport: NotificationTransport = {
+  name: "outbox",
+
+  async send(message) {
+    const { data, error } = await createAdminClient()
+      .from("notification_outbox")
+      .insert({
+        delivery_id: message.deliveryId,
+        channel: message.channel,
+        recipient: message.to,
+        subject: message.subject,
+        body: message.text,
+        attachments: message.attachments ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Outbox insert failed: ${error?.message || "no row"}`);
+    }
+
+    return `outbox-${(data as Pick<NotificationOutboxMessage, "id">).id}`;
+  },
+};
+
+/**
+ * Transport for a channel, or null when the channel is switched off
+ */
+export function getNotificationTransport(channel: NotificationChannel): NotificationTransport | null {
+  if (process.env.NOTIFICATION_TRANSPORT === "outbox") {
+    return outboxTransport;
+  }
+
+  const configured =
+    channel === "EMAIL"
+      ? getSmtpConfig() && smtpTransport
+      : process.env.WHATSAPP_API_TOKEN && whatsappTransport;
+
+  if (configured) {
+    return configured;
+  }
+
+  return process.env.NODE_ENV !== "production" ? outboxTransport : null;
+}
@@ -0,0 +1,251 @@
+/**
+ * Notifications Service
+ * A user's in-app inbox (notifications). Reads and updates go through the
+ * caller's client, so RLS keeps every user to their own rows. Inserts go
+ * through the service role only - users can't write notifications.
+ *
+ * Every inserted notification is also queued for email / WhatsApp delivery
+ * (see notification-dispatcher.ts), subject to the user's preferences.
+ */
+
+import { createAdminClient, type createClient } from "@/server/db/client";
+import type { Json, Notification, NotificationPreferences } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * One page of notifications (newest first) plus the unread count
+ */
+export async function listNotifications(
+  supabase: DbClient,
+  userId: string,
+  { page = 1, limit = 20, unreadOnly = false }: { page?: number; limit?: number; unreadOnly?: boolean } = {}
+) {
+  const offset = (page - 1) * limit;
+
+  let query = supabase
+    .from("notifications")
+    .select("*", { count: "exact" })
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (unreadOnly) {
+    query = query.eq("is_read", false);
+  }
+
+  const [{ data, error, count }, unread] = await Promise.all([
+    query,
+    getUnreadNotificationCount(supabase, userId),
+  ]);
+
+  if (error) {
+    console.error("[listNotifications] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  const total = count || 0;
+
+  return {
+    success: true,
+    error: null,
+    data: {
+      notifications: (data || []) as Notification[],
+      unreadCount: unread,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    },
+  };
+}
+
+export async function getUnreadNotificationCount(supabase: DbClient, userId: string) {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("is_read", false);
+
+  if (error) {
+    console.error("[getUnreadNotificationCount] Error:", error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Mark the given notifications (or, with ids = null, all of them) as read
+ */
+export async function markNotificationsRead(
+  supabase: DbClient,
+  userId: string,
+  ids: number[] | null
+) {
+  let query = supabase
+    .from("notifications")
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("is_read", false);
+
+  if (ids) {
+    query = query.in("id", ids);
+  }
+
+  const { data, error } = await query.select("id");
+
+  if (error) {
+    console.error("[markNotificationsRead] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: { updated: (data || []).length } };
+}
+
+/**
+ * Create a notification for a user. Failures are logged, never thrown:
+ * the event that triggered it has already happened.
+ */
+export async function createNotification(
+  notification: { userId: string; type: string; title: string; message: string; data?: Json }
+) {
+  const { error } = await createAdminClient().from("notifications").insert({
+    user_id: notification.userId,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    data: notification.data ?? null,
+  });
+
+  if (error) {
+    console.error(`[createNotification] ${notification.type} failed:`, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Tell the candidate the outcome of an admin CV review
+ */
+export async function notifyCvReviewed(
+  userId: string,
+  decision: "APPROVED" | "REVISI",
+  details: { candidateCode?: string | null; adminNote?: string | null } = {}
+) {
+  if (decision === "APPROVED") {
+    return createNotification({
+      userId,
+      type: "CV_APPROVED",
+      title: "CV Disetujui",
+      message: details.candidateCode
+        ? `CV Anda telah disetujui dengan kode kandidat ${details.candidateCode}. Anda sudah dapat mencari jodoh dan mengajukan Taaruf.`
+        : "CV Anda telah disetujui. Anda sudah dapat mencari jodoh dan mengajukan Taaruf.",
+      data: { candidate_code: details.candidateCode ?? null },
+    });
+  }
+
+  return createNotification({
+    userId,
+    type: "CV_REVISION",
+    title: "CV Perlu Revisi",
+    message: "Admin meminta Anda memperbaiki beberapa bagian CV sebelum dapat disetujui.",
+    data: { admin_note: details.adminNote ?? null },
+  });
+}
+
+/**
+ * Tell the candidate what happened to their social media post request
+ */
+export async function notifySocialMediaPost(
+  userId: string,
+  event: "SCHEDULED" | "POSTED" | "REJECTED",
+  details: { scheduledAt?: string | null; postUrl?: string | null; reason?: string | null } = {}
+) {
+  if (event === "SCHEDULED") {
+    return createNotification({
+      userId,
+      type: "SOCIAL_POST_SCHEDULED",
+      title: "Posting Media Sosial Dijadwalkan",
+      message: "CV Anda sudah dijadwalkan untuk diposting di media sosial Roomah.",
+      data: { scheduled_at: details.scheduledAt ?? null },
+    });
+  }
+
+  if (event === "POSTED") {
+    return createNotification({
+      userId,
+      type: "SOCIAL_POST_PUBLISHED",
+      title: "CV Diposting di Media Sosial",
+      message: "CV Anda sudah diposting di media sosial Roomah. Semoga segera bertemu jodoh!",
+      data: { post_url: details.postUrl ?? null },
+    });
+  }
+
+  return createNotification({
+    userId,
+    type: "SOCIAL_POST_REJECTED",
+    title: "Posting Media Sosial Ditolak",
+    message: "Pengajuan posting media sosial Anda ditolak dan 5 koin telah dikembalikan ke saldo Anda.",
+    data: { reason: details.reason ?? null },
+  });
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  email_enabled: true,
+  whatsapp_enabled: true,
+};
+
+/**
+ * Outbound channel switches (defaults when the user never saved any)
+ */
+export async function getNotificationPreferences(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("email_enabled, whatsapp_enabled")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getNotificationPreferences] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return {
+    success: true,
+    error: null,
+    data: (data as Pick<NotificationPreferences, "email_enabled" | "whatsapp_enabled"> | null) ??
+      DEFAULT_NOTIFICATION_PREFERENCES,
+  };
+}
+
+export async function updateNotificationPreferences(
+  supabase: DbClient,
+  userId: string,
+  changes: { emailEnabled?: boolean; whatsappEnabled?: boolean }
+) {
+  const current = await getNotificationPreferences(supabase, userId);
+  if (!current.success || !current.data) {
+    return current;
+  }
+
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .upsert({
+      user_id: userId,
+      email_enabled: changes.emailEnabled ?? current.data.email_enabled,
+      whatsapp_enabled: changes.whatsappEnabled ?? current.data.whatsapp_enabled,
+      updated_at: new Date().toISOString(),
+    })
+    .select("email_enabled, whatsapp_enabled")
+    .single();
+
+  if (error) {
+    console.error("[updateNotificationPreferences] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return {
+    success: true,
+    error: null,
+    data: data as Pick<NotificationPreferences, "email_enabled" | "whatsapp_enabled">,
+  };
+}
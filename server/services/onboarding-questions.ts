@@ -0,0 +1,182 @@
+/**
+ * Onboarding Questions Service
+ * The five onboarding questions (onboarding_questions) and the flags a
+ * candidate's answers produced (onboarding_verifications.flags). What each
+ * consequence means is described in features/auth/lib/fiveq.ts.
+ */
+
+import type { createClient } from "@/server/db/client";
+import type {
+  OnboardingConsequence,
+  OnboardingFlag,
+  OnboardingQuestion,
+} from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface OnboardingQuestionInput {
+  question: string;
+  commitmentText: string | null;
+  negativeConsequence: OnboardingConsequence;
+  blockMessage: string | null;
+}
+
+/** What the reviewer sees in the CV review modal */
+export interface OnboardingReview {
+  answers: { questionId: number; answer: boolean }[];
+  committed: boolean;
+  flags: OnboardingFlag[];
+  requiresInterview: boolean;
+  interviewCompletedAt: string | null;
+  answeredAt: string | null;
+}
+
+/**
+ * All five questions in order
+ */
+export async function listOnboardingQuestions(supabase: DbClient) {
+  const { data, error } = await supabase
+    .from("onboarding_questions")
+    .select("*")
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("[listOnboardingQuestions] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: (data || []) as OnboardingQuestion[] };
+}
+
+/**
+ * Change wording / consequence of one question (admin or service role client)
+ */
+export async function updateOnboardingQuestion(
+  supabase: DbClient,
+  id: number,
+  input: OnboardingQuestionInput,
+  updatedBy: string
+) {
+  const { data, error } = await supabase
+    .from("onboarding_questions")
+    .update({
+      question: input.question,
+      commitment_text: input.commitmentText,
+      negative_consequence: input.negativeConsequence,
+      block_message: input.blockMessage,
+      updated_by: updatedBy,
+    })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[updateOnboardingQuestion] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR", data: null };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: "Pertanyaan tidak ditemukan",
+      errorCode: "NOT_FOUND",
+      data: null,
+    };
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as OnboardingQuestion };
+}
+
+/**
+ * 5Q answers and flags of one candidate, null if they never answered
+ * (service role client - onboarding_verifications is owner-only)
+ */
+export async function getOnboardingReview(
+  supabase: DbClient,
+  userId: string
+): Promise<OnboardingReview | null> {
+  const { data, error } = await supabase
+    .from("onboarding_verifications")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getOnboardingReview] Error:", error);
+    return null;
+  }
+
+  if (!data) return null;
+
+  const row = data as {
+    q1: boolean;
+    q2: boolean;
+    q3: boolean;
+    q4: boolean;
+    q5: boolean;
+    committed: boolean;
+    flags: OnboardingFlag[] | null;
+    requires_interview: boolean;
+    interview_completed_at: string | null;
+    updated_at: string | null;
+  };
+
+  return {
+    answers: [row.q1, row.q2, row.q3, row.q4, row.q5].map((answer, index) => ({
+      questionId: index + 1,
+      answer,
+    })),
+    committed: row.committed,
+    flags: row.flags || [],
+    requiresInterview: row.requires_interview,
+    interviewCompletedAt: row.interview_completed_at,
+    answeredAt: row.updated_at,
+  };
+}
+
+/**
+ * True while a REQUIRE_INTERVIEW answer still blocks CV approval
+ */
+export async function isInterviewPending(supabase: DbClient, userId: string) {
+  const review = await getOnboardingReview(supabase, userId);
+  return !!review && review.requiresInterview && !review.interviewCompletedAt;
+}
+
+/**
+ * Record that an admin held the onboarding interview
+ */
+export async function completeOnboardingInterview(
+  supabase: DbClient,
+  userId: string,
+  adminId: string
+) {
+  const { data, error } = await supabase
+    .from("onboarding_verifications")
+    .update({
+      interview_completed_at: new Date().toISOString(),
+      interview_completed_by: adminId,
+    })
+    .eq("user_id", userId)
+    .eq("requires_interview", true)
+    .select("interview_completed_at")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[completeOnboardingInterview] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: "Kandidat tidak memerlukan wawancara",
+      data: null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    data: data as { interview_completed_at: string },
+  };
+}
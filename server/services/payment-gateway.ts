@@ -0,0 +1,129 @@
+/**
+ * Payment Gateway
+ * Thin interface over the Snap API so top-up code doesn't talk to Midtrans
+ * directly. PAYMENT_GATEWAY selects the provider:
+ * - "midtrans" (default): Snap / Core API over the network
+ * - "fake": local simulator (see fake-payment-gateway.ts), for offline
+ *   development and automated tests
+ */
+
+import type { MidtransNotification } from "./payment-webhooks";
+import { fakePaymentGateway } from "./fake-payment-gateway";
+
+export type PaymentGatewayName = "midtrans" | "fake";
+
+export interface SnapTransactionRequest {
+  orderId: string;
+  /** Amount in IDR */
+  grossAmount: number;
+  customer: {
+    firstName: string;
+    email: string;
+  };
+  item: {
+    id: string;
+    name: string;
+    price: number;
+  };
+  callbacks: {
+    finish: string;
+    error: string;
+    pending: string;
+  };
+}
+
+export interface SnapTransaction {
+  token: string;
+  redirectUrl: string;
+}
+
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  createTransaction(request: SnapTransactionRequest): Promise<SnapTransaction>;
+  /** Current status in Midtrans notification shape (incl. signature_key) */
+  getTransactionStatus(orderId: string): Promise<MidtransNotification>;
+}
+
+function midtransAuthHeader() {
+  const serverKey = process.env.MIDTRANS_SERVER_KEY || "";
+  return `Basic ${Buffer.from(serverKey + ":").toString("base64")}`;
+}
+
+export const midtransGateway: PaymentGateway = {
+  name: "midtrans",
+
+  async createTransaction(request) {
+    const snapApiUrl =
+      process.env.MIDTRANS_API_URL || "https://app.sandbox.midtrans.com/snap/v1";
+
+    const response = await fetch(`${snapApiUrl}/transactions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: midtransAuthHeader(),
+      },
+      body: JSON.stringify({
+        transaction_details: {
+          order_id: request.orderId,
+          gross_amount: request.grossAmount,
+        },
+        customer_details: {
+          first_name: request.customer.firstName,
+          email: request.customer.email,
+        },
+        item_details: [
+          {
+            id: request.item.id,
+            price: request.item.price,
+            quantity: 1,
+            name: request.item.name,
+          },
+        ],
+        callbacks: request.callbacks,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Gagal membuat transaksi Midtrans");
+    }
+
+    const snapResponse = await response.json();
+    return { token: snapResponse.token, redirectUrl: snapResponse.redirect_url };
+  },
+
+  async getTransactionStatus(orderId) {
+    const coreApiUrl =
+      process.env.MIDTRANS_IS_PROD === "true"
+        ? "https://api.midtrans.com/v2"
+        : "https://api.sandbox.midtrans.com/v2";
+
+    const response = await fetch(`${coreApiUrl}/${orderId}/status`, {
+      method: "GET",
+      headers: {
+        Authorization: midtransAuthHeader(),
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to check payment status from Midtrans");
+    }
+
+    return (await response.json()) as MidtransNotification;
+  },
+};
+
+/**
+ * Active gateway. The fake one is refused in production unless
+ * ALLOW_FAKE_PAYMENTS=true (e.g. e2e tests against `next start`).
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (process.env.PAYMENT_GATEWAY === "fake") {
+    if (process.env.NODE_ENV !== "production" || process.env.ALLOW_FAKE_PAYMENTS === "true") {
+      return fakePaymentGateway;
+    }
+    console.warn("[getPaymentGateway] PAYMENT_GATEWAY=fake ignored in production");
+  }
+
+  return midtransGateway;
+}
@@ -0,0 +1,184 @@
+/**
+ * Payment Webhook Service
+ * Midtrans notifications go through payment_webhook_inbox:
+ * - every verified payload is stored raw, keyed by (order_id, transaction_status, status_code)
+ * - process_payment_notification() applies it exactly once (order status + ledger)
+ * - admins can replay a row; ledger idempotency keys make that harmless
+ *
+ * Uses admin client - call only from trusted server code (webhook, admin routes).
+ */
+
+import crypto from "crypto";
+import { createAdminClient } from "@/server/db/client";
+import type { PaymentWebhookInbox, ProcessPaymentNotificationResult } from "@/types/database.types";
+
+export interface MidtransNotification {
+  order_id: string;
+  status_code: string;
+  gross_amount: string;
+  signature_key: string;
+  transaction_status: string;
+  fraud_status?: string;
+  payment_type?: string;
+  [key: string]: unknown;
+}
+
+export type PaymentNotificationFilter = "all" | "unprocessed" | "failed";
+
+export type PaymentNotificationOutcome =
+  | { success: true; error: null; errorCode: null; data: ProcessPaymentNotificationResult }
+  | { success: false; error: string; errorCode: string; data: ProcessPaymentNotificationResult | null };
+
+/**
+ * Midtrans signature_key: sha512(order_id + status_code + gross_amount + server_key)
+ */
+export function signMidtransNotification(orderId: string, statusCode: string, grossAmount: string): string {
+  const serverKey = process.env.MIDTRANS_SERVER_KEY || "";
+  return crypto
+    .createHash("sha512")
+    .update(`${orderId}${statusCode}${grossAmount}${serverKey}`)
+    .digest("hex");
+}
+
+export function verifyMidtransSignature(payload: MidtransNotification): boolean {
+  return (
+    payload.signature_key ===
+    signMidtransNotification(payload.order_id, payload.status_code, payload.gross_amount)
+  );
+}
+
+/**
+ * Store a verified notification in the inbox and process it
+ * Retries of an already processed notification return duplicate: true.
+ */
+export async function ingestMidtransNotification(
+  payload: MidtransNotification
+): Promise<PaymentNotificationOutcome> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc("ingest_midtrans_notification", {
+    p_payload: payload,
+  });
+
+  if (error) {
+    console.error("[ingestMidtransNotification] RPC error:", error);
+    return {
+      success: false,
+      error: error.message,
+      errorCode: "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  const result = ((data || []) as ProcessPaymentNotificationResult[])[0];
+
+  if (!result || result.error_code) {
+    return {
+      success: false,
+      error: result?.result || "Gagal memproses notifikasi pembayaran",
+      errorCode: result?.error_code || "UNKNOWN",
+      data: result ?? null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: result,
+  };
+}
+
+/**
+ * Re-run one inbox row, even if it was processed before (admin replay)
+ */
+export async function replayPaymentNotification(
+  inboxId: number
+): Promise<PaymentNotificationOutcome> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.rpc("process_payment_notification", {
+    p_inbox_id: inboxId,
+    p_force: true,
+  });
+
+  if (error) {
+    console.error("[replayPaymentNotification] RPC error:", error);
+    return {
+      success: false,
+      error: error.message,
+      errorCode: "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  const result = ((data || []) as ProcessPaymentNotificationResult[])[0];
+
+  if (!result || result.error_code) {
+    return {
+      success: false,
+      error: result?.result || result?.error_code || "Gagal memproses ulang notifikasi",
+      errorCode: result?.error_code || "UNKNOWN",
+      data: result ?? null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: result,
+  };
+}
+
+/**
+ * List inbox rows, newest first
+ */
+export async function listPaymentNotifications(params: {
+  filter?: PaymentNotificationFilter;
+  orderId?: string;
+  page?: number;
+  limit?: number;
+}) {
+  const supabase = createAdminClient();
+  const page = params.page || 1;
+  const limit = params.limit || 10;
+  const offset = (page - 1) * limit;
+
+  let query = supabase
+    .from("payment_webhook_inbox")
+    .select("*", { count: "exact" })
+    .order("last_received_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (params.filter === "unprocessed") {
+    query = query.is("processed_at", null);
+  } else if (params.filter === "failed") {
+    query = query.not("last_error", "is", null);
+  }
+
+  if (params.orderId) {
+    query = query.ilike("order_id", `%${params.orderId}%`);
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    console.error("[listPaymentNotifications] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return {
+    success: true,
+    error: null,
+    data: {
+      notifications: (data || []) as PaymentWebhookInbox[],
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: count ? Math.ceil(count / limit) : 0,
+      },
+    },
+  };
+}
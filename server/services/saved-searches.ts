@@ -0,0 +1,315 @@
+/**
+ * Saved Searches Service
+ * Named cari-jodoh filters per user, the "baru sejak kunjungan terakhir"
+ * visit marker, and the digest job that tells users about newly approved
+ * CVs matching their saved searches.
+ */
+
+import type { createAdminClient, createClient } from "@/server/db/client";
+import { createNotification } from "./notifications";
+import {
+  MAX_SAVED_SEARCHES,
+  describeSearchFilters,
+  searchFiltersHref,
+  toCandidateFilters,
+} from "@/features/candidates/lib/search-filters";
+import type { CandidateSearchVisit, SavedSearch, SavedSearchFilters } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/** Opening cari-jodoh after this long without it starts a new visit */
+const VISIT_GAP_MINUTES = 30;
+
+/** Candidate codes listed per search in the digest */
+const DIGEST_SAMPLE_SIZE = 3;
+
+const UNIQUE_VIOLATION = "23505";
+
+export async function listSavedSearches(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[listSavedSearches] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: (data || []) as SavedSearch[] };
+}
+
+export async function createSavedSearch(
+  supabase: DbClient,
+  userId: string,
+  input: { name: string; filters: SavedSearchFilters; notify: boolean }
+) {
+  const { count } = await supabase
+    .from("saved_searches")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+    return {
+      success: false,
+      error: `Maksimal ${MAX_SAVED_SEARCHES} pencarian tersimpan`,
+      errorCode: "LIMIT_REACHED",
+      data: null,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      filters: input.filters,
+      notify: input.notify,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    if (error?.code === UNIQUE_VIOLATION) {
+      return {
+        success: false,
+        error: "Nama pencarian sudah dipakai",
+        errorCode: "DUPLICATE_NAME",
+        data: null,
+      };
+    }
+    console.error("[createSavedSearch] Error:", error);
+    return { success: false, error: error?.message || "Gagal menyimpan pencarian", errorCode: "DB_ERROR", data: null };
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as SavedSearch };
+}
+
+export async function updateSavedSearch(
+  supabase: DbClient,
+  userId: string,
+  searchId: number,
+  changes: { name?: string; notify?: boolean }
+) {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .update({
+      ...changes,
+      // Turning alerts back on shouldn't dump everything approved meanwhile
+      ...(changes.notify ? { last_notified_at: new Date().toISOString() } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", searchId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return { success: false, error: "Nama pencarian sudah dipakai", errorCode: "DUPLICATE_NAME", data: null };
+    }
+    console.error("[updateSavedSearch] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR", data: null };
+  }
+
+  if (!data) {
+    return { success: false, error: "Pencarian tidak ditemukan", errorCode: "NOT_FOUND", data: null };
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as SavedSearch };
+}
+
+export async function deleteSavedSearch(supabase: DbClient, userId: string, searchId: number) {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("id", searchId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    console.error("[deleteSavedSearch] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR" };
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: "Pencarian tidak ditemukan", errorCode: "NOT_FOUND" };
+  }
+
+  return { success: true, error: null, errorCode: null };
+}
+
+/**
+ * Record a cari-jodoh page view and return the cutoff for the "baru"
+ * marker: candidates approved after the previous visit. Null on the very
+ * first visit (nothing is "new" yet).
+ */
+export async function touchSearchVisit(supabase: DbClient, userId: string) {
+  const now = new Date();
+
+  const { data } = await supabase
+    .from("candidate_search_visits")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const visit = data as CandidateSearchVisit | null;
+  const isNewVisit =
+    !visit || now.getTime() - new Date(visit.last_seen_at).getTime() > VISIT_GAP_MINUTES * 60_000;
+  const previousVisitAt = visit ? (isNewVisit ? visit.last_seen_at : visit.previous_visit_at) : null;
+
+  const { error } = await supabase.from("candidate_search_visits").upsert({
+    user_id: userId,
+    previous_visit_at: previousVisitAt,
+    last_seen_at: now.toISOString(),
+  });
+
+  if (error) {
+    console.error("[touchSearchVisit] Error:", error);
+  }
+
+  return previousVisitAt;
+}
+
+export interface SavedSearchDigestSummary {
+  searches: number;
+  matchedSearches: number;
+  usersNotified: number;
+}
+
+interface SearchMatches {
+  search: SavedSearch;
+  count: number;
+  codes: string[];
+}
+
+/**
+ * Newly approved candidates for one saved search in (since, until]
+ */
+async function findNewMatches(
+  supabase: AdminClient,
+  search: SavedSearch,
+  until: string
+): Promise<SearchMatches | null> {
+  const filters = toCandidateFilters(search.filters || {});
+
+  let query = supabase
+    .from("approved_candidates_v")
+    .select("candidate_code", { count: "exact" })
+    .gt("approved_at", search.last_notified_at)
+    .lte("approved_at", until)
+    .neq("user_id", search.user_id)
+    .order("approved_at", { ascending: false })
+    .limit(DIGEST_SAMPLE_SIZE);
+
+  if (filters.gender) query = query.eq("gender_label", filters.gender);
+  if (filters.minAge) query = query.gte("age", filters.minAge);
+  if (filters.maxAge) query = query.lte("age", filters.maxAge);
+  if (filters.education) query = query.eq("education", filters.education);
+  if (filters.provinceId) query = query.eq("province_id", filters.provinceId);
+  if (filters.minHeight) query = query.gte("height_cm", filters.minHeight);
+  if (filters.maxHeight) query = query.lte("height_cm", filters.maxHeight);
+  if (filters.maritalStatus) query = query.in("marital_status", filters.maritalStatus);
+  if (filters.incomeBrackets) query = query.in("income_bracket", filters.incomeBrackets);
+  if (filters.salatStatus) query = query.in("salat_status", filters.salatStatus);
+  if (filters.quranAbility) query = query.in("quran_ability", filters.quranAbility);
+  if (filters.occupationKeyword) query = query.ilike("occupation", `%${filters.occupationKeyword}%`);
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    console.error(`[runSavedSearchDigest] Search ${search.id} failed:`, error);
+    return null;
+  }
+
+  return {
+    search,
+    count: count ?? 0,
+    codes: ((data || []) as { candidate_code: string | null }[])
+      .map((c) => c.candidate_code)
+      .filter((code): code is string => !!code),
+  };
+}
+
+/**
+ * One digest run: per user, one notification summarising every saved
+ * search with newly approved matches since it was last reported
+ */
+export async function runSavedSearchDigest(supabase: AdminClient) {
+  const runAt = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("notify", true)
+    .lt("last_notified_at", runAt);
+
+  if (error) {
+    console.error("[runSavedSearchDigest] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  const searches = (data || []) as SavedSearch[];
+  const summary: SavedSearchDigestSummary = { searches: searches.length, matchedSearches: 0, usersNotified: 0 };
+  const matchesByUser = new Map<string, SearchMatches[]>();
+  const processedIds = new Set<number>();
+
+  for (const search of searches) {
+    const matches = await findNewMatches(supabase, search, runAt);
+    if (!matches) continue; // retried next run
+
+    processedIds.add(search.id);
+    if (matches.count === 0) continue;
+
+    summary.matchedSearches += 1;
+    matchesByUser.set(search.user_id, [...(matchesByUser.get(search.user_id) || []), matches]);
+  }
+
+  for (const [userId, userMatches] of matchesByUser) {
+    const total = userMatches.reduce((sum, m) => sum + m.count, 0);
+    const top = userMatches[0];
+
+    const notified = await createNotification({
+      userId,
+      type: "SAVED_SEARCH_MATCHES",
+      title: `${total} Kandidat Baru Sesuai Pencarian Anda`,
+      message:
+        userMatches.length === 1
+          ? `${total} kandidat baru cocok dengan pencarian "${top.search.name}".`
+          : `Ada kandidat baru untuk ${userMatches.length} pencarian tersimpan Anda.`,
+      data: {
+        href: searchFiltersHref(top.search.filters || {}),
+        total,
+        searches: userMatches.map((m) => ({
+          id: m.search.id,
+          name: m.search.name,
+          description: describeSearchFilters(m.search.filters || {}),
+          count: m.count,
+          candidate_codes: m.codes,
+        })),
+      },
+    });
+
+    if (notified) {
+      summary.usersNotified += 1;
+    } else {
+      // Keep the window open so the next run reports these again
+      userMatches.forEach((m) => processedIds.delete(m.search.id));
+    }
+  }
+
+  if (processedIds.size > 0) {
+    const { error: updateError } = await supabase
+      .from("saved_searches")
+      .update({ last_notified_at: runAt })
+      .in("id", [...processedIds]);
+
+    if (updateError) {
+      console.error("[runSavedSearchDigest] Failed to advance last_notified_at:", updateError);
+    }
+  }
+
+  return { success: true, error: null, data: summary };
+}
@@ -0,0 +1,205 @@
+/**
+ * Shortlist Service
+ * Candidates a user bookmarked from cari-jodoh, with a private note each.
+ * Entries only live while the candidate is listed: the DB trigger
+ * prune_candidate_shortlist drops them when the CV is hidden, unapproved
+ * or in khitbah, and listShortlist cleans up anything it no longer finds
+ * in approved_candidates_v.
+ */
+
+import { createAdminClient, type createClient } from "@/server/db/client";
+import { scoreCandidatesForViewer } from "./compatibility";
+import {
+  toCandidateSummary,
+  type ApprovedCandidateRow,
+  type CandidateCardSummary,
+} from "@/features/candidates/lib/candidate-summary";
+import type { CandidateShortlistEntry, QuranAbility, SalatStatus } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export const MAX_SHORTLIST = 50;
+
+const UNIQUE_VIOLATION = "23505";
+
+export interface ShortlistItem {
+  candidateId: string;
+  note: string | null;
+  createdAt: string;
+  candidate: CandidateCardSummary;
+  salatStatus: SalatStatus | null;
+  quranAbility: QuranAbility | null;
+}
+
+/**
+ * Listed candidates among the given ids (approved_candidates_v minus khitbah)
+ */
+async function loadVisibleCandidates(supabase: DbClient, candidateIds: string[]) {
+  const [{ data: rows, error }, { data: cvStatuses }] = await Promise.all([
+    supabase.from("approved_candidates_v").select("*").in("user_id", candidateIds),
+    supabase.from("cv_data").select("user_id, taaruf_status").in("user_id", candidateIds),
+  ]);
+
+  if (error) return { error, candidates: null };
+
+  const inKhitbah = new Set(
+    ((cvStatuses || []) as { user_id: string; taaruf_status: string | null }[])
+      .filter((cv) => cv.taaruf_status === "DALAM_KHITBAH")
+      .map((cv) => cv.user_id)
+  );
+
+  const candidates = new Map(
+    ((rows || []) as ApprovedCandidateRow[])
+      .filter((row) => !inKhitbah.has(row.user_id))
+      .map((row) => [row.user_id, row])
+  );
+
+  return { error: null, candidates };
+}
+
+/**
+ * Shortlist of the user, newest first, with candidate summaries and
+ * compatibility against the user's CV
+ */
+export async function listShortlist(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase
+    .from("candidate_shortlist")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[listShortlist] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  const entries = (data || []) as CandidateShortlistEntry[];
+  if (entries.length === 0) {
+    return { success: true, error: null, data: [] as ShortlistItem[] };
+  }
+
+  const candidateIds = entries.map((e) => e.candidate_id);
+  const visible = await loadVisibleCandidates(supabase, candidateIds);
+
+  if (!visible.candidates) {
+    console.error("[listShortlist] Error loading candidates:", visible.error);
+    return { success: false, error: visible.error?.message || "Gagal memuat kandidat", data: null };
+  }
+
+  // Safety net for anything the trigger didn't catch (e.g. view refresh lag)
+  const gone = candidateIds.filter((id) => !visible.candidates.has(id));
+  if (gone.length > 0) {
+    const { error: pruneError } = await supabase
+      .from("candidate_shortlist")
+      .delete()
+      .eq("user_id", userId)
+      .in("candidate_id", gone);
+
+    if (pruneError) {
+      console.error("[listShortlist] Error pruning hidden candidates:", pruneError);
+    }
+  }
+
+  const scores = await scoreCandidatesForViewer(
+    createAdminClient(),
+    userId,
+    [...visible.candidates.keys()]
+  );
+
+  const items: ShortlistItem[] = [];
+  for (const entry of entries) {
+    const row = visible.candidates.get(entry.candidate_id);
+    if (!row) continue;
+
+    items.push({
+      candidateId: entry.candidate_id,
+      note: entry.note,
+      createdAt: entry.created_at,
+      candidate: toCandidateSummary({
+        ...row,
+        compatibility: scores.get(entry.candidate_id) ?? null,
+      }),
+      salatStatus: row.salat_status ?? null,
+      quranAbility: row.quran_ability ?? null,
+    });
+  }
+
+  return { success: true, error: null, data: items };
+}
+
+export async function addToShortlist(supabase: DbClient, userId: string, candidateId: string) {
+  if (candidateId === userId) {
+    return { success: false, error: "Tidak dapat menyimpan profil sendiri", errorCode: "NOT_VISIBLE" };
+  }
+
+  const visible = await loadVisibleCandidates(supabase, [candidateId]);
+  if (!visible.candidates?.has(candidateId)) {
+    return { success: false, error: "Kandidat tidak tersedia", errorCode: "NOT_VISIBLE" };
+  }
+
+  const { count } = await supabase
+    .from("candidate_shortlist")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if ((count ?? 0) >= MAX_SHORTLIST) {
+    return {
+      success: false,
+      error: `Maksimal ${MAX_SHORTLIST} kandidat tersimpan`,
+      errorCode: "LIMIT_REACHED",
+    };
+  }
+
+  const { error } = await supabase
+    .from("candidate_shortlist")
+    .insert({ user_id: userId, candidate_id: candidateId });
+
+  // Already saved (double click, second tab) is fine
+  if (error && error.code !== UNIQUE_VIOLATION) {
+    console.error("[addToShortlist] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR" };
+  }
+
+  return { success: true, error: null, errorCode: null };
+}
+
+export async function updateShortlistNote(
+  supabase: DbClient,
+  userId: string,
+  candidateId: string,
+  note: string | null
+) {
+  const { data, error } = await supabase
+    .from("candidate_shortlist")
+    .update({ note, updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("candidate_id", candidateId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[updateShortlistNote] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR", data: null };
+  }
+
+  if (!data) {
+    return { success: false, error: "Kandidat tidak ada di daftar tersimpan", errorCode: "NOT_FOUND", data: null };
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as CandidateShortlistEntry };
+}
+
+export async function removeFromShortlist(supabase: DbClient, userId: string, candidateId: string) {
+  const { error } = await supabase
+    .from("candidate_shortlist")
+    .delete()
+    .eq("user_id", userId)
+    .eq("candidate_id", candidateId);
+
+  if (error) {
+    console.error("[removeFromShortlist] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR" };
+  }
+
+  return { success: true, error: null, errorCode: null };
+}
@@ -0,0 +1,262 @@
+/**
+ * SMTP Client
+ * Minimal SMTP submission for transactional mail: implicit TLS (465) or
+ * STARTTLS (587), AUTH PLAIN, one plain-text UTF-8 message (plus optional
+ * attachments, e.g. calendar invitations) per connection.
+ * Configured from SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER /
+ * SMTP_PASS / SMTP_FROM.
+ */
+
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** true = TLS from the first byte (465); false = upgrade with STARTTLS when offered */
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+}
+
+export type SmtpAttachment = {
+  filename: string;
+  /** e.g. "text/calendar; method=PUBLISH" */
+  contentType: string;
+  content: string;
+};
+
+export interface SmtpMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: SmtpAttachment[];
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const port = Number(process.env.SMTP_PORT || 587);
+
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    user: process.env.SMTP_USER || null,
+    pass: process.env.SMTP_PASS || null,
+    from: process.env.SMTP_FROM || "Roomah <no-reply@roomahapp.com>",
+  };
+}
+
+/** "Roomah <no-reply@x>" → "no-reply@x" */
+function bareAddress(address: string) {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(content: string) {
+  return Buffer.from(content, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+function buildMessage(from: string, message: SmtpMessage) {
+  const domain = bareAddress(from).split("@")[1] || "localhost";
+  const text = base64Lines(message.text.replace(/\r?\n/g, "\r\n"));
+  const attachments = message.attachments ?? [];
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  // Base64 lines never start with "." so no dot-stuffing is needed
+  if (attachments.length === 0) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      text,
+    ].join("\r\n");
+  }
+
+  const boundary = `roomah-${randomUUID()}`;
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    text,
+    ...attachments.flatMap((attachment) => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; charset=UTF-8; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(attachment.content),
+    ]),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+/**
+ * Line-based reply reader over a (possibly upgraded) socket
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout")));
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let index;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: this.lines.join("\n") };
+        this.lines = [];
+
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (!this.failure) this.failure = error;
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(error));
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async expect(codes: number[]) {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[]) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  async upgrade(host: string) {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+
+    const secured = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", () => resolve());
+      secured.once("error", reject);
+    });
+
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+
+    socket.once("error", reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connect timeout")));
+  });
+}
+
+/**
+ * Send one message. Resolves with the server's queue reply (used as the
+ * provider message id), throws on any non-success reply or network error.
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage) {
+  const connection = new SmtpConnection(await connect(config));
+  const hostname = os.hostname() || "localhost";
+
+  try {
+    await connection.expect([220]);
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+    if (!config.secure && /STARTTLS/i.test(ehlo.text)) {
+      await connection.command("STARTTLS", [220]);
+      await connection.upgrade(config.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (config.user && config.pass) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.pass}`, "utf8").toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${bareAddress(config.from)}>`, [250]);
+    await connection.command(`RCPT TO:<${bareAddress(message.to)}>`, [250, 251]);
+    await connection.command("DATA", [354]);
+    const queued = await connection.command(`${buildMessage(config.from, message)}\r\n.`, [250]);
+
+    await connection.command("QUIT", [221]).catch(() => undefined);
+
+    return queued.text.slice(4).trim() || null;
+  } finally {
+    connection.close();
+  }
+}
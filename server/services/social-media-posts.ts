@@ -0,0 +1,317 @@
+/**
+ * Social Media Posts Service
+ * CV posts on Roomah's social media channels. A post is generated from the
+ * approved CV when the user pays for it (anonymised card + caption), then
+ * moves PENDING → SCHEDULED → POSTED, or to REJECTED with the 5 koin
+ * refunded. Caption and schedule stay editable until the post is published.
+ */
+
+import type { createClient } from "@/server/db/client";
+import { calculateAge } from "@/lib/utils/date";
+import { koinToCents, refundWalletEntry, releaseWalletHold } from "./wallet";
+import {
+  buildSocialPostCaption,
+  EDITABLE_SOCIAL_POST_STATUSES,
+} from "@/features/cv/lib/social-post";
+import type {
+  EducationEnum,
+  GenderEnum,
+  SocialMediaPost,
+  SocialMediaPostStatus,
+  SocialPostCard,
+  WalletHold,
+} from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export const SOCIAL_MEDIA_POST_COST_CENTS = koinToCents(5);
+
+/** Open requests block a new one; after a rejection the user may resubmit */
+export const OPEN_SOCIAL_POST_STATUSES: SocialMediaPostStatus[] = ["PENDING", "SCHEDULED", "POSTED"];
+
+/**
+ * Anonymised snapshot of the user's CV for the caption and image card
+ */
+export async function buildSocialPostCard(supabase: DbClient, userId: string) {
+  const [{ data: cv }, { data: details }] = await Promise.all([
+    supabase
+      .from("cv_data")
+      .select("candidate_code, gender, birth_date, province_id, education")
+      .eq("user_id", userId)
+      .maybeSingle(),
+    supabase.from("cv_details").select("marriage_plan").eq("user_id", userId).maybeSingle(),
+  ]);
+
+  const cvRow = cv as {
+    candidate_code: string | null;
+    gender: GenderEnum | null;
+    birth_date: string | null;
+    province_id: number | null;
+    education: EducationEnum | null;
+  } | null;
+
+  if (!cvRow) return null;
+
+  let province: string | null = null;
+  if (cvRow.province_id) {
+    const { data: provinceRow } = await supabase
+      .from("provinces")
+      .select("name")
+      .eq("id", cvRow.province_id)
+      .maybeSingle();
+    province = (provinceRow as { name: string } | null)?.name || null;
+  }
+
+  const marriagePlan = ((details as { marriage_plan: Record<string, unknown> | null } | null)
+    ?.marriage_plan || {}) as Record<string, unknown>;
+
+  const card: SocialPostCard = {
+    candidate_code: cvRow.candidate_code,
+    gender: cvRow.gender,
+    age: cvRow.birth_date ? calculateAge(cvRow.birth_date) : null,
+    province,
+    education: cvRow.education,
+    vision: typeof marriagePlan.vision === "string" && marriagePlan.vision.trim()
+      ? marriagePlan.vision.trim()
+      : null,
+  };
+
+  return card;
+}
+
+/**
+ * Most recent post request of a user (older ones are rejected requests)
+ */
+export async function getLatestSocialMediaPost(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase
+    .from("social_media_posts")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getLatestSocialMediaPost] Error:", error);
+    return null;
+  }
+
+  return data as SocialMediaPost | null;
+}
+
+export async function getSocialMediaPost(supabase: DbClient, postId: string) {
+  const { data, error } = await supabase
+    .from("social_media_posts")
+    .select("*")
+    .eq("id", postId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getSocialMediaPost] Error:", error);
+  }
+
+  return (data as SocialMediaPost | null) ?? null;
+}
+
+/**
+ * Apply changes to a post that is still in one of the given statuses. The
+ * status condition is part of the update, so two admins can't both act on
+ * the same post.
+ */
+async function updatePost(
+  supabase: DbClient,
+  postId: string,
+  changes: Partial<SocialMediaPost>,
+  allowedFrom: SocialMediaPostStatus[] = EDITABLE_SOCIAL_POST_STATUSES
+) {
+  const { data, error } = await supabase
+    .from("social_media_posts")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", postId)
+    .in("status", allowedFrom)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[updateSocialMediaPost] Error:", error);
+    return { success: false, error: error.message, errorCode: "DB_ERROR", data: null };
+  }
+
+  if (!data) {
+    const exists = await getSocialMediaPost(supabase, postId);
+    return exists
+      ? { success: false, error: "Postingan sudah dipublikasikan atau ditolak", errorCode: "NOT_EDITABLE", data: null }
+      : { success: false, error: "Postingan tidak ditemukan", errorCode: "NOT_FOUND", data: null };
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as SocialMediaPost };
+}
+
+export async function updateSocialMediaPostCaption(supabase: DbClient, postId: string, caption: string) {
+  return updatePost(supabase, postId, { caption });
+}
+
+/**
+ * Rebuild card and caption from the CV as it is now (also fills posts
+ * submitted before captions were generated). Drops manual caption edits.
+ */
+export async function regenerateSocialMediaPost(supabase: DbClient, postId: string) {
+  const post = await getSocialMediaPost(supabase, postId);
+  if (!post) {
+    return { success: false, error: "Postingan tidak ditemukan", errorCode: "NOT_FOUND", data: null };
+  }
+
+  const card = await buildSocialPostCard(supabase, post.user_id);
+  if (!card) {
+    return { success: false, error: "CV kandidat tidak ditemukan", errorCode: "CV_NOT_FOUND", data: null };
+  }
+
+  return updatePost(supabase, postId, { card, caption: buildSocialPostCaption(card) });
+}
+
+/**
+ * Plan the post for scheduledAt; null takes it back to PENDING
+ */
+export async function scheduleSocialMediaPost(
+  supabase: DbClient,
+  postId: string,
+  adminId: string,
+  scheduledAt: string | null
+) {
+  return updatePost(supabase, postId, {
+    status: scheduledAt ? "SCHEDULED" : "PENDING",
+    scheduled_at: scheduledAt,
+    reviewed_by: adminId,
+    reviewed_at: new Date().toISOString(),
+  });
+}
+
+export async function publishSocialMediaPost(
+  supabase: DbClient,
+  postId: string,
+  adminId: string,
+  postUrl: string
+) {
+  const now = new Date().toISOString();
+
+  return updatePost(supabase, postId, {
+    status: "POSTED",
+    post_url: postUrl,
+    posted_by: adminId,
+    posted_at: now,
+    reviewed_by: adminId,
+    reviewed_at: now,
+  });
+}
+
+/**
+ * Give the posting fee back through wallet_refund_entry, so it shows up in
+ * the refund history and counts against the DEBIT. Posts from before wallet
+ * holds are matched to their DEBIT by wallet_social_post_debit. Needs the
+ * service role client.
+ */
+async function refundSocialMediaPost(serviceClient: DbClient, post: SocialMediaPost, adminId: string, reason: string) {
+  let transactionId: number | null = null;
+
+  if (!post.wallet_hold_id) {
+    const { data, error } = await serviceClient.rpc("wallet_social_post_debit", { p_post_id: post.id });
+    if (error) console.error("[refundSocialMediaPost] RPC error:", error);
+    transactionId = typeof data === "number" ? data : null;
+  } else {
+    const { data } = await serviceClient
+      .from("wallet_holds")
+      .select("*")
+      .eq("id", post.wallet_hold_id)
+      .maybeSingle();
+
+    const hold = data as WalletHold | null;
+    if (!hold || hold.user_id !== post.user_id || hold.reason !== "SOCIAL_MEDIA_POST") {
+      return { success: false, error: "Pembayaran postingan tidak ditemukan", errorCode: "HOLD_NOT_FOUND" };
+    }
+
+    // Capture failed at submission: nothing was charged, just drop the hold
+    if (hold.status !== "CAPTURED" || !hold.ledger_entry_id) {
+      return hold.status === "HELD"
+        ? releaseWalletHold(serviceClient, hold.id)
+        : { success: true, error: null, errorCode: null };
+    }
+
+    // One hold pays for one post
+    const { count } = await serviceClient
+      .from("social_media_posts")
+      .select("id", { count: "exact", head: true })
+      .eq("wallet_hold_id", hold.id)
+      .neq("id", post.id);
+
+    if (count !== 0) {
+      return { success: false, error: "Pembayaran postingan tidak ditemukan", errorCode: "HOLD_NOT_FOUND" };
+    }
+
+    transactionId = hold.ledger_entry_id;
+  }
+
+  if (!transactionId) {
+    return { success: false, error: "Pembayaran postingan tidak ditemukan", errorCode: "DEBIT_NOT_FOUND" };
+  }
+
+  const refund = await refundWalletEntry(serviceClient, {
+    transactionId,
+    amountCents: null,
+    reason: `Posting media sosial ditolak: ${reason}`,
+    adminId,
+  });
+
+  // A retry after a half-finished rejection
+  if (!refund.success && refund.errorCode === "ALREADY_REFUNDED") {
+    return { success: true, error: null, errorCode: null };
+  }
+
+  return refund;
+}
+
+/**
+ * Reject a post that isn't published yet and refund the 5 koin. The status
+ * flips first so a second rejection can't refund twice; a failed refund
+ * puts the previous status back.
+ */
+export async function rejectSocialMediaPost(
+  supabase: DbClient,
+  serviceClient: DbClient,
+  postId: string,
+  adminId: string,
+  reason: string
+) {
+  const before = await getSocialMediaPost(supabase, postId);
+  if (!before) {
+    return { success: false, error: "Postingan tidak ditemukan", errorCode: "NOT_FOUND", data: null };
+  }
+
+  const rejected = await updatePost(supabase, postId, {
+    status: "REJECTED",
+    rejected_reason: reason,
+    reviewed_by: adminId,
+    reviewed_at: new Date().toISOString(),
+  });
+
+  if (!rejected.success || !rejected.data) return rejected;
+
+  const refund = await refundSocialMediaPost(serviceClient, rejected.data, adminId, reason);
+
+  if (!refund.success) {
+    console.error("[rejectSocialMediaPost] Refund failed:", refund.error);
+
+    await supabase
+      .from("social_media_posts")
+      .update({
+        status: before.status,
+        rejected_reason: before.rejected_reason,
+        reviewed_by: before.reviewed_by,
+        reviewed_at: before.reviewed_at,
+      })
+      .eq("id", postId);
+
+    return { success: false, error: "Gagal mengembalikan koin", errorCode: "REFUND_FAILED", data: null };
+  }
+
+  return rejected;
+}
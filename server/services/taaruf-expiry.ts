@@ -0,0 +1,61 @@
+/**
+ * Taaruf Request Expiry Service
+ * Sweeps PENDING requests past expires_at (72 jam):
+ * - status → EXPIRED
+ * - REFUND koin TAARUF_COST ke pengirim
+ * - notifikasi untuk kedua pihak
+ *
+ * All work happens inside the expire_taaruf_requests() RPC, which is
+ * idempotent - running the sweeper twice refunds nothing extra.
+ */
+
+import { createAdminClient } from "@/server/db/client";
+import { centsToKoin } from "./wallet";
+
+export interface ExpiredTaarufRequest {
+  expired_request_id: number;
+  sender_id: string;
+  receiver_id: string;
+  refunded_cents: number;
+}
+
+/**
+ * Expire overdue taaruf requests and refund the senders
+ * Uses admin client - call only from trusted server code (cron route, admin tools)
+ */
+export async function expireOverdueTaarufRequests() {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase.rpc("expire_taaruf_requests");
+
+    if (error) {
+      console.error("[expireOverdueTaarufRequests] RPC error:", error);
+      return {
+        success: false,
+        error: error.message,
+        data: null,
+      };
+    }
+
+    const expired = (data || []) as ExpiredTaarufRequest[];
+    const refundedCents = expired.reduce((sum, row) => sum + row.refunded_cents, 0);
+
+    return {
+      success: true,
+      data: {
+        expiredCount: expired.length,
+        refundedKoin: centsToKoin(refundedCents),
+        requests: expired,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error("[expireOverdueTaarufRequests] Error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to expire taaruf requests",
+      data: null,
+    };
+  }
+}
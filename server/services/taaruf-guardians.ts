@@ -0,0 +1,372 @@
+/**
+ * Taaruf Guardians Service
+ * An akhwat's wali: the contact she registers, the magic links that give
+ * the wali read-only access to her active session (both CVs and the
+ * meeting schedule) and the wali's attendance confirmations.
+ *
+ * The wali has no account. Links carry a random token; only its SHA-256
+ * is stored and a link stops working when it expires or the session is
+ * no longer active. Copies of meeting notifications reach the wali through
+ * the notification queue (enqueue_notification_deliveries), each carrying
+ * a fresh link minted by the dispatcher.
+ *
+ * Contact management runs with the user's client (RLS: own row only);
+ * links, session views and confirmations need the service-role client.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { createClient } from "@/server/db/client";
+import { createNotification } from "./notifications";
+import { buildCvData } from "./cv-data";
+import {
+  GUARDIAN_LINK_TTL_DAYS,
+  GUARDIAN_RELATION_LABELS,
+} from "@/features/taaruf/lib/guardians";
+import {
+  PARTICIPANT_MEETING_COLUMNS,
+  type ParticipantMeeting,
+} from "@/features/taaruf/lib/meetings";
+import type {
+  GuardianRelation,
+  TaarufGuardian,
+  TaarufGuardianLink,
+  TaarufSession,
+} from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export type GuardianErrorCode =
+  | "DB_ERROR"
+  | "NOT_AKHWAT"
+  | "NO_GUARDIAN"
+  | "NO_ACTIVE_SESSION"
+  | "INVALID_LINK"
+  | "NOT_FOUND"
+  | "INVALID_STATE";
+
+/** HTTP status for each failure, shared by the guardian routes */
+export const GUARDIAN_ERROR_STATUS: Record<GuardianErrorCode, number> = {
+  DB_ERROR: 500,
+  NOT_AKHWAT: 403,
+  NO_GUARDIAN: 404,
+  NO_ACTIVE_SESSION: 409,
+  INVALID_LINK: 404,
+  NOT_FOUND: 404,
+  INVALID_STATE: 409,
+};
+
+export interface GuardianInput {
+  name: string;
+  relation: GuardianRelation;
+  email?: string | null;
+  phone?: string | null;
+}
+
+type GuardianSession = Pick<
+  TaarufSession,
+  "id" | "taaruf_code" | "user_a" | "user_b" | "status" | "current_stage" | "started_at"
+>;
+
+const SESSION_COLUMNS = "id, taaruf_code, user_a, user_b, status, current_stage, started_at";
+
+function fail(errorCode: GuardianErrorCode, error: string) {
+  return { success: false as const, error, errorCode, data: null };
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * The user's registered wali, null when none
+ */
+export async function getGuardian(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase
+    .from("taaruf_guardians")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getGuardian] Error:", error);
+    return null;
+  }
+
+  return data as TaarufGuardian | null;
+}
+
+/**
+ * Only akhwat register a wali
+ */
+export async function canHaveGuardian(supabase: DbClient, userId: string) {
+  const { data } = await supabase
+    .from("profiles")
+    .select("gender")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return (data as { gender: string | null } | null)?.gender === "AKHWAT";
+}
+
+/**
+ * Register or replace the wali contact. Replacing it revokes every link
+ * sent so far, so a previous wali (or a mistyped address) loses access.
+ */
+export async function saveGuardian(
+  supabase: DbClient,
+  serviceClient: DbClient,
+  userId: string,
+  input: GuardianInput
+) {
+  if (!(await canHaveGuardian(supabase, userId))) {
+    return fail("NOT_AKHWAT", "Kontak wali hanya dapat didaftarkan oleh akhwat");
+  }
+
+  const previous = await getGuardian(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("taaruf_guardians")
+    .upsert(
+      {
+        user_id: userId,
+        name: input.name,
+        relation: input.relation,
+        email: input.email || null,
+        phone: input.phone || null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    )
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("[saveGuardian] Error:", error);
+    return fail("DB_ERROR", "Gagal menyimpan kontak wali");
+  }
+
+  if (previous) {
+    const { error: revokeError } = await serviceClient
+      .from("taaruf_guardian_links")
+      .delete()
+      .eq("guardian_id", previous.id);
+
+    if (revokeError) {
+      console.error("[saveGuardian] Error revoking links:", revokeError);
+    }
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: data as TaarufGuardian };
+}
+
+/**
+ * Remove the wali; their links and pending copies go with them (cascade)
+ */
+export async function removeGuardian(supabase: DbClient, userId: string) {
+  const { error } = await supabase.from("taaruf_guardians").delete().eq("user_id", userId);
+
+  if (error) {
+    console.error("[removeGuardian] Error:", error);
+    return fail("DB_ERROR", "Gagal menghapus kontak wali");
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: null };
+}
+
+async function getActiveSession(supabase: DbClient, userId: string) {
+  const { data } = await supabase
+    .from("taaruf_sessions")
+    .select(SESSION_COLUMNS)
+    .or(`user_a.eq.${userId},user_b.eq.${userId}`)
+    .eq("status", "ACTIVE")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data as GuardianSession | null;
+}
+
+/**
+ * Send the wali a link to the user's active session. Goes out as a
+ * GUARDIAN_INVITED notification to the user, which the queue copies to
+ * the wali with the link.
+ */
+export async function inviteGuardian(supabase: DbClient, userId: string) {
+  const guardian = await getGuardian(supabase, userId);
+  if (!guardian) {
+    return fail("NO_GUARDIAN", "Daftarkan kontak wali terlebih dahulu");
+  }
+
+  const session = await getActiveSession(supabase, userId);
+  if (!session) {
+    return fail("NO_ACTIVE_SESSION", "Tidak ada taaruf aktif untuk dibagikan ke wali");
+  }
+
+  const created = await createNotification({
+    userId,
+    type: "GUARDIAN_INVITED",
+    title: "Tautan Wali Dikirim",
+    message: `Tautan untuk mengikuti Taaruf ${session.taaruf_code} telah dikirim ke ${GUARDIAN_RELATION_LABELS[guardian.relation].toLowerCase()} Anda, ${guardian.name}.`,
+    data: { taaruf_id: Number(session.id), taaruf_code: session.taaruf_code, guardian_name: guardian.name },
+  });
+
+  if (!created) {
+    return fail("DB_ERROR", "Gagal mengirim tautan ke wali");
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: { taarufCode: session.taaruf_code } };
+}
+
+/**
+ * Mint a link for the wali into one session; returns the raw token
+ * (never stored), null when the link couldn't be saved
+ */
+export async function createGuardianLink(serviceClient: DbClient, guardianId: number, taarufId: number) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + GUARDIAN_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const { error } = await serviceClient.from("taaruf_guardian_links").insert({
+    guardian_id: guardianId,
+    taaruf_id: taarufId,
+    token_hash: hashToken(token),
+    expires_at: expiresAt.toISOString(),
+  });
+
+  if (error) {
+    console.error("[createGuardianLink] Error:", error);
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * The link, its wali and session for a token; null when the token is
+ * unknown, expired, or the session is no longer active
+ */
+async function resolveGuardianLink(serviceClient: DbClient, token: string) {
+  if (!token || token.length > 100) return null;
+
+  const { data: linkRow } = await serviceClient
+    .from("taaruf_guardian_links")
+    .select("*")
+    .eq("token_hash", hashToken(token))
+    .maybeSingle();
+
+  const link = linkRow as TaarufGuardianLink | null;
+  if (!link || new Date(link.expires_at).getTime() <= Date.now()) return null;
+
+  const [{ data: guardianRow }, { data: sessionRow }] = await Promise.all([
+    serviceClient.from("taaruf_guardians").select("*").eq("id", link.guardian_id).maybeSingle(),
+    serviceClient.from("taaruf_sessions").select(SESSION_COLUMNS).eq("id", link.taaruf_id).maybeSingle(),
+  ]);
+
+  const guardian = guardianRow as TaarufGuardian | null;
+  const session = sessionRow as GuardianSession | null;
+
+  // The ward must still be part of the session the link was made for
+  if (
+    !guardian ||
+    !session ||
+    session.status !== "ACTIVE" ||
+    (session.user_a !== guardian.user_id && session.user_b !== guardian.user_id)
+  ) {
+    return null;
+  }
+
+  return { link, guardian, session };
+}
+
+/**
+ * Everything the wali page shows: the session, both CVs (read-only) and
+ * the meeting schedule
+ */
+export async function getGuardianSessionView(serviceClient: DbClient, token: string) {
+  const resolved = await resolveGuardianLink(serviceClient, token);
+  if (!resolved) return null;
+
+  const { link, guardian, session } = resolved;
+  const partnerId = session.user_a === guardian.user_id ? session.user_b : session.user_a;
+
+  const [wardCv, partnerCv, { data: meetings, error: meetingsError }] = await Promise.all([
+    buildCvData(serviceClient, guardian.user_id),
+    buildCvData(serviceClient, partnerId),
+    serviceClient
+      .from("taaruf_meetings")
+      .select(PARTICIPANT_MEETING_COLUMNS)
+      .eq("taaruf_id", session.id)
+      .order("scheduled_at", { ascending: true }),
+  ]);
+
+  if (meetingsError) {
+    console.error("[getGuardianSessionView] Error loading meetings:", meetingsError);
+  }
+
+  await serviceClient
+    .from("taaruf_guardian_links")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", link.id);
+
+  return {
+    guardian: { name: guardian.name, relation: guardian.relation },
+    session: {
+      taarufCode: session.taaruf_code,
+      stage: session.current_stage,
+      startedAt: session.started_at,
+    },
+    wardCv,
+    partnerCv,
+    meetings: (meetings || []) as unknown as ParticipantMeeting[],
+  };
+}
+
+export type GuardianSessionView = NonNullable<Awaited<ReturnType<typeof getGuardianSessionView>>>;
+
+/**
+ * The wali confirms attending an upcoming meeting of the linked session
+ */
+export async function confirmGuardianAttendance(serviceClient: DbClient, token: string, meetingId: number) {
+  const resolved = await resolveGuardianLink(serviceClient, token);
+  if (!resolved) {
+    return fail("INVALID_LINK", "Tautan tidak berlaku lagi");
+  }
+
+  const { data: meetingRow } = await serviceClient
+    .from("taaruf_meetings")
+    .select("id, taaruf_id, status, ends_at, guardian_confirmed_at")
+    .eq("id", meetingId)
+    .maybeSingle();
+
+  const meeting = meetingRow as Pick<
+    ParticipantMeeting,
+    "id" | "taaruf_id" | "status" | "ends_at" | "guardian_confirmed_at"
+  > | null;
+
+  if (!meeting || meeting.taaruf_id !== Number(resolved.session.id)) {
+    return fail("NOT_FOUND", "Pertemuan tidak ditemukan");
+  }
+  if (meeting.status !== "SCHEDULED" || new Date(meeting.ends_at).getTime() <= Date.now()) {
+    return fail("INVALID_STATE", "Pertemuan sudah tidak terjadwal");
+  }
+  if (meeting.guardian_confirmed_at) {
+    return { success: true as const, error: null, errorCode: null, data: { confirmedAt: meeting.guardian_confirmed_at } };
+  }
+
+  const confirmedAt = new Date().toISOString();
+  const { error } = await serviceClient
+    .from("taaruf_meetings")
+    .update({
+      guardian_confirmed_at: confirmedAt,
+      guardian_confirmed_by: resolved.guardian.id,
+      updated_at: confirmedAt,
+    })
+    .eq("id", meetingId)
+    .eq("status", "SCHEDULED");
+
+  if (error) {
+    console.error("[confirmGuardianAttendance] Error:", error);
+    return fail("DB_ERROR", "Gagal menyimpan konfirmasi");
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: { confirmedAt } };
+}
@@ -0,0 +1,510 @@
+/**
+ * Taaruf Meetings Service
+ * Zoom meetings of a taaruf session (taaruf_meetings): schedule,
+ * reschedule, cancel, record attendance and moderator notes. Every change
+ * participants need to know about is sent as a notification carrying the
+ * meeting, so emails can attach the calendar invitation.
+ *
+ * taaruf_meetings has no user policies - call with the service-role
+ * client, after checking the caller (admin permission or participant).
+ */
+
+import type { createClient } from "@/server/db/client";
+import { createNotification } from "./notifications";
+import {
+  PARTICIPANT_MEETING_COLUMNS,
+  type ParticipantMeeting,
+} from "@/features/taaruf/lib/meetings";
+import type { Json, TaarufMeeting, TaarufSession, TaarufStage } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export type MeetingErrorCode =
+  | "DB_ERROR"
+  | "NOT_FOUND"
+  | "SESSION_NOT_ACTIVE"
+  | "CONFLICT"
+  | "INVALID_STATE"
+  | "INVALID_PARTICIPANT";
+
+/** HTTP status for each failure, shared by the admin routes */
+export const MEETING_ERROR_STATUS: Record<MeetingErrorCode, number> = {
+  DB_ERROR: 500,
+  NOT_FOUND: 404,
+  SESSION_NOT_ACTIVE: 400,
+  CONFLICT: 409,
+  INVALID_STATE: 409,
+  INVALID_PARTICIPANT: 400,
+};
+
+export type MeetingConflict = Pick<TaarufMeeting, "id" | "taaruf_id" | "stage" | "scheduled_at" | "ends_at">;
+
+export interface MeetingSlotInput {
+  scheduledAt: string;
+  durationMinutes: number;
+}
+
+export interface ScheduleMeetingInput extends MeetingSlotInput {
+  taarufId: number;
+  stage: TaarufStage;
+  zoomLink: string;
+  notes: string | null;
+  moderatorId: string;
+}
+
+type SessionParties = Pick<TaarufSession, "user_a" | "user_b" | "status" | "taaruf_code">;
+
+type MeetingResult =
+  | { success: true; error: null; errorCode: null; data: TaarufMeeting; conflicts?: undefined }
+  | {
+      success: false;
+      error: string;
+      errorCode: MeetingErrorCode;
+      data: null;
+      conflicts?: MeetingConflict[];
+    };
+
+/** Exclusion constraint taaruf_meetings_no_moderator_overlap */
+const EXCLUSION_VIOLATION = "23P01";
+
+function fail(errorCode: MeetingErrorCode, error: string, conflicts?: MeetingConflict[]): MeetingResult {
+  return { success: false, error, errorCode, data: null, conflicts };
+}
+
+function slotEnd({ scheduledAt, durationMinutes }: MeetingSlotInput) {
+  return new Date(new Date(scheduledAt).getTime() + durationMinutes * 60_000).toISOString();
+}
+
+function formatMeetingTime(iso: string) {
+  return new Date(iso).toLocaleString("id-ID", {
+    timeZone: "Asia/Jakarta",
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+async function getSession(supabase: DbClient, taarufId: number) {
+  const { data } = await supabase
+    .from("taaruf_sessions")
+    .select("user_a, user_b, status, taaruf_code")
+    .eq("id", taarufId)
+    .maybeSingle();
+
+  return data as SessionParties | null;
+}
+
+async function getMeeting(supabase: DbClient, meetingId: number) {
+  const { data } = await supabase
+    .from("taaruf_meetings")
+    .select("*")
+    .eq("id", meetingId)
+    .maybeSingle();
+
+  return data as TaarufMeeting | null;
+}
+
+/**
+ * Tell both participants; the data is everything an invitation needs
+ */
+async function notifyParticipants(
+  session: SessionParties,
+  meeting: TaarufMeeting,
+  notification: { type: string; title: string; message: string }
+) {
+  const data: Json = {
+    meeting_id: meeting.id,
+    taaruf_id: meeting.taaruf_id,
+    taaruf_code: session.taaruf_code,
+    stage: meeting.stage,
+    meeting_datetime: meeting.scheduled_at,
+    ends_at: meeting.ends_at,
+    zoom_link: meeting.zoom_link,
+    notes: meeting.notes,
+    status: meeting.status,
+    reschedule_count: meeting.reschedule_count,
+    cancel_reason: meeting.cancel_reason,
+  };
+
+  await Promise.all(
+    [session.user_a, session.user_b].map((userId) =>
+      createNotification({ userId, ...notification, data })
+    )
+  );
+}
+
+/**
+ * SCHEDULED meetings of one moderator overlapping [startsAt, endsAt)
+ */
+export async function findMeetingConflicts(
+  supabase: DbClient,
+  moderatorId: string,
+  slot: MeetingSlotInput,
+  excludeMeetingId?: number
+) {
+  let query = supabase
+    .from("taaruf_meetings")
+    .select("id, taaruf_id, stage, scheduled_at, ends_at")
+    .eq("moderator_id", moderatorId)
+    .eq("status", "SCHEDULED")
+    .lt("scheduled_at", slotEnd(slot))
+    .gt("ends_at", new Date(slot.scheduledAt).toISOString())
+    .order("scheduled_at", { ascending: true });
+
+  if (excludeMeetingId) {
+    query = query.neq("id", excludeMeetingId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[findMeetingConflicts] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: (data || []) as MeetingConflict[] };
+}
+
+/**
+ * All meetings of a session, moderator fields included (admin)
+ */
+export async function listSessionMeetings(supabase: DbClient, taarufId: number) {
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .select("*")
+    .eq("taaruf_id", taarufId)
+    .order("scheduled_at", { ascending: true });
+
+  if (error) {
+    console.error("[listSessionMeetings] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: (data || []) as TaarufMeeting[] };
+}
+
+/**
+ * Meetings of the given sessions without moderator fields (participants)
+ */
+export async function listParticipantMeetings(supabase: DbClient, taarufIds: number[]) {
+  if (taarufIds.length === 0) {
+    return { success: true, error: null, data: [] as ParticipantMeeting[] };
+  }
+
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .select(PARTICIPANT_MEETING_COLUMNS)
+    .in("taaruf_id", taarufIds)
+    .order("scheduled_at", { ascending: true });
+
+  if (error) {
+    console.error("[listParticipantMeetings] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: (data || []) as unknown as ParticipantMeeting[] };
+}
+
+/**
+ * One meeting for a participant, null when the user isn't part of its session
+ */
+export async function getParticipantMeeting(supabase: DbClient, meetingId: number, userId: string) {
+  const meeting = await getMeeting(supabase, meetingId);
+  if (!meeting) return null;
+
+  const session = await getSession(supabase, meeting.taaruf_id);
+  if (!session || (session.user_a !== userId && session.user_b !== userId)) {
+    return null;
+  }
+
+  return { meeting, taarufCode: session.taaruf_code };
+}
+
+export async function scheduleMeeting(supabase: DbClient, input: ScheduleMeetingInput): Promise<MeetingResult> {
+  const session = await getSession(supabase, input.taarufId);
+  if (!session) {
+    return fail("NOT_FOUND", "Sesi taaruf tidak ditemukan");
+  }
+  if (session.status !== "ACTIVE") {
+    return fail("SESSION_NOT_ACTIVE", "Sesi taaruf tidak aktif");
+  }
+
+  const conflicts = await findMeetingConflicts(supabase, input.moderatorId, input);
+  if (conflicts.data && conflicts.data.length > 0) {
+    return fail("CONFLICT", "Anda sudah memiliki pertemuan lain di waktu tersebut", conflicts.data);
+  }
+
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .insert({
+      taaruf_id: input.taarufId,
+      stage: input.stage,
+      scheduled_at: new Date(input.scheduledAt).toISOString(),
+      ends_at: slotEnd(input),
+      zoom_link: input.zoomLink,
+      notes: input.notes,
+      moderator_id: input.moderatorId,
+      created_by: input.moderatorId,
+      updated_by: input.moderatorId,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    if (error?.code === EXCLUSION_VIOLATION) {
+      return fail("CONFLICT", "Anda sudah memiliki pertemuan lain di waktu tersebut");
+    }
+    console.error("[scheduleMeeting] Error:", error);
+    return fail("DB_ERROR", error?.message || "Gagal menyimpan jadwal");
+  }
+
+  const meeting = data as TaarufMeeting;
+  await notifyParticipants(session, meeting, {
+    type: "ZOOM_SCHEDULED",
+    title: `Pertemuan ${meeting.stage} Dijadwalkan`,
+    message: `Pertemuan ${meeting.stage} telah dijadwalkan pada ${formatMeetingTime(meeting.scheduled_at)} WIB`,
+  });
+
+  return { success: true, error: null, errorCode: null, data: meeting };
+}
+
+/**
+ * Move a scheduled meeting (and optionally change link / notes)
+ */
+export async function rescheduleMeeting(
+  supabase: DbClient,
+  meetingId: number,
+  input: MeetingSlotInput & { zoomLink?: string; notes?: string | null },
+  actorId: string
+): Promise<MeetingResult> {
+  const meeting = await getMeeting(supabase, meetingId);
+  if (!meeting) {
+    return fail("NOT_FOUND", "Pertemuan tidak ditemukan");
+  }
+  if (meeting.status !== "SCHEDULED") {
+    return fail("INVALID_STATE", "Hanya pertemuan yang masih terjadwal yang dapat diubah");
+  }
+
+  const session = await getSession(supabase, meeting.taaruf_id);
+  if (!session) {
+    return fail("NOT_FOUND", "Sesi taaruf tidak ditemukan");
+  }
+  if (session.status !== "ACTIVE") {
+    return fail("SESSION_NOT_ACTIVE", "Sesi taaruf tidak aktif");
+  }
+
+  const moderatorId = meeting.moderator_id || actorId;
+  const conflicts = await findMeetingConflicts(supabase, moderatorId, input, meetingId);
+  if (conflicts.data && conflicts.data.length > 0) {
+    return fail("CONFLICT", "Moderator sudah memiliki pertemuan lain di waktu tersebut", conflicts.data);
+  }
+
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .update({
+      scheduled_at: new Date(input.scheduledAt).toISOString(),
+      ends_at: slotEnd(input),
+      zoom_link: input.zoomLink ?? meeting.zoom_link,
+      notes: input.notes === undefined ? meeting.notes : input.notes,
+      moderator_id: moderatorId,
+      reschedule_count: meeting.reschedule_count + 1,
+      // The wali confirmed the old slot, not this one
+      guardian_confirmed_at: null,
+      guardian_confirmed_by: null,
+      updated_by: actorId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", meetingId)
+    .eq("status", "SCHEDULED")
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    if (error?.code === EXCLUSION_VIOLATION) {
+      return fail("CONFLICT", "Moderator sudah memiliki pertemuan lain di waktu tersebut");
+    }
+    console.error("[rescheduleMeeting] Error:", error);
+    return fail("DB_ERROR", error?.message || "Gagal mengubah jadwal");
+  }
+
+  const updated = data as TaarufMeeting;
+  await notifyParticipants(session, updated, {
+    type: "MEETING_RESCHEDULED",
+    title: `Jadwal ${updated.stage} Diubah`,
+    message: `Pertemuan ${updated.stage} dipindahkan ke ${formatMeetingTime(updated.scheduled_at)} WIB`,
+  });
+
+  return { success: true, error: null, errorCode: null, data: updated };
+}
+
+export async function cancelMeeting(
+  supabase: DbClient,
+  meetingId: number,
+  reason: string,
+  actorId: string
+): Promise<MeetingResult> {
+  const meeting = await getMeeting(supabase, meetingId);
+  if (!meeting) {
+    return fail("NOT_FOUND", "Pertemuan tidak ditemukan");
+  }
+  if (meeting.status !== "SCHEDULED") {
+    return fail("INVALID_STATE", "Pertemuan sudah tidak terjadwal");
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .update({
+      status: "CANCELLED",
+      cancel_reason: reason,
+      cancelled_at: now,
+      updated_by: actorId,
+      updated_at: now,
+    })
+    .eq("id", meetingId)
+    .eq("status", "SCHEDULED")
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("[cancelMeeting] Error:", error);
+    return fail("DB_ERROR", error?.message || "Gagal membatalkan pertemuan");
+  }
+
+  const cancelled = data as TaarufMeeting;
+  const session = await getSession(supabase, cancelled.taaruf_id);
+  if (session) {
+    await notifyParticipants(session, cancelled, {
+      type: "MEETING_CANCELLED",
+      title: `Pertemuan ${cancelled.stage} Dibatalkan`,
+      message: `Pertemuan ${cancelled.stage} pada ${formatMeetingTime(cancelled.scheduled_at)} WIB dibatalkan. Admin akan menjadwalkan ulang bila diperlukan.`,
+    });
+  }
+
+  return { success: true, error: null, errorCode: null, data: cancelled };
+}
+
+/**
+ * Cancel every still-scheduled meeting of a session that has ended, so
+ * no one (moderator included) shows up to a taaruf that is over.
+ * Participants get the cancellation for their calendars.
+ */
+export async function cancelSessionMeetings(
+  supabase: DbClient,
+  taarufId: number,
+  reason: string,
+  actorId: string
+) {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .update({
+      status: "CANCELLED",
+      cancel_reason: reason,
+      cancelled_at: now,
+      updated_by: actorId,
+      updated_at: now,
+    })
+    .eq("taaruf_id", taarufId)
+    .eq("status", "SCHEDULED")
+    .select("*");
+
+  if (error) {
+    console.error("[cancelSessionMeetings] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  const cancelled = (data || []) as TaarufMeeting[];
+  const session = cancelled.length > 0 ? await getSession(supabase, taarufId) : null;
+  if (session) {
+    for (const meeting of cancelled) {
+      await notifyParticipants(session, meeting, {
+        type: "MEETING_CANCELLED",
+        title: `Pertemuan ${meeting.stage} Dibatalkan`,
+        message: `Pertemuan ${meeting.stage} pada ${formatMeetingTime(meeting.scheduled_at)} WIB dibatalkan karena taaruf telah berakhir.`,
+      });
+    }
+  }
+
+  return { success: true, error: null, data: cancelled };
+}
+
+/**
+ * Record what happened once the meeting started. ATTENDED and NO_SHOW can
+ * be corrected into each other; noShowUserId null means neither joined.
+ */
+export async function recordMeetingOutcome(
+  supabase: DbClient,
+  meetingId: number,
+  outcome: "ATTENDED" | "NO_SHOW",
+  noShowUserId: string | null,
+  actorId: string
+): Promise<MeetingResult> {
+  const meeting = await getMeeting(supabase, meetingId);
+  if (!meeting) {
+    return fail("NOT_FOUND", "Pertemuan tidak ditemukan");
+  }
+  if (meeting.status === "CANCELLED") {
+    return fail("INVALID_STATE", "Pertemuan sudah dibatalkan");
+  }
+  if (new Date(meeting.scheduled_at).getTime() > Date.now()) {
+    return fail("INVALID_STATE", "Pertemuan belum dimulai");
+  }
+
+  if (outcome === "NO_SHOW" && noShowUserId) {
+    const session = await getSession(supabase, meeting.taaruf_id);
+    if (!session || (session.user_a !== noShowUserId && session.user_b !== noShowUserId)) {
+      return fail("INVALID_PARTICIPANT", "Peserta tidak termasuk dalam sesi taaruf ini");
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .update({
+      status: outcome,
+      no_show_user_id: outcome === "NO_SHOW" ? noShowUserId : null,
+      updated_by: actorId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", meetingId)
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("[recordMeetingOutcome] Error:", error);
+    return fail("DB_ERROR", error?.message || "Gagal menyimpan kehadiran");
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as TaarufMeeting };
+}
+
+export async function updateModeratorNotes(
+  supabase: DbClient,
+  meetingId: number,
+  moderatorNotes: string | null,
+  actorId: string
+): Promise<MeetingResult> {
+  const { data, error } = await supabase
+    .from("taaruf_meetings")
+    .update({
+      moderator_notes: moderatorNotes,
+      updated_by: actorId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", meetingId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[updateModeratorNotes] Error:", error);
+    return fail("DB_ERROR", error.message);
+  }
+  if (!data) {
+    return fail("NOT_FOUND", "Pertemuan tidak ditemukan");
+  }
+
+  return { success: true, error: null, errorCode: null, data: data as TaarufMeeting };
+}
@@ -0,0 +1,343 @@
+/**
+ * Taaruf Q&A Service
+ * Moderated question-and-answer thread of a taaruf session
+ * (taaruf_qa_messages). Either side asks, the other answers; every message
+ * stays PENDING until an admin approves it, and only then does the other
+ * side see it and get notified. Messages carrying contact details are
+ * refused outright.
+ *
+ * taaruf_qa_messages has no user policies - call with the service-role
+ * client, after checking the caller (admin permission or participant).
+ */
+
+import type { createClient } from "@/server/db/client";
+import { createNotification } from "./notifications";
+import {
+  QA_MAX_PENDING_PER_SENDER,
+  describeContactDetails,
+  detectContactDetails,
+} from "@/features/taaruf/lib/qa";
+import type { TaarufQaMessage, TaarufQaStatus, TaarufSession } from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export type QaErrorCode =
+  | "DB_ERROR"
+  | "NOT_FOUND"
+  | "SESSION_NOT_ACTIVE"
+  | "CONTACT_DETECTED"
+  | "TOO_MANY_PENDING"
+  | "ALREADY_ANSWERED"
+  | "INVALID_STATE";
+
+/** HTTP status for each failure, shared by the participant and admin routes */
+export const QA_ERROR_STATUS: Record<QaErrorCode, number> = {
+  DB_ERROR: 500,
+  NOT_FOUND: 404,
+  SESSION_NOT_ACTIVE: 409,
+  CONTACT_DETECTED: 422,
+  TOO_MANY_PENDING: 429,
+  ALREADY_ANSWERED: 409,
+  INVALID_STATE: 409,
+};
+
+export interface QaThreadMessage {
+  id: number;
+  sender_id: string;
+  body: string;
+  status: TaarufQaStatus;
+  /** Sender (and admins) only */
+  reject_reason: string | null;
+  created_at: string;
+}
+
+export interface QaThreadItem extends QaThreadMessage {
+  answers: QaThreadMessage[];
+}
+
+type SessionParties = Pick<TaarufSession, "user_a" | "user_b" | "status" | "taaruf_code">;
+
+function fail(errorCode: QaErrorCode, error: string) {
+  return { success: false as const, error, errorCode, data: null };
+}
+
+async function getSession(supabase: DbClient, taarufId: number) {
+  const { data } = await supabase
+    .from("taaruf_sessions")
+    .select("user_a, user_b, status, taaruf_code")
+    .eq("id", taarufId)
+    .maybeSingle();
+
+  return data as SessionParties | null;
+}
+
+function isParticipant(session: SessionParties | null, userId: string): session is SessionParties {
+  return !!session && (session.user_a === userId || session.user_b === userId);
+}
+
+function toThreadMessage(message: TaarufQaMessage): QaThreadMessage {
+  return {
+    id: message.id,
+    sender_id: message.sender_id,
+    body: message.body,
+    status: message.status,
+    reject_reason: message.reject_reason,
+    created_at: message.created_at,
+  };
+}
+
+/**
+ * Questions (oldest first) with their answers
+ */
+function groupThread(messages: TaarufQaMessage[]): QaThreadItem[] {
+  const questions = messages.filter((m) => m.question_id === null);
+
+  return questions.map((question) => ({
+    ...toThreadMessage(question),
+    answers: messages.filter((m) => m.question_id === question.id).map(toThreadMessage),
+  }));
+}
+
+async function listMessages(supabase: DbClient, taarufId: number) {
+  const { data, error } = await supabase
+    .from("taaruf_qa_messages")
+    .select("*")
+    .eq("taaruf_id", taarufId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[taaruf-qa] Error loading messages:", error);
+    return null;
+  }
+
+  return (data || []) as TaarufQaMessage[];
+}
+
+/**
+ * Contact details and the pending limit, checked before anything is stored
+ */
+async function checkNewMessage(supabase: DbClient, taarufId: number, senderId: string, body: string) {
+  const contacts = detectContactDetails(body);
+  if (contacts.length > 0) {
+    return fail(
+      "CONTACT_DETECTED",
+      `Pesan tidak boleh berisi ${describeContactDetails(contacts)}. Pertukaran kontak dilakukan melalui admin.`
+    );
+  }
+
+  const { count } = await supabase
+    .from("taaruf_qa_messages")
+    .select("id", { count: "exact", head: true })
+    .eq("taaruf_id", taarufId)
+    .eq("sender_id", senderId)
+    .eq("status", "PENDING");
+
+  if ((count ?? 0) >= QA_MAX_PENDING_PER_SENDER) {
+    return fail(
+      "TOO_MANY_PENDING",
+      `Masih ada ${QA_MAX_PENDING_PER_SENDER} pesan yang menunggu moderasi. Tunggu hingga ditinjau admin.`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * The thread as one participant sees it: all of their own messages (with
+ * review status) and only the approved messages of the other side
+ */
+export async function listParticipantThread(supabase: DbClient, taarufId: number, userId: string) {
+  const session = await getSession(supabase, taarufId);
+  if (!isParticipant(session, userId)) {
+    return fail("NOT_FOUND", "Sesi taaruf tidak ditemukan");
+  }
+
+  const messages = await listMessages(supabase, taarufId);
+  if (!messages) {
+    return fail("DB_ERROR", "Gagal memuat tanya jawab");
+  }
+
+  const visible = messages
+    .filter((m) => m.sender_id === userId || m.status === "APPROVED")
+    .map((m) => (m.sender_id === userId ? m : { ...m, reject_reason: null }));
+
+  return {
+    success: true as const,
+    error: null,
+    errorCode: null,
+    data: {
+      // groupThread drops answers whose question the user can't see
+      items: groupThread(visible),
+      viewerId: userId,
+      canPost: session.status === "ACTIVE",
+    },
+  };
+}
+
+/**
+ * Every message of a session, whatever its status (admin)
+ */
+export async function listSessionThread(supabase: DbClient, taarufId: number) {
+  const messages = await listMessages(supabase, taarufId);
+  if (!messages) {
+    return fail("DB_ERROR", "Gagal memuat tanya jawab");
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: groupThread(messages) };
+}
+
+export async function askQuestion(supabase: DbClient, taarufId: number, userId: string, body: string) {
+  const session = await getSession(supabase, taarufId);
+  if (!isParticipant(session, userId)) {
+    return fail("NOT_FOUND", "Sesi taaruf tidak ditemukan");
+  }
+  if (session.status !== "ACTIVE") {
+    return fail("SESSION_NOT_ACTIVE", "Sesi taaruf sudah berakhir");
+  }
+
+  const refused = await checkNewMessage(supabase, taarufId, userId, body);
+  if (refused) return refused;
+
+  const { data, error } = await supabase
+    .from("taaruf_qa_messages")
+    .insert({ taaruf_id: taarufId, sender_id: userId, body })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("[askQuestion] Error:", error);
+    return fail("DB_ERROR", "Gagal mengirim pertanyaan");
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: toThreadMessage(data as TaarufQaMessage) };
+}
+
+/**
+ * Answer an approved question from the other side; a rejected answer can
+ * be written again
+ */
+export async function answerQuestion(supabase: DbClient, questionId: number, userId: string, body: string) {
+  const { data: questionRow } = await supabase
+    .from("taaruf_qa_messages")
+    .select("*")
+    .eq("id", questionId)
+    .is("question_id", null)
+    .maybeSingle();
+
+  const question = questionRow as TaarufQaMessage | null;
+  const session = question ? await getSession(supabase, question.taaruf_id) : null;
+
+  // Only approved questions from the other side can be answered
+  if (
+    !question ||
+    question.status !== "APPROVED" ||
+    question.sender_id === userId ||
+    !isParticipant(session, userId)
+  ) {
+    return fail("NOT_FOUND", "Pertanyaan tidak ditemukan");
+  }
+  if (session.status !== "ACTIVE") {
+    return fail("SESSION_NOT_ACTIVE", "Sesi taaruf sudah berakhir");
+  }
+
+  const refused = await checkNewMessage(supabase, question.taaruf_id, userId, body);
+  if (refused) return refused;
+
+  const { data, error } = await supabase
+    .from("taaruf_qa_messages")
+    .insert({ taaruf_id: question.taaruf_id, question_id: question.id, sender_id: userId, body })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    // taaruf_qa_messages_one_answer
+    if (error?.code === "23505") {
+      return fail("ALREADY_ANSWERED", "Pertanyaan ini sudah Anda jawab");
+    }
+    console.error("[answerQuestion] Error:", error);
+    return fail("DB_ERROR", "Gagal mengirim jawaban");
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: toThreadMessage(data as TaarufQaMessage) };
+}
+
+/**
+ * Approve (deliver to the other side) or reject (tell the sender why) a
+ * pending message
+ */
+export async function reviewMessage(
+  supabase: DbClient,
+  messageId: number,
+  decision: { action: "approve" } | { action: "reject"; reason: string },
+  adminId: string
+) {
+  const { data: messageRow } = await supabase
+    .from("taaruf_qa_messages")
+    .select("*")
+    .eq("id", messageId)
+    .maybeSingle();
+
+  const message = messageRow as TaarufQaMessage | null;
+  if (!message) {
+    return fail("NOT_FOUND", "Pesan tidak ditemukan");
+  }
+  if (message.status !== "PENDING") {
+    return fail("INVALID_STATE", "Pesan sudah ditinjau");
+  }
+
+  const session = await getSession(supabase, message.taaruf_id);
+  if (!session) {
+    return fail("NOT_FOUND", "Sesi taaruf tidak ditemukan");
+  }
+  if (decision.action === "approve" && session.status !== "ACTIVE") {
+    return fail("SESSION_NOT_ACTIVE", "Sesi taaruf sudah berakhir");
+  }
+
+  const approved = decision.action === "approve";
+  const { data: updated, error } = await supabase
+    .from("taaruf_qa_messages")
+    .update({
+      status: approved ? "APPROVED" : "REJECTED",
+      reject_reason: approved ? null : decision.reason,
+      reviewed_by: adminId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", messageId)
+    .eq("status", "PENDING")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[reviewMessage] Error:", error);
+    return fail("DB_ERROR", "Gagal menyimpan moderasi");
+  }
+  if (!updated) {
+    return fail("INVALID_STATE", "Pesan sudah ditinjau");
+  }
+
+  const isAnswer = message.question_id !== null;
+  const data = { taaruf_id: message.taaruf_id, taaruf_code: session.taaruf_code, message_id: message.id };
+
+  if (approved) {
+    const recipientId = message.sender_id === session.user_a ? session.user_b : session.user_a;
+    await createNotification({
+      userId: recipientId,
+      type: isAnswer ? "TAARUF_ANSWER_RECEIVED" : "TAARUF_QUESTION_RECEIVED",
+      title: isAnswer ? "Pertanyaan Anda Dijawab" : "Pertanyaan Baru dari Pasangan Taaruf",
+      message: isAnswer
+        ? `Pasangan taaruf Anda (${session.taaruf_code}) telah menjawab pertanyaan Anda.`
+        : `Pasangan taaruf Anda (${session.taaruf_code}) mengirim pertanyaan baru untuk Anda jawab.`,
+      data,
+    });
+  } else {
+    await createNotification({
+      userId: message.sender_id,
+      type: "TAARUF_QA_REJECTED",
+      title: isAnswer ? "Jawaban Anda Tidak Diteruskan" : "Pertanyaan Anda Tidak Diteruskan",
+      message: `Admin tidak meneruskan ${isAnswer ? "jawaban" : "pertanyaan"} Anda di Taaruf ${session.taaruf_code}. Alasan: ${decision.reason}`,
+      data: { ...data, reason: decision.reason },
+    });
+  }
+
+  return { success: true as const, error: null, errorCode: null, data: updated as TaarufQaMessage };
+}
@@ -0,0 +1,454 @@
+/**
+ * Wallet Service
+ * The only place that reads balances or writes the koin ledger
+ * (wallet_transactions). Everything is stored in cents; 1 koin = 100 cents.
+ *
+ * - balance:   SUM(CREDIT) - SUM(DEBIT)       (wallet_balances_v)
+ * - available: balance - active wallet_holds  (what can be spent)
+ * - profiles.koin_balance is only a cache, kept in sync by a trigger;
+ *   getWalletReconciliation() lists users where it drifted.
+ *
+ * Writes go through SECURITY DEFINER RPCs: users can only DEBIT / hold
+ * their own wallet, CREDIT needs an admin or the service role client.
+ */
+
+import type { createClient } from "@/server/db/client";
+import type {
+  LedgerReason,
+  PaymentRefund,
+  WalletBalance as WalletBalanceRow,
+  WalletPlaceHoldResult,
+  WalletPostEntryResult,
+  WalletReconciliationRow,
+  WalletRefundEntryResult,
+  WalletRefundSummaryRow,
+  WalletSettleHoldResult,
+} from "@/types/database.types";
+
+type DbClient = Awaited<ReturnType<typeof createClient>>;
+
+export const CENTS_PER_KOIN = 100;
+
+export function koinToCents(koin: number): number {
+  return Math.round(koin * CENTS_PER_KOIN);
+}
+
+/** Whole koin only - a partial koin can't be spent */
+export function centsToKoin(cents: number): number {
+  return Math.floor(cents / CENTS_PER_KOIN);
+}
+
+export interface WalletBalance {
+  balanceCents: number;
+  heldCents: number;
+  availableCents: number;
+  /** Spendable koin (available balance) */
+  koin: number;
+}
+
+export interface WalletEntryInput {
+  userId: string;
+  amountCents: number;
+  reason: LedgerReason;
+  /** Same key → same entry; retries never post twice */
+  idempotencyKey: string;
+  linkedOrderId?: string | null;
+}
+
+export interface WalletHoldInput extends WalletEntryInput {
+  expiresAt?: string | null;
+}
+
+function toWalletBalance(row: Pick<WalletBalanceRow, "balance_cents" | "held_cents" | "available_cents"> | null): WalletBalance {
+  const balanceCents = Number(row?.balance_cents ?? 0);
+  const heldCents = Number(row?.held_cents ?? 0);
+  const availableCents = Number(row?.available_cents ?? balanceCents - heldCents);
+
+  return {
+    balanceCents,
+    heldCents,
+    availableCents,
+    koin: centsToKoin(availableCents),
+  };
+}
+
+/**
+ * Balance of one wallet (a user without ledger rows has 0)
+ */
+export async function getWalletBalance(supabase: DbClient, userId: string) {
+  const { data, error } = await supabase
+    .from("wallet_balances_v")
+    .select("balance_cents, held_cents, available_cents")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getWalletBalance] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: toWalletBalance(data as WalletBalanceRow | null) };
+}
+
+/**
+ * Balances for many wallets at once (admin lists)
+ */
+export async function getWalletBalances(
+  supabase: DbClient,
+  userIds: string[]
+): Promise<Map<string, WalletBalance>> {
+  const balances = new Map<string, WalletBalance>(
+    userIds.map((id) => [id, toWalletBalance(null)])
+  );
+  if (userIds.length === 0) return balances;
+
+  const { data, error } = await supabase
+    .from("wallet_balances_v")
+    .select("user_id, balance_cents, held_cents, available_cents")
+    .in("user_id", userIds);
+
+  if (error) {
+    console.error("[getWalletBalances] Error:", error);
+    return balances;
+  }
+
+  for (const row of (data || []) as WalletBalanceRow[]) {
+    balances.set(row.user_id, toWalletBalance(row));
+  }
+
+  return balances;
+}
+
+async function postEntry(supabase: DbClient, type: "CREDIT" | "DEBIT", input: WalletEntryInput) {
+  const { data, error } = await supabase.rpc("wallet_post_entry", {
+    p_user_id: input.userId,
+    p_type: type,
+    p_amount_cents: input.amountCents,
+    p_reason: input.reason,
+    p_idempotency_key: input.idempotencyKey,
+    p_linked_order_id: input.linkedOrderId ?? null,
+  });
+
+  const result = ((data || []) as WalletPostEntryResult[])[0];
+
+  if (error || !result) {
+    console.error(`[${type === "CREDIT" ? "creditWallet" : "debitWallet"}] RPC error:`, error);
+    return {
+      success: false,
+      error: error?.message || "Gagal memperbarui saldo koin",
+      errorCode: "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  if (result.error_code) {
+    return {
+      success: false,
+      error:
+        result.error_code === "INSUFFICIENT_BALANCE"
+          ? "Saldo koin tidak cukup"
+          : "Gagal memperbarui saldo koin",
+      errorCode: result.error_code,
+      data: null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: {
+      entryId: result.entry_id,
+      replayed: Boolean(result.replayed),
+      balance: toWalletBalance({
+        balance_cents: Number(result.balance_cents ?? 0),
+        available_cents: Number(result.available_cents ?? 0),
+        held_cents: Number(result.balance_cents ?? 0) - Number(result.available_cents ?? 0),
+      }),
+    },
+  };
+}
+
+/**
+ * Add koin (top-up, refund, adjustment) - admin or service role client only
+ */
+export async function creditWallet(supabase: DbClient, input: WalletEntryInput) {
+  return postEntry(supabase, "CREDIT", input);
+}
+
+/**
+ * Spend koin; fails with INSUFFICIENT_BALANCE instead of going negative
+ */
+export async function debitWallet(supabase: DbClient, input: WalletEntryInput) {
+  return postEntry(supabase, "DEBIT", input);
+}
+
+/**
+ * Reserve koin until the action it pays for is confirmed
+ */
+export async function placeWalletHold(supabase: DbClient, input: WalletHoldInput) {
+  const { data, error } = await supabase.rpc("wallet_place_hold", {
+    p_user_id: input.userId,
+    p_amount_cents: input.amountCents,
+    p_reason: input.reason,
+    p_idempotency_key: input.idempotencyKey,
+    p_reference: input.linkedOrderId ?? null,
+    p_expires_at: input.expiresAt ?? null,
+  });
+
+  const result = ((data || []) as WalletPlaceHoldResult[])[0];
+
+  if (error || !result || result.error_code) {
+    if (error) console.error("[placeWalletHold] RPC error:", error);
+    return {
+      success: false,
+      error:
+        result?.error_code === "INSUFFICIENT_BALANCE"
+          ? "Saldo koin tidak cukup"
+          : error?.message || "Gagal menahan saldo koin",
+      errorCode: result?.error_code || "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: { holdId: result.hold_id as number, replayed: Boolean(result.replayed) },
+  };
+}
+
+async function settleHold(supabase: DbClient, holdId: number, capture: boolean) {
+  const { data, error } = await supabase.rpc("wallet_settle_hold", {
+    p_hold_id: holdId,
+    p_capture: capture,
+  });
+
+  const result = ((data || []) as WalletSettleHoldResult[])[0];
+
+  if (error || !result || result.error_code) {
+    if (error) console.error(`[${capture ? "captureWalletHold" : "releaseWalletHold"}] RPC error:`, error);
+    return {
+      success: false,
+      error: error?.message || result?.error_code || "Gagal memproses saldo yang ditahan",
+      errorCode: result?.error_code || "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: { status: result.status, entryId: result.entry_id },
+  };
+}
+
+/**
+ * Charge a hold (DEBIT of the held amount)
+ */
+export async function captureWalletHold(supabase: DbClient, holdId: number) {
+  return settleHold(supabase, holdId, true);
+}
+
+/**
+ * Drop a hold without charging
+ */
+export async function releaseWalletHold(supabase: DbClient, holdId: number) {
+  return settleHold(supabase, holdId, false);
+}
+
+export interface WalletRefundInput {
+  /** wallet_transactions.id of the DEBIT being refunded */
+  transactionId: number;
+  /** null = everything still refundable */
+  amountCents: number | null;
+  reason: string;
+  /** Acting admin, recorded when called with the service role client */
+  adminId?: string | null;
+}
+
+export interface WalletRefund {
+  id: string;
+  transactionId: number;
+  userId: string | null;
+  userName: string | null;
+  userEmail: string | null;
+  initiatedBy: string | null;
+  amountCents: number;
+  reason: string;
+  status: string;
+  createdAt: string;
+}
+
+const REFUND_ERROR_MESSAGES: Record<string, string> = {
+  FORBIDDEN: "Anda tidak memiliki izin untuk melakukan refund",
+  INVALID_REASON: "Alasan refund minimal 10 karakter",
+  TRANSACTION_NOT_FOUND: "Transaksi tidak ditemukan",
+  NOT_REFUNDABLE: "Hanya pemakaian koin (ta'aruf / posting media) yang dapat di-refund",
+  ALREADY_REFUNDED: "Transaksi sudah di-refund penuh",
+  INVALID_AMOUNT: "Jumlah refund tidak valid",
+  EXCEEDS_REFUNDABLE: "Jumlah refund melebihi sisa yang dapat di-refund",
+};
+
+/**
+ * Refund (part of) a koin DEBIT as a CREDIT/REFUND entry. The RPC locks
+ * the original entry, so refunds of one transaction never add up to more
+ * than was spent. Finance / superadmin or service role client.
+ */
+export async function refundWalletEntry(supabase: DbClient, input: WalletRefundInput) {
+  const { data, error } = await supabase.rpc("wallet_refund_entry", {
+    p_transaction_id: input.transactionId,
+    p_amount_cents: input.amountCents,
+    p_reason: input.reason,
+    p_admin_id: input.adminId ?? null,
+  });
+
+  const result = ((data || []) as WalletRefundEntryResult[])[0];
+
+  if (error || !result) {
+    console.error("[refundWalletEntry] RPC error:", error);
+    return {
+      success: false,
+      error: error?.message || "Gagal memproses refund",
+      errorCode: "RPC_ERROR",
+      data: null,
+    };
+  }
+
+  if (result.error_code) {
+    return {
+      success: false,
+      error: REFUND_ERROR_MESSAGES[result.error_code] || "Gagal memproses refund",
+      errorCode: result.error_code,
+      data: null,
+    };
+  }
+
+  return {
+    success: true,
+    error: null,
+    errorCode: null,
+    data: {
+      refundId: result.refund_id as string,
+      entryId: result.entry_id as number,
+      refundedCents: Number(result.refunded_cents ?? 0),
+      refundableCents: Number(result.refundable_cents ?? 0),
+    },
+  };
+}
+
+/**
+ * Refunded / still refundable cents per ledger entry (service role client)
+ */
+export async function getWalletRefundSummary(
+  supabase: DbClient,
+  transactionIds: number[]
+): Promise<Map<number, { refundedCents: number; refundableCents: number }>> {
+  const summary = new Map<number, { refundedCents: number; refundableCents: number }>();
+  if (transactionIds.length === 0) return summary;
+
+  const { data, error } = await supabase.rpc("wallet_refund_summary", {
+    p_transaction_ids: transactionIds,
+  });
+
+  if (error) {
+    console.error("[getWalletRefundSummary] RPC error:", error);
+    return summary;
+  }
+
+  for (const row of (data || []) as WalletRefundSummaryRow[]) {
+    summary.set(Number(row.transaction_id), {
+      refundedCents: Number(row.refunded_cents),
+      refundableCents: Number(row.refundable_cents),
+    });
+  }
+
+  return summary;
+}
+
+/**
+ * Refund history, newest first (admin or service role client)
+ */
+export async function listWalletRefunds(
+  supabase: DbClient,
+  { page = 1, limit = 10 }: { page?: number; limit?: number } = {}
+) {
+  const offset = (page - 1) * limit;
+
+  const { data, error, count } = await supabase
+    .from("payment_refunds")
+    .select(
+      "*, profile:profiles!payment_refunds_user_id_fkey(full_name, email)",
+      { count: "exact" }
+    )
+    .not("ledger_entry_id", "is", null)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error("[listWalletRefunds] Error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  type Row = PaymentRefund & { profile: { full_name: string | null; email: string } | null };
+
+  const refunds: WalletRefund[] = ((data || []) as unknown as Row[]).map((row) => ({
+    id: row.id,
+    transactionId: Number(row.transaction_id),
+    userId: row.user_id,
+    userName: row.profile?.full_name ?? null,
+    userEmail: row.profile?.email ?? null,
+    initiatedBy: row.initiated_by,
+    amountCents: Number(row.amount_cents ?? 0),
+    reason: row.refund_reason,
+    status: row.status,
+    createdAt: row.created_at,
+  }));
+
+  const total = count || 0;
+
+  return {
+    success: true,
+    error: null,
+    data: {
+      refunds,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    },
+  };
+}
+
+/**
+ * Users whose cached profiles.koin_balance differs from the ledger sum
+ * (admin or service role client)
+ */
+export async function getWalletReconciliation(supabase: DbClient) {
+  const { data, error } = await supabase.rpc("wallet_reconciliation");
+
+  if (error) {
+    console.error("[getWalletReconciliation] RPC error:", error);
+    return { success: false, error: error.message, data: null };
+  }
+
+  return { success: true, error: null, data: (data || []) as WalletReconciliationRow[] };
+}
+
+/**
+ * Reset the cached koin_balance of the given users from the ledger
+ * (service role client only)
+ */
+export async function syncCachedWalletBalances(supabase: DbClient, userIds: string[]) {
+  let synced = 0;
+
+  for (const userId of userIds) {
+    const { error } = await supabase.rpc("wallet_sync_cached_balance", { p_user_id: userId });
+    if (error) {
+      console.error("[syncCachedWalletBalances] RPC error:", userId, error);
+      continue;
+    }
+    synced += 1;
+  }
+
+  return synced;
+}
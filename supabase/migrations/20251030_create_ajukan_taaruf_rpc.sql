@@ -0,0 +1,194 @@
+-- =====================================================
+-- Migration: Atomic ajukan_taaruf RPC
+-- Description: Create taaruf request + debit koin in ONE transaction
+-- Date: 2025-10-30
+-- Issue: ajukanTaaruf inserted the request, then the DEBIT, and "rolled back"
+--        by deleting the request. A crash in between left a free request or a
+--        lost charge, and Date.now() in the idempotency key allowed double
+--        charging on double-click.
+-- =====================================================
+
+-- Caller-supplied idempotency key (one per "Ajukan" attempt)
+ALTER TABLE public.taaruf_requests
+ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_taaruf_requests_idempotency_key
+ON public.taaruf_requests(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+COMMENT ON COLUMN public.taaruf_requests.idempotency_key IS 'Client-generated key - replaying the same key returns the original request without charging again';
+
+-- =====================================================
+-- FUNCTION: ajukan_taaruf
+-- Same guards as validateTaarufRequest (+ target checks from can_ajukan_taaruf),
+-- then insert request and DEBIT ledger entry atomically.
+-- Guard failures are returned as error_code (no exception, no side effects).
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.ajukan_taaruf(
+  p_to_user uuid,
+  p_idempotency_key text
+)
+RETURNS TABLE(
+  request_id bigint,
+  expires_at timestamptz,
+  charged_cents int,
+  balance_cents int,
+  replayed boolean,
+  error_code text,
+  active_taaruf_code text,
+  existing_status text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from uuid := auth.uid();
+  v_cost_cents int := 500; -- 5 koin (keep in sync with TAARUF_COST_KOIN)
+  v_from_status public.cv_status_enum;
+  v_from_gender public.gender_enum;
+  v_to_gender public.gender_enum;
+  v_balance int;
+  v_existing record;
+BEGIN
+  IF v_from IS NULL THEN
+    error_code := 'NOT_AUTHENTICATED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) < 8 THEN
+    error_code := 'INVALID_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Serialize all koin spending of this user (same lock as deduct_koin)
+  PERFORM 1 FROM public.profiles WHERE user_id = v_from FOR UPDATE;
+
+  -- Idempotency: same key → return the original request, charge nothing
+  SELECT tr.id, tr.to_user, tr.expires_at
+  INTO v_existing
+  FROM public.taaruf_requests tr
+  WHERE tr.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.to_user <> p_to_user THEN
+      error_code := 'IDEMPOTENCY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    request_id := v_existing.id;
+    expires_at := v_existing.expires_at;
+    charged_cents := 0;
+    replayed := true;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 2: CV must be APPROVED
+  SELECT cd.status, cd.gender
+  INTO v_from_status, v_from_gender
+  FROM public.cv_data cd
+  WHERE cd.user_id = v_from;
+
+  IF v_from_status IS NULL THEN
+    error_code := 'CV_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_from_status <> 'APPROVED' THEN
+    error_code := 'CV_NOT_APPROVED';
+    existing_status := v_from_status::text;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 5: Cannot request to self
+  IF v_from = p_to_user THEN
+    error_code := 'SELF_REQUEST';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Target must be an APPROVED candidate of the opposite gender
+  -- (SECURITY DEFINER bypasses the can_ajukan_taaruf RLS check)
+  SELECT cd.gender
+  INTO v_to_gender
+  FROM public.cv_data cd
+  WHERE cd.user_id = p_to_user
+    AND cd.status = 'APPROVED';
+
+  IF v_to_gender IS NULL OR v_to_gender = v_from_gender THEN
+    error_code := 'TARGET_NOT_AVAILABLE';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 3: Koin balance must be sufficient (ledger sum)
+  SELECT COALESCE(
+    SUM(CASE WHEN type = 'CREDIT' THEN amount_cents ELSE 0 END) -
+    SUM(CASE WHEN type = 'DEBIT' THEN amount_cents ELSE 0 END),
+    0
+  )
+  INTO v_balance
+  FROM public.wallet_transactions
+  WHERE user_id = v_from;
+
+  IF v_balance < v_cost_cents THEN
+    error_code := 'INSUFFICIENT_KOIN';
+    balance_cents := v_balance;
+    charged_cents := v_cost_cents;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 4: No active taaruf session
+  SELECT ts.taaruf_code
+  INTO active_taaruf_code
+  FROM public.taaruf_sessions ts
+  WHERE (ts.user_a = v_from OR ts.user_b = v_from)
+    AND ts.status = 'ACTIVE'
+  LIMIT 1;
+
+  IF FOUND THEN
+    error_code := 'ACTIVE_TAARUF_EXISTS';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 6: No PENDING/ACCEPTED request to the same user
+  SELECT tr.status::text
+  INTO existing_status
+  FROM public.taaruf_requests tr
+  WHERE tr.from_user = v_from
+    AND tr.to_user = p_to_user
+    AND tr.status IN ('PENDING', 'ACCEPTED')
+  LIMIT 1;
+
+  IF FOUND THEN
+    error_code := 'REQUEST_EXISTS';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- All guards passed: create request + debit in this transaction
+  INSERT INTO public.taaruf_requests (from_user, to_user, status, expires_at, idempotency_key)
+  VALUES (v_from, p_to_user, 'PENDING', now() + interval '72 hours', p_idempotency_key)
+  RETURNING id, taaruf_requests.expires_at INTO request_id, expires_at;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, idempotency_key)
+  VALUES (v_from, 'DEBIT', v_cost_cents, 'TAARUF_COST', 'taaruf-request-' || request_id::text);
+
+  charged_cents := v_cost_cents;
+  balance_cents := v_balance - v_cost_cents;
+  replayed := false;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ajukan_taaruf(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION public.ajukan_taaruf(uuid, text) IS 'Atomically create taaruf request and debit TAARUF_COST. Idempotent per caller-supplied key. Ledger key: taaruf-request-<id>.';
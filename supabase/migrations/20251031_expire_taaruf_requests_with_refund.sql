@@ -0,0 +1,143 @@
+-- =====================================================
+-- Migration: Expire overdue taaruf requests with koin refund
+-- Description: Sweeper that moves PENDING → EXPIRED, refunds TAARUF_COST
+--              and notifies both parties
+-- Date: 2025-10-31
+-- Issue: Requests were created with expires_at = +72h but nothing ever
+--        expired them, so the sender's 5 koin stayed locked forever.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTION: expire_taaruf_requests
+-- Idempotent: each request can only leave PENDING once (row lock +
+-- status check) and the refund uses a unique ledger idempotency key,
+-- so running the sweeper twice refunds nothing extra.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.expire_taaruf_requests()
+RETURNS TABLE(
+  expired_request_id bigint,
+  sender_id uuid,
+  receiver_id uuid,
+  refunded_cents int
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_req record;
+  v_refund_cents int;
+  v_sender_code text;
+  v_receiver_code text;
+BEGIN
+  FOR v_req IN
+    SELECT tr.id, tr.from_user, tr.to_user
+    FROM public.taaruf_requests tr
+    WHERE tr.status = 'PENDING'
+      AND tr.expires_at < now()
+    ORDER BY tr.expires_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.taaruf_requests
+    SET status = 'EXPIRED',
+        decided_at = now()
+    WHERE id = v_req.id;
+
+    -- Refund exactly what ajukan_taaruf charged; legacy requests
+    -- (pre-RPC ledger keys) fall back to the standard TAARUF_COST
+    SELECT wt.amount_cents
+    INTO v_refund_cents
+    FROM public.wallet_transactions wt
+    WHERE wt.idempotency_key = 'taaruf-request-' || v_req.id::text
+      AND wt.type = 'DEBIT';
+
+    IF NOT FOUND THEN
+      v_refund_cents := 500; -- 5 koin
+    END IF;
+
+    INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, idempotency_key)
+    VALUES (v_req.from_user, 'CREDIT', v_refund_cents, 'REFUND', 'taaruf-expired-refund-' || v_req.id::text)
+    ON CONFLICT (idempotency_key) DO NOTHING;
+
+    IF NOT FOUND THEN
+      v_refund_cents := 0; -- already refunded by a previous run
+    END IF;
+
+    SELECT cd.candidate_code INTO v_sender_code
+    FROM public.cv_data cd WHERE cd.user_id = v_req.from_user;
+
+    SELECT cd.candidate_code INTO v_receiver_code
+    FROM public.cv_data cd WHERE cd.user_id = v_req.to_user;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES
+      (
+        v_req.from_user,
+        'TAARUF_REQUEST_EXPIRED',
+        'Pengajuan Taaruf Kedaluwarsa',
+        format(
+          'Pengajuan taaruf Anda kepada %s tidak direspons dalam 72 jam. %s koin telah dikembalikan ke saldo Anda.',
+          COALESCE(v_receiver_code, 'kandidat'),
+          v_refund_cents / 100
+        ),
+        jsonb_build_object(
+          'request_id', v_req.id,
+          'candidate_code', v_receiver_code,
+          'refunded_cents', v_refund_cents
+        )
+      ),
+      (
+        v_req.to_user,
+        'TAARUF_REQUEST_EXPIRED',
+        'Pengajuan Taaruf Kedaluwarsa',
+        format(
+          'Pengajuan taaruf dari %s telah kedaluwarsa karena tidak direspons dalam 72 jam.',
+          COALESCE(v_sender_code, 'kandidat')
+        ),
+        jsonb_build_object(
+          'request_id', v_req.id,
+          'candidate_code', v_sender_code
+        )
+      );
+
+    expired_request_id := v_req.id;
+    sender_id := v_req.from_user;
+    receiver_id := v_req.to_user;
+    refunded_cents := v_refund_cents;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Only the backend (service role) may run the sweeper
+REVOKE ALL ON FUNCTION public.expire_taaruf_requests() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.expire_taaruf_requests() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_taaruf_requests() TO service_role;
+
+COMMENT ON FUNCTION public.expire_taaruf_requests() IS 'Scheduled job: expire overdue PENDING taaruf requests, refund TAARUF_COST (ledger key taaruf-expired-refund-<id>) and notify both parties. Idempotent.';
+
+-- =====================================================
+-- Old cleanup function expired requests WITHOUT refund.
+-- Keep the name for existing callers, delegate to the sweeper.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cleanup_expired_taaruf_requests()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.expire_taaruf_requests();
+END;
+$$;
+
+COMMENT ON FUNCTION public.cleanup_expired_taaruf_requests() IS 'Deprecated alias for expire_taaruf_requests() (refunds + notifications)';
+
+-- =====================================================
+-- Scheduling (pick one)
+-- 1. External cron → GET/POST /api/cron/expire-taaruf with
+--    "Authorization: Bearer $CRON_SECRET"
+-- 2. pg_cron inside Supabase:
+--    SELECT cron.schedule('expire-taaruf-requests', '*/15 * * * *',
+--      $$SELECT public.expire_taaruf_requests()$$);
+-- =====================================================
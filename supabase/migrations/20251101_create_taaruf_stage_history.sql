@@ -0,0 +1,214 @@
+-- =====================================================
+-- Migration: First-class taaruf stage model
+-- Description: taaruf_sessions.current_stage + taaruf_stage_history
+--              + change_taaruf_stage RPC
+-- Date: 2025-11-01
+-- Issue: The kanban derived each session's stage from the newest
+--        TAARUF_STAGE_UPDATED notification; stage changes had no owner,
+--        no reason and no guard against illegal jumps.
+-- =====================================================
+
+-- Stages must match TAARUF_STAGES in features/taaruf/lib/stages.ts
+ALTER TABLE public.taaruf_sessions
+ADD COLUMN IF NOT EXISTS current_stage text NOT NULL DEFAULT 'Zoom 1'
+  CHECK (current_stage IN ('Zoom 1', 'Zoom 2', 'Khitbah', 'Selesai', 'Dibatalkan'));
+
+ALTER TABLE public.taaruf_sessions
+ADD COLUMN IF NOT EXISTS stage_updated_at timestamptz NOT NULL DEFAULT now();
+
+COMMENT ON COLUMN public.taaruf_sessions.current_stage IS 'Kanban stage. Change only via change_taaruf_stage() so history stays complete';
+
+-- =====================================================
+-- TABLE: taaruf_stage_history
+-- One row per stage change: who moved the card, when and why
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.taaruf_stage_history (
+  id bigserial PRIMARY KEY,
+  session_id bigint NOT NULL REFERENCES public.taaruf_sessions(id) ON DELETE CASCADE,
+  from_stage text, -- NULL for the initial stage
+  to_stage text NOT NULL,
+  changed_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_taaruf_stage_history_session
+ON public.taaruf_stage_history(session_id, created_at DESC);
+
+ALTER TABLE public.taaruf_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Admin can view all history
+CREATE POLICY "taaruf_stage_history_select_admin"
+  ON public.taaruf_stage_history
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Participants can view the history of their own session
+CREATE POLICY "taaruf_stage_history_select_participant"
+  ON public.taaruf_stage_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.taaruf_sessions ts
+      WHERE ts.id = session_id
+        AND (ts.user_a = auth.uid() OR ts.user_b = auth.uid())
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: writes go through change_taaruf_stage()
+-- and the session insert trigger below
+
+COMMENT ON TABLE public.taaruf_stage_history IS 'Audit trail of taaruf kanban stage changes';
+
+-- =====================================================
+-- Backfill from TAARUF_STAGE_UPDATED notifications
+-- Each change was notified to both users, so collapse consecutive
+-- duplicates per session before writing history.
+-- =====================================================
+INSERT INTO public.taaruf_stage_history (session_id, from_stage, to_stage, reason, created_at)
+SELECT session_id, prev_stage, stage, 'Migrasi dari notifikasi', created_at
+FROM (
+  SELECT
+    session_id,
+    stage,
+    created_at,
+    LAG(stage) OVER (PARTITION BY session_id ORDER BY created_at, id) AS prev_stage
+  FROM (
+    SELECT
+      n.id,
+      (n.data->>'taaruf_id')::bigint AS session_id,
+      n.data->>'stage' AS stage,
+      n.created_at
+    FROM public.notifications n
+    JOIN public.taaruf_sessions ts ON ts.id = (n.data->>'taaruf_id')::bigint
+    WHERE n.type = 'TAARUF_STAGE_UPDATED'
+      AND n.data->>'taaruf_id' ~ '^[0-9]+$'
+      AND n.data->>'stage' IN ('Zoom 1', 'Zoom 2', 'Khitbah', 'Selesai', 'Dibatalkan')
+  ) notified
+) ordered
+WHERE prev_stage IS DISTINCT FROM stage
+  AND NOT EXISTS (SELECT 1 FROM public.taaruf_stage_history h WHERE h.session_id = ordered.session_id);
+
+UPDATE public.taaruf_sessions ts
+SET current_stage = latest.to_stage,
+    stage_updated_at = latest.created_at
+FROM (
+  SELECT DISTINCT ON (session_id) session_id, to_stage, created_at
+  FROM public.taaruf_stage_history
+  ORDER BY session_id, created_at DESC, id DESC
+) latest
+WHERE latest.session_id = ts.id;
+
+-- Sessions never moved on the board: derive stage from status
+UPDATE public.taaruf_sessions ts
+SET current_stage = CASE
+      WHEN ts.status IN ('FINISHED', 'COMPLETED') THEN 'Selesai'
+      WHEN ts.status = 'CANCELLED' THEN 'Dibatalkan'
+      ELSE 'Zoom 1'
+    END,
+    stage_updated_at = COALESCE(ts.ended_at, ts.started_at, now())
+WHERE NOT EXISTS (SELECT 1 FROM public.taaruf_stage_history h WHERE h.session_id = ts.id);
+
+INSERT INTO public.taaruf_stage_history (session_id, from_stage, to_stage, reason, created_at)
+SELECT ts.id, NULL, ts.current_stage, 'Migrasi dari status sesi', ts.stage_updated_at
+FROM public.taaruf_sessions ts
+WHERE NOT EXISTS (SELECT 1 FROM public.taaruf_stage_history h WHERE h.session_id = ts.id);
+
+-- =====================================================
+-- TRIGGER: record the initial stage of every new session
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.record_initial_taaruf_stage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.taaruf_stage_history (session_id, from_stage, to_stage, changed_by)
+  VALUES (NEW.id, NULL, NEW.current_stage, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_taaruf_sessions_initial_stage ON public.taaruf_sessions;
+CREATE TRIGGER trg_taaruf_sessions_initial_stage
+  AFTER INSERT ON public.taaruf_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_initial_taaruf_stage();
+
+-- =====================================================
+-- FUNCTION: change_taaruf_stage
+-- Moves a session from p_from_stage to p_to_stage and writes history
+-- in one transaction. Transition rules live in the app (stages.ts);
+-- this function only guarantees nobody moved the card in between
+-- (STAGE_CONFLICT) and keeps session status in sync with terminal stages.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.change_taaruf_stage(
+  p_session_id bigint,
+  p_from_stage text,
+  p_to_stage text,
+  p_changed_by uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS TABLE(
+  history_id bigint,
+  current_stage text,
+  changed_at timestamptz,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current text;
+BEGIN
+  SELECT ts.current_stage
+  INTO v_current
+  FROM public.taaruf_sessions ts
+  WHERE ts.id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'SESSION_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_current <> p_from_stage THEN
+    error_code := 'STAGE_CONFLICT';
+    current_stage := v_current;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.taaruf_sessions ts
+  SET current_stage = p_to_stage,
+      stage_updated_at = now(),
+      status = CASE
+        WHEN p_to_stage = 'Selesai' THEN 'FINISHED'::public.taaruf_session_status
+        WHEN p_to_stage = 'Dibatalkan' THEN 'CANCELLED'::public.taaruf_session_status
+        ELSE ts.status
+      END,
+      ended_at = CASE
+        WHEN p_to_stage IN ('Selesai', 'Dibatalkan') THEN now()
+        ELSE ts.ended_at
+      END
+  WHERE ts.id = p_session_id;
+
+  INSERT INTO public.taaruf_stage_history (session_id, from_stage, to_stage, changed_by, reason)
+  VALUES (p_session_id, p_from_stage, p_to_stage, p_changed_by, NULLIF(trim(p_reason), ''))
+  RETURNING id, created_at INTO history_id, changed_at;
+
+  current_stage := p_to_stage;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.change_taaruf_stage(bigint, text, text, uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.change_taaruf_stage(bigint, text, text, uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.change_taaruf_stage(bigint, text, text, uuid, text) TO service_role;
+
+COMMENT ON FUNCTION public.change_taaruf_stage(bigint, text, text, uuid, text) IS 'Admin kanban: compare-and-set session stage + insert taaruf_stage_history row. Terminal stages also set status/ended_at.';
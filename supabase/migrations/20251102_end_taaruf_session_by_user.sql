@@ -0,0 +1,182 @@
+-- =====================================================
+-- Migration: User-initiated ending of a taaruf session
+-- Description: end_taaruf_session RPC + structured end reason columns
+-- Date: 2025-11-02
+-- Issue: Only an admin moving the kanban card to "Selesai" could end a
+--        session; until then both users stayed blocked from new requests
+--        (Guard 4: no ACTIVE session) and hidden via cv_data.taaruf_status.
+-- =====================================================
+
+-- Already added by 20251018_02_fix_schema_mismatches, repeated for
+-- databases created from the audit snapshot (ACTIVE/FINISHED only)
+ALTER TYPE public.taaruf_session_status ADD VALUE IF NOT EXISTS 'CANCELLED';
+
+-- Reason codes must match TAARUF_END_REASONS in features/taaruf/lib/end-reasons.ts
+ALTER TABLE public.taaruf_sessions
+ADD COLUMN IF NOT EXISTS ended_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS end_reason text
+  CHECK (end_reason IN ('TIDAK_COCOK', 'KEBERATAN_KELUARGA', 'BEDA_PRINSIP', 'TIDAK_ADA_KABAR', 'ALASAN_PRIBADI', 'LAINNYA')),
+ADD COLUMN IF NOT EXISTS end_note text;
+
+COMMENT ON COLUMN public.taaruf_sessions.ended_by IS 'Participant who ended the session (NULL when ended by admin via kanban)';
+COMMENT ON COLUMN public.taaruf_sessions.end_reason IS 'Structured reason code chosen by the participant';
+COMMENT ON COLUMN public.taaruf_sessions.end_note IS 'Optional free-text explanation, visible to admin only';
+
+-- =====================================================
+-- FUNCTION: end_taaruf_session
+-- Called by either participant. In one transaction:
+--   session → CANCELLED / stage Dibatalkan (+ stage history)
+--   cv_data.taaruf_status reset for both users (visible in search again)
+--   notify the other participant and every admin
+-- Guard failures are returned as error_code (no side effects).
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.end_taaruf_session(
+  p_session_id bigint,
+  p_reason text,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE(
+  session_id bigint,
+  taaruf_code text,
+  other_user uuid,
+  ended_at timestamptz,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_session record;
+  v_other uuid;
+  v_reason_label text;
+  v_note text := NULLIF(trim(p_note), '');
+  v_ender_code text;
+BEGIN
+  IF v_user IS NULL THEN
+    error_code := 'NOT_AUTHENTICATED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_reason_label := CASE p_reason
+    WHEN 'TIDAK_COCOK' THEN 'Merasa tidak cocok'
+    WHEN 'KEBERATAN_KELUARGA' THEN 'Keluarga tidak merestui'
+    WHEN 'BEDA_PRINSIP' THEN 'Perbedaan prinsip / visi pernikahan'
+    WHEN 'TIDAK_ADA_KABAR' THEN 'Pihak lain tidak responsif'
+    WHEN 'ALASAN_PRIBADI' THEN 'Alasan pribadi'
+    WHEN 'LAINNYA' THEN 'Lainnya'
+  END;
+
+  IF v_reason_label IS NULL THEN
+    error_code := 'INVALID_REASON';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_reason = 'LAINNYA' AND v_note IS NULL THEN
+    error_code := 'NOTE_REQUIRED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT ts.id, ts.user_a, ts.user_b, ts.status, ts.taaruf_code, ts.current_stage
+  INTO v_session
+  FROM public.taaruf_sessions ts
+  WHERE ts.id = p_session_id
+  FOR UPDATE;
+
+  -- Non-participants get the same answer as a missing session
+  IF NOT FOUND OR v_user NOT IN (v_session.user_a, v_session.user_b) THEN
+    error_code := 'SESSION_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_session.status <> 'ACTIVE' THEN
+    error_code := 'SESSION_NOT_ACTIVE';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_other := CASE WHEN v_session.user_a = v_user THEN v_session.user_b ELSE v_session.user_a END;
+
+  UPDATE public.taaruf_sessions ts
+  SET status = 'CANCELLED',
+      ended_at = now(),
+      ended_by = v_user,
+      end_reason = p_reason,
+      end_note = v_note,
+      current_stage = 'Dibatalkan',
+      stage_updated_at = now()
+  WHERE ts.id = p_session_id;
+
+  INSERT INTO public.taaruf_stage_history (session_id, from_stage, to_stage, changed_by, reason)
+  VALUES (
+    p_session_id,
+    v_session.current_stage,
+    'Dibatalkan',
+    v_user,
+    'Diakhiri peserta: ' || v_reason_label || COALESCE(' - ' || v_note, '')
+  );
+
+  UPDATE public.cv_data cd
+  SET taaruf_status = NULL
+  WHERE cd.user_id IN (v_session.user_a, v_session.user_b);
+
+  SELECT cd.candidate_code INTO v_ender_code
+  FROM public.cv_data cd WHERE cd.user_id = v_user;
+
+  -- Other participant sees the reason label, never the free-text note
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  VALUES (
+    v_other,
+    'TAARUF_ENDED',
+    'Ta''aruf Diakhiri',
+    format(
+      'Ta''aruf %s telah diakhiri oleh pasangan taaruf Anda. Alasan: %s. Anda sudah dapat mengajukan taaruf baru.',
+      v_session.taaruf_code,
+      v_reason_label
+    ),
+    jsonb_build_object(
+      'taaruf_id', p_session_id,
+      'taaruf_code', v_session.taaruf_code,
+      'reason', p_reason
+    )
+  );
+
+  INSERT INTO public.notifications (user_id, type, title, message, data)
+  SELECT
+    p.user_id,
+    'TAARUF_ENDED',
+    'Ta''aruf Diakhiri Peserta',
+    format(
+      'Ta''aruf %s diakhiri oleh %s. Alasan: %s%s',
+      v_session.taaruf_code,
+      COALESCE(v_ender_code, 'peserta'),
+      v_reason_label,
+      COALESCE(' - ' || v_note, '')
+    ),
+    jsonb_build_object(
+      'taaruf_id', p_session_id,
+      'taaruf_code', v_session.taaruf_code,
+      'ended_by', v_user,
+      'reason', p_reason,
+      'note', v_note,
+      'previous_stage', v_session.current_stage
+    )
+  FROM public.profiles p
+  WHERE p.is_admin = true;
+
+  session_id := p_session_id;
+  taaruf_code := v_session.taaruf_code;
+  other_user := v_other;
+  ended_at := now();
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.end_taaruf_session(bigint, text, text) TO authenticated;
+
+COMMENT ON FUNCTION public.end_taaruf_session(bigint, text, text) IS 'Participant ends an ACTIVE taaruf with a structured reason: session CANCELLED, stage Dibatalkan, CVs visible again, other party + admins notified.';
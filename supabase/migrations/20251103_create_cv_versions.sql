@@ -0,0 +1,186 @@
+-- =====================================================
+-- Migration: CV version history
+-- Description: cv_versions snapshots + snapshot_cv_version / record_cv_review RPCs
+-- Date: 2025-11-03
+-- Issue: Resubmitting a CV after "Minta Revisi" overwrote cv_data and
+--        cv_details in place, so reviewers could not see what the user
+--        actually changed since the last review.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: cv_versions
+-- One row per submission to REVIEW. Snapshots are immutable; only the
+-- review columns are filled in once an admin decides.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.cv_versions (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  cv_data jsonb NOT NULL,
+  cv_details jsonb,
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  review_decision text CHECK (review_decision IN ('APPROVED', 'REVISI')),
+  admin_note text,
+  reviewed_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  UNIQUE (user_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cv_versions_user
+ON public.cv_versions(user_id, version_number DESC);
+
+ALTER TABLE public.cv_versions ENABLE ROW LEVEL SECURITY;
+
+-- Admin can view all versions
+CREATE POLICY "cv_versions_select_admin"
+  ON public.cv_versions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Users can view their own versions (incl. past admin notes)
+CREATE POLICY "cv_versions_select_own"
+  ON public.cv_versions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- No INSERT/UPDATE/DELETE policies: writes go through the RPCs below
+
+COMMENT ON TABLE public.cv_versions IS 'Snapshot of cv_data + cv_details for every submission to REVIEW, with the admin decision on it';
+
+-- =====================================================
+-- FUNCTION: snapshot_cv_version
+-- Called right after the CV owner submits to REVIEW (cv_data and
+-- cv_details already saved). Locks the cv_data row so concurrent
+-- submissions get distinct version numbers.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.snapshot_cv_version(p_user_id uuid)
+RETURNS TABLE(
+  version_id bigint,
+  version_number integer,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_cv record;
+  v_cv_json jsonb;
+  v_details_json jsonb;
+  v_next integer;
+  v_id bigint;
+BEGIN
+  -- Service role calls have no auth.uid(); authenticated callers may only
+  -- snapshot their own CV
+  IF v_caller IS NOT NULL AND v_caller <> p_user_id THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT cd.* INTO v_cv
+  FROM public.cv_data cd
+  WHERE cd.user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'CV_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Store the province name too, so diffs stay readable if ids change
+  v_cv_json := to_jsonb(v_cv) || jsonb_build_object(
+    'province_name',
+    (SELECT p.name FROM public.provinces p WHERE p.id = v_cv.province_id)
+  );
+
+  SELECT to_jsonb(d) INTO v_details_json
+  FROM public.cv_details d
+  WHERE d.user_id = p_user_id;
+
+  SELECT COALESCE(MAX(v.version_number), 0) + 1 INTO v_next
+  FROM public.cv_versions v
+  WHERE v.user_id = p_user_id;
+
+  INSERT INTO public.cv_versions (user_id, version_number, cv_data, cv_details)
+  VALUES (p_user_id, v_next, v_cv_json, v_details_json)
+  RETURNING id INTO v_id;
+
+  version_id := v_id;
+  version_number := v_next;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.snapshot_cv_version(uuid) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.snapshot_cv_version(uuid) IS 'Snapshot current cv_data + cv_details into cv_versions with the next version number.';
+
+-- =====================================================
+-- FUNCTION: record_cv_review
+-- Stores the admin decision on the newest unreviewed version.
+-- NO_PENDING_VERSION is not fatal: CVs submitted before this migration
+-- have no snapshot yet.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.record_cv_review(
+  p_user_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE(
+  version_id bigint,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_id bigint;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.is_admin() THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_decision NOT IN ('APPROVED', 'REVISI') THEN
+    error_code := 'INVALID_DECISION';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.cv_versions v
+  SET review_decision = p_decision,
+      admin_note = NULLIF(trim(p_note), ''),
+      reviewed_by = v_caller,
+      reviewed_at = now()
+  WHERE v.id = (
+    SELECT pending.id
+    FROM public.cv_versions pending
+    WHERE pending.user_id = p_user_id
+      AND pending.review_decision IS NULL
+    ORDER BY pending.version_number DESC
+    LIMIT 1
+  )
+  RETURNING v.id INTO v_id;
+
+  IF v_id IS NULL THEN
+    error_code := 'NO_PENDING_VERSION';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  version_id := v_id;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_cv_review(uuid, text, text) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.record_cv_review(uuid, text, text) IS 'Admin decision (APPROVED/REVISI + note) on the newest unreviewed CV version.';
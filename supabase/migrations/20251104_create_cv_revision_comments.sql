@@ -0,0 +1,137 @@
+-- =====================================================
+-- Migration: Per-field CV revision comments
+-- Description: cv_revision_comments + acknowledge/resolve RPCs
+-- Date: 2025-11-04
+-- Issue: "Minta Revisi" only carried one free-text admin_note, so users had
+--        to guess which of the six CV categories needed fixing.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: cv_revision_comments
+-- One row per flagged field. Open while resolved_at IS NULL; the CV owner
+-- must change the field or acknowledge the comment before resubmitting.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.cv_revision_comments (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  -- Key from CV_REVISION_FIELDS in features/cv/lib/revision-fields.ts
+  field_key text NOT NULL,
+  comment text NOT NULL CHECK (char_length(comment) BETWEEN 1 AND 500),
+  created_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  acknowledged_at timestamptz,
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_cv_revision_comments_open
+ON public.cv_revision_comments(user_id)
+WHERE resolved_at IS NULL;
+
+ALTER TABLE public.cv_revision_comments ENABLE ROW LEVEL SECURITY;
+
+-- Admin can view, add and close comments
+CREATE POLICY "cv_revision_comments_select_admin"
+  ON public.cv_revision_comments
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "cv_revision_comments_insert_admin"
+  ON public.cv_revision_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "cv_revision_comments_update_admin"
+  ON public.cv_revision_comments
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- CV owner can view comments on their own CV
+CREATE POLICY "cv_revision_comments_select_own"
+  ON public.cv_revision_comments
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Owner updates go through the RPCs below
+
+COMMENT ON TABLE public.cv_revision_comments IS 'Admin revision comments attached to individual CV fields';
+
+-- =====================================================
+-- FUNCTION: acknowledge_cv_revision_comment
+-- CV owner marks a comment as read without changing the field
+-- ("sudah sesuai"). Only open comments can be acknowledged.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.acknowledge_cv_revision_comment(p_comment_id bigint)
+RETURNS TABLE(
+  comment_id bigint,
+  acknowledged_at timestamptz,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_at timestamptz;
+BEGIN
+  IF v_user IS NULL THEN
+    error_code := 'NOT_AUTHENTICATED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  UPDATE public.cv_revision_comments c
+  SET acknowledged_at = COALESCE(c.acknowledged_at, now())
+  WHERE c.id = p_comment_id
+    AND c.user_id = v_user
+    AND c.resolved_at IS NULL
+  RETURNING c.acknowledged_at INTO v_at;
+
+  IF v_at IS NULL THEN
+    error_code := 'COMMENT_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  comment_id := p_comment_id;
+  acknowledged_at := v_at;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.acknowledge_cv_revision_comment(bigint) TO authenticated;
+
+COMMENT ON FUNCTION public.acknowledge_cv_revision_comment(bigint) IS 'CV owner acknowledges an open revision comment without changing the field.';
+
+-- =====================================================
+-- FUNCTION: resolve_cv_revision_comments
+-- Closes all open comments of the caller. Called by saveCvData once the
+-- resubmission passed the per-field check.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.resolve_cv_revision_comments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.cv_revision_comments c
+  SET resolved_at = now()
+  WHERE c.user_id = auth.uid()
+    AND c.resolved_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_cv_revision_comments() TO authenticated;
+
+COMMENT ON FUNCTION public.resolve_cv_revision_comments() IS 'Close the caller''s open CV revision comments after a successful resubmission.';
@@ -0,0 +1,339 @@
+-- =====================================================
+-- Migration: Midtrans webhook inbox
+-- Description: payment_webhook_inbox + ingest/process RPCs covering the
+--              full Midtrans status lifecycle (incl. refund & chargeback)
+-- Date: 2025-11-05
+-- Issue: The webhook handled every retry from scratch, wrote SUCCESS/FAILED
+--        (not payment_status values) and ignored refund/chargeback, so a
+--        refunded top-up kept its koin.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: payment_webhook_inbox
+-- Every raw notification, one row per (order_id, transaction_status,
+-- status_code). Midtrans retries hit the same row (received_count++)
+-- and are not processed again.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.payment_webhook_inbox (
+  id bigserial PRIMARY KEY,
+  provider text NOT NULL DEFAULT 'midtrans',
+  order_id text NOT NULL,
+  transaction_status text NOT NULL,
+  status_code text NOT NULL,
+  payload jsonb NOT NULL,
+  received_count integer NOT NULL DEFAULT 1,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  last_received_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  process_result text,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  CONSTRAINT uq_payment_webhook_inbox_notification UNIQUE (order_id, transaction_status, status_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_inbox_unprocessed
+ON public.payment_webhook_inbox(received_at)
+WHERE processed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_inbox_order
+ON public.payment_webhook_inbox(order_id, received_at DESC);
+
+ALTER TABLE public.payment_webhook_inbox ENABLE ROW LEVEL SECURITY;
+
+-- Admin can view the inbox; writes only via service role RPCs below
+CREATE POLICY "payment_webhook_inbox_select_admin"
+  ON public.payment_webhook_inbox
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+COMMENT ON TABLE public.payment_webhook_inbox IS 'Raw Midtrans notifications, processed exactly once per (order_id, transaction_status, status_code)';
+
+-- =====================================================
+-- FUNCTION: process_payment_notification
+-- Applies one inbox row to koin_topup_orders + wallet_transactions.
+-- Ledger keys per effect make a replay harmless:
+--   topup-<order>                       CREDIT TOPUP (existing key)
+--   midtrans-refund-<order>-<refund id> DEBIT REFUND
+--   midtrans-chargeback-<order>         DEBIT CHARGEBACK
+-- Errors are stored on the inbox row (attempts/last_error) and returned
+-- as PROCESSING_FAILED so the webhook answers non-2xx and Midtrans retries.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.process_payment_notification(
+  p_inbox_id bigint,
+  p_force boolean DEFAULT false
+)
+RETURNS TABLE(
+  order_id text,
+  order_status text,
+  ledger_entries integer,
+  result text,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inbox record;
+  v_order record;
+  v_payload jsonb;
+  v_status text;
+  v_new_status public.payment_status;
+  v_gross numeric;
+  v_refund jsonb;
+  v_refund_cents integer;
+  v_refunded_cents integer;
+  v_entries integer := 0;
+  v_result text;
+BEGIN
+  SELECT * INTO v_inbox
+  FROM public.payment_webhook_inbox i
+  WHERE i.id = p_inbox_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'INBOX_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  order_id := v_inbox.order_id;
+
+  IF v_inbox.processed_at IS NOT NULL AND NOT p_force THEN
+    result := 'ALREADY_PROCESSED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_payload := v_inbox.payload;
+  v_status := v_inbox.transaction_status;
+
+  BEGIN
+    SELECT * INTO v_order
+    FROM public.koin_topup_orders o
+    WHERE o.order_id = v_inbox.order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      UPDATE public.payment_webhook_inbox
+      SET attempts = attempts + 1,
+          last_error = 'ORDER_NOT_FOUND'
+      WHERE id = p_inbox_id;
+
+      error_code := 'ORDER_NOT_FOUND';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    v_new_status := v_order.status;
+    v_result := 'STATUS_UPDATED';
+
+    IF v_status = 'settlement'
+       OR (v_status = 'capture' AND COALESCE(v_payload->>'fraud_status', 'accept') = 'accept') THEN
+      v_new_status := 'SETTLEMENT';
+
+      INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+      VALUES (v_order.user_id, 'CREDIT', v_order.amount_cents, 'TOPUP', v_order.order_id, 'topup-' || v_order.order_id)
+      ON CONFLICT (idempotency_key) DO NOTHING;
+      IF FOUND THEN v_entries := v_entries + 1; END IF;
+
+    ELSIF v_status IN ('refund', 'partial_refund') THEN
+      v_new_status := 'REFUND';
+      v_gross := NULLIF(v_payload->>'gross_amount', '')::numeric;
+
+      -- Midtrans lists every refund so far; each one becomes its own debit,
+      -- proportional to the koin the order credited
+      FOR v_refund IN
+        SELECT r FROM jsonb_array_elements(
+          CASE
+            WHEN jsonb_typeof(v_payload->'refunds') = 'array' THEN v_payload->'refunds'
+            ELSE jsonb_build_array(jsonb_build_object(
+              'refund_chargeback_id', v_inbox.status_code || '-' || COALESCE(v_payload->>'refund_amount', 'full'),
+              'refund_amount', COALESCE(v_payload->>'refund_amount', v_payload->>'gross_amount')
+            ))
+          END
+        ) AS r
+      LOOP
+        SELECT COALESCE(SUM(wt.amount_cents), 0) INTO v_refunded_cents
+        FROM public.wallet_transactions wt
+        WHERE wt.linked_order_id = v_order.order_id
+          AND wt.type = 'DEBIT'
+          AND wt.reason IN ('REFUND', 'CHARGEBACK');
+
+        v_refund_cents := CASE
+          WHEN v_gross IS NULL OR v_gross = 0 THEN v_order.amount_cents
+          ELSE round(v_order.amount_cents * (v_refund->>'refund_amount')::numeric / v_gross)::integer
+        END;
+        -- Never debit more than the order credited
+        v_refund_cents := LEAST(v_refund_cents, v_order.amount_cents - v_refunded_cents);
+
+        IF v_refund_cents > 0 THEN
+          INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+          VALUES (
+            v_order.user_id, 'DEBIT', v_refund_cents, 'REFUND', v_order.order_id,
+            'midtrans-refund-' || v_order.order_id || '-' || COALESCE(v_refund->>'refund_chargeback_id', v_refund->>'refund_key')
+          )
+          ON CONFLICT (idempotency_key) DO NOTHING;
+          IF FOUND THEN v_entries := v_entries + 1; END IF;
+        END IF;
+      END LOOP;
+
+    ELSIF v_status IN ('chargeback', 'partial_chargeback') THEN
+      v_new_status := 'CHARGEBACK';
+
+      SELECT COALESCE(SUM(wt.amount_cents), 0) INTO v_refunded_cents
+      FROM public.wallet_transactions wt
+      WHERE wt.linked_order_id = v_order.order_id
+        AND wt.type = 'DEBIT'
+        AND wt.reason IN ('REFUND', 'CHARGEBACK');
+
+      v_refund_cents := v_order.amount_cents - v_refunded_cents;
+
+      IF v_refund_cents > 0 THEN
+        INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+        VALUES (v_order.user_id, 'DEBIT', v_refund_cents, 'CHARGEBACK', v_order.order_id, 'midtrans-chargeback-' || v_order.order_id)
+        ON CONFLICT (idempotency_key) DO NOTHING;
+        IF FOUND THEN v_entries := v_entries + 1; END IF;
+      END IF;
+
+    ELSIF v_order.status IN ('SETTLEMENT', 'REFUND', 'CHARGEBACK') THEN
+      -- Late pending/cancel/expire after money moved: keep the final status
+      v_result := 'IGNORED_STALE';
+
+    ELSIF v_status IN ('cancel', 'deny') OR (v_status = 'capture' AND v_payload->>'fraud_status' = 'deny') THEN
+      v_new_status := 'CANCEL';
+
+    ELSIF v_status = 'expire' THEN
+      v_new_status := 'EXPIRE';
+
+    ELSIF v_status IN ('pending', 'authorize', 'capture') THEN
+      -- capture with fraud_status = challenge waits for a follow-up notification
+      v_new_status := 'PENDING';
+
+    ELSE
+      v_result := 'IGNORED_UNKNOWN_STATUS';
+    END IF;
+
+    UPDATE public.koin_topup_orders o
+    SET status = v_new_status,
+        payment_type = COALESCE(v_payload->>'payment_type', o.payment_type),
+        raw_midtrans = v_payload,
+        settled_at = CASE WHEN v_new_status = 'SETTLEMENT' THEN COALESCE(o.settled_at, now()) ELSE o.settled_at END
+    WHERE o.order_id = v_order.order_id;
+
+    UPDATE public.payment_webhook_inbox
+    SET processed_at = now(),
+        process_result = v_result,
+        attempts = attempts + 1,
+        last_error = NULL
+    WHERE id = p_inbox_id;
+
+    order_status := v_new_status::text;
+    ledger_entries := v_entries;
+    result := v_result;
+    RETURN NEXT;
+
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.payment_webhook_inbox
+    SET attempts = attempts + 1,
+        last_error = SQLERRM
+    WHERE id = p_inbox_id;
+
+    error_code := 'PROCESSING_FAILED';
+    result := SQLERRM;
+    RETURN NEXT;
+  END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_payment_notification(bigint, boolean) TO service_role;
+
+COMMENT ON FUNCTION public.process_payment_notification(bigint, boolean) IS 'Apply one Midtrans notification to the order + ledger. Idempotent; p_force re-runs an already processed row (admin replay).';
+
+-- =====================================================
+-- FUNCTION: ingest_midtrans_notification
+-- Stores the (signature-verified) payload in the inbox, then processes it.
+-- A retry of an already processed notification only bumps received_count.
+-- Refund notifications reuse the same key for every new refund, so a
+-- changed refund payload re-opens the row; the per-refund ledger keys
+-- keep earlier refunds from being debited twice.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.ingest_midtrans_notification(p_payload jsonb)
+RETURNS TABLE(
+  inbox_id bigint,
+  duplicate boolean,
+  order_id text,
+  order_status text,
+  ledger_entries integer,
+  result text,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id bigint;
+  v_processed_at timestamptz;
+  v_processed record;
+BEGIN
+  IF p_payload->>'order_id' IS NULL
+     OR p_payload->>'transaction_status' IS NULL
+     OR p_payload->>'status_code' IS NULL THEN
+    error_code := 'INVALID_PAYLOAD';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.payment_webhook_inbox (order_id, transaction_status, status_code, payload)
+  VALUES (
+    p_payload->>'order_id',
+    p_payload->>'transaction_status',
+    p_payload->>'status_code',
+    p_payload
+  )
+  ON CONFLICT ON CONSTRAINT uq_payment_webhook_inbox_notification
+  DO UPDATE SET
+    received_count = payment_webhook_inbox.received_count + 1,
+    last_received_at = now(),
+    payload = CASE
+      WHEN payment_webhook_inbox.transaction_status IN ('refund', 'partial_refund')
+      THEN EXCLUDED.payload
+      ELSE payment_webhook_inbox.payload
+    END,
+    processed_at = CASE
+      WHEN payment_webhook_inbox.transaction_status IN ('refund', 'partial_refund')
+        AND payment_webhook_inbox.payload IS DISTINCT FROM EXCLUDED.payload
+      THEN NULL
+      ELSE payment_webhook_inbox.processed_at
+    END
+  RETURNING payment_webhook_inbox.id, payment_webhook_inbox.processed_at
+  INTO v_id, v_processed_at;
+
+  inbox_id := v_id;
+  order_id := p_payload->>'order_id';
+
+  IF v_processed_at IS NOT NULL THEN
+    duplicate := true;
+    result := 'ALREADY_PROCESSED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  duplicate := false;
+
+  SELECT * INTO v_processed
+  FROM public.process_payment_notification(v_id, false);
+
+  order_status := v_processed.order_status;
+  ledger_entries := v_processed.ledger_entries;
+  result := v_processed.result;
+  error_code := v_processed.error_code;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ingest_midtrans_notification(jsonb) TO service_role;
+
+COMMENT ON FUNCTION public.ingest_midtrans_notification(jsonb) IS 'Store a verified Midtrans notification in payment_webhook_inbox and process it exactly once.';
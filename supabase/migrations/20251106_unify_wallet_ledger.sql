@@ -0,0 +1,508 @@
+-- =====================================================
+-- Migration: Unified wallet ledger
+-- Description: wallet_transactions as the single balance source:
+--              wallet_holds, wallet_balances_v (balance/held/available),
+--              post/hold/capture/release RPCs, profiles.koin_balance kept
+--              as a trigger-maintained cache + reconciliation report
+-- Date: 2025-11-06
+-- Issue: Balance was read from get_wallet_balance, wallet_balances_v (built
+--        on the old wallet_ledger_entries table) and profiles.koin_balance,
+--        which nothing kept in sync. Users could also INSERT their own
+--        wallet_transactions rows, CREDITs included.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: wallet_holds
+-- Reserved koin that is not spent yet. Active holds (HELD and not past
+-- expires_at) reduce the available balance; capture turns a hold into a
+-- DEBIT, release drops it.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.wallet_holds (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  amount_cents integer NOT NULL CHECK (amount_cents > 0),
+  reason public.ledger_reason NOT NULL,
+  reference text,
+  idempotency_key text NOT NULL,
+  status text NOT NULL DEFAULT 'HELD' CHECK (status IN ('HELD', 'CAPTURED', 'RELEASED')),
+  expires_at timestamptz,
+  ledger_entry_id bigint,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  settled_at timestamptz,
+  CONSTRAINT uq_wallet_holds_idempotency_key UNIQUE (idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_holds_active
+ON public.wallet_holds(user_id)
+WHERE status = 'HELD';
+
+ALTER TABLE public.wallet_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "wallet_holds_select_own"
+  ON public.wallet_holds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "wallet_holds_select_admin"
+  ON public.wallet_holds
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Writes only via the RPCs below
+
+COMMENT ON TABLE public.wallet_holds IS 'Koin reserved against the available balance until captured (DEBIT) or released';
+
+-- =====================================================
+-- Ledger writes go through wallet_post_entry / holds only
+-- =====================================================
+DROP POLICY IF EXISTS "wallet_transactions_insert_system" ON public.wallet_transactions;
+
+-- deduct_koin/add_koin only touched the profiles cache (no ledger row) and
+-- let any user add koin to themselves
+REVOKE EXECUTE ON FUNCTION public.deduct_koin(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_koin(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.deduct_koin IS 'DEPRECATED - use wallet_post_entry (ledger). Kept for old scripts, service role only.';
+COMMENT ON FUNCTION public.add_koin IS 'DEPRECATED - use wallet_post_entry (ledger). Kept for old scripts, service role only.';
+
+-- =====================================================
+-- FUNCTIONS: wallet_ledger_cents / wallet_held_cents
+-- Building blocks shared by the view and the RPCs (not exposed)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_ledger_cents(p_user_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    SUM(CASE WHEN wt.type = 'CREDIT' THEN wt.amount_cents ELSE -wt.amount_cents END),
+    0
+  )::bigint
+  FROM public.wallet_transactions wt
+  WHERE wt.user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.wallet_held_cents(p_user_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(h.amount_cents), 0)::bigint
+  FROM public.wallet_holds h
+  WHERE h.user_id = p_user_id
+    AND h.status = 'HELD'
+    AND (h.expires_at IS NULL OR h.expires_at > now());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_ledger_cents(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.wallet_held_cents(uuid) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- VIEW: wallet_balances_v
+-- Rebuilt on wallet_transactions (the real ledger table). security_invoker
+-- so the ledger RLS applies: users see their own row, admins all rows.
+-- =====================================================
+DROP VIEW IF EXISTS public.wallet_balances_v;
+
+CREATE VIEW public.wallet_balances_v
+WITH (security_invoker = true)
+AS
+SELECT
+  l.user_id,
+  l.balance_cents,
+  COALESCE(h.held_cents, 0)::bigint AS held_cents,
+  (l.balance_cents - COALESCE(h.held_cents, 0))::bigint AS available_cents
+FROM (
+  SELECT
+    wt.user_id,
+    SUM(CASE WHEN wt.type = 'CREDIT' THEN wt.amount_cents ELSE -wt.amount_cents END)::bigint AS balance_cents
+  FROM public.wallet_transactions wt
+  GROUP BY wt.user_id
+) l
+LEFT JOIN (
+  SELECT wh.user_id, SUM(wh.amount_cents)::bigint AS held_cents
+  FROM public.wallet_holds wh
+  WHERE wh.status = 'HELD'
+    AND (wh.expires_at IS NULL OR wh.expires_at > now())
+  GROUP BY wh.user_id
+) h ON h.user_id = l.user_id;
+
+COMMENT ON VIEW public.wallet_balances_v IS
+  'Ledger balance per user: balance = SUM(CREDIT) - SUM(DEBIT), available = balance - active holds';
+
+-- =====================================================
+-- TRIGGER: keep profiles.koin_balance as a cache of the ledger
+-- Recomputed from the ledger (not incremented) so one write repairs any
+-- earlier drift for that user. Cache is in koin, never negative.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_sync_cached_balance(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_koin integer;
+BEGIN
+  v_koin := GREATEST(0, floor(public.wallet_ledger_cents(p_user_id) / 100.0))::integer;
+
+  UPDATE public.profiles p
+  SET koin_balance = v_koin
+  WHERE p.user_id = p_user_id
+    AND p.koin_balance IS DISTINCT FROM v_koin;
+
+  RETURN v_koin;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_sync_cached_balance(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.wallet_sync_cached_balance(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.trg_wallet_transactions_sync_cache()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.wallet_sync_cached_balance(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS wallet_transactions_sync_cache ON public.wallet_transactions;
+CREATE TRIGGER wallet_transactions_sync_cache
+AFTER INSERT ON public.wallet_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.trg_wallet_transactions_sync_cache();
+
+COMMENT ON FUNCTION public.wallet_sync_cached_balance(uuid) IS 'Set profiles.koin_balance from the ledger. Called by the wallet_transactions trigger and the reconciliation fix.';
+
+-- =====================================================
+-- FUNCTION: wallet_post_entry
+-- The one way to write the ledger from app code.
+-- - service role (no auth.uid()) and admins: any user, CREDIT or DEBIT
+-- - authenticated users: DEBIT on their own wallet only
+-- DEBITs are checked against the available balance under a per-user lock.
+-- Replaying an idempotency key returns the original entry.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_post_entry(
+  p_user_id uuid,
+  p_type public.ledger_type,
+  p_amount_cents integer,
+  p_reason public.ledger_reason,
+  p_idempotency_key text,
+  p_linked_order_id text DEFAULT NULL
+)
+RETURNS TABLE(
+  entry_id bigint,
+  balance_cents bigint,
+  available_cents bigint,
+  replayed boolean,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_existing record;
+  v_available bigint;
+  v_id bigint;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.is_admin()
+     AND (p_type = 'CREDIT' OR v_caller <> p_user_id) THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    error_code := 'INVALID_AMOUNT';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    error_code := 'MISSING_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Serialize writes per wallet so two DEBITs can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::text));
+
+  SELECT wt.id, wt.user_id INTO v_existing
+  FROM public.wallet_transactions wt
+  WHERE wt.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> p_user_id THEN
+      error_code := 'IDEMPOTENCY_KEY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    entry_id := v_existing.id;
+    replayed := true;
+    balance_cents := public.wallet_ledger_cents(p_user_id);
+    available_cents := balance_cents - public.wallet_held_cents(p_user_id);
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_type = 'DEBIT' THEN
+    v_available := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+    IF v_available < p_amount_cents THEN
+      error_code := 'INSUFFICIENT_BALANCE';
+      balance_cents := public.wallet_ledger_cents(p_user_id);
+      available_cents := v_available;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+  VALUES (p_user_id, p_type, p_amount_cents, p_reason, p_linked_order_id, p_idempotency_key)
+  RETURNING id INTO v_id;
+
+  entry_id := v_id;
+  replayed := false;
+  balance_cents := public.wallet_ledger_cents(p_user_id);
+  available_cents := balance_cents - public.wallet_held_cents(p_user_id);
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.wallet_post_entry(uuid, public.ledger_type, integer, public.ledger_reason, text, text) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.wallet_post_entry(uuid, public.ledger_type, integer, public.ledger_reason, text, text) IS 'Write one ledger entry (idempotent). Users may only DEBIT themselves; CREDIT needs admin or service role.';
+
+-- =====================================================
+-- FUNCTION: wallet_place_hold
+-- Reserve koin (same permission rules as a DEBIT)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_place_hold(
+  p_user_id uuid,
+  p_amount_cents integer,
+  p_reason public.ledger_reason,
+  p_idempotency_key text,
+  p_reference text DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  hold_id bigint,
+  available_cents bigint,
+  replayed boolean,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_existing record;
+  v_available bigint;
+  v_id bigint;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.is_admin() AND v_caller <> p_user_id THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    error_code := 'INVALID_AMOUNT';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    error_code := 'MISSING_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::text));
+
+  SELECT h.id, h.user_id INTO v_existing
+  FROM public.wallet_holds h
+  WHERE h.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> p_user_id THEN
+      error_code := 'IDEMPOTENCY_KEY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    hold_id := v_existing.id;
+    replayed := true;
+    available_cents := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_available := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+  IF v_available < p_amount_cents THEN
+    error_code := 'INSUFFICIENT_BALANCE';
+    available_cents := v_available;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.wallet_holds (user_id, amount_cents, reason, reference, idempotency_key, expires_at)
+  VALUES (p_user_id, p_amount_cents, p_reason, p_reference, p_idempotency_key, p_expires_at)
+  RETURNING id INTO v_id;
+
+  hold_id := v_id;
+  replayed := false;
+  available_cents := v_available - p_amount_cents;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.wallet_place_hold(uuid, integer, public.ledger_reason, text, text, timestamptz) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.wallet_place_hold(uuid, integer, public.ledger_reason, text, text, timestamptz) IS 'Reserve koin against the available balance (idempotent).';
+
+-- =====================================================
+-- FUNCTION: wallet_settle_hold
+-- p_capture = true  → DEBIT the held amount (key hold-<id>), CAPTURED
+-- p_capture = false → RELEASED, nothing is charged
+-- Settling an already settled hold returns it unchanged.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_settle_hold(
+  p_hold_id bigint,
+  p_capture boolean
+)
+RETURNS TABLE(
+  hold_id bigint,
+  status text,
+  entry_id bigint,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_hold record;
+  v_id bigint;
+BEGIN
+  SELECT h.* INTO v_hold
+  FROM public.wallet_holds h
+  WHERE h.id = p_hold_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'HOLD_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_caller IS NOT NULL AND NOT public.is_admin() AND v_caller <> v_hold.user_id THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  hold_id := v_hold.id;
+
+  IF v_hold.status <> 'HELD' THEN
+    status := v_hold.status;
+    entry_id := v_hold.ledger_entry_id;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_capture THEN
+    -- The hold already reserved this amount, so no balance check here
+    INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+    VALUES (v_hold.user_id, 'DEBIT', v_hold.amount_cents, v_hold.reason, v_hold.reference, 'hold-' || v_hold.id)
+    ON CONFLICT ON CONSTRAINT wallet_ledger_entries_idempotency_key_key DO NOTHING
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      SELECT wt.id INTO v_id
+      FROM public.wallet_transactions wt
+      WHERE wt.idempotency_key = 'hold-' || v_hold.id;
+    END IF;
+
+    UPDATE public.wallet_holds
+    SET status = 'CAPTURED', ledger_entry_id = v_id, settled_at = now()
+    WHERE id = v_hold.id;
+
+    status := 'CAPTURED';
+    entry_id := v_id;
+  ELSE
+    UPDATE public.wallet_holds
+    SET status = 'RELEASED', settled_at = now()
+    WHERE id = v_hold.id;
+
+    status := 'RELEASED';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.wallet_settle_hold(bigint, boolean) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.wallet_settle_hold(bigint, boolean) IS 'Capture (DEBIT) or release a wallet hold. Idempotent.';
+
+-- =====================================================
+-- FUNCTION: wallet_reconciliation
+-- Users whose cached profiles.koin_balance differs from the ledger sum
+-- (floor(ledger_cents / 100) koin). Negative ledgers always show up,
+-- since the cache can't go below 0. Admin / service role only.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_reconciliation()
+RETURNS TABLE(
+  user_id uuid,
+  email text,
+  cached_koin integer,
+  ledger_cents bigint,
+  ledger_koin integer,
+  difference_koin integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin() THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.user_id,
+    p.email,
+    p.koin_balance,
+    COALESCE(l.cents, 0)::bigint,
+    floor(COALESCE(l.cents, 0) / 100.0)::integer,
+    (p.koin_balance - floor(COALESCE(l.cents, 0) / 100.0))::integer
+  FROM public.profiles p
+  LEFT JOIN (
+    SELECT
+      wt.user_id,
+      SUM(CASE WHEN wt.type = 'CREDIT' THEN wt.amount_cents ELSE -wt.amount_cents END) AS cents
+    FROM public.wallet_transactions wt
+    GROUP BY wt.user_id
+  ) l ON l.user_id = p.user_id
+  WHERE p.koin_balance <> floor(COALESCE(l.cents, 0) / 100.0)
+  ORDER BY abs(p.koin_balance - floor(COALESCE(l.cents, 0) / 100.0)) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.wallet_reconciliation() TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.wallet_reconciliation() IS 'List users whose cached koin_balance does not match the ledger. Admin / service role only.';
@@ -0,0 +1,188 @@
+-- =====================================================
+-- Migration: Admin roles
+-- Description: admin_roles (superadmin / reviewer / finance / moderator),
+--              role helpers for RLS and set_admin_role RPC for the admin
+--              management screen. profiles.is_admin stays as the "has any
+--              admin role" flag, maintained by trigger.
+-- Date: 2025-11-07
+-- Issue: Every admin could do everything - verifyAdminAccess always
+--        reported isSuperAdmin = false and the role map in
+--        checkAdminPermission was never consulted per admin.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: admin_roles
+-- One role per admin. Permissions per role live in
+-- features/admin/lib/permissions.ts.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.admin_roles (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('superadmin', 'reviewer', 'finance', 'moderator')),
+  granted_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_roles_role ON public.admin_roles(role);
+
+ALTER TABLE public.admin_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "admin_roles_select_own"
+  ON public.admin_roles
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "admin_roles_select_admin"
+  ON public.admin_roles
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Writes only via set_admin_role
+
+COMMENT ON TABLE public.admin_roles IS 'Scoped admin role per admin user; profiles.is_admin mirrors row existence';
+
+-- =====================================================
+-- Keep profiles.is_admin in sync (existing RLS uses is_admin())
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.admin_roles_sync_is_admin()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.profiles SET is_admin = false, updated_at = now()
+    WHERE user_id = OLD.user_id;
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.profiles SET is_admin = true, updated_at = now()
+  WHERE user_id = NEW.user_id AND is_admin = false;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_admin_roles_sync_is_admin ON public.admin_roles;
+CREATE TRIGGER trg_admin_roles_sync_is_admin
+  AFTER INSERT OR UPDATE OR DELETE ON public.admin_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.admin_roles_sync_is_admin();
+
+-- =====================================================
+-- Backfill: existing admins keep full access
+-- =====================================================
+INSERT INTO public.admin_roles (user_id, role)
+SELECT user_id, 'superadmin'
+FROM public.profiles
+WHERE is_admin = true
+ON CONFLICT (user_id) DO NOTHING;
+
+-- =====================================================
+-- FUNCTIONS: current_admin_role / has_admin_role
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.current_admin_role()
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role FROM public.admin_roles WHERE user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_admin_role() TO authenticated;
+
+COMMENT ON FUNCTION public.current_admin_role() IS 'Admin role of the current user (NULL for non-admins)';
+
+CREATE OR REPLACE FUNCTION public.has_admin_role(p_roles text[])
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.admin_roles
+    WHERE user_id = auth.uid()
+      AND role = ANY (p_roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_admin_role(text[]) TO authenticated;
+
+COMMENT ON FUNCTION public.has_admin_role(text[]) IS 'True if the current user holds one of the given admin roles (for RLS)';
+
+-- =====================================================
+-- RPC: set_admin_role
+-- Grant, change (p_role) or revoke (p_role NULL) an admin role.
+-- Superadmin or service role only; the last superadmin can't be removed.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.set_admin_role(
+  p_user_id uuid,
+  p_role text
+)
+RETURNS TABLE (
+  user_id uuid,
+  role text,
+  previous_role text,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_previous text;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin']) THEN
+    RETURN QUERY SELECT p_user_id, NULL::text, NULL::text, 'FORBIDDEN'::text;
+    RETURN;
+  END IF;
+
+  IF p_role IS NOT NULL AND p_role NOT IN ('superadmin', 'reviewer', 'finance', 'moderator') THEN
+    RETURN QUERY SELECT p_user_id, NULL::text, NULL::text, 'INVALID_ROLE'::text;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles pr WHERE pr.user_id = p_user_id) THEN
+    RETURN QUERY SELECT p_user_id, NULL::text, NULL::text, 'PROFILE_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  -- Serialize role changes so two superadmins can't demote each other at once
+  PERFORM pg_advisory_xact_lock(hashtext('admin_roles'));
+
+  SELECT ar.role INTO v_previous
+  FROM public.admin_roles ar
+  WHERE ar.user_id = p_user_id;
+
+  IF v_previous = 'superadmin'
+     AND p_role IS DISTINCT FROM 'superadmin'
+     AND (SELECT count(*) FROM public.admin_roles ar WHERE ar.role = 'superadmin') <= 1 THEN
+    RETURN QUERY SELECT p_user_id, v_previous, v_previous, 'LAST_SUPERADMIN'::text;
+    RETURN;
+  END IF;
+
+  IF p_role IS NULL THEN
+    DELETE FROM public.admin_roles ar WHERE ar.user_id = p_user_id;
+  ELSE
+    INSERT INTO public.admin_roles (user_id, role, granted_by)
+    VALUES (p_user_id, p_role, v_caller)
+    ON CONFLICT ON CONSTRAINT admin_roles_pkey DO UPDATE
+      SET role = EXCLUDED.role,
+          granted_by = EXCLUDED.granted_by,
+          updated_at = now();
+  END IF;
+
+  RETURN QUERY SELECT p_user_id, p_role, v_previous, NULL::text;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_admin_role(uuid, text) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.set_admin_role(uuid, text) IS 'Grant / change / revoke (NULL) an admin role. Superadmin or service role only.';
@@ -0,0 +1,237 @@
+-- =====================================================
+-- Migration: Ledger-aware refunds
+-- Description: Admin refunds of spent koin as CREDIT/REFUND ledger entries,
+--              full or partial, one payment_refunds row per refund, never
+--              more than the original DEBIT in total
+-- Date: 2025-11-08
+-- Issue: refundTransaction wrote profile_id / amount / status columns that
+--        wallet_transactions doesn't have, only credited "topup" rows and
+--        could refund the same transaction again.
+-- =====================================================
+
+-- =====================================================
+-- payment_refunds: link to the ledger
+-- refund_amount / refund_reason / initiated_by / status stay as they are
+-- (refund_amount is filled in koin for old reports)
+-- =====================================================
+ALTER TABLE public.payment_refunds
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS amount_cents integer CHECK (amount_cents > 0),
+  ADD COLUMN IF NOT EXISTS ledger_entry_id bigint;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_payment_refunds_ledger_entry
+ON public.payment_refunds(ledger_entry_id)
+WHERE ledger_entry_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_user
+ON public.payment_refunds(user_id, created_at DESC);
+
+-- Writes only via wallet_refund_entry
+DROP POLICY IF EXISTS "admin_can_create_refunds" ON public.payment_refunds;
+DROP POLICY IF EXISTS "admin_can_update_refunds" ON public.payment_refunds;
+
+COMMENT ON COLUMN public.payment_refunds.transaction_id IS 'Refunded wallet_transactions.id (a DEBIT)';
+COMMENT ON COLUMN public.payment_refunds.amount_cents IS 'Refunded amount in cents (1 koin = 100)';
+COMMENT ON COLUMN public.payment_refunds.ledger_entry_id IS 'CREDIT/REFUND entry in wallet_transactions';
+
+-- =====================================================
+-- FUNCTION: wallet_refunded_cents
+-- Already refunded part of a DEBIT: admin refunds plus the automatic
+-- refund of an expired taaruf request (taaruf-expired-refund-<id>)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_refunded_cents(p_transaction_id bigint)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(pr.amount_cents)
+      FROM public.payment_refunds pr
+      WHERE pr.transaction_id = p_transaction_id
+        AND pr.status = 'completed'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(r.amount_cents)
+      FROM public.wallet_transactions d
+      JOIN public.wallet_transactions r
+        ON r.idempotency_key = 'taaruf-expired-refund-' || substring(d.idempotency_key FROM 16)
+      WHERE d.id = p_transaction_id
+        AND d.idempotency_key LIKE 'taaruf-request-%'
+    ), 0);
+$$;
+
+-- =====================================================
+-- FUNCTION: wallet_refund_summary
+-- Refunded / still refundable cents for a page of ledger entries
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_refund_summary(p_transaction_ids bigint[])
+RETURNS TABLE (
+  transaction_id bigint,
+  refunded_cents bigint,
+  refundable_cents bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    wt.id,
+    public.wallet_refunded_cents(wt.id),
+    CASE
+      WHEN wt.type = 'DEBIT' AND wt.reason IN ('TAARUF_COST', 'SOCIAL_MEDIA_POST')
+        THEN GREATEST(0, wt.amount_cents - public.wallet_refunded_cents(wt.id))
+      ELSE 0
+    END
+  FROM public.wallet_transactions wt
+  WHERE wt.id = ANY (p_transaction_ids);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_refund_summary(bigint[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.wallet_refund_summary(bigint[]) TO service_role;
+
+COMMENT ON FUNCTION public.wallet_refund_summary(bigint[]) IS 'Refunded and remaining refundable cents per ledger entry (service role only)';
+
+-- =====================================================
+-- RPC: wallet_refund_entry
+-- Refund (part of) a koin DEBIT spent on a taaruf request or social media
+-- post. p_amount_cents NULL = everything still refundable.
+-- Finance / superadmin or service role (p_admin_id = acting admin).
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_refund_entry(
+  p_transaction_id bigint,
+  p_amount_cents integer,
+  p_reason text,
+  p_admin_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  refund_id uuid,
+  entry_id bigint,
+  refunded_cents bigint,
+  refundable_cents bigint,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_tx record;
+  v_refunded bigint;
+  v_amount integer;
+  v_seq integer;
+  v_entry record;
+  v_refund_id uuid;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance']) THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) < 10 THEN
+    error_code := 'INVALID_REASON';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Row lock: concurrent refunds of the same entry run one after another
+  SELECT wt.* INTO v_tx
+  FROM public.wallet_transactions wt
+  WHERE wt.id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'TRANSACTION_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_tx.type <> 'DEBIT' OR v_tx.reason NOT IN ('TAARUF_COST', 'SOCIAL_MEDIA_POST') THEN
+    error_code := 'NOT_REFUNDABLE';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_refunded := public.wallet_refunded_cents(p_transaction_id);
+  refunded_cents := v_refunded;
+  refundable_cents := GREATEST(0, v_tx.amount_cents - v_refunded);
+
+  IF refundable_cents = 0 THEN
+    error_code := 'ALREADY_REFUNDED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_amount := COALESCE(p_amount_cents, refundable_cents::integer);
+
+  IF v_amount <= 0 THEN
+    error_code := 'INVALID_AMOUNT';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_amount > refundable_cents THEN
+    error_code := 'EXCEEDS_REFUNDABLE';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT count(*) + 1 INTO v_seq
+  FROM public.payment_refunds pr
+  WHERE pr.transaction_id = p_transaction_id;
+
+  SELECT * INTO v_entry
+  FROM public.wallet_post_entry(
+    v_tx.user_id,
+    'CREDIT',
+    v_amount,
+    'REFUND',
+    'admin-refund-' || p_transaction_id::text || '-' || v_seq::text,
+    v_tx.linked_order_id
+  );
+
+  IF v_entry.error_code IS NOT NULL THEN
+    error_code := v_entry.error_code;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.payment_refunds (
+    transaction_id,
+    user_id,
+    initiated_by,
+    amount_cents,
+    refund_amount,
+    refund_reason,
+    status,
+    ledger_entry_id,
+    completed_at
+  )
+  VALUES (
+    p_transaction_id,
+    v_tx.user_id,
+    COALESCE(v_caller, p_admin_id),
+    v_amount,
+    v_amount / 100.0,
+    trim(p_reason),
+    'completed',
+    v_entry.entry_id,
+    now()
+  )
+  RETURNING id INTO v_refund_id;
+
+  refund_id := v_refund_id;
+  entry_id := v_entry.entry_id;
+  refunded_cents := v_refunded + v_amount;
+  refundable_cents := v_tx.amount_cents - refunded_cents;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.wallet_refund_entry(bigint, integer, text, uuid) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.wallet_refund_entry(bigint, integer, text, uuid) IS 'Full or partial refund of a koin DEBIT as CREDIT/REFUND; total never exceeds the original. Finance/superadmin or service role.';
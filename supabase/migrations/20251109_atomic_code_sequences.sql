@@ -0,0 +1,245 @@
+-- =====================================================
+-- Migration: Atomic candidate / ta'aruf codes
+-- Description: Code allocation only through the sequences table (row lock
+--              per counter), counters synced to the codes already handed
+--              out, repair_sequence_codes for duplicate / missing codes and
+--              a unique index on taaruf_sessions.taaruf_code
+-- Date: 2025-11-09
+-- Issue: generateCandidateCode / generateTaarufCode read the highest code
+--        in JS and added one, so two approvals (or two accepted requests)
+--        at the same moment got the same code. The ta'aruf variant sorted
+--        the codes as text, so after TAARUF9 it kept handing out TAARUF10.
+-- =====================================================
+
+-- Counters for every code family (missing rows are created on first use)
+INSERT INTO public.sequences (seq_key, last_number) VALUES
+  ('CANDIDATE_IKHWAN', 0),
+  ('CANDIDATE_AKHWAT', 0),
+  ('TAARUF', 0)
+ON CONFLICT (seq_key) DO NOTHING;
+
+-- =====================================================
+-- FUNCTION: next_sequence_value
+-- Increment one counter. The row lock is held until the caller's
+-- transaction ends, so concurrent callers get consecutive numbers.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.next_sequence_value(p_seq_key text)
+RETURNS bigint
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.sequences AS s (seq_key, last_number, updated_at)
+  VALUES (p_seq_key, 1, now())
+  ON CONFLICT (seq_key) DO UPDATE
+    SET last_number = s.last_number + 1,
+        updated_at = now()
+  RETURNING s.last_number;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_sequence_value(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_sequence_value(text) TO service_role;
+
+COMMENT ON FUNCTION public.next_sequence_value(text) IS 'Atomically increment and return a sequences counter';
+
+-- =====================================================
+-- FUNCTION: generate_candidate_code
+-- IKHWAN1, AKHWAT1, ... Skips numbers already taken by codes that were
+-- handed out before the counter was in use.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.generate_candidate_code(p_gender public.gender_enum)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text;
+BEGIN
+  IF p_gender IS NULL THEN
+    RAISE EXCEPTION 'generate_candidate_code: gender is required';
+  END IF;
+
+  LOOP
+    v_code := p_gender::text || public.next_sequence_value('CANDIDATE_' || p_gender::text)::text;
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.cv_data cv WHERE cv.candidate_code = v_code
+    );
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_candidate_code(public.gender_enum) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_candidate_code(public.gender_enum) TO service_role;
+
+COMMENT ON FUNCTION public.generate_candidate_code(public.gender_enum) IS 'Allocate the next free candidate code for a gender (atomic, service role only)';
+
+-- =====================================================
+-- FUNCTION: generate_taaruf_code
+-- TAARUF1, TAARUF2, ...
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.generate_taaruf_code()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text;
+BEGIN
+  LOOP
+    v_code := 'TAARUF' || public.next_sequence_value('TAARUF')::text;
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.taaruf_sessions ts WHERE ts.taaruf_code = v_code
+    );
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_taaruf_code() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_taaruf_code() TO service_role;
+
+COMMENT ON FUNCTION public.generate_taaruf_code() IS 'Allocate the next free ta''aruf session code (atomic, service role only)';
+
+-- =====================================================
+-- FUNCTION: sync_code_sequences
+-- Move every counter past the highest code already in use
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.sync_code_sequences()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sequences s
+  SET last_number = GREATEST(s.last_number, m.max_number),
+      updated_at = now()
+  FROM (
+    SELECT 'CANDIDATE_' || cv.gender::text AS seq_key,
+           MAX(substring(cv.candidate_code FROM '(\d+)$')::bigint) AS max_number
+    FROM public.cv_data cv
+    WHERE cv.gender IS NOT NULL
+      AND cv.candidate_code ~ ('^' || cv.gender::text || '\d+$')
+    GROUP BY cv.gender
+    UNION ALL
+    SELECT 'TAARUF',
+           MAX(substring(ts.taaruf_code FROM '(\d+)$')::bigint)
+    FROM public.taaruf_sessions ts
+    WHERE ts.taaruf_code ~ '^TAARUF\d+$'
+  ) m
+  WHERE s.seq_key = m.seq_key
+    AND m.max_number IS NOT NULL
+    AND m.max_number > s.last_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_code_sequences() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_code_sequences() TO service_role;
+
+COMMENT ON FUNCTION public.sync_code_sequences() IS 'Advance code counters past the highest existing candidate / ta''aruf code';
+
+-- =====================================================
+-- RPC: repair_sequence_codes
+-- Finds
+--   - APPROVED CVs without a candidate code          (MISSING)
+--   - ta'aruf sessions without a code                (MISSING)
+--   - ta'aruf sessions sharing a code with an older one (DUPLICATE)
+-- and, with p_apply, gives each of them a fresh code. The oldest session
+-- keeps a duplicated code. candidate_code is UNIQUE, so CVs can't have
+-- duplicates. Counters are synced first either way.
+-- Service role only (scripts/repair-sequence-codes.ts).
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.repair_sequence_codes(p_apply boolean DEFAULT false)
+RETURNS TABLE (
+  entity text,
+  entity_id text,
+  issue text,
+  old_code text,
+  new_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+BEGIN
+  PERFORM public.sync_code_sequences();
+
+  FOR v_row IN
+    SELECT cv.user_id, cv.gender
+    FROM public.cv_data cv
+    WHERE cv.status = 'APPROVED'
+      AND (cv.candidate_code IS NULL OR trim(cv.candidate_code) = '')
+      AND cv.gender IS NOT NULL
+    ORDER BY cv.created_at, cv.user_id
+  LOOP
+    entity := 'cv_data';
+    entity_id := v_row.user_id::text;
+    issue := 'MISSING';
+    old_code := NULL;
+    new_code := NULL;
+
+    IF p_apply THEN
+      new_code := public.generate_candidate_code(v_row.gender);
+      UPDATE public.cv_data SET candidate_code = new_code, updated_at = now()
+      WHERE user_id = v_row.user_id;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+
+  FOR v_row IN
+    SELECT t.id, t.taaruf_code,
+           CASE
+             WHEN t.taaruf_code IS NULL OR trim(t.taaruf_code) = '' THEN 'MISSING'
+             ELSE 'DUPLICATE'
+           END AS issue
+    FROM (
+      SELECT ts.id, ts.taaruf_code, ts.created_at,
+             row_number() OVER (
+               PARTITION BY ts.taaruf_code
+               ORDER BY ts.created_at, ts.id
+             ) AS rn
+      FROM public.taaruf_sessions ts
+    ) t
+    WHERE t.taaruf_code IS NULL
+       OR trim(t.taaruf_code) = ''
+       OR t.rn > 1
+    ORDER BY t.created_at, t.id
+  LOOP
+    entity := 'taaruf_sessions';
+    entity_id := v_row.id::text;
+    issue := v_row.issue;
+    old_code := v_row.taaruf_code;
+    new_code := NULL;
+
+    IF p_apply THEN
+      new_code := public.generate_taaruf_code();
+      UPDATE public.taaruf_sessions SET taaruf_code = new_code
+      WHERE id = v_row.id;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.repair_sequence_codes(boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.repair_sequence_codes(boolean) TO service_role;
+
+COMMENT ON FUNCTION public.repair_sequence_codes(boolean) IS 'Report (or with p_apply fix) missing / duplicate candidate and ta''aruf codes. Service role only.';
+
+-- =====================================================
+-- Backfill, then enforce unique ta'aruf codes
+-- =====================================================
+SELECT count(*) AS repaired_codes FROM public.repair_sequence_codes(true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_taaruf_sessions_code
+ON public.taaruf_sessions(taaruf_code)
+WHERE taaruf_code IS NOT NULL;
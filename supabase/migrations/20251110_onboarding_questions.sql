@@ -0,0 +1,107 @@
+-- =====================================================
+-- Migration: Configurable onboarding 5Q
+-- Description: onboarding_questions (wording + consequence of a "Tidak"
+--              answer per question, editable by admins) and the resulting
+--              flags stored with each onboarding_verifications row
+-- Date: 2025-11-10
+-- Issue: The five questions were hard-coded in the form and any negative
+--        answer got through with a single "committed" checkbox; reviewers
+--        never saw what a candidate had committed to.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: onboarding_questions
+-- One row per 5Q slot (id 1..5 = onboarding_verifications.q1..q5)
+--   NONE               answer is recorded, nothing else
+--   FLAG_REVIEW        CV is flagged for the reviewer
+--   REQUIRE_INTERVIEW  CV can't be approved before an admin interview
+--   BLOCK              onboarding stops
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.onboarding_questions (
+  id smallint PRIMARY KEY CHECK (id BETWEEN 1 AND 5),
+  question text NOT NULL CHECK (length(trim(question)) > 0),
+  commitment_text text,
+  negative_consequence text NOT NULL DEFAULT 'FLAG_REVIEW'
+    CHECK (negative_consequence IN ('NONE', 'FLAG_REVIEW', 'REQUIRE_INTERVIEW', 'BLOCK')),
+  block_message text,
+  updated_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS onboarding_questions_updated_at ON public.onboarding_questions;
+CREATE TRIGGER onboarding_questions_updated_at
+  BEFORE UPDATE ON public.onboarding_questions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE public.onboarding_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "onboarding_questions_select_authenticated"
+  ON public.onboarding_questions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Writes only via /api/admin/onboarding-questions (service role)
+
+COMMENT ON TABLE public.onboarding_questions IS 'Onboarding 5Q wording and what a "Tidak" answer leads to';
+COMMENT ON COLUMN public.onboarding_questions.commitment_text IS 'What the user commits to when continuing after answering "Tidak"';
+COMMENT ON COLUMN public.onboarding_questions.block_message IS 'Shown instead of the commitment when negative_consequence = BLOCK';
+
+-- Current wording of the hard-coded form
+INSERT INTO public.onboarding_questions (id, question, commitment_text, negative_consequence) VALUES
+  (1, 'Apakah Anda sudah siap secara mental dan spiritual untuk menjalani Ta''aruf?',
+      'Saya bersedia dibimbing Roomah untuk mempersiapkan diri secara mental dan spiritual.', 'FLAG_REVIEW'),
+  (2, 'Apakah Anda memiliki tujuan yang jelas untuk menikah dalam waktu dekat (1-2 tahun)?',
+      'Saya berkomitmen menetapkan target menikah sebelum memulai Ta''aruf.', 'FLAG_REVIEW'),
+  (3, 'Apakah Anda memiliki kesiapan finansial untuk berkeluarga?',
+      'Saya bersedia membahas rencana finansial keluarga dengan calon pasangan.', 'FLAG_REVIEW'),
+  (4, 'Apakah Anda sudah mendapat restu dari keluarga untuk mencari pasangan hidup?',
+      'Saya bersedia mengikuti wawancara dengan admin Roomah terkait restu keluarga.', 'REQUIRE_INTERVIEW'),
+  (5, 'Apakah Anda siap berkomitmen penuh dalam proses Ta''aruf yang serius?',
+      'Saya berkomitmen menjalani proses Ta''aruf dengan serius.', 'FLAG_REVIEW')
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- onboarding_verifications: flags from the answers
+-- flags = snapshot of every "Tidak" answer at the time of saving:
+--   [{ question_id, question, consequence, commitment }]
+-- =====================================================
+ALTER TABLE public.onboarding_verifications
+  ADD COLUMN IF NOT EXISTS flags jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS requires_interview boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS interview_completed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS interview_completed_by uuid REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_verifications_interview
+ON public.onboarding_verifications(user_id)
+WHERE requires_interview AND interview_completed_at IS NULL;
+
+COMMENT ON COLUMN public.onboarding_verifications.flags IS 'Snapshot of negative 5Q answers with their consequence and the commitment made';
+COMMENT ON COLUMN public.onboarding_verifications.requires_interview IS 'A REQUIRE_INTERVIEW question was answered "Tidak" - CV approval waits for interview_completed_at';
+
+-- Existing negative answers: flag them for review with the current wording
+UPDATE public.onboarding_verifications ov
+SET flags = sub.flags
+FROM (
+  SELECT v.user_id,
+         jsonb_agg(
+           jsonb_build_object(
+             'question_id', q.id,
+             'question', q.question,
+             'consequence', 'FLAG_REVIEW',
+             'commitment', q.commitment_text
+           )
+           ORDER BY q.id
+         ) AS flags
+  FROM public.onboarding_verifications v
+  JOIN public.onboarding_questions q
+    ON (q.id = 1 AND NOT v.q1)
+    OR (q.id = 2 AND NOT v.q2)
+    OR (q.id = 3 AND NOT v.q3)
+    OR (q.id = 4 AND NOT v.q4)
+    OR (q.id = 5 AND NOT v.q5)
+  GROUP BY v.user_id
+) sub
+WHERE ov.user_id = sub.user_id
+  AND ov.flags = '[]'::jsonb;
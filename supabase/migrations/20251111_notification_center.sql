@@ -0,0 +1,56 @@
+-- =====================================================
+-- Migration: Notification center
+-- Description: Inbox queries (per user, newest first / unread count) and
+--              realtime delivery of new notifications
+-- Date: 2025-11-11
+-- Issue: notifications rows were written but users had no inbox; they were
+--        only read back internally to rebuild zoom schedules.
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications(user_id)
+WHERE is_read = false;
+
+-- Keep read_at consistent with is_read whichever way the row is updated
+CREATE OR REPLACE FUNCTION public.notifications_set_read_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_read AND NOT OLD.is_read THEN
+    NEW.read_at := COALESCE(NEW.read_at, now());
+  ELSIF NOT NEW.is_read THEN
+    NEW.read_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notifications_set_read_at ON public.notifications;
+CREATE TRIGGER trg_notifications_set_read_at
+  BEFORE UPDATE OF is_read ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notifications_set_read_at();
+
+-- =====================================================
+-- Realtime: INSERTs are pushed to the owner (RLS notifications_select_own)
+-- =====================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime'
+         AND schemaname = 'public'
+         AND tablename = 'notifications'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.notifications IS 'In-app notifications (inbox at /notifikasi, pushed via Supabase realtime)';
+COMMENT ON COLUMN public.notifications.type IS 'TAARUF_STAGE_UPDATED, ZOOM_SCHEDULED, ... - decides where the notification links to';
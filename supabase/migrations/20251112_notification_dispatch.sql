@@ -0,0 +1,157 @@
+-- =====================================================
+-- Migration: Outbound notification dispatch (email / WhatsApp)
+-- Description: Every notifications insert is fanned out to one delivery row
+--              per channel. The dispatcher cron claims due deliveries, sends
+--              them through the configured transport and retries failures
+--              with backoff. notification_outbox is the local transport
+--              used in development and tests instead of a real provider.
+-- Date: 2025-11-12
+-- Issue: users who weren't logged in never saw request/accept/zoom/CV events
+--        and missed their 72-hour response window.
+-- =====================================================
+
+-- 1. Per-user channel preferences (no row = defaults: both channels on)
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  whatsapp_enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_preferences_select_own" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_select_own"
+  ON public.notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notification_preferences_insert_own" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_insert_own"
+  ON public.notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "notification_preferences_update_own" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_update_own"
+  ON public.notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- 2. One delivery per (notification, channel)
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  notification_id BIGINT NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('EMAIL', 'WHATSAPP')),
+  status TEXT NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'FAILED', 'SKIPPED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  transport TEXT,
+  recipient TEXT,
+  provider_message_id TEXT,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (notification_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+ON public.notification_deliveries(next_attempt_at)
+WHERE status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_sending
+ON public.notification_deliveries(locked_at)
+WHERE status = 'SENDING';
+
+-- Service role only
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- 3. Local outbox transport (dev / tests): messages are stored, not sent
+CREATE TABLE IF NOT EXISTS public.notification_outbox (
+  id BIGSERIAL PRIMARY KEY,
+  delivery_id BIGINT REFERENCES public.notification_deliveries(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('EMAIL', 'WHATSAPP')),
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_created
+ON public.notification_outbox(created_at DESC);
+
+-- Service role only
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+-- 4. Fan out every new notification
+CREATE OR REPLACE FUNCTION public.enqueue_notification_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notification_deliveries (notification_id, user_id, channel)
+  VALUES
+    (NEW.id, NEW.user_id, 'EMAIL'),
+    (NEW.id, NEW.user_id, 'WHATSAPP')
+  ON CONFLICT (notification_id, channel) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notifications_enqueue_deliveries ON public.notifications;
+CREATE TRIGGER trg_notifications_enqueue_deliveries
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_notification_deliveries();
+
+-- 5. Claim due deliveries for one dispatcher run
+-- SENDING rows locked for more than 10 minutes belong to a crashed run and
+-- are picked up again. Every claim counts as an attempt.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_deliveries d
+     SET status = 'SENDING',
+         attempts = d.attempts + 1,
+         locked_at = now(),
+         updated_at = now()
+   WHERE d.id IN (
+     SELECT nd.id
+       FROM notification_deliveries nd
+      WHERE (nd.status = 'PENDING' AND nd.next_attempt_at <= now())
+         OR (nd.status = 'SENDING' AND nd.locked_at < now() - interval '10 minutes')
+      ORDER BY nd.next_attempt_at
+      LIMIT GREATEST(p_limit, 1)
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_notification_deliveries(INTEGER) TO service_role;
+
+COMMENT ON TABLE public.notification_preferences IS
+  'Per-user outbound channel switches. Missing row means every channel is on.';
+COMMENT ON TABLE public.notification_deliveries IS
+  'Outbound email/WhatsApp delivery per notification and channel, with retry state.';
+COMMENT ON TABLE public.notification_outbox IS
+  'Messages captured by the local outbox transport (NOTIFICATION_TRANSPORT=outbox or development without a provider).';
+COMMENT ON FUNCTION public.claim_notification_deliveries(INTEGER) IS
+  'Marks up to p_limit due deliveries as SENDING (incrementing attempts) and returns them.';
@@ -0,0 +1,89 @@
+-- =====================================================
+-- Migration: Taaruf meetings
+-- Description: Zoom meetings of a taaruf session as their own rows
+--              (schedule, reschedule, cancel, attended / no-show,
+--              moderator notes) instead of ZOOM_SCHEDULED notification
+--              payloads. Existing schedules are backfilled.
+-- Date: 2025-11-13
+-- Issue: schedule-zoom only wrote notifications.data and getActiveTaaruf
+--        rebuilt schedules by scanning notifications; meetings could not be
+--        moved, cancelled or recorded, and admins double-booked themselves.
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS public.taaruf_meetings (
+  id BIGSERIAL PRIMARY KEY,
+  taaruf_id BIGINT NOT NULL REFERENCES public.taaruf_sessions(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  zoom_link TEXT NOT NULL,
+  -- Shown to both participants
+  notes TEXT,
+  -- Admin hosting the meeting; overlapping slots per moderator are refused
+  moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Admin only, never returned to participants
+  moderator_notes TEXT,
+  status TEXT NOT NULL DEFAULT 'SCHEDULED'
+    CHECK (status IN ('SCHEDULED', 'CANCELLED', 'ATTENDED', 'NO_SHOW')),
+  -- NO_SHOW: participant who didn't join, NULL = neither joined
+  no_show_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancel_reason TEXT,
+  cancelled_at TIMESTAMPTZ,
+  -- Also the ICS SEQUENCE, so calendar apps update the existing event
+  reschedule_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT taaruf_meetings_time_order CHECK (ends_at > scheduled_at),
+  CONSTRAINT taaruf_meetings_no_moderator_overlap EXCLUDE USING gist (
+    moderator_id WITH =,
+    tstzrange(scheduled_at, ends_at) WITH &&
+  ) WHERE (status = 'SCHEDULED' AND moderator_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_taaruf_meetings_taaruf
+ON public.taaruf_meetings(taaruf_id, scheduled_at);
+
+CREATE INDEX IF NOT EXISTS idx_taaruf_meetings_moderator_upcoming
+ON public.taaruf_meetings(moderator_id, scheduled_at)
+WHERE status = 'SCHEDULED';
+
+-- Service role only: participants read meetings through the API so
+-- moderator_notes never leave the server
+ALTER TABLE public.taaruf_meetings ENABLE ROW LEVEL SECURITY;
+
+-- Backfill from ZOOM_SCHEDULED notifications (one per participant, so
+-- dedupe per session + time). Unknown moderator, default one hour.
+INSERT INTO public.taaruf_meetings (
+  taaruf_id, stage, scheduled_at, ends_at, zoom_link, notes, created_at
+)
+SELECT DISTINCT ON ((n.data->>'taaruf_id')::bigint, (n.data->>'meeting_datetime')::timestamptz)
+  (n.data->>'taaruf_id')::bigint,
+  COALESCE(n.data->>'stage', 'Zoom 1'),
+  (n.data->>'meeting_datetime')::timestamptz,
+  (n.data->>'meeting_datetime')::timestamptz + interval '60 minutes',
+  n.data->>'zoom_link',
+  NULLIF(n.data->>'notes', ''),
+  n.created_at
+FROM public.notifications n
+JOIN public.taaruf_sessions s ON s.id = (n.data->>'taaruf_id')::bigint
+WHERE n.type = 'ZOOM_SCHEDULED'
+  AND n.data->>'taaruf_id' ~ '^\d+$'
+  AND n.data->>'meeting_datetime' IS NOT NULL
+  AND n.data->>'zoom_link' IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.taaruf_meetings)
+ORDER BY (n.data->>'taaruf_id')::bigint, (n.data->>'meeting_datetime')::timestamptz, n.created_at;
+
+-- Outbox keeps email attachments (meeting invitations) for inspection
+ALTER TABLE public.notification_outbox
+  ADD COLUMN IF NOT EXISTS attachments JSONB;
+
+COMMENT ON TABLE public.taaruf_meetings IS
+  'Zoom meetings per taaruf session. SCHEDULED slots of one moderator may not overlap.';
+COMMENT ON COLUMN public.taaruf_meetings.moderator_notes IS
+  'Admin-only notes; never exposed to participants.';
+COMMENT ON COLUMN public.taaruf_meetings.reschedule_count IS
+  'Times the slot was moved; used as the ICS SEQUENCE.';
@@ -0,0 +1,170 @@
+-- =====================================================
+-- Migration: Saved searches and new-candidate alerts
+-- Description: Named cari-jodoh filter sets per user, a daily digest of
+--              newly approved CVs matching them, and the "new since last
+--              visit" marker on candidate cards.
+-- Date: 2025-11-14
+-- Issue: Filters only lived in URL params - users re-applied them every day
+--        and re-checked by hand whether anyone new had been approved.
+-- =====================================================
+
+-- =====================================================
+-- cv_data.approved_at: when the CV (last) became visible in listings.
+-- cv_updated_at moves on every edit, so it can't tell "new" candidates.
+-- =====================================================
+ALTER TABLE public.cv_data
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+UPDATE public.cv_data
+SET approved_at = COALESCE(last_reviewed_at, updated_at)
+WHERE status = 'APPROVED'
+  AND approved_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_cv_approved_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'APPROVED'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'APPROVED') THEN
+    NEW.approved_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS before_cv_approved_at ON public.cv_data;
+CREATE TRIGGER before_cv_approved_at
+  BEFORE INSERT OR UPDATE OF status ON public.cv_data
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_cv_approved_at();
+
+-- =====================================================
+-- approved_candidates_v + approved_at
+-- Same definition as 20251028_fix_avatar_in_approved_candidates_view
+-- =====================================================
+DROP MATERIALIZED VIEW IF EXISTS public.approved_candidates_v CASCADE;
+
+CREATE MATERIALIZED VIEW public.approved_candidates_v AS
+SELECT
+  cd.user_id,
+  cd.candidate_code,
+  cd.full_name,
+  cd.birth_date,
+  cd.marital_status,
+  CASE WHEN COALESCE(cd.gender, p.gender) = 'IKHWAN'
+    THEN 'MALE'
+    ELSE 'FEMALE'
+  END as gender_label,
+  COALESCE(cd.occupation, p.occupation) as occupation,
+  EXTRACT(YEAR FROM AGE(COALESCE(cd.birth_date, p.dob)))::int as age,
+  COALESCE(pr.name, 'N/A') as province,
+  COALESCE(cd.province_id, p.province_id) as province_id,
+  COALESCE(cd.education, p.education) as education,
+  cd.income_bracket,
+  cd.height_cm,
+  cd.weight_kg,
+  cd.disease_history,
+  p.avatar_path,
+  cd.updated_at as cv_updated_at,
+  cd.approved_at
+FROM public.cv_data cd
+JOIN public.profiles p ON p.user_id = cd.user_id
+LEFT JOIN public.provinces pr ON pr.id = COALESCE(cd.province_id, p.province_id)
+WHERE cd.status = 'APPROVED'
+  AND cd.allow_public = true;
+
+CREATE UNIQUE INDEX approved_candidates_user_id_idx ON public.approved_candidates_v (user_id);
+CREATE INDEX approved_candidates_gender_idx ON public.approved_candidates_v (gender_label);
+CREATE INDEX approved_candidates_age_idx ON public.approved_candidates_v (age);
+CREATE INDEX approved_candidates_province_idx ON public.approved_candidates_v (province);
+CREATE INDEX approved_candidates_education_idx ON public.approved_candidates_v (education);
+CREATE INDEX approved_candidates_approved_at_idx ON public.approved_candidates_v (approved_at);
+
+COMMENT ON MATERIALIZED VIEW public.approved_candidates_v IS
+  'Materialized view untuk approved candidates (avatar_path, approved_at untuk penanda kandidat baru)';
+
+-- =====================================================
+-- TABLE: saved_searches
+-- filters uses the cari-jodoh URL param names:
+-- { gender, ageRange, education, province }
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Include in the new-candidate digest
+  notify BOOLEAN NOT NULL DEFAULT true,
+  -- Candidates approved after this were not yet reported
+  last_notified_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT saved_searches_unique_name UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user
+ON public.saved_searches(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_notify
+ON public.saved_searches(last_notified_at)
+WHERE notify = true;
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own saved searches" ON public.saved_searches;
+CREATE POLICY "Users can view own saved searches"
+ON public.saved_searches FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own saved searches" ON public.saved_searches;
+CREATE POLICY "Users can create own saved searches"
+ON public.saved_searches FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own saved searches" ON public.saved_searches;
+CREATE POLICY "Users can update own saved searches"
+ON public.saved_searches FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own saved searches" ON public.saved_searches;
+CREATE POLICY "Users can delete own saved searches"
+ON public.saved_searches FOR DELETE
+USING (auth.uid() = user_id);
+
+-- =====================================================
+-- TABLE: candidate_search_visits
+-- A visit starts when cari-jodoh is opened after 30 minutes without it;
+-- cards approved after previous_visit_at get the "baru" marker for the
+-- whole visit (paging and refreshing don't clear it).
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.candidate_search_visits (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_visit_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.candidate_search_visits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own search visits" ON public.candidate_search_visits;
+CREATE POLICY "Users can view own search visits"
+ON public.candidate_search_visits FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own search visits" ON public.candidate_search_visits;
+CREATE POLICY "Users can insert own search visits"
+ON public.candidate_search_visits FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own search visits" ON public.candidate_search_visits;
+CREATE POLICY "Users can update own search visits"
+ON public.candidate_search_visits FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE public.saved_searches IS
+  'Named cari-jodoh filters per user; notify = include in the new-candidate digest.';
+COMMENT ON TABLE public.candidate_search_visits IS
+  'Last cari-jodoh visit per user, for the "baru sejak kunjungan terakhir" marker.';
@@ -0,0 +1,84 @@
+-- =====================================================
+-- Migration: Candidate shortlist
+-- Description: Users bookmark candidates from cari-jodoh with a private
+--              note, compare up to 3 of them side by side, and the entry
+--              disappears once the candidate is no longer listed.
+-- Date: 2025-11-16
+-- Issue: Comparing candidates before spending 5 koin on an ajuan taaruf
+--        meant screenshots or memory.
+-- =====================================================
+
+-- =====================================================
+-- TABLE: candidate_shortlist
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.candidate_shortlist (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.cv_data(user_id) ON DELETE CASCADE,
+  -- Only ever visible to user_id
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT candidate_shortlist_unique UNIQUE (user_id, candidate_id),
+  CONSTRAINT candidate_shortlist_not_self CHECK (user_id <> candidate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_shortlist_user
+ON public.candidate_shortlist(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_shortlist_candidate
+ON public.candidate_shortlist(candidate_id);
+
+ALTER TABLE public.candidate_shortlist ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own shortlist" ON public.candidate_shortlist;
+CREATE POLICY "Users can view own shortlist"
+ON public.candidate_shortlist FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add to own shortlist" ON public.candidate_shortlist;
+CREATE POLICY "Users can add to own shortlist"
+ON public.candidate_shortlist FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own shortlist" ON public.candidate_shortlist;
+CREATE POLICY "Users can update own shortlist"
+ON public.candidate_shortlist FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete from own shortlist" ON public.candidate_shortlist;
+CREATE POLICY "Users can delete from own shortlist"
+ON public.candidate_shortlist FOR DELETE
+USING (auth.uid() = user_id);
+
+-- =====================================================
+-- Drop shortlist entries once a candidate leaves cari-jodoh:
+-- CV no longer approved, hidden by the owner, or in khitbah.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.prune_candidate_shortlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'APPROVED'
+     OR NEW.allow_public IS NOT TRUE
+     OR NEW.taaruf_status = 'DALAM_KHITBAH' THEN
+    DELETE FROM public.candidate_shortlist
+    WHERE candidate_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS after_cv_visibility_prune_shortlist ON public.cv_data;
+CREATE TRIGGER after_cv_visibility_prune_shortlist
+  AFTER UPDATE OF status, allow_public, taaruf_status ON public.cv_data
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prune_candidate_shortlist();
+
+COMMENT ON TABLE public.candidate_shortlist IS
+  'Kandidat tersimpan per user dengan catatan pribadi; dihapus otomatis saat kandidat tidak lagi tampil di cari-jodoh.';
@@ -0,0 +1,48 @@
+-- =====================================================
+-- Migration: Social media post pipeline
+-- Description: Posts are generated from the approved CV (anonymised
+--              caption + square image card), then admins edit, schedule,
+--              mark them published with the post URL or reject them with
+--              an automatic refund.
+-- Date: 2025-11-17
+-- Issue: social_media_posts only knew PENDING/POSTED, every post was put
+--        together by hand and a rejection wrote a status the enum didn't
+--        have.
+-- =====================================================
+
+ALTER TYPE public.social_media_post_status ADD VALUE IF NOT EXISTS 'SCHEDULED';
+ALTER TYPE public.social_media_post_status ADD VALUE IF NOT EXISTS 'REJECTED';
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+ALTER TABLE public.social_media_posts
+  ADD COLUMN IF NOT EXISTS caption TEXT CHECK (caption IS NULL OR char_length(caption) <= 2200),
+  -- Anonymised snapshot the caption and image card are rendered from
+  ADD COLUMN IF NOT EXISTS card JSONB,
+  ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS post_url TEXT,
+  ADD COLUMN IF NOT EXISTS rejected_reason TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  -- Hold of the 5 koin; its ledger entry is refunded on rejection
+  ADD COLUMN IF NOT EXISTS wallet_hold_id BIGINT REFERENCES public.wallet_holds(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_social_media_posts_user_latest
+  ON public.social_media_posts (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_social_media_posts_scheduled
+  ON public.social_media_posts (scheduled_at)
+  WHERE scheduled_at IS NOT NULL;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.social_media_posts.status IS
+  'PENDING: waiting for admin, SCHEDULED: planned for scheduled_at, POSTED: published (post_url), REJECTED: refused and refunded';
+COMMENT ON COLUMN public.social_media_posts.caption IS 'Caption generated from the CV at submission, editable by admins until published';
+COMMENT ON COLUMN public.social_media_posts.card IS 'Anonymised CV snapshot (candidate_code, gender, age, province, education, vision) for caption and image card';
+COMMENT ON COLUMN public.social_media_posts.scheduled_at IS 'When the admin plans to publish the post';
+COMMENT ON COLUMN public.social_media_posts.post_url IS 'Link to the published post';
+COMMENT ON COLUMN public.social_media_posts.rejected_reason IS 'Shown to the user when the post is rejected';
+COMMENT ON COLUMN public.social_media_posts.wallet_hold_id IS 'Wallet hold of the posting fee (NULL for posts from before 2025-11-17)';
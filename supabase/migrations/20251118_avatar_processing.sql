@@ -0,0 +1,77 @@
+-- =====================================================
+-- Migration: Avatar processing
+-- Description: Avatars are re-encoded server-side (fixed size, metadata
+--              stripped) into a full file and a blurred low-res variant.
+--              Candidate listings only expose the blurred one.
+-- Date: 2025-11-18
+-- Issue: Uploads went to the public cv-avatars bucket as sent, EXIF GPS
+--        included, and approved_candidates_v handed the full-resolution
+--        photo to every visitor.
+-- =====================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS avatar_blur_path TEXT;
+
+COMMENT ON COLUMN public.profiles.avatar_path IS
+  'Full avatar in cv-avatars (512px WebP, no metadata). Only for the owner and admins';
+COMMENT ON COLUMN public.profiles.avatar_blur_path IS
+  'Blurred low-res avatar in cv-avatars, the only photo candidate listings show. NULL until the avatar is (re)processed';
+
+-- =====================================================
+-- approved_candidates_v: avatar_path -> avatar_blur_path
+-- Same definition as 20251115_candidate_advanced_filters
+-- =====================================================
+DROP MATERIALIZED VIEW IF EXISTS public.approved_candidates_v CASCADE;
+
+CREATE MATERIALIZED VIEW public.approved_candidates_v AS
+SELECT
+  cd.user_id,
+  cd.candidate_code,
+  cd.full_name,
+  cd.birth_date,
+  cd.marital_status,
+  CASE WHEN COALESCE(cd.gender, p.gender) = 'IKHWAN'
+    THEN 'MALE'
+    ELSE 'FEMALE'
+  END as gender_label,
+  COALESCE(cd.occupation, p.occupation) as occupation,
+  EXTRACT(YEAR FROM AGE(COALESCE(cd.birth_date, p.dob)))::int as age,
+  COALESCE(pr.name, 'N/A') as province,
+  COALESCE(cd.province_id, p.province_id) as province_id,
+  COALESCE(cd.education, p.education) as education,
+  cd.income_bracket,
+  cd.height_cm,
+  cd.weight_kg,
+  cd.disease_history,
+  det.worship_profile->>'salat_status' as salat_status,
+  det.worship_profile->>'quran_ability' as quran_ability,
+  p.avatar_blur_path,
+  cd.updated_at as cv_updated_at,
+  cd.approved_at
+FROM public.cv_data cd
+JOIN public.profiles p ON p.user_id = cd.user_id
+LEFT JOIN public.cv_details det ON det.user_id = cd.user_id
+LEFT JOIN public.provinces pr ON pr.id = COALESCE(cd.province_id, p.province_id)
+WHERE cd.status = 'APPROVED'
+  AND cd.allow_public = true;
+
+CREATE UNIQUE INDEX approved_candidates_user_id_idx ON public.approved_candidates_v (user_id);
+CREATE INDEX approved_candidates_gender_idx ON public.approved_candidates_v (gender_label);
+CREATE INDEX approved_candidates_age_idx ON public.approved_candidates_v (age);
+CREATE INDEX approved_candidates_province_idx ON public.approved_candidates_v (province);
+CREATE INDEX approved_candidates_education_idx ON public.approved_candidates_v (education);
+CREATE INDEX approved_candidates_approved_at_idx ON public.approved_candidates_v (approved_at);
+CREATE INDEX approved_candidates_height_idx ON public.approved_candidates_v (height_cm);
+CREATE INDEX approved_candidates_marital_status_idx ON public.approved_candidates_v (marital_status);
+CREATE INDEX approved_candidates_income_idx ON public.approved_candidates_v (income_bracket);
+CREATE INDEX approved_candidates_salat_idx ON public.approved_candidates_v (salat_status);
+CREATE INDEX approved_candidates_quran_idx ON public.approved_candidates_v (quran_ability);
+-- Occupation keyword search (ILIKE '%...%')
+CREATE INDEX approved_candidates_occupation_trgm_idx
+  ON public.approved_candidates_v USING GIN (occupation gin_trgm_ops);
+
+COMMENT ON MATERIALIZED VIEW public.approved_candidates_v IS
+  'Materialized view untuk approved candidates (avatar_blur_path, approved_at, salat_status/quran_ability untuk filter lanjutan)';
+
+-- Avatars uploaded before this migration have no blurred variant and show
+-- the placeholder until scripts/reprocess-avatars.ts --apply has run.
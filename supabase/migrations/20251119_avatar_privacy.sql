@@ -0,0 +1,98 @@
+-- =====================================================
+-- Migration: Avatar privacy
+-- Description: Each user picks who sees their photo (profiles.avatar_visibility).
+--              The cv-avatars bucket becomes private; avatars are served
+--              through /api/avatars/[userId], which checks the viewer's
+--              taaruf relationship and redirects to a short-lived signed URL.
+-- Date: 2025-11-19
+-- Issue: Every visitor who could see a candidate card could open the
+--        public bucket URL, whatever the candidate wanted.
+-- =====================================================
+
+DO $$ BEGIN
+  CREATE TYPE avatar_visibility AS ENUM ('HIDDEN', 'BLURRED', 'MEMBERS');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS avatar_visibility avatar_visibility NOT NULL DEFAULT 'BLURRED';
+
+COMMENT ON COLUMN public.profiles.avatar_visibility IS
+  'HIDDEN: no photo until a taaruf is accepted. BLURRED: blurred until accepted. MEMBERS: full photo for members with an approved CV. The owner and admins always see the full photo';
+
+-- =====================================================
+-- Private bucket: no more public object URLs
+-- =====================================================
+UPDATE storage.buckets SET public = false WHERE id = 'cv-avatars';
+
+DROP POLICY IF EXISTS "Anyone can view avatars" ON storage.objects;
+DROP POLICY IF EXISTS "Public can view avatars" ON storage.objects;
+
+-- Owners still read their own folder (storage needs it to replace/delete files)
+DROP POLICY IF EXISTS "Users can view their own avatar" ON storage.objects;
+CREATE POLICY "Users can view their own avatar"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'cv-avatars' AND (auth.uid())::text = (storage.foldername(name))[1]);
+
+-- =====================================================
+-- approved_candidates_v: + avatar_visibility
+-- Same definition as 20251118_avatar_processing
+-- =====================================================
+DROP MATERIALIZED VIEW IF EXISTS public.approved_candidates_v CASCADE;
+
+CREATE MATERIALIZED VIEW public.approved_candidates_v AS
+SELECT
+  cd.user_id,
+  cd.candidate_code,
+  cd.full_name,
+  cd.birth_date,
+  cd.marital_status,
+  CASE WHEN COALESCE(cd.gender, p.gender) = 'IKHWAN'
+    THEN 'MALE'
+    ELSE 'FEMALE'
+  END as gender_label,
+  COALESCE(cd.occupation, p.occupation) as occupation,
+  EXTRACT(YEAR FROM AGE(COALESCE(cd.birth_date, p.dob)))::int as age,
+  COALESCE(pr.name, 'N/A') as province,
+  COALESCE(cd.province_id, p.province_id) as province_id,
+  COALESCE(cd.education, p.education) as education,
+  cd.income_bracket,
+  cd.height_cm,
+  cd.weight_kg,
+  cd.disease_history,
+  det.worship_profile->>'salat_status' as salat_status,
+  det.worship_profile->>'quran_ability' as quran_ability,
+  p.avatar_blur_path,
+  p.avatar_visibility,
+  cd.updated_at as cv_updated_at,
+  cd.approved_at
+FROM public.cv_data cd
+JOIN public.profiles p ON p.user_id = cd.user_id
+LEFT JOIN public.cv_details det ON det.user_id = cd.user_id
+LEFT JOIN public.provinces pr ON pr.id = COALESCE(cd.province_id, p.province_id)
+WHERE cd.status = 'APPROVED'
+  AND cd.allow_public = true;
+
+CREATE UNIQUE INDEX approved_candidates_user_id_idx ON public.approved_candidates_v (user_id);
+CREATE INDEX approved_candidates_gender_idx ON public.approved_candidates_v (gender_label);
+CREATE INDEX approved_candidates_age_idx ON public.approved_candidates_v (age);
+CREATE INDEX approved_candidates_province_idx ON public.approved_candidates_v (province);
+CREATE INDEX approved_candidates_education_idx ON public.approved_candidates_v (education);
+CREATE INDEX approved_candidates_approved_at_idx ON public.approved_candidates_v (approved_at);
+CREATE INDEX approved_candidates_height_idx ON public.approved_candidates_v (height_cm);
+CREATE INDEX approved_candidates_marital_status_idx ON public.approved_candidates_v (marital_status);
+CREATE INDEX approved_candidates_income_idx ON public.approved_candidates_v (income_bracket);
+CREATE INDEX approved_candidates_salat_idx ON public.approved_candidates_v (salat_status);
+CREATE INDEX approved_candidates_quran_idx ON public.approved_candidates_v (quran_ability);
+-- Occupation keyword search (ILIKE '%...%')
+CREATE INDEX approved_candidates_occupation_trgm_idx
+  ON public.approved_candidates_v USING GIN (occupation gin_trgm_ops);
+
+COMMENT ON MATERIALIZED VIEW public.approved_candidates_v IS
+  'Materialized view untuk approved candidates (avatar_blur_path + avatar_visibility, approved_at, salat_status/quran_ability untuk filter lanjutan)';
+
+-- Existing users keep today's behaviour (blurred in listings) under the
+-- BLURRED default. Full photos uploaded before 20251118 without a blurred
+-- variant show the placeholder to other members until reprocessed.
@@ -0,0 +1,143 @@
+-- =====================================================
+-- Migration: Wali (guardian) participation in taaruf
+-- Description: An akhwat registers her wali's contact. The wali is CC'd on
+--              meeting notifications (extra notification_deliveries rows
+--              queued by the fan-out trigger) and gets read-only access to
+--              the active session through magic links: hashed tokens scoped
+--              to one session. The wali can confirm attending a meeting.
+-- Date: 2025-11-20
+-- Issue: taaruf_sessions only knows user_a / user_b and meeting schedules
+--        reached those two only, although the woman's wali traditionally
+--        takes part in the taaruf.
+-- =====================================================
+
+-- 1. One wali contact per user (akhwat only, see insert policy)
+CREATE TABLE IF NOT EXISTS public.taaruf_guardians (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 2 AND 100),
+  relation TEXT NOT NULL
+    CHECK (relation IN ('AYAH', 'KAKEK', 'SAUDARA', 'PAMAN', 'WALI_HAKIM', 'LAINNYA')),
+  email TEXT CHECK (email IS NULL OR char_length(email) <= 254),
+  phone TEXT CHECK (phone IS NULL OR char_length(phone) <= 20),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT taaruf_guardians_contact_required CHECK (email IS NOT NULL OR phone IS NOT NULL)
+);
+
+ALTER TABLE public.taaruf_guardians ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "taaruf_guardians_select_own" ON public.taaruf_guardians;
+CREATE POLICY "taaruf_guardians_select_own"
+  ON public.taaruf_guardians
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "taaruf_guardians_insert_own" ON public.taaruf_guardians;
+CREATE POLICY "taaruf_guardians_insert_own"
+  ON public.taaruf_guardians
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.user_id = auth.uid() AND p.gender = 'AKHWAT'
+    )
+  );
+
+DROP POLICY IF EXISTS "taaruf_guardians_update_own" ON public.taaruf_guardians;
+CREATE POLICY "taaruf_guardians_update_own"
+  ON public.taaruf_guardians
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "taaruf_guardians_delete_own" ON public.taaruf_guardians;
+CREATE POLICY "taaruf_guardians_delete_own"
+  ON public.taaruf_guardians
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- 2. Magic links: only the SHA-256 of the token is stored. A link opens one
+-- session and stops working when it expires or the session ends.
+CREATE TABLE IF NOT EXISTS public.taaruf_guardian_links (
+  id BIGSERIAL PRIMARY KEY,
+  guardian_id BIGINT NOT NULL REFERENCES public.taaruf_guardians(id) ON DELETE CASCADE,
+  taaruf_id BIGINT NOT NULL REFERENCES public.taaruf_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_taaruf_guardian_links_guardian
+ON public.taaruf_guardian_links(guardian_id);
+
+-- Service role only
+ALTER TABLE public.taaruf_guardian_links ENABLE ROW LEVEL SECURITY;
+
+-- 3. Wali attendance per meeting (cleared when the meeting is moved)
+ALTER TABLE public.taaruf_meetings
+  ADD COLUMN IF NOT EXISTS guardian_confirmed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS guardian_confirmed_by BIGINT
+    REFERENCES public.taaruf_guardians(id) ON DELETE SET NULL;
+
+-- 4. Wali copies of notifications: same queue, recipient from the guardian
+ALTER TABLE public.notification_deliveries
+  ADD COLUMN IF NOT EXISTS guardian_id BIGINT
+    REFERENCES public.taaruf_guardians(id) ON DELETE CASCADE;
+
+-- The user's own copies stay unique per channel; wali copies per guardian
+ALTER TABLE public.notification_deliveries
+  DROP CONSTRAINT IF EXISTS notification_deliveries_notification_id_channel_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_deliveries_user_copy_key
+ON public.notification_deliveries(notification_id, channel)
+WHERE guardian_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_deliveries_guardian_copy_key
+ON public.notification_deliveries(notification_id, channel, guardian_id)
+WHERE guardian_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.enqueue_notification_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notification_deliveries (notification_id, user_id, channel)
+  VALUES
+    (NEW.id, NEW.user_id, 'EMAIL'),
+    (NEW.id, NEW.user_id, 'WHATSAPP')
+  ON CONFLICT (notification_id, channel) WHERE guardian_id IS NULL DO NOTHING;
+
+  -- CC the wali on meeting schedules and on explicit invitations
+  IF NEW.type IN ('ZOOM_SCHEDULED', 'MEETING_RESCHEDULED', 'MEETING_CANCELLED', 'GUARDIAN_INVITED') THEN
+    INSERT INTO notification_deliveries (notification_id, user_id, channel, guardian_id)
+    SELECT NEW.id, NEW.user_id, c.channel, g.id
+      FROM taaruf_guardians g
+     CROSS JOIN LATERAL (
+       VALUES ('EMAIL', g.email), ('WHATSAPP', g.phone)
+     ) AS c(channel, address)
+     WHERE g.user_id = NEW.user_id
+       AND c.address IS NOT NULL
+    ON CONFLICT (notification_id, channel, guardian_id) WHERE guardian_id IS NOT NULL DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON TABLE public.taaruf_guardians IS
+  'Wali contact registered by an akhwat; CC''d on her taaruf meeting notifications.';
+COMMENT ON TABLE public.taaruf_guardian_links IS
+  'Read-only magic links for a wali into one taaruf session (SHA-256 token hashes).';
+COMMENT ON COLUMN public.notification_deliveries.guardian_id IS
+  'Set on the wali''s copy of the user''s notification; recipient comes from taaruf_guardians.';
+COMMENT ON COLUMN public.taaruf_meetings.guardian_confirmed_at IS
+  'When the wali confirmed attending; reset when the meeting is rescheduled.';
@@ -0,0 +1,46 @@
+-- =====================================================
+-- Migration: Taaruf Q&A thread
+-- Description: Moderated question-and-answer exchange per taaruf session.
+--              Either side asks, the other answers; every message waits
+--              for an admin to approve it before the other side sees it.
+--              Messages with contact details are refused by the API
+--              before they get here.
+-- Date: 2025-11-21
+-- Issue: After acceptTaarufRequest the couple had no way to talk on the
+--        platform, so everything moved to unmoderated off-platform chat.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.taaruf_qa_messages (
+  id BIGSERIAL PRIMARY KEY,
+  taaruf_id BIGINT NOT NULL REFERENCES public.taaruf_sessions(id) ON DELETE CASCADE,
+  -- NULL for a question; the question being answered otherwise
+  question_id BIGINT REFERENCES public.taaruf_qa_messages(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  status TEXT NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  -- Shown to the sender only
+  reject_reason TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_taaruf_qa_messages_taaruf
+ON public.taaruf_qa_messages(taaruf_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_taaruf_qa_messages_pending
+ON public.taaruf_qa_messages(created_at)
+WHERE status = 'PENDING';
+
+-- One live answer per question; a rejected answer can be written again
+CREATE UNIQUE INDEX IF NOT EXISTS taaruf_qa_messages_one_answer
+ON public.taaruf_qa_messages(question_id)
+WHERE question_id IS NOT NULL AND status <> 'REJECTED';
+
+-- Service role only: participants go through the API, which hides the
+-- other side's unapproved messages
+ALTER TABLE public.taaruf_qa_messages ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.taaruf_qa_messages IS
+  'Moderated Q&A between the two sides of a taaruf session; delivered once an admin approves.';
@@ -0,0 +1,179 @@
+-- =====================================================
+-- Migration: Fix ajukan_taaruf against wallet holds
+-- Description: ajukan_taaruf checks the available balance (ledger minus
+--              active wallet_holds) under the shared wallet:<user> advisory
+--              lock
+-- Date: 2025-11-23
+-- Issue: The RPC predates the unified wallet ledger. It checked the plain
+--        ledger sum and locked the profiles row, so koin reserved by an open
+--        social media hold could be spent again on a taaruf request.
+-- =====================================================
+
+-- =====================================================
+-- FUNCTION: ajukan_taaruf
+-- Same as 20251122, with the wallet lock and available balance
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.ajukan_taaruf(
+  p_to_user uuid,
+  p_idempotency_key text
+)
+RETURNS TABLE(
+  request_id bigint,
+  expires_at timestamptz,
+  charged_cents int,
+  balance_cents int,
+  replayed boolean,
+  error_code text,
+  active_taaruf_code text,
+  existing_status text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from uuid := auth.uid();
+  v_cost_cents int := public.taaruf_cost_cents();
+  v_from_status public.cv_status_enum;
+  v_from_gender public.gender_enum;
+  v_to_gender public.gender_enum;
+  v_balance bigint;
+  v_existing record;
+BEGIN
+  IF v_from IS NULL THEN
+    error_code := 'NOT_AUTHENTICATED';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) < 8 THEN
+    error_code := 'INVALID_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Serialize all koin spending of this user (same lock as wallet_post_entry
+  -- and wallet_place_hold)
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || v_from::text));
+
+  -- Idempotency: same key from the same user → return the original request,
+  -- charge nothing. Keys are only unique per user.
+  SELECT tr.id, tr.to_user, tr.expires_at
+  INTO v_existing
+  FROM public.taaruf_requests tr
+  WHERE tr.from_user = v_from
+    AND tr.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.to_user <> p_to_user THEN
+      error_code := 'IDEMPOTENCY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    request_id := v_existing.id;
+    expires_at := v_existing.expires_at;
+    charged_cents := 0;
+    replayed := true;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 2: CV must be APPROVED
+  SELECT cd.status, cd.gender
+  INTO v_from_status, v_from_gender
+  FROM public.cv_data cd
+  WHERE cd.user_id = v_from;
+
+  IF v_from_status IS NULL THEN
+    error_code := 'CV_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_from_status <> 'APPROVED' THEN
+    error_code := 'CV_NOT_APPROVED';
+    existing_status := v_from_status::text;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 5: Cannot request to self
+  IF v_from = p_to_user THEN
+    error_code := 'SELF_REQUEST';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Target must be an APPROVED candidate of the opposite gender
+  -- (SECURITY DEFINER bypasses the can_ajukan_taaruf RLS check)
+  SELECT cd.gender
+  INTO v_to_gender
+  FROM public.cv_data cd
+  WHERE cd.user_id = p_to_user
+    AND cd.status = 'APPROVED';
+
+  IF v_to_gender IS NULL OR v_to_gender = v_from_gender THEN
+    error_code := 'TARGET_NOT_AVAILABLE';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 3: Available balance must be sufficient (ledger minus active holds)
+  v_balance := public.wallet_ledger_cents(v_from) - public.wallet_held_cents(v_from);
+
+  IF v_balance < v_cost_cents THEN
+    error_code := 'INSUFFICIENT_KOIN';
+    balance_cents := v_balance;
+    charged_cents := v_cost_cents;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 4: No active taaruf session
+  SELECT ts.taaruf_code
+  INTO active_taaruf_code
+  FROM public.taaruf_sessions ts
+  WHERE (ts.user_a = v_from OR ts.user_b = v_from)
+    AND ts.status = 'ACTIVE'
+  LIMIT 1;
+
+  IF FOUND THEN
+    error_code := 'ACTIVE_TAARUF_EXISTS';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Guard 6: No PENDING/ACCEPTED request to the same user
+  SELECT tr.status::text
+  INTO existing_status
+  FROM public.taaruf_requests tr
+  WHERE tr.from_user = v_from
+    AND tr.to_user = p_to_user
+    AND tr.status IN ('PENDING', 'ACCEPTED')
+  LIMIT 1;
+
+  IF FOUND THEN
+    error_code := 'REQUEST_EXISTS';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- All guards passed: create request + debit in this transaction
+  INSERT INTO public.taaruf_requests (from_user, to_user, status, expires_at, idempotency_key)
+  VALUES (v_from, p_to_user, 'PENDING', now() + interval '72 hours', p_idempotency_key)
+  RETURNING id, taaruf_requests.expires_at INTO request_id, expires_at;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, idempotency_key)
+  VALUES (v_from, 'DEBIT', v_cost_cents, 'TAARUF_COST', 'taaruf-request-' || request_id::text);
+
+  charged_cents := v_cost_cents;
+  balance_cents := v_balance - v_cost_cents;
+  replayed := false;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ajukan_taaruf(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION public.ajukan_taaruf(uuid, text) IS 'Atomically create taaruf request and debit taaruf_cost_cents(). Idempotent per sender and caller-supplied key. Ledger key: taaruf-request-<id>.';
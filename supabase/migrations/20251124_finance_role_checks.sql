@@ -0,0 +1,364 @@
+-- =====================================================
+-- Migration: Finance role checks in the database
+-- Description: Money-moving wallet RPCs and the finance RLS policies check
+--              the finance / superadmin admin roles instead of is_admin()
+-- Date: 2025-11-24
+-- Issue: Admin roles were only enforced in app code. wallet_post_entry is
+--        granted to authenticated, so any admin (reviewer, moderator) could
+--        CREDIT koin to any user by calling the RPC directly, and every
+--        admin role could read payments, the ledger and holds.
+-- =====================================================
+
+-- =====================================================
+-- Wallet RPCs: only finance / superadmin (or the service role) may act on
+-- another user's wallet. Bodies unchanged from 20251106 otherwise.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_post_entry(
+  p_user_id uuid,
+  p_type public.ledger_type,
+  p_amount_cents integer,
+  p_reason public.ledger_reason,
+  p_idempotency_key text,
+  p_linked_order_id text DEFAULT NULL
+)
+RETURNS TABLE(
+  entry_id bigint,
+  balance_cents bigint,
+  available_cents bigint,
+  replayed boolean,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_existing record;
+  v_available bigint;
+  v_id bigint;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance'])
+     AND (p_type = 'CREDIT' OR v_caller <> p_user_id) THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    error_code := 'INVALID_AMOUNT';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    error_code := 'MISSING_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Serialize writes per wallet so two DEBITs can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::text));
+
+  SELECT wt.id, wt.user_id INTO v_existing
+  FROM public.wallet_transactions wt
+  WHERE wt.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> p_user_id THEN
+      error_code := 'IDEMPOTENCY_KEY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    entry_id := v_existing.id;
+    replayed := true;
+    balance_cents := public.wallet_ledger_cents(p_user_id);
+    available_cents := balance_cents - public.wallet_held_cents(p_user_id);
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_type = 'DEBIT' THEN
+    v_available := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+    IF v_available < p_amount_cents THEN
+      error_code := 'INSUFFICIENT_BALANCE';
+      balance_cents := public.wallet_ledger_cents(p_user_id);
+      available_cents := v_available;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+  VALUES (p_user_id, p_type, p_amount_cents, p_reason, p_linked_order_id, p_idempotency_key)
+  RETURNING id INTO v_id;
+
+  entry_id := v_id;
+  replayed := false;
+  balance_cents := public.wallet_ledger_cents(p_user_id);
+  available_cents := balance_cents - public.wallet_held_cents(p_user_id);
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.wallet_post_entry(uuid, public.ledger_type, integer, public.ledger_reason, text, text) IS 'Write one ledger entry (idempotent). Users may only DEBIT themselves; CREDIT needs a finance/superadmin admin or the service role.';
+
+CREATE OR REPLACE FUNCTION public.wallet_place_hold(
+  p_user_id uuid,
+  p_amount_cents integer,
+  p_reason public.ledger_reason,
+  p_idempotency_key text,
+  p_reference text DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  hold_id bigint,
+  available_cents bigint,
+  replayed boolean,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_existing record;
+  v_available bigint;
+  v_id bigint;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance']) AND v_caller <> p_user_id THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    error_code := 'INVALID_AMOUNT';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    error_code := 'MISSING_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::text));
+
+  SELECT h.id, h.user_id INTO v_existing
+  FROM public.wallet_holds h
+  WHERE h.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> p_user_id THEN
+      error_code := 'IDEMPOTENCY_KEY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    hold_id := v_existing.id;
+    replayed := true;
+    available_cents := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_available := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+  IF v_available < p_amount_cents THEN
+    error_code := 'INSUFFICIENT_BALANCE';
+    available_cents := v_available;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.wallet_holds (user_id, amount_cents, reason, reference, idempotency_key, expires_at)
+  VALUES (p_user_id, p_amount_cents, p_reason, p_reference, p_idempotency_key, p_expires_at)
+  RETURNING id INTO v_id;
+
+  hold_id := v_id;
+  replayed := false;
+  available_cents := v_available - p_amount_cents;
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.wallet_place_hold(uuid, integer, public.ledger_reason, text, text, timestamptz) IS 'Reserve koin against the available balance (idempotent). Own wallet, finance/superadmin or service role.';
+
+CREATE OR REPLACE FUNCTION public.wallet_settle_hold(
+  p_hold_id bigint,
+  p_capture boolean
+)
+RETURNS TABLE(
+  hold_id bigint,
+  status text,
+  entry_id bigint,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_hold record;
+  v_id bigint;
+BEGIN
+  SELECT h.* INTO v_hold
+  FROM public.wallet_holds h
+  WHERE h.id = p_hold_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'HOLD_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance']) AND v_caller <> v_hold.user_id THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  hold_id := v_hold.id;
+
+  IF v_hold.status <> 'HELD' THEN
+    status := v_hold.status;
+    entry_id := v_hold.ledger_entry_id;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_capture THEN
+    -- The hold already reserved this amount, so no balance check here
+    INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+    VALUES (v_hold.user_id, 'DEBIT', v_hold.amount_cents, v_hold.reason, v_hold.reference, 'hold-' || v_hold.id)
+    ON CONFLICT ON CONSTRAINT wallet_ledger_entries_idempotency_key_key DO NOTHING
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      SELECT wt.id INTO v_id
+      FROM public.wallet_transactions wt
+      WHERE wt.idempotency_key = 'hold-' || v_hold.id;
+    END IF;
+
+    UPDATE public.wallet_holds
+    SET status = 'CAPTURED', ledger_entry_id = v_id, settled_at = now()
+    WHERE id = v_hold.id;
+
+    status := 'CAPTURED';
+    entry_id := v_id;
+  ELSE
+    UPDATE public.wallet_holds
+    SET status = 'RELEASED', settled_at = now()
+    WHERE id = v_hold.id;
+
+    status := 'RELEASED';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.wallet_settle_hold(bigint, boolean) IS 'Capture (DEBIT) or release a wallet hold. Idempotent. Own hold, finance/superadmin or service role.';
+
+CREATE OR REPLACE FUNCTION public.wallet_reconciliation()
+RETURNS TABLE(
+  user_id uuid,
+  email text,
+  cached_koin integer,
+  ledger_cents bigint,
+  ledger_koin integer,
+  difference_koin integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance']) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.user_id,
+    p.email,
+    p.koin_balance,
+    COALESCE(l.cents, 0)::bigint,
+    floor(COALESCE(l.cents, 0) / 100.0)::integer,
+    (p.koin_balance - floor(COALESCE(l.cents, 0) / 100.0))::integer
+  FROM public.profiles p
+  LEFT JOIN (
+    SELECT
+      wt.user_id,
+      SUM(CASE WHEN wt.type = 'CREDIT' THEN wt.amount_cents ELSE -wt.amount_cents END) AS cents
+    FROM public.wallet_transactions wt
+    GROUP BY wt.user_id
+  ) l ON l.user_id = p.user_id
+  WHERE p.koin_balance <> floor(COALESCE(l.cents, 0) / 100.0)
+  ORDER BY abs(p.koin_balance - floor(COALESCE(l.cents, 0) / 100.0)) DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION public.wallet_reconciliation() IS 'List users whose cached koin_balance does not match the ledger. Finance/superadmin or service role.';
+
+-- =====================================================
+-- Finance RLS: replace the is_admin() read policies
+-- Policies were created under several names over time (and on the renamed
+-- ledger table), so drop every is_admin() policy on these tables by lookup.
+-- The admin screens read through the service role and are unaffected.
+-- =====================================================
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'wallet_transactions',
+        'wallet_holds',
+        'koin_topup_orders',
+        'payment_refunds',
+        'payment_webhook_inbox'
+      )
+      AND (qual ILIKE '%is_admin(%' OR with_check ILIKE '%is_admin(%')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END $$;
+
+CREATE POLICY "wallet_transactions_select_finance"
+  ON public.wallet_transactions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['superadmin', 'finance']));
+
+CREATE POLICY "wallet_holds_select_finance"
+  ON public.wallet_holds
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['superadmin', 'finance']));
+
+CREATE POLICY "koin_topup_orders_select_finance"
+  ON public.koin_topup_orders
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['superadmin', 'finance']));
+
+CREATE POLICY "payment_refunds_select_finance"
+  ON public.payment_refunds
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['superadmin', 'finance']));
+
+CREATE POLICY "payment_webhook_inbox_select_finance"
+  ON public.payment_webhook_inbox
+  FOR SELECT
+  TO authenticated
+  USING (public.has_admin_role(ARRAY['superadmin', 'finance']));
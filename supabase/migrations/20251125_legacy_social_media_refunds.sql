@@ -0,0 +1,95 @@
+-- =====================================================
+-- Migration: Legacy social media refunds on the ledger
+-- Description: Link posts without a wallet hold to their posting DEBIT, and
+--              count their SOCMED refund credits in wallet_refunded_cents
+-- Date: 2025-11-25
+-- Issue: Posts from before wallet holds were refunded with a plain
+--        SOCMED-REFUND-* credit that wallet_refunded_cents didn't see, so an
+--        admin could refund the same posting fee a second time (and the
+--        other way round).
+-- =====================================================
+
+-- =====================================================
+-- FUNCTION: wallet_social_post_debit
+-- Posting fee DEBIT of a post without wallet_hold_id: the user's latest
+-- SOCIAL_MEDIA_POST DEBIT made before the post (both were written in the
+-- same request)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_social_post_debit(p_post_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT wt.id
+  FROM public.social_media_posts p
+  JOIN public.wallet_transactions wt
+    ON wt.user_id = p.user_id
+   AND wt.type = 'DEBIT'
+   AND wt.reason = 'SOCIAL_MEDIA_POST'
+   AND wt.created_at <= p.created_at
+  WHERE p.id = p_post_id
+    AND p.wallet_hold_id IS NULL
+  ORDER BY wt.created_at DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_social_post_debit(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.wallet_social_post_debit(uuid) TO service_role;
+
+COMMENT ON FUNCTION public.wallet_social_post_debit(uuid) IS 'Posting fee DEBIT of a social media post created before wallet holds (service role only)';
+
+-- =====================================================
+-- FUNCTION: wallet_refunded_cents
+-- Already refunded part of a DEBIT: admin refunds, the automatic refund of
+-- an expired taaruf request, and for legacy social media posts the credits
+-- written outside wallet_refund_entry:
+--   refund-<debit key>         submission failed after the charge
+--   SOCMED-REFUND-<post id>*   post rejected
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_refunded_cents(p_transaction_id bigint)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(pr.amount_cents)
+      FROM public.payment_refunds pr
+      WHERE pr.transaction_id = p_transaction_id
+        AND pr.status = 'completed'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(r.amount_cents)
+      FROM public.wallet_transactions d
+      JOIN public.wallet_transactions r
+        ON r.idempotency_key = 'taaruf-expired-refund-' || substring(d.idempotency_key FROM 16)
+      WHERE d.id = p_transaction_id
+        AND d.idempotency_key LIKE 'taaruf-request-%'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(r.amount_cents)
+      FROM public.wallet_transactions d
+      JOIN public.wallet_transactions r
+        ON r.user_id = d.user_id
+       AND r.type = 'CREDIT'
+       AND r.idempotency_key = 'refund-' || d.idempotency_key
+      WHERE d.id = p_transaction_id
+        AND d.reason = 'SOCIAL_MEDIA_POST'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(r.amount_cents)
+      FROM public.wallet_transactions d
+      JOIN public.social_media_posts p
+        ON p.user_id = d.user_id
+       AND p.wallet_hold_id IS NULL
+       AND public.wallet_social_post_debit(p.id) = d.id
+      JOIN public.wallet_transactions r
+        ON r.user_id = d.user_id
+       AND r.type = 'CREDIT'
+       AND r.idempotency_key LIKE 'SOCMED-REFUND-' || p.id::text || '%'
+      WHERE d.id = p_transaction_id
+        AND d.reason = 'SOCIAL_MEDIA_POST'
+    ), 0);
+$$;
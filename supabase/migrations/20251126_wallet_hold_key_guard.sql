@@ -0,0 +1,200 @@
+-- =====================================================
+-- Migration: Reserve hold capture keys on the ledger
+-- Description: wallet_post_entry refuses hold-* idempotency keys, and
+--              wallet_settle_hold only adopts an existing hold-<id> entry
+--              whose user, type and amount match the hold
+-- Date: 2025-11-26
+-- Issue: Users can DEBIT themselves through wallet_post_entry under any
+--        key. Hold ids are sequential, so a user could pre-write a 1-cent
+--        DEBIT as hold-<next id>; capturing the hold then adopted that row
+--        and the 5 koin posting fee was charged as 1 cent.
+-- =====================================================
+
+-- Bodies unchanged from 20251124_finance_role_checks.sql otherwise
+CREATE OR REPLACE FUNCTION public.wallet_post_entry(
+  p_user_id uuid,
+  p_type public.ledger_type,
+  p_amount_cents integer,
+  p_reason public.ledger_reason,
+  p_idempotency_key text,
+  p_linked_order_id text DEFAULT NULL
+)
+RETURNS TABLE(
+  entry_id bigint,
+  balance_cents bigint,
+  available_cents bigint,
+  replayed boolean,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_existing record;
+  v_available bigint;
+  v_id bigint;
+BEGIN
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance'])
+     AND (p_type = 'CREDIT' OR v_caller <> p_user_id) THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    error_code := 'INVALID_AMOUNT';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    error_code := 'MISSING_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- hold-<id> is the capture entry of a wallet hold, written only by
+  -- wallet_settle_hold
+  IF p_idempotency_key LIKE 'hold-%' THEN
+    error_code := 'RESERVED_IDEMPOTENCY_KEY';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Serialize writes per wallet so two DEBITs can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::text));
+
+  SELECT wt.id, wt.user_id INTO v_existing
+  FROM public.wallet_transactions wt
+  WHERE wt.idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> p_user_id THEN
+      error_code := 'IDEMPOTENCY_KEY_CONFLICT';
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    entry_id := v_existing.id;
+    replayed := true;
+    balance_cents := public.wallet_ledger_cents(p_user_id);
+    available_cents := balance_cents - public.wallet_held_cents(p_user_id);
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_type = 'DEBIT' THEN
+    v_available := public.wallet_ledger_cents(p_user_id) - public.wallet_held_cents(p_user_id);
+    IF v_available < p_amount_cents THEN
+      error_code := 'INSUFFICIENT_BALANCE';
+      balance_cents := public.wallet_ledger_cents(p_user_id);
+      available_cents := v_available;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+  VALUES (p_user_id, p_type, p_amount_cents, p_reason, p_linked_order_id, p_idempotency_key)
+  RETURNING id INTO v_id;
+
+  entry_id := v_id;
+  replayed := false;
+  balance_cents := public.wallet_ledger_cents(p_user_id);
+  available_cents := balance_cents - public.wallet_held_cents(p_user_id);
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.wallet_post_entry(uuid, public.ledger_type, integer, public.ledger_reason, text, text) IS 'Write one ledger entry (idempotent). Users may only DEBIT themselves; CREDIT needs a finance/superadmin admin or the service role. hold-* keys are reserved for hold captures.';
+
+CREATE OR REPLACE FUNCTION public.wallet_settle_hold(
+  p_hold_id bigint,
+  p_capture boolean
+)
+RETURNS TABLE(
+  hold_id bigint,
+  status text,
+  entry_id bigint,
+  error_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_hold record;
+  v_id bigint;
+BEGIN
+  SELECT h.* INTO v_hold
+  FROM public.wallet_holds h
+  WHERE h.id = p_hold_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    error_code := 'HOLD_NOT_FOUND';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_caller IS NOT NULL AND NOT public.has_admin_role(ARRAY['superadmin', 'finance']) AND v_caller <> v_hold.user_id THEN
+    error_code := 'FORBIDDEN';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  hold_id := v_hold.id;
+
+  IF v_hold.status <> 'HELD' THEN
+    status := v_hold.status;
+    entry_id := v_hold.ledger_entry_id;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_capture THEN
+    -- The hold already reserved this amount, so no balance check here
+    INSERT INTO public.wallet_transactions (user_id, type, amount_cents, reason, linked_order_id, idempotency_key)
+    VALUES (v_hold.user_id, 'DEBIT', v_hold.amount_cents, v_hold.reason, v_hold.reference, 'hold-' || v_hold.id)
+    ON CONFLICT ON CONSTRAINT wallet_ledger_entries_idempotency_key_key DO NOTHING
+    RETURNING id INTO v_id;
+
+    -- A retried capture finds its own entry; anything else under this key
+    -- was not written for this hold and must not settle it
+    IF v_id IS NULL THEN
+      SELECT wt.id INTO v_id
+      FROM public.wallet_transactions wt
+      WHERE wt.idempotency_key = 'hold-' || v_hold.id
+        AND wt.user_id = v_hold.user_id
+        AND wt.type = 'DEBIT'
+        AND wt.amount_cents = v_hold.amount_cents;
+
+      IF v_id IS NULL THEN
+        error_code := 'LEDGER_KEY_CONFLICT';
+        RETURN NEXT;
+        RETURN;
+      END IF;
+    END IF;
+
+    UPDATE public.wallet_holds
+    SET status = 'CAPTURED', ledger_entry_id = v_id, settled_at = now()
+    WHERE id = v_hold.id;
+
+    status := 'CAPTURED';
+    entry_id := v_id;
+  ELSE
+    UPDATE public.wallet_holds
+    SET status = 'RELEASED', settled_at = now()
+    WHERE id = v_hold.id;
+
+    status := 'RELEASED';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.wallet_settle_hold(bigint, boolean) IS 'Capture (DEBIT) or release a wallet hold. Idempotent; only adopts an existing hold-<id> entry that matches the hold. Own hold, finance/superadmin or service role.';
@@ -0,0 +1,50 @@
+-- =====================================================
+-- Migration: Social media posts are created by the service role only
+-- Description: Drop the user insert policy on social_media_posts, and tie
+--              each legacy posting DEBIT to one post only
+-- Date: 2025-11-27
+-- Issue: social_media_posts_insert_own let users insert posts directly with
+--        their own card, caption and wallet_hold_id. A post pointing at the
+--        hold of an already published post (or a NULL hold matched to the
+--        latest posting DEBIT) refunded that fee when rejected, and the
+--        "anonymised" card published whatever the user typed.
+-- =====================================================
+
+-- submitSocialMediaPost builds card and caption from the approved CV and
+-- inserts through the service role
+DROP POLICY IF EXISTS "social_media_posts_insert_own" ON public.social_media_posts;
+
+-- =====================================================
+-- FUNCTION: wallet_social_post_debit
+-- Posting fee DEBIT of a post without wallet_hold_id: the user's latest
+-- SOCIAL_MEDIA_POST DEBIT made before the post (both were written in the
+-- same request). Hold captures are never legacy fees, and a DEBIT belongs
+-- to the first post after it only.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.wallet_social_post_debit(p_post_id uuid)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT wt.id
+  FROM public.social_media_posts p
+  JOIN public.wallet_transactions wt
+    ON wt.user_id = p.user_id
+   AND wt.type = 'DEBIT'
+   AND wt.reason = 'SOCIAL_MEDIA_POST'
+   AND wt.created_at <= p.created_at
+   AND wt.idempotency_key NOT LIKE 'hold-%'
+  WHERE p.id = p_post_id
+    AND p.wallet_hold_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.social_media_posts other
+      WHERE other.user_id = p.user_id
+        AND other.id <> p.id
+        AND other.created_at >= wt.created_at
+        AND other.created_at < p.created_at
+    )
+  ORDER BY wt.created_at DESC
+  LIMIT 1;
+$$;
@@ -0,0 +1,14 @@
+-- =====================================================
+-- Migration: onboarding_verifications written by the service role only
+-- Description: Drop the owner insert/update policies; saveVerification
+--              writes answers, flags and the interview gate server-side
+-- Date: 2025-11-28
+-- Issue: flags, requires_interview and interview_completed_at live on the
+--        user's own row, and onboarding_update_own let a candidate clear
+--        their interview gate and reviewer flags with a direct update.
+-- =====================================================
+
+DROP POLICY IF EXISTS "onboarding_insert_own" ON public.onboarding_verifications;
+DROP POLICY IF EXISTS "onboarding_update_own" ON public.onboarding_verifications;
+
+-- onboarding_select_own stays: the onboarding flow reads its own answers
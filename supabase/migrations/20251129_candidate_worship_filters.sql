@@ -0,0 +1,84 @@
+-- =====================================================
+-- Migration: Worship filters from the CV form fields
+-- Description: approved_candidates_v derives salat_status / quran_ability
+--              from the keys the CV form stores (prayer_fardu,
+--              quran_reading) and maps their values to the filter enums
+-- Date: 2025-11-29
+-- Issue: The view read worship_profile->>'salat_status' / 'quran_ability',
+--        which only the unused features/cv/server/actions.ts writes. CVs
+--        saved through the form hold prayer_fardu = 'terjaga',
+--        quran_reading = 'masih belajar' etc., so the salat and Quran
+--        filters matched no CV and the shortlist compare showed "-".
+-- =====================================================
+
+-- =====================================================
+-- approved_candidates_v: salat_status / quran_ability mapped from
+--   prayer_fardu   terjaga | kadang-kadang | belum istiqomah
+--   quran_reading  lancar | masih belajar | belum bisa
+-- (salat_status / quran_ability enum values are still accepted)
+-- Same definition as 20251119_avatar_privacy otherwise
+-- =====================================================
+DROP MATERIALIZED VIEW IF EXISTS public.approved_candidates_v CASCADE;
+
+CREATE MATERIALIZED VIEW public.approved_candidates_v AS
+SELECT
+  cd.user_id,
+  cd.candidate_code,
+  cd.full_name,
+  cd.birth_date,
+  cd.marital_status,
+  CASE WHEN COALESCE(cd.gender, p.gender) = 'IKHWAN'
+    THEN 'MALE'
+    ELSE 'FEMALE'
+  END as gender_label,
+  COALESCE(cd.occupation, p.occupation) as occupation,
+  EXTRACT(YEAR FROM AGE(COALESCE(cd.birth_date, p.dob)))::int as age,
+  COALESCE(pr.name, 'N/A') as province,
+  COALESCE(cd.province_id, p.province_id) as province_id,
+  COALESCE(cd.education, p.education) as education,
+  cd.income_bracket,
+  cd.height_cm,
+  cd.weight_kg,
+  cd.disease_history,
+  CASE lower(trim(COALESCE(det.worship_profile->>'prayer_fardu', det.worship_profile->>'salat_status')))
+    WHEN 'terjaga' THEN 'TERJAGA'
+    WHEN 'kadang-kadang' THEN 'KADANG'
+    WHEN 'kadang' THEN 'KADANG'
+    WHEN 'belum istiqomah' THEN 'BELUM_ISTIQOMAH'
+    WHEN 'belum_istiqomah' THEN 'BELUM_ISTIQOMAH'
+  END as salat_status,
+  CASE lower(trim(COALESCE(det.worship_profile->>'quran_reading', det.worship_profile->>'quran_ability')))
+    WHEN 'lancar' THEN 'LANCAR'
+    WHEN 'masih belajar' THEN 'BELAJAR'
+    WHEN 'belajar' THEN 'BELAJAR'
+    WHEN 'belum bisa' THEN 'BELUM_BISA'
+    WHEN 'belum_bisa' THEN 'BELUM_BISA'
+  END as quran_ability,
+  p.avatar_blur_path,
+  p.avatar_visibility,
+  cd.updated_at as cv_updated_at,
+  cd.approved_at
+FROM public.cv_data cd
+JOIN public.profiles p ON p.user_id = cd.user_id
+LEFT JOIN public.cv_details det ON det.user_id = cd.user_id
+LEFT JOIN public.provinces pr ON pr.id = COALESCE(cd.province_id, p.province_id)
+WHERE cd.status = 'APPROVED'
+  AND cd.allow_public = true;
+
+CREATE UNIQUE INDEX approved_candidates_user_id_idx ON public.approved_candidates_v (user_id);
+CREATE INDEX approved_candidates_gender_idx ON public.approved_candidates_v (gender_label);
+CREATE INDEX approved_candidates_age_idx ON public.approved_candidates_v (age);
+CREATE INDEX approved_candidates_province_idx ON public.approved_candidates_v (province);
+CREATE INDEX approved_candidates_education_idx ON public.approved_candidates_v (education);
+CREATE INDEX approved_candidates_approved_at_idx ON public.approved_candidates_v (approved_at);
+CREATE INDEX approved_candidates_height_idx ON public.approved_candidates_v (height_cm);
+CREATE INDEX approved_candidates_marital_status_idx ON public.approved_candidates_v (marital_status);
+CREATE INDEX approved_candidates_income_idx ON public.approved_candidates_v (income_bracket);
+CREATE INDEX approved_candidates_salat_idx ON public.approved_candidates_v (salat_status);
+CREATE INDEX approved_candidates_quran_idx ON public.approved_candidates_v (quran_ability);
+-- Occupation keyword search (ILIKE '%...%')
+CREATE INDEX approved_candidates_occupation_trgm_idx
+  ON public.approved_candidates_v USING GIN (occupation gin_trgm_ops);
+
+COMMENT ON MATERIALIZED VIEW public.approved_candidates_v IS
+  'Materialized view untuk approved candidates (avatar_blur_path + avatar_visibility, approved_at, salat_status/quran_ability untuk filter lanjutan)';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration: Notifications are inserted by the service role only
+-- Description: Drop the insert policy that let any signed-in user write
+--              notifications; the backend writes them with the service role
+--              (createNotification) and SECURITY DEFINER RPCs
+-- Date: 2025-11-30
+-- Issue: notifications_insert_service was TO authenticated WITH CHECK
+--        (true). Since 20251112 every notification is also sent by email /
+--        WhatsApp (and to the wali with a magic link), so any user could
+--        send arbitrary text to anyone through Roomah's senders.
+-- =====================================================
+
+DROP POLICY IF EXISTS "notifications_insert_service" ON public.notifications;
@@ -27,15 +27,25 @@ export type CVStatus = 'DRAFT' | 'REVIEW' | 'REVISI' | 'APPROVED'
 
 export type MaritalStatus = 'SINGLE' | 'JANDA' | 'DUDA'
 
+export type SocialMediaPostStatus = 'PENDING' | 'SCHEDULED' | 'POSTED' | 'REJECTED'
+
+export type SalatStatus = 'TERJAGA' | 'KADANG' | 'BELUM_ISTIQOMAH'
+
+export type QuranAbility = 'LANCAR' | 'BELAJAR' | 'BELUM_BISA'
+
+export type AvatarVisibility = 'HIDDEN' | 'BLURRED' | 'MEMBERS'
+
 export type TaarufRequestStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
 
 export type TaarufSessionStatus = 'ACTIVE' | 'FINISHED' | 'COMPLETED' | 'CANCELLED'
 
+export type TaarufStage = 'Zoom 1' | 'Zoom 2' | 'Khitbah' | 'Selesai' | 'Dibatalkan'
+
 export type PaymentStatus = 'PENDING' | 'SETTLEMENT' | 'CANCEL' | 'EXPIRE' | 'REFUND' | 'CHARGEBACK'
 
 export type LedgerType = 'CREDIT' | 'DEBIT'
 
-export type LedgerReason = 'TOPUP' | 'TAARUF_COST' | 'ADJUSTMENT' | 'REFUND' | 'CHARGEBACK'
+export type LedgerReason = 'TOPUP' | 'TAARUF_COST' | 'ADJUSTMENT' | 'REFUND' | 'CHARGEBACK' | 'SOCIAL_MEDIA_POST'
 
 // ============================================================================
 // TABLE TYPES
@@ -50,7 +60,12 @@ export interface Profile {
   province_id: number | null
   education: EducationEnum | null
   occupation: string | null
+  /** Full avatar, only for the owner and admins */
   avatar_path: string | null
+  /** Blurred low-res avatar shown in candidate listings */
+  avatar_blur_path: string | null
+  /** Who sees the photo before a taaruf is accepted */
+  avatar_visibility: AvatarVisibility
   is_admin: boolean
   registered_at: string | null
   koin_balance: number
@@ -85,6 +100,8 @@ export interface CVData {
   status: CVStatus
   allow_public: boolean
   admin_note: string | null
+  /** Last time the CV became APPROVED */
+  approved_at: string | null
   created_at: string
   updated_at: string
 }
@@ -112,11 +129,17 @@ export interface ApprovedCandidate {
   province: string
   education: EducationEnum
   occupation: string
+  marital_status: MaritalStatus | null
   income_bracket: IncomeBracket
   height_cm: number
   weight_kg: number
+  salat_status: SalatStatus | null
+  quran_ability: QuranAbility | null
+  avatar_blur_path: string | null
+  avatar_visibility: AvatarVisibility
   allow_public: boolean
   cv_updated_at: string
+  approved_at: string | null
   taaruf_status: 'DALAM_PROSES' | 'SIAP_BERTAARUF'
 }
 
@@ -129,18 +152,158 @@ export interface TaarufRequest {
   expires_at: string
   responded_at: string | null
   reject_reason: string | null
+  idempotency_key: string | null
+}
+
+export interface AjukanTaarufResult {
+  request_id: number | null
+  expires_at: string | null
+  charged_cents: number
+  balance_cents: number | null
+  replayed: boolean | null
+  error_code: string | null
+  active_taaruf_code: string | null
+  existing_status: string | null
 }
 
 export interface TaarufSession {
   id: string
+  taaruf_code: string
   user_a: string
   user_b: string
   status: TaarufSessionStatus
+  current_stage: TaarufStage
+  stage_updated_at: string
+  ended_by: string | null
+  end_reason: string | null
+  end_note: string | null
   started_at: string
   ended_at: string | null
   created_at: string
 }
 
+export interface TaarufStageHistory {
+  id: number
+  session_id: number
+  from_stage: TaarufStage | null
+  to_stage: TaarufStage
+  changed_by: string | null
+  reason: string | null
+  created_at: string
+}
+
+export type TaarufMeetingStatus = 'SCHEDULED' | 'CANCELLED' | 'ATTENDED' | 'NO_SHOW'
+
+export interface TaarufMeeting {
+  id: number
+  taaruf_id: number
+  stage: TaarufStage
+  scheduled_at: string
+  ends_at: string
+  zoom_link: string
+  notes: string | null
+  moderator_id: string | null
+  moderator_notes: string | null
+  status: TaarufMeetingStatus
+  no_show_user_id: string | null
+  cancel_reason: string | null
+  cancelled_at: string | null
+  reschedule_count: number
+  /** Wali confirmed attending; reset on reschedule */
+  guardian_confirmed_at: string | null
+  guardian_confirmed_by: number | null
+  created_by: string | null
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type TaarufQaStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+/** Question (question_id null) or answer in a session's moderated Q&A */
+export interface TaarufQaMessage {
+  id: number
+  taaruf_id: number
+  question_id: number | null
+  sender_id: string
+  body: string
+  status: TaarufQaStatus
+  reject_reason: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+export type GuardianRelation = 'AYAH' | 'KAKEK' | 'SAUDARA' | 'PAMAN' | 'WALI_HAKIM' | 'LAINNYA'
+
+/** Wali contact registered by an akhwat (one per user) */
+export interface TaarufGuardian {
+  id: number
+  user_id: string
+  name: string
+  relation: GuardianRelation
+  email: string | null
+  phone: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Magic link into one taaruf session; only the token hash is stored */
+export interface TaarufGuardianLink {
+  id: number
+  guardian_id: number
+  taaruf_id: number
+  token_hash: string
+  expires_at: string
+  last_used_at: string | null
+  created_at: string
+}
+
+export interface EndTaarufSessionResult {
+  session_id: number | null
+  taaruf_code: string | null
+  other_user: string | null
+  ended_at: string | null
+  error_code: string | null
+}
+
+export interface ChangeTaarufStageResult {
+  history_id: number | null
+  current_stage: TaarufStage | null
+  changed_at: string | null
+  error_code: string | null
+}
+
+export interface CvVersion {
+  id: number
+  user_id: string
+  version_number: number
+  cv_data: Record<string, unknown>
+  cv_details: Record<string, unknown> | null
+  submitted_at: string
+  review_decision: 'APPROVED' | 'REVISI' | null
+  admin_note: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+}
+
+export interface CvRevisionComment {
+  id: number
+  user_id: string
+  field_key: string
+  comment: string
+  created_by: string | null
+  created_at: string
+  acknowledged_at: string | null
+  resolved_at: string | null
+}
+
+export interface CvVersionRpcResult {
+  version_id: number | null
+  version_number?: number | null
+  error_code: string | null
+}
+
 export interface TaarufSessionReport {
   id: string
   session_id: string
@@ -167,6 +330,60 @@ export interface WalletTransaction {
   linked_order_id: string | null
 }
 
+export type WalletHoldStatus = 'HELD' | 'CAPTURED' | 'RELEASED'
+
+export interface WalletHold {
+  id: number
+  user_id: string
+  amount_cents: number
+  reason: LedgerReason
+  reference: string | null
+  idempotency_key: string
+  status: WalletHoldStatus
+  expires_at: string | null
+  ledger_entry_id: number | null
+  created_at: string
+  settled_at: string | null
+}
+
+export interface WalletBalance {
+  user_id: string
+  balance_cents: number
+  held_cents: number
+  available_cents: number
+}
+
+export interface WalletPostEntryResult {
+  entry_id: number | null
+  balance_cents: number | null
+  available_cents: number | null
+  replayed: boolean | null
+  error_code: string | null
+}
+
+export interface WalletPlaceHoldResult {
+  hold_id: number | null
+  available_cents: number | null
+  replayed: boolean | null
+  error_code: string | null
+}
+
+export interface WalletSettleHoldResult {
+  hold_id: number | null
+  status: WalletHoldStatus | null
+  entry_id: number | null
+  error_code: string | null
+}
+
+export interface WalletReconciliationRow {
+  user_id: string
+  email: string
+  cached_koin: number
+  ledger_cents: number
+  ledger_koin: number
+  difference_koin: number
+}
+
 export interface KoinTopupOrder {
   order_id: string
   user_id: string
@@ -182,34 +399,224 @@ export interface KoinTopupOrder {
 
 export interface PaymentRefund {
   id: string
-  transaction_id: string
+  transaction_id: number
+  user_id: string | null
+  initiated_by: string | null
+  amount_cents: number | null
+  /** Legacy column, koin */
+  refund_amount: number
+  refund_reason: string
+  status: string
+  midtrans_refund_id: string | null
+  refund_response: Json | null
+  ledger_entry_id: number | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WalletRefundEntryResult {
+  refund_id: string | null
+  entry_id: number | null
+  refunded_cents: number | null
+  refundable_cents: number | null
+  error_code: string | null
+}
+
+export interface WalletRefundSummaryRow {
+  transaction_id: number
+  refunded_cents: number
+  refundable_cents: number
+}
+
+export interface Notification {
+  id: number
   user_id: string
-  amount_cents: number
-  reason: string
-  status: PaymentStatus
-  admin_id: string | null
-  admin_note: string | null
-  processed_at: string | null
-  refund_proof: string | null
+  type: string
+  title: string
+  message: string | null
+  data: Json | null
+  is_read: boolean
+  created_at: string
+  read_at: string | null
+}
+
+export type NotificationChannel = 'EMAIL' | 'WHATSAPP'
+
+export type NotificationDeliveryStatus = 'PENDING' | 'SENDING' | 'SENT' | 'FAILED' | 'SKIPPED'
+
+/** cari-jodoh URL params, empty / missing = no filter */
+export interface SavedSearchFilters {
+  gender?: string
+  ageRange?: string
+  education?: string
+  province?: string
+  minHeight?: string
+  maxHeight?: string
+  /** Comma-separated lists, e.g. "SINGLE,JANDA" */
+  maritalStatus?: string
+  income?: string
+  salat?: string
+  quran?: string
+  occupation?: string
+}
+
+export interface SavedSearch {
+  id: number
+  user_id: string
+  name: string
+  filters: SavedSearchFilters
+  notify: boolean
+  last_notified_at: string
   created_at: string
   updated_at: string
 }
 
+export interface CandidateSearchVisit {
+  user_id: string
+  previous_visit_at: string | null
+  last_seen_at: string
+}
+
+export interface CandidateShortlistEntry {
+  id: number
+  user_id: string
+  candidate_id: string
+  note: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Anonymised CV snapshot a social media post is rendered from */
+export interface SocialPostCard {
+  candidate_code: string | null
+  gender: GenderEnum | null
+  age: number | null
+  province: string | null
+  education: EducationEnum | null
+  vision: string | null
+}
+
+export interface SocialMediaPost {
+  id: string
+  user_id: string
+  status: SocialMediaPostStatus
+  caption: string | null
+  card: SocialPostCard | null
+  scheduled_at: string | null
+  post_url: string | null
+  rejected_reason: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  posted_by: string | null
+  posted_at: string | null
+  wallet_hold_id: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface NotificationPreferences {
+  user_id: string
+  email_enabled: boolean
+  whatsapp_enabled: boolean
+  updated_at: string
+}
+
+export interface NotificationDelivery {
+  id: number
+  notification_id: number
+  user_id: string
+  channel: NotificationChannel
+  /** Wali copy of the user's notification */
+  guardian_id: number | null
+  status: NotificationDeliveryStatus
+  attempts: number
+  next_attempt_at: string
+  locked_at: string | null
+  transport: string | null
+  recipient: string | null
+  provider_message_id: string | null
+  last_error: string | null
+  sent_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface NotificationOutboxMessage {
+  id: number
+  delivery_id: number | null
+  channel: NotificationChannel
+  recipient: string
+  subject: string | null
+  body: string
+  attachments: Json | null
+  created_at: string
+}
+
+export interface PaymentWebhookInbox {
+  id: number
+  provider: string
+  order_id: string
+  transaction_status: string
+  status_code: string
+  payload: Json
+  received_count: number
+  received_at: string
+  last_received_at: string
+  processed_at: string | null
+  process_result: string | null
+  attempts: number
+  last_error: string | null
+}
+
+export interface ProcessPaymentNotificationResult {
+  inbox_id?: number | null
+  duplicate?: boolean | null
+  order_id: string | null
+  order_status: PaymentStatus | null
+  ledger_entries: number | null
+  result: string | null
+  error_code: string | null
+}
+
 export interface Province {
   id: number
   name: string
 }
 
+export type OnboardingConsequence = 'NONE' | 'FLAG_REVIEW' | 'REQUIRE_INTERVIEW' | 'BLOCK'
+
+export interface OnboardingQuestion {
+  id: number
+  question: string
+  commitment_text: string | null
+  negative_consequence: OnboardingConsequence
+  block_message: string | null
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** One "Tidak" answer, snapshotted in onboarding_verifications.flags */
+export interface OnboardingFlag {
+  question_id: number
+  question: string
+  consequence: OnboardingConsequence
+  commitment: string | null
+}
+
 export interface OnboardingVerification {
   user_id: string
-  phone_verified: boolean
-  email_verified: boolean
-  identity_verified: boolean
-  cv_submitted: boolean
-  cv_approved: boolean
-  profile_complete: boolean
-  onboarding_completed: boolean
-  verified_at: string | null
+  q1: boolean
+  q2: boolean
+  q3: boolean
+  q4: boolean
+  q5: boolean
+  committed: boolean
+  flags: OnboardingFlag[]
+  requires_interview: boolean
+  interview_completed_at: string | null
+  interview_completed_by: string | null
   created_at: string
   updated_at: string
 }
@@ -259,6 +666,23 @@ export interface AuditLog {
   created_at: string
 }
 
+export type AdminRoleName = 'superadmin' | 'reviewer' | 'finance' | 'moderator'
+
+export interface AdminRole {
+  user_id: string
+  role: AdminRoleName
+  granted_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SetAdminRoleResult {
+  user_id: string
+  role: AdminRoleName | null
+  previous_role: AdminRoleName | null
+  error_code: string | null
+}
+
 export interface AdminAction {
   id: string
   admin_id: string
@@ -332,10 +756,20 @@ export interface SocialMediaPlatformSetting {
 
 export interface Sequence {
   seq_key: string
-  current_value: number
+  last_number: number
   updated_at: string
 }
 
+export type SequenceCodeEntity = 'cv_data' | 'taaruf_sessions'
+
+export interface SequenceCodeRepairRow {
+  entity: SequenceCodeEntity
+  entity_id: string
+  issue: 'MISSING' | 'DUPLICATE'
+  old_code: string | null
+  new_code: string | null
+}
+
 // ============================================================================
 // COMPATIBILITY VIEWS (for backend)
 // ============================================================================
@@ -396,6 +830,32 @@ export interface Database {
         Insert: Omit<TaarufSession, 'id' | 'created_at'>
         Update: Partial<TaarufSession>
       }
+      taaruf_stage_history: {
+        Row: TaarufStageHistory
+        Insert: Omit<TaarufStageHistory, 'id' | 'created_at'>
+        Update: Partial<TaarufStageHistory>
+      }
+      taaruf_meetings: {
+        Row: TaarufMeeting
+        Insert: Pick<TaarufMeeting, 'taaruf_id' | 'stage' | 'scheduled_at' | 'ends_at' | 'zoom_link'> &
+          Partial<TaarufMeeting>
+        Update: Partial<TaarufMeeting>
+      }
+      taaruf_qa_messages: {
+        Row: TaarufQaMessage
+        Insert: Pick<TaarufQaMessage, 'taaruf_id' | 'sender_id' | 'body'> & Partial<TaarufQaMessage>
+        Update: Partial<TaarufQaMessage>
+      }
+      cv_versions: {
+        Row: CvVersion
+        Insert: Omit<CvVersion, 'id' | 'submitted_at'>
+        Update: Partial<CvVersion>
+      }
+      cv_revision_comments: {
+        Row: CvRevisionComment
+        Insert: Omit<CvRevisionComment, 'id' | 'created_at' | 'acknowledged_at' | 'resolved_at'>
+        Update: Partial<CvRevisionComment>
+      }
       taaruf_session_reports: {
         Row: TaarufSessionReport
         Insert: Omit<TaarufSessionReport, 'id' | 'created_at' | 'updated_at'>
@@ -406,6 +866,11 @@ export interface Database {
         Insert: Omit<WalletTransaction, 'id' | 'created_at'>
         Update: Partial<WalletTransaction>
       }
+      wallet_holds: {
+        Row: WalletHold
+        Insert: Omit<WalletHold, 'id' | 'created_at' | 'status' | 'ledger_entry_id' | 'settled_at'>
+        Update: Partial<WalletHold>
+      }
       koin_topup_orders: {
         Row: KoinTopupOrder
         Insert: Omit<KoinTopupOrder, 'created_at' | 'updated_at'>
@@ -416,6 +881,62 @@ export interface Database {
         Insert: Omit<PaymentRefund, 'id' | 'created_at' | 'updated_at'>
         Update: Partial<PaymentRefund>
       }
+      notifications: {
+        Row: Notification
+        Insert: Omit<Notification, 'id' | 'is_read' | 'created_at' | 'read_at'>
+        Update: Partial<Notification>
+      }
+      saved_searches: {
+        Row: SavedSearch
+        Insert: Pick<SavedSearch, 'user_id' | 'name'> & Partial<SavedSearch>
+        Update: Partial<SavedSearch>
+      }
+      candidate_search_visits: {
+        Row: CandidateSearchVisit
+        Insert: Pick<CandidateSearchVisit, 'user_id'> & Partial<CandidateSearchVisit>
+        Update: Partial<CandidateSearchVisit>
+      }
+      taaruf_guardians: {
+        Row: TaarufGuardian
+        Insert: Pick<TaarufGuardian, 'user_id' | 'name' | 'relation'> & Partial<TaarufGuardian>
+        Update: Partial<TaarufGuardian>
+      }
+      taaruf_guardian_links: {
+        Row: TaarufGuardianLink
+        Insert: Pick<TaarufGuardianLink, 'guardian_id' | 'taaruf_id' | 'token_hash' | 'expires_at'> &
+          Partial<TaarufGuardianLink>
+        Update: Partial<TaarufGuardianLink>
+      }
+      candidate_shortlist: {
+        Row: CandidateShortlistEntry
+        Insert: Pick<CandidateShortlistEntry, 'user_id' | 'candidate_id'> & Partial<CandidateShortlistEntry>
+        Update: Partial<CandidateShortlistEntry>
+      }
+      social_media_posts: {
+        Row: SocialMediaPost
+        Insert: Pick<SocialMediaPost, 'user_id'> & Partial<SocialMediaPost>
+        Update: Partial<SocialMediaPost>
+      }
+      notification_preferences: {
+        Row: NotificationPreferences
+        Insert: Pick<NotificationPreferences, 'user_id'> & Partial<NotificationPreferences>
+        Update: Partial<NotificationPreferences>
+      }
+      notification_deliveries: {
+        Row: NotificationDelivery
+        Insert: Pick<NotificationDelivery, 'notification_id' | 'user_id' | 'channel'> & Partial<NotificationDelivery>
+        Update: Partial<NotificationDelivery>
+      }
+      notification_outbox: {
+        Row: NotificationOutboxMessage
+        Insert: Omit<NotificationOutboxMessage, 'id' | 'created_at'>
+        Update: Partial<NotificationOutboxMessage>
+      }
+      payment_webhook_inbox: {
+        Row: PaymentWebhookInbox
+        Insert: Omit<PaymentWebhookInbox, 'id' | 'received_at' | 'last_received_at'>
+        Update: Partial<PaymentWebhookInbox>
+      }
       provinces: {
         Row: Province
         Insert: Province
@@ -426,6 +947,11 @@ export interface Database {
         Insert: Omit<OnboardingVerification, 'created_at' | 'updated_at'>
         Update: Partial<OnboardingVerification>
       }
+      onboarding_questions: {
+        Row: OnboardingQuestion
+        Insert: Omit<OnboardingQuestion, 'created_at' | 'updated_at'>
+        Update: Partial<OnboardingQuestion>
+      }
       cv_verification_queue: {
         Row: CVVerificationQueue
         Insert: Omit<CVVerificationQueue, 'id' | 'created_at' | 'updated_at'>
@@ -441,6 +967,11 @@ export interface Database {
         Insert: Omit<AuditLog, 'id' | 'created_at'>
         Update: never
       }
+      admin_roles: {
+        Row: AdminRole
+        Insert: Omit<AdminRole, 'created_at' | 'updated_at'>
+        Update: Partial<AdminRole>
+      }
       admin_actions_audit: {
         Row: AdminAction
         Insert: Omit<AdminAction, 'id' | 'created_at'>
@@ -484,6 +1015,9 @@ export interface Database {
       wallet_ledger_entries: {
         Row: WalletLedgerEntry
       }
+      wallet_balances_v: {
+        Row: WalletBalance
+      }
       payment_transactions: {
         Row: PaymentTransaction
       }
@@ -501,6 +1035,131 @@ export interface Database {
         Args: Record<string, never>
         Returns: void
       }
+      ajukan_taaruf: {
+        Args: { p_to_user: string; p_idempotency_key: string }
+        Returns: AjukanTaarufResult[]
+      }
+      wallet_social_post_debit: {
+        Args: { p_post_id: string }
+        Returns: number | null
+      }
+      taaruf_cost_cents: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      change_taaruf_stage: {
+        Args: {
+          p_session_id: number
+          p_from_stage: TaarufStage
+          p_to_stage: TaarufStage
+          p_changed_by: string
+          p_reason?: string | null
+        }
+        Returns: ChangeTaarufStageResult[]
+      }
+      claim_notification_deliveries: {
+        Args: { p_limit?: number }
+        Returns: NotificationDelivery[]
+      }
+      end_taaruf_session: {
+        Args: { p_session_id: number; p_reason: string; p_note?: string | null }
+        Returns: EndTaarufSessionResult[]
+      }
+      snapshot_cv_version: {
+        Args: { p_user_id: string }
+        Returns: CvVersionRpcResult[]
+      }
+      record_cv_review: {
+        Args: { p_user_id: string; p_decision: 'APPROVED' | 'REVISI'; p_note?: string | null }
+        Returns: CvVersionRpcResult[]
+      }
+      acknowledge_cv_revision_comment: {
+        Args: { p_comment_id: number }
+        Returns: { comment_id: number | null; acknowledged_at: string | null; error_code: string | null }[]
+      }
+      resolve_cv_revision_comments: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      wallet_post_entry: {
+        Args: {
+          p_user_id: string
+          p_type: LedgerType
+          p_amount_cents: number
+          p_reason: LedgerReason
+          p_idempotency_key: string
+          p_linked_order_id?: string | null
+        }
+        Returns: WalletPostEntryResult[]
+      }
+      wallet_place_hold: {
+        Args: {
+          p_user_id: string
+          p_amount_cents: number
+          p_reason: LedgerReason
+          p_idempotency_key: string
+          p_reference?: string | null
+          p_expires_at?: string | null
+        }
+        Returns: WalletPlaceHoldResult[]
+      }
+      wallet_settle_hold: {
+        Args: { p_hold_id: number; p_capture: boolean }
+        Returns: WalletSettleHoldResult[]
+      }
+      wallet_sync_cached_balance: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      wallet_reconciliation: {
+        Args: Record<string, never>
+        Returns: WalletReconciliationRow[]
+      }
+      ingest_midtrans_notification: {
+        Args: { p_payload: Json }
+        Returns: ProcessPaymentNotificationResult[]
+      }
+      process_payment_notification: {
+        Args: { p_inbox_id: number; p_force?: boolean }
+        Returns: ProcessPaymentNotificationResult[]
+      }
+      wallet_refund_entry: {
+        Args: {
+          p_transaction_id: number
+          p_amount_cents: number | null
+          p_reason: string
+          p_admin_id?: string | null
+        }
+        Returns: WalletRefundEntryResult[]
+      }
+      wallet_refund_summary: {
+        Args: { p_transaction_ids: number[] }
+        Returns: WalletRefundSummaryRow[]
+      }
+      current_admin_role: {
+        Args: Record<string, never>
+        Returns: AdminRoleName | null
+      }
+      has_admin_role: {
+        Args: { p_roles: AdminRoleName[] }
+        Returns: boolean
+      }
+      set_admin_role: {
+        Args: { p_user_id: string; p_role: AdminRoleName | null }
+        Returns: SetAdminRoleResult[]
+      }
+      generate_candidate_code: {
+        Args: { p_gender: GenderEnum }
+        Returns: string
+      }
+      generate_taaruf_code: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      repair_sequence_codes: {
+        Args: { p_apply?: boolean }
+        Returns: SequenceCodeRepairRow[]
+      }
     }
     Enums: {
       gender_enum: GenderEnum
@@ -508,6 +1167,7 @@ export interface Database {
       income_bracket_enum: IncomeBracket
       cv_status_enum: CVStatus
       marital_status_enum: MaritalStatus
+      avatar_visibility: AvatarVisibility
       taaruf_request_status: TaarufRequestStatus
       taaruf_session_status: TaarufSessionStatus
       payment_status: PaymentStatus